@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "payout_proposals" ADD COLUMN     "auditedAt" TIMESTAMP(3),
+ADD COLUMN     "auditedBy" TEXT,
+ADD COLUMN     "releasedAt" TIMESTAMP(3),
+ADD COLUMN     "sponsorNotes" TEXT,
+ADD COLUMN     "sponsorRejectedAt" TIMESTAMP(3);
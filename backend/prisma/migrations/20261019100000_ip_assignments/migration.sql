@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "ip_assignments" (
+    "id" TEXT NOT NULL,
+    "challengeId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "agreementVersion" TEXT NOT NULL,
+    "contentHash" TEXT NOT NULL,
+    "signedName" TEXT NOT NULL,
+    "signedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ip_assignments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ip_assignments_userId_idx" ON "ip_assignments"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ip_assignments_challengeId_userId_key" ON "ip_assignments"("challengeId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "ip_assignments" ADD CONSTRAINT "ip_assignments_challengeId_fkey" FOREIGN KEY ("challengeId") REFERENCES "challenges"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ip_assignments" ADD CONSTRAINT "ip_assignments_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
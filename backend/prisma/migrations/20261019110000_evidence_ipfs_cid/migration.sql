@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "evidence_packages" ADD COLUMN "ipfsCid" TEXT;
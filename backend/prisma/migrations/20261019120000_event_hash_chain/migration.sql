@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "events" ADD COLUMN "sequence" INTEGER,
+ADD COLUMN "prevHash" TEXT,
+ADD COLUMN "entityPrevHash" TEXT,
+ADD COLUMN "chainHash" TEXT;
+
+-- Number existing events in insertion order. They keep a NULL chainHash and are
+-- reported as legacy (unchained) events by the chain verifier.
+UPDATE "events" e
+SET "sequence" = numbered.seq
+FROM (
+  SELECT "id", ROW_NUMBER() OVER (ORDER BY "createdAt", "id") AS seq
+  FROM "events"
+) numbered
+WHERE e."id" = numbered."id";
+
+ALTER TABLE "events" ALTER COLUMN "sequence" SET NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "events_sequence_key" ON "events"("sequence");
+
+-- CreateIndex
+CREATE INDEX "events_entityType_entityId_sequence_idx" ON "events"("entityType", "entityId", "sequence");
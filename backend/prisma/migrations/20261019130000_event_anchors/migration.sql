@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "event_anchors" (
+    "id" TEXT NOT NULL,
+    "fromSequence" INTEGER NOT NULL,
+    "toSequence" INTEGER NOT NULL,
+    "eventCount" INTEGER NOT NULL,
+    "merkleRoot" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "txHash" TEXT,
+    "chainId" INTEGER,
+    "blockNumber" INTEGER,
+    "error" TEXT,
+    "anchoredAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "event_anchors_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "event_anchors_fromSequence_toSequence_idx" ON "event_anchors"("fromSequence", "toSequence");
+
+-- CreateIndex
+CREATE INDEX "event_anchors_status_idx" ON "event_anchors"("status");
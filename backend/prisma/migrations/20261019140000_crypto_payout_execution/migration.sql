@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "payments" ADD COLUMN "signedTx" TEXT,
+ADD COLUMN "payoutClaimedAt" TIMESTAMP(3),
+ADD COLUMN "failureReason" TEXT;
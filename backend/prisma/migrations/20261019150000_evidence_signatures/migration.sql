@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "evidence_packages" ADD COLUMN "signature" TEXT,
+ADD COLUMN "signatureKeyId" TEXT;
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "evidence_packages" ADD COLUMN "revokedAt" TIMESTAMP(3),
+ADD COLUMN "revokedBy" TEXT,
+ADD COLUMN "revocationReason" TEXT;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "challenges" ADD COLUMN "moderationThresholds" JSONB;
+
+-- AlterTable
+ALTER TABLE "safety_moderation_results" ADD COLUMN "analyzers" TEXT[] DEFAULT ARRAY[]::TEXT[];
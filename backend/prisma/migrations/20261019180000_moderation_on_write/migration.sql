@@ -0,0 +1,19 @@
+-- AlterTable
+ALTER TABLE "contributions" ADD COLUMN "moderationStatus" TEXT NOT NULL DEFAULT 'CLEAR';
+
+-- AlterTable
+ALTER TABLE "proposals" ADD COLUMN "moderationStatus" TEXT NOT NULL DEFAULT 'CLEAR';
+
+-- AlterTable
+ALTER TABLE "submissions" ADD COLUMN "moderationStatus" TEXT NOT NULL DEFAULT 'CLEAR';
+
+-- AlterTable
+ALTER TABLE "safety_incidents" ADD COLUMN "entityType" TEXT,
+ADD COLUMN "entityId" TEXT,
+ADD COLUMN "authorId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "safety_incidents_entityType_entityId_idx" ON "safety_incidents"("entityType", "entityId");
+
+-- AddForeignKey
+ALTER TABLE "safety_incidents" ADD CONSTRAINT "safety_incidents_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
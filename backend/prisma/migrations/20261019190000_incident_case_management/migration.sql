@@ -0,0 +1,29 @@
+-- AlterTable
+ALTER TABLE "safety_incidents" ADD COLUMN "assignedAt" TIMESTAMP(3),
+ADD COLUMN "resolvedById" TEXT;
+
+-- CreateTable
+CREATE TABLE "safety_incident_notes" (
+    "id" TEXT NOT NULL,
+    "incidentId" TEXT NOT NULL,
+    "authorId" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "safety_incident_notes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "safety_incident_notes_incidentId_createdAt_idx" ON "safety_incident_notes"("incidentId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "safety_incidents" ADD CONSTRAINT "safety_incidents_resolvedById_fkey" FOREIGN KEY ("resolvedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "safety_incident_notes" ADD CONSTRAINT "safety_incident_notes_incidentId_fkey" FOREIGN KEY ("incidentId") REFERENCES "safety_incidents"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "safety_incident_notes" ADD CONSTRAINT "safety_incident_notes_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Backfill: incidents already picked up count as assigned when they were raised
+UPDATE "safety_incidents" SET "assignedAt" = "createdAt" WHERE "assignedTo" IS NOT NULL;
@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE "safety_appeals" (
+    "id" TEXT NOT NULL,
+    "moderationResultId" TEXT NOT NULL,
+    "appellantId" TEXT NOT NULL,
+    "reason" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "decidedById" TEXT,
+    "decisionNotes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "decidedAt" TIMESTAMP(3),
+
+    CONSTRAINT "safety_appeals_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "safety_appeals_moderationResultId_key" ON "safety_appeals"("moderationResultId");
+
+-- CreateIndex
+CREATE INDEX "safety_appeals_status_createdAt_idx" ON "safety_appeals"("status", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "safety_appeals" ADD CONSTRAINT "safety_appeals_moderationResultId_fkey" FOREIGN KEY ("moderationResultId") REFERENCES "safety_moderation_results"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "safety_appeals" ADD CONSTRAINT "safety_appeals_appellantId_fkey" FOREIGN KEY ("appellantId") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "safety_appeals" ADD CONSTRAINT "safety_appeals_decidedById_fkey" FOREIGN KEY ("decidedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,15 @@
+-- Provision the system actor (see src/config/systemActor.ts).
+-- Runs separately from the enum change so the new SYSTEM value is committed first.
+-- The password hash is not a valid bcrypt hash, so no password can ever match it.
+INSERT INTO "users" ("id", "email", "passwordHash", "profile", "createdAt", "updatedAt", "role", "kycStatus")
+VALUES (
+    'system',
+    'system@oddly-brilliant.internal',
+    '!',
+    '{"displayName": "Oddly Brilliant (automated)"}',
+    CURRENT_TIMESTAMP,
+    CURRENT_TIMESTAMP,
+    'SYSTEM',
+    'NOT_REQUIRED'
+)
+ON CONFLICT ("id") DO NOTHING;
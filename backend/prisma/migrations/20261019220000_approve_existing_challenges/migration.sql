@@ -0,0 +1,7 @@
+-- Public challenge listings now only show challenges approved in vetting.
+-- Challenges created before vetting was enforced were already public, so keep them that way.
+UPDATE "challenges"
+SET "vettingStatus" = 'APPROVED',
+    "vettingNotes" = 'Published before vetting was enforced',
+    "vettedAt" = CURRENT_TIMESTAMP
+WHERE "vettingStatus" = 'PENDING';
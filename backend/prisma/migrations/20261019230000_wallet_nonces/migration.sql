@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "wallet_nonces" (
+    "id" TEXT NOT NULL,
+    "nonce" TEXT NOT NULL,
+    "address" TEXT NOT NULL,
+    "purpose" TEXT NOT NULL,
+    "userId" TEXT,
+    "message" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "usedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "wallet_nonces_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "wallet_nonces_nonce_key" ON "wallet_nonces"("nonce");
+
+-- CreateIndex
+CREATE INDEX "wallet_nonces_expiresAt_idx" ON "wallet_nonces"("expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "wallet_nonces" ADD CONSTRAINT "wallet_nonces_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,35 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "kycExpiresAt" TIMESTAMP(3);
+
+-- Users verified before expiry was tracked get the default 365-day validity
+UPDATE "users" SET "kycExpiresAt" = "kycVerifiedAt" + INTERVAL '365 days'
+WHERE "kycStatus" = 'VERIFIED' AND "kycVerifiedAt" IS NOT NULL;
+
+-- CreateTable
+CREATE TABLE "kyc_verifications" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "providerReference" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "redirectUrl" TEXT,
+    "reason" TEXT,
+    "reviewedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "kyc_verifications_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "kyc_verifications_provider_providerReference_key" ON "kyc_verifications"("provider", "providerReference");
+
+-- CreateIndex
+CREATE INDEX "kyc_verifications_userId_createdAt_idx" ON "kyc_verifications"("userId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "kyc_verifications" ADD CONSTRAINT "kyc_verifications_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "kyc_verifications" ADD CONSTRAINT "kyc_verifications_reviewedById_fkey" FOREIGN KEY ("reviewedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "event_anchors" ADD COLUMN "signedTx" TEXT;
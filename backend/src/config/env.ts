@@ -1,16 +1,60 @@
+import crypto from 'crypto';
 import dotenv from 'dotenv';
 import path from 'path';
+import { parseEscalationPolicies } from '../services/ai/safety/policies';
 
 // Load environment variables from .env file
 dotenv.config({ path: path.resolve(__dirname, '../../.env') });
 
-interface EnvConfig {
+export interface EnvConfig {
   PORT: number;
   DATABASE_URL: string;
   JWT_SECRET: string;
   JWT_EXPIRES_IN: string | number;
+  REFRESH_TOKEN_TTL_DAYS: number;
   NODE_ENV: 'development' | 'production' | 'test';
   CORS_ORIGIN: string;
+  SIWE_URI: string;
+  SIWE_NONCE_TTL_SECONDS: number;
+  APP_URL: string;
+  EMAIL_VERIFICATION_TTL_HOURS: number;
+  PASSWORD_RESET_TTL_MINUTES: number;
+  MAIL_DRIVER: 'smtp' | 'file' | 'console';
+  MAIL_FROM: string;
+  MAIL_FILE_DIR: string;
+  SMTP_HOST: string;
+  SMTP_PORT: number;
+  SMTP_SECURE: boolean;
+  SMTP_USER: string;
+  SMTP_PASS: string;
+  KYC_PROVIDER: 'mock';
+  KYC_WEBHOOK_SECRET: string;
+  KYC_VALIDITY_DAYS: number;
+  KYC_EXPIRY_CHECK_INTERVAL_MINUTES: number;
+  STORAGE_DRIVER: 'local' | 's3';
+  STORAGE_LOCAL_DIR: string;
+  S3_ENDPOINT: string;
+  S3_REGION: string;
+  S3_BUCKET: string;
+  S3_ACCESS_KEY_ID: string;
+  S3_SECRET_ACCESS_KEY: string;
+  S3_FORCE_PATH_STYLE: boolean;
+  IPFS_API_URL: string;
+  IPFS_API_TOKEN: string;
+  IPFS_GATEWAY_URL: string;
+  IPFS_TIMEOUT_MS: number;
+  ANCHOR_RPC_URL: string;
+  ANCHOR_PRIVATE_KEY: string;
+  ANCHOR_TO_ADDRESS: string;
+  ANCHOR_INTERVAL_MINUTES: number;
+  ANCHOR_MAX_EVENTS: number;
+  PAYOUT_RPC_URL: string;
+  PAYOUT_PRIVATE_KEY: string;
+  PAYOUT_TOKEN_ADDRESS: string;
+  EVIDENCE_SIGNING_KEY: string;
+  SAFETY_HTTP_MODERATION_URL: string;
+  SAFETY_HTTP_MODERATION_TOKEN: string;
+  SAFETY_ESCALATION_POLICIES: string;
 }
 
 /**
@@ -20,9 +64,54 @@ export const env: EnvConfig = {
   PORT: parseInt(process.env.PORT || '3001', 10),
   DATABASE_URL: process.env.DATABASE_URL || '',
   JWT_SECRET: process.env.JWT_SECRET || '',
-  JWT_EXPIRES_IN: process.env.JWT_EXPIRES_IN || '7d',
+  JWT_EXPIRES_IN: process.env.JWT_EXPIRES_IN || '15m',
+  REFRESH_TOKEN_TTL_DAYS: parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || '30', 10),
   NODE_ENV: (process.env.NODE_ENV as EnvConfig['NODE_ENV']) || 'development',
   CORS_ORIGIN: process.env.CORS_ORIGIN || 'http://localhost:5173',
+  SIWE_URI: process.env.SIWE_URI || process.env.CORS_ORIGIN || 'http://localhost:5173',
+  SIWE_NONCE_TTL_SECONDS: parseInt(process.env.SIWE_NONCE_TTL_SECONDS || '300', 10),
+  APP_URL: process.env.APP_URL || process.env.CORS_ORIGIN || 'http://localhost:5173',
+  EMAIL_VERIFICATION_TTL_HOURS: parseInt(process.env.EMAIL_VERIFICATION_TTL_HOURS || '48', 10),
+  PASSWORD_RESET_TTL_MINUTES: parseInt(process.env.PASSWORD_RESET_TTL_MINUTES || '60', 10),
+  MAIL_DRIVER: (process.env.MAIL_DRIVER as EnvConfig['MAIL_DRIVER']) || 'console',
+  MAIL_FROM: process.env.MAIL_FROM || 'Oddly Brilliant <no-reply@localhost>',
+  MAIL_FILE_DIR: process.env.MAIL_FILE_DIR || path.resolve(__dirname, '../../mail'),
+  SMTP_HOST: process.env.SMTP_HOST || '',
+  SMTP_PORT: parseInt(process.env.SMTP_PORT || '587', 10),
+  SMTP_SECURE: process.env.SMTP_SECURE === 'true',
+  SMTP_USER: process.env.SMTP_USER || '',
+  SMTP_PASS: process.env.SMTP_PASS || '',
+  KYC_PROVIDER: (process.env.KYC_PROVIDER as EnvConfig['KYC_PROVIDER']) || 'mock',
+  KYC_WEBHOOK_SECRET: process.env.KYC_WEBHOOK_SECRET || '',
+  KYC_VALIDITY_DAYS: parseInt(process.env.KYC_VALIDITY_DAYS || '365', 10),
+  KYC_EXPIRY_CHECK_INTERVAL_MINUTES: parseInt(
+    process.env.KYC_EXPIRY_CHECK_INTERVAL_MINUTES || '60',
+    10
+  ),
+  STORAGE_DRIVER: (process.env.STORAGE_DRIVER as EnvConfig['STORAGE_DRIVER']) || 'local',
+  STORAGE_LOCAL_DIR: process.env.STORAGE_LOCAL_DIR || path.resolve(__dirname, '../../uploads'),
+  S3_ENDPOINT: process.env.S3_ENDPOINT || '',
+  S3_REGION: process.env.S3_REGION || 'us-east-1',
+  S3_BUCKET: process.env.S3_BUCKET || '',
+  S3_ACCESS_KEY_ID: process.env.S3_ACCESS_KEY_ID || '',
+  S3_SECRET_ACCESS_KEY: process.env.S3_SECRET_ACCESS_KEY || '',
+  S3_FORCE_PATH_STYLE: process.env.S3_FORCE_PATH_STYLE === 'true',
+  IPFS_API_URL: process.env.IPFS_API_URL || '',
+  IPFS_API_TOKEN: process.env.IPFS_API_TOKEN || '',
+  IPFS_GATEWAY_URL: process.env.IPFS_GATEWAY_URL || 'https://ipfs.io/ipfs',
+  IPFS_TIMEOUT_MS: parseInt(process.env.IPFS_TIMEOUT_MS || '30000', 10),
+  ANCHOR_RPC_URL: process.env.ANCHOR_RPC_URL || '',
+  ANCHOR_PRIVATE_KEY: process.env.ANCHOR_PRIVATE_KEY || '',
+  ANCHOR_TO_ADDRESS: process.env.ANCHOR_TO_ADDRESS || '',
+  ANCHOR_INTERVAL_MINUTES: parseInt(process.env.ANCHOR_INTERVAL_MINUTES || '60', 10),
+  ANCHOR_MAX_EVENTS: parseInt(process.env.ANCHOR_MAX_EVENTS || '1000', 10),
+  PAYOUT_RPC_URL: process.env.PAYOUT_RPC_URL || '',
+  PAYOUT_PRIVATE_KEY: process.env.PAYOUT_PRIVATE_KEY || '',
+  PAYOUT_TOKEN_ADDRESS: process.env.PAYOUT_TOKEN_ADDRESS || '',
+  EVIDENCE_SIGNING_KEY: process.env.EVIDENCE_SIGNING_KEY || '',
+  SAFETY_HTTP_MODERATION_URL: process.env.SAFETY_HTTP_MODERATION_URL || '',
+  SAFETY_HTTP_MODERATION_TOKEN: process.env.SAFETY_HTTP_MODERATION_TOKEN || '',
+  SAFETY_ESCALATION_POLICIES: process.env.SAFETY_ESCALATION_POLICIES || '',
 };
 
 /**
@@ -41,6 +130,89 @@ export const validateEnv = (): void => {
     );
   }
 
+  if (env.STORAGE_DRIVER !== 'local' && env.STORAGE_DRIVER !== 's3') {
+    throw new Error(`STORAGE_DRIVER must be 'local' or 's3', got '${env.STORAGE_DRIVER}'`);
+  }
+
+  if (env.STORAGE_DRIVER === 's3' && !env.S3_BUCKET) {
+    throw new Error('S3_BUCKET is required when STORAGE_DRIVER=s3');
+  }
+
+  if (!['smtp', 'file', 'console'].includes(env.MAIL_DRIVER)) {
+    throw new Error(`MAIL_DRIVER must be 'smtp', 'file' or 'console', got '${env.MAIL_DRIVER}'`);
+  }
+
+  if (env.MAIL_DRIVER === 'smtp' && !env.SMTP_HOST) {
+    throw new Error('SMTP_HOST is required when MAIL_DRIVER=smtp');
+  }
+
+  try {
+    new URL(env.APP_URL);
+  } catch {
+    throw new Error('APP_URL must be an absolute URL, e.g. https://app.example.com');
+  }
+
+  if (!(env.EMAIL_VERIFICATION_TTL_HOURS > 0) || !(env.PASSWORD_RESET_TTL_MINUTES > 0)) {
+    throw new Error(
+      'EMAIL_VERIFICATION_TTL_HOURS and PASSWORD_RESET_TTL_MINUTES must be positive numbers'
+    );
+  }
+
+  if (env.KYC_PROVIDER !== 'mock') {
+    throw new Error(`KYC_PROVIDER must be 'mock', got '${env.KYC_PROVIDER}'`);
+  }
+
+  if (env.NODE_ENV === 'production' && env.KYC_PROVIDER === 'mock') {
+    throw new Error(
+      'KYC_PROVIDER=mock settles verifications on request and cannot run in production'
+    );
+  }
+
+  if (env.NODE_ENV === 'production' && !env.KYC_WEBHOOK_SECRET) {
+    throw new Error('KYC_WEBHOOK_SECRET is required in production environment');
+  }
+
+  if (!(env.KYC_VALIDITY_DAYS > 0) || !(env.KYC_EXPIRY_CHECK_INTERVAL_MINUTES > 0)) {
+    throw new Error(
+      'KYC_VALIDITY_DAYS and KYC_EXPIRY_CHECK_INTERVAL_MINUTES must be positive numbers'
+    );
+  }
+
+  if (!(env.REFRESH_TOKEN_TTL_DAYS > 0)) {
+    throw new Error('REFRESH_TOKEN_TTL_DAYS must be a positive number');
+  }
+
+  try {
+    new URL(env.SIWE_URI);
+  } catch {
+    throw new Error('SIWE_URI must be an absolute URL, e.g. https://app.example.com');
+  }
+
+  if (!(env.SIWE_NONCE_TTL_SECONDS > 0)) {
+    throw new Error('SIWE_NONCE_TTL_SECONDS must be a positive number');
+  }
+
+  if (env.EVIDENCE_SIGNING_KEY) {
+    let keyType: string | undefined;
+    try {
+      keyType = crypto.createPrivateKey(env.EVIDENCE_SIGNING_KEY.replace(/\\n/g, '\n'))
+        .asymmetricKeyType;
+    } catch {
+      keyType = undefined;
+    }
+    if (keyType !== 'ed25519') {
+      throw new Error('EVIDENCE_SIGNING_KEY must be a PKCS#8 PEM Ed25519 private key');
+    }
+  }
+
+  if (env.SAFETY_ESCALATION_POLICIES) {
+    try {
+      parseEscalationPolicies(env.SAFETY_ESCALATION_POLICIES);
+    } catch (error) {
+      throw new Error(`SAFETY_ESCALATION_POLICIES: ${(error as Error).message}`);
+    }
+  }
+
   if (env.NODE_ENV === 'production' && env.JWT_SECRET === 'your-secret-key-change-in-production') {
     throw new Error('JWT_SECRET must be changed in production environment');
   }
@@ -0,0 +1,11 @@
+/**
+ * Service account that acts for the platform itself: AI moderation, schedulers
+ * and middleware with no signed-in user. It is provisioned by migration with
+ * the SYSTEM role and an unusable password, and cannot log in or be edited.
+ */
+export const SYSTEM_USER_ID = 'system';
+
+export const SYSTEM_USER_EMAIL = 'system@oddly-brilliant.internal';
+
+export const isSystemActor = (userId: string | null | undefined): boolean =>
+  userId === SYSTEM_USER_ID;
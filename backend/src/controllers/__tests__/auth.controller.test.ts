@@ -1,16 +1,24 @@
 import request from 'supertest';
 import express, { Application } from 'express';
 import { authService } from '../../services/auth.service';
+import { siweService } from '../../services/siwe.service';
+import { sessionService } from '../../services/session.service';
 import { errorHandler } from '../../middleware/error';
 import authRoutes from '../../routes/auth.routes';
 import {
   AuthenticationError,
+  AuthorizationError,
   ConflictError,
   UserResponseDTO,
+  ValidationError,
 } from '../../types';
 
 // Mock dependencies
 jest.mock('../../services/auth.service');
+jest.mock('../../services/siwe.service');
+jest.mock('../../services/session.service');
+jest.mock('../../services/events/EventService');
+jest.mock('../../config/database', () => ({ prisma: {} }));
 jest.mock('../../utils/logger', () => ({
   logger: {
     info: jest.fn(),
@@ -28,6 +36,7 @@ jest.mock('jsonwebtoken', () => ({
       return {
         userId: 'user-123',
         email: 'test@example.com',
+        sessionId: 'session-123',
       };
     }
     throw new Error('Invalid token');
@@ -39,6 +48,8 @@ jest.mock('jsonwebtoken', () => ({
 describe('AuthController', () => {
   let app: Application;
   const mockAuthService = authService as jest.Mocked<typeof authService>;
+  const mockSiweService = siweService as jest.Mocked<typeof siweService>;
+  const mockSessionService = sessionService as jest.Mocked<typeof sessionService>;
 
   // Mock user data
   const mockUser: UserResponseDTO = {
@@ -50,6 +61,7 @@ describe('AuthController', () => {
   };
 
   const mockToken = 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9.test.token';
+  const mockRefreshToken = 'refresh-token';
 
   beforeEach(() => {
     // Create a test Express app with the same setup as production
@@ -59,13 +71,13 @@ describe('AuthController', () => {
     app.use(errorHandler);
 
     jest.clearAllMocks();
+    mockSessionService.isActive.mockResolvedValue(true);
   });
 
   describe('POST /api/auth/signup', () => {
     const validSignupData = {
       email: 'test@example.com',
       password: 'password123',
-      walletAddress: '0x742d35Cc6634C0532925a3b844Bc9e7595f0bEb0',
     };
 
     describe('Success Cases', () => {
@@ -74,6 +86,7 @@ describe('AuthController', () => {
         mockAuthService.signup.mockResolvedValue({
           user: mockUser,
           token: mockToken,
+          refreshToken: mockRefreshToken,
         });
 
         // Act
@@ -91,9 +104,10 @@ describe('AuthController', () => {
               email: mockUser.email,
             }),
             token: mockToken,
+            refreshToken: mockRefreshToken,
           },
         });
-        expect(mockAuthService.signup).toHaveBeenCalledWith(validSignupData);
+        expect(mockAuthService.signup).toHaveBeenCalledWith(validSignupData, expect.any(Object));
       });
 
       it('should accept signup without wallet address', async () => {
@@ -105,6 +119,7 @@ describe('AuthController', () => {
         mockAuthService.signup.mockResolvedValue({
           user: { ...mockUser, walletAddress: undefined },
           token: mockToken,
+          refreshToken: mockRefreshToken,
         });
 
         // Act
@@ -123,6 +138,7 @@ describe('AuthController', () => {
         mockAuthService.signup.mockResolvedValue({
           user: mockUser,
           token: mockToken,
+          refreshToken: mockRefreshToken,
         });
 
         // Act
@@ -180,25 +196,6 @@ describe('AuthController', () => {
         expect(mockAuthService.signup).not.toHaveBeenCalled();
       });
 
-      it('should return 400 for invalid wallet address format', async () => {
-        // Arrange
-        const invalidWalletData = {
-          ...validSignupData,
-          walletAddress: 'invalid-wallet',
-        };
-
-        // Act
-        const response = await request(app)
-          .post('/api/auth/signup')
-          .send(invalidWalletData)
-          .expect(400);
-
-        // Assert
-        expect(response.body.success).toBe(false);
-        expect(response.body.error).toBeDefined();
-        expect(mockAuthService.signup).not.toHaveBeenCalled();
-      });
-
       it('should return 400 for missing required fields', async () => {
         // Act
         const response = await request(app)
@@ -261,6 +258,7 @@ describe('AuthController', () => {
         mockAuthService.login.mockResolvedValue({
           user: mockUser,
           token: mockToken,
+          refreshToken: mockRefreshToken,
         });
 
         // Act
@@ -278,9 +276,10 @@ describe('AuthController', () => {
               email: mockUser.email,
             }),
             token: mockToken,
+            refreshToken: mockRefreshToken,
           },
         });
-        expect(mockAuthService.login).toHaveBeenCalledWith(validLoginData);
+        expect(mockAuthService.login).toHaveBeenCalledWith(validLoginData, expect.any(Object));
       });
 
       it('should call authService.login with correct credentials', async () => {
@@ -288,16 +287,42 @@ describe('AuthController', () => {
         mockAuthService.login.mockResolvedValue({
           user: mockUser,
           token: mockToken,
+          refreshToken: mockRefreshToken,
         });
 
         // Act
         await request(app).post('/api/auth/login').send(validLoginData).expect(200);
 
         // Assert
-        expect(mockAuthService.login).toHaveBeenCalledWith({
-          email: validLoginData.email,
-          password: validLoginData.password,
+        expect(mockAuthService.login).toHaveBeenCalledWith(
+          {
+            email: validLoginData.email,
+            password: validLoginData.password,
+          },
+          expect.any(Object)
+        );
+      });
+
+      it('should record the device on the new session', async () => {
+        // Arrange
+        mockAuthService.login.mockResolvedValue({
+          user: mockUser,
+          token: mockToken,
+          refreshToken: mockRefreshToken,
         });
+
+        // Act
+        await request(app)
+          .post('/api/auth/login')
+          .set('User-Agent', 'Firefox on Linux')
+          .send(validLoginData)
+          .expect(200);
+
+        // Assert
+        expect(mockAuthService.login).toHaveBeenCalledWith(
+          validLoginData,
+          expect.objectContaining({ userAgent: 'Firefox on Linux' })
+        );
       });
     });
 
@@ -455,23 +480,320 @@ describe('AuthController', () => {
         // Assert
         expect(response.body.success).toBe(false);
       });
+
+      it('should return 401 once the session has been revoked', async () => {
+        // Arrange
+        mockSessionService.isActive.mockResolvedValue(false);
+
+        // Act
+        const response = await request(app)
+          .get('/api/auth/me')
+          .set('Authorization', `Bearer ${mockToken}`)
+          .expect(401);
+
+        // Assert
+        expect(response.body.success).toBe(false);
+        expect(mockSessionService.isActive).toHaveBeenCalledWith('session-123', 'user-123');
+        expect(mockAuthService.getUserById).not.toHaveBeenCalled();
+      });
+    });
+  });
+
+  describe('POST /api/auth/refresh', () => {
+    it('should return a new access token and refresh token', async () => {
+      mockAuthService.refresh.mockResolvedValue({
+        token: 'fresh-token',
+        refreshToken: 'next-refresh-token',
+      });
+
+      const response = await request(app)
+        .post('/api/auth/refresh')
+        .send({ refreshToken: mockRefreshToken })
+        .expect(200);
+
+      expect(response.body.data).toEqual({
+        token: 'fresh-token',
+        refreshToken: 'next-refresh-token',
+      });
+      expect(mockAuthService.refresh).toHaveBeenCalledWith(mockRefreshToken, expect.any(Object));
+    });
+
+    it('should return 401 for a revoked or reused refresh token', async () => {
+      mockAuthService.refresh.mockRejectedValue(
+        new AuthenticationError('Session revoked, please log in again')
+      );
+
+      const response = await request(app)
+        .post('/api/auth/refresh')
+        .send({ refreshToken: mockRefreshToken })
+        .expect(401);
+
+      expect(response.body.success).toBe(false);
+    });
+
+    it('should return 400 without a refresh token', async () => {
+      await request(app).post('/api/auth/refresh').send({}).expect(400);
+
+      expect(mockAuthService.refresh).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Sessions', () => {
+    it('POST /logout should revoke only the current session', async () => {
+      await request(app)
+        .post('/api/auth/logout')
+        .set('Authorization', `Bearer ${mockToken}`)
+        .expect(200);
+
+      expect(mockSessionService.revoke).toHaveBeenCalledWith('session-123', 'user-123', 'LOGOUT');
+      expect(mockSessionService.revokeAll).not.toHaveBeenCalled();
+    });
+
+    it('POST /logout-all should revoke every session of the user', async () => {
+      mockSessionService.revokeAll.mockResolvedValue(3);
+
+      const response = await request(app)
+        .post('/api/auth/logout-all')
+        .set('Authorization', `Bearer ${mockToken}`)
+        .expect(200);
+
+      expect(response.body.data).toEqual({ revoked: 3 });
+      expect(mockSessionService.revokeAll).toHaveBeenCalledWith('user-123', 'LOGOUT_ALL');
+    });
+
+    it('GET /sessions should flag the session making the request', async () => {
+      const device = {
+        userAgent: 'Firefox on Linux',
+        ipAddress: '127.0.0.1',
+        createdAt: new Date('2024-01-01'),
+        lastUsedAt: new Date('2024-01-02'),
+        expiresAt: new Date('2024-02-01'),
+      };
+      mockSessionService.listActive.mockResolvedValue([
+        { id: 'session-123', ...device },
+        { id: 'session-456', ...device },
+      ]);
+
+      const response = await request(app)
+        .get('/api/auth/sessions')
+        .set('Authorization', `Bearer ${mockToken}`)
+        .expect(200);
+
+      expect(response.body.data.map((s: any) => [s.id, s.current])).toEqual([
+        ['session-123', true],
+        ['session-456', false],
+      ]);
+      expect(mockSessionService.listActive).toHaveBeenCalledWith('user-123');
+    });
+
+    it("DELETE /sessions/:id should return 404 for another user's session", async () => {
+      mockSessionService.revoke.mockResolvedValue(false);
+
+      await request(app)
+        .delete('/api/auth/sessions/session-999')
+        .set('Authorization', `Bearer ${mockToken}`)
+        .expect(404);
+
+      expect(mockSessionService.revoke).toHaveBeenCalledWith(
+        'session-999',
+        'user-123',
+        'REVOKED_BY_USER'
+      );
+    });
+
+    it('should require authentication', async () => {
+      await request(app).post('/api/auth/logout-all').expect(401);
+      await request(app).get('/api/auth/sessions').expect(401);
+
+      expect(mockSessionService.revokeAll).not.toHaveBeenCalled();
+      expect(mockSessionService.listActive).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Email verification', () => {
+    it('POST /verify-email should verify the address behind the token', async () => {
+      mockAuthService.verifyEmail.mockResolvedValue(mockUser);
+
+      const response = await request(app)
+        .post('/api/auth/verify-email')
+        .send({ token: 'email-token' })
+        .expect(200);
+
+      expect(response.body.data.id).toBe('user-123');
+      expect(mockAuthService.verifyEmail).toHaveBeenCalledWith('email-token');
+    });
+
+    it('POST /verify-email should return 400 for a used or expired link', async () => {
+      mockAuthService.verifyEmail.mockRejectedValue(
+        new ValidationError('This link is invalid or has expired')
+      );
+
+      const response = await request(app)
+        .post('/api/auth/verify-email')
+        .send({ token: 'stale-token' })
+        .expect(400);
+
+      expect(response.body.success).toBe(false);
+    });
+
+    it('POST /verify-email/resend should email the current user', async () => {
+      await request(app)
+        .post('/api/auth/verify-email/resend')
+        .set('Authorization', `Bearer ${mockToken}`)
+        .expect(200);
+
+      expect(mockAuthService.sendVerificationEmail).toHaveBeenCalledWith('user-123');
+    });
+
+    it('POST /verify-email/resend should require authentication', async () => {
+      await request(app).post('/api/auth/verify-email/resend').expect(401);
+
+      expect(mockAuthService.sendVerificationEmail).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Password reset', () => {
+    it('POST /forgot-password should answer the same for any email', async () => {
+      const response = await request(app)
+        .post('/api/auth/forgot-password')
+        .send({ email: 'nobody@example.com' })
+        .expect(200);
+
+      expect(response.body.success).toBe(true);
+      expect(mockAuthService.requestPasswordReset).toHaveBeenCalledWith('nobody@example.com');
+    });
+
+    it('POST /reset-password should set the new password', async () => {
+      mockAuthService.resetPassword.mockResolvedValue('user-123');
+
+      await request(app)
+        .post('/api/auth/reset-password')
+        .send({ token: 'reset-token', password: 'new-password-123' })
+        .expect(200);
+
+      expect(mockAuthService.resetPassword).toHaveBeenCalledWith('reset-token', 'new-password-123');
+    });
+
+    it('POST /reset-password should reject short passwords', async () => {
+      await request(app)
+        .post('/api/auth/reset-password')
+        .send({ token: 'reset-token', password: 'short' })
+        .expect(400);
+
+      expect(mockAuthService.resetPassword).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/auth/siwe/nonce', () => {
+    const address = '0x742d35Cc6634C0532925a3b844Bc9e7595f0bEb0';
+    const issued = {
+      nonce: 'abc123def456',
+      message: 'localhost:5173 wants you to sign in with your Ethereum account:',
+      expiresAt: new Date('2026-01-01T00:05:00Z'),
+    };
+
+    it('should issue a LOGIN nonce without authentication', async () => {
+      mockSiweService.issueNonce.mockResolvedValue(issued);
+
+      const response = await request(app)
+        .post('/api/auth/siwe/nonce')
+        .send({ address, chainId: 1 })
+        .expect(200);
+
+      expect(response.body.data.nonce).toBe(issued.nonce);
+      expect(mockSiweService.issueNonce).toHaveBeenCalledWith({
+        address,
+        chainId: 1,
+        purpose: 'LOGIN',
+        userId: undefined,
+      });
+    });
+
+    it('should bind LINK nonces to the authenticated user', async () => {
+      mockSiweService.issueNonce.mockResolvedValue(issued);
+
+      await request(app)
+        .post('/api/auth/siwe/nonce')
+        .set('Authorization', `Bearer ${mockToken}`)
+        .send({ address, purpose: 'LINK' })
+        .expect(200);
+
+      expect(mockSiweService.issueNonce).toHaveBeenCalledWith(
+        expect.objectContaining({ purpose: 'LINK', userId: 'user-123' })
+      );
+    });
+
+    it('should return 400 for an invalid address', async () => {
+      const response = await request(app)
+        .post('/api/auth/siwe/nonce')
+        .send({ address: '0x123' })
+        .expect(400);
+
+      expect(response.body.success).toBe(false);
+      expect(mockSiweService.issueNonce).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/auth/siwe/verify', () => {
+    const signed = { message: 'Nonce: abc123def456', signature: '0xabcdef' };
+
+    it('should log in the account linked to the signing wallet', async () => {
+      mockSiweService.verify.mockResolvedValue(mockUser.walletAddress!);
+      mockAuthService.loginWithWallet.mockResolvedValue({
+        user: mockUser,
+        token: 'token',
+        refreshToken: mockRefreshToken,
+      });
+
+      const response = await request(app).post('/api/auth/siwe/verify').send(signed).expect(200);
+
+      expect(response.body.data.token).toBe('token');
+      expect(mockSiweService.verify).toHaveBeenCalledWith(signed.message, signed.signature, {
+        purpose: 'LOGIN',
+      });
+      expect(mockAuthService.loginWithWallet).toHaveBeenCalledWith(
+        mockUser.walletAddress,
+        expect.any(Object)
+      );
+    });
+
+    it('should return 401 for a replayed or expired message', async () => {
+      mockSiweService.verify.mockRejectedValue(
+        new AuthenticationError('Sign-in request expired or already used')
+      );
+
+      const response = await request(app).post('/api/auth/siwe/verify').send(signed).expect(401);
+
+      expect(response.body.error.message).toBe('Sign-in request expired or already used');
+      expect(mockAuthService.loginWithWallet).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 without a signature', async () => {
+      await request(app)
+        .post('/api/auth/siwe/verify')
+        .send({ message: signed.message })
+        .expect(400);
+
+      expect(mockSiweService.verify).not.toHaveBeenCalled();
     });
   });
 
   describe('PUT /api/auth/wallet', () => {
     const newWalletAddress = '0x1234567890123456789012345678901234567890';
+    const signed = { message: 'Nonce: abc123def456', signature: '0xabcdef' };
 
     describe('Success Cases', () => {
-      it('should return 200 with updated user', async () => {
+      it('should link the wallet that signed the LINK message', async () => {
         // Arrange
         const updatedUser = { ...mockUser, walletAddress: newWalletAddress };
+        mockSiweService.verify.mockResolvedValue(newWalletAddress);
         mockAuthService.updateWalletAddress.mockResolvedValue(updatedUser);
 
         // Act
         const response = await request(app)
           .put('/api/auth/wallet')
           .set('Authorization', `Bearer ${mockToken}`)
-          .send({ walletAddress: newWalletAddress })
+          .send(signed)
           .expect(200);
 
         // Assert
@@ -481,44 +803,33 @@ describe('AuthController', () => {
             walletAddress: newWalletAddress,
           }),
         });
-      });
-
-      it('should call updateWalletAddress with correct parameters', async () => {
-        // Arrange
-        const updatedUser = { ...mockUser, walletAddress: newWalletAddress };
-        mockAuthService.updateWalletAddress.mockResolvedValue(updatedUser);
-
-        // Act
-        await request(app)
-          .put('/api/auth/wallet')
-          .set('Authorization', `Bearer ${mockToken}`)
-          .send({ walletAddress: newWalletAddress })
-          .expect(200);
-
-        // Assert
-        expect(mockAuthService.updateWalletAddress).toHaveBeenCalled();
+        expect(mockSiweService.verify).toHaveBeenCalledWith(signed.message, signed.signature, {
+          purpose: 'LINK',
+          userId: 'user-123',
+        });
+        expect(mockAuthService.updateWalletAddress).toHaveBeenCalledWith(
+          'user-123',
+          newWalletAddress
+        );
       });
     });
 
     describe('Error Cases', () => {
       it('should return 401 without authentication', async () => {
         // Act
-        const response = await request(app)
-          .put('/api/auth/wallet')
-          .send({ walletAddress: newWalletAddress })
-          .expect(401);
+        const response = await request(app).put('/api/auth/wallet').send(signed).expect(401);
 
         // Assert
         expect(response.body.success).toBe(false);
         expect(mockAuthService.updateWalletAddress).not.toHaveBeenCalled();
       });
 
-      it('should return 400 for invalid wallet address format', async () => {
+      it('should no longer accept a bare wallet address', async () => {
         // Act
         const response = await request(app)
           .put('/api/auth/wallet')
           .set('Authorization', `Bearer ${mockToken}`)
-          .send({ walletAddress: 'invalid-wallet' })
+          .send({ walletAddress: newWalletAddress })
           .expect(400);
 
         // Assert
@@ -526,26 +837,18 @@ describe('AuthController', () => {
         expect(mockAuthService.updateWalletAddress).not.toHaveBeenCalled();
       });
 
-      it('should return 400 for missing wallet address', async () => {
-        // Act
-        const response = await request(app)
-          .put('/api/auth/wallet')
-          .set('Authorization', `Bearer ${mockToken}`)
-          .send({})
-          .expect(400);
-
-        // Assert
-        expect(response.body.success).toBe(false);
-        expect(mockAuthService.updateWalletAddress).not.toHaveBeenCalled();
-      });
+      it('should return 403 when the signature does not prove ownership', async () => {
+        // Arrange
+        mockSiweService.verify.mockRejectedValue(
+          new AuthorizationError('Signature does not match the wallet address')
+        );
 
-      it('should return 400 for wallet address with wrong length', async () => {
         // Act
         const response = await request(app)
           .put('/api/auth/wallet')
           .set('Authorization', `Bearer ${mockToken}`)
-          .send({ walletAddress: '0x123' })
-          .expect(400);
+          .send(signed)
+          .expect(403);
 
         // Assert
         expect(response.body.success).toBe(false);
@@ -554,6 +857,7 @@ describe('AuthController', () => {
 
       it('should return 409 for duplicate wallet address', async () => {
         // Arrange
+        mockSiweService.verify.mockResolvedValue(newWalletAddress);
         mockAuthService.updateWalletAddress.mockRejectedValue(
           new ConflictError('Wallet address already registered')
         );
@@ -562,7 +866,7 @@ describe('AuthController', () => {
         const response = await request(app)
           .put('/api/auth/wallet')
           .set('Authorization', `Bearer ${mockToken}`)
-          .send({ walletAddress: newWalletAddress })
+          .send(signed)
           .expect(409);
 
         // Assert
@@ -1,17 +1,29 @@
 import { Response, NextFunction } from 'express';
-import { AuthRequest, NotFoundError, ValidationError } from '../types';
+import { Prisma } from '@prisma/client';
+import { AuthRequest, AuthorizationError, NotFoundError, ValidationError } from '../types';
 import { prisma } from '../config/database';
 import { logger } from '../utils/logger';
+import { EventService } from '../services/events/EventService';
+import { ChallengeVettingService } from '../services/vetting/ChallengeVettingService';
+import { sessionService } from '../services/session.service';
+import { KycService } from '../services/kyc/KycService';
+
+// Initialize services
+const vettingService = new ChallengeVettingService(prisma, new EventService(prisma));
+const kycService = new KycService(prisma, new EventService(prisma));
 
 class AdminController {
   async getAllUsers(_req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
     try {
       const users = await prisma.users.findMany({
+        where: { role: { not: 'SYSTEM' } },
         select: {
           id: true,
           email: true,
           role: true,
           walletAddress: true,
+          kycStatus: true,
+          kycExpiresAt: true,
           createdAt: true,
           _count: {
             select: {
@@ -33,9 +45,20 @@ class AdminController {
     }
   }
 
-  async getAllChallenges(_req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+  async getAllChallenges(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
     try {
+      const { status, vettingStatus } = req.query;
+
+      const where: Prisma.challengesWhereInput = {};
+      if (status && typeof status === 'string') {
+        where.status = status as Prisma.challengesWhereInput['status'];
+      }
+      if (vettingStatus && typeof vettingStatus === 'string') {
+        where.vettingStatus = vettingStatus;
+      }
+
       const challenges = await prisma.challenges.findMany({
+        where,
         include: {
           users_challenges_sponsorIdTousers: {
             select: {
@@ -70,6 +93,62 @@ class AdminController {
     }
   }
 
+  /**
+   * POST /api/admin/challenges/:id/vet
+   * Approve, reject or request changes to a challenge awaiting vetting
+   */
+  async vetChallenge(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new AuthorizationError('Authentication required');
+      }
+
+      const challenge = await vettingService.decide(req.params.id, req.user.id, {
+        decision: req.body.decision,
+        notes: req.body.notes,
+      });
+
+      logger.info(
+        `Admin ${req.user.email} vetted challenge ${challenge.id}: ${challenge.vettingStatus}`
+      );
+
+      res.json({
+        success: true,
+        data: {
+          id: challenge.id,
+          vettingStatus: challenge.vettingStatus,
+          vettingNotes: challenge.vettingNotes,
+          vettedBy: challenge.vettedBy,
+          vettedAt: challenge.vettedAt,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async overrideKyc(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new AuthorizationError('Authentication required');
+      }
+
+      const user = await kycService.override(req.params.id, req.user.id, {
+        status: req.body.status,
+        reason: req.body.reason,
+      });
+
+      logger.info(`Admin ${req.user.email} set KYC of user ${user.id} to ${user.kycStatus}`);
+
+      res.json({
+        success: true,
+        data: user,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
   async getStats(_req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
     try {
       const [
@@ -80,7 +159,7 @@ class AdminController {
         totalBountyAmount,
         totalPaidAmount,
       ] = await Promise.all([
-        prisma.users.count(),
+        prisma.users.count({ where: { role: { not: 'SYSTEM' } } }),
         prisma.challenges.count(),
         prisma.contributions.count(),
         prisma.payments.count(),
@@ -128,6 +207,10 @@ class AdminController {
         throw new NotFoundError('User not found');
       }
 
+      if (user.role === 'SYSTEM') {
+        throw new ValidationError('The system user cannot be changed');
+      }
+
       const updatedUser = await prisma.users.update({
         where: { id },
         data: { role },
@@ -138,6 +221,11 @@ class AdminController {
         },
       });
 
+      // Make the user log in again so no session outlives the role it was granted under
+      if (user.role !== role) {
+        await sessionService.revokeAll(id, 'ROLE_CHANGED');
+      }
+
       logger.info(`Admin ${req.user?.email} updated user ${user.email} role to ${role}`);
 
       res.json({
@@ -166,6 +254,11 @@ class AdminController {
         throw new ValidationError('Cannot delete admin users');
       }
 
+      if (user.role === 'SYSTEM') {
+        throw new ValidationError('Cannot delete the system user');
+      }
+
+      // Sessions are removed with the user, which revokes their tokens
       await prisma.users.delete({
         where: { id },
       });
@@ -0,0 +1,159 @@
+import { Response, NextFunction } from 'express';
+import { prisma } from '../config/database';
+import { AppealRecord, AppealService } from '../services/appeals/AppealService';
+import { EventService } from '../services/events/EventService';
+import {
+  ApiResponse,
+  AppealResponseDTO,
+  AuthRequest,
+  AuthorizationError,
+  DecideAppealDTO,
+  FileAppealDTO,
+} from '../types';
+import { logger } from '../utils/logger';
+
+// Initialize services
+const eventService = new EventService(prisma);
+const appealService = new AppealService(prisma, eventService);
+
+const toAppealResponse = (appeal: AppealRecord): AppealResponseDTO => {
+  const result = appeal.safety_moderation_results;
+
+  return {
+    id: appeal.id,
+    status: appeal.status,
+    reason: appeal.reason,
+    appellant: appeal.users_safety_appeals_appellantIdTousers,
+    decidedBy: appeal.users_safety_appeals_decidedByIdTousers,
+    decisionNotes: appeal.decisionNotes,
+    moderationResult: {
+      id: result.id,
+      entityType: result.entityType,
+      entityId: result.entityId,
+      overallScore: Number(result.overallScore),
+      autoBlocked: result.autoBlocked,
+      detectionMethod: result.detectionMethod,
+      analyzers: result.analyzers,
+      incidentId: result.incidentId,
+    },
+    createdAt: appeal.createdAt.toISOString(),
+    decidedAt: appeal.decidedAt?.toISOString() ?? null,
+  };
+};
+
+/**
+ * Appeals Controller - Handles appeals against moderation decisions
+ */
+export class AppealsController {
+  /**
+   * POST /api/appeals
+   * Appeal the moderation decision on your own content
+   */
+  async file(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new AuthorizationError('Authentication required');
+      }
+
+      const data: FileAppealDTO = req.body;
+      const appeal = await appealService.file(req.user.id, data);
+
+      logger.info(
+        `Appeal ${appeal.id} filed on ${data.entityType} ${data.entityId} by ${req.user.email}`
+      );
+
+      const response: ApiResponse<AppealResponseDTO> = {
+        success: true,
+        data: toAppealResponse(appeal),
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /api/appeals/mine
+   * Appeals filed by the current user
+   */
+  async getMine(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new AuthorizationError('Authentication required');
+      }
+
+      const appeals = await appealService.listForAppellant(req.user.id);
+
+      const response: ApiResponse<AppealResponseDTO[]> = {
+        success: true,
+        data: appeals.map(toAppealResponse),
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /api/appeals
+   * Appeal queue for moderators
+   */
+  async list(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const appeals = await appealService.list(req.query.status as string | undefined);
+
+      const response: ApiResponse<AppealResponseDTO[]> = {
+        success: true,
+        data: appeals.map(toAppealResponse),
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/appeals/:id/decide
+   * Uphold or overturn an appeal
+   */
+  async decide(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new AuthorizationError('Authentication required');
+      }
+
+      const data: DecideAppealDTO = req.body;
+      const appeal = await appealService.decide(req.params.id, req.user.id, data);
+
+      logger.info(`Appeal ${appeal.id} ${appeal.status.toLowerCase()} by ${req.user.email}`);
+
+      const response: ApiResponse<AppealResponseDTO> = {
+        success: true,
+        data: toAppealResponse(appeal),
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /api/appeals/overturn-rates
+   * Per-analyzer share of flags overturned on appeal
+   */
+  async getOverturnRates(_req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const rates = await appealService.getOverturnRates();
+
+      res.status(200).json({ success: true, data: rates });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const appealsController = new AppealsController();
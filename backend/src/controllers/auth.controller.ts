@@ -1,8 +1,32 @@
 import { Response, NextFunction } from 'express';
 import { authService } from '../services/auth.service';
-import { AuthRequest, CreateUserDTO, LoginDTO, ApiResponse, UserResponseDTO } from '../types';
+import { siweService } from '../services/siwe.service';
+import { sessionService, SessionContext, SessionSummary } from '../services/session.service';
+import { EventService } from '../services/events/EventService';
+import { prisma } from '../config/database';
+import {
+  AuthRequest,
+  CreateUserDTO,
+  LoginDTO,
+  ApiResponse,
+  AuthResultDTO,
+  AuthTokensDTO,
+  NotFoundError,
+  UserResponseDTO,
+} from '../types';
 import { logger } from '../utils/logger';
 
+// Initialize services
+const eventService = new EventService(prisma);
+
+/**
+ * Device details recorded on the session
+ */
+const sessionContext = (req: AuthRequest): SessionContext => ({
+  userAgent: req.get('user-agent'),
+  ipAddress: req.ip,
+});
+
 /**
  * Auth Controller - Handles authentication-related HTTP requests
  */
@@ -15,9 +39,9 @@ export class AuthController {
     try {
       const userData: CreateUserDTO = req.body;
 
-      const result = await authService.signup(userData);
+      const result = await authService.signup(userData, sessionContext(req));
 
-      const response: ApiResponse<{ user: UserResponseDTO; token: string }> = {
+      const response: ApiResponse<AuthResultDTO> = {
         success: true,
         data: result,
       };
@@ -36,9 +60,78 @@ export class AuthController {
     try {
       const credentials: LoginDTO = req.body;
 
-      const result = await authService.login(credentials);
+      const result = await authService.login(credentials, sessionContext(req));
+
+      const response: ApiResponse<AuthResultDTO> = {
+        success: true,
+        data: result,
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/auth/siwe/nonce
+   * Issue a Sign-In with Ethereum message for the wallet to sign
+   */
+  async siweNonce(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { address, chainId, purpose = 'LOGIN' } = req.body;
+
+      const result = await siweService.issueNonce({
+        address,
+        chainId,
+        purpose,
+        userId: purpose === 'LINK' ? req.user?.id : undefined,
+      });
+
+      const response: ApiResponse<{ nonce: string; message: string; expiresAt: Date }> = {
+        success: true,
+        data: result,
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/auth/siwe/verify
+   * Login with a signed Sign-In with Ethereum message
+   */
+  async siweLogin(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { message, signature } = req.body;
+
+      const address = await siweService.verify(message, signature, { purpose: 'LOGIN' });
+      const result = await authService.loginWithWallet(address, sessionContext(req));
+
+      const response: ApiResponse<AuthResultDTO> = {
+        success: true,
+        data: result,
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/auth/refresh
+   * Exchange a refresh token for a new access token and refresh token
+   */
+  async refresh(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { refreshToken } = req.body;
 
-      const response: ApiResponse<{ user: UserResponseDTO; token: string }> = {
+      const result = await authService.refresh(refreshToken, sessionContext(req));
+
+      const response: ApiResponse<AuthTokensDTO> = {
         success: true,
         data: result,
       };
@@ -49,6 +142,211 @@ export class AuthController {
     }
   }
 
+  /**
+   * POST /api/auth/logout
+   * End the current session
+   */
+  async logout(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (req.user?.sessionId) {
+        await sessionService.revoke(req.user.sessionId, req.user.id, 'LOGOUT');
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Logged out',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/auth/logout-all
+   * End every session of the current user, on all devices
+   */
+  async logoutAll(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: { message: 'Not authenticated' },
+        });
+        return;
+      }
+
+      const revoked = await sessionService.revokeAll(req.user.id, 'LOGOUT_ALL');
+
+      const response: ApiResponse<{ revoked: number }> = {
+        success: true,
+        data: { revoked },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /api/auth/sessions
+   * List the current user's active sessions
+   */
+  async getSessions(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: { message: 'Not authenticated' },
+        });
+        return;
+      }
+
+      const sessions = await sessionService.listActive(req.user.id);
+
+      const response: ApiResponse<(SessionSummary & { current: boolean })[]> = {
+        success: true,
+        data: sessions.map((session) => ({
+          ...session,
+          current: session.id === req.user?.sessionId,
+        })),
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /api/auth/sessions/:id
+   * Revoke one of the current user's sessions, e.g. a lost device
+   */
+  async revokeSession(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: { message: 'Not authenticated' },
+        });
+        return;
+      }
+
+      const revoked = await sessionService.revoke(req.params.id, req.user.id, 'REVOKED_BY_USER');
+
+      if (!revoked) {
+        throw new NotFoundError('Session');
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Session revoked',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/auth/verify-email
+   * Verify the user's email address with the token from their verification email
+   */
+  async verifyEmail(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = await authService.verifyEmail(req.body.token);
+
+      await eventService.emit({
+        actorId: user.id,
+        entityType: 'USER',
+        entityId: user.id,
+        action: 'EMAIL_VERIFIED',
+        metadata: { email: user.email },
+      });
+
+      const response: ApiResponse<UserResponseDTO> = {
+        success: true,
+        data: user,
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/auth/verify-email/resend
+   * Send the current user a new verification email
+   */
+  async resendVerificationEmail(
+    req: AuthRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: { message: 'Not authenticated' },
+        });
+        return;
+      }
+
+      await authService.sendVerificationEmail(req.user.id);
+
+      res.status(200).json({
+        success: true,
+        message: 'Verification email sent',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/auth/forgot-password
+   * Email a password reset link; responds the same whether or not the account exists
+   */
+  async forgotPassword(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      await authService.requestPasswordReset(req.body.email);
+
+      res.status(200).json({
+        success: true,
+        message: 'If an account exists for that email, a password reset link is on its way',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/auth/reset-password
+   * Set a new password with the token from a password reset email
+   */
+  async resetPassword(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { token, password } = req.body;
+
+      const userId = await authService.resetPassword(token, password);
+
+      await eventService.emit({
+        actorId: userId,
+        entityType: 'USER',
+        entityId: userId,
+        action: 'PASSWORD_RESET',
+        metadata: { ipAddress: req.ip },
+      });
+
+      res.status(200).json({
+        success: true,
+        message: 'Password updated. Log in with your new password.',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
   /**
    * GET /api/auth/me
    * Get current authenticated user
@@ -78,7 +376,7 @@ export class AuthController {
 
   /**
    * PUT /api/auth/wallet
-   * Update user's wallet address
+   * Link a wallet to the user's account once a signed LINK message proves ownership
    */
   async updateWallet(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
     try {
@@ -90,10 +388,22 @@ export class AuthController {
         return;
       }
 
-      const { walletAddress } = req.body;
+      const { message, signature } = req.body;
 
+      const walletAddress = await siweService.verify(message, signature, {
+        purpose: 'LINK',
+        userId: req.user.id,
+      });
       const user = await authService.updateWalletAddress(req.user.id, walletAddress);
 
+      await eventService.emit({
+        actorId: req.user.id,
+        entityType: 'USER',
+        entityId: req.user.id,
+        action: 'WALLET_LINKED',
+        metadata: { walletAddress },
+      });
+
       const response: ApiResponse<UserResponseDTO> = {
         success: true,
         data: user,
@@ -14,8 +14,23 @@ import { getPagination } from '../utils/helpers';
 import { logger } from '../utils/logger';
 import { ChallengeStatus, PaymentMethod } from '@prisma/client';
 import { paymentService } from '../services/payment.service';
+import { PayoutProposalService } from '../services/payouts/PayoutProposalService';
+import { EventService } from '../services/events/EventService';
+import { AuditorService } from '../services/auditor/AuditorService';
+import { ReputationService } from '../services/reputation/ReputationService';
+import { ChallengeVettingService } from '../services/vetting/ChallengeVettingService';
 import { generateId } from '../utils/idGenerator';
 
+// Initialize services
+const eventService = new EventService(prisma);
+const payoutProposalService = new PayoutProposalService(
+  prisma,
+  eventService,
+  new AuditorService(prisma)
+);
+const reputationService = new ReputationService(prisma, eventService);
+const vettingService = new ChallengeVettingService(prisma, eventService);
+
 /**
  * Challenges Controller - Handles challenge-related HTTP requests
  */
@@ -23,6 +38,7 @@ export class ChallengesController {
   /**
    * GET /api/challenges
    * Get all challenges with pagination and filtering
+   * Only challenges approved in vetting are listed
    */
   async getAllChallenges(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
     try {
@@ -30,7 +46,9 @@ export class ChallengesController {
       const pagination = getPagination(page as string, limit as string);
 
       // Build filter conditions
-      const where: { status?: ChallengeStatus } = {};
+      const where: { status?: ChallengeStatus; vettingStatus: string } = {
+        vettingStatus: 'APPROVED',
+      };
       if (status && typeof status === 'string') {
         where.status = status as ChallengeStatus;
       }
@@ -127,11 +145,18 @@ export class ChallengesController {
         status: challenge.status,
         sponsorId: challenge.sponsorId,
         sponsor: challenge.users_challenges_sponsorIdTousers,
+        projectLeaderId: challenge.projectLeaderId,
         createdAt: challenge.createdAt,
         updatedAt: challenge.updatedAt,
         contributionCount: challenge._count.contributions,
       };
 
+      // Sponsors see where their challenge is in vetting and what was asked of them
+      if (req.user?.id === challenge.sponsorId) {
+        formattedChallenge.vettingStatus = challenge.vettingStatus;
+        formattedChallenge.vettingNotes = challenge.vettingNotes;
+      }
+
       const response: ApiResponse<ChallengeResponseDTO> = {
         success: true,
         data: formattedChallenge,
@@ -232,6 +257,11 @@ export class ChallengesController {
 
       logger.info(`Challenge updated: ${challenge.id}`);
 
+      // Editing after changes were requested puts the challenge back in the vetting queue
+      if (await vettingService.resubmitIfChangesRequested(challenge.id, req.user.id)) {
+        challenge.vettingStatus = 'PENDING';
+      }
+
       const response: ApiResponse<typeof challenge> = {
         success: true,
         data: challenge,
@@ -245,7 +275,7 @@ export class ChallengesController {
 
   /**
    * POST /api/challenges/:id/complete
-   * Complete challenge and distribute payments to contributors
+   * Complete challenge and release payments from its approved payout proposal
    */
   async completeChallenge(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
     try {
@@ -255,11 +285,12 @@ export class ChallengesController {
 
       const { id } = req.params;
 
-      // Get challenge with contributions
+      // Get challenge with contributions; quarantined ones earn no share of the payout
       const challenge = await prisma.challenges.findUnique({
         where: { id },
         include: {
           contributions: {
+            where: { moderationStatus: { not: 'QUARANTINED' } },
             include: {
               users: {
                 select: {
@@ -298,43 +329,65 @@ export class ChallengesController {
         );
       }
 
-      // Calculate payment splits based on contributions
-      const paymentSplits = await paymentService.calculatePaymentSplits(id);
-
-      // Create payment records for all contributors
-      const payments = await paymentService.distributePayments(
-        id,
-        paymentSplits,
-        PaymentMethod.FIAT
+      // Payments are only released from a sponsor-approved, audited payout proposal
+      const proposal = await payoutProposalService.getReleasable(id);
+      const paymentSplits = payoutProposalService.toPaymentSplits(
+        proposal,
+        challenge.bountyAmount.toNumber(),
+        challenge.contributions
       );
 
-      // Update challenge status to COMPLETED
-      const updatedChallenge = await prisma.challenges.update({
-        where: { id },
-        data: {
-          status: ChallengeStatus.COMPLETED,
-          updatedAt: new Date(),
-        },
-        include: {
-          users_challenges_sponsorIdTousers: {
-            select: {
-              id: true,
-              email: true,
-            },
+      // Claim the proposal, create payment records for all recipients (CRYPTO ones are sent
+      // by the payout executor) and complete the challenge together, so a concurrent
+      // request cannot release the same proposal twice
+      const { payments, releasedAt, updatedChallenge } = await prisma.$transaction(async (tx) => {
+        const releasedAt = await payoutProposalService.claimRelease(tx, proposal);
+
+        const payments = await paymentService.distributePayments(
+          id,
+          paymentSplits,
+          req.body.paymentMethod || PaymentMethod.FIAT,
+          tx
+        );
+
+        const updatedChallenge = await tx.challenges.update({
+          where: { id },
+          data: {
+            status: ChallengeStatus.COMPLETED,
+            updatedAt: new Date(),
           },
-          _count: {
-            select: {
-              contributions: true,
+          include: {
+            users_challenges_sponsorIdTousers: {
+              select: {
+                id: true,
+                email: true,
+              },
+            },
+            _count: {
+              select: {
+                contributions: true,
+              },
             },
           },
-        },
+        });
+
+        return { payments, releasedAt, updatedChallenge };
       });
 
+      await payoutProposalService.recordRelease(
+        req.user.id,
+        proposal,
+        payments.map((payment) => payment.id),
+        releasedAt
+      );
+
       logger.info(
         `Challenge ${id} completed by sponsor ${req.user.email}. ` +
           `${payments.length} payments created totaling $${challenge.bountyAmount}`
       );
 
+      await reputationService.refreshChallenge(id, req.user.id, 'CHALLENGE_COMPLETED');
+
       // Format response
       const challengeResponse: ChallengeResponseDTO = {
         id: updatedChallenge.id,
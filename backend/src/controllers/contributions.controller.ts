@@ -12,6 +12,10 @@ import {
 import { getPagination, calculateTokenValue } from '../utils/helpers';
 import { logger } from '../utils/logger';
 import { generateId } from '../utils/idGenerator';
+import { SafetyService } from '../services/ai/safety/SafetyService';
+
+// Initialize services
+const safetyService = new SafetyService(prisma);
 
 /**
  * Contributions Controller - Handles contribution-related HTTP requests
@@ -26,8 +30,12 @@ export class ContributionsController {
       const { page = 1, limit = 10, challengeId, userId } = req.query;
       const pagination = getPagination(page as string, limit as string);
 
-      // Build filter conditions
-      const where: { challengeId?: string; userId?: string } = {};
+      // Build filter conditions (quarantined contributions are never listed)
+      const where: {
+        challengeId?: string;
+        userId?: string;
+        moderationStatus: { not: 'QUARANTINED' };
+      } = { moderationStatus: { not: 'QUARANTINED' } };
       if (challengeId && typeof challengeId === 'string') {
         where.challengeId = challengeId;
       }
@@ -70,6 +78,7 @@ export class ContributionsController {
           type: contribution.type,
           tokenValue: contribution.tokenValue.toNumber(),
           blockchainTxHash: contribution.blockchainTxHash || undefined,
+          moderationStatus: contribution.moderationStatus,
           createdAt: contribution.createdAt,
           updatedAt: contribution.updatedAt,
           user: contribution.users,
@@ -122,7 +131,11 @@ export class ContributionsController {
         },
       });
 
-      if (!contribution) {
+      // Quarantined contributions are only visible to their author
+      if (
+        !contribution ||
+        (contribution.moderationStatus === 'QUARANTINED' && contribution.userId !== req.user?.id)
+      ) {
         throw new NotFoundError('Contribution');
       }
 
@@ -166,16 +179,27 @@ export class ContributionsController {
       // Calculate token value based on contribution type
       const tokenValue = calculateTokenValue(data.type);
 
+      // Moderate the content before it is visible to anyone
+      const contributionId = generateId();
+      const { moderationStatus } = await safetyService.moderateOnWrite({
+        content: data.content,
+        entityType: 'CONTRIBUTION',
+        entityId: contributionId,
+        authorId: req.user.id,
+        challengeId: data.challengeId,
+      });
+
       // Create contribution
       const contribution = await prisma.contributions.create({
         data: {
-          id: generateId(),
+          id: contributionId,
           challengeId: data.challengeId,
           userId: req.user.id,
           content: data.content,
           type: data.type,
           tokenValue,
           blockchainTxHash: data.blockchainTxHash,
+          moderationStatus,
           updatedAt: new Date(),
         },
         include: {
@@ -194,15 +218,17 @@ export class ContributionsController {
         },
       });
 
-      // Update challenge status to IN_PROGRESS if it's OPEN
-      if (challenge.status === 'OPEN') {
+      // Update challenge status to IN_PROGRESS if it's OPEN (quarantined work doesn't count)
+      if (challenge.status === 'OPEN' && moderationStatus !== 'QUARANTINED') {
         await prisma.challenges.update({
           where: { id: data.challengeId },
           data: { status: 'IN_PROGRESS' },
         });
       }
 
-      logger.info(`Contribution created: ${contribution.id} by user ${req.user.email}`);
+      logger.info(
+        `Contribution created: ${contribution.id} by user ${req.user.email} (moderation: ${moderationStatus})`
+      );
 
       const response: ApiResponse<typeof contribution> = {
         success: true,
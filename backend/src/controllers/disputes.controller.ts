@@ -0,0 +1,54 @@
+import { Response, NextFunction } from 'express';
+import { prisma } from '../config/database';
+import { DisputeService } from '../services/disputes/DisputeService';
+import { ReputationService } from '../services/reputation/ReputationService';
+import { EventService } from '../services/events/EventService';
+import { AuthRequest, RaiseDisputeDTO, AuthorizationError } from '../types';
+import { logger } from '../utils/logger';
+
+// Initialize services
+const eventService = new EventService(prisma);
+const disputeService = new DisputeService(prisma, eventService);
+const reputationService = new ReputationService(prisma, eventService);
+
+/**
+ * Disputes Controller - Handles dispute HTTP requests
+ */
+export class DisputesController {
+  /**
+   * POST /api/challenges/:challengeId/disputes
+   * Raise a dispute on a challenge (participants only)
+   */
+  async raiseDispute(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new AuthorizationError('Authentication required');
+      }
+
+      const { challengeId } = req.params;
+      const data: RaiseDisputeDTO = req.body;
+
+      const incident = await disputeService.raise(req.user.id, challengeId, data);
+
+      logger.info(`Dispute ${incident.id} raised on challenge ${challengeId} by ${req.user.email}`);
+
+      await reputationService.refreshChallenge(challengeId, req.user.id, 'DISPUTE_RAISED');
+
+      res.status(201).json({
+        success: true,
+        data: {
+          id: incident.id,
+          challengeId,
+          status: incident.status,
+          severity: incident.severity,
+          description: incident.description,
+          createdAt: incident.createdAt.toISOString(),
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const disputesController = new DisputesController();
@@ -0,0 +1,109 @@
+import { Request, Response, NextFunction } from 'express';
+import { prisma } from '../config/database';
+import { EvidenceGenerator } from '../services/ai/evidence/EvidenceGenerator';
+import {
+  EvidenceSignature,
+  SignatureVerification,
+  getEvidenceSigner,
+  verifyEvidenceSignature,
+} from '../services/signing';
+import { ApiResponse, AppError, ValidationError } from '../types';
+
+// Initialize services
+const evidenceGenerator = new EvidenceGenerator(prisma);
+
+type UploadedFiles = { [field: string]: Express.Multer.File[] } | undefined;
+
+/**
+ * Evidence Controller - Public endpoints for checking evidence packages
+ */
+export class EvidenceController {
+  /**
+   * GET /.well-known/evidence-signing-key.json
+   * Publish the public key evidence PDFs are signed with. Served as a bare
+   * JSON document (not wrapped in ApiResponse) so tools can fetch it directly.
+   */
+  async getPublicKey(_req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const signer = this.requireSigner();
+
+      res.setHeader('Cache-Control', 'public, max-age=3600');
+      res.status(200).json(signer.getPublicKey());
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /api/evidence/:packageId
+   * Public record behind the QR code on an evidence PDF: hash, challenge,
+   * generation date and revocation status
+   */
+  async getPackage(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const record = await evidenceGenerator.getPublicRecord(req.params.packageId);
+
+      const response: ApiResponse<typeof record> = {
+        success: true,
+        data: record,
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/evidence/verify-signature
+   * Check a PDF against its detached signature using only the published key.
+   * Nothing is looked up in the database.
+   */
+  async verifySignature(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const signer = this.requireSigner();
+      const files = req.files as UploadedFiles;
+      const pdf = files?.file?.[0];
+
+      if (!pdf) {
+        throw new ValidationError('PDF file is required');
+      }
+
+      const signature = this.readSignature(files?.signature?.[0]?.buffer ?? req.body.signature);
+
+      const response: ApiResponse<SignatureVerification> = {
+        success: true,
+        data: verifyEvidenceSignature(pdf.buffer, signature, signer.getPublicKey().publicKey),
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  private requireSigner() {
+    const signer = getEvidenceSigner();
+    if (!signer) {
+      throw new AppError(503, 'Evidence signing is not configured', 'SIGNING_NOT_CONFIGURED');
+    }
+    return signer;
+  }
+
+  /**
+   * Accept the signature as an uploaded .sig.json file or a JSON string field
+   */
+  private readSignature(raw: Buffer | string | undefined): EvidenceSignature {
+    if (!raw) {
+      throw new ValidationError('Signature is required');
+    }
+
+    try {
+      return JSON.parse(raw.toString());
+    } catch {
+      throw new ValidationError('Signature must be a JSON signature document');
+    }
+  }
+}
+
+export const evidenceController = new EvidenceController();
@@ -0,0 +1,228 @@
+import { Response, NextFunction } from 'express';
+import { prisma } from '../config/database';
+import {
+  IncidentNoteRecord,
+  IncidentService,
+  IncidentWithSla,
+} from '../services/incidents/IncidentService';
+import { EventService } from '../services/events/EventService';
+import {
+  ApiResponse,
+  AuthRequest,
+  AuthorizationError,
+  IncidentFilters,
+  IncidentNoteResponseDTO,
+  IncidentResponseDTO,
+  ResolveIncidentDTO,
+} from '../types';
+import { getPagination } from '../utils/helpers';
+import { logger } from '../utils/logger';
+
+// Initialize services
+const eventService = new EventService(prisma);
+const incidentService = new IncidentService(prisma, eventService);
+
+const splitList = (value: unknown): string[] | undefined =>
+  typeof value === 'string' && value
+    ? value
+        .split(',')
+        .map((item) => item.trim())
+        .filter(Boolean)
+    : undefined;
+
+const toNoteResponse = (note: IncidentNoteRecord): IncidentNoteResponseDTO => ({
+  id: note.id,
+  body: note.body,
+  author: note.users,
+  createdAt: note.createdAt.toISOString(),
+});
+
+const toIncidentResponse = (
+  incident: IncidentWithSla & { safety_incident_notes?: IncidentNoteRecord[] }
+): IncidentResponseDTO => ({
+  id: incident.id,
+  status: incident.status,
+  category: incident.category,
+  severity: incident.severity,
+  description: incident.description,
+  aiDetected: incident.aiDetected,
+  entityType: incident.entityType,
+  entityId: incident.entityId,
+  challenge: incident.challenges,
+  raisedBy: incident.users_safety_incidents_raisedByIdTousers,
+  assignee: incident.users_safety_incidents_assignedToTousers,
+  evidenceEventIds: incident.evidenceEventIds,
+  resolution: incident.resolution,
+  createdAt: incident.createdAt.toISOString(),
+  assignedAt: incident.assignedAt?.toISOString() ?? null,
+  closedAt: incident.closedAt?.toISOString() ?? null,
+  sla: {
+    respondBy: incident.sla.respondBy.toISOString(),
+    resolveBy: incident.sla.resolveBy.toISOString(),
+    responseBreached: incident.sla.responseBreached,
+    resolutionBreached: incident.sla.resolutionBreached,
+  },
+  notes: incident.safety_incident_notes?.map(toNoteResponse),
+});
+
+/**
+ * Incidents Controller - Moderator case management for safety incidents
+ */
+export class IncidentsController {
+  /**
+   * GET /api/incidents
+   * Incident queue filtered by status, severity and assignee
+   */
+  async list(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new AuthorizationError('Authentication required');
+      }
+
+      const { page, limit, status, severity, assignee } = req.query;
+      const pagination = getPagination(page as string, limit as string);
+
+      const filters: IncidentFilters = {
+        status: splitList(status),
+        severity: splitList(severity)?.map(Number),
+      };
+      if (assignee === 'me') filters.assignedTo = req.user.id;
+      if (assignee === 'unassigned') filters.assignedTo = null;
+
+      const { incidents, total } = await incidentService.list(filters, pagination);
+
+      const response: ApiResponse<IncidentResponseDTO[]> = {
+        success: true,
+        data: incidents.map(toIncidentResponse),
+        meta: {
+          page: pagination.page,
+          limit: pagination.limit,
+          total,
+        },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /api/incidents/:id
+   * Incident with notes and SLA state
+   */
+  async getById(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const incident = await incidentService.getById(req.params.id);
+
+      res.status(200).json({ success: true, data: toIncidentResponse(incident) });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/incidents/:id/assign
+   * Assign the incident to the calling moderator
+   */
+  async assignToMe(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new AuthorizationError('Authentication required');
+      }
+
+      const incident = await incidentService.assignToMe(req.params.id, req.user.id);
+
+      logger.info(`Incident ${incident.id} assigned to ${req.user.email}`);
+
+      res.status(200).json({ success: true, data: toIncidentResponse(incident) });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/incidents/:id/notes
+   * Add a case note
+   */
+  async addNote(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new AuthorizationError('Authentication required');
+      }
+
+      const note = await incidentService.addNote(req.params.id, req.user.id, req.body.body);
+
+      res.status(201).json({ success: true, data: toNoteResponse(note) });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/incidents/:id/escalate
+   * Escalate the incident with a reason
+   */
+  async escalate(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new AuthorizationError('Authentication required');
+      }
+
+      const incident = await incidentService.escalate(req.params.id, req.user.id, req.body.reason);
+
+      logger.info(
+        `Incident ${incident.id} escalated to severity ${incident.severity} by ${req.user.email}`
+      );
+
+      res.status(200).json({ success: true, data: toIncidentResponse(incident) });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/incidents/:id/resolve
+   * Resolve or dismiss the incident with a reason
+   */
+  async resolve(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new AuthorizationError('Authentication required');
+      }
+
+      const data: ResolveIncidentDTO = req.body;
+      const incident = await incidentService.resolve(req.params.id, req.user.id, data);
+
+      logger.info(`Incident ${incident.id} ${incident.status.toLowerCase()} by ${req.user.email}`);
+
+      res.status(200).json({ success: true, data: toIncidentResponse(incident) });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/incidents/:id/evidence
+   * Link events to the incident as evidence
+   */
+  async linkEvidence(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new AuthorizationError('Authentication required');
+      }
+
+      const incident = await incidentService.linkEvidence(
+        req.params.id,
+        req.user.id,
+        req.body.eventIds
+      );
+
+      res.status(200).json({ success: true, data: toIncidentResponse(incident) });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const incidentsController = new IncidentsController();
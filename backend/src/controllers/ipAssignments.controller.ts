@@ -0,0 +1,123 @@
+import { Response, NextFunction } from 'express';
+import { ip_assignments } from '@prisma/client';
+import { prisma } from '../config/database';
+import { IPAssignmentService } from '../services/ip/IPAssignmentService';
+import { IP_AGREEMENT_VERSION } from '../services/ip/agreement';
+import { EventService } from '../services/events/EventService';
+import {
+  AuthRequest,
+  SignIPAssignmentDTO,
+  IPAssignmentResponseDTO,
+  IPAgreementResponseDTO,
+  ApiResponse,
+  AuthorizationError,
+} from '../types';
+import { logger } from '../utils/logger';
+
+// Initialize services
+const eventService = new EventService(prisma);
+const ipAssignmentService = new IPAssignmentService(prisma, eventService);
+
+/**
+ * IP Assignments Controller - Handles IP assignment agreement HTTP requests
+ */
+export class IPAssignmentsController {
+  /**
+   * GET /api/challenges/:challengeId/ip-assignment
+   * Get the agreement the authenticated contributor is asked to sign
+   */
+  async getAgreement(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new AuthorizationError('Authentication required');
+      }
+
+      const agreement = await ipAssignmentService.getAgreement(req.user.id, req.params.challengeId);
+
+      const response: ApiResponse<IPAgreementResponseDTO> = {
+        success: true,
+        data: {
+          ...agreement,
+          assignment: agreement.assignment ? this.formatAssignment(agreement.assignment) : null,
+        },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/challenges/:challengeId/ip-assignment/sign
+   * Sign the current agreement (contributors only)
+   */
+  async signAgreement(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new AuthorizationError('Authentication required');
+      }
+
+      const data: SignIPAssignmentDTO = req.body;
+
+      const assignment = await ipAssignmentService.sign(req.user.id, req.params.challengeId, data);
+
+      logger.info(
+        `IP assignment signed for challenge ${assignment.challengeId} by ${req.user.email}`
+      );
+
+      const response: ApiResponse<IPAssignmentResponseDTO> = {
+        success: true,
+        data: this.formatAssignment(assignment),
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /api/challenges/:challengeId/ip-assignments
+   * Get all signed agreements for a challenge
+   */
+  async getByChallenge(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new AuthorizationError('Authentication required');
+      }
+
+      const assignments = await ipAssignmentService.getByChallenge(req.params.challengeId);
+
+      const response: ApiResponse<IPAssignmentResponseDTO[]> = {
+        success: true,
+        data: assignments.map((a) => this.formatAssignment(a)),
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Format IP assignment for API response
+   */
+  private formatAssignment(
+    assignment: ip_assignments & { users?: { id: string; email: string } }
+  ): IPAssignmentResponseDTO {
+    return {
+      id: assignment.id,
+      challengeId: assignment.challengeId,
+      userId: assignment.userId,
+      user: assignment.users,
+      agreementVersion: assignment.agreementVersion,
+      contentHash: assignment.contentHash,
+      signedName: assignment.signedName,
+      signedAt: assignment.signedAt.toISOString(),
+      isCurrentVersion: assignment.agreementVersion === IP_AGREEMENT_VERSION,
+    };
+  }
+}
+
+export const ipAssignmentsController = new IPAssignmentsController();
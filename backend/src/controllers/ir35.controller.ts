@@ -0,0 +1,141 @@
+import { Response, NextFunction } from 'express';
+import { ir35_assessments } from '@prisma/client';
+import { prisma } from '../config/database';
+import { IR35AssessmentService } from '../services/ir35/IR35AssessmentService';
+import { EventService } from '../services/events/EventService';
+import {
+  AuthRequest,
+  CreateIR35AssessmentDTO,
+  IR35AssessmentResponseDTO,
+  ApiResponse,
+  AuthorizationError,
+} from '../types';
+import { logger } from '../utils/logger';
+
+// Initialize services
+const eventService = new EventService(prisma);
+const ir35Service = new IR35AssessmentService(prisma, eventService);
+
+/**
+ * IR35 Controller - Handles employment-status assessment HTTP requests
+ */
+export class IR35Controller {
+  /**
+   * GET /api/ir35/questionnaire
+   * Get the assessment questionnaire
+   */
+  async getQuestionnaire(_req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      res.status(200).json({
+        success: true,
+        data: ir35Service.getQuestionnaire(),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/ir35/assessments
+   * Score questionnaire responses and record the assessment
+   */
+  async createAssessment(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new AuthorizationError('Authentication required');
+      }
+
+      const data: CreateIR35AssessmentDTO = req.body;
+
+      const assessment = await ir35Service.assess(req.user.id, data);
+
+      logger.info(
+        `IR35 assessment ${assessment.id} recorded for user ${data.userId} ` +
+          `(${assessment.riskLevel}) by ${req.user.email}`
+      );
+
+      const response: ApiResponse<IR35AssessmentResponseDTO> = {
+        success: true,
+        data: this.formatAssessment(assessment),
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /api/ir35/assessments/me
+   * Get the authenticated user's assessments
+   */
+  async getMyAssessments(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new AuthorizationError('Authentication required');
+      }
+
+      const assessments = await ir35Service.getByUser(req.user.id);
+
+      const response: ApiResponse<IR35AssessmentResponseDTO[]> = {
+        success: true,
+        data: assessments.map((a) => this.formatAssessment(a)),
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /api/admin/ir35/review
+   * Get valid assessments flagged for review (Admin only)
+   */
+  async getRequiringReview(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new AuthorizationError('Authentication required');
+      }
+
+      const assessments = await ir35Service.getRequiringReview();
+
+      res.status(200).json({
+        success: true,
+        data: assessments.map((a) => ({
+          ...this.formatAssessment(a),
+          user: a.users,
+        })),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Format assessment for API response
+   */
+  private formatAssessment(assessment: ir35_assessments): IR35AssessmentResponseDTO {
+    const stored = (assessment.responses || {}) as {
+      answers?: Record<string, string>;
+      score?: number;
+    };
+
+    return {
+      id: assessment.id,
+      userId: assessment.userId,
+      challengeId: assessment.challengeId || undefined,
+      responses: stored.answers || {},
+      score: Number(stored.score) || 0,
+      riskLevel: assessment.riskLevel,
+      recommendation: assessment.recommendation,
+      requiresReview: assessment.requiresReview,
+      assessedBy: assessment.assessedBy || undefined,
+      assessedAt: assessment.assessedAt.toISOString(),
+      validUntil: assessment.validUntil?.toISOString(),
+      isValid: !!assessment.validUntil && assessment.validUntil > new Date(),
+    };
+  }
+}
+
+export const ir35Controller = new IR35Controller();
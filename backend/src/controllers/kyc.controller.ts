@@ -0,0 +1,84 @@
+import { Request, Response, NextFunction } from 'express';
+import { prisma } from '../config/database';
+import { EventService } from '../services/events/EventService';
+import { KycService } from '../services/kyc/KycService';
+import { ApiResponse, AuthRequest, AuthorizationError, ValidationError } from '../types';
+
+// Initialize services
+const kycService = new KycService(prisma, new EventService(prisma));
+
+/**
+ * KYC Controller - Identity verification for the signed-in user and the
+ * provider's webhook
+ */
+export class KycController {
+  /**
+   * GET /api/kyc/status
+   * Current user's KYC status and most recent verification
+   */
+  async getStatus(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new AuthorizationError('Authentication required');
+      }
+
+      const status = await kycService.getStatus(req.user.id);
+
+      const response: ApiResponse<typeof status> = {
+        success: true,
+        data: status,
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/kyc/sessions
+   * Start verification; the client sends the user to the returned redirectUrl
+   */
+  async startVerification(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new AuthorizationError('Authentication required');
+      }
+
+      const session = await kycService.startVerification(req.user.id);
+
+      const response: ApiResponse<typeof session> = {
+        success: true,
+        data: session,
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/kyc/webhook
+   * Verification outcome from the provider. The body arrives unparsed so the
+   * signature can be checked against the exact bytes sent.
+   */
+  async handleWebhook(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!Buffer.isBuffer(req.body)) {
+        throw new ValidationError('Webhook body must be sent as application/json');
+      }
+
+      const applied = await kycService.handleWebhook(req.body, req.headers);
+
+      res.status(200).json({
+        success: true,
+        data: { applied },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const kycController = new KycController();
@@ -0,0 +1,152 @@
+import { Response, NextFunction } from 'express';
+import { composition_manifests } from '@prisma/client';
+import { prisma } from '../config/database';
+import { CompositionManifestService } from '../services/manifests/CompositionManifestService';
+import { EventService } from '../services/events/EventService';
+import {
+  AuthRequest,
+  SaveManifestDTO,
+  ManifestEntryDTO,
+  ManifestResponseDTO,
+  ApiResponse,
+  AuthorizationError,
+} from '../types';
+import { logger } from '../utils/logger';
+
+// Initialize services
+const eventService = new EventService(prisma);
+const manifestService = new CompositionManifestService(prisma, eventService);
+
+/**
+ * Manifests Controller - Handles composition manifest HTTP requests
+ */
+export class ManifestsController {
+  /**
+   * GET /api/challenges/:challengeId/manifest
+   * Get the composition manifest for a challenge
+   */
+  async getManifest(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new AuthorizationError('Authentication required');
+      }
+
+      const { challengeId } = req.params;
+
+      const manifest = await manifestService.getByChallenge(challengeId);
+
+      const response: ApiResponse<ManifestResponseDTO | null> = {
+        success: true,
+        data: manifest ? this.formatManifest(manifest) : null,
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * PUT /api/challenges/:challengeId/manifest
+   * Save draft manifest entries (Project Leader only)
+   */
+  async saveManifest(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new AuthorizationError('Authentication required');
+      }
+
+      const { challengeId } = req.params;
+      const data: SaveManifestDTO = req.body;
+
+      const manifest = await manifestService.saveDraft(req.user.id, challengeId, data.entries);
+
+      logger.info(`Manifest saved for challenge ${challengeId} by user ${req.user.email}`);
+
+      const response: ApiResponse<ManifestResponseDTO> = {
+        success: true,
+        data: this.formatManifest(manifest),
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /api/challenges/:challengeId/manifest/validate
+   * Check whether the manifest is ready to be signed
+   */
+  async validateManifest(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new AuthorizationError('Authentication required');
+      }
+
+      const { challengeId } = req.params;
+
+      const result = await manifestService.validate(challengeId);
+
+      res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/challenges/:challengeId/manifest/sign
+   * Sign the manifest (Project Leader only)
+   */
+  async signManifest(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new AuthorizationError('Authentication required');
+      }
+
+      const { challengeId } = req.params;
+
+      const manifest = await manifestService.sign(req.user.id, challengeId);
+
+      logger.info(`Manifest signed for challenge ${challengeId} by user ${req.user.email}`);
+
+      const response: ApiResponse<ManifestResponseDTO> = {
+        success: true,
+        data: this.formatManifest(manifest),
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Format manifest for API response
+   */
+  private formatManifest(
+    manifest: composition_manifests & { users: { id: string; email: string } }
+  ): ManifestResponseDTO {
+    return {
+      id: manifest.id,
+      challengeId: manifest.challengeId,
+      leader: {
+        id: manifest.users.id,
+        email: manifest.users.email,
+      },
+      entries: Array.isArray(manifest.entries)
+        ? (manifest.entries as unknown as ManifestEntryDTO[])
+        : [],
+      totalDeclared: Number(manifest.totalDeclared),
+      signedByLeader: manifest.signedByLeader,
+      signedAt: manifest.signedAt?.toISOString(),
+      createdAt: manifest.createdAt.toISOString(),
+      updatedAt: manifest.updatedAt.toISOString(),
+    };
+  }
+}
+
+export const manifestsController = new ManifestsController();
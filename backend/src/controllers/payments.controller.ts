@@ -1,6 +1,41 @@
 import type { Response, NextFunction } from 'express';
 import { prisma } from '../config/database';
-import type { AuthRequest } from '../types';
+import { env } from '../config/env';
+import { AppError, AuthorizationError } from '../types';
+import type { AuthRequest, ApiResponse } from '../types';
+import { EventService } from '../services/events/EventService';
+import { BlockchainService } from '../services/blockchain.service';
+import {
+  CryptoPayoutExecutor,
+  CryptoPayoutSummary,
+} from '../services/payouts/CryptoPayoutExecutor';
+
+const eventService = new EventService(prisma);
+let cryptoPayoutExecutor: CryptoPayoutExecutor | null = null;
+
+/**
+ * Lazily connect the payout wallet; crypto payouts are optional
+ */
+const getCryptoPayoutExecutor = (): CryptoPayoutExecutor => {
+  if (!env.PAYOUT_RPC_URL || !env.PAYOUT_PRIVATE_KEY || !env.PAYOUT_TOKEN_ADDRESS) {
+    throw new AppError(
+      503,
+      'Crypto payouts are not configured (PAYOUT_RPC_URL / PAYOUT_PRIVATE_KEY / PAYOUT_TOKEN_ADDRESS)',
+      'PAYOUTS_NOT_CONFIGURED'
+    );
+  }
+
+  if (!cryptoPayoutExecutor) {
+    const blockchain = new BlockchainService();
+    blockchain.initializeProvider(env.PAYOUT_RPC_URL);
+    blockchain.initializeSigner(env.PAYOUT_PRIVATE_KEY);
+    cryptoPayoutExecutor = new CryptoPayoutExecutor(prisma, eventService, blockchain, {
+      tokenAddress: env.PAYOUT_TOKEN_ADDRESS,
+    });
+  }
+
+  return cryptoPayoutExecutor;
+};
 
 class PaymentsController {
   /**
@@ -177,6 +212,29 @@ class PaymentsController {
       next(error);
     }
   }
+
+  /**
+   * POST /api/admin/payments/crypto/execute
+   * Send PENDING crypto payments and settle ones already sent (admin only)
+   */
+  async executeCryptoPayouts(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new AuthorizationError('Authentication required');
+      }
+
+      const summary = await getCryptoPayoutExecutor().execute(req.user.id, req.body.challengeId);
+
+      const response: ApiResponse<CryptoPayoutSummary> = {
+        success: true,
+        data: summary,
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
 }
 
 export const paymentsController = new PaymentsController();
@@ -0,0 +1,320 @@
+import { Response, NextFunction } from 'express';
+import { prisma } from '../config/database';
+import {
+  PayoutProposalService,
+  getPayoutProposalStatus,
+} from '../services/payouts/PayoutProposalService';
+import { EventService } from '../services/events/EventService';
+import { AuditorService } from '../services/auditor/AuditorService';
+import { ReputationService } from '../services/reputation/ReputationService';
+import {
+  AuthRequest,
+  CreatePayoutProposalDTO,
+  SignPayoutProposalDTO,
+  SponsorDecisionDTO,
+  AuditPayoutProposalDTO,
+  PayoutEntryDTO,
+  PayoutProposalResponseDTO,
+  ApiResponse,
+  NotFoundError,
+  AuthorizationError,
+} from '../types';
+import { logger } from '../utils/logger';
+
+// Initialize services
+const eventService = new EventService(prisma);
+const auditorService = new AuditorService(prisma);
+const payoutProposalService = new PayoutProposalService(prisma, eventService, auditorService);
+const reputationService = new ReputationService(prisma, eventService);
+
+type PayoutProposalWithRelations = NonNullable<
+  Awaited<ReturnType<PayoutProposalService['getById']>>
+>;
+
+/**
+ * Payouts Controller - Handles payout proposal HTTP requests
+ */
+export class PayoutsController {
+  /**
+   * POST /api/payouts
+   * Draft a payout proposal from the signed manifest (Project Leader only)
+   */
+  async createProposal(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new AuthorizationError('Authentication required');
+      }
+
+      const data: CreatePayoutProposalDTO = req.body;
+
+      const proposal = await payoutProposalService.createFromManifest(
+        req.user.id,
+        data.challengeId,
+        data.distribution
+      );
+
+      logger.info(`Payout proposal drafted: ${proposal.id} by user ${req.user.email}`);
+
+      this.respond(res, 201, proposal);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /api/payouts/:id
+   * Get payout proposal by ID
+   */
+  async getProposalById(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new AuthorizationError('Authentication required');
+      }
+
+      const proposal = await payoutProposalService.getById(req.params.id);
+
+      if (!proposal) {
+        throw new NotFoundError('Payout proposal');
+      }
+
+      this.respond(res, 200, proposal);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /api/challenges/:challengeId/payouts
+   * Get all payout proposals for a challenge
+   */
+  async getProposalsByChallenge(
+    req: AuthRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new AuthorizationError('Authentication required');
+      }
+
+      const proposals = await payoutProposalService.getByChallenge(req.params.challengeId);
+
+      const response: ApiResponse<PayoutProposalResponseDTO[]> = {
+        success: true,
+        data: proposals.map((p) => this.formatProposal(p)),
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * PUT /api/payouts/:id
+   * Replace the distribution of a draft proposal (Project Leader only)
+   */
+  async updateProposal(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new AuthorizationError('Authentication required');
+      }
+
+      const distribution: PayoutEntryDTO[] = req.body.distribution;
+
+      const proposal = await payoutProposalService.updateDraft(
+        req.user.id,
+        req.params.id,
+        distribution
+      );
+
+      logger.info(`Payout proposal updated: ${proposal.id} by user ${req.user.email}`);
+
+      this.respond(res, 200, proposal);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/payouts/:id/sign
+   * Sign a draft proposal (Project Leader only)
+   */
+  async signProposal(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new AuthorizationError('Authentication required');
+      }
+
+      const data: SignPayoutProposalDTO = req.body;
+
+      const proposal = await payoutProposalService.sign(
+        req.user.id,
+        req.params.id,
+        data.toleranceNote
+      );
+
+      logger.info(`Payout proposal signed: ${proposal.id} by user ${req.user.email}`);
+
+      this.respond(res, 200, proposal);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/payouts/:id/approve
+   * Approve a signed proposal (Sponsor only)
+   */
+  async approveProposal(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new AuthorizationError('Authentication required');
+      }
+
+      const data: SponsorDecisionDTO = req.body;
+
+      const proposal = await payoutProposalService.approve(req.user.id, req.params.id, data.notes);
+
+      logger.info(`Payout proposal approved: ${proposal.id} by sponsor ${req.user.email}`);
+
+      await reputationService.refresh(
+        [proposal.leaderId, req.user.id],
+        req.user.id,
+        'PAYOUT_APPROVED'
+      );
+
+      this.respond(res, 200, proposal);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/payouts/:id/reject
+   * Reject a signed proposal (Sponsor only)
+   */
+  async rejectProposal(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new AuthorizationError('Authentication required');
+      }
+
+      const data: SponsorDecisionDTO = req.body;
+
+      const proposal = await payoutProposalService.reject(
+        req.user.id,
+        req.params.id,
+        data.notes || ''
+      );
+
+      logger.info(`Payout proposal rejected: ${proposal.id} by sponsor ${req.user.email}`);
+
+      this.respond(res, 200, proposal);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /api/admin/payouts
+   * Get all payout proposals, optionally filtered by audit status (Admin only)
+   */
+  async getAllProposals(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new AuthorizationError('Authentication required');
+      }
+
+      const { auditStatus } = req.query;
+
+      const proposals = await payoutProposalService.getAll(auditStatus as string | undefined);
+
+      const response: ApiResponse<PayoutProposalResponseDTO[]> = {
+        success: true,
+        data: proposals.map((p) => this.formatProposal(p)),
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/admin/payouts/:id/audit
+   * Pass or fail a sponsor-approved proposal (Admin only)
+   */
+  async auditProposal(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new AuthorizationError('Authentication required');
+      }
+
+      const data: AuditPayoutProposalDTO = req.body;
+
+      const proposal = await payoutProposalService.audit(
+        req.user.id,
+        req.params.id,
+        data.result,
+        data.notes
+      );
+
+      logger.info(`Payout proposal ${proposal.id} audit ${data.result} by admin ${req.user.email}`);
+
+      this.respond(res, 200, proposal);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  private respond(res: Response, statusCode: number, proposal: PayoutProposalWithRelations): void {
+    const response: ApiResponse<PayoutProposalResponseDTO> = {
+      success: true,
+      data: this.formatProposal(proposal),
+    };
+
+    res.status(statusCode).json(response);
+  }
+
+  /**
+   * Format payout proposal for API response
+   */
+  private formatProposal(proposal: PayoutProposalWithRelations): PayoutProposalResponseDTO {
+    return {
+      id: proposal.id,
+      challengeId: proposal.challengeId,
+      challenge: {
+        id: proposal.challenges.id,
+        title: proposal.challenges.title,
+        status: proposal.challenges.status,
+        bountyAmount: proposal.challenges.bountyAmount.toNumber(),
+      },
+      leader: {
+        id: proposal.users.id,
+        email: proposal.users.email,
+      },
+      status: getPayoutProposalStatus(proposal),
+      distribution: Array.isArray(proposal.distribution)
+        ? (proposal.distribution as unknown as PayoutEntryDTO[])
+        : [],
+      withinTolerance: proposal.withinTolerance,
+      toleranceNote: proposal.toleranceNote || undefined,
+      signedByLeader: proposal.signedByLeader,
+      leaderSignedAt: proposal.leaderSignedAt?.toISOString(),
+      sponsorApproved: proposal.sponsorApproved,
+      sponsorApprovedAt: proposal.sponsorApprovedAt?.toISOString(),
+      sponsorRejectedAt: proposal.sponsorRejectedAt?.toISOString(),
+      sponsorNotes: proposal.sponsorNotes || undefined,
+      auditStatus: proposal.auditStatus,
+      auditNotes: proposal.auditNotes || undefined,
+      auditedBy: proposal.auditedBy || undefined,
+      auditedAt: proposal.auditedAt?.toISOString(),
+      releasedAt: proposal.releasedAt?.toISOString(),
+      evidencePackUrl: proposal.evidencePackUrl || undefined,
+      createdAt: proposal.createdAt.toISOString(),
+    };
+  }
+}
+
+export const payoutsController = new PayoutsController();
@@ -62,6 +62,7 @@ export class ProposalsController {
           : undefined,
         respondedAt: proposal.respondedAt?.toISOString(),
         responseMessage: proposal.responseMessage || undefined,
+        moderationStatus: proposal.moderationStatus,
         createdAt: proposal.createdAt.toISOString(),
         updatedAt: proposal.updatedAt.toISOString(),
       };
@@ -113,6 +114,7 @@ export class ProposalsController {
           : undefined,
         respondedAt: proposal.respondedAt?.toISOString(),
         responseMessage: proposal.responseMessage || undefined,
+        moderationStatus: proposal.moderationStatus,
         createdAt: proposal.createdAt.toISOString(),
         updatedAt: proposal.updatedAt.toISOString(),
       }));
@@ -170,6 +172,7 @@ export class ProposalsController {
           : undefined,
         respondedAt: proposal.respondedAt?.toISOString(),
         responseMessage: proposal.responseMessage || undefined,
+        moderationStatus: proposal.moderationStatus,
         createdAt: proposal.createdAt.toISOString(),
         updatedAt: proposal.updatedAt.toISOString(),
       };
@@ -234,6 +237,7 @@ export class ProposalsController {
           : undefined,
         respondedAt: proposal.respondedAt?.toISOString(),
         responseMessage: proposal.responseMessage || undefined,
+        moderationStatus: proposal.moderationStatus,
         createdAt: proposal.createdAt.toISOString(),
         updatedAt: proposal.updatedAt.toISOString(),
       };
@@ -289,6 +293,7 @@ export class ProposalsController {
           : undefined,
         respondedAt: proposal.respondedAt?.toISOString(),
         responseMessage: proposal.responseMessage || undefined,
+        moderationStatus: proposal.moderationStatus,
         createdAt: proposal.createdAt.toISOString(),
         updatedAt: proposal.updatedAt.toISOString(),
       };
@@ -350,6 +355,7 @@ export class ProposalsController {
           : undefined,
         respondedAt: proposal.respondedAt?.toISOString(),
         responseMessage: proposal.responseMessage || undefined,
+        moderationStatus: proposal.moderationStatus,
         createdAt: proposal.createdAt.toISOString(),
         updatedAt: proposal.updatedAt.toISOString(),
       }));
@@ -433,6 +439,7 @@ export class ProposalsController {
           : undefined,
         respondedAt: proposal.respondedAt?.toISOString(),
         responseMessage: proposal.responseMessage || undefined,
+        moderationStatus: proposal.moderationStatus,
         createdAt: proposal.createdAt.toISOString(),
         updatedAt: proposal.updatedAt.toISOString(),
       }));
@@ -0,0 +1,69 @@
+import { Response, NextFunction } from 'express';
+import { reputations } from '@prisma/client';
+import { prisma } from '../config/database';
+import { ReputationService } from '../services/reputation/ReputationService';
+import { EventService } from '../services/events/EventService';
+import { getBadge } from '../services/reputation/badges';
+import { AuthRequest, ReputationResponseDTO, ApiResponse, AuthorizationError } from '../types';
+
+// Initialize services
+const eventService = new EventService(prisma);
+const reputationService = new ReputationService(prisma, eventService);
+
+/**
+ * Reputation Controller - Handles user reputation HTTP requests
+ */
+export class ReputationController {
+  /**
+   * GET /api/users/:id/reputation
+   * Get a user's reputation scores and badges
+   */
+  async getUserReputation(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new AuthorizationError('Authentication required');
+      }
+
+      const reputation = await reputationService.getByUser(req.params.id);
+
+      const response: ApiResponse<ReputationResponseDTO> = {
+        success: true,
+        data: this.formatReputation(reputation),
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Format reputation for API response
+   */
+  private formatReputation(reputation: reputations): ReputationResponseDTO {
+    return {
+      userId: reputation.userId,
+      asContributor: reputation.asContributor,
+      asProjectLeader: reputation.asProjectLeader,
+      asSponsor: reputation.asSponsor,
+      totalProjects: reputation.totalProjects,
+      successfulProjects: reputation.successfulProj,
+      disputesRaised: reputation.disputesRaised,
+      disputesAgainst: reputation.disputesAgainst,
+      contributionPoints: reputation.contributionPoints.toNumber(),
+      leadershipPoints: reputation.leadershipPoints.toNumber(),
+      stewardshipPoints: reputation.stewardshipPoints.toNumber(),
+      badges: reputation.badges.map((id) => {
+        const badge = getBadge(id);
+        return {
+          id,
+          label: badge?.label || id,
+          description: badge?.description || '',
+        };
+      }),
+      lastUpdated: reputation.lastUpdated.toISOString(),
+    };
+  }
+}
+
+export const reputationController = new ReputationController();
@@ -3,6 +3,7 @@ import { prisma } from '../config/database';
 import { SubmissionService } from '../services/submissions/SubmissionService';
 import { EventService } from '../services/events/EventService';
 import { FileUploadService } from '../services/uploads/FileUploadService';
+import { ReputationService } from '../services/reputation/ReputationService';
 import {
   AuthRequest,
   CreateSubmissionDTO,
@@ -19,6 +20,7 @@ import { logger } from '../utils/logger';
 const eventService = new EventService(prisma);
 const submissionService = new SubmissionService(prisma, eventService);
 const fileUploadService = new FileUploadService();
+const reputationService = new ReputationService(prisma, eventService);
 
 /**
  * Submissions Controller - Handles submission-related HTTP requests
@@ -205,6 +207,12 @@ export class SubmissionsController {
 
       logger.info(`Submission approved: ${id} by user ${req.user.email}`);
 
+      await reputationService.refresh(
+        [submission.contributorId, req.user.id],
+        req.user.id,
+        'SUBMISSION_APPROVED'
+      );
+
       // Format response
       const submissionResponse: SubmissionResponseDTO = this.formatSubmission(submission);
 
@@ -413,6 +421,7 @@ export class SubmissionsController {
         : undefined,
       reviewedAt: submission.reviewedAt?.toISOString(),
       reviewNotes: submission.reviewNotes || undefined,
+      moderationStatus: submission.moderationStatus,
       files: submission.submission_files.map((file: any) => ({
         id: file.id,
         filename: file.filename,
@@ -2,8 +2,24 @@ import { Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import { env } from '../config/env';
 import { AuthRequest, JWTPayload, AuthenticationError } from '../types';
+import { sessionService } from '../services/session.service';
 import { logger } from '../utils/logger';
 
+/**
+ * Verify an access token and check that its session has not been revoked
+ * @returns The token payload, or null if the session is no longer active
+ */
+const verifyAccessToken = async (token: string): Promise<JWTPayload | null> => {
+  const decoded = jwt.verify(token, env.JWT_SECRET) as JWTPayload;
+
+  // Tokens issued before sessions existed carry no session and cannot be revoked
+  if (!decoded.sessionId || !(await sessionService.isActive(decoded.sessionId, decoded.userId))) {
+    return null;
+  }
+
+  return decoded;
+};
+
 /**
  * Authentication middleware - verifies JWT token and attaches user to request
  * Usage: Add to routes that require authentication
@@ -24,12 +40,17 @@ export const authenticate = async (
     const token = authHeader.substring(7); // Remove 'Bearer ' prefix
 
     // Verify token
-    const decoded = jwt.verify(token, env.JWT_SECRET) as JWTPayload;
+    const decoded = await verifyAccessToken(token);
+
+    if (!decoded) {
+      throw new AuthenticationError('Session expired or revoked');
+    }
 
     // Attach user info to request
     req.user = {
       id: decoded.userId,
       email: decoded.email,
+      sessionId: decoded.sessionId,
     };
 
     logger.debug(`User authenticated: ${decoded.email}`);
@@ -59,12 +80,15 @@ export const optionalAuthenticate = async (
 
     if (authHeader && authHeader.startsWith('Bearer ')) {
       const token = authHeader.substring(7);
-      const decoded = jwt.verify(token, env.JWT_SECRET) as JWTPayload;
+      const decoded = await verifyAccessToken(token);
 
-      req.user = {
-        id: decoded.userId,
-        email: decoded.email,
-      };
+      if (decoded) {
+        req.user = {
+          id: decoded.userId,
+          email: decoded.email,
+          sessionId: decoded.sessionId,
+        };
+      }
     }
 
     next();
@@ -2,6 +2,7 @@ import { Request, Response, NextFunction } from 'express';
 import { EventService } from '../services/events/EventService';
 import { prisma } from '../config/database';
 import { AuthRequest } from '../types';
+import { SYSTEM_USER_ID } from '../config/systemActor';
 
 /**
  * Middleware to automatically log events for key actions
@@ -18,7 +19,7 @@ export function eventLogger(entityType: string) {
         const eventService = new EventService(prisma);
 
         eventService.emit({
-          actorId: authReq.user?.id || 'system',
+          actorId: authReq.user?.id || SYSTEM_USER_ID,
           entityType,
           entityId: data.id || req.params.id,
           action: mapMethodToAction(req.method),
@@ -0,0 +1,30 @@
+import { Response, NextFunction } from 'express';
+import { AuthRequest, AuthorizationError } from '../types';
+import { prisma } from '../config/database';
+
+/**
+ * Require the authenticated user to have verified their email address
+ * Usage: Add after authenticate on routes that commit money, e.g. sponsoring a challenge
+ */
+export const requireVerifiedEmail = (action: string) => {
+  return async (req: AuthRequest, _res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new AuthorizationError('Authentication required');
+      }
+
+      const user = await prisma.users.findUnique({
+        where: { id: req.user.id },
+        select: { emailVerifiedAt: true },
+      });
+
+      if (!user?.emailVerifiedAt) {
+        throw new AuthorizationError(`Verify your email address before ${action}`);
+      }
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+};
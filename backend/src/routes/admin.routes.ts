@@ -1,8 +1,15 @@
 import { Router } from 'express';
+import { body, param, query } from 'express-validator';
 import { authenticate } from '../middleware/auth';
 import { requireRole } from '../middleware/roles';
+import { validateRequest } from '../middleware/validation';
 import { adminController } from '../controllers/admin.controller';
 import { proposalsController } from '../controllers/proposals.controller';
+import { payoutsController } from '../controllers/payouts.controller';
+import { paymentsController } from '../controllers/payments.controller';
+import { ir35Controller } from '../controllers/ir35.controller';
+import { VETTING_DECISIONS, VETTING_STATUSES } from '../services/vetting/ChallengeVettingService';
+import { KYC_OVERRIDE_STATUSES } from '../services/kyc/KycService';
 import eventsRouter from './admin/events';
 import auditorRouter from './admin/auditor';
 import safetyRouter from './admin/safety';
@@ -17,10 +24,69 @@ router.use(requireRole('ADMIN'));
 
 // Admin endpoints
 router.get('/users', adminController.getAllUsers.bind(adminController));
-router.get('/challenges', adminController.getAllChallenges.bind(adminController));
+router.get(
+  '/challenges',
+  validateRequest([
+    query('vettingStatus')
+      .optional()
+      .isIn([...VETTING_STATUSES])
+      .withMessage(`Vetting status must be one of ${VETTING_STATUSES.join(', ')}`),
+  ]),
+  adminController.getAllChallenges.bind(adminController)
+);
+router.post(
+  '/challenges/:id/vet',
+  validateRequest([
+    param('id').isString().isLength({ min: 1, max: 64 }),
+    body('decision')
+      .isIn([...VETTING_DECISIONS])
+      .withMessage(`Decision must be one of ${VETTING_DECISIONS.join(', ')}`),
+    body('notes')
+      .isString()
+      .trim()
+      .isLength({ min: 10, max: 2000 })
+      .withMessage('Notes must be between 10 and 2000 characters'),
+  ]),
+  adminController.vetChallenge.bind(adminController)
+);
 router.get('/proposals', proposalsController.getAllProposals.bind(proposalsController));
 router.get('/stats', adminController.getStats.bind(adminController));
+router.get('/ir35/review', ir35Controller.getRequiringReview.bind(ir35Controller));
+router.get('/payouts', payoutsController.getAllProposals.bind(payoutsController));
+router.post(
+  '/payouts/:id/audit',
+  validateRequest([
+    body('result').isIn(['PASSED', 'FAILED']).withMessage('Result must be PASSED or FAILED'),
+    body('notes')
+      .optional()
+      .isString()
+      .trim()
+      .isLength({ max: 2000 })
+      .withMessage('Notes must be at most 2000 characters'),
+  ]),
+  payoutsController.auditProposal.bind(payoutsController)
+);
+router.post(
+  '/payments/crypto/execute',
+  validateRequest([body('challengeId').optional().isUUID().withMessage('Invalid challenge ID')]),
+  paymentsController.executeCryptoPayouts.bind(paymentsController)
+);
 router.patch('/users/:id/role', adminController.updateUserRole.bind(adminController));
+router.post(
+  '/users/:id/kyc',
+  validateRequest([
+    param('id').isString().isLength({ min: 1, max: 64 }),
+    body('status')
+      .isIn([...KYC_OVERRIDE_STATUSES])
+      .withMessage(`Status must be one of ${KYC_OVERRIDE_STATUSES.join(', ')}`),
+    body('reason')
+      .isString()
+      .trim()
+      .isLength({ min: 10, max: 2000 })
+      .withMessage('Reason must be between 10 and 2000 characters'),
+  ]),
+  adminController.overrideKyc.bind(adminController)
+);
 router.delete('/users/:id', adminController.deleteUser.bind(adminController));
 
 // Governance endpoints
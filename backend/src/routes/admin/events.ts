@@ -1,9 +1,13 @@
 import express from 'express';
 import { EventService } from '../../services/events/EventService';
+import { EventAnchorService } from '../../services/anchoring/EventAnchorService';
+import { blockchainService } from '../../services/blockchain.service';
 import { prisma } from '../../config/database';
+import { AppError } from '../../types';
 
 const router = express.Router();
 const eventService = new EventService(prisma);
+const anchorService = new EventAnchorService(prisma, blockchainService);
 
 // Get recent events (admin dashboard)
 router.get('/recent', async (req, res) => {
@@ -31,6 +35,77 @@ router.get('/recent', async (req, res) => {
   }
 });
 
+// Verify the event hash chain (global, or for one entity with ?entityType=&entityId=)
+router.get('/verify', async (req, res) => {
+  try {
+    const entityType = req.query.entityType as string | undefined;
+    const entityId = req.query.entityId as string | undefined;
+
+    if (!!entityType !== !!entityId) {
+      res.status(400).json({
+        success: false,
+        error: 'entityType and entityId must be provided together'
+      });
+      return;
+    }
+
+    const verification = await eventService.verifyChain(entityType, entityId);
+
+    res.json({
+      success: true,
+      data: verification
+    });
+  } catch (error) {
+    console.error('Failed to verify event chain:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to verify event chain'
+    });
+  }
+});
+
+// List on-chain anchors of the event chain
+router.get('/anchors', async (req, res) => {
+  try {
+    const limit = parseInt(req.query.limit as string) || 50;
+    const anchors = await anchorService.listAnchors(limit);
+    res.json({
+      success: true,
+      data: anchors
+    });
+  } catch (error) {
+    console.error('Failed to fetch event anchors:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch event anchors'
+    });
+  }
+});
+
+// Merkle inclusion proof for one event against its on-chain anchor
+router.get('/proof/:eventId', async (req, res) => {
+  try {
+    const proof = await anchorService.getProof(req.params.eventId);
+    res.json({
+      success: true,
+      data: proof
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message
+      });
+      return;
+    }
+    console.error('Failed to build inclusion proof:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to build inclusion proof'
+    });
+  }
+});
+
 // Get events by actor (user activity)
 router.get('/actor/:actorId', async (req, res) => {
   try {
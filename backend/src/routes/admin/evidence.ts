@@ -1,12 +1,16 @@
 // /src/routes/admin/evidence.ts
 
 import { Router, Request, Response } from 'express';
+import { AppError, AuthRequest } from '../../types';
 import { PrismaClient } from '@prisma/client';
 import { EvidenceGenerator } from '../../services/ai/evidence/EvidenceGenerator';
+import { BUNDLE_PACKAGE_TYPE } from '../../services/ai/types/evidence.types';
+import { getStorageAdapter, StorageNotFoundError } from '../../services/storage';
 
 const router = Router();
 const prisma = new PrismaClient();
-const evidenceGenerator = new EvidenceGenerator(prisma);
+const storage = getStorageAdapter();
+const evidenceGenerator = new EvidenceGenerator(prisma, storage);
 
 /**
  * POST /api/admin/evidence/generate/:challengeId
@@ -21,6 +25,7 @@ router.post('/generate/:challengeId', async (req: Request, res: Response) => {
       includeFileHashes = true,
       includeSignatures = true,
       includeAIAnalysis = true,
+      includeBundle = true,
     } = req.body;
 
     const evidence = await evidenceGenerator.createAuditPack({
@@ -30,17 +35,22 @@ router.post('/generate/:challengeId', async (req: Request, res: Response) => {
       includeFileHashes,
       includeSignatures,
       includeAIAnalysis,
+      includeBundle,
     });
 
     res.json({
       success: true,
       data: {
-        packageId: evidence.metadata.sha256,
+        packageId: evidence.metadata.packageId,
         fileName: evidence.fileName,
         pages: evidence.metadata.pages,
         generatedAt: evidence.metadata.generatedAt,
         verificationUrl: evidence.metadata.verificationUrl,
         sha256: evidence.metadata.sha256,
+        ipfsCid: evidence.metadata.ipfsCid,
+        signatureKeyId: evidence.metadata.signatureKeyId,
+        unverifiedSections: evidence.metadata.unverifiedSections,
+        bundle: evidence.bundle,
       },
     });
   } catch (error: any) {
@@ -54,14 +64,14 @@ router.post('/generate/:challengeId', async (req: Request, res: Response) => {
 
 /**
  * GET /api/admin/evidence/download/:packageId
- * Download evidence package PDF
+ * Download evidence package (PDF report or ZIP data bundle)
  */
 router.get('/download/:packageId', async (req: Request, res: Response): Promise<void> => {
   try {
     const { packageId } = req.params;
 
-    const pkg = await prisma.evidence_packages.findFirst({
-      where: { sha256: packageId },
+    const pkg = await prisma.evidence_packages.findUnique({
+      where: { id: packageId },
     });
 
     if (!pkg) {
@@ -72,26 +82,69 @@ router.get('/download/:packageId', async (req: Request, res: Response): Promise<
       return;
     }
 
-    const fs = require('fs');
-    const path = require('path');
-    const filePath = path.join(process.cwd(), pkg.storageKey);
+    const fileBuffer = await storage.get(pkg.storageKey);
 
-    if (!fs.existsSync(filePath)) {
+    res.setHeader(
+      'Content-Type',
+      pkg.packageType === BUNDLE_PACKAGE_TYPE ? 'application/zip' : 'application/pdf'
+    );
+    res.setHeader('Content-Disposition', `attachment; filename="${pkg.fileName}"`);
+    res.send(fileBuffer);
+  } catch (error: unknown) {
+    if (error instanceof StorageNotFoundError) {
       res.status(404).json({
         success: false,
-        error: 'Evidence file not found on disk',
+        error: 'Evidence file not found in storage',
       });
       return;
     }
 
-    res.setHeader('Content-Type', 'application/pdf');
-    res.setHeader('Content-Disposition', `attachment; filename="${pkg.fileName}"`);
-    res.sendFile(filePath);
-  } catch (error: any) {
     console.error('[EvidenceAPI] Download error:', error);
     res.status(500).json({
       success: false,
-      error: error.message || 'Failed to download evidence package',
+      error: (error instanceof Error && error.message) || 'Failed to download evidence package',
+    });
+  }
+});
+
+/**
+ * GET /api/admin/evidence/download/:packageId/signature
+ * Download the detached signature for an evidence package PDF
+ */
+router.get('/download/:packageId/signature', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { packageId } = req.params;
+
+    const pkg = await prisma.evidence_packages.findUnique({
+      where: { id: packageId },
+    });
+
+    if (!pkg) {
+      res.status(404).json({
+        success: false,
+        error: 'Evidence package not found',
+      });
+      return;
+    }
+
+    const signature = evidenceGenerator.toSignature(pkg);
+
+    if (!signature) {
+      res.status(404).json({
+        success: false,
+        error: 'Evidence package was generated without a signature',
+      });
+      return;
+    }
+
+    res.setHeader('Content-Type', 'application/json');
+    res.setHeader('Content-Disposition', `attachment; filename="${pkg.fileName}.sig.json"`);
+    res.send(JSON.stringify(signature, null, 2));
+  } catch (error: unknown) {
+    console.error('[EvidenceAPI] Signature download error:', error);
+    res.status(500).json({
+      success: false,
+      error: (error instanceof Error && error.message) || 'Failed to download evidence signature',
     });
   }
 });
@@ -119,6 +172,41 @@ router.get('/verify/:packageId', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * POST /api/admin/evidence/:packageId/revoke
+ * Revoke an evidence package (shown as revoked on the public verify page)
+ */
+router.post('/:packageId/revoke', async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { packageId } = req.params;
+
+    const revoked = await evidenceGenerator.revokePackage(packageId, req.user!.id, req.body.reason);
+
+    res.json({
+      success: true,
+      data: {
+        packageId: revoked.id,
+        revokedAt: revoked.revokedAt,
+        revocationReason: revoked.revocationReason,
+      },
+    });
+  } catch (error: unknown) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+      });
+      return;
+    }
+
+    console.error('[EvidenceAPI] Revocation error:', error);
+    res.status(500).json({
+      success: false,
+      error: (error instanceof Error && error.message) || 'Failed to revoke evidence package',
+    });
+  }
+});
+
 /**
  * GET /api/admin/evidence/list/:challengeId
  * List all evidence packages for a challenge
@@ -2,6 +2,7 @@
 
 import { Router, Request, Response } from 'express';
 import { PrismaClient } from '@prisma/client';
+import { AppError } from '../../types';
 import { SafetyService } from '../../services/ai/safety/SafetyService';
 
 const router = Router();
@@ -14,7 +15,7 @@ const safetyService = new SafetyService(prisma);
  */
 router.post('/analyze', async (req: Request, res: Response): Promise<void> => {
   try {
-    const { content, entityType, entityId } = req.body;
+    const { content, entityType, entityId, challengeId } = req.body;
 
     if (!content || !entityType || !entityId) {
       res.status(400).json({
@@ -29,6 +30,7 @@ router.post('/analyze', async (req: Request, res: Response): Promise<void> => {
       entityType,
       entityId,
       authorId: (req as any).user?.id || 'anonymous',
+      challengeId,
     });
 
     res.json({
@@ -51,7 +53,7 @@ router.post('/analyze', async (req: Request, res: Response): Promise<void> => {
 router.post('/moderate/:entityType/:entityId', async (req: Request, res: Response): Promise<void> => {
   try {
     const { entityType, entityId } = req.params;
-    const { content } = req.body;
+    const { content, challengeId } = req.body;
 
     if (!content) {
       res.status(400).json({
@@ -66,6 +68,7 @@ router.post('/moderate/:entityType/:entityId', async (req: Request, res: Respons
       entityType,
       entityId,
       authorId: (req as any).user?.id || 'anonymous',
+      challengeId,
     });
 
     res.json({
@@ -112,4 +115,57 @@ router.get('/results/:entityType/:entityId', async (req: Request, res: Response)
   }
 });
 
+/**
+ * GET /api/admin/safety/challenges/:challengeId/thresholds
+ * Get the moderation thresholds in effect for a challenge
+ */
+router.get('/challenges/:challengeId/thresholds', async (req: Request, res: Response) => {
+  try {
+    const thresholds = await safetyService.getThresholds(req.params.challengeId);
+
+    res.json({
+      success: true,
+      data: thresholds,
+    });
+  } catch (error: unknown) {
+    console.error('[SafetyAPI] Threshold fetch error:', error);
+    res.status(500).json({
+      success: false,
+      error: (error instanceof Error && error.message) || 'Failed to fetch thresholds',
+    });
+  }
+});
+
+/**
+ * PUT /api/admin/safety/challenges/:challengeId/thresholds
+ * Override moderation thresholds for a challenge (send null to reset to defaults)
+ */
+router.put('/challenges/:challengeId/thresholds', async (req: Request, res: Response) => {
+  try {
+    const thresholds = await safetyService.setChallengeThresholds(
+      req.params.challengeId,
+      req.body.thresholds ?? null
+    );
+
+    res.json({
+      success: true,
+      data: thresholds,
+    });
+  } catch (error: unknown) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+      });
+      return;
+    }
+
+    console.error('[SafetyAPI] Threshold update error:', error);
+    res.status(500).json({
+      success: false,
+      error: (error instanceof Error && error.message) || 'Failed to update thresholds',
+    });
+  }
+});
+
 export default router;
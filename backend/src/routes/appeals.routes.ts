@@ -0,0 +1,91 @@
+import { Router } from 'express';
+import { body, param, query } from 'express-validator';
+import { appealsController } from '../controllers/appeals.controller';
+import { authenticate } from '../middleware/auth';
+import { requireRole } from '../middleware/roles';
+import { validateRequest } from '../middleware/validation';
+import { APPEALABLE_ENTITY_TYPES } from '../services/appeals/AppealService';
+
+const router = Router();
+
+router.use(authenticate);
+
+/**
+ * @route   POST /api/appeals
+ * @desc    Appeal the moderation decision on your own content
+ * @access  Private (content author)
+ */
+router.post(
+  '/',
+  validateRequest([
+    body('entityType')
+      .isIn([...APPEALABLE_ENTITY_TYPES])
+      .withMessage(`Entity type must be one of ${APPEALABLE_ENTITY_TYPES.join(', ')}`),
+    body('entityId').isString().trim().notEmpty().withMessage('Entity ID is required'),
+    body('reason')
+      .isString()
+      .trim()
+      .isLength({ min: 20, max: 5000 })
+      .withMessage('Reason must be between 20 and 5000 characters'),
+  ]),
+  appealsController.file.bind(appealsController)
+);
+
+/**
+ * @route   GET /api/appeals/mine
+ * @desc    Appeals filed by the current user
+ * @access  Private
+ */
+router.get('/mine', appealsController.getMine.bind(appealsController));
+
+/**
+ * @route   GET /api/appeals/overturn-rates
+ * @desc    Per-analyzer share of flags overturned on appeal
+ * @access  Private (Moderator)
+ */
+router.get(
+  '/overturn-rates',
+  requireRole('MODERATOR'),
+  appealsController.getOverturnRates.bind(appealsController)
+);
+
+/**
+ * @route   GET /api/appeals
+ * @desc    Appeal queue, optionally filtered by status
+ * @access  Private (Moderator)
+ */
+router.get(
+  '/',
+  requireRole('MODERATOR'),
+  validateRequest([
+    query('status')
+      .optional()
+      .isIn(['PENDING', 'UPHELD', 'OVERTURNED'])
+      .withMessage('Status must be PENDING, UPHELD or OVERTURNED'),
+  ]),
+  appealsController.list.bind(appealsController)
+);
+
+/**
+ * @route   POST /api/appeals/:id/decide
+ * @desc    Uphold or overturn an appeal (not by the original reviewer)
+ * @access  Private (Moderator)
+ */
+router.post(
+  '/:id/decide',
+  requireRole('MODERATOR'),
+  validateRequest([
+    param('id').isString().isLength({ min: 1, max: 64 }),
+    body('decision')
+      .isIn(['UPHELD', 'OVERTURNED'])
+      .withMessage('Decision must be UPHELD or OVERTURNED'),
+    body('notes')
+      .isString()
+      .trim()
+      .isLength({ min: 10, max: 2000 })
+      .withMessage('Notes must be between 10 and 2000 characters'),
+  ]),
+  appealsController.decide.bind(appealsController)
+);
+
+export default router;
@@ -1,7 +1,7 @@
 import { Router } from 'express';
 import { body } from 'express-validator';
 import { authController } from '../controllers/auth.controller';
-import { authenticate } from '../middleware/auth';
+import { authenticate, optionalAuthenticate } from '../middleware/auth';
 import { validateRequest } from '../middleware/validation';
 
 const router = Router();
@@ -18,10 +18,6 @@ router.post(
     body('password')
       .isLength({ min: 8 })
       .withMessage('Password must be at least 8 characters long'),
-    body('walletAddress')
-      .optional()
-      .matches(/^0x[a-fA-F0-9]{40}$/)
-      .withMessage('Invalid Ethereum address format'),
   ]),
   authController.signup.bind(authController)
 );
@@ -40,6 +36,139 @@ router.post(
   authController.login.bind(authController)
 );
 
+/**
+ * @route   POST /api/auth/siwe/nonce
+ * @desc    Issue a Sign-In with Ethereum (EIP-4361) message to sign.
+ *          purpose LINK requires authentication and binds the nonce to the user.
+ * @access  Public
+ */
+router.post(
+  '/siwe/nonce',
+  optionalAuthenticate,
+  validateRequest([
+    body('address')
+      .matches(/^0x[a-fA-F0-9]{40}$/)
+      .withMessage('Invalid Ethereum address format'),
+    body('chainId')
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage('Chain ID must be a positive integer')
+      .toInt(),
+    body('purpose').optional().isIn(['LOGIN', 'LINK']).withMessage('Purpose must be LOGIN or LINK'),
+  ]),
+  authController.siweNonce.bind(authController)
+);
+
+/**
+ * @route   POST /api/auth/siwe/verify
+ * @desc    Login with a signed Sign-In with Ethereum message
+ * @access  Public
+ */
+router.post(
+  '/siwe/verify',
+  validateRequest([
+    body('message').isString().notEmpty().withMessage('Message is required'),
+    body('signature')
+      .matches(/^0x[a-fA-F0-9]+$/)
+      .withMessage('Signature must be a hex string'),
+  ]),
+  authController.siweLogin.bind(authController)
+);
+
+/**
+ * @route   POST /api/auth/refresh
+ * @desc    Exchange a refresh token for a new access token and refresh token.
+ *          Refresh tokens are single-use; reusing one revokes its session.
+ * @access  Public
+ */
+router.post(
+  '/refresh',
+  validateRequest([
+    body('refreshToken').isString().notEmpty().withMessage('Refresh token is required'),
+  ]),
+  authController.refresh.bind(authController)
+);
+
+/**
+ * @route   POST /api/auth/logout
+ * @desc    End the current session
+ * @access  Private
+ */
+router.post('/logout', authenticate, authController.logout.bind(authController));
+
+/**
+ * @route   POST /api/auth/logout-all
+ * @desc    End every session of the current user, on all devices
+ * @access  Private
+ */
+router.post('/logout-all', authenticate, authController.logoutAll.bind(authController));
+
+/**
+ * @route   GET /api/auth/sessions
+ * @desc    List the current user's active sessions (one per device)
+ * @access  Private
+ */
+router.get('/sessions', authenticate, authController.getSessions.bind(authController));
+
+/**
+ * @route   DELETE /api/auth/sessions/:id
+ * @desc    Revoke one of the current user's sessions
+ * @access  Private
+ */
+router.delete('/sessions/:id', authenticate, authController.revokeSession.bind(authController));
+
+/**
+ * @route   POST /api/auth/verify-email
+ * @desc    Verify an email address with the token from the verification email
+ * @access  Public
+ */
+router.post(
+  '/verify-email',
+  validateRequest([body('token').isString().notEmpty().withMessage('Token is required')]),
+  authController.verifyEmail.bind(authController)
+);
+
+/**
+ * @route   POST /api/auth/verify-email/resend
+ * @desc    Send the current user a new verification email
+ * @access  Private
+ */
+router.post(
+  '/verify-email/resend',
+  authenticate,
+  authController.resendVerificationEmail.bind(authController)
+);
+
+/**
+ * @route   POST /api/auth/forgot-password
+ * @desc    Email a password reset link
+ * @access  Public
+ */
+router.post(
+  '/forgot-password',
+  validateRequest([
+    body('email').isEmail().withMessage('Valid email is required').normalizeEmail(),
+  ]),
+  authController.forgotPassword.bind(authController)
+);
+
+/**
+ * @route   POST /api/auth/reset-password
+ * @desc    Set a new password with the token from a password reset email.
+ *          Ends every session of the user.
+ * @access  Public
+ */
+router.post(
+  '/reset-password',
+  validateRequest([
+    body('token').isString().notEmpty().withMessage('Token is required'),
+    body('password')
+      .isLength({ min: 8 })
+      .withMessage('Password must be at least 8 characters long'),
+  ]),
+  authController.resetPassword.bind(authController)
+);
+
 /**
  * @route   GET /api/auth/me
  * @desc    Get current authenticated user
@@ -49,16 +178,17 @@ router.get('/me', authenticate, authController.getCurrentUser.bind(authControlle
 
 /**
  * @route   PUT /api/auth/wallet
- * @desc    Update user's wallet address
+ * @desc    Link a wallet by signing a LINK message from /siwe/nonce
  * @access  Private
  */
 router.put(
   '/wallet',
   authenticate,
   validateRequest([
-    body('walletAddress')
-      .matches(/^0x[a-fA-F0-9]{40}$/)
-      .withMessage('Invalid Ethereum address format'),
+    body('message').isString().notEmpty().withMessage('Message is required'),
+    body('signature')
+      .matches(/^0x[a-fA-F0-9]+$/)
+      .withMessage('Signature must be a hex string'),
   ]),
   authController.updateWallet.bind(authController)
 );
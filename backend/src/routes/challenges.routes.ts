@@ -3,9 +3,14 @@ import { body, param, query } from 'express-validator';
 import { challengesController } from '../controllers/challenges.controller';
 import { proposalsController } from '../controllers/proposals.controller';
 import { submissionsController } from '../controllers/submissions.controller';
-import { authenticate } from '../middleware/auth';
+import { manifestsController } from '../controllers/manifests.controller';
+import { payoutsController } from '../controllers/payouts.controller';
+import { disputesController } from '../controllers/disputes.controller';
+import { ipAssignmentsController } from '../controllers/ipAssignments.controller';
+import { authenticate, optionalAuthenticate } from '../middleware/auth';
+import { requireVerifiedEmail } from '../middleware/verification';
 import { validateRequest } from '../middleware/validation';
-import { ChallengeStatus, ProposalStatus } from '@prisma/client';
+import { ChallengeStatus, PaymentMethod, ProposalStatus } from '@prisma/client';
 
 const router = Router();
 
@@ -32,11 +37,12 @@ router.get(
 
 /**
  * @route   GET /api/challenges/:id
- * @desc    Get single challenge by ID
+ * @desc    Get single challenge by ID (vetting status included for the sponsor)
  * @access  Public
  */
 router.get(
   '/:id',
+  optionalAuthenticate,
   validateRequest([param('id').isUUID().withMessage('Invalid challenge ID')]),
   challengesController.getChallengeById.bind(challengesController)
 );
@@ -44,11 +50,12 @@ router.get(
 /**
  * @route   POST /api/challenges
  * @desc    Create a new challenge
- * @access  Private
+ * @access  Private (verified email)
  */
 router.post(
   '/',
   authenticate,
+  requireVerifiedEmail('sponsoring a challenge'),
   validateRequest([
     body('title')
       .trim()
@@ -99,13 +106,19 @@ router.patch(
 
 /**
  * @route   POST /api/challenges/:id/complete
- * @desc    Complete challenge and distribute payments
+ * @desc    Complete challenge and distribute payments (paymentMethod: FIAT default, or CRYPTO)
  * @access  Private (sponsor only)
  */
 router.post(
   '/:id/complete',
   authenticate,
-  validateRequest([param('id').isUUID().withMessage('Invalid challenge ID')]),
+  validateRequest([
+    param('id').isUUID().withMessage('Invalid challenge ID'),
+    body('paymentMethod')
+      .optional()
+      .isIn(Object.values(PaymentMethod))
+      .withMessage('Payment method must be CRYPTO or FIAT'),
+  ]),
   challengesController.completeChallenge.bind(challengesController)
 );
 
@@ -157,4 +170,163 @@ router.get(
   submissionsController.getSubmissionsByChallenge.bind(submissionsController)
 );
 
+const challengeIdParam = param('challengeId')
+  .isString()
+  .withMessage('Challenge ID is required')
+  .notEmpty()
+  .withMessage('Challenge ID cannot be empty');
+
+/**
+ * @route   GET /api/challenges/:challengeId/manifest
+ * @desc    Get the composition manifest for a challenge
+ * @access  Private (authenticated users)
+ */
+router.get(
+  '/:challengeId/manifest',
+  authenticate,
+  validateRequest([challengeIdParam]),
+  manifestsController.getManifest.bind(manifestsController)
+);
+
+/**
+ * @route   PUT /api/challenges/:challengeId/manifest
+ * @desc    Save draft composition manifest entries
+ * @access  Private (Project Leader)
+ */
+router.put(
+  '/:challengeId/manifest',
+  authenticate,
+  validateRequest([
+    challengeIdParam,
+    body('entries')
+      .isArray({ min: 1, max: 100 })
+      .withMessage('Entries must be an array of 1 to 100 items'),
+    body('entries.*.contributorId')
+      .isString()
+      .notEmpty()
+      .withMessage('Each entry requires a contributor ID'),
+    body('entries.*.role')
+      .isString()
+      .trim()
+      .isLength({ min: 1, max: 100 })
+      .withMessage('Each entry requires a role of at most 100 characters'),
+    body('entries.*.weight')
+      .isFloat({ gt: 0, max: 1 })
+      .withMessage('Each weight must be greater than 0 and at most 1'),
+    body('entries.*.ref')
+      .optional()
+      .isString()
+      .isLength({ max: 500 })
+      .withMessage('Reference must be at most 500 characters'),
+  ]),
+  manifestsController.saveManifest.bind(manifestsController)
+);
+
+/**
+ * @route   GET /api/challenges/:challengeId/manifest/validate
+ * @desc    Check whether the manifest weights sum to 1.0
+ * @access  Private (authenticated users)
+ */
+router.get(
+  '/:challengeId/manifest/validate',
+  authenticate,
+  validateRequest([challengeIdParam]),
+  manifestsController.validateManifest.bind(manifestsController)
+);
+
+/**
+ * @route   POST /api/challenges/:challengeId/manifest/sign
+ * @desc    Sign the composition manifest
+ * @access  Private (Project Leader)
+ */
+router.post(
+  '/:challengeId/manifest/sign',
+  authenticate,
+  validateRequest([challengeIdParam]),
+  manifestsController.signManifest.bind(manifestsController)
+);
+
+/**
+ * @route   GET /api/challenges/:challengeId/payouts
+ * @desc    Get all payout proposals for a challenge
+ * @access  Private (authenticated users)
+ */
+router.get(
+  '/:challengeId/payouts',
+  authenticate,
+  validateRequest([challengeIdParam]),
+  payoutsController.getProposalsByChallenge.bind(payoutsController)
+);
+
+/**
+ * @route   GET /api/challenges/:challengeId/ip-assignment
+ * @desc    Get the IP assignment agreement to sign, with any existing signature
+ * @access  Private (challenge contributors)
+ */
+router.get(
+  '/:challengeId/ip-assignment',
+  authenticate,
+  validateRequest([challengeIdParam]),
+  ipAssignmentsController.getAgreement.bind(ipAssignmentsController)
+);
+
+/**
+ * @route   POST /api/challenges/:challengeId/ip-assignment/sign
+ * @desc    Sign the IP assignment agreement
+ * @access  Private (challenge contributors)
+ */
+router.post(
+  '/:challengeId/ip-assignment/sign',
+  authenticate,
+  validateRequest([
+    challengeIdParam,
+    body('signedName')
+      .isString()
+      .trim()
+      .isLength({ min: 2, max: 200 })
+      .withMessage('Signed name must be between 2 and 200 characters'),
+    body('contentHash')
+      .isString()
+      .matches(/^[a-f0-9]{64}$/)
+      .withMessage('Content hash must be a SHA-256 hex digest'),
+  ]),
+  ipAssignmentsController.signAgreement.bind(ipAssignmentsController)
+);
+
+/**
+ * @route   GET /api/challenges/:challengeId/ip-assignments
+ * @desc    Get all signed IP assignment agreements for a challenge
+ * @access  Private (authenticated users)
+ */
+router.get(
+  '/:challengeId/ip-assignments',
+  authenticate,
+  validateRequest([challengeIdParam]),
+  ipAssignmentsController.getByChallenge.bind(ipAssignmentsController)
+);
+
+/**
+ * @route   POST /api/challenges/:challengeId/disputes
+ * @desc    Raise a dispute on a challenge
+ * @access  Private (challenge participants)
+ */
+router.post(
+  '/:challengeId/disputes',
+  authenticate,
+  validateRequest([
+    challengeIdParam,
+    body('description')
+      .isString()
+      .trim()
+      .isLength({ min: 20, max: 5000 })
+      .withMessage('Description must be between 20 and 5000 characters'),
+    body('severity')
+      .optional()
+      .isInt({ min: 1, max: 5 })
+      .withMessage('Severity must be an integer from 1 to 5')
+      .toInt(),
+  ]),
+  disputesController.raiseDispute.bind(disputesController)
+);
+
 export default router;
@@ -1,7 +1,7 @@
 import { Router } from 'express';
 import { body, param, query } from 'express-validator';
 import { contributionsController } from '../controllers/contributions.controller';
-import { authenticate } from '../middleware/auth';
+import { authenticate, optionalAuthenticate } from '../middleware/auth';
 import { validateRequest } from '../middleware/validation';
 import { ContributionType } from '@prisma/client';
 
@@ -33,6 +33,7 @@ router.get(
  */
 router.get(
   '/:id',
+  optionalAuthenticate,
   validateRequest([param('id').isUUID().withMessage('Invalid contribution ID')]),
   contributionsController.getContributionById.bind(contributionsController)
 );
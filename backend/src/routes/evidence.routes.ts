@@ -0,0 +1,38 @@
+import { Router } from 'express';
+import multer from 'multer';
+import { param } from 'express-validator';
+import { evidenceController } from '../controllers/evidence.controller';
+import { validateRequest } from '../middleware/validation';
+
+const router = Router();
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 25 * 1024 * 1024 }, // 25MB limit
+});
+
+/**
+ * @route   POST /api/evidence/verify-signature
+ * @desc    Verify a downloaded evidence PDF against its detached signature
+ * @access  Public
+ */
+router.post(
+  '/verify-signature',
+  upload.fields([
+    { name: 'file', maxCount: 1 },
+    { name: 'signature', maxCount: 1 },
+  ]),
+  evidenceController.verifySignature.bind(evidenceController)
+);
+
+/**
+ * @route   GET /api/evidence/:packageId
+ * @desc    Public verification record for an evidence package (QR code target)
+ * @access  Public
+ */
+router.get(
+  '/:packageId',
+  validateRequest([param('packageId').isString().isLength({ min: 1, max: 64 })]),
+  evidenceController.getPackage.bind(evidenceController)
+);
+
+export default router;
@@ -3,6 +3,7 @@ import multer from 'multer';
 import { authenticate } from '../middleware/auth';
 import { FileService } from '../services/files/FileService';
 import { prisma } from '../config/database';
+import { AuthRequest } from '../types';
 
 const router = express.Router();
 const upload = multer({
@@ -54,11 +55,11 @@ router.get('/:fileId', authenticate, async (req, res) => {
 // Verify file integrity
 router.get('/:fileId/verify', authenticate, async (req, res) => {
   try {
-    const valid = await fileService.verify(req.params.fileId);
+    const verification = await fileService.getVerification(req.params.fileId);
     res.json({
       success: true,
       data: {
-        valid,
+        ...verification,
         verified: new Date().toISOString(),
       },
     });
@@ -68,6 +69,29 @@ router.get('/:fileId/verify', authenticate, async (req, res) => {
   }
 });
 
+// Publish file to IPFS (for files uploaded before IPFS was enabled)
+router.post('/:fileId/pin', authenticate, async (req: AuthRequest, res): Promise<void> => {
+  try {
+    const file = await fileService.pin(req.params.fileId, req.user!.id);
+    res.json({
+      success: true,
+      data: file,
+    });
+  } catch (error: unknown) {
+    console.error('File pinning error:', error);
+    const message = error instanceof Error ? error.message : '';
+    if (message.includes('Unauthorized')) {
+      res.status(403).json({ error: message });
+      return;
+    }
+    if (message.includes('not configured')) {
+      res.status(503).json({ error: message });
+      return;
+    }
+    res.status(500).json({ error: 'Pinning failed' });
+  }
+});
+
 // Get files for challenge
 router.get('/challenge/:challengeId', authenticate, async (req, res) => {
   try {
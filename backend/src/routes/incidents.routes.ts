@@ -0,0 +1,140 @@
+import { Router } from 'express';
+import { body, param, query } from 'express-validator';
+import { incidentsController } from '../controllers/incidents.controller';
+import { authenticate } from '../middleware/auth';
+import { requireRole } from '../middleware/roles';
+import { validateRequest } from '../middleware/validation';
+import { INCIDENT_STATUSES } from '../services/incidents/IncidentService';
+
+const router = Router();
+
+// Incident case management is for moderators (admins always pass)
+router.use(authenticate);
+router.use(requireRole('MODERATOR'));
+
+const incidentIdParam = param('id').isString().isLength({ min: 1, max: 64 });
+
+const reasonBody = (field: string) =>
+  body(field)
+    .isString()
+    .trim()
+    .isLength({ min: 10, max: 2000 })
+    .withMessage('Reason must be between 10 and 2000 characters');
+
+/**
+ * @route   GET /api/incidents
+ * @desc    Incident queue with SLA state (status and severity take comma-separated lists)
+ * @access  Private (Moderator)
+ */
+router.get(
+  '/',
+  validateRequest([
+    query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+    query('limit')
+      .optional()
+      .isInt({ min: 1, max: 100 })
+      .withMessage('Limit must be between 1 and 100'),
+    query('status')
+      .optional()
+      .custom((value: string) =>
+        value.split(',').every((s) => (INCIDENT_STATUSES as readonly string[]).includes(s.trim()))
+      )
+      .withMessage(`Status must be one or more of ${INCIDENT_STATUSES.join(', ')}`),
+    query('severity')
+      .optional()
+      .matches(/^[1-5](,[1-5])*$/)
+      .withMessage('Severity must be one or more values from 1 to 5'),
+    query('assignee')
+      .optional()
+      .isIn(['me', 'unassigned'])
+      .withMessage('Assignee must be me or unassigned'),
+  ]),
+  incidentsController.list.bind(incidentsController)
+);
+
+/**
+ * @route   GET /api/incidents/:id
+ * @desc    Incident details with case notes
+ * @access  Private (Moderator)
+ */
+router.get(
+  '/:id',
+  validateRequest([incidentIdParam]),
+  incidentsController.getById.bind(incidentsController)
+);
+
+/**
+ * @route   POST /api/incidents/:id/assign
+ * @desc    Assign the incident to the calling moderator
+ * @access  Private (Moderator)
+ */
+router.post(
+  '/:id/assign',
+  validateRequest([incidentIdParam]),
+  incidentsController.assignToMe.bind(incidentsController)
+);
+
+/**
+ * @route   POST /api/incidents/:id/notes
+ * @desc    Add a case note
+ * @access  Private (Moderator)
+ */
+router.post(
+  '/:id/notes',
+  validateRequest([
+    incidentIdParam,
+    body('body')
+      .isString()
+      .trim()
+      .isLength({ min: 1, max: 5000 })
+      .withMessage('Note must be between 1 and 5000 characters'),
+  ]),
+  incidentsController.addNote.bind(incidentsController)
+);
+
+/**
+ * @route   POST /api/incidents/:id/escalate
+ * @desc    Escalate the incident (raises severity by one)
+ * @access  Private (Moderator)
+ */
+router.post(
+  '/:id/escalate',
+  validateRequest([incidentIdParam, reasonBody('reason')]),
+  incidentsController.escalate.bind(incidentsController)
+);
+
+/**
+ * @route   POST /api/incidents/:id/resolve
+ * @desc    Resolve or dismiss the incident with a reason
+ * @access  Private (Moderator)
+ */
+router.post(
+  '/:id/resolve',
+  validateRequest([
+    incidentIdParam,
+    body('outcome')
+      .isIn(['RESOLVED', 'DISMISSED'])
+      .withMessage('Outcome must be RESOLVED or DISMISSED'),
+    reasonBody('reason'),
+  ]),
+  incidentsController.resolve.bind(incidentsController)
+);
+
+/**
+ * @route   POST /api/incidents/:id/evidence
+ * @desc    Link events to the incident as evidence
+ * @access  Private (Moderator)
+ */
+router.post(
+  '/:id/evidence',
+  validateRequest([
+    incidentIdParam,
+    body('eventIds')
+      .isArray({ min: 1, max: 50 })
+      .withMessage('eventIds must be a list of 1 to 50 event IDs'),
+    body('eventIds.*').isString().trim().notEmpty(),
+  ]),
+  incidentsController.linkEvidence.bind(incidentsController)
+);
+
+export default router;
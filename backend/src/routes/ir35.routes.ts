@@ -0,0 +1,47 @@
+import { Router } from 'express';
+import { body } from 'express-validator';
+import { ir35Controller } from '../controllers/ir35.controller';
+import { authenticate } from '../middleware/auth';
+import { validateRequest } from '../middleware/validation';
+
+const router = Router();
+
+/**
+ * @route   GET /api/ir35/questionnaire
+ * @desc    Get the IR35 employment-status questionnaire
+ * @access  Private (authenticated users)
+ */
+router.get('/questionnaire', authenticate, ir35Controller.getQuestionnaire.bind(ir35Controller));
+
+/**
+ * @route   POST /api/ir35/assessments
+ * @desc    Score questionnaire responses and record an assessment
+ * @access  Private (the contributor, their challenge's sponsor or project leader, or admin)
+ */
+router.post(
+  '/assessments',
+  authenticate,
+  validateRequest([
+    body('userId')
+      .isString()
+      .withMessage('User ID is required')
+      .notEmpty()
+      .withMessage('User ID cannot be empty'),
+    body('challengeId')
+      .optional()
+      .isString()
+      .notEmpty()
+      .withMessage('Challenge ID must be a non-empty string'),
+    body('responses').isObject().withMessage('Responses must be an object of question answers'),
+  ]),
+  ir35Controller.createAssessment.bind(ir35Controller)
+);
+
+/**
+ * @route   GET /api/ir35/assessments/me
+ * @desc    Get the authenticated user's IR35 assessments
+ * @access  Private (authenticated users)
+ */
+router.get('/assessments/me', authenticate, ir35Controller.getMyAssessments.bind(ir35Controller));
+
+export default router;
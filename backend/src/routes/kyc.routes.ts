@@ -0,0 +1,29 @@
+import { Router } from 'express';
+import { authenticate } from '../middleware/auth';
+import { kycController } from '../controllers/kyc.controller';
+
+const router = Router();
+
+/**
+ * @route   GET /api/kyc/status
+ * @desc    Current user's KYC status and most recent verification
+ * @access  Private
+ */
+router.get('/status', authenticate, kycController.getStatus.bind(kycController));
+
+/**
+ * @route   POST /api/kyc/sessions
+ * @desc    Start identity verification with the KYC provider
+ * @access  Private
+ */
+router.post('/sessions', authenticate, kycController.startVerification.bind(kycController));
+
+/**
+ * @route   POST /api/kyc/webhook
+ * @desc    Verification outcome from the KYC provider. Authenticated by the
+ *          provider's signature; the raw body parser is mounted in server.ts
+ * @access  Public (signed)
+ */
+router.post('/webhook', kycController.handleWebhook.bind(kycController));
+
+export default router;
@@ -0,0 +1,138 @@
+import { Router } from 'express';
+import { body, param } from 'express-validator';
+import { payoutsController } from '../controllers/payouts.controller';
+import { authenticate } from '../middleware/auth';
+import { validateRequest } from '../middleware/validation';
+
+const router = Router();
+
+const proposalIdParam = param('id')
+  .isString()
+  .withMessage('Payout proposal ID is required')
+  .notEmpty()
+  .withMessage('Payout proposal ID cannot be empty');
+
+const distributionRules = (optional: boolean) => {
+  const distribution = body('distribution');
+  return [
+    (optional ? distribution.optional() : distribution)
+      .isArray({ min: 1, max: 100 })
+      .withMessage('Distribution must be an array of 1 to 100 entries'),
+    body('distribution.*.userId')
+      .isString()
+      .notEmpty()
+      .withMessage('Each entry requires a recipient user ID'),
+    body('distribution.*.amount')
+      .isFloat({ min: 0 })
+      .withMessage('Each amount must be zero or positive'),
+    body('distribution.*.reason')
+      .optional()
+      .isString()
+      .isLength({ max: 500 })
+      .withMessage('Reason must be at most 500 characters'),
+  ];
+};
+
+/**
+ * @route   POST /api/payouts
+ * @desc    Draft a payout proposal from the signed composition manifest
+ * @access  Private (Project Leader)
+ */
+router.post(
+  '/',
+  authenticate,
+  validateRequest([
+    body('challengeId')
+      .isString()
+      .withMessage('Challenge ID is required')
+      .notEmpty()
+      .withMessage('Challenge ID cannot be empty'),
+    ...distributionRules(true),
+  ]),
+  payoutsController.createProposal.bind(payoutsController)
+);
+
+/**
+ * @route   GET /api/payouts/:id
+ * @desc    Get payout proposal by ID
+ * @access  Private (authenticated users)
+ */
+router.get(
+  '/:id',
+  authenticate,
+  validateRequest([proposalIdParam]),
+  payoutsController.getProposalById.bind(payoutsController)
+);
+
+/**
+ * @route   PUT /api/payouts/:id
+ * @desc    Replace the distribution of a draft payout proposal
+ * @access  Private (Project Leader)
+ */
+router.put(
+  '/:id',
+  authenticate,
+  validateRequest([proposalIdParam, ...distributionRules(false)]),
+  payoutsController.updateProposal.bind(payoutsController)
+);
+
+/**
+ * @route   POST /api/payouts/:id/sign
+ * @desc    Sign a draft payout proposal and send it to the sponsor
+ * @access  Private (Project Leader)
+ */
+router.post(
+  '/:id/sign',
+  authenticate,
+  validateRequest([
+    proposalIdParam,
+    body('toleranceNote')
+      .optional()
+      .isString()
+      .trim()
+      .isLength({ max: 2000 })
+      .withMessage('Tolerance note must be at most 2000 characters'),
+  ]),
+  payoutsController.signProposal.bind(payoutsController)
+);
+
+/**
+ * @route   POST /api/payouts/:id/approve
+ * @desc    Approve a signed payout proposal
+ * @access  Private (Sponsor)
+ */
+router.post(
+  '/:id/approve',
+  authenticate,
+  validateRequest([
+    proposalIdParam,
+    body('notes')
+      .optional()
+      .isString()
+      .trim()
+      .isLength({ max: 2000 })
+      .withMessage('Notes must be at most 2000 characters'),
+  ]),
+  payoutsController.approveProposal.bind(payoutsController)
+);
+
+/**
+ * @route   POST /api/payouts/:id/reject
+ * @desc    Reject a signed payout proposal
+ * @access  Private (Sponsor)
+ */
+router.post(
+  '/:id/reject',
+  authenticate,
+  validateRequest([
+    proposalIdParam,
+    body('notes')
+      .isString()
+      .trim()
+      .isLength({ min: 1, max: 2000 })
+      .withMessage('Rejection notes are required (max 2000 characters)'),
+  ]),
+  payoutsController.rejectProposal.bind(payoutsController)
+);
+
+export default router;
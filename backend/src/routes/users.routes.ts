@@ -0,0 +1,27 @@
+import { Router } from 'express';
+import { param } from 'express-validator';
+import { reputationController } from '../controllers/reputation.controller';
+import { authenticate } from '../middleware/auth';
+import { validateRequest } from '../middleware/validation';
+
+const router = Router();
+
+/**
+ * @route   GET /api/users/:id/reputation
+ * @desc    Get a user's reputation scores and badges
+ * @access  Private (authenticated users)
+ */
+router.get(
+  '/:id/reputation',
+  authenticate,
+  validateRequest([
+    param('id')
+      .isString()
+      .withMessage('User ID must be a string')
+      .notEmpty()
+      .withMessage('User ID cannot be empty'),
+  ]),
+  reputationController.getUserReputation.bind(reputationController)
+);
+
+export default router;
@@ -0,0 +1,13 @@
+import { Router } from 'express';
+import { evidenceController } from '../controllers/evidence.controller';
+
+const router = Router();
+
+/**
+ * @route   GET /.well-known/evidence-signing-key.json
+ * @desc    Public key used to sign evidence package PDFs
+ * @access  Public
+ */
+router.get('/evidence-signing-key.json', evidenceController.getPublicKey.bind(evidenceController));
+
+export default router;
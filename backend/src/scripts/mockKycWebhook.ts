@@ -0,0 +1,69 @@
+/**
+ * Settle a mock KYC session by sending the signed webhook the mock provider would
+ *
+ * Usage:
+ *   npm run kyc:mock-webhook -- <reference> <VERIFIED|REJECTED> [--reason <text>] [--url <webhook url>]
+ *
+ * The reference is the providerReference of the user's pending verification
+ * (mock_...). The webhook is signed with the same secret the API uses, so run
+ * this against a server started from the same .env. --url defaults to
+ * http://localhost:<PORT>/api/kyc/webhook.
+ */
+
+import { env } from '../config/env';
+import { MOCK_SIGNATURE_HEADER, MockKycProvider, kycWebhookSecret } from '../services/kyc';
+
+const USAGE =
+  'Usage: mockKycWebhook <reference> <VERIFIED|REJECTED> [--reason <text>] [--url <webhook url>]';
+
+const print = (line: string) => process.stdout.write(`${line}\n`);
+
+const parseArgs = (argv: string[]) => {
+  const positional: string[] = [];
+  const options: Record<string, string> = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith('--')) {
+      options[argv[i].substring(2)] = argv[++i];
+    } else {
+      positional.push(argv[i]);
+    }
+  }
+
+  return { positional, options };
+};
+
+const main = async (): Promise<number> => {
+  const { positional, options } = parseArgs(process.argv.slice(2));
+  const [reference, status] = positional;
+
+  if (!reference || (status !== 'VERIFIED' && status !== 'REJECTED')) {
+    console.error(USAGE);
+    return 2;
+  }
+
+  const url = options.url || `http://localhost:${env.PORT}/api/kyc/webhook`;
+  const body = JSON.stringify({ reference, status, reason: options.reason });
+  const provider = new MockKycProvider(kycWebhookSecret());
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      [MOCK_SIGNATURE_HEADER]: provider.sign(body),
+    },
+    body,
+  });
+
+  print(`POST ${url}: HTTP ${response.status}`);
+  print(await response.text());
+
+  return response.ok ? 0 : 1;
+};
+
+main()
+  .then((code) => process.exit(code))
+  .catch((error) => {
+    console.error(`Webhook failed: ${error instanceof Error ? error.message : error}`);
+    process.exit(2);
+  });
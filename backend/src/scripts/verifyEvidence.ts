@@ -0,0 +1,85 @@
+/**
+ * Offline verification of an evidence package (PDF report or ZIP data bundle)
+ *
+ * Usage:
+ *   npm run evidence:verify -- <package.pdf> <package.pdf.sig.json> --key <key file>
+ *   npm run evidence:verify -- <package.pdf> <package.pdf.sig.json> --key-url <url>
+ *
+ * The key file is either a PEM public key or the JSON document served at
+ * /.well-known/evidence-signing-key.json. With --key nothing leaves the
+ * machine; --key-url fetches that document first. Exit code 0 means the
+ * signature is valid.
+ */
+
+import { readFile } from 'fs/promises';
+import { EvidenceSignature, verifyEvidenceSignature } from '../services/signing/EvidenceSigner';
+
+const USAGE =
+  'Usage: verifyEvidence <package.pdf> <package.pdf.sig.json> (--key <file> | --key-url <url>)';
+
+const print = (line: string) => process.stdout.write(`${line}\n`);
+
+const parseArgs = (argv: string[]) => {
+  const positional: string[] = [];
+  const options: Record<string, string> = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith('--')) {
+      options[argv[i].substring(2)] = argv[++i];
+    } else {
+      positional.push(argv[i]);
+    }
+  }
+
+  return { positional, options };
+};
+
+/**
+ * Accept a bare PEM or the well-known key document
+ */
+const readPublicKey = (raw: string): string => {
+  const trimmed = raw.trim();
+  return trimmed.startsWith('{') ? JSON.parse(trimmed).publicKey : trimmed;
+};
+
+const loadPublicKey = async (options: Record<string, string>): Promise<string> => {
+  if (options.key) {
+    return readPublicKey(await readFile(options.key, 'utf8'));
+  }
+
+  const response = await fetch(options['key-url']);
+  if (!response.ok) {
+    throw new Error(`Could not fetch public key: HTTP ${response.status}`);
+  }
+  return readPublicKey(await response.text());
+};
+
+const main = async (): Promise<number> => {
+  const { positional, options } = parseArgs(process.argv.slice(2));
+  const [pdfPath, signaturePath] = positional;
+
+  if (!pdfPath || !signaturePath || (!options.key && !options['key-url'])) {
+    console.error(USAGE);
+    return 2;
+  }
+
+  const pdf = await readFile(pdfPath);
+  const signature: EvidenceSignature = JSON.parse(await readFile(signaturePath, 'utf8'));
+  const publicKey = await loadPublicKey(options);
+
+  const result = verifyEvidenceSignature(pdf, signature, publicKey);
+
+  print(`File:      ${pdfPath}`);
+  print(`SHA-256:   ${result.sha256}`);
+  print(`Key ID:    ${result.keyId}`);
+  print(`Signature: ${result.valid ? 'VALID' : `INVALID (${result.reason})`}`);
+
+  return result.valid ? 0 : 1;
+};
+
+main()
+  .then((code) => process.exit(code))
+  .catch((error) => {
+    console.error(`Verification failed: ${error instanceof Error ? error.message : error}`);
+    process.exit(2);
+  });
@@ -5,6 +5,8 @@ import { testConnection, disconnect } from './config/database';
 import { logger } from './utils/logger';
 import { errorHandler, notFoundHandler } from './middleware/error';
 import { requestLogger } from './middleware/logger';
+import { startAnchorScheduler } from './services/anchoring/anchorScheduler';
+import { startKycExpiryScheduler } from './services/kyc/kycExpiryScheduler';
 
 // Import routes
 import authRoutes from './routes/auth.routes';
@@ -15,6 +17,14 @@ import submissionsRoutes from './routes/submissions.routes';
 import paymentsRoutes from './routes/payments.routes';
 import adminRoutes from './routes/admin.routes';
 import filesRoutes from './routes/files.routes';
+import payoutsRoutes from './routes/payouts.routes';
+import ir35Routes from './routes/ir35.routes';
+import usersRoutes from './routes/users.routes';
+import evidenceRoutes from './routes/evidence.routes';
+import incidentsRoutes from './routes/incidents.routes';
+import appealsRoutes from './routes/appeals.routes';
+import kycRoutes from './routes/kyc.routes';
+import wellKnownRoutes from './routes/wellKnown.routes';
 
 /**
  * Express Application Setup
@@ -22,6 +32,8 @@ import filesRoutes from './routes/files.routes';
 class Server {
   public app: Application;
   private port: number;
+  private stopAnchorScheduler: (() => void) | null = null;
+  private stopKycExpiryScheduler: (() => void) | null = null;
 
   constructor() {
     this.app = express();
@@ -60,6 +72,9 @@ class Server {
       })
     );
 
+    // KYC webhooks are signed over the exact bytes sent, so keep that body raw
+    this.app.use('/api/kyc/webhook', express.raw({ type: 'application/json', limit: '1mb' }));
+
     // Body parsing middleware
     this.app.use(express.json({ limit: '10mb' }));
     this.app.use(express.urlencoded({ extended: true, limit: '10mb' }));
@@ -106,8 +121,16 @@ class Server {
     this.app.use('/api/proposals', proposalsRoutes);
     this.app.use('/api/submissions', submissionsRoutes);
     this.app.use('/api/payments', paymentsRoutes);
+    this.app.use('/api/payouts', payoutsRoutes);
+    this.app.use('/api/ir35', ir35Routes);
+    this.app.use('/api/users', usersRoutes);
     this.app.use('/api/admin', adminRoutes);
     this.app.use('/api/files', filesRoutes);
+    this.app.use('/api/evidence', evidenceRoutes);
+    this.app.use('/api/incidents', incidentsRoutes);
+    this.app.use('/api/appeals', appealsRoutes);
+    this.app.use('/api/kyc', kycRoutes);
+    this.app.use('/.well-known', wellKnownRoutes);
 
     // Root endpoint
     this.app.get('/', (_req: Request, res: Response) => {
@@ -124,8 +147,15 @@ class Server {
             proposals: '/api/proposals',
             submissions: '/api/submissions',
             payments: '/api/payments',
+            payouts: '/api/payouts',
+            ir35: '/api/ir35',
+            users: '/api/users',
             admin: '/api/admin',
             files: '/api/files',
+            evidence: '/api/evidence',
+            incidents: '/api/incidents',
+            appeals: '/api/appeals',
+            kyc: '/api/kyc',
           },
         },
       });
@@ -167,6 +197,10 @@ class Server {
         logger.info(`API URL: http://localhost:${this.port}`);
         logger.info(`Health Check: http://localhost:${this.port}/health`);
       });
+
+      // Start background jobs
+      this.stopAnchorScheduler = startAnchorScheduler();
+      this.stopKycExpiryScheduler = startKycExpiryScheduler();
     } catch (error) {
       logger.error('Failed to start server:', error);
       process.exit(1);
@@ -180,6 +214,8 @@ class Server {
     logger.info('Shutting down server...');
 
     try {
+      this.stopAnchorScheduler?.();
+      this.stopKycExpiryScheduler?.();
       await disconnect();
       logger.info('Server shut down successfully');
       process.exit(0);
@@ -1,6 +1,8 @@
 import bcrypt from 'bcrypt';
 import jwt from 'jsonwebtoken';
 import { AuthService } from '../auth.service';
+import { sessionService } from '../session.service';
+import { emailTokenService } from '../emailToken.service';
 import { prisma } from '../../config/database';
 import { env } from '../../config/env';
 import { Role } from '@prisma/client';
@@ -15,12 +17,33 @@ jest.mock('../../config/database', () => ({
   prisma: {
     users: {
       findUnique: jest.fn(),
+      findFirst: jest.fn(),
       create: jest.fn(),
       update: jest.fn(),
     },
   },
 }));
 
+jest.mock('../session.service', () => ({
+  sessionService: {
+    create: jest.fn(),
+    rotate: jest.fn(),
+    revokeAll: jest.fn(),
+  },
+}));
+
+jest.mock('../emailToken.service', () => ({
+  emailTokenService: {
+    issue: jest.fn(),
+    consume: jest.fn(),
+  },
+}));
+
+const mockSend = jest.fn();
+jest.mock('../mail', () => ({
+  getMailer: () => ({ driver: 'console', send: mockSend }),
+}));
+
 jest.mock('bcrypt');
 jest.mock('jsonwebtoken');
 jest.mock('../../utils/logger', () => ({
@@ -36,17 +59,26 @@ describe('AuthService', () => {
 
   // Mock Prisma client
   const mockPrismaUser = prisma.users as jest.Mocked<typeof prisma.users>;
+  const mockSessionService = sessionService as jest.Mocked<typeof sessionService>;
+  const mockEmailTokens = emailTokenService as jest.Mocked<typeof emailTokenService>;
 
   beforeEach(() => {
     authService = new AuthService();
     jest.clearAllMocks();
+    mockSessionService.create.mockResolvedValue({
+      sessionId: 'session-123',
+      refreshToken: 'refresh-token',
+    });
+    mockEmailTokens.issue.mockResolvedValue({
+      token: 'email-token',
+      expiresAt: new Date(Date.now() + 60_000),
+    });
   });
 
   describe('signup()', () => {
     const validSignupData = {
       email: 'test@example.com',
       password: 'password123',
-      walletAddress: '0x742d35Cc6634C0532925a3b844Bc9e7595f0bEb',
     };
 
     const mockUser = {
@@ -60,6 +92,8 @@ describe('AuthService', () => {
       updatedAt: new Date('2024-01-01'),
       kycStatus: 'PENDING',
       kycVerifiedAt: null,
+      kycExpiresAt: null,
+      emailVerifiedAt: null,
     };
 
     describe('Success Cases', () => {
@@ -80,7 +114,6 @@ describe('AuthService', () => {
             data: expect.objectContaining({
               email: validSignupData.email,
               passwordHash: 'hashed-password',
-              walletAddress: validSignupData.walletAddress,
               profile: {},
             }),
           })
@@ -121,6 +154,7 @@ describe('AuthService', () => {
           {
             userId: mockUser.id,
             email: mockUser.email,
+            sessionId: 'session-123',
           },
           env.JWT_SECRET,
           { expiresIn: env.JWT_EXPIRES_IN }
@@ -128,11 +162,11 @@ describe('AuthService', () => {
         expect(result.token).toBe('valid-jwt-token');
       });
 
-      it('should handle optional walletAddress', async () => {
+      it('should not store a wallet address sent with signup', async () => {
         // Arrange
-        const signupDataWithoutWallet = {
-          email: 'test@example.com',
-          password: 'password123',
+        const signupDataWithWallet = {
+          ...validSignupData,
+          walletAddress: '0x742d35Cc6634C0532925a3b844Bc9e7595f0bEb',
         };
         const userWithoutWallet = { ...mockUser, walletAddress: null };
 
@@ -142,19 +176,10 @@ describe('AuthService', () => {
         mockPrismaUser.create.mockResolvedValue(userWithoutWallet);
 
         // Act
-        const result = await authService.signup(signupDataWithoutWallet);
+        const result = await authService.signup(signupDataWithWallet);
 
         // Assert
-        expect(mockPrismaUser.create).toHaveBeenCalledWith(
-          expect.objectContaining({
-            data: expect.objectContaining({
-              email: signupDataWithoutWallet.email,
-              passwordHash: 'hashed-password',
-              walletAddress: undefined,
-              profile: {},
-            }),
-          })
-        );
+        expect(mockPrismaUser.create.mock.calls[0][0].data).not.toHaveProperty('walletAddress');
         expect(result.user.walletAddress).toBeNull();
       });
 
@@ -183,7 +208,6 @@ describe('AuthService', () => {
             data: expect.objectContaining({
               email: signupDataWithProfile.email,
               passwordHash: 'hashed-password',
-              walletAddress: signupDataWithProfile.walletAddress,
               profile: signupDataWithProfile.profile,
             }),
           })
@@ -268,31 +292,6 @@ describe('AuthService', () => {
         expect(result).toBeDefined();
         expect(result.user.email).toBe(validSignupData.email);
       });
-
-      it('should reject duplicate wallet address', async () => {
-        // Arrange
-        // First call to findUnique (email check) returns null
-        // Second call to findUnique (wallet check) returns existing user
-        mockPrismaUser.findUnique
-          .mockResolvedValueOnce(null)
-          .mockResolvedValueOnce(mockUser);
-
-        // Act & Assert
-        await expect(authService.signup(validSignupData)).rejects.toThrow(ConflictError);
-
-        // Re-setup mocks for second assertion
-        mockPrismaUser.findUnique
-          .mockResolvedValueOnce(null)
-          .mockResolvedValueOnce(mockUser);
-
-        await expect(authService.signup(validSignupData)).rejects.toThrow(
-          'Wallet address already registered'
-        );
-
-        expect(mockPrismaUser.findUnique).toHaveBeenCalledWith({
-          where: { walletAddress: validSignupData.walletAddress },
-        });
-      });
     });
   });
 
@@ -313,6 +312,8 @@ describe('AuthService', () => {
       updatedAt: new Date('2024-01-01'),
       kycStatus: 'PENDING',
       kycVerifiedAt: null,
+      kycExpiresAt: null,
+      emailVerifiedAt: null,
     };
 
     describe('Success Cases', () => {
@@ -327,10 +328,12 @@ describe('AuthService', () => {
 
         // Assert
         expect(result.token).toBe('valid-jwt-token');
+        expect(result.refreshToken).toBe('refresh-token');
         expect(jwt.sign).toHaveBeenCalledWith(
           {
             userId: mockUser.id,
             email: mockUser.email,
+            sessionId: 'session-123',
           },
           env.JWT_SECRET,
           { expiresIn: env.JWT_EXPIRES_IN }
@@ -355,6 +358,21 @@ describe('AuthService', () => {
         });
       });
 
+      it('should start a session for the device', async () => {
+        // Arrange
+        mockPrismaUser.findUnique.mockResolvedValue(mockUser);
+        (bcrypt.compare as jest.Mock).mockResolvedValue(true);
+
+        // Act
+        await authService.login(validLoginData, { userAgent: 'jest', ipAddress: '127.0.0.1' });
+
+        // Assert
+        expect(mockSessionService.create).toHaveBeenCalledWith(mockUser.id, {
+          userAgent: 'jest',
+          ipAddress: '127.0.0.1',
+        });
+      });
+
       it('should verify password correctly', async () => {
         // Arrange
         mockPrismaUser.findUnique.mockResolvedValue(mockUser);
@@ -398,6 +416,18 @@ describe('AuthService', () => {
         expect(bcrypt.compare).not.toHaveBeenCalled();
       });
 
+      it('should never log in the system actor', async () => {
+        // Arrange
+        mockPrismaUser.findUnique.mockResolvedValue({ ...mockUser, role: Role.SYSTEM });
+        (bcrypt.compare as jest.Mock).mockResolvedValue(true);
+
+        // Act & Assert
+        await expect(authService.login(validLoginData)).rejects.toThrow(
+          'Invalid email or password'
+        );
+        expect(bcrypt.compare).not.toHaveBeenCalled();
+      });
+
       it('should reject empty password', async () => {
         // Arrange
         const emptyPasswordData = {
@@ -413,6 +443,246 @@ describe('AuthService', () => {
     });
   });
 
+  describe('loginWithWallet()', () => {
+    const walletAddress = '0x742d35Cc6634C0532925a3b844Bc9e7595f0bEb0';
+
+    const mockUser = {
+      id: 'user-123',
+      email: 'test@example.com',
+      passwordHash: 'hashed-password',
+      walletAddress: walletAddress.toLowerCase(),
+      profile: {},
+      role: Role.USER,
+      createdAt: new Date('2024-01-01'),
+      updatedAt: new Date('2024-01-01'),
+      kycStatus: 'PENDING',
+      kycVerifiedAt: null,
+      kycExpiresAt: null,
+      emailVerifiedAt: null,
+    };
+
+    it('should log in the user linked to the wallet, ignoring address case', async () => {
+      // Arrange
+      mockPrismaUser.findFirst.mockResolvedValue(mockUser);
+      (jwt.sign as jest.Mock).mockReturnValue('mock-jwt-token');
+
+      // Act
+      const result = await authService.loginWithWallet(walletAddress);
+
+      // Assert
+      expect(mockPrismaUser.findFirst).toHaveBeenCalledWith({
+        where: { walletAddress: { equals: walletAddress, mode: 'insensitive' } },
+      });
+      expect(result.token).toBe('mock-jwt-token');
+      expect(result.user).not.toHaveProperty('passwordHash');
+    });
+
+    it('should reject wallets not linked to any account', async () => {
+      // Arrange
+      mockPrismaUser.findFirst.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(authService.loginWithWallet(walletAddress)).rejects.toThrow(AuthenticationError);
+      expect(jwt.sign).not.toHaveBeenCalled();
+    });
+
+    it('should never log in the system actor', async () => {
+      // Arrange
+      mockPrismaUser.findFirst.mockResolvedValue({ ...mockUser, role: Role.SYSTEM });
+
+      // Act & Assert
+      await expect(authService.loginWithWallet(walletAddress)).rejects.toThrow(AuthenticationError);
+    });
+  });
+
+  describe('email verification', () => {
+    const unverifiedUser = {
+      id: 'user-123',
+      email: 'test@example.com',
+      passwordHash: 'hashed-password',
+      role: Role.USER,
+      emailVerifiedAt: null,
+    };
+
+    it('should email a verification link after signup', async () => {
+      // Arrange
+      mockPrismaUser.findUnique
+        .mockResolvedValueOnce(null) // email not taken
+        .mockResolvedValueOnce(unverifiedUser as any);
+      (bcrypt.hash as jest.Mock).mockResolvedValue('hashed-password');
+      mockPrismaUser.create.mockResolvedValue(unverifiedUser as any);
+
+      // Act
+      await authService.signup({ email: 'test@example.com', password: 'password123' });
+
+      // Assert
+      expect(mockEmailTokens.issue).toHaveBeenCalledWith('user-123', 'EMAIL_VERIFICATION');
+      expect(mockSend).toHaveBeenCalledWith(
+        expect.objectContaining({
+          to: 'test@example.com',
+          text: expect.stringContaining('/verify-email?token=email-token'),
+        })
+      );
+    });
+
+    it('should still sign up when the verification email cannot be sent', async () => {
+      // Arrange
+      mockPrismaUser.findUnique
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(unverifiedUser as any);
+      (bcrypt.hash as jest.Mock).mockResolvedValue('hashed-password');
+      mockPrismaUser.create.mockResolvedValue(unverifiedUser as any);
+      mockSend.mockRejectedValueOnce(new Error('SMTP down'));
+
+      // Act
+      const result = await authService.signup({
+        email: 'test@example.com',
+        password: 'password123',
+      });
+
+      // Assert
+      expect(result.user.id).toBe('user-123');
+    });
+
+    it('should not resend to verified users', async () => {
+      // Arrange
+      mockPrismaUser.findUnique.mockResolvedValue({
+        ...unverifiedUser,
+        emailVerifiedAt: new Date(),
+      } as any);
+
+      // Act & Assert
+      await expect(authService.sendVerificationEmail('user-123')).rejects.toThrow(ConflictError);
+      expect(mockSend).not.toHaveBeenCalled();
+    });
+
+    it('should mark the email verified with a valid token', async () => {
+      // Arrange
+      mockEmailTokens.consume.mockResolvedValue('user-123');
+      mockPrismaUser.update.mockResolvedValue({
+        ...unverifiedUser,
+        emailVerifiedAt: new Date(),
+      } as any);
+
+      // Act
+      const user = await authService.verifyEmail('email-token');
+
+      // Assert
+      expect(mockEmailTokens.consume).toHaveBeenCalledWith('email-token', 'EMAIL_VERIFICATION');
+      expect(mockPrismaUser.update).toHaveBeenCalledWith({
+        where: { id: 'user-123' },
+        data: { emailVerifiedAt: expect.any(Date), updatedAt: expect.any(Date) },
+      });
+      expect(user).not.toHaveProperty('passwordHash');
+    });
+  });
+
+  describe('password reset', () => {
+    it('should email a reset link to known users', async () => {
+      // Arrange
+      mockPrismaUser.findUnique.mockResolvedValue({
+        id: 'user-123',
+        email: 'test@example.com',
+        role: Role.USER,
+      } as any);
+
+      // Act
+      await authService.requestPasswordReset('test@example.com');
+
+      // Assert
+      expect(mockEmailTokens.issue).toHaveBeenCalledWith('user-123', 'PASSWORD_RESET');
+      expect(mockSend).toHaveBeenCalledWith(
+        expect.objectContaining({
+          to: 'test@example.com',
+          text: expect.stringContaining('/reset-password?token=email-token'),
+        })
+      );
+    });
+
+    it('should quietly do nothing for unknown emails', async () => {
+      // Arrange
+      mockPrismaUser.findUnique.mockResolvedValue(null);
+
+      // Act
+      await authService.requestPasswordReset('nobody@example.com');
+
+      // Assert
+      expect(mockEmailTokens.issue).not.toHaveBeenCalled();
+      expect(mockSend).not.toHaveBeenCalled();
+    });
+
+    it('should set the new password and sign the user out everywhere', async () => {
+      // Arrange
+      mockEmailTokens.consume.mockResolvedValue('user-123');
+      (bcrypt.hash as jest.Mock).mockResolvedValue('new-hash');
+      mockPrismaUser.findUnique.mockResolvedValue({ emailVerifiedAt: null } as any);
+      mockPrismaUser.update.mockResolvedValue({ id: 'user-123', email: 'test@example.com' } as any);
+
+      // Act
+      const userId = await authService.resetPassword('reset-token', 'new-password-123');
+
+      // Assert
+      expect(userId).toBe('user-123');
+      expect(mockEmailTokens.consume).toHaveBeenCalledWith('reset-token', 'PASSWORD_RESET');
+      expect(mockPrismaUser.update).toHaveBeenCalledWith({
+        where: { id: 'user-123' },
+        data: {
+          passwordHash: 'new-hash',
+          emailVerifiedAt: expect.any(Date),
+          updatedAt: expect.any(Date),
+        },
+      });
+      expect(mockSessionService.revokeAll).toHaveBeenCalledWith('user-123', 'PASSWORD_RESET');
+    });
+
+    it('should not use up the link when the new password is too short', async () => {
+      // Act & Assert
+      await expect(authService.resetPassword('reset-token', 'short')).rejects.toThrow(
+        ValidationError
+      );
+      expect(mockEmailTokens.consume).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('refresh()', () => {
+    it('should issue a new access token for the rotated session', async () => {
+      // Arrange
+      mockSessionService.rotate.mockResolvedValue({
+        sessionId: 'session-123',
+        userId: 'user-123',
+        refreshToken: 'next-refresh-token',
+      });
+      mockPrismaUser.findUnique.mockResolvedValue({
+        id: 'user-123',
+        email: 'test@example.com',
+      } as any);
+      (jwt.sign as jest.Mock).mockReturnValue('fresh-jwt-token');
+
+      // Act
+      const result = await authService.refresh('refresh-token', { userAgent: 'jest' });
+
+      // Assert
+      expect(mockSessionService.rotate).toHaveBeenCalledWith('refresh-token', { userAgent: 'jest' });
+      expect(jwt.sign).toHaveBeenCalledWith(
+        { userId: 'user-123', email: 'test@example.com', sessionId: 'session-123' },
+        env.JWT_SECRET,
+        { expiresIn: env.JWT_EXPIRES_IN }
+      );
+      expect(result).toEqual({ token: 'fresh-jwt-token', refreshToken: 'next-refresh-token' });
+    });
+
+    it('should reject refresh tokens the session service rejects', async () => {
+      // Arrange
+      mockSessionService.rotate.mockRejectedValue(
+        new AuthenticationError('Session revoked, please log in again')
+      );
+
+      // Act & Assert
+      await expect(authService.refresh('stolen-token')).rejects.toThrow(AuthenticationError);
+      expect(jwt.sign).not.toHaveBeenCalled();
+    });
+  });
+
   describe('verifyToken()', () => {
     const mockPayload = {
       userId: 'user-123',
@@ -518,6 +788,8 @@ describe('AuthService', () => {
       updatedAt: new Date('2024-01-01'),
       kycStatus: 'PENDING',
       kycVerifiedAt: null,
+      kycExpiresAt: null,
+      emailVerifiedAt: null,
     };
 
     it('should return sanitized user for valid userId', async () => {
@@ -560,13 +832,15 @@ describe('AuthService', () => {
       updatedAt: new Date('2024-01-01'),
       kycStatus: 'PENDING',
       kycVerifiedAt: null,
+      kycExpiresAt: null,
+      emailVerifiedAt: null,
     };
 
     const newWalletAddress = '0x1234567890123456789012345678901234567890';
 
     it('should update wallet address successfully', async () => {
       // Arrange
-      mockPrismaUser.findUnique.mockResolvedValue(null);
+      mockPrismaUser.findFirst.mockResolvedValue(null);
       mockPrismaUser.update.mockResolvedValue({
         ...mockUser,
         walletAddress: newWalletAddress,
@@ -585,7 +859,7 @@ describe('AuthService', () => {
 
     it('should return sanitized user without password', async () => {
       // Arrange
-      mockPrismaUser.findUnique.mockResolvedValue(null);
+      mockPrismaUser.findFirst.mockResolvedValue(null);
       mockPrismaUser.update.mockResolvedValue({
         ...mockUser,
         walletAddress: newWalletAddress,
@@ -601,7 +875,7 @@ describe('AuthService', () => {
     it('should reject if wallet address is already taken by another user', async () => {
       // Arrange
       const existingUser = { ...mockUser, id: 'different-user' };
-      mockPrismaUser.findUnique.mockResolvedValue(existingUser);
+      mockPrismaUser.findFirst.mockResolvedValue(existingUser);
 
       // Act & Assert
       await expect(
@@ -612,9 +886,31 @@ describe('AuthService', () => {
       ).rejects.toThrow('Wallet address already registered');
     });
 
+    it('should store the checksum address and match existing ones in any casing', async () => {
+      // Arrange
+      const checksummed = '0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed';
+      mockPrismaUser.findFirst.mockResolvedValue(null);
+      mockPrismaUser.update.mockResolvedValue({ ...mockUser, walletAddress: checksummed });
+
+      // Act
+      await authService.updateWalletAddress('user-123', checksummed.toLowerCase());
+
+      // Assert
+      expect(mockPrismaUser.findFirst).toHaveBeenCalledWith({
+        where: {
+          walletAddress: { equals: checksummed, mode: 'insensitive' },
+          id: { not: 'user-123' },
+        },
+      });
+      expect(mockPrismaUser.update).toHaveBeenCalledWith({
+        where: { id: 'user-123' },
+        data: { walletAddress: checksummed },
+      });
+    });
+
     it('should allow user to update their own wallet address', async () => {
-      // Arrange - Same user updating their own wallet
-      mockPrismaUser.findUnique.mockResolvedValue(mockUser);
+      // Arrange - Same user updating their own wallet is excluded from the lookup
+      mockPrismaUser.findFirst.mockResolvedValue(null);
       mockPrismaUser.update.mockResolvedValue({
         ...mockUser,
         walletAddress: newWalletAddress,
@@ -0,0 +1,67 @@
+import { ethers } from 'ethers';
+import { BlockchainService } from '../blockchain.service';
+import { ValidationError } from '../../types';
+
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+  },
+}));
+
+describe('BlockchainService', () => {
+  describe('signPayment()', () => {
+    const recipient = '0x1111111111111111111111111111111111111111';
+    const stablecoin = '0x2222222222222222222222222222222222222222';
+    const wallet = ethers.Wallet.createRandom();
+    const erc20 = new ethers.Interface(['function transfer(address to, uint256 amount)']);
+
+    let service: BlockchainService;
+
+    beforeEach(() => {
+      service = new BlockchainService();
+
+      // Offline signer: a token with 6 decimals, fixed gas and nonce
+      const signer = {
+        address: wallet.address,
+        call: jest.fn().mockResolvedValue(ethers.AbiCoder.defaultAbiCoder().encode(['uint8'], [6])),
+        populateTransaction: jest.fn(async (request: ethers.TransactionRequest) => ({
+          ...request,
+          chainId: 1,
+          nonce: 0,
+          gasLimit: 100000,
+          maxFeePerGas: 1,
+          maxPriorityFeePerGas: 1,
+          type: 2,
+        })),
+        signTransaction: (tx: ethers.TransactionRequest) => wallet.signTransaction(tx),
+      };
+      jest.spyOn(service, 'getSigner').mockReturnValue(signer as unknown as ethers.Wallet);
+    });
+
+    it('should pay a fiat amount 1:1 in whole stablecoin units', async () => {
+      const { txHash, rawTx } = await service.signPayment(recipient, '100.00', stablecoin);
+
+      const tx = ethers.Transaction.from(rawTx);
+      const [to, amount] = erc20.decodeFunctionData('transfer', tx.data);
+
+      expect(tx.hash).toBe(txHash);
+      expect(tx.to).toBe(stablecoin);
+      expect(tx.value).toBe(0n);
+      expect(to).toBe(recipient);
+      expect(amount).toBe(100_000_000n);
+    });
+
+    it('should refuse to pay a fiat amount in the native coin', async () => {
+      await expect(service.signPayment(recipient, '100.00', '')).rejects.toThrow(ValidationError);
+      expect(service.getSigner).not.toHaveBeenCalled();
+    });
+
+    it('should reject invalid recipient addresses', async () => {
+      await expect(service.signPayment('not-a-wallet', '1', stablecoin)).rejects.toThrow(
+        'Invalid recipient wallet address'
+      );
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import jwt from 'jsonwebtoken';
+import { EmailTokenService } from '../emailToken.service';
+import { prisma } from '../../config/database';
+import { env } from '../../config/env';
+import { ValidationError } from '../../types';
+
+// Mock dependencies
+jest.mock('../../config/database', () => ({
+  prisma: {
+    email_tokens: {
+      create: jest.fn(),
+      deleteMany: jest.fn(),
+      updateMany: jest.fn(),
+    },
+  },
+}));
+
+describe('EmailTokenService', () => {
+  let emailTokenService: EmailTokenService;
+  const mockTokens = prisma.email_tokens as jest.Mocked<typeof prisma.email_tokens>;
+
+  beforeEach(() => {
+    emailTokenService = new EmailTokenService();
+    jest.clearAllMocks();
+    (mockTokens.create as jest.Mock).mockImplementation(({ data }) => Promise.resolve(data));
+    (mockTokens.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+  });
+
+  describe('issue()', () => {
+    it('should record the token and replace earlier unused ones', async () => {
+      const { token, expiresAt } = await emailTokenService.issue('user-123', 'PASSWORD_RESET');
+
+      const data = (mockTokens.create as jest.Mock).mock.calls[0][0].data;
+      const decoded = jwt.decode(token) as jwt.JwtPayload;
+
+      expect(mockTokens.deleteMany).toHaveBeenCalledWith({
+        where: { userId: 'user-123', purpose: 'PASSWORD_RESET', usedAt: null },
+      });
+      expect(decoded).toMatchObject({ sub: 'user-123', jti: data.id, aud: 'PASSWORD_RESET' });
+      expect(expiresAt.getTime() - Date.now()).toBeLessThanOrEqual(
+        env.PASSWORD_RESET_TTL_MINUTES * 60 * 1000
+      );
+    });
+
+    it('should not be usable as an access token', async () => {
+      const { token } = await emailTokenService.issue('user-123', 'EMAIL_VERIFICATION');
+
+      expect(() => jwt.verify(token, env.JWT_SECRET)).toThrow();
+    });
+  });
+
+  describe('consume()', () => {
+    it('should use up a valid token once and return its user', async () => {
+      const { token } = await emailTokenService.issue('user-123', 'EMAIL_VERIFICATION');
+      const id = (mockTokens.create as jest.Mock).mock.calls[0][0].data.id;
+
+      await expect(emailTokenService.consume(token, 'EMAIL_VERIFICATION')).resolves.toBe(
+        'user-123'
+      );
+      expect(mockTokens.updateMany).toHaveBeenCalledWith({
+        where: {
+          id,
+          userId: 'user-123',
+          purpose: 'EMAIL_VERIFICATION',
+          usedAt: null,
+          expiresAt: { gt: expect.any(Date) },
+        },
+        data: { usedAt: expect.any(Date) },
+      });
+    });
+
+    it('should reject a token issued for another purpose', async () => {
+      const { token } = await emailTokenService.issue('user-123', 'EMAIL_VERIFICATION');
+
+      await expect(emailTokenService.consume(token, 'PASSWORD_RESET')).rejects.toThrow(
+        ValidationError
+      );
+      expect(mockTokens.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should reject tampered tokens', async () => {
+      const { token } = await emailTokenService.issue('user-123', 'PASSWORD_RESET');
+
+      await expect(emailTokenService.consume(`${token}x`, 'PASSWORD_RESET')).rejects.toThrow(
+        'This link is invalid or has expired'
+      );
+    });
+
+    it('should reject tokens that were already used or replaced', async () => {
+      const { token } = await emailTokenService.issue('user-123', 'PASSWORD_RESET');
+      (mockTokens.updateMany as jest.Mock).mockResolvedValue({ count: 0 });
+
+      await expect(emailTokenService.consume(token, 'PASSWORD_RESET')).rejects.toThrow(
+        'This link has already been used or was replaced by a newer one'
+      );
+    });
+  });
+});
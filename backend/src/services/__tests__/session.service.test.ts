@@ -0,0 +1,164 @@
+import crypto from 'crypto';
+import { SessionService } from '../session.service';
+import { prisma } from '../../config/database';
+import { AuthenticationError } from '../../types';
+
+// Mock dependencies
+jest.mock('../../config/database', () => ({
+  prisma: {
+    user_sessions: {
+      create: jest.fn(),
+      deleteMany: jest.fn(),
+      findFirst: jest.fn(),
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+  },
+}));
+
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+  },
+}));
+
+const sha256 = (value: string) => crypto.createHash('sha256').update(value).digest('hex');
+
+describe('SessionService', () => {
+  let sessionService: SessionService;
+  const mockSessions = prisma.user_sessions as jest.Mocked<typeof prisma.user_sessions>;
+
+  const activeSession = {
+    id: 'session-123',
+    userId: 'user-123',
+    refreshTokenHash: sha256('refresh-token'),
+    previousTokenHash: sha256('old-refresh-token'),
+    userAgent: 'Firefox on Linux',
+    ipAddress: '127.0.0.1',
+    createdAt: new Date('2024-01-01'),
+    lastUsedAt: new Date('2024-01-01'),
+    expiresAt: new Date(Date.now() + 60_000),
+    revokedAt: null,
+    revokedReason: null,
+  };
+
+  beforeEach(() => {
+    sessionService = new SessionService();
+    jest.clearAllMocks();
+    (mockSessions.create as jest.Mock).mockImplementation(({ data }) => Promise.resolve(data));
+    (mockSessions.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+  });
+
+  describe('create()', () => {
+    it('should store only a hash of the refresh token', async () => {
+      const { sessionId, refreshToken } = await sessionService.create('user-123', {
+        userAgent: 'Firefox on Linux',
+      });
+
+      const data = (mockSessions.create as jest.Mock).mock.calls[0][0].data;
+      expect(data).toMatchObject({
+        id: sessionId,
+        userId: 'user-123',
+        refreshTokenHash: sha256(refreshToken),
+        userAgent: 'Firefox on Linux',
+        ipAddress: null,
+      });
+      expect(JSON.stringify(data)).not.toContain(refreshToken);
+      expect(data.expiresAt.getTime()).toBeGreaterThan(Date.now());
+    });
+  });
+
+  describe('rotate()', () => {
+    it('should replace the refresh token and remember the old one', async () => {
+      (mockSessions.findFirst as jest.Mock).mockResolvedValue(activeSession);
+
+      const result = await sessionService.rotate('refresh-token');
+
+      expect(result.sessionId).toBe('session-123');
+      expect(result.userId).toBe('user-123');
+      expect(result.refreshToken).not.toBe('refresh-token');
+      expect(mockSessions.updateMany).toHaveBeenCalledWith({
+        where: { id: 'session-123', refreshTokenHash: sha256('refresh-token'), revokedAt: null },
+        data: expect.objectContaining({
+          refreshTokenHash: sha256(result.refreshToken),
+          previousTokenHash: sha256('refresh-token'),
+        }),
+      });
+    });
+
+    it('should revoke the session when a rotated token is reused', async () => {
+      (mockSessions.findFirst as jest.Mock).mockResolvedValue(activeSession);
+
+      await expect(sessionService.rotate('old-refresh-token')).rejects.toThrow(
+        'Session revoked, please log in again'
+      );
+      expect(mockSessions.update).toHaveBeenCalledWith({
+        where: { id: 'session-123' },
+        data: { revokedAt: expect.any(Date), revokedReason: 'REFRESH_TOKEN_REUSED' },
+      });
+      expect(mockSessions.updateMany).not.toHaveBeenCalled();
+    });
+
+    it.each([
+      ['revoked', { revokedAt: new Date() }],
+      ['expired', { expiresAt: new Date(Date.now() - 1000) }],
+    ])('should reject %s sessions', async (_label, overrides) => {
+      (mockSessions.findFirst as jest.Mock).mockResolvedValue({ ...activeSession, ...overrides });
+
+      await expect(sessionService.rotate('refresh-token')).rejects.toThrow(AuthenticationError);
+      expect(mockSessions.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown refresh tokens', async () => {
+      (mockSessions.findFirst as jest.Mock).mockResolvedValue(null);
+
+      await expect(sessionService.rotate('made-up')).rejects.toThrow('Invalid refresh token');
+    });
+
+    it('should let only one of two concurrent refreshes win', async () => {
+      (mockSessions.findFirst as jest.Mock).mockResolvedValue(activeSession);
+      (mockSessions.updateMany as jest.Mock).mockResolvedValue({ count: 0 });
+
+      await expect(sessionService.rotate('refresh-token')).rejects.toThrow(
+        'Refresh token already used'
+      );
+    });
+  });
+
+  describe('isActive()', () => {
+    it('should accept live sessions of the token owner', async () => {
+      (mockSessions.findUnique as jest.Mock).mockResolvedValue(activeSession);
+
+      await expect(sessionService.isActive('session-123', 'user-123')).resolves.toBe(true);
+    });
+
+    it.each([
+      ['missing', null, 'user-123'],
+      ['revoked', { ...activeSession, revokedAt: new Date() }, 'user-123'],
+      ['expired', { ...activeSession, expiresAt: new Date(Date.now() - 1000) }, 'user-123'],
+      ['owned by someone else', activeSession, 'user-456'],
+    ])('should refuse %s sessions', async (_label, session, userId) => {
+      (mockSessions.findUnique as jest.Mock).mockResolvedValue(session);
+
+      await expect(sessionService.isActive('session-123', userId)).resolves.toBe(false);
+    });
+  });
+
+  describe('revokeAll()', () => {
+    it('should revoke every active session of the user', async () => {
+      (mockSessions.updateMany as jest.Mock).mockResolvedValue({ count: 2 });
+
+      const revoked = await sessionService.revokeAll('user-123', 'ROLE_CHANGED');
+
+      expect(revoked).toBe(2);
+      expect(mockSessions.updateMany).toHaveBeenCalledWith({
+        where: { userId: 'user-123', revokedAt: null },
+        data: { revokedAt: expect.any(Date), revokedReason: 'ROLE_CHANGED' },
+      });
+    });
+  });
+});
@@ -0,0 +1,151 @@
+import { ethers } from 'ethers';
+import { SiweService } from '../siwe.service';
+import { prisma } from '../../config/database';
+import { AuthenticationError, AuthorizationError, ValidationError } from '../../types';
+
+// Mock dependencies
+jest.mock('../../config/database', () => ({
+  prisma: {
+    wallet_nonces: {
+      create: jest.fn(),
+      deleteMany: jest.fn(),
+      updateMany: jest.fn(),
+      findUnique: jest.fn(),
+    },
+  },
+}));
+
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+  },
+}));
+
+describe('SiweService', () => {
+  let siweService: SiweService;
+  const mockNonces = prisma.wallet_nonces as jest.Mocked<typeof prisma.wallet_nonces>;
+  const wallet = ethers.Wallet.createRandom();
+
+  /**
+   * Issue a nonce and return the stored record, as the database would hold it
+   */
+  const issue = async (purpose: 'LOGIN' | 'LINK', userId?: string) => {
+    const issued = await siweService.issueNonce({
+      address: wallet.address.toLowerCase(),
+      chainId: 11155111,
+      purpose,
+      userId,
+    });
+    const record = (mockNonces.create as jest.Mock).mock.calls[0][0].data;
+    return { issued, record };
+  };
+
+  beforeEach(() => {
+    siweService = new SiweService();
+    jest.clearAllMocks();
+    (mockNonces.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+  });
+
+  describe('issueNonce()', () => {
+    it('should store an EIP-4361 message for the checksummed address', async () => {
+      const { issued, record } = await issue('LOGIN');
+
+      expect(issued.message).toContain(
+        `wants you to sign in with your Ethereum account:\n${wallet.address}\n`
+      );
+      expect(issued.message).toContain('Chain ID: 11155111');
+      expect(issued.message).toContain(`Nonce: ${issued.nonce}`);
+      expect(record).toMatchObject({
+        nonce: issued.nonce,
+        address: wallet.address,
+        purpose: 'LOGIN',
+        message: issued.message,
+      });
+      expect(issued.expiresAt.getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it('should require a user to issue a LINK nonce', async () => {
+      await expect(
+        siweService.issueNonce({ address: wallet.address, purpose: 'LINK' })
+      ).rejects.toThrow(AuthenticationError);
+      expect(mockNonces.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject invalid addresses', async () => {
+      await expect(
+        siweService.issueNonce({ address: '0xnot-an-address', purpose: 'LOGIN' })
+      ).rejects.toThrow(ValidationError);
+    });
+  });
+
+  describe('verify()', () => {
+    it('should return the address when the wallet signed the issued message', async () => {
+      const { issued, record } = await issue('LOGIN');
+      (mockNonces.findUnique as jest.Mock).mockResolvedValue(record);
+      const signature = await wallet.signMessage(issued.message);
+
+      const address = await siweService.verify(issued.message, signature, { purpose: 'LOGIN' });
+
+      expect(address).toBe(wallet.address);
+      expect(mockNonces.updateMany).toHaveBeenCalledWith({
+        where: { nonce: issued.nonce, usedAt: null, expiresAt: { gt: expect.any(Date) } },
+        data: { usedAt: expect.any(Date) },
+      });
+    });
+
+    it('should reject expired or already used nonces', async () => {
+      const { issued } = await issue('LOGIN');
+      (mockNonces.updateMany as jest.Mock).mockResolvedValue({ count: 0 });
+      const signature = await wallet.signMessage(issued.message);
+
+      await expect(
+        siweService.verify(issued.message, signature, { purpose: 'LOGIN' })
+      ).rejects.toThrow('Sign-in request expired or already used');
+    });
+
+    it('should reject a tampered message', async () => {
+      const { issued, record } = await issue('LOGIN');
+      (mockNonces.findUnique as jest.Mock).mockResolvedValue(record);
+      const tampered = issued.message.replace('Chain ID: 11155111', 'Chain ID: 1');
+      const signature = await wallet.signMessage(tampered);
+
+      await expect(siweService.verify(tampered, signature, { purpose: 'LOGIN' })).rejects.toThrow(
+        'Sign-in message does not match the issued request'
+      );
+    });
+
+    it('should reject signatures from another wallet', async () => {
+      const { issued, record } = await issue('LOGIN');
+      (mockNonces.findUnique as jest.Mock).mockResolvedValue(record);
+      const signature = await ethers.Wallet.createRandom().signMessage(issued.message);
+
+      await expect(
+        siweService.verify(issued.message, signature, { purpose: 'LOGIN' })
+      ).rejects.toThrow('Signature does not match the wallet address');
+    });
+
+    it('should not accept a LINK nonce issued to someone else', async () => {
+      const { issued, record } = await issue('LINK', 'user-123');
+      (mockNonces.findUnique as jest.Mock).mockResolvedValue(record);
+      const signature = await wallet.signMessage(issued.message);
+
+      const verifying = siweService.verify(issued.message, signature, {
+        purpose: 'LINK',
+        userId: 'user-456',
+      });
+
+      // 403 rather than 401, so a failed link does not end the user's session
+      await expect(verifying).rejects.toThrow(AuthorizationError);
+      await expect(verifying).rejects.toThrow('Sign-in request was issued for a different purpose');
+    });
+
+    it('should reject messages without a nonce', async () => {
+      await expect(
+        siweService.verify('Sign in please', '0xabc', { purpose: 'LOGIN' })
+      ).rejects.toThrow(ValidationError);
+      expect(mockNonces.updateMany).not.toHaveBeenCalled();
+    });
+  });
+});
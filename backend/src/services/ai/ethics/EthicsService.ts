@@ -138,7 +138,7 @@ export class EthicsService extends BaseAIService {
       const entries = (challenge.composition_manifests.entries as any[]) || [];
       manifestData = {
         entries: entries.map(e => ({
-          type: e.type || '',
+          type: e.type || e.role || '',
           contributorId: e.contributorId || '',
           weight: Number(e.weight) || 0,
           ref: e.ref,
@@ -1,22 +1,52 @@
 // /src/services/ai/evidence/EvidenceGenerator.ts
 
-import { PrismaClient } from '@prisma/client';
+import { PaymentStatus, PrismaClient, evidence_packages } from '@prisma/client';
 import { BaseAIService } from '../base/BaseAIService';
-import { EvidencePackageData, GeneratedEvidence } from '../types/evidence.types';
-import { PDFGenerator } from './generators/PDFGenerator';
+import {
+  EvidencePackageData,
+  GeneratedEvidence,
+  UnverifiedSection,
+  BUNDLE_PACKAGE_TYPE,
+} from '../types/evidence.types';
+import { PDFGenerator, ComplianceCheck, ContributionBreakdown } from './generators/PDFGenerator';
 import { QRGenerator } from './generators/QRGenerator';
+import { BundleGenerator } from './generators/BundleGenerator';
 import crypto from 'crypto';
-import fs from 'fs/promises';
-import path from 'path';
 import { generateId } from '../../../utils/idGenerator';
+import { StorageAdapter, getStorageAdapter } from '../../storage';
+import { IPFSService, getIPFSService } from '../../ipfs/IPFSService';
+import { AuditorService } from '../../auditor/AuditorService';
+import {
+  EvidenceSigner,
+  EvidenceSignature,
+  getEvidenceSigner,
+  verifyEvidenceSignature,
+  EVIDENCE_SIGNATURE_ALGORITHM,
+  EVIDENCE_SIGNATURE_VERSION,
+} from '../../signing';
+import { EventService } from '../../events/EventService';
+import { ManifestEntryDTO, NotFoundError, ValidationError, ConflictError } from '../../../types';
+
+const AUDITOR_STATUS: Record<'GREEN' | 'AMBER' | 'RED', ComplianceCheck['status']> = {
+  GREEN: 'PASS',
+  AMBER: 'WARN',
+  RED: 'FAIL',
+};
 
 export class EvidenceGenerator extends BaseAIService {
   private pdfGenerator: PDFGenerator;
   private qrGenerator: QRGenerator;
-  private evidenceStoragePath: string;
+  private bundleGenerator: BundleGenerator;
   private evidenceBaseUrl: string;
-
-  constructor(prisma: PrismaClient) {
+  private eventService: EventService;
+
+  constructor(
+    prisma: PrismaClient,
+    private storage: StorageAdapter = getStorageAdapter(),
+    private ipfs: IPFSService | null = getIPFSService(),
+    private auditor: AuditorService = new AuditorService(prisma),
+    private signer: EvidenceSigner | null = getEvidenceSigner()
+  ) {
     super(prisma, 'EVIDENCE_GENERATOR', {
       cacheTTLSeconds: 0, // Don't cache evidence packages
       enableCaching: false,
@@ -25,8 +55,9 @@ export class EvidenceGenerator extends BaseAIService {
 
     this.pdfGenerator = new PDFGenerator();
     this.qrGenerator = new QRGenerator();
-    this.evidenceStoragePath = process.env.EVIDENCE_STORAGE_PATH || '/home/matt/backend/evidence';
-    this.evidenceBaseUrl = process.env.EVIDENCE_BASE_URL || 'http://localhost:3001/verify';
+    this.bundleGenerator = new BundleGenerator();
+    this.evidenceBaseUrl = process.env.EVIDENCE_BASE_URL || 'http://localhost:5173/verify';
+    this.eventService = new EventService(prisma);
   }
 
   /**
@@ -53,52 +84,52 @@ export class EvidenceGenerator extends BaseAIService {
         throw new Error(`Challenge ${data.challengeId} not found`);
       }
 
-      // Fetch events if requested
-      let eventTimeline: any[] = [];
-      if (data.includeTimeline) {
-        eventTimeline = await this.prisma.events.findMany({
-          where: {
-            entityType: 'CHALLENGE',
-            entityId: data.challengeId,
-          },
-          include: {
-            users: {
-              select: { email: true },
-            },
-          },
-          orderBy: { createdAt: 'asc' },
-          take: 50,
-        });
-      }
-
-      // Fetch file artifacts if requested
-      let fileIntegrity: any[] = [];
-      if (data.includeFileHashes) {
-        const files = await this.prisma.file_artifacts.findMany({
-          where: { challengeId: data.challengeId },
-          select: {
-            filename: true,
-            sha256: true,
-          },
-          orderBy: { createdAt: 'asc' },
-          take: 20,
-        });
-
-        fileIntegrity = files.map((f) => ({
-          filename: f.filename,
-          sha256: f.sha256,
-        }));
+      const includeBundle = data.includeBundle ?? false;
+
+      // Full event trail: the PDF shows the start of it, the bundle carries all of it
+      const events =
+        data.includeTimeline || includeBundle
+          ? await this.prisma.events.findMany({
+              where: {
+                entityType: 'CHALLENGE',
+                entityId: data.challengeId,
+              },
+              include: {
+                users: {
+                  select: { email: true },
+                },
+              },
+              orderBy: { sequence: 'asc' },
+            })
+          : [];
+
+      // Every file artifact attached to the challenge
+      const files =
+        data.includeFileHashes || includeBundle
+          ? await this.prisma.file_artifacts.findMany({
+              where: { challengeId: data.challengeId },
+              select: {
+                id: true,
+                filename: true,
+                mime: true,
+                bytes: true,
+                sha256: true,
+                ipfsCid: true,
+                createdAt: true,
+              },
+              orderBy: { createdAt: 'asc' },
+            })
+          : [];
+
+      const unverifiedSections: UnverifiedSection[] = [];
+
+      // Compliance checks come from the auditor, never assumed
+      const compliance = await this.collectComplianceChecks(data.challengeId);
+      const complianceChecks = compliance.checks;
+      if (compliance.unverified) {
+        unverifiedSections.push({ section: 'compliance', reason: compliance.unverified });
       }
 
-      // Fetch compliance data (mock for now - would come from AuditorService)
-      const complianceChecks = [
-        { label: 'KYC/AML verified', passed: true },
-        { label: 'Composition manifest signed', passed: true },
-        { label: 'IP assignments collected', passed: true },
-        { label: 'Payout within tolerance', passed: true },
-        { label: 'Safety checks passed', passed: true },
-      ];
-
       // Fetch ethics audit if requested
       let ethicsInfo: any = undefined;
       if (data.includeAIAnalysis) {
@@ -117,25 +148,27 @@ export class EvidenceGenerator extends BaseAIService {
           };
 
           complianceChecks.push({
-            label: `Ethics audit: ${ethicsInfo.redFlags.length === 0 ? 'PASS' : 'FAIL'} (fairness score: ${ethicsInfo.fairnessScore.toFixed(2)})`,
-            passed: ethicsInfo.redFlags.length === 0,
+            label: `Ethics audit (fairness score: ${ethicsInfo.fairnessScore.toFixed(2)})`,
+            status: ethicsInfo.redFlags.length === 0 ? 'PASS' : 'FAIL',
+          });
+        } else {
+          unverifiedSections.push({
+            section: 'ethics',
+            reason: 'No ethics audit has been run for this challenge',
           });
         }
       }
 
-      // Fetch contribution breakdown (mock for now - would come from actual contribution records)
-      const contributions = [
-        {
-          email: challenge.users_challenges_projectLeaderIdTousers?.email || 'leader@example.com',
-          type: 'CODE',
-          weight: 0.4,
-          payout: parseFloat(challenge.bountyAmount.toString()) * 0.4,
-        },
-      ];
+      // Contribution breakdown from contributions, the manifest and recorded payments
+      const breakdown = await this.buildContributionBreakdown(data.challengeId);
+      const contributions = breakdown.rows;
+      if (breakdown.unverified) {
+        unverifiedSections.push({ section: 'contributions', reason: breakdown.unverified });
+      }
 
-      // Generate temporary package ID for verification URL
-      const tempPackageId = crypto.randomBytes(16).toString('hex');
-      const verificationUrl = `${this.evidenceBaseUrl}/${tempPackageId}`;
+      // The QR code points at the public verify page for this package's own record
+      const packageId = generateId();
+      const verificationUrl = `${this.evidenceBaseUrl}/${packageId}`;
 
       // Generate QR code
       const qrCodeBuffer = await this.qrGenerator.generate(verificationUrl);
@@ -153,15 +186,22 @@ export class EvidenceGenerator extends BaseAIService {
         contributions,
         complianceChecks,
         ethicsInfo,
-        eventTimeline: eventTimeline.map((e) => ({
-          timestamp: e.createdAt,
-          action: e.action,
-          actorEmail: e.users.email,
-        })),
-        fileIntegrity,
+        unverifiedSections,
+        eventTimeline: data.includeTimeline
+          ? events.map((e) => ({
+              timestamp: e.createdAt,
+              action: e.action,
+              actorEmail: e.users.email,
+            }))
+          : [],
+        fileIntegrity: data.includeFileHashes
+          ? files.map((f) => ({ filename: f.filename, sha256: f.sha256 }))
+          : [],
+        fullListsInBundle: includeBundle,
         verificationUrl,
         qrCodeBuffer,
         packageSha256: '', // Will be calculated after PDF generation
+        signingKeyId: this.signer?.keyId ?? null,
         generatedAt: new Date(),
       };
 
@@ -169,38 +209,67 @@ export class EvidenceGenerator extends BaseAIService {
       console.log(`[EvidenceGenerator] Generating PDF for challenge ${data.challengeId}`);
       const pdfBuffer = await this.pdfGenerator.generateAuditReport(pdfData);
 
-      // Calculate SHA256 of PDF
-      const sha256 = crypto.createHash('sha256').update(pdfBuffer).digest('hex');
-
       // Generate filename
       const timestamp = new Date().toISOString().replace(/[:.]/g, '-').substring(0, 19);
       const fileName = `audit_${data.challengeId}_${timestamp}.pdf`;
 
-      // Save PDF to storage
-      const storagePath = path.join(this.evidenceStoragePath, fileName);
-      await fs.writeFile(storagePath, pdfBuffer);
-
-      console.log(`[EvidenceGenerator] Saved PDF to ${storagePath}`);
-
-      // Create EvidencePackage record in database
-      const evidencePackage = await this.prisma.evidence_packages.create({
-        data: {
-          id: generateId(),
-          challengeId: data.challengeId,
-          packageType: data.packageType,
-          fileName,
-          fileSize: pdfBuffer.length,
-          storageKey: storagePath,
-          sha256,
-          includesEvents: data.includeTimeline,
-          includesFiles: data.includeFileHashes,
-          includesSignatures: data.includeSignatures,
-          includesAIAnalysis: data.includeAIAnalysis,
-          verificationUrl: `${this.evidenceBaseUrl}/${tempPackageId}`,
-        },
+      const evidencePackage = await this.storePackage(data, {
+        id: packageId,
+        packageType: data.packageType,
+        fileName,
+        buffer: pdfBuffer,
+        contentType: 'application/pdf',
+        verificationUrl,
       });
+      const sha256 = evidencePackage.sha256;
+
+      // Machine-readable bundle alongside the PDF, stored as its own package
+      let bundle: GeneratedEvidence['bundle'] = null;
+      if (includeBundle) {
+        const [compositionManifest, payoutProposal, ethicsAudit] = await Promise.all([
+          this.prisma.composition_manifests.findUnique({
+            where: { challengeId: data.challengeId },
+          }),
+          this.prisma.payout_proposals.findFirst({
+            where: { challengeId: data.challengeId },
+            orderBy: { createdAt: 'desc' },
+          }),
+          this.prisma.ethics_audits.findFirst({
+            where: { challengeId: data.challengeId },
+            orderBy: { createdAt: 'desc' },
+          }),
+        ]);
+
+        const generated = await this.bundleGenerator.generate({
+          challengeId: data.challengeId,
+          generatedAt: pdfData.generatedAt,
+          pdf: { fileName, buffer: pdfBuffer },
+          events: events.map(({ users, ...event }) => ({ ...event, actorEmail: users.email })),
+          fileArtifacts: files,
+          compositionManifest,
+          payoutProposal,
+          ethicsAudit,
+        });
+
+        const bundlePackage = await this.storePackage(data, {
+          packageType: BUNDLE_PACKAGE_TYPE,
+          fileName: `bundle_${data.challengeId}_${timestamp}.zip`,
+          buffer: generated.buffer,
+          contentType: 'application/zip',
+          verificationUrl: null,
+        });
 
-      console.log(`[EvidenceGenerator] Created EvidencePackage record: ${evidencePackage.id}`);
+        bundle = {
+          packageId: bundlePackage.id,
+          fileName: bundlePackage.fileName,
+          fileSize: bundlePackage.fileSize,
+          sha256: bundlePackage.sha256,
+          ipfsCid: bundlePackage.ipfsCid,
+          signatureKeyId: bundlePackage.signatureKeyId,
+          files: generated.manifest.files.length,
+          missing: generated.manifest.missing,
+        };
+      }
 
       // Count pages (rough estimate based on buffer size)
       const estimatedPages = Math.ceil(pdfBuffer.length / 5000);
@@ -209,11 +278,16 @@ export class EvidenceGenerator extends BaseAIService {
         fileName,
         buffer: pdfBuffer,
         metadata: {
+          packageId: evidencePackage.id,
           pages: estimatedPages,
           generatedAt: new Date().toISOString(),
           verificationUrl: evidencePackage.verificationUrl || verificationUrl,
           sha256,
+          ipfsCid: evidencePackage.ipfsCid,
+          signatureKeyId: evidencePackage.signatureKeyId,
+          unverifiedSections,
         },
+        bundle,
       };
     } catch (error) {
       console.error('[EvidenceGenerator] Error creating audit package:', error);
@@ -223,25 +297,243 @@ export class EvidenceGenerator extends BaseAIService {
     }
   }
 
+  /**
+   * Sign, store, pin and record one evidence file
+   */
+  private async storePackage(
+    data: EvidencePackageData,
+    file: {
+      id?: string;
+      packageType: string;
+      fileName: string;
+      buffer: Buffer;
+      contentType: string;
+      verificationUrl: string | null;
+    }
+  ): Promise<evidence_packages> {
+    const sha256 = crypto.createHash('sha256').update(file.buffer).digest('hex');
+
+    // Detached signature over the exact file bytes
+    const signature = this.signer ? this.signer.sign(file.buffer) : null;
+    if (!signature) {
+      console.warn('[EvidenceGenerator] EVIDENCE_SIGNING_KEY not set; package will be unsigned');
+    }
+
+    // Save to storage
+    const storageKey = `evidence/${file.fileName}`;
+    await this.storage.put(storageKey, file.buffer, file.contentType);
+
+    console.log(`[EvidenceGenerator] Saved ${file.fileName} to ${this.storage.driver} storage`);
+
+    // Publish to IPFS when configured so the pack can be checked independently
+    const pinned = this.ipfs ? await this.ipfs.pin(file.buffer, file.fileName) : null;
+
+    // Create EvidencePackage record in database
+    const evidencePackage = await this.prisma.evidence_packages.create({
+      data: {
+        id: file.id ?? generateId(),
+        challengeId: data.challengeId,
+        packageType: file.packageType,
+        fileName: file.fileName,
+        fileSize: file.buffer.length,
+        storageKey,
+        sha256,
+        includesEvents: data.includeTimeline,
+        includesFiles: data.includeFileHashes,
+        includesSignatures: data.includeSignatures,
+        includesAIAnalysis: data.includeAIAnalysis,
+        verificationUrl: file.verificationUrl,
+        ipfsCid: pinned?.cid,
+        signature: signature?.signature,
+        signatureKeyId: signature?.keyId,
+      },
+    });
+
+    console.log(`[EvidenceGenerator] Created EvidencePackage record: ${evidencePackage.id}`);
+
+    return evidencePackage;
+  }
+
+  /**
+   * Gather compliance checks from the auditor heartbeat and payout validation.
+   * If either cannot run, the section is reported as unverified rather than passed.
+   */
+  private async collectComplianceChecks(
+    challengeId: string
+  ): Promise<{ checks: ComplianceCheck[]; unverified: string | null }> {
+    const checks: ComplianceCheck[] = [];
+    const failures: string[] = [];
+
+    try {
+      const heartbeat = await this.auditor.heartbeat(challengeId);
+      for (const check of heartbeat.checks) {
+        checks.push({
+          label: check.name,
+          status: AUDITOR_STATUS[check.status],
+          details: check.details,
+        });
+      }
+    } catch (error) {
+      failures.push(`compliance heartbeat failed (${this.describeError(error)})`);
+      checks.push({ label: 'Compliance heartbeat', status: 'UNVERIFIED' });
+    }
+
+    try {
+      const validation = await this.auditor.validatePayout(challengeId);
+      for (const violation of validation.violations) {
+        checks.push({ label: 'Payout validation', status: 'FAIL', details: violation });
+      }
+      for (const warning of validation.warnings) {
+        checks.push({ label: 'Payout validation', status: 'WARN', details: warning });
+      }
+      if (validation.ok && validation.warnings.length === 0) {
+        checks.push({
+          label: 'Payout validation',
+          status: 'PASS',
+          details: 'All pre-release checks passed',
+        });
+      }
+    } catch (error) {
+      failures.push(`payout validation failed (${this.describeError(error)})`);
+      checks.push({ label: 'Payout validation', status: 'UNVERIFIED' });
+    }
+
+    return {
+      checks,
+      unverified: failures.length > 0 ? `Could not run: ${failures.join('; ')}` : null,
+    };
+  }
+
+  /**
+   * Build the per-contributor breakdown. Weights come from the composition
+   * manifest, payouts from recorded payments; anything that does not line up
+   * is reported so the section is flagged instead of silently filled in.
+   */
+  private async buildContributionBreakdown(
+    challengeId: string
+  ): Promise<{ rows: ContributionBreakdown[]; unverified: string | null }> {
+    const [contributionRecords, manifest, payments] = await Promise.all([
+      this.prisma.contributions.findMany({
+        where: { challengeId },
+        select: { userId: true, type: true },
+      }),
+      this.prisma.composition_manifests.findUnique({
+        where: { challengeId },
+      }),
+      this.prisma.payments.findMany({
+        where: { challengeId, status: { not: PaymentStatus.FAILED } },
+        select: { userId: true, amount: true, status: true },
+      }),
+    ]);
+
+    const manifestEntries: ManifestEntryDTO[] =
+      manifest && Array.isArray(manifest.entries)
+        ? (manifest.entries as unknown as ManifestEntryDTO[])
+        : [];
+
+    const byContributor = new Map<
+      string,
+      { types: Set<string>; roles: Set<string>; weight: number | null; payout: number | null }
+    >();
+    const rowFor = (userId: string) => {
+      let row = byContributor.get(userId);
+      if (!row) {
+        row = { types: new Set(), roles: new Set(), weight: null, payout: null };
+        byContributor.set(userId, row);
+      }
+      return row;
+    };
+
+    for (const contribution of contributionRecords) {
+      rowFor(contribution.userId).types.add(contribution.type);
+    }
+    for (const entry of manifestEntries) {
+      const row = rowFor(entry.contributorId);
+      row.roles.add(entry.role);
+      row.weight = (row.weight ?? 0) + Number(entry.weight);
+    }
+    for (const payment of payments) {
+      const row = rowFor(payment.userId);
+      row.payout = (row.payout ?? 0) + payment.amount.toNumber();
+    }
+
+    const users = await this.prisma.users.findMany({
+      where: { id: { in: [...byContributor.keys()] } },
+      select: { id: true, email: true },
+    });
+    const emails = new Map(users.map((u) => [u.id, u.email]));
+
+    const rows: ContributionBreakdown[] = [...byContributor.entries()]
+      .map(([userId, row]) => ({
+        email: emails.get(userId) || userId,
+        type: [...(row.roles.size > 0 ? row.roles : row.types)].join(', ') || 'N/A',
+        weight: row.weight,
+        payout: row.payout,
+      }))
+      .sort((a, b) => (b.weight ?? -1) - (a.weight ?? -1) || a.email.localeCompare(b.email));
+
+    const issues: string[] = [];
+    if (byContributor.size === 0) {
+      issues.push('No contributions recorded');
+    }
+    if (!manifest) {
+      issues.push('No composition manifest, so contributor weights are not declared');
+    } else {
+      if (!manifest.signedByLeader) {
+        issues.push('Composition manifest is not signed by the project leader');
+      }
+      const total = manifest.totalDeclared.toNumber();
+      if (Math.abs(total - 1.0) > 0.001) {
+        issues.push(`Manifest weights total ${total}, not 1.0`);
+      }
+      const declared = new Set(manifestEntries.map((e) => e.contributorId));
+      const missing = new Set(
+        contributionRecords.map((c) => c.userId).filter((id) => !declared.has(id))
+      );
+      if (missing.size > 0) {
+        issues.push(`${missing.size} contributors are missing from the manifest`);
+      }
+    }
+    if (payments.length === 0) {
+      issues.push('No payments recorded, so payouts are not final');
+    } else {
+      const pending = payments.filter((p) => p.status !== PaymentStatus.COMPLETED).length;
+      if (pending > 0) {
+        issues.push(`${pending} payments have not completed`);
+      }
+    }
+
+    return { rows, unverified: issues.length > 0 ? issues.join('; ') : null };
+  }
+
+  private describeError(error: unknown): string {
+    return error instanceof Error ? error.message : 'Unknown error';
+  }
+
   /**
    * Verify evidence package integrity
    */
   async verifyPackage(packageId: string): Promise<{
+    packageId: string;
     valid: boolean;
+    fileName?: string;
+    fileExists?: boolean;
+    hashMatches?: boolean;
     challenge?: {
       id: string;
       title: string;
     };
     generatedAt?: Date;
     sha256?: string;
+    ipfsCid?: string | null;
+    ipfsUrl?: string | null;
+    signatureKeyId?: string | null;
+    signatureValid?: boolean | null;
+    revokedAt?: Date | null;
   }> {
     try {
-      const evidencePackage = await this.prisma.evidence_packages.findFirst({
-        where: {
-          verificationUrl: {
-            contains: packageId,
-          },
-        },
+      const evidencePackage = await this.prisma.evidence_packages.findUnique({
+        where: { id: packageId },
         include: {
           challenges: {
             select: {
@@ -253,28 +545,157 @@ export class EvidenceGenerator extends BaseAIService {
       });
 
       if (!evidencePackage) {
-        return { valid: false };
+        return { packageId, valid: false };
       }
 
+      const record = {
+        packageId,
+        fileName: evidencePackage.fileName,
+        challenge: evidencePackage.challenges,
+        generatedAt: evidencePackage.createdAt,
+        sha256: evidencePackage.sha256,
+        ipfsCid: evidencePackage.ipfsCid,
+        ipfsUrl:
+          evidencePackage.ipfsCid && this.ipfs
+            ? this.ipfs.gatewayUrl(evidencePackage.ipfsCid)
+            : null,
+        signatureKeyId: evidencePackage.signatureKeyId,
+        revokedAt: evidencePackage.revokedAt,
+      };
+
       // Read file and verify SHA256
       try {
-        const fileBuffer = await fs.readFile(evidencePackage.storageKey);
+        const fileBuffer = await this.storage.get(evidencePackage.storageKey);
         const calculatedHash = crypto.createHash('sha256').update(fileBuffer).digest('hex');
+        const signature = this.toSignature(evidencePackage);
 
         return {
+          ...record,
           valid: calculatedHash === evidencePackage.sha256,
-          challenge: evidencePackage.challenges,
-          generatedAt: evidencePackage.createdAt,
-          sha256: evidencePackage.sha256,
+          fileExists: true,
+          hashMatches: calculatedHash === evidencePackage.sha256,
+          // null when unsigned or signed with a key this server no longer holds
+          signatureValid:
+            signature && this.signer?.keyId === signature.keyId
+              ? verifyEvidenceSignature(fileBuffer, signature, this.signer.getPublicKey().publicKey)
+                  .valid
+              : null,
         };
       } catch (fileError) {
         console.error('[EvidenceGenerator] Error reading file for verification:', fileError);
-        return { valid: false };
+        return { ...record, valid: false, fileExists: false, hashMatches: false };
       }
     } catch (error) {
       console.error('[EvidenceGenerator] Error verifying package:', error);
-      return { valid: false };
+      return { packageId, valid: false };
+    }
+  }
+
+  /**
+   * Public record of a package for the QR verify page. Reads only the database
+   * row; the visitor compares the hash against their own copy of the file.
+   */
+  async getPublicRecord(packageId: string) {
+    const evidencePackage = await this.prisma.evidence_packages.findUnique({
+      where: { id: packageId },
+      include: {
+        challenges: {
+          select: {
+            id: true,
+            title: true,
+          },
+        },
+      },
+    });
+
+    if (!evidencePackage) {
+      throw new NotFoundError('Evidence package');
+    }
+
+    return {
+      id: evidencePackage.id,
+      packageType: evidencePackage.packageType,
+      fileName: evidencePackage.fileName,
+      fileSize: evidencePackage.fileSize,
+      sha256: evidencePackage.sha256,
+      generatedAt: evidencePackage.createdAt,
+      challenge: evidencePackage.challenges,
+      ipfsCid: evidencePackage.ipfsCid,
+      ipfsUrl:
+        evidencePackage.ipfsCid && this.ipfs ? this.ipfs.gatewayUrl(evidencePackage.ipfsCid) : null,
+      signatureKeyId: evidencePackage.signatureKeyId,
+      revoked: evidencePackage.revokedAt !== null,
+      revokedAt: evidencePackage.revokedAt,
+      revocationReason: evidencePackage.revocationReason,
+    };
+  }
+
+  /**
+   * Revoke a package, e.g. after it was generated from data later found to be wrong.
+   * The file stays downloadable; the public verify page shows it as revoked.
+   */
+  async revokePackage(packageId: string, actorId: string, reason: string) {
+    const trimmedReason = reason?.trim() || '';
+    if (trimmedReason.length < 5) {
+      throw new ValidationError('A revocation reason of at least 5 characters is required');
+    }
+
+    const evidencePackage = await this.prisma.evidence_packages.findUnique({
+      where: { id: packageId },
+    });
+
+    if (!evidencePackage) {
+      throw new NotFoundError('Evidence package');
     }
+
+    if (evidencePackage.revokedAt) {
+      throw new ConflictError('Evidence package is already revoked');
+    }
+
+    const revoked = await this.prisma.evidence_packages.update({
+      where: { id: packageId },
+      data: {
+        revokedAt: new Date(),
+        revokedBy: actorId,
+        revocationReason: trimmedReason,
+      },
+    });
+
+    await this.eventService.emit({
+      actorId,
+      entityType: 'CHALLENGE',
+      entityId: evidencePackage.challengeId,
+      action: 'EVIDENCE_PACKAGE_REVOKED',
+      metadata: {
+        packageId,
+        packageType: evidencePackage.packageType,
+        sha256: evidencePackage.sha256,
+        reason: trimmedReason,
+      },
+    });
+
+    return revoked;
+  }
+
+  /**
+   * Detached signature document for a package, or null if it was generated unsigned
+   */
+  toSignature(evidencePackage: {
+    sha256: string;
+    signature: string | null;
+    signatureKeyId: string | null;
+  }): EvidenceSignature | null {
+    if (!evidencePackage.signature || !evidencePackage.signatureKeyId) {
+      return null;
+    }
+
+    return {
+      version: EVIDENCE_SIGNATURE_VERSION,
+      algorithm: EVIDENCE_SIGNATURE_ALGORITHM,
+      keyId: evidencePackage.signatureKeyId,
+      sha256: evidencePackage.sha256,
+      signature: evidencePackage.signature,
+    };
   }
 
   /**
@@ -291,6 +712,10 @@ export class EvidenceGenerator extends BaseAIService {
         fileSize: true,
         sha256: true,
         verificationUrl: true,
+        ipfsCid: true,
+        signatureKeyId: true,
+        revokedAt: true,
+        revocationReason: true,
         createdAt: true,
         includesEvents: true,
         includesFiles: true,
@@ -0,0 +1,387 @@
+// /src/services/ai/evidence/__tests__/EvidenceGenerator.test.ts
+
+import crypto from 'crypto';
+import { Prisma } from '@prisma/client';
+import JSZip from 'jszip';
+import { EvidenceGenerator } from '../EvidenceGenerator';
+import { PDFGenerator } from '../generators/PDFGenerator';
+import { QRGenerator } from '../generators/QRGenerator';
+import { EvidenceSigner, verifyEvidenceSignature } from '../../../signing';
+import { EventService } from '../../../events/EventService';
+import { ConflictError, ValidationError } from '../../../../types';
+
+describe('EvidenceGenerator', () => {
+  let generator: EvidenceGenerator;
+  let mockPrisma: any;
+  let mockAuditor: any;
+  let mockStorage: any;
+  let generateReport: jest.SpyInstance;
+
+  const challengeId = 'challenge-123';
+
+  const mockChallenge = {
+    id: challengeId,
+    title: 'Test Challenge',
+    bountyAmount: new Prisma.Decimal(1000),
+    status: 'COMPLETED',
+    createdAt: new Date('2026-10-01T00:00:00Z'),
+    users_challenges_projectLeaderIdTousers: { email: 'leader@example.com' },
+    users_challenges_sponsorIdTousers: { email: 'sponsor@example.com' },
+  };
+
+  const signedManifest = {
+    challengeId,
+    signedByLeader: true,
+    totalDeclared: new Prisma.Decimal(1),
+    entries: [
+      { contributorId: 'leader-1', role: 'Lead', weight: 0.6 },
+      { contributorId: 'user-2', role: 'Design', weight: 0.4 },
+    ],
+  };
+
+  const reportData = () => generateReport.mock.calls[0][0];
+
+  beforeEach(() => {
+    mockPrisma = {
+      challenges: { findUnique: jest.fn().mockResolvedValue(mockChallenge) },
+      events: { findMany: jest.fn().mockResolvedValue([]) },
+      file_artifacts: { findMany: jest.fn().mockResolvedValue([]) },
+      ethics_audits: { findFirst: jest.fn().mockResolvedValue(null) },
+      contributions: {
+        findMany: jest.fn().mockResolvedValue([
+          { userId: 'leader-1', type: 'CODE' },
+          { userId: 'user-2', type: 'DESIGN' },
+        ]),
+      },
+      composition_manifests: { findUnique: jest.fn().mockResolvedValue(signedManifest) },
+      payout_proposals: { findFirst: jest.fn().mockResolvedValue({ id: 'proposal-1' }) },
+      payments: {
+        findMany: jest.fn().mockResolvedValue([
+          { userId: 'leader-1', amount: new Prisma.Decimal(600), status: 'COMPLETED' },
+          { userId: 'user-2', amount: new Prisma.Decimal(400), status: 'COMPLETED' },
+        ]),
+      },
+      users: {
+        findMany: jest.fn().mockResolvedValue([
+          { id: 'leader-1', email: 'leader@example.com' },
+          { id: 'user-2', email: 'designer@example.com' },
+        ]),
+      },
+      evidence_packages: {
+        create: jest.fn().mockImplementation(({ data }: any) => Promise.resolve(data)),
+        findUnique: jest.fn(),
+        update: jest
+          .fn()
+          .mockImplementation(({ data }: any) => Promise.resolve({ id: 'package-1', ...data })),
+      },
+    };
+
+    mockAuditor = {
+      heartbeat: jest.fn().mockResolvedValue({
+        overall: 'GREEN',
+        checks: [{ name: 'KYC/AML', status: 'GREEN', details: 'All users verified' }],
+        timestamp: new Date().toISOString(),
+        challengeId,
+      }),
+      validatePayout: jest.fn().mockResolvedValue({ ok: true, violations: [], warnings: [] }),
+    };
+
+    mockStorage = { driver: 'local', put: jest.fn(), get: jest.fn() };
+
+    generateReport = jest
+      .spyOn(PDFGenerator.prototype, 'generateAuditReport')
+      .mockResolvedValue(Buffer.from('%PDF-1.4 test'));
+    jest.spyOn(QRGenerator.prototype, 'generate').mockResolvedValue(Buffer.from('qr'));
+
+    generator = new EvidenceGenerator(mockPrisma, mockStorage, null, mockAuditor);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const createPack = () =>
+    generator.createAuditPack({
+      challengeId,
+      packageType: 'PAYOUT_AUDIT',
+      includeTimeline: false,
+      includeFileHashes: false,
+      includeSignatures: false,
+      includeAIAnalysis: false,
+    });
+
+  it('should build compliance checks from the auditor', async () => {
+    mockAuditor.heartbeat.mockResolvedValue({
+      overall: 'RED',
+      checks: [
+        {
+          name: 'IP Assignments',
+          status: 'RED',
+          details: '1 contributor has not signed',
+          blocksAction: true,
+        },
+      ],
+    });
+    mockAuditor.validatePayout.mockResolvedValue({
+      ok: false,
+      violations: ['Payout proposal not signed by leader'],
+      warnings: [],
+    });
+
+    const evidence = await createPack();
+
+    expect(mockAuditor.heartbeat).toHaveBeenCalledWith(challengeId);
+    expect(mockAuditor.validatePayout).toHaveBeenCalledWith(challengeId);
+    expect(reportData().complianceChecks).toEqual([
+      { label: 'IP Assignments', status: 'FAIL', details: '1 contributor has not signed' },
+      {
+        label: 'Payout validation',
+        status: 'FAIL',
+        details: 'Payout proposal not signed by leader',
+      },
+    ]);
+    expect(evidence.metadata.unverifiedSections).toEqual([]);
+  });
+
+  it('should mark compliance unverified when the auditor cannot run', async () => {
+    mockAuditor.heartbeat.mockRejectedValue(new Error('database unavailable'));
+
+    const evidence = await createPack();
+
+    expect(reportData().complianceChecks).toContainEqual({
+      label: 'Compliance heartbeat',
+      status: 'UNVERIFIED',
+    });
+    expect(evidence.metadata.unverifiedSections).toEqual([
+      {
+        section: 'compliance',
+        reason: 'Could not run: compliance heartbeat failed (database unavailable)',
+      },
+    ]);
+  });
+
+  it('should build the contribution breakdown from the manifest and payments', async () => {
+    await createPack();
+
+    expect(reportData().contributions).toEqual([
+      { email: 'leader@example.com', type: 'Lead', weight: 0.6, payout: 600 },
+      { email: 'designer@example.com', type: 'Design', weight: 0.4, payout: 400 },
+    ]);
+  });
+
+  it('should flag the breakdown when the manifest and payments cannot back it', async () => {
+    mockPrisma.composition_manifests.findUnique.mockResolvedValue(null);
+    mockPrisma.payments.findMany.mockResolvedValue([]);
+
+    const evidence = await createPack();
+
+    expect(reportData().contributions).toEqual([
+      { email: 'designer@example.com', type: 'DESIGN', weight: null, payout: null },
+      { email: 'leader@example.com', type: 'CODE', weight: null, payout: null },
+    ]);
+    expect(evidence.metadata.unverifiedSections).toEqual([
+      {
+        section: 'contributions',
+        reason:
+          'No composition manifest, so contributor weights are not declared; ' +
+          'No payments recorded, so payouts are not final',
+      },
+    ]);
+  });
+
+  it('should flag the ethics section when no audit has been run', async () => {
+    const evidence = await generator.createAuditPack({
+      challengeId,
+      packageType: 'PAYOUT_AUDIT',
+      includeTimeline: false,
+      includeFileHashes: false,
+      includeSignatures: false,
+      includeAIAnalysis: true,
+    });
+
+    expect(reportData().ethicsInfo).toBeUndefined();
+    expect(evidence.metadata.unverifiedSections).toContainEqual({
+      section: 'ethics',
+      reason: 'No ethics audit has been run for this challenge',
+    });
+  });
+
+  it('should sign the PDF and store a detached signature', async () => {
+    const signer = new EvidenceSigner(crypto.generateKeyPairSync('ed25519').privateKey);
+    generator = new EvidenceGenerator(mockPrisma, mockStorage, null, mockAuditor, signer);
+
+    const evidence = await createPack();
+
+    const stored = mockPrisma.evidence_packages.create.mock.calls[0][0].data;
+    expect(stored.signatureKeyId).toBe(signer.keyId);
+    expect(reportData().signingKeyId).toBe(signer.keyId);
+
+    const signature = generator.toSignature(stored)!;
+    expect(
+      verifyEvidenceSignature(evidence.buffer, signature, signer.getPublicKey().publicKey).valid
+    ).toBe(true);
+  });
+
+  describe('data bundle', () => {
+    const events = Array.from({ length: 60 }, (_, i) => ({
+      id: `event-${i}`,
+      sequence: i + 1,
+      action: 'CHALLENGE_UPDATED',
+      createdAt: new Date('2026-10-01T00:00:00Z'),
+      users: { email: 'leader@example.com' },
+    }));
+
+    const createBundle = () =>
+      generator.createAuditPack({
+        challengeId,
+        packageType: 'PAYOUT_AUDIT',
+        includeTimeline: true,
+        includeFileHashes: true,
+        includeSignatures: false,
+        includeAIAnalysis: false,
+        includeBundle: true,
+      });
+
+    beforeEach(() => {
+      mockPrisma.events.findMany.mockResolvedValue(events);
+      mockPrisma.file_artifacts.findMany.mockResolvedValue([
+        { id: 'file-1', filename: 'design.png', sha256: 'a'.repeat(64) },
+      ]);
+    });
+
+    it('should read the whole event trail without a cap', async () => {
+      await createBundle();
+
+      expect(mockPrisma.events.findMany.mock.calls[0][0].take).toBeUndefined();
+      expect(mockPrisma.file_artifacts.findMany.mock.calls[0][0].take).toBeUndefined();
+      expect(reportData().eventTimeline).toHaveLength(60);
+    });
+
+    it('should store a ZIP with JSON Lines events and a manifest of SHA-256 sums', async () => {
+      const evidence = await createBundle();
+
+      const stored = mockPrisma.evidence_packages.create.mock.calls.map(([args]: any) => args.data);
+      expect(stored.map((p: any) => p.packageType)).toEqual(['PAYOUT_AUDIT', 'DATA_BUNDLE']);
+
+      const zipBuffer = mockStorage.put.mock.calls[1][1];
+      expect(mockStorage.put.mock.calls[1][2]).toBe('application/zip');
+      expect(evidence.bundle).toMatchObject({
+        sha256: crypto.createHash('sha256').update(zipBuffer).digest('hex'),
+        missing: ['ethics_audit.json'],
+      });
+
+      const zip = await JSZip.loadAsync(zipBuffer);
+      const manifest = JSON.parse(await zip.file('manifest.json')!.async('string'));
+      expect(manifest.files.map((f: any) => f.path)).toEqual([
+        evidence.fileName,
+        'events.jsonl',
+        'file_artifacts.json',
+        'composition_manifest.json',
+        'payout_proposal.json',
+      ]);
+
+      for (const entry of manifest.files) {
+        const content = await zip.file(entry.path)!.async('nodebuffer');
+        expect(crypto.createHash('sha256').update(content).digest('hex')).toBe(entry.sha256);
+      }
+
+      const lines = (await zip.file('events.jsonl')!.async('string')).trim().split('\n');
+      expect(lines).toHaveLength(60);
+      expect(JSON.parse(lines[59])).toMatchObject({
+        id: 'event-59',
+        sequence: 60,
+        actorEmail: 'leader@example.com',
+      });
+    });
+  });
+
+  it('should point the QR code at the stored package id', async () => {
+    const qr = jest.spyOn(QRGenerator.prototype, 'generate');
+
+    const evidence = await createPack();
+
+    const stored = mockPrisma.evidence_packages.create.mock.calls[0][0].data;
+    expect(evidence.metadata.packageId).toBe(stored.id);
+    expect(stored.verificationUrl).toMatch(new RegExp(`/verify/${stored.id}$`));
+    expect(qr).toHaveBeenCalledWith(stored.verificationUrl);
+  });
+
+  describe('revocation', () => {
+    const storedPackage = {
+      id: 'package-1',
+      challengeId,
+      packageType: 'PAYOUT_AUDIT',
+      fileName: 'audit.pdf',
+      fileSize: 1024,
+      sha256: 'c'.repeat(64),
+      ipfsCid: null,
+      signatureKeyId: null,
+      revokedAt: null,
+      revocationReason: null,
+      createdAt: new Date('2026-10-02T00:00:00Z'),
+      challenges: { id: challengeId, title: 'Test Challenge' },
+    };
+
+    let emit: jest.SpyInstance;
+
+    beforeEach(() => {
+      emit = jest.spyOn(EventService.prototype, 'emit').mockResolvedValue(undefined as any);
+      mockPrisma.evidence_packages.findUnique.mockResolvedValue(storedPackage);
+    });
+
+    it('should revoke with a reason and log the event', async () => {
+      await generator.revokePackage('package-1', 'admin-1', '  Manifest was amended  ');
+
+      expect(mockPrisma.evidence_packages.update).toHaveBeenCalledWith({
+        where: { id: 'package-1' },
+        data: expect.objectContaining({
+          revokedBy: 'admin-1',
+          revocationReason: 'Manifest was amended',
+        }),
+      });
+      expect(emit).toHaveBeenCalledWith(
+        expect.objectContaining({
+          actorId: 'admin-1',
+          entityType: 'CHALLENGE',
+          entityId: challengeId,
+          action: 'EVIDENCE_PACKAGE_REVOKED',
+        })
+      );
+    });
+
+    it('should require a reason and refuse to revoke twice', async () => {
+      await expect(generator.revokePackage('package-1', 'admin-1', ' ')).rejects.toThrow(
+        ValidationError
+      );
+
+      mockPrisma.evidence_packages.findUnique.mockResolvedValue({
+        ...storedPackage,
+        revokedAt: new Date(),
+      });
+      await expect(
+        generator.revokePackage('package-1', 'admin-1', 'Manifest was amended')
+      ).rejects.toThrow(ConflictError);
+      expect(emit).not.toHaveBeenCalled();
+    });
+
+    it('should expose revocation status on the public record', async () => {
+      const revokedAt = new Date('2026-10-03T00:00:00Z');
+      mockPrisma.evidence_packages.findUnique.mockResolvedValue({
+        ...storedPackage,
+        revokedAt,
+        revocationReason: 'Manifest was amended',
+      });
+
+      const record = await generator.getPublicRecord('package-1');
+
+      expect(record).toMatchObject({
+        id: 'package-1',
+        sha256: storedPackage.sha256,
+        challenge: { title: 'Test Challenge' },
+        revoked: true,
+        revokedAt,
+        revocationReason: 'Manifest was amended',
+      });
+    });
+  });
+});
@@ -0,0 +1,87 @@
+// /src/services/ai/evidence/generators/BundleGenerator.ts
+
+import crypto from 'crypto';
+import JSZip from 'jszip';
+
+export const BUNDLE_MANIFEST_VERSION = 1;
+
+interface BundleData {
+  challengeId: string;
+  generatedAt: Date;
+  pdf: { fileName: string; buffer: Buffer };
+  events: object[];
+  fileArtifacts: object[];
+  compositionManifest: object | null;
+  payoutProposal: object | null;
+  ethicsAudit: object | null;
+}
+
+export interface BundleManifest {
+  version: number;
+  challengeId: string;
+  generatedAt: string;
+  files: { path: string; sha256: string; bytes: number }[];
+  missing: string[]; // records that did not exist when the bundle was built
+}
+
+/**
+ * Builds the machine-readable evidence bundle: a ZIP of JSON / JSON Lines
+ * files plus the PDF report, with a top-level manifest.json listing the
+ * SHA-256 of every other file so auditors can check each one on its own.
+ */
+export class BundleGenerator {
+  async generate(data: BundleData): Promise<{ buffer: Buffer; manifest: BundleManifest }> {
+    const entries: [string, Buffer | null][] = [
+      [data.pdf.fileName, data.pdf.buffer],
+      ['events.jsonl', this.toJsonLines(data.events)],
+      ['file_artifacts.json', this.toJson(data.fileArtifacts)],
+      [
+        'composition_manifest.json',
+        data.compositionManifest && this.toJson(data.compositionManifest),
+      ],
+      ['payout_proposal.json', data.payoutProposal && this.toJson(data.payoutProposal)],
+      ['ethics_audit.json', data.ethicsAudit && this.toJson(data.ethicsAudit)],
+    ];
+
+    const zip = new JSZip();
+    const manifest: BundleManifest = {
+      version: BUNDLE_MANIFEST_VERSION,
+      challengeId: data.challengeId,
+      generatedAt: data.generatedAt.toISOString(),
+      files: [],
+      missing: [],
+    };
+
+    for (const [path, content] of entries) {
+      if (!content) {
+        manifest.missing.push(path);
+        continue;
+      }
+
+      zip.file(path, content, { date: data.generatedAt });
+      manifest.files.push({
+        path,
+        sha256: crypto.createHash('sha256').update(content).digest('hex'),
+        bytes: content.length,
+      });
+    }
+
+    zip.file('manifest.json', this.toJson(manifest), { date: data.generatedAt });
+
+    const buffer = await zip.generateAsync({
+      type: 'nodebuffer',
+      compression: 'DEFLATE',
+      compressionOptions: { level: 6 },
+    });
+
+    return { buffer, manifest };
+  }
+
+  private toJson(value: object): Buffer {
+    return Buffer.from(`${JSON.stringify(value, null, 2)}\n`, 'utf8');
+  }
+
+  private toJsonLines(rows: object[]): Buffer {
+    return Buffer.from(rows.map((row) => `${JSON.stringify(row)}\n`).join(''), 'utf8');
+  }
+}
@@ -1,6 +1,7 @@
 // /src/services/ai/evidence/generators/PDFGenerator.ts
 
 import PDFDocument from 'pdfkit';
+import { EvidenceSection, UnverifiedSection } from '../../types/evidence.types';
 
 interface ChallengeInfo {
   id: string;
@@ -11,16 +12,16 @@ interface ChallengeInfo {
   createdAt: Date;
 }
 
-interface ContributionBreakdown {
+export interface ContributionBreakdown {
   email: string;
   type: string;
-  weight: number;
-  payout: number;
+  weight: number | null; // null when the contributor is not in the manifest
+  payout: number | null; // null when no payment has been recorded
 }
 
-interface ComplianceCheck {
+export interface ComplianceCheck {
   label: string;
-  passed: boolean;
+  status: 'PASS' | 'WARN' | 'FAIL' | 'UNVERIFIED';
   details?: string;
 }
 
@@ -48,14 +49,23 @@ interface AuditReportData {
   contributions: ContributionBreakdown[];
   complianceChecks: ComplianceCheck[];
   ethicsInfo?: EthicsInfo;
+  unverifiedSections: UnverifiedSection[];
   eventTimeline: EventTimelineEntry[];
   fileIntegrity: FileIntegrityEntry[];
+  fullListsInBundle: boolean;
   verificationUrl: string;
   qrCodeBuffer: Buffer;
   packageSha256: string;
+  signingKeyId: string | null;
   generatedAt: Date;
 }
 
+const SECTION_TITLES: Record<EvidenceSection, string> = {
+  compliance: 'COMPLIANCE CHECKS',
+  contributions: 'CONTRIBUTION BREAKDOWN',
+  ethics: 'ETHICS ANALYSIS',
+};
+
 export class PDFGenerator {
   /**
    * Generate professional audit report PDF
@@ -153,9 +163,30 @@ export class PDFGenerator {
 
         yPosition += 20;
 
+        // Unverified sections are called out before any of the detail
+        if (data.unverifiedSections.length > 0) {
+          this.drawSectionHeader(doc, 'UNVERIFIED SECTIONS', yPosition, colors);
+          yPosition += 25;
+
+          this.drawDivider(doc, yPosition, colors);
+          yPosition += 15;
+
+          data.unverifiedSections.forEach((item) => {
+            const text = `${SECTION_TITLES[item.section]}: ${item.reason}`;
+            doc.fontSize(9).fillColor(colors.warning).font('Helvetica').text(text, 50, yPosition, { width: 500 });
+            yPosition += doc.heightOfString(text, { width: 500 }) + 6;
+          });
+
+          yPosition += 20;
+        }
+
+        const unverified = new Set(data.unverifiedSections.map((item) => item.section));
+        const sectionTitle = (section: EvidenceSection) =>
+          unverified.has(section) ? `${SECTION_TITLES[section]} (UNVERIFIED)` : SECTION_TITLES[section];
+
         // Contribution Breakdown
         if (data.contributions.length > 0) {
-          this.drawSectionHeader(doc, 'CONTRIBUTION BREAKDOWN', yPosition, colors);
+          this.drawSectionHeader(doc, sectionTitle('contributions'), yPosition, colors);
           yPosition += 25;
 
           this.drawDivider(doc, yPosition, colors);
@@ -177,8 +208,8 @@ export class PDFGenerator {
           data.contributions.forEach((contrib) => {
             doc.text(contrib.email, 50, yPosition, { width: 165, ellipsis: true });
             doc.text(contrib.type, 220, yPosition);
-            doc.text(`${(contrib.weight * 100).toFixed(1)}%`, 320, yPosition);
-            doc.text(contrib.payout.toFixed(2), 420, yPosition);
+            doc.text(contrib.weight === null ? 'N/A' : `${(contrib.weight * 100).toFixed(1)}%`, 320, yPosition);
+            doc.text(contrib.payout === null ? 'Not paid' : contrib.payout.toFixed(2), 420, yPosition);
 
             yPosition += 18;
 
@@ -198,25 +229,30 @@ export class PDFGenerator {
             yPosition = 50;
           }
 
-          this.drawSectionHeader(doc, 'COMPLIANCE CHECKS', yPosition, colors);
+          this.drawSectionHeader(doc, sectionTitle('compliance'), yPosition, colors);
           yPosition += 25;
 
           this.drawDivider(doc, yPosition, colors);
           yPosition += 15;
 
           data.complianceChecks.forEach((check) => {
-            const checkmark = check.passed ? '✓' : '✗';
-            const checkColor = check.passed ? colors.success : colors.error;
+            const { mark, color } = {
+              PASS: { mark: '✓', color: colors.success },
+              WARN: { mark: '!', color: colors.warning },
+              FAIL: { mark: '✗', color: colors.error },
+              UNVERIFIED: { mark: '?', color: colors.warning },
+            }[check.status];
+            const text = check.details ? `${check.label}: ${check.details}` : check.label;
 
-            doc.fontSize(10).fillColor(checkColor).font('Helvetica-Bold').text(checkmark, 50, yPosition);
+            doc.fontSize(10).fillColor(color).font('Helvetica-Bold').text(mark, 50, yPosition);
 
             doc
               .fontSize(10)
               .fillColor(colors.text)
               .font('Helvetica')
-              .text(check.label, 70, yPosition, { width: 480 });
+              .text(text, 70, yPosition, { width: 480 });
 
-            yPosition += 18;
+            yPosition += Math.max(18, doc.heightOfString(text, { width: 480 }) + 4);
 
             if (yPosition > 720) {
               doc.addPage();
@@ -234,7 +270,7 @@ export class PDFGenerator {
             yPosition = 50;
           }
 
-          this.drawSectionHeader(doc, 'ETHICS ANALYSIS', yPosition, colors);
+          this.drawSectionHeader(doc, sectionTitle('ethics'), yPosition, colors);
           yPosition += 25;
 
           this.drawDivider(doc, yPosition, colors);
@@ -326,6 +362,7 @@ export class PDFGenerator {
             }
           });
 
+          yPosition = this.drawOverflowNote(doc, data.eventTimeline.length, data.fullListsInBundle, yPosition, colors);
           yPosition += 20;
         }
 
@@ -362,6 +399,7 @@ export class PDFGenerator {
             }
           });
 
+          yPosition = this.drawOverflowNote(doc, data.fileIntegrity.length, data.fullListsInBundle, yPosition, colors);
           yPosition += 20;
         }
 
@@ -415,18 +453,18 @@ export class PDFGenerator {
         this.drawDivider(doc, yPosition, colors);
         yPosition += 15;
 
+        const footerText = data.signingKeyId
+          ? `This document carries a detached Ed25519 signature (key ${data.signingKeyId}) and is tamper-evident. ` +
+            'The public key is published at /.well-known/evidence-signing-key.json. Verify authenticity at the URL above or scan the QR code.'
+          : 'This document is not signed. Verify its SHA-256 hash at the URL above or scan the QR code.';
+
         doc
           .fontSize(8)
           .fillColor(colors.lightText)
           .font('Helvetica-Oblique')
-          .text(
-            'This document is cryptographically signed and tamper-evident. Verify authenticity at the URL above or scan the QR code.',
-            50,
-            yPosition,
-            { align: 'center', width: 500 }
-          );
+          .text(footerText, 50, yPosition, { align: 'center', width: 500 });
 
-        yPosition += 20;
+        yPosition += doc.heightOfString(footerText, { width: 500 }) + 8;
 
         doc
           .fontSize(8)
@@ -444,6 +482,25 @@ export class PDFGenerator {
     });
   }
 
+  /**
+   * Lists are cut at 10 rows in the PDF; say how many were left out and where to find them
+   */
+  private drawOverflowNote(
+    doc: PDFKit.PDFDocument,
+    total: number,
+    inBundle: boolean,
+    y: number,
+    colors: { lightText: string }
+  ): number {
+    if (total <= 10) {
+      return y;
+    }
+
+    const note = `+ ${total - 10} more not shown${inBundle ? '; the full list is in the data bundle' : ''}`;
+    doc.fontSize(8).fillColor(colors.lightText).font('Helvetica-Oblique').text(note, 50, y);
+    return y + 15;
+  }
+
   private drawSectionHeader(doc: PDFKit.PDFDocument, title: string, y: number, colors: any): void {
     doc.fontSize(14).fillColor(colors.primary).font('Helvetica-Bold').text(title, 50, y);
   }
@@ -0,0 +1,97 @@
+// /src/services/ai/safety/AnalyzerRegistry.ts
+
+import { env, EnvConfig } from '../../../config/env';
+import { EscalationPolicy, SafetyAnalyzer } from '../types/safety.types';
+import { LocalAnalyzer } from './analyzers/LocalAnalyzer';
+import { OpenAIAnalyzer } from './analyzers/OpenAIAnalyzer';
+import { HttpModerationAnalyzer } from './analyzers/HttpModerationAnalyzer';
+import { DEFAULT_ESCALATION_POLICY, DEFAULT_POLICY_KEY, parseEscalationPolicies } from './policies';
+
+/**
+ * AnalyzerRegistry - Named content analyzers plus the escalation policy per entity type
+ *
+ * Business Rules:
+ * - Analyzer names are unique; registering the same name twice is a mistake
+ * - Policies are looked up by entity type, then `default`, then the built-in default
+ * - Every analyzer a policy references must be registered, checked when the policy is set
+ */
+export class AnalyzerRegistry {
+  private analyzers = new Map<string, SafetyAnalyzer>();
+  private policies = new Map<string, EscalationPolicy>();
+
+  register(analyzer: SafetyAnalyzer): this {
+    if (this.analyzers.has(analyzer.name)) {
+      throw new Error(`Safety analyzer already registered: ${analyzer.name}`);
+    }
+    this.analyzers.set(analyzer.name, analyzer);
+    return this;
+  }
+
+  get(name: string): SafetyAnalyzer {
+    const analyzer = this.analyzers.get(name);
+    if (!analyzer) {
+      throw new Error(`Unknown safety analyzer: ${name}`);
+    }
+    return analyzer;
+  }
+
+  names(): string[] {
+    return [...this.analyzers.keys()];
+  }
+
+  /**
+   * Set the policy for an entity type (or `default`), filling gaps from the default policy
+   */
+  setPolicy(entityType: string, policy: Partial<EscalationPolicy>): this {
+    const base = this.policies.get(DEFAULT_POLICY_KEY) || DEFAULT_ESCALATION_POLICY;
+    const resolved: EscalationPolicy = { ...base, ...policy };
+
+    for (const name of [resolved.primary, ...resolved.escalateTo]) {
+      this.get(name);
+    }
+
+    this.policies.set(entityType, resolved);
+    return this;
+  }
+
+  policyFor(entityType: string): EscalationPolicy {
+    return (
+      this.policies.get(entityType) ||
+      this.policies.get(DEFAULT_POLICY_KEY) ||
+      DEFAULT_ESCALATION_POLICY
+    );
+  }
+}
+
+/**
+ * Build the registry from the SAFETY_* environment settings: the local and
+ * OpenAI analyzers are always registered, the HTTP adapter when its URL is set
+ */
+export const createAnalyzerRegistry = (config: EnvConfig = env): AnalyzerRegistry => {
+  const registry = new AnalyzerRegistry()
+    .register(new LocalAnalyzer())
+    .register(new OpenAIAnalyzer());
+
+  if (config.SAFETY_HTTP_MODERATION_URL) {
+    registry.register(
+      new HttpModerationAnalyzer({
+        url: config.SAFETY_HTTP_MODERATION_URL,
+        apiToken: config.SAFETY_HTTP_MODERATION_TOKEN,
+      })
+    );
+  }
+
+  const policies = parseEscalationPolicies(config.SAFETY_ESCALATION_POLICIES);
+
+  // The default goes first so entity-type policies inherit from it
+  if (policies[DEFAULT_POLICY_KEY]) {
+    registry.setPolicy(DEFAULT_POLICY_KEY, policies[DEFAULT_POLICY_KEY]);
+  }
+  for (const [entityType, policy] of Object.entries(policies)) {
+    if (entityType !== DEFAULT_POLICY_KEY) {
+      registry.setPolicy(entityType, policy);
+    }
+  }
+
+  return registry;
+};
@@ -1,113 +1,283 @@
 // /src/services/ai/safety/SafetyService.ts
 
-import { PrismaClient } from '@prisma/client';
+import { Prisma, PrismaClient } from '@prisma/client';
 import { BaseAIService } from '../base/BaseAIService';
-import { LocalAnalyzer } from './analyzers/LocalAnalyzer';
-import { OpenAIAnalyzer } from './analyzers/OpenAIAnalyzer';
-import { SafetyAnalysisResult, SafetyCategory } from '../types/safety.types';
+import { AnalyzerRegistry, createAnalyzerRegistry } from './AnalyzerRegistry';
+import { resolveThresholds } from './policies';
+import {
+  AnalyzerScores,
+  EscalationPolicy,
+  ModerationStatus,
+  SafetyAnalysisResult,
+  SafetyAnalyzer,
+  SafetyCategory,
+  SafetyModerationInput,
+  SafetyThresholds,
+} from '../types/safety.types';
 import { generateId } from '../../../utils/idGenerator';
+import { SYSTEM_USER_ID } from '../../../config/systemActor';
+import { NotFoundError, ValidationError } from '../../../types';
 
+/**
+ * SafetyService - Content moderation through registered analyzers
+ *
+ * Business Rules:
+ * - The entity type's escalation policy picks the primary analyzer and the
+ *   analyzers asked for a second opinion (see AnalyzerRegistry)
+ * - Clear-cut primary results are final; ambiguous ones are escalated unless
+ *   the policy says otherwise
+ * - If every escalation analyzer fails, the primary result is used with reduced
+ *   confidence and is never auto-blocked
+ * - Every analyzer call, the primary one included, is bounded by the policy's timeoutMs
+ * - Thresholds come from the challenge when it overrides them, else the defaults
+ */
 export class SafetyService extends BaseAIService {
-  private localAnalyzer: LocalAnalyzer;
-  private apiAnalyzer: OpenAIAnalyzer;
-
-  constructor(prisma: PrismaClient) {
+  constructor(
+    prisma: PrismaClient,
+    private registry: AnalyzerRegistry = createAnalyzerRegistry()
+  ) {
     super(prisma, 'SAFETY', {
       cacheTTLSeconds: 604800, // 7 days for safety checks
       enableCaching: true,
     });
-
-    this.localAnalyzer = new LocalAnalyzer();
-    this.apiAnalyzer = new OpenAIAnalyzer();
   }
 
   /**
    * Analyze content for safety issues
-   * Uses local analysis first, falls back to API for ambiguous cases
+   * Uses the primary analyzer first, escalates ambiguous cases per policy
    */
-  async analyzeContent(params: {
-    content: string;
-    entityType: string;
-    entityId: string;
-    authorId: string;
-  }): Promise<SafetyAnalysisResult> {
+  async analyzeContent(params: SafetyModerationInput): Promise<SafetyAnalysisResult> {
     const inputHash = this.hashInput(params);
 
     // Check cache
     const cached = await this.checkCache<SafetyAnalysisResult>(inputHash);
     if (cached) return cached;
 
-    // Step 1: Local analysis (fast, private)
-    const localResult = await this.localAnalyzer.analyze(params.content);
+    const policy = this.registry.policyFor(params.entityType);
+
+    // Step 1: Primary analysis (local by default: fast, private)
+    const primary = this.registry.get(policy.primary);
+    const primaryResult = await this.withTimeout(primary.analyze(params.content), policy.timeoutMs);
+    const thresholds = await this.getThresholds(
+      params.challengeId,
+      primaryResult.language?.thresholds
+    );
 
-    // Step 2: If high confidence OR clearly safe/harmful, skip API
-    if (localResult.confidence > 0.85 || localResult.overallScore < 0.1 || localResult.overallScore > 0.9) {
+    // Step 2: If high confidence OR clearly safe/harmful, skip escalation
+    if (!this.shouldEscalate(policy, primaryResult, thresholds)) {
       const result: SafetyAnalysisResult = {
-        ...localResult,
-        detectionMethod: 'LOCAL',
-        flagged: localResult.overallScore > 0.4, // More sensitive threshold
-        autoBlocked: localResult.overallScore > 0.9,
+        ...primaryResult,
+        detectionMethod: primary.kind,
+        flagged: primaryResult.overallScore > thresholds.flagAbove,
+        autoBlocked: primaryResult.overallScore > thresholds.autoBlockAbove,
+        analyzers: [primary.name],
       };
 
       // Store in database
       await this.storeResult(params, result);
 
       // Cache result
-      await this.setCache(inputHash, result, localResult.confidence);
+      await this.setCache(inputHash, result, primaryResult.confidence);
 
       return result;
     }
 
-    // Step 3: Ambiguous case - use API for second opinion
-    try {
-      const apiResult = await this.withTimeout(
-        this.apiAnalyzer.analyze(params.content),
-        3000 // 3s timeout
-      );
+    // Step 3: Ambiguous case - ask for a second opinion
+    const second = await this.escalate(policy, params.content);
 
+    if (second) {
       const result: SafetyAnalysisResult = {
-        overallScore: (localResult.overallScore + apiResult.overallScore) / 2,
-        categories: this.mergeCategories(localResult.categories, apiResult.categories),
-        confidence: Math.min(localResult.confidence, apiResult.confidence),
-        detectionMethod: 'LOCAL+API',
-        flagged: apiResult.overallScore > 0.4, // More sensitive threshold
-        autoBlocked: apiResult.overallScore > 0.9,
+        overallScore: (primaryResult.overallScore + second.scores.overallScore) / 2,
+        categories: this.mergeCategories(primaryResult.categories, second.scores.categories),
+        confidence: Math.min(primaryResult.confidence, second.scores.confidence),
+        detectionMethod: this.detectionMethod(primary, second.analyzer),
+        flagged: second.scores.overallScore > thresholds.flagAbove,
+        autoBlocked: second.scores.overallScore > thresholds.autoBlockAbove,
+        analyzers: [primary.name, second.analyzer.name],
+        language: primaryResult.language,
       };
 
       await this.storeResult(params, result);
       await this.setCache(inputHash, result, result.confidence);
 
       return result;
+    }
+
+    // Escalation failed - use primary result with lower confidence
+    const result: SafetyAnalysisResult = {
+      ...primaryResult,
+      confidence: primaryResult.confidence * 0.8,
+      detectionMethod: primary.kind,
+      flagged: primaryResult.overallScore > thresholds.fallbackFlagAbove,
+      autoBlocked: false, // Don't auto-block without a second opinion
+      analyzers: [primary.name],
+    };
+
+    await this.storeResult(params, result);
+    return result;
+  }
+
+  /**
+   * Thresholds in effect for a challenge (defaults when it has no overrides)
+   * - Language overrides from the primary analyzer apply over the defaults
+   * - A challenge's overrides win over the language's; if the two conflict,
+   *   the challenge's apply over the plain defaults, as they were validated
+   */
+  async getThresholds(
+    challengeId?: string,
+    languageOverrides?: Partial<SafetyThresholds>
+  ): Promise<SafetyThresholds> {
+    const base = resolveThresholds(languageOverrides ?? null);
+    if (!challengeId) return base;
+
+    const challenge = await this.prisma.challenges.findUnique({
+      where: { id: challengeId },
+      select: { moderationThresholds: true },
+    });
+
+    const overrides = challenge?.moderationThresholds ?? null;
+    try {
+      return resolveThresholds(overrides, base);
+    } catch {
+      return resolveThresholds(overrides);
+    }
+  }
+
+  /**
+   * Override some or all thresholds for a challenge; null clears the overrides
+   */
+  async setChallengeThresholds(
+    challengeId: string,
+    overrides: Partial<SafetyThresholds> | null
+  ): Promise<SafetyThresholds> {
+    let resolved: SafetyThresholds;
+    try {
+      resolved = resolveThresholds(overrides);
     } catch (error) {
-      // API failed - use local result with lower confidence
-      const result: SafetyAnalysisResult = {
-        ...localResult,
-        confidence: localResult.confidence * 0.8,
-        detectionMethod: 'LOCAL',
-        flagged: localResult.overallScore > 0.5, // Higher threshold due to uncertainty
-        autoBlocked: false, // Don't auto-block without API confirmation
-      };
+      throw new ValidationError((error as Error).message);
+    }
 
-      await this.storeResult(params, result);
-      return result;
+    const challenge = await this.prisma.challenges.findUnique({
+      where: { id: challengeId },
+      select: { id: true },
+    });
+
+    if (!challenge) {
+      throw new NotFoundError('Challenge');
     }
+
+    await this.prisma.challenges.update({
+      where: { id: challengeId },
+      data: {
+        moderationThresholds: overrides ? (overrides as Prisma.InputJsonValue) : Prisma.DbNull,
+        updatedAt: new Date(),
+      },
+    });
+
+    return resolved;
   }
 
   /**
    * Auto-flag content and create incident if needed
    */
-  async moderateAndFlag(params: {
-    content: string;
-    entityType: string;
-    entityId: string;
-    authorId: string;
-  }): Promise<{ blocked: boolean; incidentId?: string }> {
+  async moderateAndFlag(
+    params: SafetyModerationInput
+  ): Promise<{ blocked: boolean; incidentId?: string }> {
     const analysis = await this.analyzeContent(params);
 
     if (!analysis.flagged) {
       return { blocked: false };
     }
 
+    const incidentId = await this.raiseIncident(params, analysis);
+
+    return {
+      blocked: analysis.autoBlocked,
+      incidentId,
+    };
+  }
+
+  /**
+   * Moderate user-generated text as it is written, before it is stored.
+   * Auto-blocked content is QUARANTINED, other flagged content is FLAGGED.
+   * Never throws: if analysis fails the content is stored as FLAGGED with an
+   * incident asking for manual review, so an analyzer outage neither stops
+   * people contributing nor lets unchecked content through as CLEAR.
+   * A failed incident does not undo a quarantine.
+   */
+  async moderateOnWrite(
+    params: SafetyModerationInput
+  ): Promise<{ moderationStatus: ModerationStatus; incidentId?: string }> {
+    let analysis: SafetyAnalysisResult;
+    try {
+      analysis = await this.analyzeContent(params);
+    } catch (error) {
+      console.error(
+        `[${this.serviceName}] Moderation failed for ${params.entityType} ${params.entityId}:`,
+        error
+      );
+      return this.holdForReview(params);
+    }
+
+    if (!analysis.flagged) {
+      return { moderationStatus: 'CLEAR' };
+    }
+
+    const moderationStatus: ModerationStatus = analysis.autoBlocked ? 'QUARANTINED' : 'FLAGGED';
+
+    try {
+      const incidentId = await this.raiseIncident(params, analysis);
+      return { moderationStatus, incidentId };
+    } catch (error) {
+      console.error(
+        `[${this.serviceName}] Could not raise incident for ${params.entityType} ${params.entityId}:`,
+        error
+      );
+      return { moderationStatus };
+    }
+  }
+
+  /**
+   * Content that could not be analysed is FLAGGED and queued for a moderator
+   */
+  private async holdForReview(
+    params: SafetyModerationInput
+  ): Promise<{ moderationStatus: ModerationStatus; incidentId?: string }> {
+    try {
+      const incident = await this.prisma.safety_incidents.create({
+        data: {
+          id: generateId(),
+          challengeId: params.challengeId,
+          raisedById: SYSTEM_USER_ID,
+          status: 'OPEN',
+          category: 'OTHER',
+          severity: 1,
+          description: `Automated moderation failed for ${params.entityType} ${params.entityId}; needs manual review`,
+          evidenceEventIds: [],
+          aiDetected: false,
+          entityType: params.entityType,
+          entityId: params.entityId,
+          authorId: params.authorId,
+        },
+      });
+      return { moderationStatus: 'FLAGGED', incidentId: incident.id };
+    } catch (error) {
+      console.error(
+        `[${this.serviceName}] Could not raise review incident for ${params.entityType} ${params.entityId}:`,
+        error
+      );
+      return { moderationStatus: 'FLAGGED' };
+    }
+  }
+
+  /**
+   * Open an incident for flagged content, linked to the entity, its author and
+   * the moderation result that flagged it
+   */
+  private async raiseIncident(
+    params: SafetyModerationInput,
+    analysis: SafetyAnalysisResult
+  ): Promise<string> {
     // Determine severity (1-5)
     const severity = this.calculateSeverity(analysis.overallScore);
 
@@ -115,24 +285,71 @@ export class SafetyService extends BaseAIService {
     const incident = await this.prisma.safety_incidents.create({
       data: {
         id: generateId(),
-        raisedById: 'SYSTEM', // AI-detected (would need a system user ID in production)
+        challengeId: params.challengeId,
+        raisedById: SYSTEM_USER_ID, // AI-detected
         status: 'OPEN',
         category: this.getCategoryName(analysis.categories),
         severity,
-        description: `AI-detected safety issue (confidence: ${(analysis.confidence * 100).toFixed(1)}%)`,
+        description: `AI-detected safety issue in ${params.entityType} ${params.entityId} (confidence: ${(analysis.confidence * 100).toFixed(1)}%)`,
         evidenceEventIds: [],
         aiDetected: true,
+        entityType: params.entityType,
+        entityId: params.entityId,
+        authorId: params.authorId,
       },
     });
 
-    return {
-      blocked: analysis.autoBlocked,
-      incidentId: incident.id,
-    };
+    await this.prisma.safety_moderation_results.updateMany({
+      where: { entityType: params.entityType, entityId: params.entityId, incidentId: null },
+      data: { incidentId: incident.id },
+    });
+
+    return incident.id;
   }
 
   // Helper methods
 
+  private shouldEscalate(
+    policy: EscalationPolicy,
+    scores: AnalyzerScores,
+    thresholds: SafetyThresholds
+  ): boolean {
+    if (policy.escalate === 'NEVER' || policy.escalateTo.length === 0) return false;
+    if (policy.escalate === 'ALWAYS') return true;
+
+    return !(
+      scores.confidence > thresholds.confidentAbove ||
+      scores.overallScore < thresholds.clearlySafeBelow ||
+      scores.overallScore > thresholds.clearlyHarmfulAbove
+    );
+  }
+
+  /**
+   * Try each escalation analyzer in order; null if none of them answered in time
+   */
+  private async escalate(
+    policy: EscalationPolicy,
+    content: string
+  ): Promise<{ analyzer: SafetyAnalyzer; scores: AnalyzerScores } | null> {
+    for (const name of policy.escalateTo) {
+      const analyzer = this.registry.get(name);
+      try {
+        const scores = await this.withTimeout(analyzer.analyze(content), policy.timeoutMs);
+        return { analyzer, scores };
+      } catch (error) {
+        console.warn(`[${this.serviceName}] Analyzer ${name} failed:`, (error as Error).message);
+      }
+    }
+    return null;
+  }
+
+  private detectionMethod(
+    primary: SafetyAnalyzer,
+    second: SafetyAnalyzer
+  ): SafetyAnalysisResult['detectionMethod'] {
+    return primary.kind === second.kind ? primary.kind : 'LOCAL+API';
+  }
+
   private async storeResult(
     params: { entityType: string; entityId: string },
     result: SafetyAnalysisResult
@@ -143,11 +360,16 @@ export class SafetyService extends BaseAIService {
         entityType: params.entityType,
         entityId: params.entityId,
         overallScore: result.overallScore,
-        categories: result.categories as any,
+        // The detected language and its thresholds are kept alongside the scores
+        categories: {
+          ...result.categories,
+          ...(result.language && { language: result.language }),
+        } as any,
         flagged: result.flagged,
         autoBlocked: result.autoBlocked,
         detectionMethod: result.detectionMethod,
         confidence: result.confidence,
+        analyzers: result.analyzers || [],
       },
     });
   }
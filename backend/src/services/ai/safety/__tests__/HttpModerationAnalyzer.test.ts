@@ -0,0 +1,115 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { HttpModerationAnalyzer } from '../analyzers/HttpModerationAnalyzer';
+import { createAnalyzerRegistry } from '../AnalyzerRegistry';
+import { env } from '../../../../config/env';
+
+/**
+ * Minimal stand-in for a self-hosted moderation classifier
+ */
+const startFakeClassifier = async (status: number, body: unknown) => {
+  const requests: { authorization?: string; body: string }[] = [];
+
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk) => chunks.push(chunk));
+    req.on('end', () => {
+      requests.push({
+        authorization: req.headers.authorization,
+        body: Buffer.concat(chunks).toString(),
+      });
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}/moderate`,
+    requests,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+};
+
+describe('HttpModerationAnalyzer', () => {
+  it('should post the content and map the scores it gets back', async () => {
+    const fake = await startFakeClassifier(200, {
+      categories: { harassment: 0.7, spam: 1.4, unknownCategory: 0.9 },
+      confidence: 0.8,
+    });
+    try {
+      const analyzer = new HttpModerationAnalyzer({ url: fake.url, apiToken: 'secret-token' });
+
+      const result = await analyzer.analyze('some content');
+
+      expect(fake.requests[0]).toEqual({
+        authorization: 'Bearer secret-token',
+        body: JSON.stringify({ content: 'some content' }),
+      });
+      expect(result).toEqual({
+        overallScore: 1,
+        confidence: 0.8,
+        categories: {
+          harassment: 0.7,
+          hate: 0,
+          selfHarm: 0,
+          violence: 0,
+          sexual: 0,
+          spam: 1,
+        },
+      });
+    } finally {
+      await fake.close();
+    }
+  });
+
+  it('should throw when the classifier errors or answers without categories', async () => {
+    const failing = await startFakeClassifier(503, { error: 'overloaded' });
+    const malformed = await startFakeClassifier(200, { score: 0.2 });
+    try {
+      await expect(new HttpModerationAnalyzer({ url: failing.url }).analyze('x')).rejects.toThrow(
+        'Moderation service responded with 503'
+      );
+      await expect(new HttpModerationAnalyzer({ url: malformed.url }).analyze('x')).rejects.toThrow(
+        'did not include categories'
+      );
+    } finally {
+      await failing.close();
+      await malformed.close();
+    }
+  });
+
+  it('should be registered as "http" with env policies when its URL is configured', () => {
+    const registry = createAnalyzerRegistry({
+      ...env,
+      SAFETY_HTTP_MODERATION_URL: 'http://127.0.0.1:1/moderate',
+      SAFETY_ESCALATION_POLICIES: JSON.stringify({
+        default: { escalateTo: ['http'] },
+        SUBMISSION: { escalate: 'ALWAYS' },
+      }),
+    });
+
+    expect(registry.names()).toEqual(['local', 'openai', 'http']);
+    expect(registry.policyFor('CONTRIBUTION')).toMatchObject({
+      primary: 'local',
+      escalateTo: ['http'],
+      escalate: 'AMBIGUOUS',
+    });
+    expect(registry.policyFor('SUBMISSION')).toMatchObject({
+      escalateTo: ['http'],
+      escalate: 'ALWAYS',
+    });
+  });
+
+  it('should refuse policies that use the HTTP analyzer without a URL', () => {
+    expect(() =>
+      createAnalyzerRegistry({
+        ...env,
+        SAFETY_HTTP_MODERATION_URL: '',
+        SAFETY_ESCALATION_POLICIES: JSON.stringify({ default: { escalateTo: ['http'] } }),
+      })
+    ).toThrow('Unknown safety analyzer: http');
+  });
+});
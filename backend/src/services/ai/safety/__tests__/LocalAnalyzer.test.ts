@@ -0,0 +1,97 @@
+// /src/services/ai/safety/__tests__/LocalAnalyzer.test.ts
+
+import { LocalAnalyzer } from '../analyzers/LocalAnalyzer';
+import { detectLanguage } from '../languageDetection';
+import { compileLanguagePack, LanguagePackData, LANGUAGE_PACKS } from '../rules/languagePacks';
+
+describe('detectLanguage', () => {
+  it.each([
+    ['es', 'Este es un proyecto muy bueno para la comunidad y los vecinos'],
+    ['fr', "Je pense que c'est une bonne idée pour le quartier et les voisins"],
+    ['de', 'Ich finde das ist eine sehr gute Idee und wir sollten sie unterstützen'],
+    ['pt', 'Eu acho que isso é uma ideia muito boa para a comunidade'],
+    ['en', 'I think this is a great idea for the neighbourhood and we should do it'],
+  ])('should detect %s', (code, content) => {
+    expect(detectLanguage(content).code).toBe(code);
+  });
+
+  it('should fall back to English for very short text', () => {
+    expect(detectLanguage('Hola')).toEqual({ code: 'en', confidence: 0 });
+  });
+});
+
+describe('compileLanguagePack', () => {
+  const data: LanguagePackData = {
+    code: 'xx',
+    name: 'Test',
+    stopwords: [],
+    profanity: [],
+    harassment: [],
+    hate: [],
+    selfHarm: [],
+    violence: [],
+    weapons: [],
+    sexual: [],
+    spam: [],
+  };
+
+  it('should load every bundled pack', () => {
+    expect(Object.keys(LANGUAGE_PACKS).sort()).toEqual(['de', 'es', 'fr', 'pt']);
+  });
+
+  it('should reject invalid patterns', () => {
+    expect(() => compileLanguagePack({ ...data, spam: ['(unclosed'] })).toThrow(
+      'Language pack xx: invalid spam pattern (unclosed'
+    );
+  });
+
+  it('should reject invalid thresholds', () => {
+    expect(() => compileLanguagePack({ ...data, thresholds: { flagAbove: 2 } })).toThrow(
+      'Language pack xx: Safety threshold flagAbove must be a number between 0 and 1'
+    );
+  });
+});
+
+describe('LocalAnalyzer', () => {
+  let analyzer: LocalAnalyzer;
+
+  beforeAll(() => {
+    // bad-words is ESM-only, so under jest the analyzer uses its fallback filter
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    analyzer = new LocalAnalyzer();
+  });
+
+  it('should score Spanish harassment with the Spanish pack', async () => {
+    const result = await analyzer.analyze(
+      'Eres un estúpido, nadie te quiere en este proyecto y no vales nada'
+    );
+
+    expect(result.language).toEqual({ code: 'es', thresholds: { clearlySafeBelow: 0.05 } });
+    expect(result.categories.harassment).toBeCloseTo(0.9);
+  });
+
+  it('should score German self-harm with the German pack', async () => {
+    const result = await analyzer.analyze(
+      'Ich will sterben, ich denke an Selbstmord und das ist alles'
+    );
+
+    expect(result.language?.code).toBe('de');
+    expect(result.categories.selfHarm).toBe(1.0);
+  });
+
+  it('should leave benign French content clear', async () => {
+    const result = await analyzer.analyze(
+      'Nous proposons de planter des arbres dans le parc avec les enfants du quartier'
+    );
+
+    expect(result.language?.code).toBe('fr');
+    expect(result.overallScore).toBe(0);
+  });
+
+  it('should keep using the English rules for English content', async () => {
+    const result = await analyzer.analyze('I will kill you with a knife, this is a threat to you');
+
+    expect(result.language).toEqual({ code: 'en', thresholds: {} });
+    expect(result.categories.violence).toBeGreaterThan(0);
+  });
+});
@@ -2,6 +2,10 @@
 
 import { PrismaClient } from '@prisma/client';
 import { SafetyService } from '../SafetyService';
+import { AnalyzerRegistry } from '../AnalyzerRegistry';
+import { AnalyzerScores, SafetyAnalyzer } from '../../types/safety.types';
+import { ValidationError } from '../../../../types';
+import { SYSTEM_USER_ID } from '../../../../config/systemActor';
 
 // Mock Prisma Client
 const mockPrisma = {
@@ -13,12 +17,42 @@ const mockPrisma = {
   safety_moderation_results: {
     create: jest.fn(),
     findMany: jest.fn(),
+    updateMany: jest.fn(),
   },
   safety_incidents: {
     create: jest.fn(),
   },
+  challenges: {
+    findUnique: jest.fn(),
+    update: jest.fn(),
+  },
 } as unknown as PrismaClient;
 
+/**
+ * Analyzer returning fixed scores, so the policy logic can be tested in isolation
+ */
+const stubAnalyzer = (
+  name: string,
+  kind: 'LOCAL' | 'API',
+  overallScore: number,
+  confidence: number
+): SafetyAnalyzer & { analyze: jest.Mock } => ({
+  name,
+  kind,
+  analyze: jest.fn().mockResolvedValue({
+    overallScore,
+    confidence,
+    categories: {
+      harassment: overallScore,
+      hate: 0,
+      selfHarm: 0,
+      violence: 0,
+      sexual: 0,
+      spam: 0,
+    },
+  } as AnalyzerScores),
+});
+
 describe('SafetyService', () => {
   let service: SafetyService;
 
@@ -196,7 +230,7 @@ describe('SafetyService', () => {
       expect(result.incidentId).toBe('incident-123');
       expect(mockPrisma.safety_incidents.create).toHaveBeenCalledWith({
         data: expect.objectContaining({
-          raisedById: 'SYSTEM',
+          raisedById: SYSTEM_USER_ID,
           status: 'OPEN',
           category: expect.any(String),
           severity: expect.any(Number),
@@ -268,4 +302,266 @@ describe('SafetyService', () => {
       expect(result.categories.violence).toBeGreaterThan(0.2);
     });
   });
+
+  describe('analyzer registry', () => {
+    const params = {
+      content: 'Borderline content',
+      entityType: 'PROPOSAL',
+      entityId: 'test-id',
+      authorId: 'user-id',
+    };
+
+    beforeEach(() => {
+      (mockPrisma.ai_cache.findUnique as jest.Mock).mockResolvedValue(null);
+      (mockPrisma.safety_moderation_results.create as jest.Mock).mockResolvedValue({});
+    });
+
+    it('should escalate ambiguous results to the next analyzer in the policy', async () => {
+      const local = stubAnalyzer('local', 'LOCAL', 0.5, 0.6);
+      const http = stubAnalyzer('http', 'API', 0.7, 0.9);
+      const registry = new AnalyzerRegistry().register(local).register(http);
+      registry.setPolicy('default', { primary: 'local', escalateTo: ['http'] });
+
+      const result = await new SafetyService(mockPrisma, registry).analyzeContent(params);
+
+      expect(http.analyze).toHaveBeenCalledWith('Borderline content');
+      expect(result.detectionMethod).toBe('LOCAL+API');
+      expect(result.analyzers).toEqual(['local', 'http']);
+      expect(result.overallScore).toBeCloseTo(0.6);
+      expect(result.flagged).toBe(true);
+      expect(mockPrisma.safety_moderation_results.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ analyzers: ['local', 'http'] }),
+      });
+    });
+
+    it('should fall through to later analyzers and never auto-block if all fail', async () => {
+      const local = stubAnalyzer('local', 'LOCAL', 0.95, 0.5);
+      const http = stubAnalyzer('http', 'API', 0, 0);
+      const openai = stubAnalyzer('openai', 'API', 0, 0);
+      http.analyze.mockRejectedValue(new Error('down'));
+      openai.analyze.mockRejectedValue(new Error('no key'));
+      const registry = new AnalyzerRegistry().register(local).register(http).register(openai);
+      registry.setPolicy('PROPOSAL', { escalateTo: ['http', 'openai'], escalate: 'ALWAYS' });
+
+      const result = await new SafetyService(mockPrisma, registry).analyzeContent(params);
+
+      expect(http.analyze).toHaveBeenCalled();
+      expect(openai.analyze).toHaveBeenCalled();
+      expect(result.detectionMethod).toBe('LOCAL');
+      expect(result.flagged).toBe(true);
+      expect(result.autoBlocked).toBe(false);
+      expect(result.confidence).toBeCloseTo(0.4);
+    });
+
+    it('should give up on a primary analyzer that does not answer in time', async () => {
+      const http = stubAnalyzer('http', 'API', 0, 0);
+      http.analyze.mockReturnValue(new Promise(() => {}));
+      const registry = new AnalyzerRegistry().register(http);
+      registry.setPolicy('default', { primary: 'http', escalateTo: [], timeoutMs: 20 });
+
+      await expect(new SafetyService(mockPrisma, registry).analyzeContent(params)).rejects.toThrow(
+        'Operation timeout'
+      );
+      expect(mockPrisma.safety_moderation_results.create).not.toHaveBeenCalled();
+    });
+
+    it('should apply policies per entity type', async () => {
+      const local = stubAnalyzer('local', 'LOCAL', 0.5, 0.6);
+      const openai = stubAnalyzer('openai', 'API', 0.9, 0.95);
+      const registry = new AnalyzerRegistry().register(local).register(openai);
+      registry.setPolicy('PROPOSAL', { escalate: 'NEVER' });
+
+      const service = new SafetyService(mockPrisma, registry);
+      const proposal = await service.analyzeContent(params);
+      const submission = await service.analyzeContent({ ...params, entityType: 'SUBMISSION' });
+
+      expect(proposal.analyzers).toEqual(['local']);
+      expect(submission.analyzers).toEqual(['local', 'openai']);
+      expect(openai.analyze).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject policies that reference unregistered analyzers', () => {
+      const registry = new AnalyzerRegistry().register(stubAnalyzer('local', 'LOCAL', 0, 0.9));
+
+      expect(() => registry.setPolicy('default', { escalateTo: ['http'] })).toThrow(
+        'Unknown safety analyzer: http'
+      );
+    });
+
+    it('should use per-challenge thresholds', async () => {
+      const local = stubAnalyzer('local', 'LOCAL', 0.3, 0.9);
+      const registry = new AnalyzerRegistry().register(local);
+      registry.setPolicy('default', { escalateTo: [] });
+      (mockPrisma.challenges.findUnique as jest.Mock).mockResolvedValue({
+        moderationThresholds: { flagAbove: 0.2, autoBlockAbove: 0.25 },
+      });
+
+      const service = new SafetyService(mockPrisma, registry);
+      const strict = await service.analyzeContent({ ...params, challengeId: 'challenge-1' });
+      const standard = await service.analyzeContent(params);
+
+      expect(strict.flagged).toBe(true);
+      expect(strict.autoBlocked).toBe(true);
+      expect(standard.flagged).toBe(false);
+    });
+
+    it('should apply language thresholds and store them with the categories', async () => {
+      const local = stubAnalyzer('local', 'LOCAL', 0.37, 0.9);
+      local.analyze.mockResolvedValue({
+        ...(await local.analyze('')),
+        language: { code: 'de', thresholds: { flagAbove: 0.35 } },
+      });
+      const registry = new AnalyzerRegistry().register(local);
+      registry.setPolicy('default', { escalateTo: [] });
+      (mockPrisma.challenges.findUnique as jest.Mock).mockResolvedValue(null);
+
+      const service = new SafetyService(mockPrisma, registry);
+      const result = await service.analyzeContent({ ...params, challengeId: 'challenge-1' });
+
+      expect(result.flagged).toBe(true);
+      expect(mockPrisma.safety_moderation_results.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          categories: expect.objectContaining({
+            harassment: 0.37,
+            language: { code: 'de', thresholds: { flagAbove: 0.35 } },
+          }),
+        }),
+      });
+    });
+
+    it('should let challenge thresholds win over language thresholds', async () => {
+      const service = new SafetyService(mockPrisma, new AnalyzerRegistry());
+      (mockPrisma.challenges.findUnique as jest.Mock).mockResolvedValue({
+        moderationThresholds: { flagAbove: 0.5 },
+      });
+
+      const merged = await service.getThresholds('challenge-1', {
+        flagAbove: 0.35,
+        clearlySafeBelow: 0.05,
+      });
+      expect(merged.flagAbove).toBe(0.5);
+      expect(merged.clearlySafeBelow).toBe(0.05);
+
+      // Conflicting language overrides are dropped rather than failing the analysis
+      const conflicting = await service.getThresholds('challenge-1', { autoBlockAbove: 0.45 });
+      expect(conflicting.flagAbove).toBe(0.5);
+      expect(conflicting.autoBlockAbove).toBe(0.9);
+    });
+
+    it('should validate threshold overrides before storing them', async () => {
+      (mockPrisma.challenges.findUnique as jest.Mock).mockResolvedValue({ id: 'challenge-1' });
+      const service = new SafetyService(mockPrisma, new AnalyzerRegistry());
+
+      await expect(
+        service.setChallengeThresholds('challenge-1', { flagAbove: 0.8, autoBlockAbove: 0.5 })
+      ).rejects.toThrow(ValidationError);
+      await expect(
+        service.setChallengeThresholds('challenge-1', { flagAbove: 1.5 })
+      ).rejects.toThrow(ValidationError);
+      expect(mockPrisma.challenges.update).not.toHaveBeenCalled();
+
+      const thresholds = await service.setChallengeThresholds('challenge-1', { flagAbove: 0.3 });
+
+      expect(thresholds.flagAbove).toBe(0.3);
+      expect(thresholds.autoBlockAbove).toBe(0.9);
+      expect(mockPrisma.challenges.update).toHaveBeenCalledWith({
+        where: { id: 'challenge-1' },
+        data: expect.objectContaining({ moderationThresholds: { flagAbove: 0.3 } }),
+      });
+    });
+  });
+
+  describe('moderateOnWrite', () => {
+    const params = {
+      content: 'Harmful content',
+      entityType: 'CONTRIBUTION',
+      entityId: 'contribution-1',
+      authorId: 'author-1',
+      challengeId: 'challenge-1',
+    };
+
+    const serviceScoring = (overallScore: number) => {
+      const registry = new AnalyzerRegistry().register(
+        stubAnalyzer('local', 'LOCAL', overallScore, 0.95)
+      );
+      return new SafetyService(mockPrisma, registry);
+    };
+
+    beforeEach(() => {
+      (mockPrisma.ai_cache.findUnique as jest.Mock).mockResolvedValue(null);
+      (mockPrisma.safety_moderation_results.create as jest.Mock).mockResolvedValue({});
+      (mockPrisma.challenges.findUnique as jest.Mock).mockResolvedValue(null);
+      (mockPrisma.safety_incidents.create as jest.Mock).mockResolvedValue({ id: 'incident-1' });
+    });
+
+    it('should quarantine auto-blocked content and link the incident to entity and author', async () => {
+      const outcome = await serviceScoring(0.95).moderateOnWrite(params);
+
+      expect(outcome).toEqual({ moderationStatus: 'QUARANTINED', incidentId: 'incident-1' });
+      expect(mockPrisma.safety_incidents.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          challengeId: 'challenge-1',
+          entityType: 'CONTRIBUTION',
+          entityId: 'contribution-1',
+          authorId: 'author-1',
+          aiDetected: true,
+        }),
+      });
+      expect(mockPrisma.safety_moderation_results.updateMany).toHaveBeenCalledWith({
+        where: { entityType: 'CONTRIBUTION', entityId: 'contribution-1', incidentId: null },
+        data: { incidentId: 'incident-1' },
+      });
+    });
+
+    it('should flag content below the auto-block threshold', async () => {
+      const outcome = await serviceScoring(0.6).moderateOnWrite(params);
+
+      expect(outcome.moderationStatus).toBe('FLAGGED');
+      expect(outcome.incidentId).toBe('incident-1');
+    });
+
+    it('should clear safe content without an incident', async () => {
+      const outcome = await serviceScoring(0.05).moderateOnWrite(params);
+
+      expect(outcome).toEqual({ moderationStatus: 'CLEAR' });
+      expect(mockPrisma.safety_incidents.create).not.toHaveBeenCalled();
+    });
+
+    it('should keep the quarantine when the incident cannot be created', async () => {
+      (mockPrisma.safety_incidents.create as jest.Mock).mockRejectedValue(new Error('db down'));
+
+      const outcome = await serviceScoring(0.95).moderateOnWrite(params);
+
+      expect(outcome).toEqual({ moderationStatus: 'QUARANTINED' });
+    });
+
+    it('should hold content for manual review when analysis fails', async () => {
+      (mockPrisma.safety_moderation_results.create as jest.Mock).mockRejectedValue(
+        new Error('db down')
+      );
+
+      const outcome = await serviceScoring(0.05).moderateOnWrite(params);
+
+      expect(outcome).toEqual({ moderationStatus: 'FLAGGED', incidentId: 'incident-1' });
+      expect(mockPrisma.safety_incidents.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          entityType: 'CONTRIBUTION',
+          entityId: 'contribution-1',
+          authorId: 'author-1',
+          aiDetected: false,
+        }),
+      });
+    });
+
+    it('should still flag unanalysed content when the review incident cannot be created', async () => {
+      (mockPrisma.safety_moderation_results.create as jest.Mock).mockRejectedValue(
+        new Error('db down')
+      );
+      (mockPrisma.safety_incidents.create as jest.Mock).mockRejectedValue(new Error('db down'));
+
+      const outcome = await serviceScoring(0.05).moderateOnWrite(params);
+
+      expect(outcome).toEqual({ moderationStatus: 'FLAGGED' });
+    });
+  });
 });
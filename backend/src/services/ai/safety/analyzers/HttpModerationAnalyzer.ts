@@ -0,0 +1,80 @@
+// /src/services/ai/safety/analyzers/HttpModerationAnalyzer.ts
+
+import { AnalyzerScores, SafetyAnalyzer, SafetyCategory } from '../../types/safety.types';
+
+export interface HttpModerationConfig {
+  url: string;
+  apiToken?: string;
+  name?: string;
+  defaultConfidence?: number;
+}
+
+const CATEGORIES: SafetyCategory[] = [
+  'harassment',
+  'hate',
+  'selfHarm',
+  'violence',
+  'sexual',
+  'spam',
+];
+
+/**
+ * Generic adapter for a self-hosted moderation classifier (or a stub in tests)
+ *
+ * Contract: POST {url} with `{ "content": "..." }`, answered with
+ * `{ "categories": { "<category>": 0.0-1.0, ... }, "overallScore"?: n, "confidence"?: n }`.
+ * Missing categories score 0; overallScore defaults to the highest category.
+ * SAFETY_HTTP_MODERATION_TOKEN is sent as a bearer token when set.
+ */
+export class HttpModerationAnalyzer implements SafetyAnalyzer {
+  readonly name: string;
+  readonly kind = 'API' as const;
+
+  constructor(private config: HttpModerationConfig) {
+    this.name = config.name || 'http';
+  }
+
+  async analyze(content: string): Promise<AnalyzerScores> {
+    const response = await fetch(this.config.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.config.apiToken ? { Authorization: `Bearer ${this.config.apiToken}` } : {}),
+      },
+      body: JSON.stringify({ content }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Moderation service responded with ${response.status}`);
+    }
+
+    const body = (await response.json()) as {
+      categories?: Partial<Record<string, unknown>>;
+      overallScore?: unknown;
+      confidence?: unknown;
+    };
+
+    if (!body || typeof body.categories !== 'object' || body.categories === null) {
+      throw new Error('Moderation service response did not include categories');
+    }
+
+    const categories = {} as Record<SafetyCategory, number>;
+    for (const category of CATEGORIES) {
+      categories[category] = this.toScore(body.categories[category]) ?? 0;
+    }
+
+    return {
+      overallScore: this.toScore(body.overallScore) ?? Math.max(...Object.values(categories)),
+      categories,
+      confidence: this.toScore(body.confidence) ?? this.config.defaultConfidence ?? 0.9,
+    };
+  }
+
+  /**
+   * Clamp a score to 0-1; anything that is not a finite number is treated as missing
+   */
+  private toScore(value: unknown): number | undefined {
+    if (typeof value !== 'number' || !Number.isFinite(value)) return undefined;
+    return Math.min(1, Math.max(0, value));
+  }
+}
@@ -1,15 +1,19 @@
 // /src/services/ai/safety/analyzers/LocalAnalyzer.ts
 
 import compromise from 'compromise';
-import { SafetyAnalysisResult, SafetyCategory } from '../../types/safety.types';
+import { AnalyzerScores, SafetyAnalyzer, SafetyCategory } from '../../types/safety.types';
 import {
   customProfanityList,
   harassmentPatterns,
   selfHarmIndicators,
   spamPatterns,
 } from '../rules/profanityRules';
+import { LANGUAGE_PACKS, LanguagePack, normalizeText, tokenize } from '../rules/languagePacks';
+import { detectLanguage } from '../languageDetection';
 
-export class LocalAnalyzer {
+export class LocalAnalyzer implements SafetyAnalyzer {
+  readonly name = 'local';
+  readonly kind = 'LOCAL' as const;
   private filter: any;
   private filterInitialized: boolean = false;
 
@@ -48,18 +52,24 @@ export class LocalAnalyzer {
 
   /**
    * Analyze content using local NLP and pattern matching
+   * English uses compromise and bad-words; other languages use their rule pack
    */
-  async analyze(content: string): Promise<Omit<SafetyAnalysisResult, 'detectionMethod' | 'flagged' | 'autoBlocked'>> {
+  async analyze(content: string): Promise<AnalyzerScores> {
     // Ensure filter is initialized
     await this.initializeFilter();
-    const categories: Record<SafetyCategory, number> = {
-      harassment: this.detectHarassment(content),
-      hate: this.detectHate(content),
-      selfHarm: this.detectSelfHarm(content),
-      violence: this.detectViolence(content),
-      sexual: this.detectSexual(content),
-      spam: this.detectSpam(content),
-    };
+    const { code } = detectLanguage(content);
+    const pack = LANGUAGE_PACKS[code];
+
+    const categories: Record<SafetyCategory, number> = pack
+      ? this.scoreWithPack(pack, content)
+      : {
+          harassment: this.detectHarassment(content),
+          hate: this.detectHate(content),
+          selfHarm: this.detectSelfHarm(content),
+          violence: this.detectViolence(content),
+          sexual: this.detectSexual(content),
+          spam: this.detectSpam(content),
+        };
 
     // Calculate overall score (weighted average)
     const weights = {
@@ -90,6 +100,41 @@ export class LocalAnalyzer {
       overallScore: Math.min(1.0, overallScore),
       categories,
       confidence,
+      language: { code, thresholds: pack ? pack.thresholds : {} },
+    };
+  }
+
+  /**
+   * Score non-English content against a language pack.
+   * Mirrors the English heuristics: same per-match weights, keywords matched
+   * as whole words on accent-stripped text.
+   */
+  private scoreWithPack(pack: LanguagePack, content: string): Record<SafetyCategory, number> {
+    const text = normalizeText(content);
+    const tokens = tokenize(content);
+    const count = (words: string[]) => words.filter((word) => tokens.includes(word)).length;
+    const matches = (patterns: RegExp[]) => patterns.filter((pattern) => pattern.test(text)).length;
+
+    const profaneTokens = tokens.filter((token) => pack.profanity.includes(token));
+    const profane = profaneTokens.length > 0;
+    const letters = tokens.join('').length;
+    const profanityRatio = letters > 0 ? profaneTokens.join('').length / letters : 0;
+
+    const caps = content.replace(/[^\p{Lu}]/gu, '').length;
+    const allLetters = content.replace(/[^\p{L}]/gu, '').length;
+    const shouting = allLetters > 0 && caps / allLetters > 0.6;
+    const punct = content.replace(/[^!?.¡¿]/g, '').length;
+
+    return {
+      harassment: Math.min(1.0, matches(pack.harassment) * 0.3 + (profane ? 0.4 : 0)),
+      hate: Math.min(1.0, (profane ? profanityRatio * 0.8 : 0) + count(pack.hate) * 0.25),
+      selfHarm: Math.min(1.0, matches(pack.selfHarm) * 0.5),
+      violence: Math.min(1.0, count(pack.violence) * 0.15 + count(pack.weapons) * 0.2),
+      sexual: Math.min(1.0, profane ? count(pack.sexual) * 0.3 : 0),
+      spam: Math.min(
+        1.0,
+        matches(pack.spam) * 0.2 + (shouting ? 0.3 : 0) + (punct > 5 ? 0.2 : 0)
+      ),
     };
   }
 
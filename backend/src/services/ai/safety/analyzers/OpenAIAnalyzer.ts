@@ -1,9 +1,11 @@
 // /src/services/ai/safety/analyzers/OpenAIAnalyzer.ts
 
 import OpenAI from 'openai';
-import { SafetyAnalysisResult, SafetyCategory } from '../../types/safety.types';
+import { AnalyzerScores, SafetyAnalyzer, SafetyCategory } from '../../types/safety.types';
 
-export class OpenAIAnalyzer {
+export class OpenAIAnalyzer implements SafetyAnalyzer {
+  readonly name = 'openai';
+  readonly kind = 'API' as const;
   private client: OpenAI | null = null;
   private enabled: boolean;
 
@@ -25,7 +27,7 @@ export class OpenAIAnalyzer {
    * Analyze content using OpenAI Moderation API
    * NOTE: Free tier available, no cost for moderate usage
    */
-  async analyze(content: string): Promise<Omit<SafetyAnalysisResult, 'detectionMethod' | 'flagged' | 'autoBlocked'>> {
+  async analyze(content: string): Promise<AnalyzerScores> {
     if (!this.enabled || !this.client) {
       throw new Error('OpenAI analyzer not enabled (no API key)');
     }
@@ -0,0 +1,52 @@
+// /src/services/ai/safety/languageDetection.ts
+
+import { LANGUAGE_PACKS, LanguagePack, tokenize } from './rules/languagePacks';
+
+/**
+ * Common English function words, so English text is recognised as such
+ * rather than as whichever pack happens to share a few words with it
+ */
+const ENGLISH_STOPWORDS = new Set(
+  (
+    'the and is are was of to in it that this for with you not ' +
+    'be have on at but they we i my your will can from by an'
+  ).split(' ')
+);
+
+/**
+ * At least this many stopword hits are needed before we trust a guess;
+ * very short texts fall back to English
+ */
+const MIN_STOPWORD_HITS = 2;
+
+export interface DetectedLanguage {
+  code: string; // ISO 639-1
+  confidence: number; // 0.0 - 1.0, share of stopword hits won by this language
+}
+
+/**
+ * Guess the language of a text by counting stopwords from each rule pack.
+ * Defaults to English when nothing stands out.
+ */
+export const detectLanguage = (
+  content: string,
+  packs: Record<string, LanguagePack> = LANGUAGE_PACKS
+): DetectedLanguage => {
+  const tokens = tokenize(content);
+
+  const hits: Record<string, number> = {
+    en: tokens.filter((token) => ENGLISH_STOPWORDS.has(token)).length,
+  };
+  for (const pack of Object.values(packs)) {
+    hits[pack.code] = tokens.filter((token) => pack.stopwords.has(token)).length;
+  }
+
+  const [best, bestHits] = Object.entries(hits).sort((a, b) => b[1] - a[1])[0];
+  const totalHits = Object.values(hits).reduce((a, b) => a + b, 0);
+
+  if (bestHits < MIN_STOPWORD_HITS) {
+    return { code: 'en', confidence: 0 };
+  }
+
+  return { code: best, confidence: bestHits / totalHits };
+};
@@ -0,0 +1,137 @@
+// /src/services/ai/safety/policies.ts
+
+import { EscalationPolicy, SafetyThresholds } from '../types/safety.types';
+
+/**
+ * Thresholds used when a challenge does not override them
+ */
+export const DEFAULT_SAFETY_THRESHOLDS: SafetyThresholds = {
+  confidentAbove: 0.85,
+  clearlySafeBelow: 0.1,
+  clearlyHarmfulAbove: 0.9,
+  flagAbove: 0.4, // More sensitive than the fallback threshold
+  autoBlockAbove: 0.9,
+  fallbackFlagAbove: 0.5, // Higher threshold due to uncertainty
+};
+
+/**
+ * Local analysis first, OpenAI as a second opinion for ambiguous content
+ */
+export const DEFAULT_ESCALATION_POLICY: EscalationPolicy = {
+  primary: 'local',
+  escalateTo: ['openai'],
+  escalate: 'AMBIGUOUS',
+  timeoutMs: 3000,
+};
+
+/**
+ * Policy key that applies to entity types without their own policy
+ */
+export const DEFAULT_POLICY_KEY = 'default';
+
+const ESCALATION_MODES: EscalationPolicy['escalate'][] = ['AMBIGUOUS', 'ALWAYS', 'NEVER'];
+
+/**
+ * Parse escalation policies keyed by entity type (or `default`).
+ * Each entry may set any subset of the policy fields; missing fields come
+ * from the default policy. Throws with a readable message on bad input.
+ */
+export const parseEscalationPolicies = (raw: string): Record<string, Partial<EscalationPolicy>> => {
+  if (!raw.trim()) return {};
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new Error('Escalation policies must be valid JSON');
+  }
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('Escalation policies must be an object keyed by entity type');
+  }
+
+  const policies: Record<string, Partial<EscalationPolicy>> = {};
+
+  for (const [entityType, value] of Object.entries(parsed as Record<string, unknown>)) {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      throw new Error(`Escalation policy for ${entityType} must be an object`);
+    }
+
+    const { primary, escalateTo, escalate, timeoutMs } = value as Record<string, unknown>;
+    const policy: Partial<EscalationPolicy> = {};
+
+    if (primary !== undefined) {
+      if (typeof primary !== 'string' || !primary) {
+        throw new Error(`Escalation policy for ${entityType}: primary must be an analyzer name`);
+      }
+      policy.primary = primary;
+    }
+
+    if (escalateTo !== undefined) {
+      if (!Array.isArray(escalateTo) || escalateTo.some((name) => typeof name !== 'string')) {
+        throw new Error(
+          `Escalation policy for ${entityType}: escalateTo must be a list of analyzer names`
+        );
+      }
+      policy.escalateTo = escalateTo as string[];
+    }
+
+    if (escalate !== undefined) {
+      if (!ESCALATION_MODES.includes(escalate as EscalationPolicy['escalate'])) {
+        throw new Error(
+          `Escalation policy for ${entityType}: escalate must be one of ${ESCALATION_MODES.join(', ')}`
+        );
+      }
+      policy.escalate = escalate as EscalationPolicy['escalate'];
+    }
+
+    if (timeoutMs !== undefined) {
+      if (typeof timeoutMs !== 'number' || !(timeoutMs > 0)) {
+        throw new Error(`Escalation policy for ${entityType}: timeoutMs must be a positive number`);
+      }
+      policy.timeoutMs = timeoutMs;
+    }
+
+    policies[entityType] = policy;
+  }
+
+  return policies;
+};
+
+/**
+ * Merge threshold overrides over the defaults, rejecting anything outside 0-1
+ * or a block threshold below the flag threshold. Unknown keys are rejected too,
+ * so a typo does not silently fall back to the default.
+ */
+export const resolveThresholds = (
+  overrides: unknown,
+  base: SafetyThresholds = DEFAULT_SAFETY_THRESHOLDS
+): SafetyThresholds => {
+  if (overrides === null || overrides === undefined) return { ...base };
+
+  if (typeof overrides !== 'object' || Array.isArray(overrides)) {
+    throw new Error('Safety thresholds must be an object');
+  }
+
+  const result: SafetyThresholds = { ...base };
+
+  for (const [key, value] of Object.entries(overrides as Record<string, unknown>)) {
+    if (!(key in base)) {
+      throw new Error(`Unknown safety threshold: ${key}`);
+    }
+    if (typeof value !== 'number' || value < 0 || value > 1) {
+      throw new Error(`Safety threshold ${key} must be a number between 0 and 1`);
+    }
+    result[key as keyof SafetyThresholds] = value;
+  }
+
+  if (result.autoBlockAbove < result.flagAbove) {
+    throw new Error('autoBlockAbove must not be lower than flagAbove');
+  }
+
+  if (result.clearlySafeBelow > result.clearlyHarmfulAbove) {
+    throw new Error('clearlySafeBelow must not be higher than clearlyHarmfulAbove');
+  }
+
+  return result;
+};
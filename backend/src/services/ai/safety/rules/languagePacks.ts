@@ -0,0 +1,108 @@
+// /src/services/ai/safety/rules/languagePacks.ts
+
+import { SafetyThresholds } from '../../types/safety.types';
+import { resolveThresholds } from '../policies';
+import de from './languages/de.json';
+import es from './languages/es.json';
+import fr from './languages/fr.json';
+import pt from './languages/pt.json';
+
+/**
+ * Keyword and pattern rules for one language, as stored in rules/languages/*.json.
+ * Words and patterns are written without accents: content is normalized the
+ * same way before matching, so "estúpido" and "estupido" both match.
+ */
+export interface LanguagePackData {
+  code: string;
+  name: string;
+  stopwords: string[]; // common function words, used for language detection
+  profanity: string[];
+  harassment: string[]; // regular expressions
+  hate: string[];
+  selfHarm: string[]; // regular expressions
+  violence: string[];
+  weapons: string[];
+  sexual: string[];
+  spam: string[]; // regular expressions
+  thresholds?: Partial<SafetyThresholds>; // overrides the defaults for this language
+}
+
+/**
+ * A rule pack ready for matching (patterns compiled, thresholds validated)
+ */
+export interface LanguagePack {
+  code: string;
+  name: string;
+  stopwords: Set<string>;
+  profanity: string[];
+  harassment: RegExp[];
+  hate: string[];
+  selfHarm: RegExp[];
+  violence: string[];
+  weapons: string[];
+  sexual: string[];
+  spam: RegExp[];
+  thresholds: Partial<SafetyThresholds>;
+}
+
+/**
+ * Lowercase and strip accents so rules match however the author typed them
+ */
+export const normalizeText = (text: string): string =>
+  text.toLowerCase().normalize('NFD').replace(/\p{M}/gu, '').replace(/ß/g, 'ss');
+
+/**
+ * Split normalized text into words (letters and apostrophes/hyphens inside words)
+ */
+export const tokenize = (text: string): string[] =>
+  normalizeText(text).match(/\p{L}+(?:['-]\p{L}+)*/gu) || [];
+
+const compilePatterns = (code: string, field: string, patterns: string[]): RegExp[] =>
+  patterns.map((pattern) => {
+    try {
+      return new RegExp(pattern, 'iu');
+    } catch {
+      throw new Error(`Language pack ${code}: invalid ${field} pattern ${pattern}`);
+    }
+  });
+
+/**
+ * Compile a pack's patterns and validate its thresholds.
+ * Throws with a readable message on bad input, so a broken pack fails at startup.
+ */
+export const compileLanguagePack = (data: LanguagePackData): LanguagePack => {
+  const thresholds = data.thresholds || {};
+  try {
+    resolveThresholds(thresholds);
+  } catch (error) {
+    throw new Error(`Language pack ${data.code}: ${(error as Error).message}`);
+  }
+
+  const words = (list: string[]) => list.map(normalizeText);
+
+  return {
+    code: data.code,
+    name: data.name,
+    stopwords: new Set(words(data.stopwords)),
+    profanity: words(data.profanity),
+    harassment: compilePatterns(data.code, 'harassment', data.harassment),
+    hate: words(data.hate),
+    selfHarm: compilePatterns(data.code, 'selfHarm', data.selfHarm),
+    violence: words(data.violence),
+    weapons: words(data.weapons),
+    sexual: words(data.sexual),
+    spam: compilePatterns(data.code, 'spam', data.spam),
+    thresholds,
+  };
+};
+
+/**
+ * Rule packs for non-English content, keyed by ISO 639-1 code.
+ * English uses the rules in profanityRules.ts together with compromise.
+ */
+export const LANGUAGE_PACKS: Record<string, LanguagePack> = Object.fromEntries(
+  [es, fr, de, pt].map((data) => {
+    const pack = compileLanguagePack(data as LanguagePackData);
+    return [pack.code, pack];
+  })
+);
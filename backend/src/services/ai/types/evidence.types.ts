@@ -6,6 +6,11 @@ export type EvidencePackageType =
   | 'INCIDENT_EVIDENCE'
   | 'ETHICS_CERTIFICATION';
 
+/**
+ * packageType of the ZIP data bundle stored alongside each PDF report
+ */
+export const BUNDLE_PACKAGE_TYPE = 'DATA_BUNDLE';
+
 export interface EvidencePackageData {
   challengeId: string;
   packageType: EvidencePackageType;
@@ -13,15 +18,41 @@ export interface EvidencePackageData {
   includeFileHashes: boolean;
   includeSignatures: boolean;
   includeAIAnalysis: boolean;
+  includeBundle?: boolean;
+}
+
+/**
+ * Sections of an audit pack backed by live data. A section is flagged when the
+ * generator could not confirm it, so the PDF never claims more than was checked.
+ */
+export type EvidenceSection = 'compliance' | 'contributions' | 'ethics';
+
+export interface UnverifiedSection {
+  section: EvidenceSection;
+  reason: string;
 }
 
 export interface GeneratedEvidence {
   fileName: string;
   buffer: Buffer;
   metadata: {
+    packageId: string;
     pages: number;
     generatedAt: string;
     verificationUrl: string;
     sha256: string;
+    ipfsCid: string | null;
+    signatureKeyId: string | null;
+    unverifiedSections: UnverifiedSection[];
   };
+  bundle: {
+    packageId: string;
+    fileName: string;
+    fileSize: number;
+    sha256: string;
+    ipfsCid: string | null;
+    signatureKeyId: string | null;
+    files: number;
+    missing: string[];
+  } | null;
 }
@@ -15,11 +15,68 @@ export interface SafetyAnalysisResult {
   detectionMethod: 'LOCAL' | 'API' | 'LOCAL+API' | 'MANUAL';
   flagged: boolean;
   autoBlocked: boolean;
+  analyzers?: string[]; // names of the analyzers whose scores were used
+  language?: ContentLanguage; // set by analyzers that use per-language rules
 }
 
+/**
+ * Language an analyzer matched its rules in, with that language's threshold overrides
+ */
+export interface ContentLanguage {
+  code: string; // ISO 639-1
+  thresholds: Partial<SafetyThresholds>;
+}
+
+/**
+ * Moderation state stored on contributions, proposals and submissions
+ * - QUARANTINED content is held back from everyone but its author
+ */
+export type ModerationStatus = 'CLEAR' | 'FLAGGED' | 'QUARANTINED';
+
 export interface SafetyModerationInput {
   content: string;
   entityType: string;
   entityId: string;
   authorId: string;
+  challengeId?: string; // per-challenge thresholds apply when set
+}
+
+/**
+ * Scores produced by a single analyzer, before thresholds are applied
+ */
+export type AnalyzerScores = Omit<SafetyAnalysisResult, 'detectionMethod' | 'flagged' | 'autoBlocked' | 'analyzers'>;
+
+/**
+ * A content classifier that can be registered with SafetyService.
+ * LOCAL analyzers run in-process; API analyzers call out to another service.
+ */
+export interface SafetyAnalyzer {
+  readonly name: string;
+  readonly kind: 'LOCAL' | 'API';
+  analyze(content: string): Promise<AnalyzerScores>;
+}
+
+/**
+ * Score thresholds (0.0 - 1.0) used to decide escalation, flagging and blocking
+ */
+export interface SafetyThresholds {
+  confidentAbove: number; // primary confidence above this skips escalation
+  clearlySafeBelow: number; // primary score below this skips escalation
+  clearlyHarmfulAbove: number; // primary score above this skips escalation
+  flagAbove: number;
+  autoBlockAbove: number;
+  fallbackFlagAbove: number; // used when every escalation analyzer failed
+}
+
+/**
+ * Which analyzers run for an entity type and when to ask for a second opinion
+ * - AMBIGUOUS: escalate only when the primary result is not clear-cut
+ * - ALWAYS: always escalate
+ * - NEVER: the primary analyzer decides alone
+ */
+export interface EscalationPolicy {
+  primary: string;
+  escalateTo: string[]; // tried in order until one succeeds
+  escalate: 'AMBIGUOUS' | 'ALWAYS' | 'NEVER';
+  timeoutMs: number;
 }
@@ -0,0 +1,298 @@
+import { PrismaClient, event_anchors } from '@prisma/client';
+import { generateId } from '../../utils/idGenerator';
+import { logger } from '../../utils/logger';
+import { BlockchainService } from '../blockchain.service';
+import { EVENT_CHAIN_LOCK_KEY } from '../events/EventService';
+import { getMerkleProof, getMerkleRoot, hashLeaf } from './merkle';
+import { NotFoundError, ValidationError, ConflictError } from '../../types';
+
+export interface EventAnchorOptions {
+  maxEventsPerAnchor?: number;
+  anchorAddress?: string;
+  /** PENDING anchors older than this without a signed transaction are failed for retry */
+  staleAnchorMinutes?: number;
+}
+
+const DEFAULT_MAX_EVENTS = 1000;
+const DEFAULT_STALE_ANCHOR_MINUTES = 10;
+
+/**
+ * EventAnchorService - Anchors Merkle roots of the event hash chain on-chain
+ *
+ * Business Rules:
+ * - Each anchor covers a contiguous range of chained events that no earlier
+ *   (non-failed) anchor covers; events recorded before chaining are skipped
+ * - The Merkle root is sent as calldata of a zero-value transaction from the
+ *   platform wallet; the tx hash, block and covered range are stored
+ * - The range is picked and the anchor created under the event chain's
+ *   advisory lock, so concurrent runs cannot anchor overlapping ranges
+ * - The signed transaction and its hash are stored before broadcast. A PENDING
+ *   anchor is settled from its receipt: status 1 confirms, status 0 fails, and
+ *   a missing receipt re-broadcasts the same transaction. It is only failed as
+ *   dropped once its nonce was used and the receipt is still missing
+ * - No new range is anchored while an earlier anchor is still PENDING
+ * - A failed anchor's range is retried on the next run
+ * - Inclusion proofs are rebuilt from the stored events and rejected if the
+ *   events no longer reproduce the anchored root
+ */
+export class EventAnchorService {
+  private maxEventsPerAnchor: number;
+
+  constructor(
+    private prisma: PrismaClient,
+    private blockchain: BlockchainService,
+    private options: EventAnchorOptions = {}
+  ) {
+    this.maxEventsPerAnchor = options.maxEventsPerAnchor || DEFAULT_MAX_EVENTS;
+  }
+
+  /**
+   * Anchor the next range of unanchored events
+   * Settles anchors left PENDING by an earlier run first. Returns the new
+   * anchor record, or null when there is nothing new to anchor yet
+   */
+  async anchorPending() {
+    for (const pending of await this.prisma.event_anchors.findMany({
+      where: { status: 'PENDING' },
+    })) {
+      await this.reconcile(pending);
+    }
+
+    const anchor = await this.prisma.$transaction(async (tx) => {
+      // Same lock as event appends: the range is read from a settled chain, and
+      // a concurrent run waits here until this anchor is recorded
+      await tx.$executeRaw`SELECT pg_advisory_xact_lock(${EVENT_CHAIN_LOCK_KEY})`;
+
+      const pendingCount = await tx.event_anchors.count({ where: { status: 'PENDING' } });
+      if (pendingCount > 0) {
+        return null;
+      }
+
+      const lastAnchor = await tx.event_anchors.findFirst({
+        where: { status: 'CONFIRMED' },
+        orderBy: { toSequence: 'desc' },
+      });
+
+      const events = await tx.events.findMany({
+        where: {
+          sequence: { gt: lastAnchor?.toSequence ?? 0 },
+          chainHash: { not: null },
+        },
+        orderBy: { sequence: 'asc' },
+        take: this.maxEventsPerAnchor,
+        select: { sequence: true, chainHash: true },
+      });
+
+      if (events.length === 0) {
+        return null;
+      }
+
+      return tx.event_anchors.create({
+        data: {
+          id: generateId(),
+          fromSequence: events[0].sequence,
+          toSequence: events[events.length - 1].sequence,
+          eventCount: events.length,
+          merkleRoot: getMerkleRoot(events.map((e) => e.chainHash as string)),
+          status: 'PENDING',
+          updatedAt: new Date(),
+        },
+      });
+    });
+
+    if (!anchor) {
+      return null;
+    }
+
+    let signed: { txHash: string; rawTx: string; chainId: number };
+    try {
+      signed = await this.blockchain.signAnchor(anchor.merkleRoot, this.options.anchorAddress);
+    } catch (error) {
+      // Nothing was signed, so the range can safely be retried
+      return this.fail(anchor, error instanceof Error ? error.message : 'Unknown error');
+    }
+
+    const stored = await this.prisma.event_anchors.update({
+      where: { id: anchor.id },
+      data: {
+        txHash: signed.txHash,
+        signedTx: signed.rawTx,
+        chainId: signed.chainId,
+        updatedAt: new Date(),
+      },
+    });
+
+    try {
+      await this.blockchain.broadcastTransaction(signed.rawTx);
+    } catch (error) {
+      // The stored transaction is re-broadcast on the next run
+      logger.warn(`Broadcast of anchor ${anchor.id} (${signed.txHash}) failed: ${error}`);
+    }
+
+    return this.reconcile(stored);
+  }
+
+  /**
+   * Settle a PENDING anchor from its transaction's receipt; returns the anchor
+   * as it stands afterwards
+   */
+  private async reconcile(anchor: event_anchors): Promise<event_anchors> {
+    if (!anchor.txHash || !anchor.signedTx) {
+      // Interrupted before its transaction was stored, so nothing was broadcast
+      const staleBefore = new Date(
+        Date.now() - (this.options.staleAnchorMinutes ?? DEFAULT_STALE_ANCHOR_MINUTES) * 60 * 1000
+      );
+      return anchor.createdAt < staleBefore
+        ? this.fail(anchor, 'Interrupted before the transaction was signed')
+        : anchor;
+    }
+
+    let receipt = await this.fetchReceipt(anchor);
+    if (receipt === undefined) {
+      return anchor;
+    }
+
+    if (!receipt) {
+      try {
+        await this.blockchain.broadcastTransaction(anchor.signedTx);
+        return anchor;
+      } catch (error) {
+        if ((error as { code?: string }).code !== 'NONCE_EXPIRED') {
+          return anchor;
+        }
+      }
+
+      // The nonce is used up - possibly by this very transaction, mined since the
+      // lookup above. Only a still-missing receipt means it was really dropped.
+      receipt = await this.fetchReceipt(anchor);
+      if (receipt === undefined) {
+        return anchor;
+      }
+      if (!receipt) {
+        return this.fail(anchor, 'Transaction was dropped');
+      }
+    }
+
+    if (receipt.status === 0) {
+      return this.fail(anchor, `Anchor transaction ${anchor.txHash} reverted`);
+    }
+
+    if (receipt.status !== 1) {
+      return anchor;
+    }
+
+    const confirmed = await this.prisma.event_anchors.update({
+      where: { id: anchor.id },
+      data: {
+        status: 'CONFIRMED',
+        blockNumber: receipt.blockNumber,
+        anchoredAt: new Date(),
+        updatedAt: new Date(),
+      },
+    });
+
+    logger.info(
+      `Anchored events ${anchor.fromSequence}-${anchor.toSequence} (root ${anchor.merkleRoot}) in tx ${anchor.txHash}`
+    );
+
+    return confirmed;
+  }
+
+  /**
+   * Receipt of an anchor's transaction: null while it is not mined, undefined
+   * when the lookup itself failed
+   */
+  private async fetchReceipt(anchor: event_anchors) {
+    try {
+      return await this.blockchain.getTransaction(anchor.txHash as string);
+    } catch (error) {
+      logger.warn(`Could not fetch receipt for anchor ${anchor.id}: ${error}`);
+      return undefined;
+    }
+  }
+
+  private async fail(anchor: event_anchors, error: string) {
+    logger.error(`Anchor of events ${anchor.fromSequence}-${anchor.toSequence} failed: ${error}`);
+
+    return this.prisma.event_anchors.update({
+      where: { id: anchor.id },
+      data: { status: 'FAILED', error, updatedAt: new Date() },
+    });
+  }
+
+  /**
+   * Merkle inclusion proof for a single event against its confirmed anchor
+   */
+  async getProof(eventId: string) {
+    const event = await this.prisma.events.findUnique({
+      where: { id: eventId },
+      select: { id: true, sequence: true, chainHash: true },
+    });
+
+    if (!event) {
+      throw new NotFoundError('Event');
+    }
+
+    if (!event.chainHash) {
+      throw new ValidationError('Event was recorded before the hash chain and cannot be anchored');
+    }
+
+    const anchor = await this.prisma.event_anchors.findFirst({
+      where: {
+        status: 'CONFIRMED',
+        fromSequence: { lte: event.sequence },
+        toSequence: { gte: event.sequence },
+      },
+    });
+
+    if (!anchor) {
+      throw new NotFoundError('Anchor covering this event');
+    }
+
+    const leaves = await this.prisma.events.findMany({
+      where: {
+        sequence: { gte: anchor.fromSequence, lte: anchor.toSequence },
+        chainHash: { not: null },
+      },
+      orderBy: { sequence: 'asc' },
+      select: { id: true, chainHash: true },
+    });
+
+    const values = leaves.map((leaf) => leaf.chainHash as string);
+
+    if (values.length !== anchor.eventCount || getMerkleRoot(values) !== anchor.merkleRoot) {
+      throw new ConflictError('Events covered by this anchor no longer match its Merkle root');
+    }
+
+    const index = leaves.findIndex((leaf) => leaf.id === event.id);
+
+    return {
+      eventId: event.id,
+      sequence: event.sequence,
+      chainHash: event.chainHash,
+      leafHash: hashLeaf(event.chainHash),
+      leafIndex: index,
+      proof: getMerkleProof(values, index),
+      merkleRoot: anchor.merkleRoot,
+      anchor: {
+        id: anchor.id,
+        fromSequence: anchor.fromSequence,
+        toSequence: anchor.toSequence,
+        txHash: anchor.txHash,
+        chainId: anchor.chainId,
+        blockNumber: anchor.blockNumber,
+        anchoredAt: anchor.anchoredAt,
+      },
+    };
+  }
+
+  /**
+   * Most recent anchors, newest first
+   */
+  async listAnchors(limit = 50) {
+    return this.prisma.event_anchors.findMany({
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+  }
+}
@@ -0,0 +1,375 @@
+import http from 'http';
+import crypto from 'crypto';
+import { AddressInfo } from 'net';
+import { ethers } from 'ethers';
+import { EventAnchorService } from '../EventAnchorService';
+import { getMerkleRoot, verifyMerkleProof } from '../merkle';
+import { BlockchainService } from '../../blockchain.service';
+import { EVENT_CHAIN_LOCK_KEY } from '../../events/EventService';
+import { ConflictError } from '../../../types';
+
+jest.mock('../../../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+  },
+}));
+
+const CHAIN_ID = 31337;
+const hex = (n: number | bigint) => ethers.toQuantity(n);
+
+/**
+ * Minimal local dev node: enough JSON-RPC for an ethers Wallet to send a
+ * transaction and wait for its receipt. Every transaction is mined instantly.
+ */
+const startDevNode = async (options: { revert?: boolean } = {}) => {
+  const transactions = new Map<string, ethers.Transaction>();
+  const receipts = new Map<string, any>();
+  let blockNumber = 1;
+
+  const block = (n: number) => ({
+    number: hex(n),
+    hash: ethers.id(`block-${n}`),
+    parentHash: ethers.id(`block-${n - 1}`),
+    timestamp: hex(1_760_000_000 + n),
+    nonce: '0x0000000000000000',
+    difficulty: '0x0',
+    gasLimit: hex(30_000_000),
+    gasUsed: '0x0',
+    miner: ethers.ZeroAddress,
+    extraData: '0x',
+    baseFeePerGas: hex(1_000_000_000),
+    stateRoot: ethers.ZeroHash,
+    receiptsRoot: ethers.ZeroHash,
+    transactions: [],
+  });
+
+  const handle = (method: string, params: any[]): any => {
+    switch (method) {
+      case 'eth_chainId':
+        return hex(CHAIN_ID);
+      case 'net_version':
+        return String(CHAIN_ID);
+      case 'eth_blockNumber':
+        return hex(blockNumber);
+      case 'eth_getBlockByNumber':
+        return block(blockNumber);
+      case 'eth_gasPrice':
+      case 'eth_maxPriorityFeePerGas':
+        return hex(1_000_000_000);
+      case 'eth_getTransactionCount':
+        return hex(transactions.size);
+      case 'eth_estimateGas':
+        return hex(30_000);
+      case 'eth_sendRawTransaction': {
+        const tx = ethers.Transaction.from(params[0]);
+        const hash = tx.hash as string;
+        blockNumber++;
+        transactions.set(hash, tx);
+        receipts.set(hash, {
+          transactionHash: hash,
+          transactionIndex: '0x0',
+          blockHash: ethers.id(`block-${blockNumber}`),
+          blockNumber: hex(blockNumber),
+          from: tx.from,
+          to: tx.to,
+          contractAddress: null,
+          gasUsed: hex(22_000),
+          cumulativeGasUsed: hex(22_000),
+          effectiveGasPrice: hex(1_000_000_000),
+          logs: [],
+          logsBloom: `0x${'00'.repeat(256)}`,
+          status: options.revert ? '0x0' : '0x1',
+          type: hex(tx.type ?? 2),
+        });
+        return hash;
+      }
+      case 'eth_getTransactionReceipt':
+        return receipts.get(params[0]) ?? null;
+      case 'eth_getTransactionByHash': {
+        const tx = transactions.get(params[0]);
+        const receipt = receipts.get(params[0]);
+        if (!tx || !receipt) return null;
+        return {
+          hash: tx.hash,
+          blockHash: receipt.blockHash,
+          blockNumber: receipt.blockNumber,
+          transactionIndex: '0x0',
+          from: tx.from,
+          to: tx.to,
+          nonce: hex(tx.nonce),
+          gasLimit: hex(tx.gasLimit),
+          gas: hex(tx.gasLimit),
+          value: hex(tx.value),
+          data: tx.data,
+          input: tx.data,
+          chainId: hex(CHAIN_ID),
+          type: hex(tx.type ?? 2),
+          maxFeePerGas: hex(tx.maxFeePerGas ?? 0),
+          maxPriorityFeePerGas: hex(tx.maxPriorityFeePerGas ?? 0),
+          accessList: [],
+          r: tx.signature?.r,
+          s: tx.signature?.s,
+          v: hex(tx.signature?.v ?? 27),
+          yParity: hex(tx.signature?.yParity ?? 0),
+        };
+      }
+      default:
+        throw new Error(`Unsupported method ${method}`);
+    }
+  };
+
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk) => chunks.push(chunk));
+    req.on('end', () => {
+      const payload = JSON.parse(Buffer.concat(chunks).toString());
+      const respond = (request: any) => {
+        try {
+          return { jsonrpc: '2.0', id: request.id, result: handle(request.method, request.params) };
+        } catch (error) {
+          return {
+            jsonrpc: '2.0',
+            id: request.id,
+            error: { code: -32601, message: (error as Error).message },
+          };
+        }
+      };
+      const body = Array.isArray(payload) ? payload.map(respond) : respond(payload);
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    transactions,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+};
+
+describe('EventAnchorService', () => {
+  const privateKey = `0x${'11'.repeat(32)}`;
+  const chainHash = (n: number) => crypto.createHash('sha256').update(`event-${n}`).digest('hex');
+  const events = [1, 2, 3].map((n) => ({ id: `event-${n}`, sequence: n, chainHash: chainHash(n) }));
+
+  let node: Awaited<ReturnType<typeof startDevNode>>;
+  let blockchain: BlockchainService;
+  let service: EventAnchorService;
+  let mockPrisma: any;
+  let anchors: any[];
+
+  const connect = async (options?: { revert?: boolean }) => {
+    node = await startDevNode(options);
+    blockchain = new BlockchainService();
+    blockchain.initializeProvider(node.url);
+    blockchain.initializeSigner(privateKey);
+    service = new EventAnchorService(mockPrisma, blockchain);
+  };
+
+  beforeEach(() => {
+    anchors = [];
+    mockPrisma = {
+      $executeRaw: jest.fn(),
+      events: {
+        findMany: jest.fn().mockResolvedValue(events),
+        findUnique: jest.fn(),
+      },
+      event_anchors: {
+        findFirst: jest.fn().mockResolvedValue(null),
+        findMany: jest.fn(({ where }: any = {}) =>
+          Promise.resolve(anchors.filter((a) => !where?.status || a.status === where.status))
+        ),
+        count: jest.fn(({ where }: any) =>
+          Promise.resolve(anchors.filter((a) => a.status === where.status).length)
+        ),
+        create: jest.fn(({ data }: any) => {
+          const anchor = { createdAt: new Date(), txHash: null, signedTx: null, ...data };
+          anchors.push(anchor);
+          return Promise.resolve(anchor);
+        }),
+        update: jest.fn(({ where, data }: any) => {
+          const anchor = anchors.find((a) => a.id === where.id);
+          Object.assign(anchor, data);
+          return Promise.resolve({ ...anchor });
+        }),
+      },
+    };
+    mockPrisma.$transaction = jest.fn((fn: any) => fn(mockPrisma));
+  });
+
+  afterEach(async () => {
+    blockchain.getProvider().destroy();
+    await node.close();
+  });
+
+  describe('anchorPending()', () => {
+    it('should send the Merkle root of unanchored events to the dev chain', async () => {
+      await connect();
+
+      const result = await service.anchorPending();
+
+      const root = getMerkleRoot(events.map((e) => e.chainHash));
+      const [sent] = [...node.transactions.values()];
+      expect(sent.data).toBe(`0x${root}`);
+      expect(sent.to).toBe(new ethers.Wallet(privateKey).address);
+      expect(mockPrisma.event_anchors.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          fromSequence: 1,
+          toSequence: 3,
+          eventCount: 3,
+          merkleRoot: root,
+          status: 'PENDING',
+        }),
+      });
+      expect(result).toMatchObject({
+        status: 'CONFIRMED',
+        txHash: sent.hash,
+        chainId: CHAIN_ID,
+        blockNumber: 2,
+      });
+    });
+
+    it('should only anchor events after the last confirmed anchor', async () => {
+      await connect();
+      mockPrisma.event_anchors.findFirst.mockResolvedValue({ toSequence: 3 });
+      mockPrisma.events.findMany.mockResolvedValue([]);
+
+      const result = await service.anchorPending();
+
+      expect(result).toBeNull();
+      expect(mockPrisma.events.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { sequence: { gt: 3 }, chainHash: { not: null } },
+        })
+      );
+      expect(node.transactions.size).toBe(0);
+    });
+
+    it('should mark the anchor FAILED when the transaction reverts', async () => {
+      await connect({ revert: true });
+
+      const result = await service.anchorPending();
+
+      expect(result).toMatchObject({ status: 'FAILED' });
+    });
+
+    it('should pick the range under the event chain lock', async () => {
+      await connect();
+
+      await service.anchorPending();
+
+      expect(mockPrisma.$transaction).toHaveBeenCalled();
+      expect(mockPrisma.$executeRaw.mock.calls[0]).toContain(EVENT_CHAIN_LOCK_KEY);
+    });
+
+    it('should store the signed transaction before broadcasting it', async () => {
+      await connect();
+      const broadcast = jest
+        .spyOn(blockchain, 'broadcastTransaction')
+        .mockRejectedValue(new Error('connection reset'));
+
+      const result = await service.anchorPending();
+
+      expect(broadcast).toHaveBeenCalled();
+      expect(result).toMatchObject({ status: 'PENDING', chainId: CHAIN_ID });
+      expect(result?.txHash).toBe(ethers.Transaction.from(result?.signedTx as string).hash);
+    });
+
+    it('should confirm an interrupted anchor whose transaction was mined', async () => {
+      await connect();
+      const signed = await blockchain.signAnchor(`0x${'cd'.repeat(32)}`);
+      await blockchain.broadcastTransaction(signed.rawTx);
+      anchors.push({
+        id: 'anchor-1',
+        fromSequence: 1,
+        toSequence: 3,
+        status: 'PENDING',
+        txHash: signed.txHash,
+        signedTx: signed.rawTx,
+        createdAt: new Date(),
+      });
+      mockPrisma.events.findMany.mockResolvedValue([]);
+
+      await service.anchorPending();
+
+      expect(anchors[0]).toMatchObject({ status: 'CONFIRMED', blockNumber: 2 });
+    });
+
+    it('should re-broadcast an interrupted anchor and wait for it before anchoring more', async () => {
+      await connect();
+      const signed = await blockchain.signAnchor(`0x${'cd'.repeat(32)}`);
+      anchors.push({
+        id: 'anchor-1',
+        fromSequence: 1,
+        toSequence: 3,
+        status: 'PENDING',
+        txHash: signed.txHash,
+        signedTx: signed.rawTx,
+        createdAt: new Date(),
+      });
+
+      const result = await service.anchorPending();
+
+      expect(result).toBeNull();
+      expect(node.transactions.has(signed.txHash)).toBe(true);
+      expect(anchors[0].status).toBe('PENDING');
+      expect(mockPrisma.event_anchors.create).not.toHaveBeenCalled();
+    });
+
+    it('should only fail an unsigned anchor once it is stale', async () => {
+      await connect();
+      mockPrisma.events.findMany.mockResolvedValue([]);
+      anchors.push(
+        { id: 'stale', status: 'PENDING', createdAt: new Date(Date.now() - 60 * 60 * 1000) },
+        { id: 'fresh', status: 'PENDING', createdAt: new Date() }
+      );
+
+      await service.anchorPending();
+
+      expect(anchors[0]).toMatchObject({ status: 'FAILED' });
+      expect(anchors[1]).toMatchObject({ status: 'PENDING' });
+    });
+  });
+
+  describe('getProof()', () => {
+    const root = getMerkleRoot(events.map((e) => e.chainHash));
+    const anchor = {
+      id: 'anchor-1',
+      fromSequence: 1,
+      toSequence: 3,
+      eventCount: 3,
+      merkleRoot: root,
+      status: 'CONFIRMED',
+      txHash: `0x${'ab'.repeat(32)}`,
+      chainId: CHAIN_ID,
+      blockNumber: 2,
+      anchoredAt: new Date(),
+    };
+
+    it('should return an inclusion proof that verifies against the anchored root', async () => {
+      await connect();
+      mockPrisma.events.findUnique.mockResolvedValue(events[2]);
+      mockPrisma.event_anchors.findFirst.mockResolvedValue(anchor);
+
+      const proof = await service.getProof('event-3');
+
+      expect(proof.merkleRoot).toBe(root);
+      expect(proof.anchor.txHash).toBe(anchor.txHash);
+      expect(verifyMerkleProof(proof.chainHash, proof.proof, proof.merkleRoot)).toBe(true);
+    });
+
+    it('should refuse a proof when the covered events no longer match the root', async () => {
+      await connect();
+      mockPrisma.events.findUnique.mockResolvedValue(events[0]);
+      mockPrisma.event_anchors.findFirst.mockResolvedValue(anchor);
+      mockPrisma.events.findMany.mockResolvedValue([events[0], events[2]]);
+
+      await expect(service.getProof('event-1')).rejects.toThrow(ConflictError);
+    });
+  });
+});
@@ -0,0 +1,35 @@
+import crypto from 'crypto';
+import { getMerkleRoot, getMerkleProof, verifyMerkleProof, hashLeaf } from '../merkle';
+
+const leaf = (n: number) => crypto.createHash('sha256').update(`event-${n}`).digest('hex');
+
+describe('merkle', () => {
+  it('should use the hashed leaf as the root of a single-leaf tree', () => {
+    expect(getMerkleRoot([leaf(1)])).toBe(hashLeaf(leaf(1)));
+    expect(getMerkleProof([leaf(1)], 0)).toEqual([]);
+  });
+
+  it('should produce proofs that verify for every leaf, including odd-sized trees', () => {
+    for (let size = 1; size <= 9; size++) {
+      const values = Array.from({ length: size }, (_, i) => leaf(i));
+      const root = getMerkleRoot(values);
+
+      values.forEach((value, index) => {
+        expect(verifyMerkleProof(value, getMerkleProof(values, index), root)).toBe(true);
+      });
+    }
+  });
+
+  it('should reject a proof for a different leaf or a reordered tree', () => {
+    const values = [leaf(1), leaf(2), leaf(3), leaf(4)];
+    const root = getMerkleRoot(values);
+    const proof = getMerkleProof(values, 1);
+
+    expect(verifyMerkleProof(leaf(5), proof, root)).toBe(false);
+    expect(getMerkleRoot([leaf(2), leaf(1), leaf(3), leaf(4)])).not.toBe(root);
+  });
+
+  it('should refuse to build an empty tree', () => {
+    expect(() => getMerkleRoot([])).toThrow('without leaves');
+  });
+});
@@ -0,0 +1,46 @@
+import { env } from '../../config/env';
+import { prisma } from '../../config/database';
+import { logger } from '../../utils/logger';
+import { blockchainService } from '../blockchain.service';
+import { EventAnchorService } from './EventAnchorService';
+
+/**
+ * Start the periodic event-chain anchoring job
+ * Disabled unless ANCHOR_RPC_URL and ANCHOR_PRIVATE_KEY are set.
+ * Returns a function that stops the job, or null when disabled.
+ */
+export const startAnchorScheduler = (): (() => void) | null => {
+  if (!env.ANCHOR_RPC_URL || !env.ANCHOR_PRIVATE_KEY) {
+    logger.info('Event anchoring disabled (ANCHOR_RPC_URL / ANCHOR_PRIVATE_KEY not set)');
+    return null;
+  }
+
+  blockchainService.initializeProvider(env.ANCHOR_RPC_URL);
+  blockchainService.initializeSigner(env.ANCHOR_PRIVATE_KEY);
+
+  const anchorService = new EventAnchorService(prisma, blockchainService, {
+    maxEventsPerAnchor: env.ANCHOR_MAX_EVENTS,
+    anchorAddress: env.ANCHOR_TO_ADDRESS || undefined,
+  });
+
+  let running = false;
+  const run = async () => {
+    // Skip a tick rather than overlap with a slow confirmation
+    if (running) return;
+    running = true;
+    try {
+      await anchorService.anchorPending();
+    } catch (error) {
+      logger.error('Event anchoring run failed:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(run, env.ANCHOR_INTERVAL_MINUTES * 60 * 1000);
+  timer.unref();
+
+  logger.info(`Event anchoring scheduled every ${env.ANCHOR_INTERVAL_MINUTES} minutes`);
+
+  return () => clearInterval(timer);
+};
@@ -0,0 +1,92 @@
+import crypto from 'crypto';
+
+/**
+ * Merkle tree over event chain hashes
+ *
+ * Leaves and internal nodes are domain-separated (0x00 / 0x01 prefixes) so a
+ * leaf can never be passed off as an internal node. An odd node at the end of a
+ * level is promoted unchanged rather than duplicated.
+ */
+
+export interface MerkleProofStep {
+  position: 'left' | 'right';
+  hash: string;
+}
+
+const sha256 = (...parts: Buffer[]): string =>
+  crypto.createHash('sha256').update(Buffer.concat(parts)).digest('hex');
+
+export const hashLeaf = (value: string): string =>
+  sha256(Buffer.from([0x00]), Buffer.from(value, 'hex'));
+
+const hashNode = (left: string, right: string): string =>
+  sha256(Buffer.from([0x01]), Buffer.from(left, 'hex'), Buffer.from(right, 'hex'));
+
+/**
+ * Build every level of the tree, leaves first and root last
+ */
+export const buildMerkleLevels = (values: string[]): string[][] => {
+  if (values.length === 0) {
+    throw new Error('Cannot build a Merkle tree without leaves');
+  }
+
+  const levels: string[][] = [values.map(hashLeaf)];
+
+  while (levels[levels.length - 1].length > 1) {
+    const current = levels[levels.length - 1];
+    const next: string[] = [];
+    for (let i = 0; i < current.length; i += 2) {
+      next.push(i + 1 < current.length ? hashNode(current[i], current[i + 1]) : current[i]);
+    }
+    levels.push(next);
+  }
+
+  return levels;
+};
+
+export const getMerkleRoot = (values: string[]): string => {
+  const levels = buildMerkleLevels(values);
+  return levels[levels.length - 1][0];
+};
+
+/**
+ * Sibling hashes from the leaf at `index` up to the root
+ */
+export const getMerkleProof = (values: string[], index: number): MerkleProofStep[] => {
+  if (index < 0 || index >= values.length) {
+    throw new Error(`Leaf index ${index} is out of range`);
+  }
+
+  const levels = buildMerkleLevels(values);
+  const proof: MerkleProofStep[] = [];
+  let position = index;
+
+  for (const level of levels.slice(0, -1)) {
+    const siblingIndex = position % 2 === 0 ? position + 1 : position - 1;
+    if (siblingIndex < level.length) {
+      proof.push({
+        position: position % 2 === 0 ? 'right' : 'left',
+        hash: level[siblingIndex],
+      });
+    }
+    position = Math.floor(position / 2);
+  }
+
+  return proof;
+};
+
+/**
+ * Recompute the root from a leaf value and its proof
+ */
+export const verifyMerkleProof = (
+  value: string,
+  proof: MerkleProofStep[],
+  root: string
+): boolean => {
+  const computed = proof.reduce(
+    (hash, step) =>
+      step.position === 'left' ? hashNode(step.hash, hash) : hashNode(hash, step.hash),
+    hashLeaf(value)
+  );
+  return computed === root;
+};
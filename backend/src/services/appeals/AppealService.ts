@@ -0,0 +1,379 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { generateId } from '../../utils/idGenerator';
+import { EventService } from '../events/EventService';
+import { CLOSED_INCIDENT_STATUSES, IncidentStatus } from '../incidents/IncidentService';
+import { AnalyzerOverturnRate, DecideAppealDTO, FileAppealDTO } from '../../types';
+import { AuthorizationError, ConflictError, NotFoundError, ValidationError } from '../../types';
+
+/**
+ * Entity types whose content is moderated on write and can be appealed
+ */
+export const APPEALABLE_ENTITY_TYPES = ['CONTRIBUTION', 'PROPOSAL', 'SUBMISSION'] as const;
+
+type AppealableEntityType = (typeof APPEALABLE_ENTITY_TYPES)[number];
+
+const MIN_APPEAL_REASON_LENGTH = 20;
+const MIN_DECISION_NOTES_LENGTH = 10;
+
+const CLEAR_CATEGORIES = {
+  harassment: 0,
+  hate: 0,
+  selfHarm: 0,
+  violence: 0,
+  sexual: 0,
+  spam: 0,
+};
+
+export const APPEAL_INCLUDE = {
+  safety_moderation_results: {
+    include: {
+      safety_incidents: {
+        select: { id: true, status: true, assignedTo: true, resolvedById: true },
+      },
+    },
+  },
+  users_safety_appeals_appellantIdTousers: { select: { id: true, email: true } },
+  users_safety_appeals_decidedByIdTousers: { select: { id: true, email: true } },
+} satisfies Prisma.safety_appealsInclude;
+
+export type AppealRecord = Prisma.safety_appealsGetPayload<{ include: typeof APPEAL_INCLUDE }>;
+
+/**
+ * AppealService - Lets authors contest moderation decisions on their content
+ *
+ * Business Rules:
+ * - Only the author of flagged or held content can appeal, once per moderation result,
+ *   with a reason of at least 20 characters
+ * - The appeal is decided by a moderator who is neither the appellant nor the
+ *   moderator who handled the original incident
+ * - An overturned appeal restores the content (moderation status CLEAR), records a
+ *   MANUAL moderation result and dismisses the incident if it is still open
+ * - Overturn rates are tracked per analyzer that contributed to the original result
+ * - Filing and deciding are logged via EventService against the appeal
+ */
+export class AppealService {
+  constructor(
+    private prisma: PrismaClient,
+    private eventService: EventService
+  ) {}
+
+  /**
+   * Appeal the latest flagged moderation result for the author's content
+   */
+  async file(userId: string, data: FileAppealDTO) {
+    const reason = data.reason?.trim() || '';
+
+    if (reason.length < MIN_APPEAL_REASON_LENGTH) {
+      throw new ValidationError(
+        `Appeal reason must be at least ${MIN_APPEAL_REASON_LENGTH} characters`
+      );
+    }
+
+    if (!APPEALABLE_ENTITY_TYPES.includes(data.entityType as AppealableEntityType)) {
+      throw new ValidationError(
+        `Only ${APPEALABLE_ENTITY_TYPES.join(', ')} content can be appealed`
+      );
+    }
+
+    const entityType = data.entityType as AppealableEntityType;
+    const entity = await this.findEntity(entityType, data.entityId);
+
+    if (!entity) {
+      throw new NotFoundError(entityType.charAt(0) + entityType.slice(1).toLowerCase());
+    }
+
+    if (entity.authorId !== userId) {
+      throw new AuthorizationError('Only the author can appeal a moderation decision');
+    }
+
+    if (entity.moderationStatus === 'CLEAR') {
+      throw new ValidationError('This content is not held or flagged by moderation');
+    }
+
+    const result = await this.prisma.safety_moderation_results.findFirst({
+      where: { entityType, entityId: data.entityId, flagged: true },
+      orderBy: { createdAt: 'desc' },
+      include: { safety_appeals: { select: { id: true } } },
+    });
+
+    if (!result) {
+      throw new ValidationError('No moderation decision found for this content');
+    }
+
+    if (result.safety_appeals) {
+      throw new ConflictError('This moderation decision has already been appealed');
+    }
+
+    const appeal = await this.prisma.safety_appeals.create({
+      data: {
+        id: generateId(),
+        moderationResultId: result.id,
+        appellantId: userId,
+        reason,
+      },
+      include: APPEAL_INCLUDE,
+    });
+
+    await this.eventService.emit({
+      actorId: userId,
+      entityType: 'SAFETY_APPEAL',
+      entityId: appeal.id,
+      action: 'APPEAL_FILED',
+      snapshot: { reason },
+      metadata: {
+        moderationResultId: result.id,
+        entityType,
+        entityId: data.entityId,
+      },
+    });
+
+    return appeal;
+  }
+
+  /**
+   * Appeals for moderators, oldest first
+   */
+  async list(status?: string) {
+    return this.prisma.safety_appeals.findMany({
+      where: status ? { status } : {},
+      include: APPEAL_INCLUDE,
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  /**
+   * Appeals filed by a user, newest first
+   */
+  async listForAppellant(userId: string) {
+    return this.prisma.safety_appeals.findMany({
+      where: { appellantId: userId },
+      include: APPEAL_INCLUDE,
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  /**
+   * Uphold or overturn an appeal
+   */
+  async decide(appealId: string, moderatorId: string, data: DecideAppealDTO) {
+    if (data.decision !== 'UPHELD' && data.decision !== 'OVERTURNED') {
+      throw new ValidationError('Decision must be UPHELD or OVERTURNED');
+    }
+
+    const notes = data.notes?.trim() || '';
+
+    if (notes.length < MIN_DECISION_NOTES_LENGTH) {
+      throw new ValidationError(
+        `Decision notes must be at least ${MIN_DECISION_NOTES_LENGTH} characters`
+      );
+    }
+
+    const appeal = await this.prisma.safety_appeals.findUnique({
+      where: { id: appealId },
+      include: APPEAL_INCLUDE,
+    });
+
+    if (!appeal) {
+      throw new NotFoundError('Appeal');
+    }
+
+    if (appeal.status !== 'PENDING') {
+      throw new ConflictError(`Appeal has already been ${appeal.status.toLowerCase()}`);
+    }
+
+    const result = appeal.safety_moderation_results;
+    const incident = result.safety_incidents;
+    const originalReviewers = [incident?.assignedTo, incident?.resolvedById];
+
+    if (moderatorId === appeal.appellantId || originalReviewers.includes(moderatorId)) {
+      throw new AuthorizationError(
+        'Appeals must be decided by a moderator who did not review the original decision'
+      );
+    }
+
+    const overturned = data.decision === 'OVERTURNED';
+    const now = new Date();
+
+    const updated = await this.prisma.$transaction(async (tx) => {
+      // Only one decision can win if two moderators decide the appeal at once
+      const { count } = await tx.safety_appeals.updateMany({
+        where: { id: appealId, status: 'PENDING' },
+        data: {
+          status: data.decision,
+          decidedById: moderatorId,
+          decisionNotes: notes,
+          decidedAt: now,
+        },
+      });
+
+      if (count === 0) {
+        throw new ConflictError('Appeal has already been decided');
+      }
+
+      if (overturned) {
+        await this.restoreEntity(tx, result.entityType as AppealableEntityType, result.entityId);
+
+        await tx.safety_moderation_results.create({
+          data: {
+            id: generateId(),
+            entityType: result.entityType,
+            entityId: result.entityId,
+            overallScore: 0,
+            categories: CLEAR_CATEGORIES,
+            flagged: false,
+            autoBlocked: false,
+            detectionMethod: 'MANUAL',
+            confidence: 1,
+            analyzers: [],
+            incidentId: result.incidentId,
+          },
+        });
+
+        if (incident && !CLOSED_INCIDENT_STATUSES.includes(incident.status as IncidentStatus)) {
+          await tx.safety_incidents.update({
+            where: { id: incident.id },
+            data: {
+              status: 'DISMISSED',
+              resolution: `Overturned on appeal: ${notes}`,
+              resolvedById: moderatorId,
+              closedAt: now,
+            },
+          });
+        }
+      }
+
+      return tx.safety_appeals.findUniqueOrThrow({
+        where: { id: appealId },
+        include: APPEAL_INCLUDE,
+      });
+    });
+
+    await this.eventService.emit({
+      actorId: moderatorId,
+      entityType: 'SAFETY_APPEAL',
+      entityId: appealId,
+      action: overturned ? 'APPEAL_OVERTURNED' : 'APPEAL_UPHELD',
+      snapshot: { notes },
+      metadata: {
+        moderationResultId: result.id,
+        entityType: result.entityType,
+        entityId: result.entityId,
+        analyzers: result.analyzers,
+        incidentId: result.incidentId,
+      },
+    });
+
+    return updated;
+  }
+
+  /**
+   * Share of each analyzer's flags that were overturned on appeal
+   */
+  async getOverturnRates(): Promise<AnalyzerOverturnRate[]> {
+    const [flaggedCounts, decided] = await Promise.all([
+      this.prisma.$queryRaw<{ analyzer: string; flagged: number }[]>`
+        SELECT analyzer, COUNT(*)::int AS flagged
+        FROM safety_moderation_results, unnest(analyzers) AS analyzer
+        WHERE flagged = true
+        GROUP BY analyzer
+      `,
+      this.prisma.safety_appeals.findMany({
+        where: { status: { in: ['UPHELD', 'OVERTURNED'] } },
+        select: { status: true, safety_moderation_results: { select: { analyzers: true } } },
+      }),
+    ]);
+
+    const rates = new Map<string, AnalyzerOverturnRate>();
+    const rateFor = (analyzer: string) => {
+      let rate = rates.get(analyzer);
+      if (!rate) {
+        rate = { analyzer, flagged: 0, appealsDecided: 0, overturned: 0, overturnRate: 0 };
+        rates.set(analyzer, rate);
+      }
+      return rate;
+    };
+
+    for (const row of flaggedCounts) {
+      rateFor(row.analyzer).flagged = Number(row.flagged);
+    }
+
+    for (const appeal of decided) {
+      for (const analyzer of appeal.safety_moderation_results.analyzers) {
+        const rate = rateFor(analyzer);
+        rate.appealsDecided += 1;
+        if (appeal.status === 'OVERTURNED') rate.overturned += 1;
+      }
+    }
+
+    return [...rates.values()]
+      .map((rate) => ({
+        ...rate,
+        overturnRate: rate.flagged > 0 ? rate.overturned / rate.flagged : 0,
+      }))
+      .sort((a, b) => b.overturnRate - a.overturnRate);
+  }
+
+  private async findEntity(
+    entityType: AppealableEntityType,
+    entityId: string
+  ): Promise<{ authorId: string; moderationStatus: string } | null> {
+    switch (entityType) {
+      case 'CONTRIBUTION': {
+        const contribution = await this.prisma.contributions.findUnique({
+          where: { id: entityId },
+          select: { userId: true, moderationStatus: true },
+        });
+        return (
+          contribution && {
+            authorId: contribution.userId,
+            moderationStatus: contribution.moderationStatus,
+          }
+        );
+      }
+      case 'PROPOSAL': {
+        const proposal = await this.prisma.proposals.findUnique({
+          where: { id: entityId },
+          select: { contributorId: true, moderationStatus: true },
+        });
+        return (
+          proposal && {
+            authorId: proposal.contributorId,
+            moderationStatus: proposal.moderationStatus,
+          }
+        );
+      }
+      case 'SUBMISSION': {
+        const submission = await this.prisma.submissions.findUnique({
+          where: { id: entityId },
+          select: { contributorId: true, moderationStatus: true },
+        });
+        return (
+          submission && {
+            authorId: submission.contributorId,
+            moderationStatus: submission.moderationStatus,
+          }
+        );
+      }
+    }
+  }
+
+  private async restoreEntity(
+    tx: Prisma.TransactionClient,
+    entityType: AppealableEntityType,
+    entityId: string
+  ): Promise<void> {
+    const data = { moderationStatus: 'CLEAR', updatedAt: new Date() };
+
+    switch (entityType) {
+      case 'CONTRIBUTION':
+        await tx.contributions.update({ where: { id: entityId }, data });
+        break;
+      case 'PROPOSAL':
+        await tx.proposals.update({ where: { id: entityId }, data });
+        break;
+      case 'SUBMISSION':
+        await tx.submissions.update({ where: { id: entityId }, data });
+        break;
+    }
+  }
+}
@@ -0,0 +1,298 @@
+import { AppealService } from '../AppealService';
+import { EventService } from '../../events/EventService';
+import { AuthorizationError, ConflictError, NotFoundError, ValidationError } from '../../../types';
+
+jest.mock('../../../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+  },
+}));
+
+describe('AppealService', () => {
+  let service: AppealService;
+  let mockPrisma: any;
+  let mockEventService: jest.Mocked<EventService>;
+
+  const authorId = 'author-123';
+  const moderatorId = 'moderator-456';
+  const reason = 'The quoted text is from the brief, not my own words.';
+
+  const moderationResult = {
+    id: 'result-123',
+    entityType: 'PROPOSAL',
+    entityId: 'proposal-123',
+    overallScore: 0.95,
+    flagged: true,
+    autoBlocked: true,
+    detectionMethod: 'LOCAL',
+    analyzers: ['local'],
+    incidentId: 'incident-123',
+    safety_incidents: {
+      id: 'incident-123',
+      status: 'INVESTIGATING',
+      assignedTo: 'moderator-original',
+      resolvedById: null,
+    },
+  };
+
+  const pendingAppeal = {
+    id: 'appeal-123',
+    moderationResultId: moderationResult.id,
+    appellantId: authorId,
+    reason,
+    status: 'PENDING',
+    safety_moderation_results: moderationResult,
+  };
+
+  beforeEach(() => {
+    mockPrisma = {
+      proposals: {
+        findUnique: jest.fn(),
+        update: jest.fn(),
+      },
+      contributions: {
+        findUnique: jest.fn(),
+        update: jest.fn(),
+      },
+      submissions: {
+        findUnique: jest.fn(),
+        update: jest.fn(),
+      },
+      safety_moderation_results: {
+        findFirst: jest.fn(),
+        create: jest.fn(),
+      },
+      safety_incidents: {
+        update: jest.fn(),
+      },
+      safety_appeals: {
+        create: jest.fn(),
+        findUnique: jest.fn(),
+        findUniqueOrThrow: jest.fn(),
+        findMany: jest.fn(),
+        updateMany: jest.fn(),
+      },
+      $queryRaw: jest.fn(),
+      $transaction: jest.fn((fn: any) => fn(mockPrisma)),
+    };
+
+    mockEventService = {
+      emit: jest.fn(),
+      getTrail: jest.fn(),
+      getByActor: jest.fn(),
+      getRecent: jest.fn(),
+    } as any;
+
+    service = new AppealService(mockPrisma as any, mockEventService);
+    jest.clearAllMocks();
+
+    mockPrisma.$transaction.mockImplementation((fn: any) => fn(mockPrisma));
+    mockPrisma.safety_appeals.create.mockImplementation(({ data }: any) =>
+      Promise.resolve({ ...data, status: 'PENDING' })
+    );
+    mockPrisma.safety_appeals.updateMany.mockImplementation(({ data }: any) => {
+      mockPrisma.safety_appeals.findUniqueOrThrow.mockResolvedValue({ ...pendingAppeal, ...data });
+      return Promise.resolve({ count: 1 });
+    });
+  });
+
+  describe('file', () => {
+    const data = { entityType: 'PROPOSAL', entityId: 'proposal-123', reason };
+
+    it('should attach the appeal to the latest flagged moderation result', async () => {
+      mockPrisma.proposals.findUnique.mockResolvedValue({
+        contributorId: authorId,
+        moderationStatus: 'QUARANTINED',
+      });
+      mockPrisma.safety_moderation_results.findFirst.mockResolvedValue({
+        ...moderationResult,
+        safety_appeals: null,
+      });
+
+      const appeal = await service.file(authorId, data);
+
+      expect(mockPrisma.safety_moderation_results.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { entityType: 'PROPOSAL', entityId: 'proposal-123', flagged: true },
+          orderBy: { createdAt: 'desc' },
+        })
+      );
+      expect(appeal).toMatchObject({
+        moderationResultId: moderationResult.id,
+        appellantId: authorId,
+        reason,
+      });
+      expect(mockEventService.emit).toHaveBeenCalledWith(
+        expect.objectContaining({ entityType: 'SAFETY_APPEAL', action: 'APPEAL_FILED' })
+      );
+    });
+
+    it('should only let the author appeal', async () => {
+      mockPrisma.proposals.findUnique.mockResolvedValue({
+        contributorId: 'someone-else',
+        moderationStatus: 'QUARANTINED',
+      });
+
+      await expect(service.file(authorId, data)).rejects.toThrow(AuthorizationError);
+    });
+
+    it('should reject content that is not held or flagged', async () => {
+      mockPrisma.proposals.findUnique.mockResolvedValue({
+        contributorId: authorId,
+        moderationStatus: 'CLEAR',
+      });
+
+      await expect(service.file(authorId, data)).rejects.toThrow(ValidationError);
+    });
+
+    it('should reject a second appeal on the same decision', async () => {
+      mockPrisma.proposals.findUnique.mockResolvedValue({
+        contributorId: authorId,
+        moderationStatus: 'FLAGGED',
+      });
+      mockPrisma.safety_moderation_results.findFirst.mockResolvedValue({
+        ...moderationResult,
+        safety_appeals: { id: 'appeal-old' },
+      });
+
+      await expect(service.file(authorId, data)).rejects.toThrow(ConflictError);
+    });
+
+    it('should throw NotFoundError for unknown content', async () => {
+      mockPrisma.proposals.findUnique.mockResolvedValue(null);
+
+      await expect(service.file(authorId, data)).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('decide', () => {
+    it('should restore the content and record a MANUAL result when overturned', async () => {
+      mockPrisma.safety_appeals.findUnique.mockResolvedValue(pendingAppeal);
+
+      const appeal = await service.decide('appeal-123', moderatorId, {
+        decision: 'OVERTURNED',
+        notes: 'Quote from the challenge brief',
+      });
+
+      expect(appeal.status).toBe('OVERTURNED');
+      expect(mockPrisma.proposals.update).toHaveBeenCalledWith({
+        where: { id: 'proposal-123' },
+        data: expect.objectContaining({ moderationStatus: 'CLEAR' }),
+      });
+      expect(mockPrisma.safety_moderation_results.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          entityType: 'PROPOSAL',
+          entityId: 'proposal-123',
+          detectionMethod: 'MANUAL',
+          flagged: false,
+          autoBlocked: false,
+          incidentId: 'incident-123',
+        }),
+      });
+      expect(mockPrisma.safety_incidents.update).toHaveBeenCalledWith({
+        where: { id: 'incident-123' },
+        data: expect.objectContaining({ status: 'DISMISSED', resolvedById: moderatorId }),
+      });
+      expect(mockEventService.emit).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'APPEAL_OVERTURNED',
+          metadata: expect.objectContaining({ analyzers: ['local'] }),
+        })
+      );
+    });
+
+    it('should leave the content held when upheld', async () => {
+      mockPrisma.safety_appeals.findUnique.mockResolvedValue(pendingAppeal);
+
+      const appeal = await service.decide('appeal-123', moderatorId, {
+        decision: 'UPHELD',
+        notes: 'Targets another contributor',
+      });
+
+      expect(appeal.status).toBe('UPHELD');
+      expect(mockPrisma.proposals.update).not.toHaveBeenCalled();
+      expect(mockPrisma.safety_moderation_results.create).not.toHaveBeenCalled();
+      expect(mockEventService.emit).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'APPEAL_UPHELD' })
+      );
+    });
+
+    it('should not let the original reviewer decide', async () => {
+      mockPrisma.safety_appeals.findUnique.mockResolvedValue(pendingAppeal);
+
+      await expect(
+        service.decide('appeal-123', 'moderator-original', {
+          decision: 'OVERTURNED',
+          notes: 'I was wrong the first time',
+        })
+      ).rejects.toThrow(AuthorizationError);
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should not let the appellant decide their own appeal', async () => {
+      mockPrisma.safety_appeals.findUnique.mockResolvedValue(pendingAppeal);
+
+      await expect(
+        service.decide('appeal-123', authorId, {
+          decision: 'OVERTURNED',
+          notes: 'Looks fine to me honestly',
+        })
+      ).rejects.toThrow(AuthorizationError);
+    });
+
+    it('should reject appeals that are already decided', async () => {
+      mockPrisma.safety_appeals.findUnique.mockResolvedValue({
+        ...pendingAppeal,
+        status: 'UPHELD',
+      });
+
+      await expect(
+        service.decide('appeal-123', moderatorId, {
+          decision: 'OVERTURNED',
+          notes: 'Second opinion on this',
+        })
+      ).rejects.toThrow(ConflictError);
+    });
+
+    it('should reject a decision that lost the race to another moderator', async () => {
+      mockPrisma.safety_appeals.findUnique.mockResolvedValue(pendingAppeal);
+      mockPrisma.safety_appeals.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(
+        service.decide('appeal-123', moderatorId, {
+          decision: 'OVERTURNED',
+          notes: 'Quote from the challenge brief',
+        })
+      ).rejects.toThrow('Appeal has already been decided');
+      expect(mockPrisma.safety_appeals.updateMany).toHaveBeenCalledWith({
+        where: { id: 'appeal-123', status: 'PENDING' },
+        data: expect.objectContaining({ status: 'OVERTURNED', decidedById: moderatorId }),
+      });
+      expect(mockPrisma.proposals.update).not.toHaveBeenCalled();
+      expect(mockEventService.emit).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getOverturnRates', () => {
+    it('should compute overturned flags per analyzer', async () => {
+      mockPrisma.$queryRaw.mockResolvedValue([
+        { analyzer: 'local', flagged: 10 },
+        { analyzer: 'openai', flagged: 4 },
+      ]);
+      mockPrisma.safety_appeals.findMany.mockResolvedValue([
+        { status: 'OVERTURNED', safety_moderation_results: { analyzers: ['local'] } },
+        { status: 'OVERTURNED', safety_moderation_results: { analyzers: ['local', 'openai'] } },
+        { status: 'UPHELD', safety_moderation_results: { analyzers: ['local', 'openai'] } },
+      ]);
+
+      const rates = await service.getOverturnRates();
+
+      expect(rates).toEqual([
+        { analyzer: 'openai', flagged: 4, appealsDecided: 2, overturned: 1, overturnRate: 0.25 },
+        { analyzer: 'local', flagged: 10, appealsDecided: 3, overturned: 2, overturnRate: 0.2 },
+      ]);
+    });
+  });
+});
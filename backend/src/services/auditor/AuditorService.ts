@@ -1,4 +1,7 @@
-import { PrismaClient } from '@prisma/client';
+import { Prisma, PrismaClient, users } from '@prisma/client';
+import { IP_AGREEMENT_VERSION } from '../ip/agreement';
+import { ChainCheckpoint, EventService } from '../events/EventService';
+import { hasCurrentKyc } from '../kyc/KycService';
 
 interface ComplianceCheck {
   name: string;
@@ -22,7 +25,13 @@ interface PayoutValidation {
 }
 
 export class AuditorService {
-  constructor(private prisma: PrismaClient) {}
+  private eventService: EventService;
+  // Head of the global chain at the last clean heartbeat; later heartbeats only walk what was appended since
+  private lastVerifiedCheckpoint: ChainCheckpoint | null = null;
+
+  constructor(private prisma: PrismaClient) {
+    this.eventService = new EventService(prisma);
+  }
 
   /**
    * Compliance heartbeat - system health check
@@ -35,6 +44,7 @@ export class AuditorService {
       this.checkCompositionManifest(challengeId),
       this.checkPayoutTolerance(challengeId),
       this.checkEventIntegrity(challengeId),
+      this.checkIR35Status(challengeId),
     ]);
 
     const hasRed = checks.some(c => c.status === 'RED');
@@ -60,6 +70,7 @@ export class AuditorService {
       where: { id: challengeId },
       include: {
         contributions: {
+          where: { moderationStatus: { not: 'QUARANTINED' } },
           include: { users: true }
         },
         composition_manifests: true,
@@ -88,14 +99,28 @@ export class AuditorService {
       }
     }
 
-    // Check 2: All contributors have KYC verified
-    for (const contrib of challenge.contributions) {
-      if (contrib.users.kycStatus !== 'VERIFIED') {
-        violations.push(`Contributor ${contrib.users.email} KYC not verified`);
+    // Check 2: Everyone who contributed or is paid by the proposal has KYC and their email verified
+    for (const recipient of await this.getPayoutRecipients(challenge)) {
+      if (recipient.kycStatus === 'VERIFIED' && !hasCurrentKyc(recipient)) {
+        violations.push(`Recipient ${recipient.email} KYC expired`);
+      } else if (recipient.kycStatus !== 'VERIFIED') {
+        violations.push(`Recipient ${recipient.email} KYC not verified`);
+      }
+      if (!recipient.emailVerifiedAt) {
+        violations.push(`Recipient ${recipient.email} email not verified`);
       }
     }
 
-    // Check 3: Payout proposal exists and approved
+    // Check 3: All contributors have signed an IP assignment for this challenge
+    const ip = await this.getIPAssignmentGaps(challengeId);
+    if (ip.missing.length > 0) {
+      violations.push(`${ip.missing.length} contributors have not signed an IP assignment agreement`);
+    }
+    if (ip.outdated.length > 0) {
+      warnings.push(`${ip.outdated.length} IP assignment agreements were signed on an older version`);
+    }
+
+    // Check 4: Payout proposal exists and approved
     if (challenge.payout_proposals.length === 0) {
       violations.push('No payout proposal found');
     } else {
@@ -111,7 +136,7 @@ export class AuditorService {
       }
     }
 
-    // Check 4: Event trail exists
+    // Check 5: Event trail exists
     const events = await this.prisma.events.findMany({
       where: {
         entityType: 'CHALLENGE',
@@ -131,6 +156,32 @@ export class AuditorService {
     };
   }
 
+  /**
+   * Contributors of a challenge plus everyone its latest payout proposal pays
+   * The distribution may name users who made no contribution (e.g. listed only
+   * in the manifest), and they are paid all the same
+   */
+  private async getPayoutRecipients(challenge: {
+    contributions: { users: users }[];
+    payout_proposals: { distribution: Prisma.JsonValue }[];
+  }): Promise<users[]> {
+    const recipients = new Map(challenge.contributions.map(c => [c.users.id, c.users]));
+
+    const distribution = challenge.payout_proposals[0]?.distribution;
+    const payeeIds = (Array.isArray(distribution) ? distribution : [])
+      .map(entry => (entry as { userId?: unknown } | null)?.userId)
+      .filter((id): id is string => typeof id === 'string' && !recipients.has(id));
+
+    if (payeeIds.length > 0) {
+      const payees = await this.prisma.users.findMany({
+        where: { id: { in: [...new Set(payeeIds)] } },
+      });
+      payees.forEach(user => recipients.set(user.id, user));
+    }
+
+    return [...recipients.values()];
+  }
+
   /**
    * Generate evidence pack (placeholder)
    * TODO: Generate actual PDF with audit trail
@@ -149,9 +200,64 @@ export class AuditorService {
   // PRIVATE CHECK METHODS
   // ========================================================================
 
-  private async checkIPAssignments(_challengeId?: string): Promise<ComplianceCheck> {
-    // TODO: Implement actual IP assignment checking
-    // For now, return optimistic GREEN
+  private async checkIPAssignments(challengeId?: string): Promise<ComplianceCheck> {
+    if (!challengeId) {
+      // System-wide check: contributors on active challenges without a signed agreement
+      const contributions = await this.prisma.contributions.findMany({
+        where: { challenges: { status: 'IN_PROGRESS' }, moderationStatus: { not: 'QUARANTINED' } },
+        select: { challengeId: true, userId: true },
+        distinct: ['challengeId', 'userId'],
+      });
+      const signed = await this.prisma.ip_assignments.findMany({
+        where: { challenges: { status: 'IN_PROGRESS' } },
+        select: { challengeId: true, userId: true },
+      });
+
+      const signedKeys = new Set(signed.map(a => `${a.challengeId}:${a.userId}`));
+      const missing = contributions.filter(c => !signedKeys.has(`${c.challengeId}:${c.userId}`));
+
+      if (missing.length > 0) {
+        return {
+          name: 'IP Assignments',
+          status: 'AMBER',
+          details: `${missing.length} contributors on active challenges have not signed IP assignment agreements`,
+        };
+      }
+
+      return {
+        name: 'IP Assignments',
+        status: 'GREEN',
+        details: 'All contributors on active challenges have signed IP assignment agreements',
+      };
+    }
+
+    const { contributorIds, missing, outdated } = await this.getIPAssignmentGaps(challengeId);
+
+    if (contributorIds.length === 0) {
+      return {
+        name: 'IP Assignments',
+        status: 'GREEN',
+        details: 'No contributors yet',
+      };
+    }
+
+    if (missing.length > 0) {
+      return {
+        name: 'IP Assignments',
+        status: 'RED',
+        details: `${missing.length} of ${contributorIds.length} contributors have not signed IP assignment agreements`,
+        blocksAction: true,
+      };
+    }
+
+    if (outdated.length > 0) {
+      return {
+        name: 'IP Assignments',
+        status: 'AMBER',
+        details: `${outdated.length} contributors signed an older agreement version (current: ${IP_AGREEMENT_VERSION})`,
+      };
+    }
+
     return {
       name: 'IP Assignments',
       status: 'GREEN',
@@ -159,11 +265,39 @@ export class AuditorService {
     };
   }
 
+  /**
+   * Contributors on a challenge without a signed IP assignment, or signed on an old version
+   */
+  private async getIPAssignmentGaps(challengeId: string) {
+    const contributions = await this.prisma.contributions.findMany({
+      where: { challengeId, moderationStatus: { not: 'QUARANTINED' } },
+      select: { userId: true },
+    });
+    const contributorIds = [...new Set(contributions.map(c => c.userId))];
+
+    const assignments = contributorIds.length
+      ? await this.prisma.ip_assignments.findMany({
+          where: { challengeId, userId: { in: contributorIds } },
+          select: { userId: true, agreementVersion: true },
+        })
+      : [];
+
+    const byUser = new Map(assignments.map(a => [a.userId, a]));
+
+    return {
+      contributorIds,
+      missing: contributorIds.filter(id => !byUser.has(id)),
+      outdated: contributorIds.filter(
+        id => byUser.has(id) && byUser.get(id)!.agreementVersion !== IP_AGREEMENT_VERSION
+      ),
+    };
+  }
+
   private async checkKYCStatus(challengeId?: string): Promise<ComplianceCheck> {
     if (!challengeId) {
       // System-wide check
       const unverified = await this.prisma.users.count({
-        where: { kycStatus: 'PENDING' },
+        where: { kycStatus: { in: ['PENDING', 'EXPIRED'] } },
       });
 
       if (unverified > 0) {
@@ -179,13 +313,14 @@ export class AuditorService {
         where: { id: challengeId },
         include: {
           contributions: {
+            where: { moderationStatus: { not: 'QUARANTINED' } },
             include: { users: true },
           },
         },
       });
 
       const unverified = challenge?.contributions.filter(
-        c => c.users.kycStatus !== 'VERIFIED'
+        c => !hasCurrentKyc(c.users)
       ) || [];
 
       if (unverified.length > 0) {
@@ -288,28 +423,173 @@ export class AuditorService {
     };
   }
 
+  private async checkIR35Status(challengeId?: string): Promise<ComplianceCheck> {
+    const now = new Date();
+
+    if (!challengeId) {
+      // System-wide check: valid assessments still awaiting manual review
+      const pendingReview = await this.prisma.ir35_assessments.count({
+        where: { requiresReview: true, validUntil: { gt: now } },
+      });
+
+      if (pendingReview > 0) {
+        return {
+          name: 'IR35 Status',
+          status: 'AMBER',
+          details: `${pendingReview} IR35 assessments awaiting review`,
+        };
+      }
+
+      return {
+        name: 'IR35 Status',
+        status: 'GREEN',
+        details: 'No IR35 assessments awaiting review',
+      };
+    }
+
+    const contributions = await this.prisma.contributions.findMany({
+      where: { challengeId, moderationStatus: { not: 'QUARANTINED' } },
+      select: { userId: true },
+    });
+    const contributorIds = [...new Set(contributions.map(c => c.userId))];
+
+    if (contributorIds.length === 0) {
+      return {
+        name: 'IR35 Status',
+        status: 'GREEN',
+        details: 'No contributors to assess yet',
+      };
+    }
+
+    // Valid = not expired, and either scoped to this challenge or unscoped
+    const assessments = await this.prisma.ir35_assessments.findMany({
+      where: {
+        userId: { in: contributorIds },
+        validUntil: { gt: now },
+        OR: [{ challengeId }, { challengeId: null }],
+      },
+      select: { userId: true, requiresReview: true },
+    });
+
+    const assessed = new Set(assessments.map(a => a.userId));
+    const missing = contributorIds.filter(id => !assessed.has(id));
+
+    if (missing.length > 0) {
+      return {
+        name: 'IR35 Status',
+        status: 'RED',
+        details: `${missing.length} contributors have no valid IR35 assessment`,
+        blocksAction: true,
+      };
+    }
+
+    // A contributor is cleared if any of their valid assessments has been reviewed
+    const cleared = new Set(assessments.filter(a => !a.requiresReview).map(a => a.userId));
+    const needsReview = contributorIds.filter(id => !cleared.has(id));
+
+    if (needsReview.length > 0) {
+      return {
+        name: 'IR35 Status',
+        status: 'AMBER',
+        details: `${needsReview.length} contributors have IR35 assessments awaiting review`,
+      };
+    }
+
+    return {
+      name: 'IR35 Status',
+      status: 'GREEN',
+      details: 'All contributors have a valid IR35 assessment',
+    };
+  }
+
   private async checkEventIntegrity(challengeId?: string): Promise<ComplianceCheck> {
-    // Basic check: do we have event records?
-    const where = challengeId
-      ? { entityType: 'CHALLENGE', entityId: challengeId }
-      : {};
+    if (challengeId) {
+      const eventCount = await this.prisma.events.count({
+        where: { entityType: 'CHALLENGE', entityId: challengeId },
+      });
+
+      if (eventCount === 0) {
+        return {
+          name: 'Event Integrity',
+          status: 'AMBER',
+          details: 'No events found for this challenge',
+        };
+      }
+    }
+
+    // Walk the hash chain: the challenge's own chain, or the global chain from the last verified point
+    const checkpoint = challengeId ? null : await this.getVerifiedCheckpoint();
+
+    if (checkpoint) {
+      const checkpointEvent = await this.prisma.events.findUnique({
+        where: { sequence: checkpoint.sequence },
+        select: { id: true, chainHash: true },
+      });
+
+      if (checkpointEvent?.chainHash !== checkpoint.chainHash) {
+        this.lastVerifiedCheckpoint = null;
+        return {
+          name: 'Event Integrity',
+          status: 'RED',
+          details: `Event chain broken at verified event #${checkpoint.sequence}: chain hash changed since it was verified`,
+          blocksAction: true,
+        };
+      }
+    }
 
-    const eventCount = await this.prisma.events.count({ where });
+    const verification = challengeId
+      ? await this.eventService.verifyChain('CHALLENGE', challengeId)
+      : await this.eventService.verifyChain(undefined, undefined, checkpoint ?? undefined);
 
-    if (eventCount === 0 && challengeId) {
+    if (!verification.valid && verification.firstBrokenLink) {
+      const { eventId, sequence, reason } = verification.firstBrokenLink;
       return {
         name: 'Event Integrity',
-        status: 'AMBER',
-        details: 'No events found for this challenge',
+        status: 'RED',
+        details: `Event chain broken at event ${eventId} (#${sequence}): ${reason}`,
+        blocksAction: true,
       };
     }
 
-    // TODO: In Phase 4.2, verify content hashes
+    if (!challengeId && verification.headSequence !== null && verification.headHash) {
+      this.lastVerifiedCheckpoint = {
+        sequence: verification.headSequence,
+        chainHash: verification.headHash,
+      };
+    }
+
+    const legacyNote = verification.legacyEvents > 0
+      ? ` (${verification.legacyEvents} recorded before chaining)`
+      : '';
+    const sinceNote = checkpoint ? ` since #${checkpoint.sequence}` : '';
 
     return {
       name: 'Event Integrity',
       status: 'GREEN',
-      details: `${eventCount} events logged`,
+      details: `${verification.checkedEvents} events verified in hash chain${sinceNote}${legacyNote}`,
     };
   }
+
+  /**
+   * Where the global chain walk can resume: the head verified by an earlier
+   * heartbeat, otherwise the end of the latest confirmed on-chain anchor
+   */
+  private async getVerifiedCheckpoint(): Promise<ChainCheckpoint | null> {
+    if (this.lastVerifiedCheckpoint) return this.lastVerifiedCheckpoint;
+
+    const anchor = await this.prisma.event_anchors.findFirst({
+      where: { status: 'CONFIRMED' },
+      orderBy: { toSequence: 'desc' },
+      select: { toSequence: true },
+    });
+    if (!anchor) return null;
+
+    const anchoredHead = await this.prisma.events.findUnique({
+      where: { sequence: anchor.toSequence },
+      select: { chainHash: true },
+    });
+    if (!anchoredHead?.chainHash) return null;
+
+    return { sequence: anchor.toSequence, chainHash: anchoredHead.chainHash };
+  }
 }
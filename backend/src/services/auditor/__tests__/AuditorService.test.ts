@@ -1,4 +1,6 @@
 import { AuditorService } from '../AuditorService';
+import { IP_AGREEMENT_VERSION } from '../../ip/agreement';
+import { EventService } from '../../events/EventService';
 import { PrismaClient } from '@prisma/client';
 
 // Mock Prisma
@@ -6,6 +8,7 @@ jest.mock('@prisma/client', () => {
   const mockPrisma = {
     users: {
       count: jest.fn(),
+      findMany: jest.fn(),
     },
     challenges: {
       findUnique: jest.fn(),
@@ -19,6 +22,21 @@ jest.mock('@prisma/client', () => {
     events: {
       count: jest.fn(),
       findMany: jest.fn(),
+      findFirst: jest.fn(),
+      findUnique: jest.fn(),
+    },
+    event_anchors: {
+      findFirst: jest.fn(),
+    },
+    contributions: {
+      findMany: jest.fn(),
+    },
+    ir35_assessments: {
+      count: jest.fn(),
+      findMany: jest.fn(),
+    },
+    ip_assignments: {
+      findMany: jest.fn(),
     },
   };
 
@@ -35,6 +53,12 @@ describe('AuditorService', () => {
     mockPrisma = new PrismaClient();
     auditorService = new AuditorService(mockPrisma);
     jest.clearAllMocks();
+    mockPrisma.contributions.findMany.mockResolvedValue([]);
+    mockPrisma.ir35_assessments.count.mockResolvedValue(0);
+    mockPrisma.ir35_assessments.findMany.mockResolvedValue([]);
+    mockPrisma.ip_assignments.findMany.mockResolvedValue([]);
+    mockPrisma.events.findMany.mockResolvedValue([]);
+    mockPrisma.event_anchors.findFirst.mockResolvedValue(null);
   });
 
   describe('heartbeat()', () => {
@@ -46,7 +70,7 @@ describe('AuditorService', () => {
       const result = await auditorService.heartbeat();
 
       expect(result.overall).toBe('GREEN');
-      expect(result.checks).toHaveLength(5);
+      expect(result.checks).toHaveLength(6);
       expect(result.timestamp).toBeTruthy();
     });
 
@@ -95,6 +119,284 @@ describe('AuditorService', () => {
     });
   });
 
+  describe('IR35 check', () => {
+    const challengeId = 'challenge-123';
+
+    const getIR35Check = async (id?: string) => {
+      mockPrisma.challenges.findUnique.mockResolvedValue({ contributions: [] });
+      mockPrisma.composition_manifests.findUnique.mockResolvedValue(null);
+      mockPrisma.payout_proposals.findFirst.mockResolvedValue(null);
+      mockPrisma.events.count.mockResolvedValue(5);
+
+      const result = await auditorService.heartbeat(id);
+      return result.checks.find(c => c.name === 'IR35 Status');
+    };
+
+    it('should be RED when a contributor has no valid assessment', async () => {
+      mockPrisma.contributions.findMany.mockResolvedValue([
+        { userId: 'user-1' },
+        { userId: 'user-2' },
+      ]);
+      mockPrisma.ir35_assessments.findMany.mockResolvedValue([
+        { userId: 'user-1', requiresReview: false },
+      ]);
+
+      const check = await getIR35Check(challengeId);
+
+      expect(check?.status).toBe('RED');
+      expect(check?.blocksAction).toBe(true);
+      expect(mockPrisma.ir35_assessments.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            userId: { in: ['user-1', 'user-2'] },
+            validUntil: { gt: expect.any(Date) },
+            OR: [{ challengeId }, { challengeId: null }],
+          }),
+        })
+      );
+    });
+
+    it('should be AMBER when assessments await review', async () => {
+      mockPrisma.contributions.findMany.mockResolvedValue([{ userId: 'user-1' }]);
+      mockPrisma.ir35_assessments.findMany.mockResolvedValue([
+        { userId: 'user-1', requiresReview: true },
+      ]);
+
+      const check = await getIR35Check(challengeId);
+
+      expect(check?.status).toBe('AMBER');
+    });
+
+    it('should be GREEN when every contributor is assessed and reviewed', async () => {
+      mockPrisma.contributions.findMany.mockResolvedValue([{ userId: 'user-1' }]);
+      mockPrisma.ir35_assessments.findMany.mockResolvedValue([
+        { userId: 'user-1', requiresReview: true },
+        { userId: 'user-1', requiresReview: false },
+      ]);
+
+      const check = await getIR35Check(challengeId);
+
+      expect(check?.status).toBe('GREEN');
+    });
+
+    it('should report pending reviews system-wide', async () => {
+      mockPrisma.users.count.mockResolvedValue(0);
+      mockPrisma.ir35_assessments.count.mockResolvedValue(3);
+
+      const check = await getIR35Check();
+
+      expect(check?.status).toBe('AMBER');
+      expect(check?.details).toContain('3');
+    });
+  });
+
+  describe('IP assignment check', () => {
+    const challengeId = 'challenge-123';
+
+    const getIPCheck = async (id?: string) => {
+      mockPrisma.challenges.findUnique.mockResolvedValue({ contributions: [] });
+      mockPrisma.composition_manifests.findUnique.mockResolvedValue(null);
+      mockPrisma.payout_proposals.findFirst.mockResolvedValue(null);
+      mockPrisma.events.count.mockResolvedValue(5);
+
+      const result = await auditorService.heartbeat(id);
+      return result.checks.find(c => c.name === 'IP Assignments');
+    };
+
+    it('should be RED and block when a contributor has not signed', async () => {
+      mockPrisma.contributions.findMany.mockResolvedValue([
+        { userId: 'user-1' },
+        { userId: 'user-2' },
+      ]);
+      mockPrisma.ip_assignments.findMany.mockResolvedValue([
+        { userId: 'user-1', agreementVersion: IP_AGREEMENT_VERSION },
+      ]);
+
+      const check = await getIPCheck(challengeId);
+
+      expect(check?.status).toBe('RED');
+      expect(check?.blocksAction).toBe(true);
+      expect(check?.details).toContain('1 of 2');
+    });
+
+    it('should be AMBER when an agreement was signed on an older version', async () => {
+      mockPrisma.contributions.findMany.mockResolvedValue([{ userId: 'user-1' }]);
+      mockPrisma.ip_assignments.findMany.mockResolvedValue([
+        { userId: 'user-1', agreementVersion: 'old-version' },
+      ]);
+
+      const check = await getIPCheck(challengeId);
+
+      expect(check?.status).toBe('AMBER');
+    });
+
+    it('should be GREEN when every contributor signed the current version', async () => {
+      mockPrisma.contributions.findMany.mockResolvedValue([{ userId: 'user-1' }]);
+      mockPrisma.ip_assignments.findMany.mockResolvedValue([
+        { userId: 'user-1', agreementVersion: IP_AGREEMENT_VERSION },
+      ]);
+
+      const check = await getIPCheck(challengeId);
+
+      expect(check?.status).toBe('GREEN');
+    });
+
+    it('should be AMBER system-wide when active contributors have not signed', async () => {
+      mockPrisma.users.count.mockResolvedValue(0);
+      mockPrisma.contributions.findMany.mockResolvedValue([
+        { challengeId: 'c1', userId: 'user-1' },
+        { challengeId: 'c2', userId: 'user-1' },
+      ]);
+      mockPrisma.ip_assignments.findMany.mockResolvedValue([{ challengeId: 'c1', userId: 'user-1' }]);
+
+      const check = await getIPCheck();
+
+      expect(check?.status).toBe('AMBER');
+      expect(check?.details).toContain('1 contributors');
+    });
+
+    it('should block payout validation when a contributor has not signed', async () => {
+      mockPrisma.challenges.findUnique.mockResolvedValue({
+        contributions: [{ users: { email: 'user@example.com', kycStatus: 'VERIFIED' } }],
+        composition_manifests: {
+          signedByLeader: true,
+          totalDeclared: { toNumber: () => 1.0 },
+        },
+        payout_proposals: [{ signedByLeader: true, sponsorApproved: true, withinTolerance: true }],
+      });
+      mockPrisma.contributions.findMany.mockResolvedValue([{ userId: 'user-1' }]);
+      mockPrisma.events.findMany.mockResolvedValue([{ id: 'event-1' }]);
+
+      const result = await auditorService.validatePayout(challengeId);
+
+      expect(result.ok).toBe(false);
+      expect(result.violations).toContain(
+        '1 contributors have not signed an IP assignment agreement'
+      );
+    });
+  });
+
+  describe('Event integrity check', () => {
+    const challengeId = 'challenge-123';
+
+    // Build a correctly chained trail for one challenge
+    const buildChain = (count: number) => {
+      const hasher = new EventService(mockPrisma);
+      const chain: any[] = [];
+      for (let i = 1; i <= count; i++) {
+        const previous = chain[chain.length - 1];
+        const event = {
+          id: `event-${i}`,
+          sequence: i,
+          actorId: 'user-1',
+          entityType: 'CHALLENGE',
+          entityId: challengeId,
+          action: 'UPDATED',
+          contentHash: null,
+          metadata: { step: i },
+          prevHash: previous?.chainHash ?? null,
+          entityPrevHash: previous?.chainHash ?? null,
+          createdAt: new Date(Date.UTC(2026, 9, 19, 12, i)),
+        };
+        chain.push({ ...event, chainHash: hasher.computeChainHash(event) });
+      }
+      return chain;
+    };
+
+    const getIntegrityCheck = async (id?: string) => {
+      mockPrisma.users.count.mockResolvedValue(0);
+      mockPrisma.challenges.findUnique.mockResolvedValue({ contributions: [] });
+      mockPrisma.composition_manifests.findUnique.mockResolvedValue(null);
+      mockPrisma.payout_proposals.findFirst.mockResolvedValue(null);
+
+      const result = await auditorService.heartbeat(id);
+      return result.checks.find(c => c.name === 'Event Integrity');
+    };
+
+    it('should be GREEN when the hash chain verifies', async () => {
+      const chain = buildChain(3);
+      mockPrisma.events.count.mockResolvedValue(chain.length);
+      mockPrisma.events.findMany.mockResolvedValue(chain);
+
+      const check = await getIntegrityCheck();
+
+      expect(check?.status).toBe('GREEN');
+      expect(check?.details).toContain('3 events verified');
+    });
+
+    it('should be RED and point at the first tampered event', async () => {
+      const chain = buildChain(3);
+      chain[1].metadata = { step: 99 };
+      mockPrisma.events.count.mockResolvedValue(chain.length);
+      mockPrisma.events.findMany.mockResolvedValue(chain);
+
+      const check = await getIntegrityCheck(challengeId);
+
+      expect(check?.status).toBe('RED');
+      expect(check?.blocksAction).toBe(true);
+      expect(check?.details).toContain('event-2');
+    });
+
+    it('should be RED when an event was deleted from the global chain', async () => {
+      const chain = buildChain(3);
+      mockPrisma.events.count.mockResolvedValue(2);
+      mockPrisma.events.findMany.mockResolvedValue([chain[0], chain[2]]);
+
+      const check = await getIntegrityCheck();
+
+      expect(check?.status).toBe('RED');
+      expect(check?.details).toContain('Sequence gap');
+    });
+
+    it('should only walk events appended since the last clean heartbeat', async () => {
+      const chain = buildChain(4);
+      mockPrisma.events.findMany.mockResolvedValueOnce(chain.slice(0, 3));
+      await getIntegrityCheck();
+
+      mockPrisma.events.findUnique.mockResolvedValue({ id: 'event-3', chainHash: chain[2].chainHash });
+      mockPrisma.events.findFirst.mockResolvedValue({ chainHash: chain[2].chainHash });
+      mockPrisma.events.findMany.mockResolvedValue([chain[3]]);
+
+      const check = await getIntegrityCheck();
+
+      expect(mockPrisma.events.findMany).toHaveBeenLastCalledWith(
+        expect.objectContaining({ where: { sequence: { gt: 3 } } })
+      );
+      expect(check?.status).toBe('GREEN');
+      expect(check?.details).toContain('1 events verified in hash chain since #3');
+    });
+
+    it('should resume from the latest confirmed anchor and still catch tampering after it', async () => {
+      const chain = buildChain(3);
+      chain[2].metadata = { step: 99 };
+      mockPrisma.event_anchors.findFirst.mockResolvedValue({ toSequence: 2 });
+      mockPrisma.events.findUnique.mockResolvedValue({ id: 'event-2', chainHash: chain[1].chainHash });
+      mockPrisma.events.findFirst.mockResolvedValue({ chainHash: chain[1].chainHash });
+      mockPrisma.events.findMany.mockResolvedValue([chain[2]]);
+
+      const check = await getIntegrityCheck();
+
+      expect(mockPrisma.event_anchors.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { status: 'CONFIRMED' } })
+      );
+      expect(check?.status).toBe('RED');
+      expect(check?.details).toContain('event-3');
+    });
+
+    it('should be RED when the verified head was rewritten since the last heartbeat', async () => {
+      const chain = buildChain(3);
+      mockPrisma.events.findMany.mockResolvedValueOnce(chain);
+      await getIntegrityCheck();
+
+      mockPrisma.events.findUnique.mockResolvedValue({ id: 'event-3', chainHash: 'rewritten' });
+
+      const check = await getIntegrityCheck();
+
+      expect(check?.status).toBe('RED');
+      expect(check?.details).toContain('#3');
+    });
+  });
+
   describe('validatePayout()', () => {
     it('should pass validation for complete challenge', async () => {
       const mockChallenge = {
@@ -249,6 +551,113 @@ describe('AuditorService', () => {
     });
   });
 
+  describe('quarantined contributions', () => {
+    it('should leave quarantined contributions out of payout and IP checks', async () => {
+      mockPrisma.challenges.findUnique.mockResolvedValue(null);
+      mockPrisma.users.count.mockResolvedValue(0);
+      mockPrisma.events.count.mockResolvedValue(0);
+
+      await auditorService.validatePayout('challenge-123');
+      await auditorService.heartbeat('challenge-123');
+
+      const notQuarantined = { moderationStatus: { not: 'QUARANTINED' } };
+      expect(mockPrisma.challenges.findUnique).toHaveBeenCalledWith(
+        expect.objectContaining({
+          include: expect.objectContaining({
+            contributions: expect.objectContaining({ where: notQuarantined }),
+          }),
+        })
+      );
+      expect(mockPrisma.contributions.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { challengeId: 'challenge-123', ...notQuarantined } })
+      );
+    });
+  });
+
+  describe('payout recipient checks', () => {
+    const verifiedContributor = {
+      id: 'user-1',
+      email: 'contributor@example.com',
+      kycStatus: 'VERIFIED',
+      kycExpiresAt: null,
+      emailVerifiedAt: new Date(),
+    };
+
+    it('should check recipients in the payout distribution who made no contribution', async () => {
+      mockPrisma.challenges.findUnique.mockResolvedValue({
+        id: 'challenge-123',
+        contributions: [{ userId: 'user-1', users: verifiedContributor }],
+        composition_manifests: { signedByLeader: true, totalDeclared: { toNumber: () => 1.0 } },
+        payout_proposals: [
+          {
+            signedByLeader: true,
+            sponsorApproved: true,
+            withinTolerance: true,
+            distribution: [
+              { userId: 'user-1', amount: 600 },
+              { userId: 'manifest-only', amount: 400 },
+            ],
+          },
+        ],
+      });
+      mockPrisma.users.findMany.mockResolvedValue([
+        {
+          id: 'manifest-only',
+          email: 'payee@example.com',
+          kycStatus: 'PENDING',
+          kycExpiresAt: null,
+          emailVerifiedAt: null,
+        },
+      ]);
+
+      const result = await auditorService.validatePayout('challenge-123');
+
+      expect(mockPrisma.users.findMany).toHaveBeenCalledWith({
+        where: { id: { in: ['manifest-only'] } },
+      });
+      expect(result.ok).toBe(false);
+      expect(result.violations).toEqual(
+        expect.arrayContaining([
+          'Recipient payee@example.com KYC not verified',
+          'Recipient payee@example.com email not verified',
+        ])
+      );
+      expect(result.violations.some(v => v.includes('contributor@example.com'))).toBe(false);
+    });
+  });
+
+  describe('payout recipient KYC', () => {
+    it('should block payouts to a recipient whose KYC expired even if they did not contribute', async () => {
+      mockPrisma.challenges.findUnique.mockResolvedValue({
+        id: 'challenge-123',
+        contributions: [],
+        composition_manifests: { signedByLeader: true, totalDeclared: { toNumber: () => 1.0 } },
+        payout_proposals: [
+          {
+            signedByLeader: true,
+            sponsorApproved: true,
+            withinTolerance: true,
+            distribution: [{ userId: 'manifest-only', amount: 1000 }],
+          },
+        ],
+      });
+      mockPrisma.users.findMany.mockResolvedValue([
+        {
+          id: 'manifest-only',
+          email: 'payee@example.com',
+          kycStatus: 'VERIFIED',
+          kycExpiresAt: new Date(Date.now() - 1000),
+          emailVerifiedAt: new Date(),
+        },
+      ]);
+
+      const result = await auditorService.validatePayout('challenge-123');
+
+      expect(result.ok).toBe(false);
+      expect(result.violations).toContain('Recipient payee@example.com KYC expired');
+    });
+  });
+
   describe('generateEvidencePack()', () => {
     it('should return evidence pack URL', async () => {
       const url = await auditorService.generateEvidencePack('challenge-123');
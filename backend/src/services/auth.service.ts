@@ -3,10 +3,17 @@ import jwt from 'jsonwebtoken';
 import { generateId } from '../utils/idGenerator';
 import { prisma } from '../config/database';
 import { env } from '../config/env';
+import { sessionService, SessionContext } from './session.service';
+import { emailTokenService } from './emailToken.service';
+import { getMailer } from './mail';
+import { passwordResetEmail, verificationEmail } from './mail/templates';
+import { walletService } from './wallet.service';
 import {
   CreateUserDTO,
   LoginDTO,
   UserResponseDTO,
+  AuthResultDTO,
+  AuthTokensDTO,
   JWTPayload,
   AuthenticationError,
   ConflictError,
@@ -24,10 +31,11 @@ export class AuthService {
   /**
    * Register a new user
    * @param data - User registration data
-   * @returns Created user and JWT token
+   * @param context - Device details for the new session
+   * @returns Created user, access token and refresh token
    */
-  async signup(data: CreateUserDTO): Promise<{ user: UserResponseDTO; token: string }> {
-    const { email, password, walletAddress, profile } = data;
+  async signup(data: CreateUserDTO, context: SessionContext = {}): Promise<AuthResultDTO> {
+    const { email, password, profile } = data;
 
     // Validate email format
     if (!isValidEmail(email)) {
@@ -48,17 +56,6 @@ export class AuthService {
       throw new ConflictError('User with this email already exists');
     }
 
-    // Check wallet address uniqueness if provided
-    if (walletAddress) {
-      const existingWallet = await prisma.users.findUnique({
-        where: { walletAddress },
-      });
-
-      if (existingWallet) {
-        throw new ConflictError('Wallet address already registered');
-      }
-    }
-
     // Hash password
     const passwordHash = await bcrypt.hash(password, SALT_ROUNDS);
 
@@ -68,7 +65,6 @@ export class AuthService {
         id: generateId(),
         email,
         passwordHash,
-        walletAddress,
         profile: (profile || {}) as Record<string, never>,
         updatedAt: new Date(),
       },
@@ -76,21 +72,26 @@ export class AuthService {
 
     logger.info(`New user created: ${email}`);
 
-    // Generate JWT token
-    const token = this.generateToken(user.id, user.email);
+    // The account works without it, so a mail outage must not fail signup
+    try {
+      await this.sendVerificationEmail(user.id);
+    } catch (error) {
+      logger.error(`Failed to send verification email to ${email}:`, error);
+    }
 
     return {
       user: sanitizeUser(user) as UserResponseDTO,
-      token,
+      ...(await this.startSession(user.id, user.email, context)),
     };
   }
 
   /**
    * Login user with email and password
    * @param data - Login credentials
-   * @returns User and JWT token
+   * @param context - Device details for the new session
+   * @returns User, access token and refresh token
    */
-  async login(data: LoginDTO): Promise<{ user: UserResponseDTO; token: string }> {
+  async login(data: LoginDTO, context: SessionContext = {}): Promise<AuthResultDTO> {
     const { email, password } = data;
 
     // Find user by email
@@ -98,7 +99,8 @@ export class AuthService {
       where: { email },
     });
 
-    if (!user) {
+    // The system actor has no password and never logs in
+    if (!user || user.role === 'SYSTEM') {
       throw new AuthenticationError('Invalid email or password');
     }
 
@@ -111,15 +113,161 @@ export class AuthService {
 
     logger.info(`User logged in: ${email}`);
 
-    // Generate JWT token
-    const token = this.generateToken(user.id, user.email);
+    return {
+      user: sanitizeUser(user) as UserResponseDTO,
+      ...(await this.startSession(user.id, user.email, context)),
+    };
+  }
+
+  /**
+   * Login with a wallet whose signature has already been verified
+   * @param walletAddress - Verified wallet address
+   * @param context - Device details for the new session
+   * @returns User, access token and refresh token
+   */
+  async loginWithWallet(
+    walletAddress: string,
+    context: SessionContext = {}
+  ): Promise<AuthResultDTO> {
+    const user = await prisma.users.findFirst({
+      where: { walletAddress: { equals: walletAddress, mode: 'insensitive' } },
+    });
+
+    if (!user || user.role === 'SYSTEM') {
+      throw new AuthenticationError(
+        'No account is linked to this wallet. Log in with your email and link it first.'
+      );
+    }
+
+    logger.info(`User logged in with wallet: ${user.email}`);
 
     return {
       user: sanitizeUser(user) as UserResponseDTO,
-      token,
+      ...(await this.startSession(user.id, user.email, context)),
     };
   }
 
+  /**
+   * Exchange a refresh token for a new access token and refresh token
+   * @param refreshToken - Refresh token from the previous login or refresh
+   * @param context - Device details
+   * @returns New access token and refresh token
+   */
+  async refresh(refreshToken: string, context: SessionContext = {}): Promise<AuthTokensDTO> {
+    const session = await sessionService.rotate(refreshToken, context);
+
+    const user = await prisma.users.findUnique({
+      where: { id: session.userId },
+      select: { id: true, email: true },
+    });
+
+    if (!user) {
+      throw new AuthenticationError('User not found');
+    }
+
+    return {
+      token: this.generateToken(user.id, user.email, session.sessionId),
+      refreshToken: session.refreshToken,
+    };
+  }
+
+  /**
+   * Email the user a link that verifies their address
+   * @param userId - User ID
+   */
+  async sendVerificationEmail(userId: string): Promise<void> {
+    const user = await prisma.users.findUnique({
+      where: { id: userId },
+    });
+
+    if (!user) {
+      throw new AuthenticationError('User not found');
+    }
+
+    if (user.emailVerifiedAt) {
+      throw new ConflictError('Email address is already verified');
+    }
+
+    const { token, expiresAt } = await emailTokenService.issue(user.id, 'EMAIL_VERIFICATION');
+    await getMailer().send(
+      verificationEmail(user.email, this.appLink('/verify-email', token), expiresAt)
+    );
+  }
+
+  /**
+   * Mark the user's email as verified using the token from their verification email
+   * @param token - Email verification token
+   * @returns Updated user
+   */
+  async verifyEmail(token: string): Promise<UserResponseDTO> {
+    const userId = await emailTokenService.consume(token, 'EMAIL_VERIFICATION');
+
+    const user = await prisma.users.update({
+      where: { id: userId },
+      data: { emailVerifiedAt: new Date(), updatedAt: new Date() },
+    });
+
+    logger.info(`Email verified for user: ${user.email}`);
+
+    return sanitizeUser(user) as UserResponseDTO;
+  }
+
+  /**
+   * Email a password reset link. Does nothing for unknown addresses, so callers
+   * cannot tell whether an account exists.
+   * @param email - Account email address
+   */
+  async requestPasswordReset(email: string): Promise<void> {
+    const user = await prisma.users.findUnique({
+      where: { email },
+    });
+
+    if (!user || user.role === 'SYSTEM') {
+      logger.info(`Password reset requested for unknown email: ${email}`);
+      return;
+    }
+
+    const { token, expiresAt } = await emailTokenService.issue(user.id, 'PASSWORD_RESET');
+    await getMailer().send(
+      passwordResetEmail(user.email, this.appLink('/reset-password', token), expiresAt)
+    );
+  }
+
+  /**
+   * Set a new password using the token from a password reset email.
+   * Signs the user out everywhere.
+   * @param token - Password reset token
+   * @param password - New password
+   * @returns ID of the user whose password changed
+   */
+  async resetPassword(token: string, password: string): Promise<string> {
+    // Check the password first so a typo doesn't use up the link
+    if (password.length < 8) {
+      throw new ValidationError('Password must be at least 8 characters long');
+    }
+
+    const userId = await emailTokenService.consume(token, 'PASSWORD_RESET');
+    const passwordHash = await bcrypt.hash(password, SALT_ROUNDS);
+    const now = new Date();
+
+    const current = await prisma.users.findUnique({
+      where: { id: userId },
+      select: { emailVerifiedAt: true },
+    });
+
+    // Opening the emailed link proves the user controls the address
+    const user = await prisma.users.update({
+      where: { id: userId },
+      data: { passwordHash, emailVerifiedAt: current?.emailVerifiedAt ?? now, updatedAt: now },
+    });
+
+    await sessionService.revokeAll(userId, 'PASSWORD_RESET');
+
+    logger.info(`Password reset for user: ${user.email}`);
+
+    return user.id;
+  }
+
   /**
    * Get user by ID
    * @param userId - User ID
@@ -139,17 +287,23 @@ export class AuthService {
 
   /**
    * Update user wallet address
+   * Only call this with an address the user has proven they own (SIWE LINK)
    * @param userId - User ID
-   * @param walletAddress - Ethereum wallet address
+   * @param address - Ethereum wallet address
    * @returns Updated user
    */
-  async updateWalletAddress(userId: string, walletAddress: string): Promise<UserResponseDTO> {
-    // Check if wallet address is already taken
-    const existingWallet = await prisma.users.findUnique({
-      where: { walletAddress },
+  async updateWalletAddress(userId: string, address: string): Promise<UserResponseDTO> {
+    const walletAddress = walletService.checksumAddress(address);
+
+    // Compare the way wallet login does, so no two accounts share an address in any casing
+    const existingWallet = await prisma.users.findFirst({
+      where: {
+        walletAddress: { equals: walletAddress, mode: 'insensitive' },
+        id: { not: userId },
+      },
     });
 
-    if (existingWallet && existingWallet.id !== userId) {
+    if (existingWallet) {
       throw new ConflictError('Wallet address already registered');
     }
 
@@ -220,15 +374,46 @@ export class AuthService {
   }
 
   /**
-   * Generate JWT token
+   * Build a frontend link carrying a token
+   * @param path - Frontend route
+   * @param token - Token to pass in the query string
+   */
+  private appLink(path: string, token: string): string {
+    return `${env.APP_URL.replace(/\/$/, '')}${path}?token=${encodeURIComponent(token)}`;
+  }
+
+  /**
+   * Start a session and issue its first tokens
+   * @param userId - User ID
+   * @param email - User email
+   * @param context - Device details
+   * @returns Access token and refresh token
+   */
+  private async startSession(
+    userId: string,
+    email: string,
+    context: SessionContext
+  ): Promise<AuthTokensDTO> {
+    const { sessionId, refreshToken } = await sessionService.create(userId, context);
+
+    return {
+      token: this.generateToken(userId, email, sessionId),
+      refreshToken,
+    };
+  }
+
+  /**
+   * Generate JWT access token
    * @param userId - User ID
    * @param email - User email
+   * @param sessionId - Session the token belongs to
    * @returns JWT token
    */
-  private generateToken(userId: string, email: string): string {
+  private generateToken(userId: string, email: string, sessionId: string): string {
     const payload: JWTPayload = {
       userId,
       email,
+      sessionId,
     };
 
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -2,12 +2,18 @@ import { ethers } from 'ethers';
 import { logger } from '../utils/logger';
 import { ValidationError } from '../types';
 
+const ERC20_TRANSFER_ABI = [
+  'function transfer(address to, uint256 amount) returns (bool)',
+  'function decimals() view returns (uint8)',
+];
+
 /**
  * Blockchain Service - Handles blockchain interactions
  * This is a basic implementation - extend based on your specific blockchain needs
  */
 export class BlockchainService {
   private provider: ethers.JsonRpcProvider | null = null;
+  private signer: ethers.Wallet | null = null;
 
   /**
    * Initialize blockchain provider
@@ -34,6 +40,124 @@ export class BlockchainService {
     return this.provider;
   }
 
+  /**
+   * Initialize the wallet used for write transactions (requires a provider)
+   * @param privateKey - Hex private key of the platform wallet
+   */
+  initializeSigner(privateKey: string): void {
+    try {
+      this.signer = new ethers.Wallet(privateKey, this.getProvider());
+      logger.info(`Blockchain signer initialized: ${this.signer.address}`);
+    } catch (error) {
+      logger.error('Failed to initialize blockchain signer:', error);
+      throw new Error('Failed to initialize blockchain signer');
+    }
+  }
+
+  /**
+   * Get current signer
+   * @returns Ethers wallet connected to the provider
+   */
+  getSigner(): ethers.Wallet {
+    if (!this.signer) {
+      throw new Error('Blockchain signer not initialized');
+    }
+    return this.signer;
+  }
+
+  /**
+   * Build and sign (but do not send) a zero-value transaction carrying a
+   * 32-byte digest as calldata
+   * The hash is known before broadcast so callers can persist it first.
+   * @param digest - Hex digest (with or without 0x prefix)
+   * @param to - Recipient address; defaults to the signer's own address
+   * @returns Transaction hash, signed raw transaction and chain id
+   */
+  async signAnchor(
+    digest: string,
+    to?: string
+  ): Promise<{ txHash: string; rawTx: string; chainId: number }> {
+    const data = digest.startsWith('0x') ? digest : `0x${digest}`;
+
+    if (!ethers.isHexString(data, 32)) {
+      throw new ValidationError('Anchor digest must be 32 bytes of hex');
+    }
+
+    try {
+      const signer = this.getSigner();
+      const populated = await signer.populateTransaction({
+        to: to || signer.address,
+        value: 0,
+        data,
+      });
+      const rawTx = await signer.signTransaction(populated);
+
+      return {
+        txHash: ethers.Transaction.from(rawTx).hash as string,
+        rawTx,
+        chainId: Number(populated.chainId),
+      };
+    } catch (error) {
+      logger.error('Failed to sign anchor transaction:', error);
+      throw new Error('Failed to sign anchor transaction');
+    }
+  }
+
+  /**
+   * Build and sign (but do not send) an ERC-20 payment transaction
+   * The hash is known before broadcast so callers can persist it first.
+   * Payment amounts are fiat figures, so they are only paid in a token pegged to
+   * that currency (a stablecoin); the native coin is refused, as there is no
+   * price conversion.
+   * @param to - Recipient wallet address
+   * @param amount - Decimal amount in whole units of the token (e.g. "12.50")
+   * @param tokenAddress - ERC-20 stablecoin contract address
+   * @returns Transaction hash and signed raw transaction
+   */
+  async signPayment(
+    to: string,
+    amount: string,
+    tokenAddress: string
+  ): Promise<{ txHash: string; rawTx: string }> {
+    if (!ethers.isAddress(to)) {
+      throw new ValidationError('Invalid recipient wallet address');
+    }
+
+    if (!tokenAddress || !ethers.isAddress(tokenAddress)) {
+      throw new ValidationError(
+        'Payouts need a stablecoin token address; native-coin payouts are not supported'
+      );
+    }
+
+    const signer = this.getSigner();
+    const token = new ethers.Contract(tokenAddress, ERC20_TRANSFER_ABI, signer);
+    const decimals: bigint = await token.decimals();
+    const request: ethers.TransactionRequest = {
+      to: tokenAddress,
+      value: 0,
+      data: token.interface.encodeFunctionData('transfer', [
+        to,
+        ethers.parseUnits(amount, decimals),
+      ]),
+    };
+
+    const populated = await signer.populateTransaction(request);
+    const rawTx = await signer.signTransaction(populated);
+
+    return { txHash: ethers.Transaction.from(rawTx).hash as string, rawTx };
+  }
+
+  /**
+   * Broadcast a previously signed transaction
+   * Re-broadcasting the same raw transaction is safe: it has the same hash and nonce
+   * @param rawTx - Signed raw transaction
+   * @returns Transaction hash
+   */
+  async broadcastTransaction(rawTx: string): Promise<string> {
+    const response = await this.getProvider().broadcastTransaction(rawTx);
+    return response.hash;
+  }
+
   /**
    * Get transaction details
    * @param txHash - Transaction hash
@@ -0,0 +1,107 @@
+import { PrismaClient, ProposalStatus } from '@prisma/client';
+import { generateId } from '../../utils/idGenerator';
+import { EventService } from '../events/EventService';
+import { RaiseDisputeDTO } from '../../types';
+import { ValidationError, NotFoundError, AuthorizationError } from '../../types';
+
+/**
+ * Safety incident category used for disputes between challenge participants
+ */
+export const DISPUTE_CATEGORY = 'DISPUTE';
+
+const DEFAULT_DISPUTE_SEVERITY = 3;
+
+/**
+ * DisputeService - Lets challenge participants raise disputes
+ *
+ * Business Rules:
+ * - Only the sponsor, project leader, contributors and accepted proposers of a
+ *   challenge can raise a dispute on it
+ * - A dispute needs a description of at least 20 characters
+ * - Disputes are stored as OPEN safety incidents in the DISPUTE category
+ *   (severity 1-5, default 3) so they share the incident review workflow
+ * - All disputes are logged via EventService against the challenge
+ */
+export class DisputeService {
+  constructor(
+    private prisma: PrismaClient,
+    private eventService: EventService
+  ) {}
+
+  /**
+   * Raise a dispute on a challenge
+   */
+  async raise(userId: string, challengeId: string, data: RaiseDisputeDTO) {
+    const description = data.description?.trim() || '';
+
+    if (description.length < 20) {
+      throw new ValidationError('Dispute description must be at least 20 characters');
+    }
+
+    const severity = data.severity ?? DEFAULT_DISPUTE_SEVERITY;
+
+    if (!Number.isInteger(severity) || severity < 1 || severity > 5) {
+      throw new ValidationError('Dispute severity must be an integer from 1 to 5');
+    }
+
+    const challenge = await this.prisma.challenges.findUnique({
+      where: { id: challengeId },
+      select: {
+        id: true,
+        sponsorId: true,
+        projectLeaderId: true,
+        contributions: { where: { userId }, select: { id: true } },
+        proposals: {
+          where: { contributorId: userId, status: ProposalStatus.ACCEPTED },
+          select: { id: true },
+        },
+      },
+    });
+
+    if (!challenge) {
+      throw new NotFoundError('Challenge');
+    }
+
+    const isParticipant =
+      challenge.sponsorId === userId ||
+      challenge.projectLeaderId === userId ||
+      challenge.contributions.length > 0 ||
+      challenge.proposals.length > 0;
+
+    if (!isParticipant) {
+      throw new AuthorizationError('Only challenge participants can raise a dispute');
+    }
+
+    const incident = await this.prisma.safety_incidents.create({
+      data: {
+        id: generateId(),
+        challengeId,
+        raisedById: userId,
+        status: 'OPEN',
+        category: DISPUTE_CATEGORY,
+        severity,
+        description,
+        evidenceEventIds: [],
+        aiDetected: false,
+      },
+    });
+
+    await this.eventService.emit({
+      actorId: userId,
+      entityType: 'CHALLENGE',
+      entityId: challengeId,
+      action: 'DISPUTE_RAISED',
+      snapshot: {
+        incidentId: incident.id,
+        description,
+        severity,
+      },
+      metadata: {
+        incidentId: incident.id,
+        severity,
+      },
+    });
+
+    return incident;
+  }
+}
@@ -0,0 +1,110 @@
+import { DisputeService, DISPUTE_CATEGORY } from '../DisputeService';
+import { EventService } from '../../events/EventService';
+import { ValidationError, NotFoundError, AuthorizationError } from '../../../types';
+
+jest.mock('../../../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+  },
+}));
+
+describe('DisputeService', () => {
+  let service: DisputeService;
+  let mockPrisma: any;
+  let mockEventService: jest.Mocked<EventService>;
+
+  const challengeId = 'challenge-123';
+  const contributorId = 'user-123';
+  const description = 'The leader changed the payout split after we agreed it.';
+
+  const mockChallenge = {
+    id: challengeId,
+    sponsorId: 'sponsor-123',
+    projectLeaderId: 'leader-123',
+    contributions: [],
+    proposals: [],
+  };
+
+  beforeEach(() => {
+    mockPrisma = {
+      challenges: {
+        findUnique: jest.fn(),
+      },
+      safety_incidents: {
+        create: jest.fn(),
+      },
+    };
+
+    mockEventService = {
+      emit: jest.fn(),
+      getTrail: jest.fn(),
+      getByActor: jest.fn(),
+      getRecent: jest.fn(),
+    } as any;
+
+    service = new DisputeService(mockPrisma as any, mockEventService);
+    jest.clearAllMocks();
+
+    mockPrisma.safety_incidents.create.mockImplementation(({ data }: any) =>
+      Promise.resolve({ ...data, createdAt: new Date() })
+    );
+  });
+
+  it('should record a dispute from a contributor as an open incident', async () => {
+    mockPrisma.challenges.findUnique.mockResolvedValue({
+      ...mockChallenge,
+      contributions: [{ id: 'contribution-1' }],
+    });
+
+    const incident = await service.raise(contributorId, challengeId, { description });
+
+    expect(incident).toMatchObject({
+      challengeId,
+      raisedById: contributorId,
+      status: 'OPEN',
+      category: DISPUTE_CATEGORY,
+      severity: 3,
+      aiDetected: false,
+    });
+    expect(mockEventService.emit).toHaveBeenCalledWith(
+      expect.objectContaining({
+        actorId: contributorId,
+        entityType: 'CHALLENGE',
+        entityId: challengeId,
+        action: 'DISPUTE_RAISED',
+      })
+    );
+  });
+
+  it('should reject short descriptions', async () => {
+    await expect(
+      service.raise(contributorId, challengeId, { description: 'Unfair' })
+    ).rejects.toThrow(ValidationError);
+    expect(mockPrisma.challenges.findUnique).not.toHaveBeenCalled();
+  });
+
+  it('should reject out-of-range severity', async () => {
+    await expect(
+      service.raise(contributorId, challengeId, { description, severity: 9 })
+    ).rejects.toThrow(ValidationError);
+  });
+
+  it('should throw NotFoundError for unknown challenges', async () => {
+    mockPrisma.challenges.findUnique.mockResolvedValue(null);
+
+    await expect(service.raise(contributorId, challengeId, { description })).rejects.toThrow(
+      NotFoundError
+    );
+  });
+
+  it('should reject users who are not challenge participants', async () => {
+    mockPrisma.challenges.findUnique.mockResolvedValue(mockChallenge);
+
+    await expect(service.raise('stranger-123', challengeId, { description })).rejects.toThrow(
+      AuthorizationError
+    );
+    expect(mockPrisma.safety_incidents.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,95 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { generateId } from '../utils/idGenerator';
+import { prisma } from '../config/database';
+import { env } from '../config/env';
+import { ValidationError } from '../types';
+
+/**
+ * What an emailed link lets its holder do
+ */
+export type EmailTokenPurpose = 'EMAIL_VERIFICATION' | 'PASSWORD_RESET';
+
+/**
+ * Email Token Service - Signed, single-use, expiring tokens sent in account emails
+ *
+ * Business Rules:
+ * - Tokens are JWTs signed with a key derived from JWT_SECRET, so they can never
+ *   pass as access tokens, and carry their purpose as the audience
+ * - Each token has a row keyed by its jti; consuming it sets usedAt, so it works once
+ * - Issuing a token discards the user's earlier unused tokens for the same purpose
+ * - Bad, expired and used tokens are all validation errors (400), so a stale
+ *   link never signs anyone out
+ */
+export class EmailTokenService {
+  private signingKey = crypto.createHmac('sha256', env.JWT_SECRET).update('email-tokens').digest();
+
+  /**
+   * Issue a token for a user
+   * @param userId - User the token acts for
+   * @param purpose - What the token may be used for
+   * @returns Token to put in the link and when it expires
+   */
+  async issue(
+    userId: string,
+    purpose: EmailTokenPurpose
+  ): Promise<{ token: string; expiresAt: Date }> {
+    const ttlSeconds =
+      purpose === 'PASSWORD_RESET'
+        ? env.PASSWORD_RESET_TTL_MINUTES * 60
+        : env.EMAIL_VERIFICATION_TTL_HOURS * 60 * 60;
+    const id = generateId();
+    const expiresAt = new Date(Date.now() + ttlSeconds * 1000);
+
+    await prisma.email_tokens.deleteMany({ where: { userId, purpose, usedAt: null } });
+    await prisma.email_tokens.create({ data: { id, userId, purpose, expiresAt } });
+
+    const token = jwt.sign({}, this.signingKey, {
+      subject: userId,
+      jwtid: id,
+      audience: purpose,
+      expiresIn: ttlSeconds,
+    });
+
+    return { token, expiresAt };
+  }
+
+  /**
+   * Check a token and use it up
+   * @param token - Token from the link
+   * @param purpose - Purpose the caller expects
+   * @returns ID of the user the token was issued to
+   */
+  async consume(token: string, purpose: EmailTokenPurpose): Promise<string> {
+    let payload: jwt.JwtPayload;
+
+    try {
+      payload = jwt.verify(token, this.signingKey, { audience: purpose }) as jwt.JwtPayload;
+    } catch (_error) {
+      throw new ValidationError('This link is invalid or has expired');
+    }
+
+    if (!payload.jti || !payload.sub) {
+      throw new ValidationError('This link is invalid or has expired');
+    }
+
+    const { count } = await prisma.email_tokens.updateMany({
+      where: {
+        id: payload.jti,
+        userId: payload.sub,
+        purpose,
+        usedAt: null,
+        expiresAt: { gt: new Date() },
+      },
+      data: { usedAt: new Date() },
+    });
+
+    if (count === 0) {
+      throw new ValidationError('This link has already been used or was replaced by a newer one');
+    }
+
+    return payload.sub;
+  }
+}
+
+export const emailTokenService = new EmailTokenService();
@@ -1,4 +1,4 @@
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, events } from '@prisma/client';
 import crypto from 'crypto';
 import { generateId } from '../../utils/idGenerator';
 
@@ -11,31 +11,246 @@ interface EmitEventParams {
   metadata?: any;
 }
 
+type ChainedEventFields = Pick<
+  events,
+  | 'id'
+  | 'sequence'
+  | 'actorId'
+  | 'entityType'
+  | 'entityId'
+  | 'action'
+  | 'contentHash'
+  | 'metadata'
+  | 'prevHash'
+  | 'entityPrevHash'
+  | 'chainHash'
+  | 'createdAt'
+>;
+
+export interface ChainBreak {
+  eventId: string;
+  sequence: number;
+  reason: string;
+}
+
+/**
+ * A point on the global chain already known to be good; verification resumes after it
+ */
+export interface ChainCheckpoint {
+  sequence: number;
+  chainHash: string;
+}
+
+export interface ChainVerification {
+  valid: boolean;
+  scope: 'GLOBAL' | 'ENTITY';
+  entityType?: string;
+  entityId?: string;
+  checkedEvents: number;
+  legacyEvents: number;
+  headSequence: number | null;
+  headHash: string | null;
+  firstBrokenLink: ChainBreak | null;
+  verifiedAt: string;
+}
+
+// Arbitrary key for the Postgres advisory lock that serialises appends to the chain
+export const EVENT_CHAIN_LOCK_KEY = 7_302_114;
+const VERIFY_BATCH_SIZE = 500;
+
+const CHAIN_FIELDS = {
+  id: true,
+  sequence: true,
+  actorId: true,
+  entityType: true,
+  entityId: true,
+  action: true,
+  contentHash: true,
+  metadata: true,
+  prevHash: true,
+  entityPrevHash: true,
+  chainHash: true,
+  createdAt: true,
+} as const;
+
 export class EventService {
   constructor(private prisma: PrismaClient) {}
 
   /**
    * Emit an event with optional content hashing
    * This creates an immutable audit trail
+   *
+   * Each event is chained to the previous event globally (prevHash) and to the
+   * previous event for the same entity (entityPrevHash). Appends are serialised
+   * with an advisory lock so concurrent emits cannot fork the chain.
    */
   async emit(params: EmitEventParams) {
     const contentHash = params.snapshot
       ? this.hashContent(params.snapshot)
       : null;
 
-    return await this.prisma.events.create({
-      data: {
+    // Round-trip metadata through JSON so the hash covers exactly what is stored
+    const metadata =
+      params.metadata === undefined ? null : JSON.parse(JSON.stringify(params.metadata));
+
+    return await this.prisma.$transaction(async (tx) => {
+      await tx.$executeRaw`SELECT pg_advisory_xact_lock(${EVENT_CHAIN_LOCK_KEY})`;
+
+      const [previous, entityPrevious] = await Promise.all([
+        tx.events.findFirst({
+          orderBy: { sequence: 'desc' },
+          select: { sequence: true, chainHash: true },
+        }),
+        tx.events.findFirst({
+          where: { entityType: params.entityType, entityId: params.entityId },
+          orderBy: { sequence: 'desc' },
+          select: { chainHash: true },
+        }),
+      ]);
+
+      const event = {
         id: generateId(),
+        sequence: (previous?.sequence ?? 0) + 1,
         actorId: params.actorId,
         entityType: params.entityType,
         entityId: params.entityId,
         action: params.action,
         contentHash,
-        metadata: params.metadata,
-      },
+        metadata,
+        prevHash: previous?.chainHash ?? null,
+        entityPrevHash: entityPrevious?.chainHash ?? null,
+        createdAt: new Date(),
+      };
+
+      return await tx.events.create({
+        data: {
+          ...event,
+          metadata: metadata ?? undefined,
+          chainHash: this.computeChainHash(event),
+        },
+      });
     });
   }
 
+  /**
+   * Walk the hash chain and report the first broken link
+   * Without an entity, verifies the global chain (detects edits, deletions and
+   * reordering anywhere). With an entity, verifies only that entity's chain.
+   * A checkpoint resumes the global walk after an already verified event
+   * instead of starting from the first one.
+   */
+  async verifyChain(
+    entityType?: string,
+    entityId?: string,
+    after?: ChainCheckpoint
+  ): Promise<ChainVerification> {
+    const entityScoped = !!(entityType && entityId);
+    const where = entityScoped ? { entityType, entityId } : {};
+    const checkpoint = entityScoped ? undefined : after;
+
+    let checkedEvents = 0;
+    let legacyEvents = 0;
+    let previous: Pick<ChainedEventFields, 'sequence' | 'chainHash'> | null = checkpoint ?? null;
+    let firstBrokenLink: ChainBreak | null = null;
+    const entityHeads = new Map<string, string | null>();
+    let cursor = checkpoint?.sequence ?? 0;
+
+    const fail = (event: ChainedEventFields, reason: string) => {
+      firstBrokenLink = { eventId: event.id, sequence: event.sequence, reason };
+    };
+
+    // Head of an entity's chain as of the checkpoint, for entities not yet seen in this walk
+    const entityHeadBefore = async (event: ChainedEventFields) => {
+      if (!checkpoint) return null;
+      const head = await this.prisma.events.findFirst({
+        where: {
+          entityType: event.entityType,
+          entityId: event.entityId,
+          sequence: { lte: checkpoint.sequence },
+        },
+        orderBy: { sequence: 'desc' },
+        select: { chainHash: true },
+      });
+      return head?.chainHash ?? null;
+    };
+
+    while (!firstBrokenLink) {
+      const batch: ChainedEventFields[] = await this.prisma.events.findMany({
+        where: { ...where, sequence: { gt: cursor } },
+        orderBy: { sequence: 'asc' },
+        take: VERIFY_BATCH_SIZE,
+        select: CHAIN_FIELDS,
+      });
+
+      for (const event of batch) {
+        checkedEvents++;
+
+        // Events written before chaining was introduced form an unchained prefix
+        if (!event.chainHash) {
+          if (previous?.chainHash) {
+            fail(event, 'Event has no chain hash but follows a chained event');
+            break;
+          }
+          legacyEvents++;
+          previous = event;
+          continue;
+        }
+
+        if (this.computeChainHash(event) !== event.chainHash) {
+          fail(event, 'Event content does not match its chain hash');
+          break;
+        }
+
+        const entityKey = `${event.entityType}:${event.entityId}`;
+        const expectedEntityPrev = entityHeads.has(entityKey)
+          ? (entityHeads.get(entityKey) ?? null)
+          : entityScoped
+            ? null
+            : await entityHeadBefore(event);
+
+        if (entityScoped) {
+          if (event.entityPrevHash !== (previous?.chainHash ?? null)) {
+            fail(event, 'Entity chain link does not match the previous event for this entity');
+            break;
+          }
+        } else {
+          if (previous && event.sequence !== previous.sequence + 1) {
+            fail(event, `Sequence gap: expected ${previous.sequence + 1}, found ${event.sequence}`);
+            break;
+          }
+          if (event.prevHash !== (previous?.chainHash ?? null)) {
+            fail(event, 'Global chain link does not match the previous event');
+            break;
+          }
+          if (event.entityPrevHash !== expectedEntityPrev) {
+            fail(event, 'Entity chain link does not match the previous event for this entity');
+            break;
+          }
+        }
+
+        entityHeads.set(entityKey, event.chainHash);
+        previous = event;
+      }
+
+      if (batch.length < VERIFY_BATCH_SIZE) break;
+      cursor = batch[batch.length - 1].sequence;
+    }
+
+    const head = previous as Pick<ChainedEventFields, 'sequence' | 'chainHash'> | null;
+
+    return {
+      valid: !firstBrokenLink,
+      scope: entityScoped ? 'ENTITY' : 'GLOBAL',
+      ...(entityScoped ? { entityType, entityId } : {}),
+      checkedEvents,
+      legacyEvents,
+      headSequence: head?.sequence ?? null,
+      headHash: head?.chainHash ?? null,
+      firstBrokenLink,
+      verifiedAt: new Date().toISOString(),
+    };
+  }
+
   /**
    * Get complete event trail for an entity
    * Returns chronological history
@@ -103,6 +318,50 @@ export class EventService {
       .digest('hex');
   }
 
+  /**
+   * Hash an event together with its links to the previous events
+   * Metadata is canonicalised recursively because Postgres JSONB does not
+   * preserve key order
+   */
+  computeChainHash(event: Omit<ChainedEventFields, 'chainHash'>): string {
+    const payload = [
+      event.id,
+      event.sequence,
+      event.actorId,
+      event.entityType,
+      event.entityId,
+      event.action,
+      event.contentHash ?? '',
+      this.canonicalJson(event.metadata ?? null),
+      event.prevHash ?? '',
+      event.entityPrevHash ?? '',
+      event.createdAt.toISOString(),
+    ].join('|');
+
+    return crypto
+      .createHash('sha256')
+      .update(payload)
+      .digest('hex');
+  }
+
+  /**
+   * Serialise JSON with object keys sorted at every level
+   */
+  private canonicalJson(value: unknown): string {
+    if (Array.isArray(value)) {
+      return `[${value.map((item) => this.canonicalJson(item)).join(',')}]`;
+    }
+    if (value && typeof value === 'object') {
+      const record = value as Record<string, unknown>;
+      return `{${Object.keys(record)
+        .filter((key) => record[key] !== undefined)
+        .sort()
+        .map((key) => `${JSON.stringify(key)}:${this.canonicalJson(record[key])}`)
+        .join(',')}}`;
+    }
+    return JSON.stringify(value ?? null);
+  }
+
   /**
    * Verify content hasn't changed
    * Compares computed hash with stored hash
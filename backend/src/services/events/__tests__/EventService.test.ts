@@ -5,12 +5,15 @@ import { PrismaClient } from '@prisma/client';
 jest.mock('@prisma/client', () => {
   const mockPrismaEvents = {
     create: jest.fn(),
+    findFirst: jest.fn(),
     findMany: jest.fn(),
   };
 
   return {
     PrismaClient: jest.fn(() => ({
       events: mockPrismaEvents,
+      $executeRaw: jest.fn(),
+      $transaction: jest.fn(),
     })),
   };
 });
@@ -23,6 +26,10 @@ describe('EventService', () => {
     mockPrisma = new PrismaClient();
     eventService = new EventService(mockPrisma);
     jest.clearAllMocks();
+
+    // Interactive transactions run against the same mock client
+    mockPrisma.$transaction.mockImplementation((fn: any) => fn(mockPrisma));
+    mockPrisma.events.findFirst.mockResolvedValue(null);
   });
 
   describe('emit()', () => {
@@ -47,14 +54,18 @@ describe('EventService', () => {
       const result = await eventService.emit(eventData);
 
       expect(mockPrisma.events.create).toHaveBeenCalledWith({
-        data: {
+        data: expect.objectContaining({
           actorId: eventData.actorId,
           entityType: eventData.entityType,
           entityId: eventData.entityId,
           action: eventData.action,
           contentHash: null,
           metadata: undefined,
-        },
+          sequence: 1,
+          prevHash: null,
+          entityPrevHash: null,
+          chainHash: expect.stringMatching(/^[a-f0-9]{64}$/),
+        }),
       });
 
       expect(result).toEqual(mockEvent);
@@ -115,6 +126,122 @@ describe('EventService', () => {
     });
   });
 
+  describe('hash chain', () => {
+    const buildChain = (count: number, entityId = 'challenge-456') => {
+      const chain: any[] = [];
+      for (let i = 1; i <= count; i++) {
+        const previous = chain[chain.length - 1];
+        const event = {
+          id: `event-${i}`,
+          sequence: i,
+          actorId: 'user-123',
+          entityType: 'CHALLENGE',
+          entityId,
+          action: 'UPDATED',
+          contentHash: null,
+          metadata: { step: i, nested: { b: 2, a: 1 } },
+          prevHash: previous?.chainHash ?? null,
+          entityPrevHash: previous?.chainHash ?? null,
+          createdAt: new Date(Date.UTC(2026, 9, 19, 12, i)),
+        };
+        chain.push({ ...event, chainHash: eventService.computeChainHash(event) });
+      }
+      return chain;
+    };
+
+    it('should link new events to the global and per-entity heads under a lock', async () => {
+      mockPrisma.events.findFirst
+        .mockResolvedValueOnce({ sequence: 41, chainHash: 'a'.repeat(64) })
+        .mockResolvedValueOnce({ chainHash: 'b'.repeat(64) });
+      mockPrisma.events.create.mockImplementation(({ data }: any) => Promise.resolve(data));
+
+      const event = await eventService.emit({
+        actorId: 'user-123',
+        entityType: 'CHALLENGE',
+        entityId: 'challenge-456',
+        action: 'UPDATED',
+        metadata: { at: new Date(Date.UTC(2026, 9, 19)) },
+      });
+
+      expect(mockPrisma.$executeRaw).toHaveBeenCalled();
+      expect(event.sequence).toBe(42);
+      expect(event.prevHash).toBe('a'.repeat(64));
+      expect(event.entityPrevHash).toBe('b'.repeat(64));
+      // Metadata is hashed as it will be read back from the database
+      expect(event.chainHash).toBe(
+        eventService.computeChainHash({ ...event, metadata: { at: '2026-10-19T00:00:00.000Z' } })
+      );
+    });
+
+    it('should verify an intact global chain', async () => {
+      const chain = buildChain(3);
+      mockPrisma.events.findMany.mockResolvedValue(chain);
+
+      const result = await eventService.verifyChain();
+
+      expect(result).toMatchObject({
+        valid: true,
+        scope: 'GLOBAL',
+        checkedEvents: 3,
+        headHash: chain[2].chainHash,
+        firstBrokenLink: null,
+      });
+    });
+
+    it('should ignore key order in stored metadata', async () => {
+      const chain = buildChain(1);
+      chain[0].metadata = { nested: { a: 1, b: 2 }, step: 1 };
+      mockPrisma.events.findMany.mockResolvedValue(chain);
+
+      const result = await eventService.verifyChain();
+
+      expect(result.valid).toBe(true);
+    });
+
+    it('should report the first edited event', async () => {
+      const chain = buildChain(3);
+      chain[1].action = 'DELETED';
+      mockPrisma.events.findMany.mockResolvedValue(chain);
+
+      const result = await eventService.verifyChain();
+
+      expect(result.valid).toBe(false);
+      expect(result.firstBrokenLink).toEqual({
+        eventId: 'event-2',
+        sequence: 2,
+        reason: 'Event content does not match its chain hash',
+      });
+    });
+
+    it('should report reordered events as broken links', async () => {
+      const chain = buildChain(3);
+      mockPrisma.events.findMany.mockResolvedValue([chain[0], chain[2]]);
+
+      const result = await eventService.verifyChain('CHALLENGE', 'challenge-456');
+
+      expect(result.scope).toBe('ENTITY');
+      expect(result.firstBrokenLink?.eventId).toBe('event-3');
+    });
+
+    it('should accept unchained legacy events before the first chained event', async () => {
+      const legacy = {
+        ...buildChain(1)[0],
+        id: 'legacy-1',
+        chainHash: null,
+      };
+      const chained = buildChain(2).slice(1).map((event) => ({ ...event }));
+      chained[0].prevHash = null;
+      chained[0].entityPrevHash = null;
+      chained[0].chainHash = eventService.computeChainHash(chained[0]);
+      mockPrisma.events.findMany.mockResolvedValue([legacy, ...chained]);
+
+      const result = await eventService.verifyChain();
+
+      expect(result.valid).toBe(true);
+      expect(result.legacyEvents).toBe(1);
+    });
+  });
+
   describe('getTrail()', () => {
     it('should return events for entity in chronological order', async () => {
       const mockEvents = [
@@ -122,13 +249,13 @@ describe('EventService', () => {
           id: 'event-1',
           action: 'CREATED',
           createdAt: new Date('2024-01-01'),
-          actor: { id: 'user-1', email: 'user1@example.com', role: 'USER' },
+          users: { id: 'user-1', email: 'user1@example.com', role: 'USER' },
         },
         {
           id: 'event-2',
           action: 'UPDATED',
           createdAt: new Date('2024-01-02'),
-          actor: { id: 'user-2', email: 'user2@example.com', role: 'USER' },
+          users: { id: 'user-2', email: 'user2@example.com', role: 'USER' },
         },
       ];
 
@@ -140,7 +267,7 @@ describe('EventService', () => {
         where: { entityType: 'CHALLENGE', entityId: 'challenge-123' },
         orderBy: { createdAt: 'asc' },
         include: {
-          actor: {
+          users: {
             select: {
               id: true,
               email: true,
@@ -194,7 +321,7 @@ describe('EventService', () => {
           id: 'event-1',
           action: 'CREATED',
           createdAt: new Date(),
-          actor: { id: 'user-1', email: 'user1@example.com', role: 'USER' },
+          users: { id: 'user-1', email: 'user1@example.com', role: 'USER' },
         },
       ];
 
@@ -206,7 +333,7 @@ describe('EventService', () => {
         take: 50,
         orderBy: { createdAt: 'desc' },
         include: {
-          actor: {
+          users: {
             select: {
               id: true,
               email: true,
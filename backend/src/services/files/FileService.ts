@@ -1,18 +1,15 @@
 import { PrismaClient } from '@prisma/client';
 import crypto from 'crypto';
-import fs from 'fs/promises';
-import path from 'path';
 import { generateId } from '../../utils/idGenerator';
+import { StorageAdapter, getStorageAdapter } from '../storage';
+import { IPFSService, getIPFSService } from '../ipfs/IPFSService';
 
 export class FileService {
-  private uploadDir: string;
-
   constructor(
     private prisma: PrismaClient,
-    uploadDir = '/home/matt/backend/uploads'
-  ) {
-    this.uploadDir = uploadDir;
-  }
+    private storage: StorageAdapter = getStorageAdapter(),
+    private ipfs: IPFSService | null = getIPFSService()
+  ) {}
 
   /**
    * Upload file with SHA256 tracking
@@ -41,18 +38,15 @@ export class FileService {
       return existing;
     }
 
-    // Ensure upload directory exists
-    await fs.mkdir(this.uploadDir, { recursive: true });
-
-    // Generate storage path
-    const key = `${params.ownerId}/${Date.now()}-${params.originalName}`;
-    const fullPath = path.join(this.uploadDir, key);
-
-    // Ensure subdirectory exists
-    await fs.mkdir(path.dirname(fullPath), { recursive: true });
+    // Generate storage key (original name reduced to a single safe path segment)
+    const safeName = params.originalName.replace(/[^A-Za-z0-9._-]/g, '_');
+    const key = `${params.ownerId}/${Date.now()}-${safeName}`;
 
     // Write file
-    await fs.writeFile(fullPath, params.file);
+    await this.storage.put(key, params.file, params.mime);
+
+    // Publish to IPFS when configured (optional, never blocks the upload)
+    const pinned = this.ipfs ? await this.ipfs.pin(params.file, safeName) : null;
 
     // Create database record
     return await this.prisma.file_artifacts.create({
@@ -64,6 +58,7 @@ export class FileService {
         mime: params.mime,
         bytes: params.file.length,
         sha256,
+        ipfsCid: pinned?.cid,
         storageKey: key,
       },
     });
@@ -81,8 +76,7 @@ export class FileService {
       throw new Error('File not found');
     }
 
-    const fullPath = path.join(this.uploadDir, file.storageKey);
-    const buffer = await fs.readFile(fullPath);
+    const buffer = await this.storage.get(file.storageKey);
 
     return {
       buffer,
@@ -101,13 +95,63 @@ export class FileService {
 
     if (!file) return false;
 
-    const fullPath = path.join(this.uploadDir, file.storageKey);
-    const buffer = await fs.readFile(fullPath);
+    const buffer = await this.storage.get(file.storageKey);
     const hash = crypto.createHash('sha256').update(buffer).digest('hex');
 
     return hash === file.sha256;
   }
 
+  /**
+   * Verify file integrity and return the hashes a third party can check,
+   * including the IPFS CID when the file has been published
+   */
+  async getVerification(fileId: string) {
+    const file = await this.prisma.file_artifacts.findUnique({
+      where: { id: fileId },
+    });
+
+    if (!file) {
+      throw new Error('File not found');
+    }
+
+    return {
+      valid: await this.verify(fileId),
+      sha256: file.sha256,
+      ipfsCid: file.ipfsCid,
+      ipfsUrl: file.ipfsCid && this.ipfs ? this.ipfs.gatewayUrl(file.ipfsCid) : null,
+    };
+  }
+
+  /**
+   * Publish an existing file to IPFS (e.g. one uploaded before IPFS was enabled)
+   */
+  async pin(fileId: string, userId: string) {
+    if (!this.ipfs) {
+      throw new Error('IPFS publishing is not configured');
+    }
+
+    const { buffer, metadata } = await this.get(fileId);
+
+    if (metadata.ownerId !== userId) {
+      throw new Error('Unauthorized: You can only publish your own files');
+    }
+
+    if (metadata.ipfsCid) {
+      return metadata;
+    }
+
+    const pinned = await this.ipfs.pin(buffer, metadata.filename);
+
+    if (!pinned) {
+      throw new Error('IPFS pinning failed');
+    }
+
+    return await this.prisma.file_artifacts.update({
+      where: { id: fileId },
+      data: { ipfsCid: pinned.cid },
+    });
+  }
+
   /**
    * Get all files for a challenge
    */
@@ -145,12 +189,11 @@ export class FileService {
       throw new Error('Unauthorized: You can only delete your own files');
     }
 
-    // Delete from filesystem
-    const fullPath = path.join(this.uploadDir, file.storageKey);
+    // Delete from storage
     try {
-      await fs.unlink(fullPath);
+      await this.storage.delete(file.storageKey);
     } catch (error) {
-      console.error('Failed to delete file from filesystem:', error);
+      console.error('Failed to delete file from storage:', error);
     }
 
     // Delete from database
@@ -1,4 +1,5 @@
 import { FileService } from '../FileService';
+import { LocalStorageAdapter } from '../../storage';
 import { PrismaClient } from '@prisma/client';
 import fs from 'fs/promises';
 import path from 'path';
@@ -9,6 +10,7 @@ jest.mock('@prisma/client', () => {
     create: jest.fn(),
     findUnique: jest.fn(),
     findMany: jest.fn(),
+    update: jest.fn(),
     delete: jest.fn(),
   };
 
@@ -29,7 +31,7 @@ describe('FileService', () => {
 
   beforeEach(() => {
     mockPrisma = new PrismaClient();
-    fileService = new FileService(mockPrisma, mockUploadDir);
+    fileService = new FileService(mockPrisma, new LocalStorageAdapter(mockUploadDir));
     jest.clearAllMocks();
 
     // Default mock implementations
@@ -69,7 +71,9 @@ describe('FileService', () => {
       expect(mockPrisma.file_artifacts.findUnique).toHaveBeenCalledWith({
         where: { sha256: expect.any(String) },
       });
-      expect(fs.mkdir).toHaveBeenCalledWith(mockUploadDir, { recursive: true });
+      expect(fs.mkdir).toHaveBeenCalledWith(path.join(mockUploadDir, uploadParams.ownerId), {
+        recursive: true,
+      });
       expect(fs.writeFile).toHaveBeenCalled();
       expect(mockPrisma.file_artifacts.create).toHaveBeenCalled();
       expect(result).toEqual(mockFileRecord);
@@ -126,6 +130,31 @@ describe('FileService', () => {
       expect(typeof createCall.data.sha256).toBe('string');
       expect(createCall.data.sha256.length).toBe(64); // SHA256 = 64 hex chars
     });
+
+    it('should store the IPFS CID when publishing is configured', async () => {
+      const mockIpfs = {
+        pin: jest.fn().mockResolvedValue({ cid: 'bafy-test-cid', size: 12, url: 'x' }),
+        gatewayUrl: jest.fn(),
+      };
+      fileService = new FileService(
+        mockPrisma,
+        new LocalStorageAdapter(mockUploadDir),
+        mockIpfs as any
+      );
+      mockPrisma.file_artifacts.findUnique.mockResolvedValue(null);
+      mockPrisma.file_artifacts.create.mockResolvedValue({ id: 'file-123' });
+
+      await fileService.upload({
+        file: Buffer.from('deliverable'),
+        ownerId: 'user-123',
+        mime: 'text/plain',
+        originalName: 'deliverable.txt',
+      });
+
+      expect(mockIpfs.pin).toHaveBeenCalledWith(Buffer.from('deliverable'), 'deliverable.txt');
+      const createCall = mockPrisma.file_artifacts.create.mock.calls[0][0];
+      expect(createCall.data.ipfsCid).toBe('bafy-test-cid');
+    });
   });
 
   describe('get()', () => {
@@ -227,6 +256,38 @@ describe('FileService', () => {
     });
   });
 
+  describe('getVerification()', () => {
+    it('should return the hashes and IPFS gateway URL for a published file', async () => {
+      const content = Buffer.from('published content');
+      const sha256 = require('crypto').createHash('sha256').update(content).digest('hex');
+      const mockIpfs = {
+        pin: jest.fn(),
+        gatewayUrl: jest.fn((cid: string) => `https://ipfs.io/ipfs/${cid}`),
+      };
+      fileService = new FileService(
+        mockPrisma,
+        new LocalStorageAdapter(mockUploadDir),
+        mockIpfs as any
+      );
+      mockPrisma.file_artifacts.findUnique.mockResolvedValue({
+        id: 'file-123',
+        sha256,
+        ipfsCid: 'bafy-test-cid',
+        storageKey: 'user-123/published.txt',
+      });
+      (fs.readFile as jest.Mock).mockResolvedValue(content);
+
+      const result = await fileService.getVerification('file-123');
+
+      expect(result).toEqual({
+        valid: true,
+        sha256,
+        ipfsCid: 'bafy-test-cid',
+        ipfsUrl: 'https://ipfs.io/ipfs/bafy-test-cid',
+      });
+    });
+  });
+
   describe('delete()', () => {
     it('should delete file owned by user', async () => {
       const mockFile = {
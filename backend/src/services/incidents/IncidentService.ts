@@ -0,0 +1,333 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { generateId } from '../../utils/idGenerator';
+import { EventService } from '../events/EventService';
+import { IncidentFilters, PaginationParams, ResolveIncidentDTO } from '../../types';
+import { ConflictError, NotFoundError, ValidationError } from '../../types';
+import { computeSla, IncidentSla } from './sla';
+
+export const INCIDENT_STATUSES = [
+  'OPEN',
+  'INVESTIGATING',
+  'ESCALATED',
+  'RESOLVED',
+  'DISMISSED',
+] as const;
+
+export type IncidentStatus = (typeof INCIDENT_STATUSES)[number];
+
+export const CLOSED_INCIDENT_STATUSES: IncidentStatus[] = ['RESOLVED', 'DISMISSED'];
+
+const MIN_REASON_LENGTH = 10;
+
+const INCIDENT_INCLUDE = {
+  users_safety_incidents_assignedToTousers: { select: { id: true, email: true } },
+  users_safety_incidents_raisedByIdTousers: { select: { id: true, email: true } },
+  challenges: { select: { id: true, title: true } },
+} satisfies Prisma.safety_incidentsInclude;
+
+type IncidentRecord = Prisma.safety_incidentsGetPayload<{ include: typeof INCIDENT_INCLUDE }>;
+
+export type IncidentWithSla = IncidentRecord & { sla: IncidentSla };
+
+export type IncidentNoteRecord = Prisma.safety_incident_notesGetPayload<{
+  include: { users: { select: { id: true; email: true } } };
+}>;
+
+/**
+ * IncidentService - Case management for safety incidents
+ *
+ * Business Rules:
+ * - Incidents move OPEN -> INVESTIGATING (when assigned) -> ESCALATED and end
+ *   as RESOLVED or DISMISSED; closed incidents cannot be changed, only annotated
+ * - Assigning stops the response SLA timer; closing stops the resolution timer
+ *   (see INCIDENT_SLA_HOURS for the per-severity targets)
+ * - Escalating raises severity by one (max 5) and needs a reason
+ * - Resolving or dismissing needs a reason of at least 10 characters
+ * - Only existing events can be linked as evidence; links are de-duplicated
+ * - Every transition is logged via EventService against the incident
+ */
+export class IncidentService {
+  constructor(
+    private prisma: PrismaClient,
+    private eventService: EventService
+  ) {}
+
+  /**
+   * Incident queue, most severe first and then oldest first, with SLA state
+   */
+  async list(filters: IncidentFilters, pagination: PaginationParams) {
+    const where: Prisma.safety_incidentsWhereInput = {};
+
+    if (filters.status?.length) {
+      where.status = { in: filters.status };
+    }
+    if (filters.severity?.length) {
+      where.severity = { in: filters.severity };
+    }
+    if (filters.assignedTo !== undefined) {
+      where.assignedTo = filters.assignedTo;
+    }
+
+    const [incidents, total] = await Promise.all([
+      this.prisma.safety_incidents.findMany({
+        where,
+        include: INCIDENT_INCLUDE,
+        orderBy: [{ severity: 'desc' }, { createdAt: 'asc' }],
+        skip: pagination.skip,
+        take: pagination.limit,
+      }),
+      this.prisma.safety_incidents.count({ where }),
+    ]);
+
+    const now = new Date();
+
+    return {
+      incidents: incidents.map((incident) => this.withSla(incident, now)),
+      total,
+    };
+  }
+
+  /**
+   * A single incident with its notes, oldest first
+   */
+  async getById(incidentId: string) {
+    const incident = await this.prisma.safety_incidents.findUnique({
+      where: { id: incidentId },
+      include: {
+        ...INCIDENT_INCLUDE,
+        safety_incident_notes: {
+          orderBy: { createdAt: 'asc' },
+          include: { users: { select: { id: true, email: true } } },
+        },
+      },
+    });
+
+    if (!incident) {
+      throw new NotFoundError('Incident');
+    }
+
+    return this.withSla(incident);
+  }
+
+  /**
+   * Assign an incident to the calling moderator
+   */
+  async assignToMe(incidentId: string, moderatorId: string) {
+    const incident = await this.findOpen(incidentId);
+
+    if (incident.assignedTo === moderatorId) {
+      throw new ConflictError('Incident is already assigned to you');
+    }
+
+    const status: IncidentStatus = incident.status === 'OPEN' ? 'INVESTIGATING' : incident.status;
+
+    const updated = await this.prisma.safety_incidents.update({
+      where: { id: incidentId },
+      data: {
+        assignedTo: moderatorId,
+        assignedAt: incident.assignedAt ?? new Date(),
+        status,
+      },
+      include: INCIDENT_INCLUDE,
+    });
+
+    await this.eventService.emit({
+      actorId: moderatorId,
+      entityType: 'SAFETY_INCIDENT',
+      entityId: incidentId,
+      action: 'INCIDENT_ASSIGNED',
+      metadata: {
+        previousAssignee: incident.assignedTo,
+        fromStatus: incident.status,
+        toStatus: status,
+      },
+    });
+
+    return this.withSla(updated);
+  }
+
+  /**
+   * Add a case note; allowed on closed incidents too
+   */
+  async addNote(incidentId: string, authorId: string, body: string) {
+    const text = body?.trim() || '';
+
+    if (!text) {
+      throw new ValidationError('Note cannot be empty');
+    }
+
+    const incident = await this.prisma.safety_incidents.findUnique({
+      where: { id: incidentId },
+      select: { id: true },
+    });
+
+    if (!incident) {
+      throw new NotFoundError('Incident');
+    }
+
+    const note = await this.prisma.safety_incident_notes.create({
+      data: {
+        id: generateId(),
+        incidentId,
+        authorId,
+        body: text,
+      },
+      include: { users: { select: { id: true, email: true } } },
+    });
+
+    await this.eventService.emit({
+      actorId: authorId,
+      entityType: 'SAFETY_INCIDENT',
+      entityId: incidentId,
+      action: 'INCIDENT_NOTE_ADDED',
+      snapshot: { noteId: note.id, body: text },
+      metadata: { noteId: note.id },
+    });
+
+    return note;
+  }
+
+  /**
+   * Escalate an incident, raising its severity by one
+   */
+  async escalate(incidentId: string, actorId: string, reason: string) {
+    const text = this.requireReason(reason, 'Escalation');
+    const incident = await this.findOpen(incidentId);
+
+    const severity = Math.min(5, incident.severity + 1);
+
+    const updated = await this.prisma.safety_incidents.update({
+      where: { id: incidentId },
+      data: { status: 'ESCALATED', severity },
+      include: INCIDENT_INCLUDE,
+    });
+
+    await this.eventService.emit({
+      actorId,
+      entityType: 'SAFETY_INCIDENT',
+      entityId: incidentId,
+      action: 'INCIDENT_ESCALATED',
+      snapshot: { reason: text },
+      metadata: {
+        fromStatus: incident.status,
+        fromSeverity: incident.severity,
+        toSeverity: severity,
+      },
+    });
+
+    return this.withSla(updated);
+  }
+
+  /**
+   * Close an incident as RESOLVED or DISMISSED with a reason
+   */
+  async resolve(incidentId: string, actorId: string, data: ResolveIncidentDTO) {
+    if (!CLOSED_INCIDENT_STATUSES.includes(data.outcome)) {
+      throw new ValidationError('Outcome must be RESOLVED or DISMISSED');
+    }
+
+    const text = this.requireReason(data.reason, 'Resolution');
+    const incident = await this.findOpen(incidentId);
+
+    const updated = await this.prisma.safety_incidents.update({
+      where: { id: incidentId },
+      data: {
+        status: data.outcome,
+        resolution: text,
+        resolvedById: actorId,
+        closedAt: new Date(),
+      },
+      include: INCIDENT_INCLUDE,
+    });
+
+    await this.eventService.emit({
+      actorId,
+      entityType: 'SAFETY_INCIDENT',
+      entityId: incidentId,
+      action: data.outcome === 'RESOLVED' ? 'INCIDENT_RESOLVED' : 'INCIDENT_DISMISSED',
+      snapshot: { resolution: text },
+      metadata: {
+        fromStatus: incident.status,
+        severity: incident.severity,
+      },
+    });
+
+    return this.withSla(updated);
+  }
+
+  /**
+   * Link existing events to an incident as evidence
+   */
+  async linkEvidence(incidentId: string, actorId: string, eventIds: string[]) {
+    const requested = [...new Set((eventIds || []).map((id) => id.trim()).filter(Boolean))];
+
+    if (requested.length === 0) {
+      throw new ValidationError('At least one event ID is required');
+    }
+
+    const incident = await this.findOpen(incidentId);
+
+    const found = await this.prisma.events.findMany({
+      where: { id: { in: requested } },
+      select: { id: true },
+    });
+    const foundIds = new Set(found.map((event) => event.id));
+    const missing = requested.filter((id) => !foundIds.has(id));
+
+    if (missing.length > 0) {
+      throw new ValidationError('Some events do not exist', { missing });
+    }
+
+    const added = requested.filter((id) => !incident.evidenceEventIds.includes(id));
+
+    if (added.length === 0) {
+      throw new ConflictError('These events are already linked to the incident');
+    }
+
+    const updated = await this.prisma.safety_incidents.update({
+      where: { id: incidentId },
+      data: { evidenceEventIds: [...incident.evidenceEventIds, ...added] },
+      include: INCIDENT_INCLUDE,
+    });
+
+    await this.eventService.emit({
+      actorId,
+      entityType: 'SAFETY_INCIDENT',
+      entityId: incidentId,
+      action: 'INCIDENT_EVIDENCE_LINKED',
+      metadata: { eventIds: added },
+    });
+
+    return this.withSla(updated);
+  }
+
+  private async findOpen(incidentId: string) {
+    const incident = await this.prisma.safety_incidents.findUnique({
+      where: { id: incidentId },
+    });
+
+    if (!incident) {
+      throw new NotFoundError('Incident');
+    }
+
+    if (CLOSED_INCIDENT_STATUSES.includes(incident.status as IncidentStatus)) {
+      throw new ConflictError(`Incident is already ${incident.status.toLowerCase()}`);
+    }
+
+    return incident as typeof incident & { status: IncidentStatus };
+  }
+
+  private requireReason(reason: string, label: string): string {
+    const text = reason?.trim() || '';
+
+    if (text.length < MIN_REASON_LENGTH) {
+      throw new ValidationError(`${label} reason must be at least ${MIN_REASON_LENGTH} characters`);
+    }
+
+    return text;
+  }
+
+  private withSla<T extends IncidentRecord>(incident: T, now?: Date): T & { sla: IncidentSla } {
+    return { ...incident, sla: computeSla(incident, now) };
+  }
+}
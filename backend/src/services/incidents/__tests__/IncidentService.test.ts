@@ -0,0 +1,314 @@
+import { IncidentService } from '../IncidentService';
+import { computeSla } from '../sla';
+import { EventService } from '../../events/EventService';
+import { ConflictError, NotFoundError, ValidationError } from '../../../types';
+
+jest.mock('../../../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+  },
+}));
+
+describe('IncidentService', () => {
+  let service: IncidentService;
+  let mockPrisma: any;
+  let mockEventService: jest.Mocked<EventService>;
+
+  const incidentId = 'incident-123';
+  const moderatorId = 'moderator-123';
+
+  const baseIncident = {
+    id: incidentId,
+    challengeId: 'challenge-123',
+    raisedById: 'user-123',
+    status: 'OPEN',
+    category: 'HARASSMENT',
+    severity: 3,
+    description: 'Abusive comment',
+    evidenceEventIds: ['event-1'],
+    assignedTo: null,
+    assignedAt: null,
+    resolution: null,
+    resolvedById: null,
+    createdAt: new Date(),
+    closedAt: null,
+  };
+
+  beforeEach(() => {
+    mockPrisma = {
+      safety_incidents: {
+        findMany: jest.fn(),
+        findUnique: jest.fn(),
+        update: jest.fn(),
+        count: jest.fn(),
+      },
+      safety_incident_notes: {
+        create: jest.fn(),
+      },
+      events: {
+        findMany: jest.fn(),
+      },
+    };
+
+    mockEventService = {
+      emit: jest.fn(),
+      getTrail: jest.fn(),
+      getByActor: jest.fn(),
+      getRecent: jest.fn(),
+    } as any;
+
+    service = new IncidentService(mockPrisma as any, mockEventService);
+    jest.clearAllMocks();
+
+    mockPrisma.safety_incidents.update.mockImplementation(({ data }: any) =>
+      Promise.resolve({ ...baseIncident, ...data })
+    );
+  });
+
+  describe('list', () => {
+    it('should filter by status, severity and assignee and attach SLA state', async () => {
+      mockPrisma.safety_incidents.findMany.mockResolvedValue([baseIncident]);
+      mockPrisma.safety_incidents.count.mockResolvedValue(1);
+
+      const result = await service.list(
+        { status: ['OPEN', 'ESCALATED'], severity: [3, 4], assignedTo: null },
+        { page: 1, limit: 20, skip: 0 }
+      );
+
+      expect(mockPrisma.safety_incidents.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            status: { in: ['OPEN', 'ESCALATED'] },
+            severity: { in: [3, 4] },
+            assignedTo: null,
+          },
+          orderBy: [{ severity: 'desc' }, { createdAt: 'asc' }],
+        })
+      );
+      expect(result.total).toBe(1);
+      expect(result.incidents[0].sla).toMatchObject({
+        responseBreached: false,
+        resolutionBreached: false,
+      });
+    });
+  });
+
+  describe('assignToMe', () => {
+    it('should assign an open incident and start investigating', async () => {
+      mockPrisma.safety_incidents.findUnique.mockResolvedValue(baseIncident);
+
+      const incident = await service.assignToMe(incidentId, moderatorId);
+
+      expect(incident.status).toBe('INVESTIGATING');
+      expect(incident.assignedTo).toBe(moderatorId);
+      expect(incident.assignedAt).toBeInstanceOf(Date);
+      expect(mockEventService.emit).toHaveBeenCalledWith(
+        expect.objectContaining({
+          actorId: moderatorId,
+          entityType: 'SAFETY_INCIDENT',
+          entityId: incidentId,
+          action: 'INCIDENT_ASSIGNED',
+          metadata: { previousAssignee: null, fromStatus: 'OPEN', toStatus: 'INVESTIGATING' },
+        })
+      );
+    });
+
+    it('should keep an escalated incident escalated and the first assignment time', async () => {
+      const assignedAt = new Date('2026-01-01T00:00:00Z');
+      mockPrisma.safety_incidents.findUnique.mockResolvedValue({
+        ...baseIncident,
+        status: 'ESCALATED',
+        assignedTo: 'moderator-other',
+        assignedAt,
+      });
+
+      const incident = await service.assignToMe(incidentId, moderatorId);
+
+      expect(incident.status).toBe('ESCALATED');
+      expect(incident.assignedAt).toBe(assignedAt);
+    });
+
+    it('should reject closed incidents', async () => {
+      mockPrisma.safety_incidents.findUnique.mockResolvedValue({
+        ...baseIncident,
+        status: 'RESOLVED',
+      });
+
+      await expect(service.assignToMe(incidentId, moderatorId)).rejects.toThrow(ConflictError);
+      expect(mockEventService.emit).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundError for unknown incidents', async () => {
+      mockPrisma.safety_incidents.findUnique.mockResolvedValue(null);
+
+      await expect(service.assignToMe(incidentId, moderatorId)).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('addNote', () => {
+    it('should store the note and log it', async () => {
+      mockPrisma.safety_incidents.findUnique.mockResolvedValue({ id: incidentId });
+      mockPrisma.safety_incident_notes.create.mockImplementation(({ data }: any) =>
+        Promise.resolve({ ...data, createdAt: new Date() })
+      );
+
+      const note = await service.addNote(incidentId, moderatorId, '  Contacted the author  ');
+
+      expect(note.body).toBe('Contacted the author');
+      expect(mockEventService.emit).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'INCIDENT_NOTE_ADDED',
+          metadata: { noteId: note.id },
+        })
+      );
+    });
+
+    it('should reject empty notes', async () => {
+      await expect(service.addNote(incidentId, moderatorId, '   ')).rejects.toThrow(
+        ValidationError
+      );
+    });
+  });
+
+  describe('escalate', () => {
+    it('should raise severity by one, capped at 5', async () => {
+      mockPrisma.safety_incidents.findUnique.mockResolvedValue({ ...baseIncident, severity: 5 });
+
+      const incident = await service.escalate(incidentId, moderatorId, 'Repeated threats today');
+
+      expect(incident.status).toBe('ESCALATED');
+      expect(incident.severity).toBe(5);
+      expect(mockEventService.emit).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'INCIDENT_ESCALATED',
+          metadata: { fromStatus: 'OPEN', fromSeverity: 5, toSeverity: 5 },
+        })
+      );
+    });
+
+    it('should require a reason', async () => {
+      await expect(service.escalate(incidentId, moderatorId, 'bad')).rejects.toThrow(
+        ValidationError
+      );
+      expect(mockPrisma.safety_incidents.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resolve', () => {
+    it('should close the incident with the reason', async () => {
+      mockPrisma.safety_incidents.findUnique.mockResolvedValue({
+        ...baseIncident,
+        status: 'INVESTIGATING',
+      });
+
+      const incident = await service.resolve(incidentId, moderatorId, {
+        outcome: 'DISMISSED',
+        reason: 'Quoted text, not abusive',
+      });
+
+      expect(incident).toMatchObject({
+        status: 'DISMISSED',
+        resolution: 'Quoted text, not abusive',
+        resolvedById: moderatorId,
+      });
+      expect(incident.closedAt).toBeInstanceOf(Date);
+      expect(mockEventService.emit).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'INCIDENT_DISMISSED',
+          snapshot: { resolution: 'Quoted text, not abusive' },
+        })
+      );
+    });
+
+    it('should require a reason of at least 10 characters', async () => {
+      await expect(
+        service.resolve(incidentId, moderatorId, { outcome: 'RESOLVED', reason: 'done' })
+      ).rejects.toThrow(ValidationError);
+    });
+
+    it('should reject incidents that are already closed', async () => {
+      mockPrisma.safety_incidents.findUnique.mockResolvedValue({
+        ...baseIncident,
+        status: 'DISMISSED',
+      });
+
+      await expect(
+        service.resolve(incidentId, moderatorId, {
+          outcome: 'RESOLVED',
+          reason: 'Author removed the comment',
+        })
+      ).rejects.toThrow(ConflictError);
+    });
+  });
+
+  describe('linkEvidence', () => {
+    beforeEach(() => {
+      mockPrisma.safety_incidents.findUnique.mockResolvedValue(baseIncident);
+    });
+
+    it('should append new event IDs once', async () => {
+      mockPrisma.events.findMany.mockResolvedValue([{ id: 'event-1' }, { id: 'event-2' }]);
+
+      const incident = await service.linkEvidence(incidentId, moderatorId, [
+        'event-1',
+        'event-2',
+        'event-2',
+      ]);
+
+      expect(incident.evidenceEventIds).toEqual(['event-1', 'event-2']);
+      expect(mockEventService.emit).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'INCIDENT_EVIDENCE_LINKED',
+          metadata: { eventIds: ['event-2'] },
+        })
+      );
+    });
+
+    it('should reject events that do not exist', async () => {
+      mockPrisma.events.findMany.mockResolvedValue([{ id: 'event-2' }]);
+
+      await expect(
+        service.linkEvidence(incidentId, moderatorId, ['event-2', 'event-404'])
+      ).rejects.toMatchObject({ statusCode: 400, details: { missing: ['event-404'] } });
+    });
+
+    it('should reject events that are all linked already', async () => {
+      mockPrisma.events.findMany.mockResolvedValue([{ id: 'event-1' }]);
+
+      await expect(service.linkEvidence(incidentId, moderatorId, ['event-1'])).rejects.toThrow(
+        ConflictError
+      );
+    });
+  });
+});
+
+describe('computeSla', () => {
+  const createdAt = new Date('2026-01-01T00:00:00Z');
+  const hours = (n: number) => new Date(createdAt.getTime() + n * 60 * 60 * 1000);
+
+  it('should set deadlines from the severity targets', () => {
+    const sla = computeSla({ severity: 5, createdAt, assignedAt: null, closedAt: null }, hours(0));
+
+    expect(sla.respondBy).toEqual(hours(1));
+    expect(sla.resolveBy).toEqual(hours(24));
+  });
+
+  it('should breach the response target while nobody has picked the incident up', () => {
+    const sla = computeSla({ severity: 4, createdAt, assignedAt: null, closedAt: null }, hours(5));
+
+    expect(sla.responseBreached).toBe(true);
+    expect(sla.resolutionBreached).toBe(false);
+  });
+
+  it('should stop the timers at assignment and closure', () => {
+    const sla = computeSla(
+      { severity: 4, createdAt, assignedAt: hours(2), closedAt: hours(48) },
+      hours(1000)
+    );
+
+    expect(sla.responseBreached).toBe(false);
+    expect(sla.resolutionBreached).toBe(false);
+  });
+});
@@ -0,0 +1,51 @@
+/**
+ * Service-level targets for safety incidents, by severity (1-5).
+ * `respondWithinHours` runs from creation until a moderator picks the incident
+ * up; `resolveWithinHours` runs from creation until it is resolved or dismissed.
+ */
+export const INCIDENT_SLA_HOURS: Record<
+  number,
+  { respondWithinHours: number; resolveWithinHours: number }
+> = {
+  5: { respondWithinHours: 1, resolveWithinHours: 24 },
+  4: { respondWithinHours: 4, resolveWithinHours: 72 },
+  3: { respondWithinHours: 24, resolveWithinHours: 7 * 24 },
+  2: { respondWithinHours: 72, resolveWithinHours: 14 * 24 },
+  1: { respondWithinHours: 7 * 24, resolveWithinHours: 30 * 24 },
+};
+
+export interface IncidentSla {
+  respondBy: Date;
+  resolveBy: Date;
+  responseBreached: boolean;
+  resolutionBreached: boolean;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * SLA deadlines and breach flags for an incident. Open timers are measured
+ * against `now`; stopped timers against the time they stopped.
+ */
+export const computeSla = (
+  incident: { severity: number; createdAt: Date; assignedAt: Date | null; closedAt: Date | null },
+  now: Date = new Date()
+): IncidentSla => {
+  const severity = Math.min(5, Math.max(1, Math.round(incident.severity)));
+  const targets = INCIDENT_SLA_HOURS[severity];
+  const created = incident.createdAt.getTime();
+
+  const respondBy = new Date(created + targets.respondWithinHours * HOUR_MS);
+  const resolveBy = new Date(created + targets.resolveWithinHours * HOUR_MS);
+
+  // A closed incident that was never assigned was still responded to when it closed
+  const respondedAt = incident.assignedAt ?? incident.closedAt ?? now;
+  const resolvedAt = incident.closedAt ?? now;
+
+  return {
+    respondBy,
+    resolveBy,
+    responseBreached: respondedAt.getTime() > respondBy.getTime(),
+    resolutionBreached: resolvedAt.getTime() > resolveBy.getTime(),
+  };
+};
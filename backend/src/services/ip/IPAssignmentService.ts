@@ -0,0 +1,181 @@
+import { PrismaClient, ProposalStatus } from '@prisma/client';
+import crypto from 'crypto';
+import { generateId } from '../../utils/idGenerator';
+import { EventService } from '../events/EventService';
+import { IP_AGREEMENT_VERSION, renderAgreement } from './agreement';
+import { SignIPAssignmentDTO } from '../../types';
+import { ValidationError, NotFoundError, AuthorizationError, ConflictError } from '../../types';
+
+/**
+ * IPAssignmentService - Per-challenge IP assignment agreements
+ *
+ * Business Rules:
+ * - Only contributors (a contribution or an accepted proposal) can sign for a challenge
+ * - One agreement per contributor per challenge; signing again is only allowed
+ *   once the agreement text has changed (e.g. a new version)
+ * - The signer must echo back the content hash of the text they were shown, so
+ *   a signature always refers to the exact wording
+ * - The signer types their full name as the signature
+ * - Signatures are logged via EventService with the agreement content hash
+ */
+export class IPAssignmentService {
+  constructor(
+    private prisma: PrismaClient,
+    private eventService: EventService
+  ) {}
+
+  /**
+   * Get the agreement text a contributor is asked to sign, with their current signature
+   */
+  async getAgreement(userId: string, challengeId: string) {
+    const { text, contentHash } = await this.renderFor(userId, challengeId);
+
+    const assignment = await this.prisma.ip_assignments.findUnique({
+      where: { challengeId_userId: { challengeId, userId } },
+    });
+
+    return {
+      version: IP_AGREEMENT_VERSION,
+      text,
+      contentHash,
+      assignment,
+    };
+  }
+
+  /**
+   * Sign the current agreement for a challenge
+   */
+  async sign(userId: string, challengeId: string, data: SignIPAssignmentDTO) {
+    const signedName = data.signedName?.trim() || '';
+
+    if (signedName.length < 2) {
+      throw new ValidationError('Type your full name to sign the agreement');
+    }
+
+    const { text, contentHash } = await this.renderFor(userId, challengeId);
+
+    if (data.contentHash !== contentHash) {
+      throw new ConflictError(
+        'The agreement has changed since it was loaded. Review it and sign again'
+      );
+    }
+
+    const existing = await this.prisma.ip_assignments.findUnique({
+      where: { challengeId_userId: { challengeId, userId } },
+    });
+
+    if (existing && existing.contentHash === contentHash) {
+      throw new ConflictError('IP assignment agreement already signed');
+    }
+
+    const signedAt = new Date();
+    const fields = {
+      agreementVersion: IP_AGREEMENT_VERSION,
+      contentHash,
+      signedName,
+      signedAt,
+      updatedAt: signedAt,
+    };
+
+    const assignment = await this.prisma.ip_assignments.upsert({
+      where: { challengeId_userId: { challengeId, userId } },
+      create: { id: generateId(), challengeId, userId, ...fields },
+      update: fields,
+    });
+
+    await this.eventService.emit({
+      actorId: userId,
+      entityType: 'CHALLENGE',
+      entityId: challengeId,
+      action: 'IP_ASSIGNMENT_SIGNED',
+      snapshot: {
+        assignmentId: assignment.id,
+        agreement: text,
+        signedName,
+        signedAt: signedAt.toISOString(),
+      },
+      metadata: {
+        assignmentId: assignment.id,
+        contributorId: userId,
+        agreementVersion: IP_AGREEMENT_VERSION,
+        contentHash,
+        previousVersion: existing?.agreementVersion || null,
+      },
+    });
+
+    return assignment;
+  }
+
+  /**
+   * Get all signed agreements for a challenge
+   */
+  async getByChallenge(challengeId: string) {
+    return this.prisma.ip_assignments.findMany({
+      where: { challengeId },
+      orderBy: { signedAt: 'asc' },
+      include: {
+        users: {
+          select: {
+            id: true,
+            email: true,
+          },
+        },
+      },
+    });
+  }
+
+  /**
+   * Hash agreement text the same way for display and signing
+   */
+  static hashAgreement(text: string): string {
+    return crypto.createHash('sha256').update(text, 'utf8').digest('hex');
+  }
+
+  /**
+   * Render the agreement for a contributor, checking they may sign it
+   */
+  private async renderFor(userId: string, challengeId: string) {
+    const challenge = await this.prisma.challenges.findUnique({
+      where: { id: challengeId },
+      select: {
+        id: true,
+        title: true,
+        users_challenges_sponsorIdTousers: { select: { email: true } },
+        contributions: { where: { userId }, select: { id: true } },
+        proposals: {
+          where: { contributorId: userId, status: ProposalStatus.ACCEPTED },
+          select: { id: true },
+        },
+      },
+    });
+
+    if (!challenge) {
+      throw new NotFoundError('Challenge');
+    }
+
+    if (challenge.contributions.length === 0 && challenge.proposals.length === 0) {
+      throw new AuthorizationError(
+        'Only contributors to this challenge can sign its IP assignment'
+      );
+    }
+
+    const contributor = await this.prisma.users.findUnique({
+      where: { id: userId },
+      select: { id: true, email: true },
+    });
+
+    if (!contributor) {
+      throw new NotFoundError('User');
+    }
+
+    const text = renderAgreement({
+      challengeId: challenge.id,
+      challengeTitle: challenge.title,
+      sponsorEmail: challenge.users_challenges_sponsorIdTousers.email,
+      contributorId: contributor.id,
+      contributorEmail: contributor.email,
+    });
+
+    return { text, contentHash: IPAssignmentService.hashAgreement(text) };
+  }
+}
@@ -0,0 +1,181 @@
+import { IPAssignmentService } from '../IPAssignmentService';
+import { IP_AGREEMENT_VERSION, renderAgreement } from '../agreement';
+import { EventService } from '../../events/EventService';
+import { ValidationError, NotFoundError, AuthorizationError, ConflictError } from '../../../types';
+
+jest.mock('../../../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+  },
+}));
+
+describe('IPAssignmentService', () => {
+  let service: IPAssignmentService;
+  let mockPrisma: any;
+  let mockEventService: jest.Mocked<EventService>;
+
+  const challengeId = 'challenge-123';
+  const contributorId = 'user-123';
+
+  const mockChallenge = {
+    id: challengeId,
+    title: 'Test Challenge',
+    users_challenges_sponsorIdTousers: { email: 'sponsor@example.com' },
+    contributions: [{ id: 'contribution-1' }],
+    proposals: [],
+  };
+
+  const expectedText = renderAgreement({
+    challengeId,
+    challengeTitle: mockChallenge.title,
+    sponsorEmail: 'sponsor@example.com',
+    contributorId,
+    contributorEmail: 'contributor@example.com',
+  });
+  const expectedHash = IPAssignmentService.hashAgreement(expectedText);
+
+  beforeEach(() => {
+    mockPrisma = {
+      challenges: {
+        findUnique: jest.fn(),
+      },
+      users: {
+        findUnique: jest.fn(),
+      },
+      ip_assignments: {
+        findUnique: jest.fn(),
+        findMany: jest.fn(),
+        upsert: jest.fn(),
+      },
+    };
+
+    mockEventService = {
+      emit: jest.fn(),
+      getTrail: jest.fn(),
+      getByActor: jest.fn(),
+      getRecent: jest.fn(),
+    } as any;
+
+    service = new IPAssignmentService(mockPrisma as any, mockEventService);
+    jest.clearAllMocks();
+
+    mockPrisma.challenges.findUnique.mockResolvedValue(mockChallenge);
+    mockPrisma.users.findUnique.mockResolvedValue({
+      id: contributorId,
+      email: 'contributor@example.com',
+    });
+    mockPrisma.ip_assignments.findUnique.mockResolvedValue(null);
+    mockPrisma.ip_assignments.upsert.mockImplementation(({ create }: any) =>
+      Promise.resolve(create)
+    );
+  });
+
+  describe('getAgreement()', () => {
+    it('should render the agreement for the contributor with its hash', async () => {
+      const agreement = await service.getAgreement(contributorId, challengeId);
+
+      expect(agreement.version).toBe(IP_AGREEMENT_VERSION);
+      expect(agreement.text).toBe(expectedText);
+      expect(agreement.text).toContain('contributor@example.com');
+      expect(agreement.contentHash).toMatch(/^[a-f0-9]{64}$/);
+      expect(agreement.contentHash).toBe(expectedHash);
+      expect(agreement.assignment).toBeNull();
+    });
+
+    it('should throw NotFoundError for unknown challenges', async () => {
+      mockPrisma.challenges.findUnique.mockResolvedValue(null);
+
+      await expect(service.getAgreement(contributorId, challengeId)).rejects.toThrow(NotFoundError);
+    });
+
+    it('should reject users who are not contributors', async () => {
+      mockPrisma.challenges.findUnique.mockResolvedValue({
+        ...mockChallenge,
+        contributions: [],
+        proposals: [],
+      });
+
+      await expect(service.getAgreement('stranger-123', challengeId)).rejects.toThrow(
+        AuthorizationError
+      );
+    });
+  });
+
+  describe('sign()', () => {
+    it('should store the signature and emit the content hash', async () => {
+      const assignment = await service.sign(contributorId, challengeId, {
+        signedName: '  Ada Lovelace ',
+        contentHash: expectedHash,
+      });
+
+      expect(assignment).toMatchObject({
+        challengeId,
+        userId: contributorId,
+        agreementVersion: IP_AGREEMENT_VERSION,
+        contentHash: expectedHash,
+        signedName: 'Ada Lovelace',
+      });
+      expect(assignment.signedAt).toBeInstanceOf(Date);
+      expect(mockEventService.emit).toHaveBeenCalledWith(
+        expect.objectContaining({
+          actorId: contributorId,
+          entityType: 'CHALLENGE',
+          entityId: challengeId,
+          action: 'IP_ASSIGNMENT_SIGNED',
+          snapshot: expect.objectContaining({ agreement: expectedText }),
+          metadata: expect.objectContaining({ contentHash: expectedHash }),
+        })
+      );
+    });
+
+    it('should require a typed name', async () => {
+      await expect(
+        service.sign(contributorId, challengeId, { signedName: ' ', contentHash: expectedHash })
+      ).rejects.toThrow(ValidationError);
+    });
+
+    it('should reject a hash that does not match the current agreement', async () => {
+      await expect(
+        service.sign(contributorId, challengeId, {
+          signedName: 'Ada Lovelace',
+          contentHash: 'a'.repeat(64),
+        })
+      ).rejects.toThrow(ConflictError);
+      expect(mockPrisma.ip_assignments.upsert).not.toHaveBeenCalled();
+    });
+
+    it('should reject signing the same agreement twice', async () => {
+      mockPrisma.ip_assignments.findUnique.mockResolvedValue({
+        agreementVersion: IP_AGREEMENT_VERSION,
+        contentHash: expectedHash,
+      });
+
+      await expect(
+        service.sign(contributorId, challengeId, {
+          signedName: 'Ada Lovelace',
+          contentHash: expectedHash,
+        })
+      ).rejects.toThrow(ConflictError);
+    });
+
+    it('should allow re-signing after the agreement changed', async () => {
+      mockPrisma.ip_assignments.findUnique.mockResolvedValue({
+        agreementVersion: 'old-version',
+        contentHash: 'b'.repeat(64),
+      });
+
+      await service.sign(contributorId, challengeId, {
+        signedName: 'Ada Lovelace',
+        contentHash: expectedHash,
+      });
+
+      expect(mockEventService.emit).toHaveBeenCalledWith(
+        expect.objectContaining({
+          metadata: expect.objectContaining({ previousVersion: 'old-version' }),
+        })
+      );
+    });
+  });
+});
@@ -0,0 +1,39 @@
+/**
+ * IP assignment agreement template
+ *
+ * Bump IP_AGREEMENT_VERSION whenever the wording changes. Agreements signed on
+ * an older version stay on record but are flagged for re-signing.
+ */
+
+export const IP_AGREEMENT_VERSION = '2026-10-v1';
+
+export interface AgreementParties {
+  challengeId: string;
+  challengeTitle: string;
+  sponsorEmail: string;
+  contributorId: string;
+  contributorEmail: string;
+}
+
+export const renderAgreement = (parties: AgreementParties): string =>
+  [
+    `INTELLECTUAL PROPERTY ASSIGNMENT AGREEMENT (version ${IP_AGREEMENT_VERSION})`,
+    '',
+    `Challenge: ${parties.challengeTitle} (${parties.challengeId})`,
+    `Assignor (Contributor): ${parties.contributorEmail} (${parties.contributorId})`,
+    `Assignee (Sponsor): ${parties.sponsorEmail}`,
+    '',
+    '1. In consideration of the payout allocated to the Contributor under the signed payout ' +
+      'proposal for this Challenge, the Contributor assigns to the Sponsor all present and ' +
+      'future intellectual property rights in the work the Contributor submits to this Challenge.',
+    '2. The assignment takes effect on release of payment. Until then the Contributor grants ' +
+      'the Sponsor a non-exclusive licence to evaluate the work.',
+    '3. The Contributor confirms the work is their own original work, or is used under a ' +
+      'licence that permits this assignment, and that it does not knowingly infringe the ' +
+      'rights of any third party.',
+    '4. The Contributor waives, to the extent permitted by law, any moral rights in the work, ' +
+      'save the right to be credited as a contributor in the composition manifest.',
+    '5. Pre-existing material and general know-how are not assigned; the Contributor grants ' +
+      'the Sponsor a perpetual, royalty-free licence to use any pre-existing material ' +
+      'incorporated in the work.',
+  ].join('\n');
@@ -0,0 +1,112 @@
+import { env, EnvConfig } from '../../config/env';
+import { logger } from '../../utils/logger';
+
+export interface IPFSConfig {
+  apiUrl: string;
+  apiToken?: string;
+  gatewayUrl: string;
+  timeoutMs: number;
+}
+
+export interface PinResult {
+  cid: string;
+  size: number;
+  url: string;
+}
+
+/**
+ * IPFSService - Publishes content to an IPFS node over its HTTP API
+ *
+ * Business Rules:
+ * - Content is added with CIDv1 and pinned, so the CID can be checked by anyone
+ *   against any IPFS gateway without trusting our server
+ * - Publishing is optional: pin() never throws, it returns null and logs a warning
+ *   so uploads and evidence generation still succeed when the node is unreachable
+ *   or does not answer within IPFS_TIMEOUT_MS
+ * - Works with Kubo (`/api/v0/add`) and pinning services exposing the same API;
+ *   IPFS_API_TOKEN is sent as a bearer token when set
+ */
+export class IPFSService {
+  constructor(private config: IPFSConfig) {}
+
+  /**
+   * Add and pin content, returning its CID (or null if publishing failed)
+   */
+  async pin(data: Buffer, fileName: string): Promise<PinResult | null> {
+    try {
+      const form = new FormData();
+      form.append('file', new Blob([new Uint8Array(data)]), fileName);
+
+      const url = `${this.config.apiUrl.replace(/\/$/, '')}/api/v0/add?pin=true&cid-version=1`;
+      const response = await fetch(url, {
+        method: 'POST',
+        body: form,
+        headers: this.config.apiToken
+          ? { Authorization: `Bearer ${this.config.apiToken}` }
+          : undefined,
+        signal: AbortSignal.timeout(this.config.timeoutMs),
+      });
+
+      if (!response.ok) {
+        throw new Error(`IPFS API responded with ${response.status}`);
+      }
+
+      const body = (await response.json()) as { Hash?: string; Size?: string };
+
+      if (!body.Hash) {
+        throw new Error('IPFS API response did not include a CID');
+      }
+
+      return {
+        cid: body.Hash,
+        size: Number(body.Size) || data.length,
+        url: this.gatewayUrl(body.Hash),
+      };
+    } catch (error) {
+      // Aborts surface as a DOMException, which is not always an instanceof Error
+      const reason =
+        (error as { name?: string })?.name === 'TimeoutError'
+          ? `no response within ${this.config.timeoutMs}ms`
+          : error instanceof Error
+            ? error.message
+            : error;
+      logger.warn(`IPFS pinning failed for ${fileName}: ${reason}`);
+      return null;
+    }
+  }
+
+  /**
+   * Public gateway URL for a CID
+   */
+  gatewayUrl(cid: string): string {
+    return `${this.config.gatewayUrl.replace(/\/$/, '')}/${cid}`;
+  }
+}
+
+let sharedService: IPFSService | null | undefined;
+
+/**
+ * Build an IPFS service from the IPFS_* environment settings, or null when disabled
+ */
+export const createIPFSService = (config: EnvConfig = env): IPFSService | null => {
+  if (!config.IPFS_API_URL) {
+    return null;
+  }
+
+  return new IPFSService({
+    apiUrl: config.IPFS_API_URL,
+    apiToken: config.IPFS_API_TOKEN || undefined,
+    gatewayUrl: config.IPFS_GATEWAY_URL,
+    timeoutMs: config.IPFS_TIMEOUT_MS,
+  });
+};
+
+/**
+ * Process-wide IPFS service, or null when IPFS publishing is not configured
+ */
+export const getIPFSService = (): IPFSService | null => {
+  if (sharedService === undefined) {
+    sharedService = createIPFSService();
+  }
+  return sharedService;
+};
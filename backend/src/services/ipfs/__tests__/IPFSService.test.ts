@@ -0,0 +1,121 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { IPFSService, createIPFSService } from '../IPFSService';
+import { env } from '../../../config/env';
+import { logger } from '../../../utils/logger';
+
+jest.mock('../../../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+  },
+}));
+
+/**
+ * Minimal stand-in for the Kubo `/api/v0/add` endpoint
+ * A null status accepts the upload but never answers, like a stalled node
+ */
+const startFakeIPFS = async (status: number | null = 200) => {
+  const requests: { url: string; authorization?: string; body: string }[] = [];
+
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk) => chunks.push(chunk));
+    req.on('end', () => {
+      requests.push({
+        url: req.url || '',
+        authorization: req.headers.authorization,
+        body: Buffer.concat(chunks).toString(),
+      });
+      if (status === null) return;
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(
+        status === 200
+          ? JSON.stringify({ Name: 'report.pdf', Hash: 'bafybeigdyrzt5example', Size: '42' })
+          : JSON.stringify({ Message: 'node offline' })
+      );
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    apiUrl: `http://127.0.0.1:${port}`,
+    requests,
+    close: () =>
+      new Promise<void>((resolve) => {
+        server.close(() => resolve());
+        server.closeAllConnections();
+      }),
+  };
+};
+
+describe('IPFSService', () => {
+  it('should add and pin content as CIDv1 and return the gateway URL', async () => {
+    const fake = await startFakeIPFS();
+    try {
+      const ipfs = new IPFSService({
+        apiUrl: fake.apiUrl,
+        apiToken: 'secret-token',
+        gatewayUrl: 'https://gateway.example/ipfs/',
+        timeoutMs: 5000,
+      });
+
+      const result = await ipfs.pin(Buffer.from('pdf bytes'), 'report.pdf');
+
+      expect(result).toEqual({
+        cid: 'bafybeigdyrzt5example',
+        size: 42,
+        url: 'https://gateway.example/ipfs/bafybeigdyrzt5example',
+      });
+      expect(fake.requests[0].url).toBe('/api/v0/add?pin=true&cid-version=1');
+      expect(fake.requests[0].authorization).toBe('Bearer secret-token');
+      expect(fake.requests[0].body).toContain('filename="report.pdf"');
+      expect(fake.requests[0].body).toContain('pdf bytes');
+    } finally {
+      await fake.close();
+    }
+  });
+
+  it('should return null instead of throwing when the node rejects the upload', async () => {
+    const fake = await startFakeIPFS(500);
+    try {
+      const ipfs = new IPFSService({
+        apiUrl: fake.apiUrl,
+        gatewayUrl: 'https://ipfs.io/ipfs',
+        timeoutMs: 5000,
+      });
+
+      await expect(ipfs.pin(Buffer.from('x'), 'x.txt')).resolves.toBeNull();
+    } finally {
+      await fake.close();
+    }
+  });
+
+  it('should give up and return null when the node does not answer in time', async () => {
+    const fake = await startFakeIPFS(null);
+    try {
+      const ipfs = new IPFSService({
+        apiUrl: fake.apiUrl,
+        gatewayUrl: 'https://ipfs.io/ipfs',
+        timeoutMs: 50,
+      });
+
+      await expect(ipfs.pin(Buffer.from('x'), 'x.txt')).resolves.toBeNull();
+      expect(logger.warn).toHaveBeenLastCalledWith(
+        'IPFS pinning failed for x.txt: no response within 50ms'
+      );
+    } finally {
+      await fake.close();
+    }
+  });
+
+  it('should be disabled when no API URL is configured', () => {
+    expect(createIPFSService({ ...env, IPFS_API_URL: '' })).toBeNull();
+    expect(createIPFSService({ ...env, IPFS_API_URL: 'http://localhost:5001' })).toBeInstanceOf(
+      IPFSService
+    );
+  });
+});
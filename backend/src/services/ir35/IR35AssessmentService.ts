@@ -0,0 +1,242 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { generateId } from '../../utils/idGenerator';
+import { EventService } from '../events/EventService';
+import { IR35_QUESTIONS, IR35Question, UNSURE } from './questionnaire';
+import { CreateIR35AssessmentDTO } from '../../types';
+import { ValidationError, NotFoundError, AuthorizationError } from '../../types';
+
+/**
+ * How long an assessment stays valid before the contributor must be reassessed
+ */
+export const IR35_VALIDITY_DAYS = 365;
+
+export type IR35RiskLevel = 'LOW' | 'MEDIUM' | 'HIGH';
+
+export interface IR35Score {
+  score: number;
+  riskLevel: IR35RiskLevel;
+  recommendation: string;
+  unsure: string[];
+}
+
+const RECOMMENDATIONS: Record<IR35RiskLevel, string> = {
+  LOW: 'Outside IR35: the engagement points to self-employment. Pay gross.',
+  MEDIUM:
+    'Undetermined: mixed indicators. Review the engagement terms before paying, and record a status determination statement.',
+  HIGH: 'Inside IR35: the engagement points to deemed employment. Tax and NIC must be deducted before payment.',
+};
+
+/**
+ * IR35AssessmentService - Scores and records employment-status assessments
+ *
+ * Business Rules:
+ * - Every question must be answered with one of its listed options
+ * - Score is the share of the maximum "employment" score; <0.35 LOW, <0.6 MEDIUM, else HIGH
+ * - Contributors may assess themselves; sponsors and project leaders may assess
+ *   contributors on their challenge; admins may assess anyone
+ * - Assessments need review when risk is not LOW, any answer is UNSURE, or
+ *   the contributor assessed themselves
+ * - Assessments are valid for 365 days; a challenge-scoped assessment only
+ *   covers that challenge, an unscoped one covers all challenges
+ * - All assessments are logged via EventService against the user
+ */
+export class IR35AssessmentService {
+  constructor(
+    private prisma: PrismaClient,
+    private eventService: EventService
+  ) {}
+
+  /**
+   * Get the questionnaire definition
+   */
+  getQuestionnaire(): IR35Question[] {
+    return IR35_QUESTIONS;
+  }
+
+  /**
+   * Score questionnaire responses into a risk level
+   */
+  score(responses: Record<string, string>): IR35Score {
+    if (!responses || typeof responses !== 'object') {
+      throw new ValidationError('Responses are required');
+    }
+
+    let total = 0;
+    let max = 0;
+    const unsure: string[] = [];
+    const errors: string[] = [];
+
+    for (const question of IR35_QUESTIONS) {
+      const answer = responses[question.id];
+      const option = question.options.find((o) => o.value === answer);
+
+      if (!option) {
+        errors.push(
+          `${question.id}: answer must be one of ${question.options.map((o) => o.value).join(', ')}`
+        );
+        continue;
+      }
+
+      if (option.value === UNSURE) {
+        unsure.push(question.id);
+      }
+
+      total += option.score;
+      max += Math.max(...question.options.map((o) => o.score));
+    }
+
+    if (errors.length > 0) {
+      throw new ValidationError('Incomplete or invalid IR35 responses', errors);
+    }
+
+    const score = max > 0 ? Math.round((total / max) * 1000) / 1000 : 0;
+    const riskLevel: IR35RiskLevel = score < 0.35 ? 'LOW' : score < 0.6 ? 'MEDIUM' : 'HIGH';
+
+    return {
+      score,
+      riskLevel,
+      recommendation: RECOMMENDATIONS[riskLevel],
+      unsure,
+    };
+  }
+
+  /**
+   * Record an assessment for a contributor
+   */
+  async assess(assessorId: string, data: CreateIR35AssessmentDTO) {
+    const subject = await this.prisma.users.findUnique({
+      where: { id: data.userId },
+      select: { id: true, email: true },
+    });
+
+    if (!subject) {
+      throw new NotFoundError('User');
+    }
+
+    await this.assertCanAssess(assessorId, data.userId, data.challengeId);
+
+    // Keep only answers to known questions
+    const responses: Record<string, string> = {};
+    for (const question of IR35_QUESTIONS) {
+      if (data.responses?.[question.id] !== undefined) {
+        responses[question.id] = data.responses[question.id];
+      }
+    }
+
+    const result = this.score(responses);
+    const selfAssessed = assessorId === data.userId;
+    const requiresReview = result.riskLevel !== 'LOW' || result.unsure.length > 0 || selfAssessed;
+
+    const assessedAt = new Date();
+    const validUntil = new Date(assessedAt.getTime() + IR35_VALIDITY_DAYS * 24 * 60 * 60 * 1000);
+
+    const assessment = await this.prisma.ir35_assessments.create({
+      data: {
+        id: generateId(),
+        userId: data.userId,
+        challengeId: data.challengeId || null,
+        responses: {
+          answers: responses,
+          score: result.score,
+          unsure: result.unsure,
+        } as Prisma.InputJsonValue,
+        riskLevel: result.riskLevel,
+        recommendation: result.recommendation,
+        requiresReview,
+        assessedBy: assessorId,
+        assessedAt,
+        validUntil,
+      },
+    });
+
+    await this.eventService.emit({
+      actorId: assessorId,
+      entityType: 'USER',
+      entityId: data.userId,
+      action: 'IR35_ASSESSED',
+      snapshot: {
+        assessmentId: assessment.id,
+        responses,
+        score: result.score,
+        riskLevel: result.riskLevel,
+        recommendation: result.recommendation,
+        validUntil: validUntil.toISOString(),
+      },
+      metadata: {
+        assessmentId: assessment.id,
+        challengeId: data.challengeId || null,
+        riskLevel: result.riskLevel,
+        requiresReview,
+        selfAssessed,
+      },
+    });
+
+    return assessment;
+  }
+
+  /**
+   * Get all assessments for a user, newest first
+   */
+  async getByUser(userId: string) {
+    return this.prisma.ir35_assessments.findMany({
+      where: { userId },
+      orderBy: { assessedAt: 'desc' },
+    });
+  }
+
+  /**
+   * Get valid assessments flagged for review (admin)
+   */
+  async getRequiringReview() {
+    return this.prisma.ir35_assessments.findMany({
+      where: {
+        requiresReview: true,
+        validUntil: { gt: new Date() },
+      },
+      orderBy: { assessedAt: 'desc' },
+      include: {
+        users: {
+          select: {
+            id: true,
+            email: true,
+          },
+        },
+      },
+    });
+  }
+
+  /**
+   * Check who may record an assessment for a contributor
+   */
+  private async assertCanAssess(assessorId: string, userId: string, challengeId?: string) {
+    if (challengeId) {
+      const challenge = await this.prisma.challenges.findUnique({
+        where: { id: challengeId },
+        select: { id: true, sponsorId: true, projectLeaderId: true },
+      });
+
+      if (!challenge) {
+        throw new NotFoundError('Challenge');
+      }
+
+      if (challenge.sponsorId === assessorId || challenge.projectLeaderId === assessorId) {
+        return;
+      }
+    }
+
+    if (assessorId === userId) {
+      return;
+    }
+
+    const assessor = await this.prisma.users.findUnique({
+      where: { id: assessorId },
+      select: { role: true },
+    });
+
+    if (assessor?.role !== 'ADMIN') {
+      throw new AuthorizationError(
+        'Only the contributor, the challenge sponsor or project leader, or an admin can assess IR35 status'
+      );
+    }
+  }
+}
@@ -0,0 +1,211 @@
+import { IR35AssessmentService, IR35_VALIDITY_DAYS } from '../IR35AssessmentService';
+import { IR35_QUESTIONS, UNSURE } from '../questionnaire';
+import { EventService } from '../../events/EventService';
+import { ValidationError, NotFoundError, AuthorizationError } from '../../../types';
+
+jest.mock('../../../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+  },
+}));
+
+// Pick the lowest- or highest-scoring option for every question
+const answersWith = (pick: 'min' | 'max'): Record<string, string> =>
+  Object.fromEntries(
+    IR35_QUESTIONS.map((q) => {
+      const options = q.options.filter((o) => o.value !== UNSURE);
+      const sorted = [...options].sort((a, b) => a.score - b.score);
+      return [q.id, (pick === 'min' ? sorted[0] : sorted[sorted.length - 1]).value];
+    })
+  );
+
+describe('IR35AssessmentService', () => {
+  let service: IR35AssessmentService;
+  let mockPrisma: any;
+  let mockEventService: jest.Mocked<EventService>;
+
+  const contributorId = 'user-123';
+  const sponsorId = 'sponsor-123';
+  const challengeId = 'challenge-123';
+
+  beforeEach(() => {
+    mockPrisma = {
+      users: {
+        findUnique: jest.fn(),
+      },
+      challenges: {
+        findUnique: jest.fn(),
+      },
+      ir35_assessments: {
+        create: jest.fn(),
+        findMany: jest.fn(),
+      },
+    };
+
+    mockEventService = {
+      emit: jest.fn(),
+      getTrail: jest.fn(),
+      getByActor: jest.fn(),
+      getRecent: jest.fn(),
+    } as any;
+
+    service = new IR35AssessmentService(mockPrisma as any, mockEventService);
+    jest.clearAllMocks();
+
+    mockPrisma.ir35_assessments.create.mockImplementation(({ data }: any) =>
+      Promise.resolve({ ...data })
+    );
+  });
+
+  describe('score()', () => {
+    it('should score self-employment indicators as LOW', () => {
+      const result = service.score(answersWith('min'));
+
+      expect(result.score).toBe(0);
+      expect(result.riskLevel).toBe('LOW');
+      expect(result.unsure).toEqual([]);
+    });
+
+    it('should score employment indicators as HIGH', () => {
+      const result = service.score(answersWith('max'));
+
+      expect(result.score).toBe(1);
+      expect(result.riskLevel).toBe('HIGH');
+    });
+
+    it('should score all-unsure answers as MEDIUM and list them', () => {
+      const responses = Object.fromEntries(IR35_QUESTIONS.map((q) => [q.id, UNSURE]));
+
+      const result = service.score(responses);
+
+      expect(result.riskLevel).toBe('MEDIUM');
+      expect(result.unsure).toHaveLength(IR35_QUESTIONS.length);
+    });
+
+    it('should reject missing answers', () => {
+      const responses = answersWith('min');
+      delete responses[IR35_QUESTIONS[0].id];
+
+      expect(() => service.score(responses)).toThrow(ValidationError);
+    });
+
+    it('should reject answers that are not listed options', () => {
+      const responses = { ...answersWith('min'), [IR35_QUESTIONS[0].id]: 'MAYBE' };
+
+      expect(() => service.score(responses)).toThrow(ValidationError);
+    });
+  });
+
+  describe('assess()', () => {
+    it('should throw NotFoundError when the contributor does not exist', async () => {
+      mockPrisma.users.findUnique.mockResolvedValue(null);
+
+      await expect(
+        service.assess(sponsorId, { userId: contributorId, responses: answersWith('min') })
+      ).rejects.toThrow(NotFoundError);
+    });
+
+    it('should let the challenge sponsor assess a contributor', async () => {
+      mockPrisma.users.findUnique.mockResolvedValue({ id: contributorId, email: 'c@example.com' });
+      mockPrisma.challenges.findUnique.mockResolvedValue({
+        id: challengeId,
+        sponsorId,
+        projectLeaderId: null,
+      });
+
+      const before = Date.now();
+      const assessment = await service.assess(sponsorId, {
+        userId: contributorId,
+        challengeId,
+        responses: answersWith('min'),
+      });
+
+      expect(assessment.riskLevel).toBe('LOW');
+      expect(assessment.requiresReview).toBe(false);
+      expect(assessment.assessedBy).toBe(sponsorId);
+      expect(assessment.challengeId).toBe(challengeId);
+
+      const validForMs = assessment.validUntil!.getTime() - before;
+      expect(validForMs).toBeGreaterThanOrEqual(IR35_VALIDITY_DAYS * 24 * 60 * 60 * 1000);
+      expect(validForMs).toBeLessThan((IR35_VALIDITY_DAYS + 1) * 24 * 60 * 60 * 1000);
+
+      expect(mockEventService.emit).toHaveBeenCalledWith(
+        expect.objectContaining({
+          actorId: sponsorId,
+          entityType: 'USER',
+          entityId: contributorId,
+          action: 'IR35_ASSESSED',
+          metadata: expect.objectContaining({ riskLevel: 'LOW', requiresReview: false }),
+        })
+      );
+    });
+
+    it('should flag self-assessments for review', async () => {
+      mockPrisma.users.findUnique.mockResolvedValue({ id: contributorId, email: 'c@example.com' });
+
+      const assessment = await service.assess(contributorId, {
+        userId: contributorId,
+        responses: answersWith('min'),
+      });
+
+      expect(assessment.riskLevel).toBe('LOW');
+      expect(assessment.requiresReview).toBe(true);
+      expect(assessment.challengeId).toBeNull();
+    });
+
+    it('should flag non-LOW results for review', async () => {
+      mockPrisma.users.findUnique.mockResolvedValue({ id: contributorId, email: 'c@example.com' });
+      mockPrisma.challenges.findUnique.mockResolvedValue({
+        id: challengeId,
+        sponsorId,
+        projectLeaderId: null,
+      });
+
+      const assessment = await service.assess(sponsorId, {
+        userId: contributorId,
+        challengeId,
+        responses: answersWith('max'),
+      });
+
+      expect(assessment.riskLevel).toBe('HIGH');
+      expect(assessment.requiresReview).toBe(true);
+    });
+
+    it('should ignore answers to unknown questions', async () => {
+      mockPrisma.users.findUnique.mockResolvedValue({ id: contributorId, email: 'c@example.com' });
+
+      const assessment = await service.assess(contributorId, {
+        userId: contributorId,
+        responses: { ...answersWith('min'), favourite_colour: 'BLUE' },
+      });
+
+      expect((assessment.responses as any).answers).not.toHaveProperty('favourite_colour');
+    });
+
+    it('should reject assessors unrelated to the contributor', async () => {
+      mockPrisma.users.findUnique
+        .mockResolvedValueOnce({ id: contributorId, email: 'c@example.com' })
+        .mockResolvedValueOnce({ role: 'USER' });
+
+      await expect(
+        service.assess('stranger-123', { userId: contributorId, responses: answersWith('min') })
+      ).rejects.toThrow(AuthorizationError);
+      expect(mockPrisma.ir35_assessments.create).not.toHaveBeenCalled();
+    });
+
+    it('should let admins assess anyone', async () => {
+      mockPrisma.users.findUnique
+        .mockResolvedValueOnce({ id: contributorId, email: 'c@example.com' })
+        .mockResolvedValueOnce({ role: 'ADMIN' });
+
+      const assessment = await service.assess('admin-123', {
+        userId: contributorId,
+        responses: answersWith('min'),
+      });
+
+      expect(assessment.requiresReview).toBe(false);
+    });
+  });
+});
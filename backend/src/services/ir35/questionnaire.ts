@@ -0,0 +1,124 @@
+/**
+ * IR35 employment-status questionnaire
+ *
+ * Modelled on the areas HMRC's Check Employment Status for Tax (CEST) tool
+ * looks at. Each answer scores 0 (points to self-employment) to 2 (points to
+ * deemed employment). UNSURE scores the midpoint and forces a manual review.
+ */
+
+export interface IR35Option {
+  value: string;
+  label: string;
+  score: number;
+}
+
+export interface IR35Question {
+  id: string;
+  area: string;
+  text: string;
+  options: IR35Option[];
+}
+
+export const UNSURE = 'UNSURE';
+
+const unsure: IR35Option = { value: UNSURE, label: 'Not sure', score: 1 };
+
+export const IR35_QUESTIONS: IR35Question[] = [
+  {
+    id: 'substitution',
+    area: 'Substitution',
+    text: 'Can the contributor send someone else to do the work instead of them?',
+    options: [
+      { value: 'YES_UNFETTERED', label: 'Yes, without needing approval', score: 0 },
+      { value: 'YES_WITH_APPROVAL', label: 'Yes, but only with approval', score: 1 },
+      { value: 'NO', label: 'No, they must do the work personally', score: 2 },
+      unsure,
+    ],
+  },
+  {
+    id: 'control_how',
+    area: 'Control',
+    text: 'Who decides how the work is done?',
+    options: [
+      { value: 'CONTRIBUTOR', label: 'The contributor', score: 0 },
+      { value: 'SHARED', label: 'Agreed between both parties', score: 1 },
+      { value: 'CLIENT', label: 'The sponsor or project leader', score: 2 },
+      unsure,
+    ],
+  },
+  {
+    id: 'control_when_where',
+    area: 'Control',
+    text: 'Who decides when and where the work is done?',
+    options: [
+      { value: 'CONTRIBUTOR', label: 'The contributor', score: 0 },
+      { value: 'SHARED', label: 'Agreed between both parties', score: 1 },
+      { value: 'CLIENT', label: 'The sponsor or project leader', score: 2 },
+      unsure,
+    ],
+  },
+  {
+    id: 'mutuality',
+    area: 'Mutuality of obligation',
+    text: 'Is the sponsor obliged to offer further work, and the contributor obliged to accept it?',
+    options: [
+      { value: 'NO', label: 'No, each piece of work is agreed separately', score: 0 },
+      { value: 'YES', label: 'Yes, there is an ongoing obligation', score: 2 },
+      unsure,
+    ],
+  },
+  {
+    id: 'financial_risk',
+    area: 'Financial risk',
+    text: 'Does the contributor bear financial risk, such as their own costs or fixing defects at their own expense?',
+    options: [
+      { value: 'YES', label: 'Yes', score: 0 },
+      { value: 'SOME', label: 'Some', score: 1 },
+      { value: 'NO', label: 'No', score: 2 },
+      unsure,
+    ],
+  },
+  {
+    id: 'equipment',
+    area: 'Financial risk',
+    text: 'Who provides the equipment and tools needed for the work?',
+    options: [
+      { value: 'CONTRIBUTOR', label: 'The contributor', score: 0 },
+      { value: 'MIXED', label: 'Both parties', score: 1 },
+      { value: 'CLIENT', label: 'The sponsor', score: 2 },
+      unsure,
+    ],
+  },
+  {
+    id: 'payment_basis',
+    area: 'Financial risk',
+    text: 'How is the contributor paid?',
+    options: [
+      { value: 'FIXED_PRICE', label: 'A fixed price or bounty for a deliverable', score: 0 },
+      { value: 'MILESTONES', label: 'Per milestone', score: 1 },
+      { value: 'TIME_BASED', label: 'By the hour, day or month', score: 2 },
+      unsure,
+    ],
+  },
+  {
+    id: 'part_and_parcel',
+    area: 'Part and parcel',
+    text: "Is the contributor part of the sponsor's organisation (line managed, staff benefits, represents the sponsor)?",
+    options: [
+      { value: 'NO', label: 'No', score: 0 },
+      { value: 'PARTLY', label: 'Partly', score: 1 },
+      { value: 'YES', label: 'Yes', score: 2 },
+      unsure,
+    ],
+  },
+  {
+    id: 'other_clients',
+    area: 'Business on own account',
+    text: 'Does the contributor work for other clients at the same time?',
+    options: [
+      { value: 'YES', label: 'Yes', score: 0 },
+      { value: 'NO', label: 'No', score: 2 },
+      unsure,
+    ],
+  },
+];
@@ -0,0 +1,66 @@
+import { IncomingHttpHeaders } from 'http';
+
+/**
+ * KycProvider - Identity verification vendor behind the KYC workflow
+ *
+ * A provider hosts the verification flow: we open a session for a user, send
+ * them to its redirect URL, and later receive the outcome on a signed webhook.
+ * Each provider owns its own webhook signature scheme.
+ */
+export type KycProviderName = 'mock';
+
+/**
+ * Final result a provider reports for a session
+ */
+export type KycOutcome = 'VERIFIED' | 'REJECTED';
+
+export interface KycSessionRequest {
+  userId: string;
+  email: string;
+  /**
+   * Where the provider sends the user when they finish
+   */
+  returnUrl: string;
+}
+
+export interface KycSession {
+  /**
+   * Provider's ID for the session; webhooks refer to it
+   */
+  reference: string;
+  /**
+   * Where to send the user to complete verification
+   */
+  redirectUrl: string;
+}
+
+export interface KycWebhookResult {
+  reference: string;
+  outcome: KycOutcome;
+  reason?: string;
+}
+
+export interface KycProvider {
+  readonly name: KycProviderName;
+
+  /**
+   * Open a verification session for a user
+   */
+  createSession(request: KycSessionRequest): Promise<KycSession>;
+
+  /**
+   * Authenticate and parse a webhook delivery.
+   * Throws KycWebhookError if the signature or payload is not valid
+   */
+  parseWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): KycWebhookResult;
+}
+
+/**
+ * Raised when a webhook delivery cannot be trusted or understood
+ */
+export class KycWebhookError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'KycWebhookError';
+  }
+}
@@ -0,0 +1,391 @@
+import { IncomingHttpHeaders } from 'http';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { EventService } from '../events/EventService';
+import { env } from '../../config/env';
+import { SYSTEM_USER_ID } from '../../config/systemActor';
+import { generateId } from '../../utils/idGenerator';
+import { logger } from '../../utils/logger';
+import {
+  AuthenticationError,
+  AuthorizationError,
+  ConflictError,
+  KycOverrideDTO,
+  NotFoundError,
+  ValidationError,
+} from '../../types';
+import { KycOutcome, KycProvider, KycWebhookError } from './KycProvider';
+import { getKycProvider } from './index';
+
+export const KYC_STATUSES = ['PENDING', 'VERIFIED', 'REJECTED', 'EXPIRED'] as const;
+
+export type KycStatus = (typeof KYC_STATUSES)[number];
+
+export const KYC_OVERRIDE_STATUSES = ['VERIFIED', 'REJECTED'] as const;
+
+/**
+ * Provider name recorded on verifications an admin decided by hand
+ */
+export const MANUAL_PROVIDER = 'manual';
+
+const MIN_REASON_LENGTH = 10;
+
+// An open session younger than this is handed back instead of starting another
+const SESSION_REUSE_MS = 24 * 60 * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const OUTCOME_ACTIONS: Record<KycOutcome, string> = {
+  VERIFIED: 'KYC_VERIFIED',
+  REJECTED: 'KYC_REJECTED',
+};
+
+/**
+ * Whether a user's KYC currently counts as verified. A verification past its
+ * expiry no longer counts, even before the expiry job has marked it EXPIRED.
+ */
+export const hasCurrentKyc = (
+  user: { kycStatus: string; kycExpiresAt?: Date | null },
+  now = new Date()
+): boolean => user.kycStatus === 'VERIFIED' && !(user.kycExpiresAt && user.kycExpiresAt <= now);
+
+export interface KycStatusSummary {
+  status: KycStatus;
+  verifiedAt: Date | null;
+  expiresAt: Date | null;
+  latest: {
+    id: string;
+    provider: string;
+    status: string;
+    reason: string | null;
+    createdAt: Date;
+    completedAt: Date | null;
+  } | null;
+}
+
+/**
+ * KycService - Identity verification of users before they can be paid
+ *
+ * Business Rules:
+ * - Users start verification themselves; the provider hosts the flow and
+ *   reports the outcome on a signed webhook. Users start out PENDING
+ * - Clicking "verify" again while a session is open (under 24h old) returns
+ *   that session; starting a new one closes older open sessions as SUPERSEDED
+ * - Webhooks only settle open sessions, so redelivered or late webhooks are
+ *   acknowledged without changing anything
+ * - A verification is valid for KYC_VALIDITY_DAYS; after that the user is
+ *   EXPIRED and must verify again before receiving payouts
+ * - Admins can set VERIFIED or REJECTED by hand with a reason of at least 10
+ *   characters, but not on their own account. Overrides close open sessions
+ * - A verification's outcome and the user's kycStatus are written in one transaction
+ * - Every outcome, override and expiry is logged via EventService against the user
+ */
+export class KycService {
+  constructor(
+    private prisma: PrismaClient,
+    private eventService: EventService,
+    private provider: KycProvider = getKycProvider()
+  ) {}
+
+  /**
+   * Start (or resume) identity verification for a user
+   * @returns Where to send the user to complete verification
+   */
+  async startVerification(userId: string) {
+    const user = await this.prisma.users.findUnique({
+      where: { id: userId },
+      select: { id: true, email: true, kycStatus: true, kycExpiresAt: true },
+    });
+
+    if (!user) {
+      throw new NotFoundError('User');
+    }
+
+    if (hasCurrentKyc(user)) {
+      throw new ConflictError('Your identity is already verified');
+    }
+
+    const open = await this.prisma.kyc_verifications.findFirst({
+      where: { userId, provider: this.provider.name, status: 'PENDING' },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    if (open?.redirectUrl && Date.now() - open.createdAt.getTime() < SESSION_REUSE_MS) {
+      return { id: open.id, redirectUrl: open.redirectUrl };
+    }
+
+    const session = await this.provider.createSession({
+      userId,
+      email: user.email,
+      returnUrl: `${env.APP_URL.replace(/\/+$/, '')}/profile?kyc=returned`,
+    });
+
+    await this.supersedeOpenSessions(this.prisma, userId);
+
+    const now = new Date();
+    const verification = await this.prisma.kyc_verifications.create({
+      data: {
+        id: generateId(),
+        userId,
+        provider: this.provider.name,
+        providerReference: session.reference,
+        redirectUrl: session.redirectUrl,
+        updatedAt: now,
+      },
+    });
+
+    await this.eventService.emit({
+      actorId: userId,
+      entityType: 'USER',
+      entityId: userId,
+      action: 'KYC_STARTED',
+      metadata: { provider: this.provider.name, reference: session.reference },
+    });
+
+    return { id: verification.id, redirectUrl: session.redirectUrl };
+  }
+
+  /**
+   * Record the outcome a provider reported on its webhook
+   * @returns Whether the webhook changed anything (false for redeliveries)
+   */
+  async handleWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): Promise<boolean> {
+    let result;
+    try {
+      result = this.provider.parseWebhook(rawBody, headers);
+    } catch (error) {
+      if (error instanceof KycWebhookError) {
+        throw new AuthenticationError(error.message);
+      }
+      throw error;
+    }
+
+    const verification = await this.prisma.kyc_verifications.findUnique({
+      where: {
+        provider_providerReference: {
+          provider: this.provider.name,
+          providerReference: result.reference,
+        },
+      },
+    });
+
+    if (!verification) {
+      throw new NotFoundError('KYC verification');
+    }
+
+    const now = new Date();
+
+    // The session and the user's status change together, so they can never disagree
+    const applied = await this.prisma.$transaction(async (tx) => {
+      // Only settle a session that is still open, so a redelivery cannot apply twice
+      const { count } = await tx.kyc_verifications.updateMany({
+        where: { id: verification.id, status: 'PENDING' },
+        data: {
+          status: result.outcome,
+          reason: result.reason ?? null,
+          completedAt: now,
+          updatedAt: now,
+        },
+      });
+
+      if (count === 0) return false;
+
+      await this.applyOutcome(tx, verification.userId, result.outcome, now);
+      return true;
+    });
+
+    if (!applied) {
+      logger.info(`Ignoring KYC webhook for settled verification ${verification.id}`);
+      return false;
+    }
+
+    await this.eventService.emit({
+      actorId: SYSTEM_USER_ID,
+      entityType: 'USER',
+      entityId: verification.userId,
+      action: OUTCOME_ACTIONS[result.outcome],
+      snapshot: { kycStatus: result.outcome },
+      metadata: {
+        provider: this.provider.name,
+        reference: result.reference,
+        reason: result.reason,
+      },
+    });
+
+    return true;
+  }
+
+  /**
+   * Set a user's KYC status by hand
+   */
+  async override(userId: string, adminId: string, data: KycOverrideDTO) {
+    if (!KYC_OVERRIDE_STATUSES.includes(data.status)) {
+      throw new ValidationError(`Status must be one of ${KYC_OVERRIDE_STATUSES.join(', ')}`);
+    }
+
+    const reason = data.reason?.trim() || '';
+
+    if (reason.length < MIN_REASON_LENGTH) {
+      throw new ValidationError(`Override reason must be at least ${MIN_REASON_LENGTH} characters`);
+    }
+
+    if (userId === adminId) {
+      throw new AuthorizationError('Admins cannot override their own KYC status');
+    }
+
+    const user = await this.prisma.users.findUnique({
+      where: { id: userId },
+      select: { id: true, kycStatus: true },
+    });
+
+    if (!user) {
+      throw new NotFoundError('User');
+    }
+
+    const now = new Date();
+
+    const updated = await this.prisma.$transaction(async (tx) => {
+      await this.supersedeOpenSessions(tx, userId);
+      await tx.kyc_verifications.create({
+        data: {
+          id: generateId(),
+          userId,
+          provider: MANUAL_PROVIDER,
+          status: data.status,
+          reason,
+          reviewedById: adminId,
+          completedAt: now,
+          updatedAt: now,
+        },
+      });
+
+      return this.applyOutcome(tx, userId, data.status, now);
+    });
+
+    await this.eventService.emit({
+      actorId: adminId,
+      entityType: 'USER',
+      entityId: userId,
+      action: 'KYC_OVERRIDDEN',
+      snapshot: { kycStatus: updated.kycStatus, kycExpiresAt: updated.kycExpiresAt },
+      metadata: { previousStatus: user.kycStatus, status: data.status, reason },
+    });
+
+    return updated;
+  }
+
+  /**
+   * Current KYC standing of a user and their most recent verification
+   */
+  async getStatus(userId: string): Promise<KycStatusSummary> {
+    const user = await this.prisma.users.findUnique({
+      where: { id: userId },
+      select: { kycStatus: true, kycVerifiedAt: true, kycExpiresAt: true },
+    });
+
+    if (!user) {
+      throw new NotFoundError('User');
+    }
+
+    let status = user.kycStatus as KycStatus;
+    if (status === 'VERIFIED' && !hasCurrentKyc(user)) {
+      await this.expire(userId);
+      status = 'EXPIRED';
+    }
+
+    const latest = await this.prisma.kyc_verifications.findFirst({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+      select: {
+        id: true,
+        provider: true,
+        status: true,
+        reason: true,
+        createdAt: true,
+        completedAt: true,
+      },
+    });
+
+    return {
+      status,
+      verifiedAt: user.kycVerifiedAt,
+      expiresAt: user.kycExpiresAt,
+      // Override reasons are notes between admins, not messages to the user
+      latest: latest && {
+        ...latest,
+        reason: latest.provider === MANUAL_PROVIDER ? null : latest.reason,
+      },
+    };
+  }
+
+  /**
+   * Mark every verification past its expiry as EXPIRED
+   * @returns Number of users whose verification expired
+   */
+  async expireLapsed(now = new Date()): Promise<number> {
+    const lapsed = await this.prisma.users.findMany({
+      where: { kycStatus: 'VERIFIED', kycExpiresAt: { lte: now } },
+      select: { id: true },
+    });
+
+    let expired = 0;
+    for (const { id } of lapsed) {
+      if (await this.expire(id, now)) {
+        expired++;
+      }
+    }
+
+    if (expired > 0) {
+      logger.info(`Expired KYC verification for ${expired} user(s)`);
+    }
+
+    return expired;
+  }
+
+  private async expire(userId: string, now = new Date()): Promise<boolean> {
+    const { count } = await this.prisma.users.updateMany({
+      where: { id: userId, kycStatus: 'VERIFIED', kycExpiresAt: { lte: now } },
+      data: { kycStatus: 'EXPIRED', updatedAt: now },
+    });
+
+    if (count === 0) return false;
+
+    await this.eventService.emit({
+      actorId: SYSTEM_USER_ID,
+      entityType: 'USER',
+      entityId: userId,
+      action: 'KYC_EXPIRED',
+      snapshot: { kycStatus: 'EXPIRED' },
+    });
+
+    return true;
+  }
+
+  private async applyOutcome(
+    tx: Prisma.TransactionClient,
+    userId: string,
+    outcome: KycOutcome,
+    now: Date
+  ) {
+    return tx.users.update({
+      where: { id: userId },
+      data:
+        outcome === 'VERIFIED'
+          ? {
+              kycStatus: 'VERIFIED',
+              kycVerifiedAt: now,
+              kycExpiresAt: new Date(now.getTime() + env.KYC_VALIDITY_DAYS * DAY_MS),
+              updatedAt: now,
+            }
+          : { kycStatus: 'REJECTED', kycExpiresAt: null, updatedAt: now },
+      select: { id: true, kycStatus: true, kycVerifiedAt: true, kycExpiresAt: true },
+    });
+  }
+
+  private async supersedeOpenSessions(db: Prisma.TransactionClient, userId: string): Promise<void> {
+    const now = new Date();
+    await db.kyc_verifications.updateMany({
+      where: { userId, status: 'PENDING' },
+      data: { status: 'SUPERSEDED', completedAt: now, updatedAt: now },
+    });
+  }
+}
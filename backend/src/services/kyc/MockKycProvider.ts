@@ -0,0 +1,98 @@
+import crypto from 'crypto';
+import { IncomingHttpHeaders } from 'http';
+import { generateId } from '../../utils/idGenerator';
+import {
+  KycOutcome,
+  KycProvider,
+  KycSession,
+  KycSessionRequest,
+  KycWebhookError,
+  KycWebhookResult,
+} from './KycProvider';
+
+export const MOCK_SIGNATURE_HEADER = 'x-kyc-signature';
+
+// How far a webhook's timestamp may drift from now before it counts as a replay
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+const OUTCOMES: KycOutcome[] = ['VERIFIED', 'REJECTED'];
+
+/**
+ * MockKycProvider - Stand-in provider for local development and tests
+ *
+ * Sessions go nowhere: the user is sent straight back to the return URL and
+ * the session stays open until a signed webhook settles it (see
+ * `npm run kyc:mock-webhook`). Webhooks are signed like most real vendors do,
+ * with `x-kyc-signature: t=<unix seconds>,v1=<hex HMAC-SHA256 of "t.body">`.
+ */
+export class MockKycProvider implements KycProvider {
+  readonly name = 'mock' as const;
+
+  constructor(private webhookSecret: string) {}
+
+  async createSession(request: KycSessionRequest): Promise<KycSession> {
+    return {
+      reference: `mock_${generateId()}`,
+      redirectUrl: request.returnUrl,
+    };
+  }
+
+  parseWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): KycWebhookResult {
+    const header = headers[MOCK_SIGNATURE_HEADER];
+    const parts = new Map(
+      (typeof header === 'string' ? header : '').split(',').map((part) => {
+        const [key, ...value] = part.trim().split('=');
+        return [key, value.join('=')] as const;
+      })
+    );
+    const timestamp = Number(parts.get('t'));
+    const signature = parts.get('v1') || '';
+
+    if (!Number.isInteger(timestamp) || !signature) {
+      throw new KycWebhookError('Missing or malformed webhook signature');
+    }
+
+    if (Math.abs(Date.now() / 1000 - timestamp) > SIGNATURE_TOLERANCE_SECONDS) {
+      throw new KycWebhookError('Webhook signature has expired');
+    }
+
+    const expected = Buffer.from(this.digest(timestamp, rawBody), 'hex');
+    const given = Buffer.from(signature, 'hex');
+
+    if (given.length !== expected.length || !crypto.timingSafeEqual(given, expected)) {
+      throw new KycWebhookError('Invalid webhook signature');
+    }
+
+    let payload: { reference?: unknown; status?: unknown; reason?: unknown };
+    try {
+      payload = JSON.parse(rawBody.toString('utf8'));
+    } catch {
+      throw new KycWebhookError('Webhook body is not valid JSON');
+    }
+
+    if (typeof payload.reference !== 'string' || !OUTCOMES.includes(payload.status as KycOutcome)) {
+      throw new KycWebhookError('Webhook body needs a reference and a VERIFIED or REJECTED status');
+    }
+
+    return {
+      reference: payload.reference,
+      outcome: payload.status as KycOutcome,
+      reason: typeof payload.reason === 'string' ? payload.reason : undefined,
+    };
+  }
+
+  /**
+   * Signature header value for a webhook body, as the mock vendor would send it
+   */
+  sign(rawBody: string | Buffer, timestamp = Math.floor(Date.now() / 1000)): string {
+    return `t=${timestamp},v1=${this.digest(timestamp, Buffer.from(rawBody))}`;
+  }
+
+  private digest(timestamp: number, rawBody: Buffer): string {
+    return crypto
+      .createHmac('sha256', this.webhookSecret)
+      .update(`${timestamp}.`)
+      .update(rawBody)
+      .digest('hex');
+  }
+}
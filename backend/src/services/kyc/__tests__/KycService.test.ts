@@ -0,0 +1,325 @@
+import { KycService, hasCurrentKyc } from '../KycService';
+import { MockKycProvider, MOCK_SIGNATURE_HEADER } from '../MockKycProvider';
+import { EventService } from '../../events/EventService';
+import {
+  AuthenticationError,
+  AuthorizationError,
+  ConflictError,
+  NotFoundError,
+  ValidationError,
+} from '../../../types';
+import { SYSTEM_USER_ID } from '../../../config/systemActor';
+
+jest.mock('../../../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+  },
+}));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('KycService', () => {
+  let service: KycService;
+  let provider: MockKycProvider;
+  let mockPrisma: any;
+  let mockEventService: jest.Mocked<EventService>;
+
+  const userId = 'user-123';
+  const adminId = 'admin-456';
+  const reason = 'Documents checked by hand after provider outage';
+
+  const pendingSession = {
+    id: 'kyc-1',
+    userId,
+    provider: 'mock',
+    providerReference: 'mock_abc',
+    status: 'PENDING',
+    redirectUrl: 'http://localhost:5173/profile?kyc=returned',
+    createdAt: new Date(),
+  };
+
+  const webhook = (payload: object, signWith = provider) => {
+    const body = JSON.stringify(payload);
+    return {
+      body: Buffer.from(body),
+      headers: { [MOCK_SIGNATURE_HEADER]: signWith.sign(body) },
+    };
+  };
+
+  beforeEach(() => {
+    mockPrisma = {
+      users: {
+        findUnique: jest.fn(),
+        findMany: jest.fn(),
+        update: jest.fn(),
+        updateMany: jest.fn(),
+      },
+      kyc_verifications: {
+        create: jest.fn(),
+        findFirst: jest.fn(),
+        findUnique: jest.fn(),
+        updateMany: jest.fn(),
+      },
+      $transaction: jest.fn((fn: any) => fn(mockPrisma)),
+    };
+
+    mockEventService = {
+      emit: jest.fn(),
+      getTrail: jest.fn(),
+      getByActor: jest.fn(),
+      getRecent: jest.fn(),
+    } as any;
+
+    provider = new MockKycProvider('test-secret');
+    service = new KycService(mockPrisma as any, mockEventService, provider);
+    jest.clearAllMocks();
+
+    mockPrisma.kyc_verifications.create.mockImplementation(({ data }: any) =>
+      Promise.resolve(data)
+    );
+    mockPrisma.kyc_verifications.updateMany.mockResolvedValue({ count: 1 });
+    mockPrisma.users.update.mockImplementation(({ where, data }: any) =>
+      Promise.resolve({ id: where.id, ...data })
+    );
+    mockPrisma.users.updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  describe('startVerification', () => {
+    it('should open a provider session and supersede stale ones', async () => {
+      mockPrisma.users.findUnique.mockResolvedValue({
+        id: userId,
+        email: 'user@example.com',
+        kycStatus: 'PENDING',
+        kycExpiresAt: null,
+      });
+      mockPrisma.kyc_verifications.findFirst.mockResolvedValue(null);
+
+      const session = await service.startVerification(userId);
+
+      expect(session.redirectUrl).toContain('/profile?kyc=returned');
+      expect(mockPrisma.kyc_verifications.updateMany).toHaveBeenCalledWith({
+        where: { userId, status: 'PENDING' },
+        data: expect.objectContaining({ status: 'SUPERSEDED' }),
+      });
+      expect(mockPrisma.kyc_verifications.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          userId,
+          provider: 'mock',
+          providerReference: expect.stringMatching(/^mock_/),
+        }),
+      });
+      expect(mockEventService.emit).toHaveBeenCalledWith(
+        expect.objectContaining({ actorId: userId, entityId: userId, action: 'KYC_STARTED' })
+      );
+    });
+
+    it('should hand back a recent open session instead of starting another', async () => {
+      mockPrisma.users.findUnique.mockResolvedValue({
+        id: userId,
+        email: 'user@example.com',
+        kycStatus: 'PENDING',
+        kycExpiresAt: null,
+      });
+      mockPrisma.kyc_verifications.findFirst.mockResolvedValue(pendingSession);
+
+      const session = await service.startVerification(userId);
+
+      expect(session).toEqual({ id: 'kyc-1', redirectUrl: pendingSession.redirectUrl });
+      expect(mockPrisma.kyc_verifications.create).not.toHaveBeenCalled();
+    });
+
+    it('should refuse users who are already verified', async () => {
+      mockPrisma.users.findUnique.mockResolvedValue({
+        id: userId,
+        email: 'user@example.com',
+        kycStatus: 'VERIFIED',
+        kycExpiresAt: new Date(Date.now() + DAY_MS),
+      });
+
+      await expect(service.startVerification(userId)).rejects.toThrow(ConflictError);
+    });
+
+    it('should let users whose verification lapsed verify again', async () => {
+      mockPrisma.users.findUnique.mockResolvedValue({
+        id: userId,
+        email: 'user@example.com',
+        kycStatus: 'VERIFIED',
+        kycExpiresAt: new Date(Date.now() - 1000),
+      });
+      mockPrisma.kyc_verifications.findFirst.mockResolvedValue(null);
+
+      await expect(service.startVerification(userId)).resolves.toHaveProperty('redirectUrl');
+    });
+  });
+
+  describe('handleWebhook', () => {
+    it('should verify the user and set an expiry', async () => {
+      mockPrisma.kyc_verifications.findUnique.mockResolvedValue(pendingSession);
+      const { body, headers } = webhook({ reference: 'mock_abc', status: 'VERIFIED' });
+
+      const applied = await service.handleWebhook(body, headers);
+
+      expect(applied).toBe(true);
+      const data = mockPrisma.users.update.mock.calls[0][0].data;
+      expect(data).toMatchObject({ kycStatus: 'VERIFIED', kycVerifiedAt: expect.any(Date) });
+      expect(data.kycExpiresAt.getTime()).toBeGreaterThan(Date.now() + 300 * DAY_MS);
+      expect(mockEventService.emit).toHaveBeenCalledWith(
+        expect.objectContaining({
+          actorId: SYSTEM_USER_ID,
+          entityId: userId,
+          action: 'KYC_VERIFIED',
+        })
+      );
+    });
+
+    it('should record rejections with the provider reason', async () => {
+      mockPrisma.kyc_verifications.findUnique.mockResolvedValue(pendingSession);
+      const { body, headers } = webhook({
+        reference: 'mock_abc',
+        status: 'REJECTED',
+        reason: 'Document expired',
+      });
+
+      await service.handleWebhook(body, headers);
+
+      expect(mockPrisma.kyc_verifications.updateMany).toHaveBeenCalledWith({
+        where: { id: 'kyc-1', status: 'PENDING' },
+        data: expect.objectContaining({ status: 'REJECTED', reason: 'Document expired' }),
+      });
+      expect(mockPrisma.users.update.mock.calls[0][0].data).toMatchObject({
+        kycStatus: 'REJECTED',
+      });
+    });
+
+    it('should settle the session and the user in one transaction', async () => {
+      mockPrisma.kyc_verifications.findUnique.mockResolvedValue(pendingSession);
+      mockPrisma.users.update.mockRejectedValue(new Error('db down'));
+      const { body, headers } = webhook({ reference: 'mock_abc', status: 'VERIFIED' });
+
+      await expect(service.handleWebhook(body, headers)).rejects.toThrow('db down');
+      expect(mockPrisma.$transaction).toHaveBeenCalledTimes(1);
+      expect(mockEventService.emit).not.toHaveBeenCalled();
+    });
+
+    it('should acknowledge redeliveries without applying them again', async () => {
+      mockPrisma.kyc_verifications.findUnique.mockResolvedValue({
+        ...pendingSession,
+        status: 'VERIFIED',
+      });
+      mockPrisma.kyc_verifications.updateMany.mockResolvedValue({ count: 0 });
+      const { body, headers } = webhook({ reference: 'mock_abc', status: 'VERIFIED' });
+
+      await expect(service.handleWebhook(body, headers)).resolves.toBe(false);
+      expect(mockPrisma.users.update).not.toHaveBeenCalled();
+      expect(mockEventService.emit).not.toHaveBeenCalled();
+    });
+
+    it('should reject webhooks signed with another secret', async () => {
+      const { body, headers } = webhook(
+        { reference: 'mock_abc', status: 'VERIFIED' },
+        new MockKycProvider('wrong-secret')
+      );
+
+      await expect(service.handleWebhook(body, headers)).rejects.toThrow(AuthenticationError);
+      expect(mockPrisma.kyc_verifications.findUnique).not.toHaveBeenCalled();
+    });
+
+    it('should reject webhooks for unknown sessions', async () => {
+      mockPrisma.kyc_verifications.findUnique.mockResolvedValue(null);
+      const { body, headers } = webhook({ reference: 'mock_nope', status: 'VERIFIED' });
+
+      await expect(service.handleWebhook(body, headers)).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('override', () => {
+    it('should record a manual decision and emit an event with the reason', async () => {
+      mockPrisma.users.findUnique.mockResolvedValue({ id: userId, kycStatus: 'REJECTED' });
+
+      const user = await service.override(userId, adminId, { status: 'VERIFIED', reason });
+
+      expect(user.kycStatus).toBe('VERIFIED');
+      expect(mockPrisma.kyc_verifications.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          userId,
+          provider: 'manual',
+          status: 'VERIFIED',
+          reason,
+          reviewedById: adminId,
+        }),
+      });
+      expect(mockEventService.emit).toHaveBeenCalledWith(
+        expect.objectContaining({
+          actorId: adminId,
+          entityId: userId,
+          action: 'KYC_OVERRIDDEN',
+          metadata: { previousStatus: 'REJECTED', status: 'VERIFIED', reason },
+        })
+      );
+    });
+
+    it('should record the override and the user status in one transaction', async () => {
+      mockPrisma.users.findUnique.mockResolvedValue({ id: userId, kycStatus: 'REJECTED' });
+
+      await service.override(userId, adminId, { status: 'VERIFIED', reason });
+
+      expect(mockPrisma.$transaction).toHaveBeenCalledTimes(1);
+    });
+
+    it('should require a reason', async () => {
+      await expect(
+        service.override(userId, adminId, { status: 'VERIFIED', reason: 'ok' })
+      ).rejects.toThrow(ValidationError);
+      expect(mockPrisma.users.update).not.toHaveBeenCalled();
+    });
+
+    it('should not let admins override their own status', async () => {
+      await expect(
+        service.override(adminId, adminId, { status: 'VERIFIED', reason })
+      ).rejects.toThrow(AuthorizationError);
+    });
+  });
+
+  describe('expiry', () => {
+    it('should expire lapsed verifications and log each one', async () => {
+      mockPrisma.users.findMany.mockResolvedValue([{ id: 'user-1' }, { id: 'user-2' }]);
+
+      const expired = await service.expireLapsed();
+
+      expect(expired).toBe(2);
+      expect(mockPrisma.users.updateMany).toHaveBeenCalledWith({
+        where: { id: 'user-1', kycStatus: 'VERIFIED', kycExpiresAt: { lte: expect.any(Date) } },
+        data: { kycStatus: 'EXPIRED', updatedAt: expect.any(Date) },
+      });
+      expect(mockEventService.emit).toHaveBeenCalledWith(
+        expect.objectContaining({ entityId: 'user-2', action: 'KYC_EXPIRED' })
+      );
+    });
+
+    it('should report a lapsed verification as EXPIRED before the job runs', async () => {
+      mockPrisma.users.findUnique.mockResolvedValue({
+        kycStatus: 'VERIFIED',
+        kycVerifiedAt: new Date(Date.now() - 400 * DAY_MS),
+        kycExpiresAt: new Date(Date.now() - DAY_MS),
+      });
+      mockPrisma.kyc_verifications.findFirst.mockResolvedValue(null);
+
+      const status = await service.getStatus(userId);
+
+      expect(status.status).toBe('EXPIRED');
+      expect(mockPrisma.users.updateMany).toHaveBeenCalled();
+    });
+
+    it('hasCurrentKyc should only accept unexpired verifications', () => {
+      const future = new Date(Date.now() + DAY_MS);
+      const past = new Date(Date.now() - DAY_MS);
+
+      expect(hasCurrentKyc({ kycStatus: 'VERIFIED', kycExpiresAt: future })).toBe(true);
+      expect(hasCurrentKyc({ kycStatus: 'VERIFIED', kycExpiresAt: null })).toBe(true);
+      expect(hasCurrentKyc({ kycStatus: 'VERIFIED', kycExpiresAt: past })).toBe(false);
+      expect(hasCurrentKyc({ kycStatus: 'PENDING', kycExpiresAt: future })).toBe(false);
+    });
+  });
+});
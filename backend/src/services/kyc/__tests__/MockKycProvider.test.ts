@@ -0,0 +1,57 @@
+import { MockKycProvider, MOCK_SIGNATURE_HEADER } from '../MockKycProvider';
+import { KycWebhookError } from '../KycProvider';
+import { createKycProvider } from '..';
+import { env } from '../../../config/env';
+
+describe('MockKycProvider', () => {
+  const provider = new MockKycProvider('test-secret');
+  const body = JSON.stringify({ reference: 'mock_abc', status: 'VERIFIED' });
+
+  it('should accept webhooks it signed', () => {
+    const result = provider.parseWebhook(Buffer.from(body), {
+      [MOCK_SIGNATURE_HEADER]: provider.sign(body),
+    });
+
+    expect(result).toEqual({ reference: 'mock_abc', outcome: 'VERIFIED', reason: undefined });
+  });
+
+  it('should reject a body changed after signing', () => {
+    const tampered = body.replace('VERIFIED', 'REJECTED');
+
+    expect(() =>
+      provider.parseWebhook(Buffer.from(tampered), { [MOCK_SIGNATURE_HEADER]: provider.sign(body) })
+    ).toThrow('Invalid webhook signature');
+  });
+
+  it('should reject old signatures so webhooks cannot be replayed', () => {
+    const anHourAgo = Math.floor(Date.now() / 1000) - 60 * 60;
+
+    expect(() =>
+      provider.parseWebhook(Buffer.from(body), {
+        [MOCK_SIGNATURE_HEADER]: provider.sign(body, anHourAgo),
+      })
+    ).toThrow('Webhook signature has expired');
+  });
+
+  it('should reject unsigned webhooks', () => {
+    expect(() => provider.parseWebhook(Buffer.from(body), {})).toThrow(KycWebhookError);
+  });
+
+  it('should send users straight back to the return URL', async () => {
+    const session = await provider.createSession({
+      userId: 'user-123',
+      email: 'user@example.com',
+      returnUrl: 'http://localhost:5173/profile',
+    });
+
+    expect(session.reference).toMatch(/^mock_/);
+    expect(session.redirectUrl).toBe('http://localhost:5173/profile');
+  });
+
+  it('should not be available in production', () => {
+    expect(() => createKycProvider({ ...env, NODE_ENV: 'production' })).toThrow(
+      'The mock KYC provider cannot be used in production'
+    );
+    expect(createKycProvider({ ...env, NODE_ENV: 'development' })).toBeInstanceOf(MockKycProvider);
+  });
+});
@@ -0,0 +1,39 @@
+import crypto from 'crypto';
+import { env, EnvConfig } from '../../config/env';
+import { KycProvider } from './KycProvider';
+import { MockKycProvider } from './MockKycProvider';
+
+export * from './KycProvider';
+export { MockKycProvider, MOCK_SIGNATURE_HEADER } from './MockKycProvider';
+
+let sharedProvider: KycProvider | null = null;
+
+/**
+ * Secret that signs provider webhooks. Outside production it falls back to a
+ * key derived from JWT_SECRET so the mock provider works without setup.
+ */
+export const kycWebhookSecret = (config: EnvConfig = env): string =>
+  config.KYC_WEBHOOK_SECRET ||
+  crypto.createHmac('sha256', config.JWT_SECRET).update('kyc-webhook').digest('hex');
+
+/**
+ * Build a KYC provider from the KYC_* environment settings
+ * The mock provider verifies anyone it is told to, so it is refused in production
+ */
+export const createKycProvider = (config: EnvConfig = env): KycProvider => {
+  if (config.NODE_ENV === 'production') {
+    throw new Error('The mock KYC provider cannot be used in production');
+  }
+
+  return new MockKycProvider(kycWebhookSecret(config));
+};
+
+/**
+ * Process-wide KYC provider, created on first use
+ */
+export const getKycProvider = (): KycProvider => {
+  if (!sharedProvider) {
+    sharedProvider = createKycProvider();
+  }
+  return sharedProvider;
+};
@@ -0,0 +1,33 @@
+import { env } from '../../config/env';
+import { prisma } from '../../config/database';
+import { logger } from '../../utils/logger';
+import { EventService } from '../events/EventService';
+import { KycService } from './KycService';
+
+/**
+ * Start the periodic job that expires lapsed KYC verifications
+ * Returns a function that stops the job.
+ */
+export const startKycExpiryScheduler = (): (() => void) => {
+  const kycService = new KycService(prisma, new EventService(prisma));
+
+  let running = false;
+  const run = async () => {
+    if (running) return;
+    running = true;
+    try {
+      await kycService.expireLapsed();
+    } catch (error) {
+      logger.error('KYC expiry run failed:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(run, env.KYC_EXPIRY_CHECK_INTERVAL_MINUTES * 60 * 1000);
+  timer.unref();
+
+  logger.info(`KYC expiry check scheduled every ${env.KYC_EXPIRY_CHECK_INTERVAL_MINUTES} minutes`);
+
+  return () => clearInterval(timer);
+};
@@ -0,0 +1,13 @@
+import { Mailer, MailMessage } from './Mailer';
+import { logger } from '../../utils/logger';
+
+/**
+ * ConsoleMailer - Writes emails to the application log instead of sending them
+ */
+export class ConsoleMailer implements Mailer {
+  readonly driver = 'console' as const;
+
+  async send(message: MailMessage): Promise<void> {
+    logger.info(`Email to ${message.to}: ${message.subject}\n${message.text}`);
+  }
+}
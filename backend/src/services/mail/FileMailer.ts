@@ -0,0 +1,26 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { generateId } from '../../utils/idGenerator';
+import { Mailer, MailMessage } from './Mailer';
+
+/**
+ * FileMailer - Writes each email as a JSON file under a directory
+ *
+ * Files are named `<timestamp>-<id>.json` so a directory listing is in send order.
+ */
+export class FileMailer implements Mailer {
+  readonly driver = 'file' as const;
+
+  constructor(private outDir: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    const sentAt = new Date();
+    const fileName = `${sentAt.getTime()}-${generateId()}.json`;
+
+    await fs.mkdir(this.outDir, { recursive: true });
+    await fs.writeFile(
+      path.join(this.outDir, fileName),
+      JSON.stringify({ ...message, sentAt: sentAt.toISOString() }, null, 2)
+    );
+  }
+}
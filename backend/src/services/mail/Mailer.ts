@@ -0,0 +1,23 @@
+/**
+ * Mailer - Outbound email transport used for account emails
+ *
+ * The console and file drivers never deliver anything; they exist so that
+ * development and tests can follow links from emails without an SMTP server.
+ */
+export type MailDriver = 'smtp' | 'file' | 'console';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface Mailer {
+  readonly driver: MailDriver;
+
+  /**
+   * Send a message. Rejects if the transport could not accept it
+   */
+  send(message: MailMessage): Promise<void>;
+}
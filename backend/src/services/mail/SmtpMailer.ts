@@ -0,0 +1,40 @@
+import nodemailer, { Transporter } from 'nodemailer';
+import { Mailer, MailMessage } from './Mailer';
+
+export interface SmtpMailerConfig {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  pass?: string;
+  from: string;
+}
+
+/**
+ * SmtpMailer - Delivers email through an SMTP relay
+ */
+export class SmtpMailer implements Mailer {
+  readonly driver = 'smtp' as const;
+  private transporter: Transporter;
+  private from: string;
+
+  constructor(config: SmtpMailerConfig) {
+    this.from = config.from;
+    this.transporter = nodemailer.createTransport({
+      host: config.host,
+      port: config.port,
+      secure: config.secure,
+      auth: config.user ? { user: config.user, pass: config.pass } : undefined,
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({
+      from: this.from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+      html: message.html,
+    });
+  }
+}
@@ -0,0 +1,35 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { FileMailer } from '../FileMailer';
+
+describe('FileMailer', () => {
+  let outDir: string;
+  let mailer: FileMailer;
+
+  beforeEach(async () => {
+    outDir = await fs.mkdtemp(path.join(os.tmpdir(), 'mail-test-'));
+    mailer = new FileMailer(path.join(outDir, 'outbox'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(outDir, { recursive: true, force: true });
+  });
+
+  it('should write each message as a JSON file, creating the directory', async () => {
+    await mailer.send({ to: 'a@example.com', subject: 'First', text: 'one' });
+    await mailer.send({ to: 'b@example.com', subject: 'Second', text: 'two' });
+
+    const files = await fs.readdir(path.join(outDir, 'outbox'));
+    const messages = await Promise.all(
+      files.map(async (file) =>
+        JSON.parse(await fs.readFile(path.join(outDir, 'outbox', file), 'utf8'))
+      )
+    );
+
+    expect(messages).toHaveLength(2);
+    const first = messages.find((message) => message.subject === 'First');
+    expect(first).toMatchObject({ to: 'a@example.com', text: 'one' });
+    expect(new Date(first.sentAt).getTime()).not.toBeNaN();
+  });
+});
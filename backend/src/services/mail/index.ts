@@ -0,0 +1,45 @@
+import { env, EnvConfig } from '../../config/env';
+import { Mailer } from './Mailer';
+import { SmtpMailer } from './SmtpMailer';
+import { FileMailer } from './FileMailer';
+import { ConsoleMailer } from './ConsoleMailer';
+
+export * from './Mailer';
+export { SmtpMailer } from './SmtpMailer';
+export type { SmtpMailerConfig } from './SmtpMailer';
+export { FileMailer } from './FileMailer';
+export { ConsoleMailer } from './ConsoleMailer';
+
+let sharedMailer: Mailer | null = null;
+
+/**
+ * Build a mailer from the MAIL_* / SMTP_* environment settings
+ */
+export const createMailer = (config: EnvConfig = env): Mailer => {
+  if (config.MAIL_DRIVER === 'smtp') {
+    return new SmtpMailer({
+      host: config.SMTP_HOST,
+      port: config.SMTP_PORT,
+      secure: config.SMTP_SECURE,
+      user: config.SMTP_USER,
+      pass: config.SMTP_PASS,
+      from: config.MAIL_FROM,
+    });
+  }
+
+  if (config.MAIL_DRIVER === 'file') {
+    return new FileMailer(config.MAIL_FILE_DIR);
+  }
+
+  return new ConsoleMailer();
+};
+
+/**
+ * Process-wide mailer, created on first use
+ */
+export const getMailer = (): Mailer => {
+  if (!sharedMailer) {
+    sharedMailer = createMailer();
+  }
+  return sharedMailer;
+};
@@ -0,0 +1,23 @@
+import { MailMessage } from './Mailer';
+
+/**
+ * Account emails. Links point at the frontend, which posts the token back to the API.
+ */
+
+export const verificationEmail = (to: string, link: string, expiresAt: Date): MailMessage => ({
+  to,
+  subject: 'Verify your Oddly Brilliant email address',
+  text:
+    `Confirm this is your email address by opening the link below:\n\n${link}\n\n` +
+    `The link expires at ${expiresAt.toUTCString()}. ` +
+    `If you did not create an Oddly Brilliant account, you can ignore this email.`,
+});
+
+export const passwordResetEmail = (to: string, link: string, expiresAt: Date): MailMessage => ({
+  to,
+  subject: 'Reset your Oddly Brilliant password',
+  text:
+    `Someone asked to reset the password for your account. To choose a new password, open:\n\n${link}\n\n` +
+    `The link works once and expires at ${expiresAt.toUTCString()}. ` +
+    `If this wasn't you, ignore this email; your password has not changed.`,
+});
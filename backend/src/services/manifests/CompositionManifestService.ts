@@ -0,0 +1,331 @@
+import { PrismaClient, ChallengeStatus, Prisma } from '@prisma/client';
+import { generateId } from '../../utils/idGenerator';
+import { EventService } from '../events/EventService';
+import { ManifestEntryDTO } from '../../types';
+import { ValidationError, NotFoundError, AuthorizationError, ConflictError } from '../../types';
+
+/**
+ * Allowed deviation of totalDeclared from 1.0 (matches AuditorService)
+ */
+export const MANIFEST_WEIGHT_TOLERANCE = 0.001;
+
+/**
+ * Largest total a draft can store in totalDeclared (Decimal(4,3))
+ */
+const MAX_DRAFT_TOTAL = 9.999;
+
+export interface ManifestValidationResult {
+  valid: boolean;
+  totalDeclared: number;
+  errors: string[];
+}
+
+/**
+ * CompositionManifestService - Manages the attribution manifest for a challenge
+ *
+ * Business Rules:
+ * - Only the challenge's Project Leader can draft, edit or sign the manifest
+ * - One manifest per challenge; drafts may be saved with any total weight up to 9.999
+ * - Each entry names an existing contributor, a role and a weight in (0, 1]
+ * - A contributor may appear more than once, but only once per role
+ * - Signing requires totalDeclared to equal 1.0 (within 0.001)
+ * - Editing a signed manifest revokes the signature; it must be signed again
+ * - Manifests of COMPLETED challenges are frozen
+ * - All actions are logged via EventService against the challenge
+ */
+export class CompositionManifestService {
+  constructor(
+    private prisma: PrismaClient,
+    private eventService: EventService
+  ) {}
+
+  /**
+   * Get the manifest for a challenge (null if none drafted yet)
+   */
+  async getByChallenge(challengeId: string) {
+    const manifest = await this.prisma.composition_manifests.findUnique({
+      where: { challengeId },
+      include: {
+        users: {
+          select: {
+            id: true,
+            email: true,
+          },
+        },
+      },
+    });
+
+    return manifest;
+  }
+
+  /**
+   * Create or replace the draft entries of a challenge's manifest
+   * Only Project Leader can edit
+   */
+  async saveDraft(leaderId: string, challengeId: string, entries: ManifestEntryDTO[]) {
+    const challenge = await this.getEditableChallenge(challengeId, leaderId, 'edit');
+
+    const normalized = this.normalizeEntries(entries);
+    await this.assertContributorsExist(normalized);
+
+    const totalDeclared = this.sumWeights(normalized);
+    if (totalDeclared > MAX_DRAFT_TOTAL) {
+      throw new ValidationError(
+        `Total weight is ${totalDeclared}, drafts may total at most ${MAX_DRAFT_TOTAL}`
+      );
+    }
+
+    const existing = await this.prisma.composition_manifests.findUnique({
+      where: { challengeId },
+    });
+
+    const manifest = await this.prisma.composition_manifests.upsert({
+      where: { challengeId },
+      create: {
+        id: generateId(),
+        challengeId,
+        leaderId,
+        entries: normalized as unknown as Prisma.InputJsonValue,
+        totalDeclared,
+        updatedAt: new Date(),
+      },
+      update: {
+        leaderId,
+        entries: normalized as unknown as Prisma.InputJsonValue,
+        totalDeclared,
+        signedByLeader: false,
+        signedAt: null,
+        updatedAt: new Date(),
+      },
+      include: {
+        users: {
+          select: {
+            id: true,
+            email: true,
+          },
+        },
+      },
+    });
+
+    // Emit event for audit trail
+    await this.eventService.emit({
+      actorId: leaderId,
+      entityType: 'CHALLENGE',
+      entityId: challengeId,
+      action: existing ? 'MANIFEST_UPDATED' : 'MANIFEST_DRAFTED',
+      snapshot: {
+        manifestId: manifest.id,
+        challengeTitle: challenge.title,
+        entries: normalized,
+        totalDeclared,
+      },
+      metadata: {
+        manifestId: manifest.id,
+        entryCount: normalized.length,
+        signatureRevoked: existing?.signedByLeader === true,
+      },
+    });
+
+    return manifest;
+  }
+
+  /**
+   * Check whether the manifest is ready to be signed
+   */
+  async validate(challengeId: string): Promise<ManifestValidationResult> {
+    const manifest = await this.getByChallenge(challengeId);
+
+    if (!manifest) {
+      throw new NotFoundError('Composition manifest');
+    }
+
+    return this.validateEntries(this.readEntries(manifest.entries));
+  }
+
+  /**
+   * Sign the manifest
+   * Only Project Leader can sign, and weights must sum to 1.0
+   */
+  async sign(leaderId: string, challengeId: string) {
+    const challenge = await this.getEditableChallenge(challengeId, leaderId, 'sign');
+
+    const manifest = await this.getByChallenge(challengeId);
+
+    if (!manifest) {
+      throw new NotFoundError('Composition manifest');
+    }
+
+    if (manifest.signedByLeader) {
+      throw new ConflictError('Composition manifest is already signed');
+    }
+
+    const validation = this.validateEntries(this.readEntries(manifest.entries));
+    if (!validation.valid) {
+      throw new ValidationError('Composition manifest cannot be signed', validation.errors);
+    }
+
+    const signedAt = new Date();
+    const signedManifest = await this.prisma.composition_manifests.update({
+      where: { challengeId },
+      data: {
+        signedByLeader: true,
+        signedAt,
+        updatedAt: signedAt,
+      },
+      include: {
+        users: {
+          select: {
+            id: true,
+            email: true,
+          },
+        },
+      },
+    });
+
+    // Emit event for audit trail
+    await this.eventService.emit({
+      actorId: leaderId,
+      entityType: 'CHALLENGE',
+      entityId: challengeId,
+      action: 'MANIFEST_SIGNED',
+      snapshot: {
+        manifestId: signedManifest.id,
+        challengeTitle: challenge.title,
+        entries: signedManifest.entries,
+        totalDeclared: validation.totalDeclared,
+        signedAt: signedAt.toISOString(),
+      },
+      metadata: {
+        manifestId: signedManifest.id,
+        previousStatus: 'DRAFT',
+        newStatus: 'SIGNED',
+      },
+    });
+
+    return signedManifest;
+  }
+
+  /**
+   * Validate a set of stored entries against the signing rules
+   */
+  validateEntries(entries: ManifestEntryDTO[]): ManifestValidationResult {
+    const errors: string[] = [];
+    const totalDeclared = this.sumWeights(entries);
+
+    if (entries.length === 0) {
+      errors.push('Manifest has no entries');
+    }
+
+    if (Math.abs(totalDeclared - 1.0) > MANIFEST_WEIGHT_TOLERANCE) {
+      errors.push(`Total weight is ${totalDeclared}, must be 1.0`);
+    }
+
+    return {
+      valid: errors.length === 0,
+      totalDeclared,
+      errors,
+    };
+  }
+
+  /**
+   * Load the challenge and check the actor may change its manifest
+   */
+  private async getEditableChallenge(challengeId: string, leaderId: string, verb: 'edit' | 'sign') {
+    const challenge = await this.prisma.challenges.findUnique({
+      where: { id: challengeId },
+    });
+
+    if (!challenge) {
+      throw new NotFoundError('Challenge');
+    }
+
+    if (challenge.projectLeaderId !== leaderId) {
+      throw new AuthorizationError(`Only the Project Leader can ${verb} the composition manifest`);
+    }
+
+    if (challenge.status === ChallengeStatus.COMPLETED) {
+      throw new ValidationError('Cannot change the manifest of a completed challenge');
+    }
+
+    return challenge;
+  }
+
+  /**
+   * Check entry shape and strip unknown fields
+   */
+  private normalizeEntries(entries: ManifestEntryDTO[]): ManifestEntryDTO[] {
+    if (!Array.isArray(entries) || entries.length === 0) {
+      throw new ValidationError('Manifest must contain at least one entry');
+    }
+
+    const seen = new Set<string>();
+
+    return entries.map((entry, index) => {
+      const contributorId = typeof entry.contributorId === 'string' ? entry.contributorId : '';
+      const role = typeof entry.role === 'string' ? entry.role.trim() : '';
+      const weight = Number(entry.weight);
+
+      if (!contributorId) {
+        throw new ValidationError(`Entry ${index + 1}: contributor is required`);
+      }
+      if (!role) {
+        throw new ValidationError(`Entry ${index + 1}: role is required`);
+      }
+      if (!Number.isFinite(weight) || weight <= 0 || weight > 1) {
+        throw new ValidationError(
+          `Entry ${index + 1}: weight must be greater than 0 and at most 1`
+        );
+      }
+
+      const key = `${contributorId}:${role.toLowerCase()}`;
+      if (seen.has(key)) {
+        throw new ValidationError(
+          `Entry ${index + 1}: contributor already listed with role "${role}"`
+        );
+      }
+      seen.add(key);
+
+      const normalized: ManifestEntryDTO = {
+        contributorId,
+        role,
+        weight: Math.round(weight * 1000) / 1000,
+      };
+      if (entry.ref) {
+        normalized.ref = String(entry.ref);
+      }
+      return normalized;
+    });
+  }
+
+  /**
+   * Ensure every contributor in the manifest is a known user
+   */
+  private async assertContributorsExist(entries: ManifestEntryDTO[]): Promise<void> {
+    const ids = [...new Set(entries.map((e) => e.contributorId))];
+    const users = await this.prisma.users.findMany({
+      where: { id: { in: ids } },
+      select: { id: true },
+    });
+
+    const found = new Set(users.map((u) => u.id));
+    const missing = ids.filter((id) => !found.has(id));
+    if (missing.length > 0) {
+      throw new ValidationError('Unknown contributors in manifest', { missing });
+    }
+  }
+
+  /**
+   * Read stored JSON entries back into DTO form
+   */
+  private readEntries(entries: Prisma.JsonValue): ManifestEntryDTO[] {
+    return Array.isArray(entries) ? (entries as unknown as ManifestEntryDTO[]) : [];
+  }
+
+  /**
+   * Sum weights rounded to the column precision (Decimal(4,3))
+   */
+  private sumWeights(entries: ManifestEntryDTO[]): number {
+    const total = entries.reduce((sum, e) => sum + (Number(e.weight) || 0), 0);
+    return Math.round(total * 1000) / 1000;
+  }
+}
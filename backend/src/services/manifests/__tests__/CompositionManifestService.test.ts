@@ -0,0 +1,285 @@
+import { CompositionManifestService } from '../CompositionManifestService';
+import { EventService } from '../../events/EventService';
+import { ChallengeStatus } from '@prisma/client';
+import { ValidationError, NotFoundError, AuthorizationError, ConflictError } from '../../../types';
+
+jest.mock('../../../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+  },
+}));
+
+describe('CompositionManifestService', () => {
+  let manifestService: CompositionManifestService;
+  let mockPrisma: any;
+  let mockEventService: jest.Mocked<EventService>;
+
+  const leaderId = 'leader-123';
+
+  const mockChallenge = {
+    id: 'challenge-123',
+    title: 'Test Challenge',
+    status: ChallengeStatus.IN_PROGRESS,
+    sponsorId: 'sponsor-123',
+    projectLeaderId: leaderId,
+  };
+
+  const entries = [
+    { contributorId: 'user-1', role: 'Developer', weight: 0.6 },
+    { contributorId: 'user-2', role: 'Designer', weight: 0.4 },
+  ];
+
+  const mockManifest = {
+    id: 'manifest-123',
+    challengeId: mockChallenge.id,
+    leaderId,
+    entries,
+    totalDeclared: 1,
+    signedByLeader: false,
+    signedAt: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    users: { id: leaderId, email: 'leader@example.com' },
+  };
+
+  beforeEach(() => {
+    mockPrisma = {
+      challenges: {
+        findUnique: jest.fn(),
+      },
+      users: {
+        findMany: jest.fn(),
+      },
+      composition_manifests: {
+        findUnique: jest.fn(),
+        upsert: jest.fn(),
+        update: jest.fn(),
+      },
+    };
+
+    mockEventService = {
+      emit: jest.fn(),
+      getTrail: jest.fn(),
+      getByActor: jest.fn(),
+      getRecent: jest.fn(),
+    } as any;
+
+    manifestService = new CompositionManifestService(mockPrisma as any, mockEventService);
+    jest.clearAllMocks();
+  });
+
+  describe('saveDraft()', () => {
+    beforeEach(() => {
+      mockPrisma.challenges.findUnique.mockResolvedValue(mockChallenge);
+      mockPrisma.users.findMany.mockResolvedValue([{ id: 'user-1' }, { id: 'user-2' }]);
+      mockPrisma.composition_manifests.upsert.mockResolvedValue(mockManifest);
+    });
+
+    it('should create a draft and emit MANIFEST_DRAFTED', async () => {
+      mockPrisma.composition_manifests.findUnique.mockResolvedValue(null);
+
+      await manifestService.saveDraft(leaderId, mockChallenge.id, entries);
+
+      expect(mockPrisma.composition_manifests.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { challengeId: mockChallenge.id },
+          create: expect.objectContaining({ leaderId, totalDeclared: 1, entries }),
+        })
+      );
+      expect(mockEventService.emit).toHaveBeenCalledWith(
+        expect.objectContaining({
+          actorId: leaderId,
+          entityType: 'CHALLENGE',
+          entityId: mockChallenge.id,
+          action: 'MANIFEST_DRAFTED',
+        })
+      );
+    });
+
+    it('should allow drafts that do not yet sum to 1.0', async () => {
+      mockPrisma.composition_manifests.findUnique.mockResolvedValue(null);
+
+      await manifestService.saveDraft(leaderId, mockChallenge.id, [entries[0]]);
+
+      expect(mockPrisma.composition_manifests.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          create: expect.objectContaining({ totalDeclared: 0.6 }),
+        })
+      );
+    });
+
+    it('should revoke the signature when a signed manifest is edited', async () => {
+      mockPrisma.composition_manifests.findUnique.mockResolvedValue({
+        ...mockManifest,
+        signedByLeader: true,
+        signedAt: new Date(),
+      });
+
+      await manifestService.saveDraft(leaderId, mockChallenge.id, entries);
+
+      expect(mockPrisma.composition_manifests.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          update: expect.objectContaining({ signedByLeader: false, signedAt: null }),
+        })
+      );
+      expect(mockEventService.emit).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'MANIFEST_UPDATED',
+          metadata: expect.objectContaining({ signatureRevoked: true }),
+        })
+      );
+    });
+
+    it('should reject non-leaders', async () => {
+      await expect(
+        manifestService.saveDraft('someone-else', mockChallenge.id, entries)
+      ).rejects.toThrow(AuthorizationError);
+    });
+
+    it('should reject missing challenges', async () => {
+      mockPrisma.challenges.findUnique.mockResolvedValue(null);
+
+      await expect(manifestService.saveDraft(leaderId, mockChallenge.id, entries)).rejects.toThrow(
+        NotFoundError
+      );
+    });
+
+    it('should reject completed challenges', async () => {
+      mockPrisma.challenges.findUnique.mockResolvedValue({
+        ...mockChallenge,
+        status: ChallengeStatus.COMPLETED,
+      });
+
+      await expect(manifestService.saveDraft(leaderId, mockChallenge.id, entries)).rejects.toThrow(
+        ValidationError
+      );
+    });
+
+    it('should reject out-of-range weights', async () => {
+      await expect(
+        manifestService.saveDraft(leaderId, mockChallenge.id, [
+          { contributorId: 'user-1', role: 'Developer', weight: 1.5 },
+        ])
+      ).rejects.toThrow(ValidationError);
+    });
+
+    it('should reject drafts whose total does not fit the stored total', async () => {
+      const tenRoles = Array.from({ length: 10 }, (_, i) => ({
+        contributorId: 'user-1',
+        role: `Role ${i + 1}`,
+        weight: 1,
+      }));
+
+      await expect(manifestService.saveDraft(leaderId, mockChallenge.id, tenRoles)).rejects.toThrow(
+        'Total weight is 10, drafts may total at most 9.999'
+      );
+      expect(mockPrisma.composition_manifests.upsert).not.toHaveBeenCalled();
+    });
+
+    it('should reject duplicate contributor roles', async () => {
+      await expect(
+        manifestService.saveDraft(leaderId, mockChallenge.id, [
+          { contributorId: 'user-1', role: 'Developer', weight: 0.5 },
+          { contributorId: 'user-1', role: 'developer', weight: 0.5 },
+        ])
+      ).rejects.toThrow(ValidationError);
+    });
+
+    it('should reject unknown contributors', async () => {
+      mockPrisma.users.findMany.mockResolvedValue([{ id: 'user-1' }]);
+
+      await expect(manifestService.saveDraft(leaderId, mockChallenge.id, entries)).rejects.toThrow(
+        ValidationError
+      );
+      expect(mockPrisma.composition_manifests.upsert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('validate()', () => {
+    it('should pass when weights sum to 1.0', async () => {
+      mockPrisma.composition_manifests.findUnique.mockResolvedValue(mockManifest);
+
+      const result = await manifestService.validate(mockChallenge.id);
+
+      expect(result).toEqual({ valid: true, totalDeclared: 1, errors: [] });
+    });
+
+    it('should fail when weights do not sum to 1.0', async () => {
+      mockPrisma.composition_manifests.findUnique.mockResolvedValue({
+        ...mockManifest,
+        entries: [entries[0]],
+      });
+
+      const result = await manifestService.validate(mockChallenge.id);
+
+      expect(result.valid).toBe(false);
+      expect(result.totalDeclared).toBe(0.6);
+    });
+
+    it('should throw when no manifest exists', async () => {
+      mockPrisma.composition_manifests.findUnique.mockResolvedValue(null);
+
+      await expect(manifestService.validate(mockChallenge.id)).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('sign()', () => {
+    beforeEach(() => {
+      mockPrisma.challenges.findUnique.mockResolvedValue(mockChallenge);
+    });
+
+    it('should sign a valid manifest and emit MANIFEST_SIGNED', async () => {
+      mockPrisma.composition_manifests.findUnique.mockResolvedValue(mockManifest);
+      mockPrisma.composition_manifests.update.mockResolvedValue({
+        ...mockManifest,
+        signedByLeader: true,
+        signedAt: new Date(),
+      });
+
+      const result = await manifestService.sign(leaderId, mockChallenge.id);
+
+      expect(result.signedByLeader).toBe(true);
+      expect(mockPrisma.composition_manifests.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ signedByLeader: true, signedAt: expect.any(Date) }),
+        })
+      );
+      expect(mockEventService.emit).toHaveBeenCalledWith(
+        expect.objectContaining({
+          entityType: 'CHALLENGE',
+          entityId: mockChallenge.id,
+          action: 'MANIFEST_SIGNED',
+        })
+      );
+    });
+
+    it('should refuse to sign when weights do not sum to 1.0', async () => {
+      mockPrisma.composition_manifests.findUnique.mockResolvedValue({
+        ...mockManifest,
+        entries: [entries[0]],
+      });
+
+      await expect(manifestService.sign(leaderId, mockChallenge.id)).rejects.toThrow(
+        ValidationError
+      );
+      expect(mockPrisma.composition_manifests.update).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to sign twice', async () => {
+      mockPrisma.composition_manifests.findUnique.mockResolvedValue({
+        ...mockManifest,
+        signedByLeader: true,
+      });
+
+      await expect(manifestService.sign(leaderId, mockChallenge.id)).rejects.toThrow(ConflictError);
+    });
+
+    it('should reject non-leaders', async () => {
+      await expect(manifestService.sign('someone-else', mockChallenge.id)).rejects.toThrow(
+        AuthorizationError
+      );
+    });
+  });
+});
@@ -1,5 +1,5 @@
 import { prisma } from '../config/database';
-import { PaymentMethod, PaymentStatus } from '@prisma/client';
+import { PaymentMethod, PaymentStatus, Prisma } from '@prisma/client';
 import { logger } from '../utils/logger';
 import { PaymentSplit, NotFoundError, ValidationError } from '../types';
 import { generateId } from '../utils/idGenerator';
@@ -15,7 +15,7 @@ export class PaymentService {
    * of bounty based on token values from different contribution types.
    *
    * Algorithm:
-   * 1. Get all contributions for the challenge
+   * 1. Get all contributions for the challenge, leaving out quarantined ones
    * 2. Sum total token values
    * 3. Calculate each contributor's percentage share
    * 4. Split bounty amount proportionally
@@ -24,11 +24,12 @@ export class PaymentService {
    * @returns Array of payment splits showing how bounty should be distributed
    */
   async calculatePaymentSplits(challengeId: string): Promise<PaymentSplit[]> {
-    // Get challenge with all contributions
+    // Get challenge with all contributions that were not quarantined by moderation
     const challenge = await prisma.challenges.findUnique({
       where: { id: challengeId },
       include: {
         contributions: {
+          where: { moderationStatus: { not: 'QUARANTINED' } },
           orderBy: { createdAt: 'asc' },
         },
       },
@@ -88,22 +89,23 @@ export class PaymentService {
    * @param challengeId - The challenge to create payments for
    * @param splits - Pre-calculated payment splits
    * @param method - Payment method (CRYPTO or FIAT)
+   * @param tx - Transaction to create the payments in, when part of a larger change
    * @returns Array of created payment records
    */
   async distributePayments(
     challengeId: string,
     splits: PaymentSplit[],
-    method: PaymentMethod = PaymentMethod.FIAT
+    method: PaymentMethod = PaymentMethod.FIAT,
+    tx?: Prisma.TransactionClient
   ) {
     if (splits.length === 0) {
       logger.warn(`No payment splits provided for challenge ${challengeId}`);
       return [];
     }
 
-    // Create all payment records in a single transaction
-    const payments = await prisma.$transaction(
+    const createAll = (db: Prisma.TransactionClient) =>
       splits.map((split) =>
-        prisma.payments.create({
+        db.payments.create({
           data: {
             id: generateId(),
             challengeId,
@@ -114,8 +116,12 @@ export class PaymentService {
             updatedAt: new Date(),
           },
         })
-      )
-    );
+      );
+
+    // Create all payment records in a single transaction (the caller's, if given)
+    const payments = tx
+      ? await Promise.all(createAll(tx))
+      : await prisma.$transaction(createAll(prisma));
 
     logger.info(
       `Created ${payments.length} payment records for challenge ${challengeId} ` +
@@ -0,0 +1,304 @@
+import { PrismaClient, PaymentMethod, PaymentStatus, payments } from '@prisma/client';
+import { EventService } from '../events/EventService';
+import { BlockchainService } from '../blockchain.service';
+import { logger } from '../../utils/logger';
+
+export interface CryptoPayoutOptions {
+  /** ERC-20 stablecoin contract to pay in (amounts are fiat, paid 1:1 in whole tokens) */
+  tokenAddress: string;
+  /** Claims older than this without a signed transaction are released for retry */
+  staleClaimMinutes?: number;
+}
+
+export interface CryptoPayoutSummary {
+  sent: number;
+  completed: number;
+  failed: number;
+  awaitingConfirmation: number;
+  skipped: { paymentId: string; reason: string }[];
+}
+
+type PaymentWithWallet = payments & { users: { walletAddress: string | null } };
+
+const DEFAULT_STALE_CLAIM_MINUTES = 10;
+
+/**
+ * CryptoPayoutExecutor - Sends PENDING CRYPTO payments on-chain
+ *
+ * Business Rules:
+ * - Each payment is paid to the recipient's walletAddress in the configured
+ *   ERC-20 stablecoin; the fiat amount is paid 1:1 in whole tokens. There is
+ *   no price conversion, so payouts in the native coin are not supported
+ * - A payment is claimed atomically before signing, and the signed transaction
+ *   and its hash are stored before broadcast. A retry re-broadcasts that same
+ *   transaction (same nonce and hash) and never signs a second one, so a
+ *   payment can't be paid twice
+ * - Payments move to COMPLETED or FAILED only on a mined receipt: status 1
+ *   completes, status 0 fails. A receipt that can't be fetched leaves the
+ *   payment PENDING for the next run
+ * - A transaction is only declared dropped when its nonce was used and its
+ *   receipt is still missing after that
+ * - Recipients without a wallet address are skipped and stay PENDING
+ * - Every send, completion and failure is logged via EventService
+ */
+export class CryptoPayoutExecutor {
+  constructor(
+    private prisma: PrismaClient,
+    private eventService: EventService,
+    private blockchain: BlockchainService,
+    private options: CryptoPayoutOptions
+  ) {}
+
+  /**
+   * Confirm payments already sent, then send every unsent PENDING crypto payment
+   */
+  async execute(actorId: string, challengeId?: string): Promise<CryptoPayoutSummary> {
+    const summary: CryptoPayoutSummary = {
+      sent: 0,
+      completed: 0,
+      failed: 0,
+      awaitingConfirmation: 0,
+      skipped: [],
+    };
+
+    await this.releaseStaleClaims(challengeId);
+
+    const sentPayments = await this.prisma.payments.findMany({
+      where: {
+        ...(challengeId ? { challengeId } : {}),
+        method: PaymentMethod.CRYPTO,
+        status: PaymentStatus.PENDING,
+        blockchainTxHash: { not: null },
+      },
+      include: { users: { select: { walletAddress: true } } },
+    });
+
+    for (const payment of sentPayments) {
+      this.tally(summary, await this.reconcile(actorId, payment));
+    }
+
+    const unsentPayments = await this.prisma.payments.findMany({
+      where: {
+        ...(challengeId ? { challengeId } : {}),
+        method: PaymentMethod.CRYPTO,
+        status: PaymentStatus.PENDING,
+        blockchainTxHash: null,
+        payoutClaimedAt: null,
+      },
+      include: { users: { select: { walletAddress: true } } },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    for (const payment of unsentPayments) {
+      if (!payment.users.walletAddress) {
+        summary.skipped.push({ paymentId: payment.id, reason: 'Recipient has no wallet address' });
+        continue;
+      }
+
+      const sent = await this.send(actorId, payment);
+      if (!sent.ok) {
+        summary.skipped.push({ paymentId: payment.id, reason: sent.reason });
+        continue;
+      }
+
+      summary.sent++;
+      this.tally(summary, await this.reconcile(actorId, { ...payment, ...sent.payment }));
+    }
+
+    logger.info(
+      `Crypto payouts executed by ${actorId}: ${summary.sent} sent, ${summary.completed} completed, ` +
+        `${summary.failed} failed, ${summary.awaitingConfirmation} awaiting confirmation, ` +
+        `${summary.skipped.length} skipped`
+    );
+
+    return summary;
+  }
+
+  /**
+   * Claim, sign, persist and broadcast a single payment
+   */
+  private async send(
+    actorId: string,
+    payment: PaymentWithWallet
+  ): Promise<{ ok: true; payment: payments } | { ok: false; reason: string }> {
+    // Atomic claim: only one executor run can move past this point per payment
+    const claim = await this.prisma.payments.updateMany({
+      where: {
+        id: payment.id,
+        status: PaymentStatus.PENDING,
+        blockchainTxHash: null,
+        payoutClaimedAt: null,
+      },
+      data: { payoutClaimedAt: new Date(), updatedAt: new Date() },
+    });
+
+    if (claim.count === 0) {
+      return { ok: false, reason: 'Payment is already being processed' };
+    }
+
+    let signed: { txHash: string; rawTx: string };
+    try {
+      signed = await this.blockchain.signPayment(
+        payment.users.walletAddress as string,
+        payment.amount.toString(),
+        this.options.tokenAddress
+      );
+    } catch (error) {
+      // Nothing was signed, so releasing the claim cannot lead to a double payment
+      const reason = error instanceof Error ? error.message : 'Failed to sign payment';
+      await this.prisma.payments.update({
+        where: { id: payment.id },
+        data: { payoutClaimedAt: null, failureReason: reason, updatedAt: new Date() },
+      });
+      return { ok: false, reason };
+    }
+
+    const updated = await this.prisma.payments.update({
+      where: { id: payment.id },
+      data: {
+        blockchainTxHash: signed.txHash,
+        signedTx: signed.rawTx,
+        failureReason: null,
+        updatedAt: new Date(),
+      },
+    });
+
+    try {
+      await this.blockchain.broadcastTransaction(signed.rawTx);
+    } catch (error) {
+      // The stored transaction is re-broadcast on the next run
+      logger.warn(`Broadcast of payment ${payment.id} (${signed.txHash}) failed: ${error}`);
+    }
+
+    await this.eventService.emit({
+      actorId,
+      entityType: 'CHALLENGE',
+      entityId: payment.challengeId,
+      action: 'PAYMENT_SENT',
+      metadata: {
+        paymentId: payment.id,
+        recipientId: payment.userId,
+        walletAddress: payment.users.walletAddress,
+        amount: payment.amount.toString(),
+        asset: this.options.tokenAddress,
+        txHash: signed.txHash,
+      },
+    });
+
+    return { ok: true, payment: updated };
+  }
+
+  /**
+   * Settle a sent payment from its on-chain receipt
+   */
+  private async reconcile(
+    actorId: string,
+    payment: payments
+  ): Promise<'COMPLETED' | 'FAILED' | 'PENDING'> {
+    let receipt = await this.fetchReceipt(payment);
+    if (receipt === undefined) {
+      return 'PENDING';
+    }
+
+    if (!receipt) {
+      if (!payment.signedTx) {
+        return 'PENDING';
+      }
+
+      try {
+        await this.blockchain.broadcastTransaction(payment.signedTx);
+        return 'PENDING';
+      } catch (error) {
+        if ((error as { code?: string }).code !== 'NONCE_EXPIRED') {
+          return 'PENDING';
+        }
+      }
+
+      // The nonce is used up - possibly by this very transaction, mined since the
+      // lookup above. Only a still-missing receipt means it was really dropped.
+      receipt = await this.fetchReceipt(payment);
+      if (receipt === undefined) {
+        return 'PENDING';
+      }
+      if (!receipt) {
+        await this.settle(actorId, payment, PaymentStatus.FAILED, 'Transaction was dropped');
+        return 'FAILED';
+      }
+    }
+
+    if (receipt.status === 1) {
+      await this.settle(actorId, payment, PaymentStatus.COMPLETED);
+      return 'COMPLETED';
+    }
+
+    if (receipt.status === 0) {
+      await this.settle(actorId, payment, PaymentStatus.FAILED, 'Transaction reverted');
+      return 'FAILED';
+    }
+
+    return 'PENDING';
+  }
+
+  /**
+   * Receipt of a sent payment's transaction: null while it is not mined,
+   * undefined when the lookup itself failed
+   */
+  private async fetchReceipt(payment: payments) {
+    try {
+      return await this.blockchain.getTransaction(payment.blockchainTxHash as string);
+    } catch (error) {
+      logger.warn(`Could not fetch receipt for payment ${payment.id}: ${error}`);
+      return undefined;
+    }
+  }
+
+  private async settle(
+    actorId: string,
+    payment: payments,
+    status: typeof PaymentStatus.COMPLETED | typeof PaymentStatus.FAILED,
+    failureReason?: string
+  ) {
+    await this.prisma.payments.update({
+      where: { id: payment.id },
+      data: { status, failureReason: failureReason ?? null, updatedAt: new Date() },
+    });
+
+    await this.eventService.emit({
+      actorId,
+      entityType: 'CHALLENGE',
+      entityId: payment.challengeId,
+      action: status === PaymentStatus.COMPLETED ? 'PAYMENT_COMPLETED' : 'PAYMENT_FAILED',
+      metadata: {
+        paymentId: payment.id,
+        recipientId: payment.userId,
+        txHash: payment.blockchainTxHash,
+        ...(failureReason ? { reason: failureReason } : {}),
+      },
+    });
+  }
+
+  /**
+   * Release claims that never reached the signed-and-stored step (e.g. a crash
+   * mid-run). Nothing was broadcast for these, so they are safe to retry.
+   */
+  private async releaseStaleClaims(challengeId?: string) {
+    const minutes = this.options.staleClaimMinutes ?? DEFAULT_STALE_CLAIM_MINUTES;
+
+    await this.prisma.payments.updateMany({
+      where: {
+        ...(challengeId ? { challengeId } : {}),
+        method: PaymentMethod.CRYPTO,
+        status: PaymentStatus.PENDING,
+        blockchainTxHash: null,
+        payoutClaimedAt: { lt: new Date(Date.now() - minutes * 60 * 1000) },
+      },
+      data: { payoutClaimedAt: null, updatedAt: new Date() },
+    });
+  }
+
+  private tally(summary: CryptoPayoutSummary, result: 'COMPLETED' | 'FAILED' | 'PENDING') {
+    if (result === 'COMPLETED') summary.completed++;
+    else if (result === 'FAILED') summary.failed++;
+    else summary.awaitingConfirmation++;
+  }
+}
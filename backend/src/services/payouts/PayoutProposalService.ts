@@ -0,0 +1,779 @@
+import { PrismaClient, ChallengeStatus, Prisma, payout_proposals } from '@prisma/client';
+import { generateId } from '../../utils/idGenerator';
+import { EventService } from '../events/EventService';
+import { AuditorService } from '../auditor/AuditorService';
+import { ManifestEntryDTO, PayoutEntryDTO, PaymentSplit } from '../../types';
+import { ValidationError, NotFoundError, AuthorizationError, ConflictError } from '../../types';
+
+/**
+ * Maximum allowed difference between a contributor's payout share and their
+ * manifest weight before the proposal is flagged as out of tolerance (±10%)
+ */
+export const PAYOUT_TOLERANCE = 0.1;
+
+export type PayoutProposalStatus =
+  | 'DRAFT'
+  | 'AWAITING_SPONSOR'
+  | 'SPONSOR_REJECTED'
+  | 'AWAITING_AUDIT'
+  | 'AUDIT_FAILED'
+  | 'APPROVED'
+  | 'RELEASED';
+
+export interface ToleranceDeviation {
+  userId: string;
+  manifestWeight: number;
+  payoutShare: number;
+  deviation: number;
+}
+
+export interface ToleranceResult {
+  withinTolerance: boolean;
+  deviations: ToleranceDeviation[];
+}
+
+/**
+ * Derive the lifecycle stage of a payout proposal from its flags
+ */
+export function getPayoutProposalStatus(proposal: payout_proposals): PayoutProposalStatus {
+  if (proposal.releasedAt) return 'RELEASED';
+  if (proposal.sponsorRejectedAt) return 'SPONSOR_REJECTED';
+  if (proposal.auditStatus === 'FAILED') return 'AUDIT_FAILED';
+  if (!proposal.signedByLeader) return 'DRAFT';
+  if (!proposal.sponsorApproved) return 'AWAITING_SPONSOR';
+  if (proposal.auditStatus === 'PASSED') return 'APPROVED';
+  return 'AWAITING_AUDIT';
+}
+
+/**
+ * PayoutProposalService - Manages how a challenge bounty is split between contributors
+ *
+ * Business Rules:
+ * - Only the Project Leader can draft, edit and sign a proposal
+ * - Proposals are drafted from the signed composition manifest; the leader may
+ *   adjust amounts, but they must add up to the bounty
+ * - A contributor's share may differ from their manifest weight by at most ±10%;
+ *   signing an out-of-tolerance proposal requires a justification note
+ * - Only one open proposal per challenge; a new one can be drafted once the
+ *   previous one is rejected by the sponsor or fails audit
+ * - Only the sponsor can approve or reject a signed proposal (rejection needs notes)
+ * - Only admins audit sponsor-approved proposals; PASS requires AuditorService.validatePayout
+ *   to report no violations, FAIL requires notes
+ * - Payments are released only from an approved (sponsor + audit) proposal, once;
+ *   the release is claimed in the same transaction that creates the payments
+ * - All actions are logged via EventService against the challenge
+ */
+export class PayoutProposalService {
+  constructor(
+    private prisma: PrismaClient,
+    private eventService: EventService,
+    private auditorService: AuditorService
+  ) {}
+
+  /**
+   * Get payout proposal by ID
+   */
+  async getById(proposalId: string) {
+    const proposal = await this.prisma.payout_proposals.findUnique({
+      where: { id: proposalId },
+      include: {
+        challenges: {
+          select: {
+            id: true,
+            title: true,
+            status: true,
+            bountyAmount: true,
+            sponsorId: true,
+            projectLeaderId: true,
+          },
+        },
+        users: {
+          select: {
+            id: true,
+            email: true,
+          },
+        },
+      },
+    });
+
+    return proposal;
+  }
+
+  /**
+   * Get all payout proposals for a challenge, newest first
+   */
+  async getByChallenge(challengeId: string) {
+    const proposals = await this.prisma.payout_proposals.findMany({
+      where: { challengeId },
+      orderBy: { createdAt: 'desc' },
+      include: {
+        challenges: {
+          select: {
+            id: true,
+            title: true,
+            status: true,
+            bountyAmount: true,
+            sponsorId: true,
+            projectLeaderId: true,
+          },
+        },
+        users: {
+          select: {
+            id: true,
+            email: true,
+          },
+        },
+      },
+    });
+
+    return proposals;
+  }
+
+  /**
+   * Get all payout proposals (admin), optionally filtered by audit status
+   */
+  async getAll(auditStatus?: string) {
+    const where: Prisma.payout_proposalsWhereInput = {};
+    if (auditStatus) {
+      where.auditStatus = auditStatus;
+    }
+
+    const proposals = await this.prisma.payout_proposals.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      include: {
+        challenges: {
+          select: {
+            id: true,
+            title: true,
+            status: true,
+            bountyAmount: true,
+            sponsorId: true,
+            projectLeaderId: true,
+          },
+        },
+        users: {
+          select: {
+            id: true,
+            email: true,
+          },
+        },
+      },
+    });
+
+    return proposals;
+  }
+
+  /**
+   * Draft a payout proposal from the challenge's signed manifest
+   * Only Project Leader can draft; amounts default to manifest weight x bounty
+   */
+  async createFromManifest(leaderId: string, challengeId: string, distribution?: PayoutEntryDTO[]) {
+    const challenge = await this.prisma.challenges.findUnique({
+      where: { id: challengeId },
+      include: { composition_manifests: true },
+    });
+
+    if (!challenge) {
+      throw new NotFoundError('Challenge');
+    }
+
+    if (challenge.projectLeaderId !== leaderId) {
+      throw new AuthorizationError('Only the Project Leader can propose a payout');
+    }
+
+    if (challenge.status === ChallengeStatus.COMPLETED) {
+      throw new ValidationError('Cannot propose a payout for a completed challenge');
+    }
+
+    const manifest = challenge.composition_manifests;
+    if (!manifest || !manifest.signedByLeader) {
+      throw new ValidationError('Composition manifest must be signed before proposing a payout');
+    }
+
+    const open = await this.prisma.payout_proposals.findFirst({
+      where: {
+        challengeId,
+        sponsorRejectedAt: null,
+        auditStatus: { not: 'FAILED' },
+      },
+    });
+
+    if (open) {
+      throw new ConflictError('This challenge already has an open payout proposal');
+    }
+
+    const bounty = challenge.bountyAmount.toNumber();
+    const manifestEntries = this.readManifest(manifest.entries);
+    const entries = distribution
+      ? await this.normalizeDistribution(distribution, bounty)
+      : this.distributionFromManifest(manifestEntries, bounty);
+    const tolerance = this.checkTolerance(manifestEntries, entries, bounty);
+
+    const proposal = await this.prisma.payout_proposals.create({
+      data: {
+        id: generateId(),
+        challengeId,
+        leaderId,
+        distribution: entries as unknown as Prisma.InputJsonValue,
+        withinTolerance: tolerance.withinTolerance,
+      },
+    });
+
+    await this.eventService.emit({
+      actorId: leaderId,
+      entityType: 'CHALLENGE',
+      entityId: challengeId,
+      action: 'PAYOUT_DRAFTED',
+      snapshot: {
+        proposalId: proposal.id,
+        challengeTitle: challenge.title,
+        bountyAmount: bounty,
+        distribution: entries,
+      },
+      metadata: {
+        proposalId: proposal.id,
+        withinTolerance: tolerance.withinTolerance,
+        deviations: tolerance.deviations,
+      },
+    });
+
+    return (await this.getById(proposal.id))!;
+  }
+
+  /**
+   * Replace the amounts of a draft proposal
+   * Only Project Leader can edit, and only before signing
+   */
+  async updateDraft(leaderId: string, proposalId: string, distribution: PayoutEntryDTO[]) {
+    const proposal = await this.getLeaderProposal(proposalId, leaderId);
+
+    if (getPayoutProposalStatus(proposal) !== 'DRAFT') {
+      throw new ValidationError('Only DRAFT payout proposals can be edited');
+    }
+
+    const bounty = proposal.challenges.bountyAmount.toNumber();
+    const manifestEntries = await this.getManifestEntries(proposal.challengeId);
+    const entries = await this.normalizeDistribution(distribution, bounty);
+    const tolerance = this.checkTolerance(manifestEntries, entries, bounty);
+
+    await this.prisma.payout_proposals.update({
+      where: { id: proposalId },
+      data: {
+        distribution: entries as unknown as Prisma.InputJsonValue,
+        withinTolerance: tolerance.withinTolerance,
+      },
+    });
+
+    await this.eventService.emit({
+      actorId: leaderId,
+      entityType: 'CHALLENGE',
+      entityId: proposal.challengeId,
+      action: 'PAYOUT_UPDATED',
+      snapshot: {
+        proposalId,
+        challengeTitle: proposal.challenges.title,
+        distribution: entries,
+      },
+      metadata: {
+        proposalId,
+        withinTolerance: tolerance.withinTolerance,
+        deviations: tolerance.deviations,
+      },
+    });
+
+    return (await this.getById(proposalId))!;
+  }
+
+  /**
+   * Sign a draft proposal and submit it to the sponsor
+   * Out-of-tolerance proposals need a justification note
+   */
+  async sign(leaderId: string, proposalId: string, toleranceNote?: string) {
+    const proposal = await this.getLeaderProposal(proposalId, leaderId);
+
+    if (getPayoutProposalStatus(proposal) !== 'DRAFT') {
+      throw new ValidationError('Only DRAFT payout proposals can be signed');
+    }
+
+    const note = toleranceNote?.trim();
+    if (!proposal.withinTolerance && !note) {
+      throw new ValidationError(
+        'Payout deviates more than 10% from the manifest; a tolerance note is required'
+      );
+    }
+
+    const signedAt = new Date();
+    const updated = await this.prisma.payout_proposals.update({
+      where: { id: proposalId },
+      data: {
+        signedByLeader: true,
+        leaderSignedAt: signedAt,
+        toleranceNote: note || null,
+      },
+    });
+
+    await this.eventService.emit({
+      actorId: leaderId,
+      entityType: 'CHALLENGE',
+      entityId: proposal.challengeId,
+      action: 'PAYOUT_PROPOSED',
+      snapshot: {
+        proposalId,
+        challengeTitle: proposal.challenges.title,
+        distribution: updated.distribution,
+        withinTolerance: updated.withinTolerance,
+        toleranceNote: updated.toleranceNote,
+        signedAt: signedAt.toISOString(),
+      },
+      metadata: {
+        proposalId,
+        previousStatus: 'DRAFT',
+        newStatus: 'AWAITING_SPONSOR',
+      },
+    });
+
+    return (await this.getById(proposalId))!;
+  }
+
+  /**
+   * Sponsor approves a signed proposal, sending it to audit
+   */
+  async approve(sponsorId: string, proposalId: string, notes?: string) {
+    const proposal = await this.getSponsorProposal(proposalId, sponsorId);
+
+    if (getPayoutProposalStatus(proposal) !== 'AWAITING_SPONSOR') {
+      throw new ValidationError(
+        'Only signed payout proposals awaiting the sponsor can be approved'
+      );
+    }
+
+    const approvedAt = new Date();
+    await this.prisma.payout_proposals.update({
+      where: { id: proposalId },
+      data: {
+        sponsorApproved: true,
+        sponsorApprovedAt: approvedAt,
+        sponsorNotes: notes?.trim() || null,
+      },
+    });
+
+    await this.eventService.emit({
+      actorId: sponsorId,
+      entityType: 'CHALLENGE',
+      entityId: proposal.challengeId,
+      action: 'PAYOUT_SPONSOR_APPROVED',
+      snapshot: {
+        proposalId,
+        challengeTitle: proposal.challenges.title,
+        notes: notes?.trim() || null,
+        approvedAt: approvedAt.toISOString(),
+      },
+      metadata: {
+        proposalId,
+        previousStatus: 'AWAITING_SPONSOR',
+        newStatus: 'AWAITING_AUDIT',
+      },
+    });
+
+    return (await this.getById(proposalId))!;
+  }
+
+  /**
+   * Sponsor rejects a signed proposal; the leader must draft a new one
+   */
+  async reject(sponsorId: string, proposalId: string, notes: string) {
+    const proposal = await this.getSponsorProposal(proposalId, sponsorId);
+
+    if (getPayoutProposalStatus(proposal) !== 'AWAITING_SPONSOR') {
+      throw new ValidationError(
+        'Only signed payout proposals awaiting the sponsor can be rejected'
+      );
+    }
+
+    if (!notes || !notes.trim()) {
+      throw new ValidationError('Rejection notes are required');
+    }
+
+    const rejectedAt = new Date();
+    await this.prisma.payout_proposals.update({
+      where: { id: proposalId },
+      data: {
+        sponsorRejectedAt: rejectedAt,
+        sponsorNotes: notes.trim(),
+      },
+    });
+
+    await this.eventService.emit({
+      actorId: sponsorId,
+      entityType: 'CHALLENGE',
+      entityId: proposal.challengeId,
+      action: 'PAYOUT_SPONSOR_REJECTED',
+      snapshot: {
+        proposalId,
+        challengeTitle: proposal.challenges.title,
+        notes: notes.trim(),
+        rejectedAt: rejectedAt.toISOString(),
+      },
+      metadata: {
+        proposalId,
+        previousStatus: 'AWAITING_SPONSOR',
+        newStatus: 'SPONSOR_REJECTED',
+      },
+    });
+
+    return (await this.getById(proposalId))!;
+  }
+
+  /**
+   * Admin audit of a sponsor-approved proposal
+   * PASSED requires a clean AuditorService.validatePayout; FAILED requires notes
+   */
+  async audit(adminId: string, proposalId: string, result: 'PASSED' | 'FAILED', notes?: string) {
+    const proposal = await this.getById(proposalId);
+
+    if (!proposal) {
+      throw new NotFoundError('Payout proposal');
+    }
+
+    if (getPayoutProposalStatus(proposal) !== 'AWAITING_AUDIT') {
+      throw new ValidationError(
+        'Only sponsor-approved payout proposals awaiting audit can be audited'
+      );
+    }
+
+    if (result === 'FAILED' && (!notes || !notes.trim())) {
+      throw new ValidationError('Audit notes are required when failing a payout proposal');
+    }
+
+    let evidencePackUrl: string | undefined;
+    let warnings: string[] = [];
+    if (result === 'PASSED') {
+      const validation = await this.auditorService.validatePayout(proposal.challengeId);
+      if (!validation.ok) {
+        throw new ValidationError('Payout validation failed', validation.violations);
+      }
+      evidencePackUrl = validation.evidencePackUrl;
+      warnings = validation.warnings;
+    }
+
+    const auditedAt = new Date();
+    await this.prisma.payout_proposals.update({
+      where: { id: proposalId },
+      data: {
+        auditStatus: result,
+        auditNotes: notes?.trim() || null,
+        auditedBy: adminId,
+        auditedAt,
+        evidencePackUrl,
+      },
+    });
+
+    await this.eventService.emit({
+      actorId: adminId,
+      entityType: 'CHALLENGE',
+      entityId: proposal.challengeId,
+      action: result === 'PASSED' ? 'PAYOUT_AUDIT_PASSED' : 'PAYOUT_AUDIT_FAILED',
+      snapshot: {
+        proposalId,
+        challengeTitle: proposal.challenges.title,
+        notes: notes?.trim() || null,
+        warnings,
+        evidencePackUrl: evidencePackUrl || null,
+        auditedAt: auditedAt.toISOString(),
+      },
+      metadata: {
+        proposalId,
+        previousStatus: 'AWAITING_AUDIT',
+        newStatus: result === 'PASSED' ? 'APPROVED' : 'AUDIT_FAILED',
+      },
+    });
+
+    return (await this.getById(proposalId))!;
+  }
+
+  /**
+   * Get the approved, not yet released proposal for a challenge
+   * Throws if payments cannot be released
+   */
+  async getReleasable(challengeId: string) {
+    const proposal = await this.prisma.payout_proposals.findFirst({
+      where: { challengeId },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    if (!proposal) {
+      throw new ValidationError('No payout proposal found for this challenge');
+    }
+
+    const status = getPayoutProposalStatus(proposal);
+    if (status === 'RELEASED') {
+      throw new ConflictError('Payments for this payout proposal were already released');
+    }
+    if (status !== 'APPROVED') {
+      throw new ValidationError(
+        `Payout proposal must be approved by the sponsor and pass audit (current status: ${status})`
+      );
+    }
+
+    return proposal;
+  }
+
+  /**
+   * Claim an approved proposal for release within the caller's transaction
+   * Only one caller can claim a proposal, so concurrent completions cannot pay out twice
+   * @returns When the proposal was released
+   */
+  async claimRelease(tx: Prisma.TransactionClient, proposal: payout_proposals): Promise<Date> {
+    const releasedAt = new Date();
+    const { count } = await tx.payout_proposals.updateMany({
+      where: { id: proposal.id, releasedAt: null },
+      data: { releasedAt },
+    });
+
+    if (count === 0) {
+      throw new ConflictError('Payments for this payout proposal were already released');
+    }
+
+    return releasedAt;
+  }
+
+  /**
+   * Log the payments created from a proposal claimed with claimRelease
+   */
+  async recordRelease(
+    actorId: string,
+    proposal: payout_proposals,
+    paymentIds: string[],
+    releasedAt: Date
+  ) {
+    await this.eventService.emit({
+      actorId,
+      entityType: 'CHALLENGE',
+      entityId: proposal.challengeId,
+      action: 'PAYOUT_RELEASED',
+      snapshot: {
+        proposalId: proposal.id,
+        distribution: proposal.distribution,
+        paymentIds,
+        releasedAt: releasedAt.toISOString(),
+      },
+      metadata: {
+        proposalId: proposal.id,
+        previousStatus: 'APPROVED',
+        newStatus: 'RELEASED',
+      },
+    });
+  }
+
+  /**
+   * Convert a proposal's distribution into payment splits
+   */
+  toPaymentSplits(
+    proposal: payout_proposals,
+    bountyAmount: number,
+    contributions: Array<{ id: string; userId: string; tokenValue: Prisma.Decimal }>
+  ): PaymentSplit[] {
+    const entries = this.readDistribution(proposal.distribution);
+
+    return entries
+      .filter((entry) => entry.amount > 0)
+      .map((entry) => {
+        const own = contributions.filter((c) => c.userId === entry.userId);
+        return {
+          userId: entry.userId,
+          contributionId: entry.contributionId || own[0]?.id || '',
+          percentage: bountyAmount > 0 ? (entry.amount / bountyAmount) * 100 : 0,
+          amount: entry.amount,
+          tokenValue: own.reduce((sum, c) => sum + c.tokenValue.toNumber(), 0),
+        };
+      });
+  }
+
+  /**
+   * Compare payout shares against manifest weights
+   */
+  checkTolerance(
+    manifestEntries: ManifestEntryDTO[],
+    distribution: PayoutEntryDTO[],
+    bountyAmount: number
+  ): ToleranceResult {
+    const weights = new Map<string, number>();
+    for (const entry of manifestEntries) {
+      weights.set(
+        entry.contributorId,
+        (weights.get(entry.contributorId) || 0) + Number(entry.weight)
+      );
+    }
+
+    const shares = new Map<string, number>();
+    for (const entry of distribution) {
+      const share = bountyAmount > 0 ? entry.amount / bountyAmount : 0;
+      shares.set(entry.userId, (shares.get(entry.userId) || 0) + share);
+    }
+
+    const userIds = new Set([...weights.keys(), ...shares.keys()]);
+    const deviations: ToleranceDeviation[] = [];
+    for (const userId of userIds) {
+      const manifestWeight = this.round(weights.get(userId) || 0, 3);
+      const payoutShare = this.round(shares.get(userId) || 0, 3);
+      const deviation = this.round(Math.abs(payoutShare - manifestWeight), 3);
+      if (deviation > PAYOUT_TOLERANCE) {
+        deviations.push({ userId, manifestWeight, payoutShare, deviation });
+      }
+    }
+
+    return {
+      withinTolerance: deviations.length === 0,
+      deviations,
+    };
+  }
+
+  /**
+   * Load a proposal and check the actor is the challenge's Project Leader
+   */
+  private async getLeaderProposal(proposalId: string, leaderId: string) {
+    const proposal = await this.getById(proposalId);
+
+    if (!proposal) {
+      throw new NotFoundError('Payout proposal');
+    }
+
+    if (proposal.challenges.projectLeaderId !== leaderId) {
+      throw new AuthorizationError('Only the Project Leader can change this payout proposal');
+    }
+
+    return proposal;
+  }
+
+  /**
+   * Load a proposal and check the actor is the challenge sponsor
+   */
+  private async getSponsorProposal(proposalId: string, sponsorId: string) {
+    const proposal = await this.getById(proposalId);
+
+    if (!proposal) {
+      throw new NotFoundError('Payout proposal');
+    }
+
+    if (proposal.challenges.sponsorId !== sponsorId) {
+      throw new AuthorizationError('Only the challenge sponsor can approve or reject payouts');
+    }
+
+    return proposal;
+  }
+
+  private async getManifestEntries(challengeId: string): Promise<ManifestEntryDTO[]> {
+    const manifest = await this.prisma.composition_manifests.findUnique({
+      where: { challengeId },
+    });
+
+    return manifest ? this.readManifest(manifest.entries) : [];
+  }
+
+  /**
+   * Split the bounty by manifest weight, one entry per contributor
+   * Rounding remainder goes to the largest share so amounts add up exactly
+   */
+  private distributionFromManifest(
+    entries: ManifestEntryDTO[],
+    bountyAmount: number
+  ): PayoutEntryDTO[] {
+    const byContributor = new Map<string, { weight: number; roles: string[] }>();
+    for (const entry of entries) {
+      const current = byContributor.get(entry.contributorId) || { weight: 0, roles: [] };
+      current.weight += Number(entry.weight);
+      current.roles.push(entry.role);
+      byContributor.set(entry.contributorId, current);
+    }
+
+    const distribution: PayoutEntryDTO[] = [...byContributor.entries()].map(
+      ([userId, { weight, roles }]) => ({
+        userId,
+        amount: this.round(weight * bountyAmount, 2),
+        reason: roles.join(', '),
+      })
+    );
+
+    const allocated = distribution.reduce((sum, e) => sum + e.amount, 0);
+    const remainder = this.round(bountyAmount - allocated, 2);
+    if (remainder !== 0 && distribution.length > 0) {
+      const largest = distribution.reduce((max, e) => (e.amount > max.amount ? e : max));
+      largest.amount = this.round(largest.amount + remainder, 2);
+    }
+
+    return distribution;
+  }
+
+  /**
+   * Validate a leader-supplied distribution and strip unknown fields
+   */
+  private async normalizeDistribution(
+    distribution: PayoutEntryDTO[],
+    bountyAmount: number
+  ): Promise<PayoutEntryDTO[]> {
+    if (!Array.isArray(distribution) || distribution.length === 0) {
+      throw new ValidationError('Distribution must contain at least one entry');
+    }
+
+    const seen = new Set<string>();
+    const entries = distribution.map((entry, index) => {
+      const amount = Number(entry.amount);
+      if (typeof entry.userId !== 'string' || !entry.userId) {
+        throw new ValidationError(`Entry ${index + 1}: recipient is required`);
+      }
+      if (!Number.isFinite(amount) || amount < 0) {
+        throw new ValidationError(`Entry ${index + 1}: amount must be zero or positive`);
+      }
+      if (seen.has(entry.userId)) {
+        throw new ValidationError(`Entry ${index + 1}: recipient listed more than once`);
+      }
+      seen.add(entry.userId);
+
+      const normalized: PayoutEntryDTO = { userId: entry.userId, amount: this.round(amount, 2) };
+      if (entry.reason) normalized.reason = String(entry.reason);
+      if (entry.contributionId) normalized.contributionId = String(entry.contributionId);
+      return normalized;
+    });
+
+    const total = this.round(
+      entries.reduce((sum, e) => sum + e.amount, 0),
+      2
+    );
+    if (Math.abs(total - bountyAmount) > 0.01) {
+      throw new ValidationError(
+        `Distribution totals ${total}, must equal the bounty of ${bountyAmount}`
+      );
+    }
+
+    const users = await this.prisma.users.findMany({
+      where: { id: { in: [...seen] } },
+      select: { id: true },
+    });
+    const found = new Set(users.map((u) => u.id));
+    const missing = [...seen].filter((id) => !found.has(id));
+    if (missing.length > 0) {
+      throw new ValidationError('Unknown recipients in distribution', { missing });
+    }
+
+    return entries;
+  }
+
+  private readManifest(entries: Prisma.JsonValue): ManifestEntryDTO[] {
+    return Array.isArray(entries) ? (entries as unknown as ManifestEntryDTO[]) : [];
+  }
+
+  private readDistribution(distribution: Prisma.JsonValue): PayoutEntryDTO[] {
+    return Array.isArray(distribution)
+      ? (distribution as unknown as PayoutEntryDTO[]).map((e) => ({
+          ...e,
+          amount: Number(e.amount),
+        }))
+      : [];
+  }
+
+  private round(value: number, decimals: number): number {
+    const factor = 10 ** decimals;
+    return Math.round(value * factor) / factor;
+  }
+}
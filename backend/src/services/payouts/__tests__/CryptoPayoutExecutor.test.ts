@@ -0,0 +1,232 @@
+import { PaymentMethod, PaymentStatus } from '@prisma/client';
+import { CryptoPayoutExecutor } from '../CryptoPayoutExecutor';
+import { EventService } from '../../events/EventService';
+
+jest.mock('../../../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+  },
+}));
+
+describe('CryptoPayoutExecutor', () => {
+  let executor: CryptoPayoutExecutor;
+  let mockPrisma: any;
+  let mockEventService: jest.Mocked<EventService>;
+  let mockBlockchain: any;
+
+  const adminId = 'admin-123';
+  const txHash = `0x${'ab'.repeat(32)}`;
+  const wallet = '0x1111111111111111111111111111111111111111';
+
+  const pendingPayment = (overrides: Record<string, unknown> = {}) => ({
+    id: 'payment-1',
+    challengeId: 'challenge-123',
+    userId: 'user-1',
+    amount: { toString: () => '125.5' },
+    method: PaymentMethod.CRYPTO,
+    status: PaymentStatus.PENDING,
+    blockchainTxHash: null,
+    signedTx: null,
+    payoutClaimedAt: null,
+    users: { walletAddress: wallet },
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    mockPrisma = {
+      payments: {
+        findMany: jest.fn(),
+        updateMany: jest.fn(),
+        update: jest.fn(),
+      },
+    };
+
+    mockEventService = {
+      emit: jest.fn(),
+      getTrail: jest.fn(),
+      getByActor: jest.fn(),
+      getRecent: jest.fn(),
+    } as any;
+
+    mockBlockchain = {
+      signPayment: jest.fn(),
+      broadcastTransaction: jest.fn(),
+      getTransaction: jest.fn(),
+    };
+
+    executor = new CryptoPayoutExecutor(mockPrisma, mockEventService, mockBlockchain, {
+      tokenAddress: '0x2222222222222222222222222222222222222222',
+    });
+    jest.clearAllMocks();
+
+    // First query: already-sent payments; second query: unsent payments
+    mockPrisma.payments.findMany
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([pendingPayment()]);
+    mockPrisma.payments.updateMany.mockResolvedValue({ count: 1 });
+    mockPrisma.payments.update.mockImplementation(({ data }: any) =>
+      Promise.resolve({ ...pendingPayment(), ...data })
+    );
+    mockBlockchain.signPayment.mockResolvedValue({ txHash, rawTx: '0xsigned' });
+    mockBlockchain.broadcastTransaction.mockResolvedValue(txHash);
+    mockBlockchain.getTransaction.mockResolvedValue({ status: 1 });
+  });
+
+  it('should store the signed transaction before broadcasting and complete on a good receipt', async () => {
+    const summary = await executor.execute(adminId);
+
+    expect(mockBlockchain.signPayment).toHaveBeenCalledWith(
+      wallet,
+      '125.5',
+      '0x2222222222222222222222222222222222222222'
+    );
+    const storeCall = mockPrisma.payments.update.mock.calls.find(
+      ([args]: any) => args.data.blockchainTxHash === txHash
+    );
+    expect(storeCall[0].data.signedTx).toBe('0xsigned');
+    expect(mockPrisma.payments.update.mock.invocationCallOrder[0]).toBeLessThan(
+      mockBlockchain.broadcastTransaction.mock.invocationCallOrder[0]
+    );
+    expect(mockPrisma.payments.update).toHaveBeenCalledWith({
+      where: { id: 'payment-1' },
+      data: expect.objectContaining({ status: PaymentStatus.COMPLETED }),
+    });
+    expect(mockEventService.emit).toHaveBeenCalledWith(
+      expect.objectContaining({ action: 'PAYMENT_SENT', entityId: 'challenge-123' })
+    );
+    expect(mockEventService.emit).toHaveBeenCalledWith(
+      expect.objectContaining({ action: 'PAYMENT_COMPLETED' })
+    );
+    expect(summary).toMatchObject({ sent: 1, completed: 1, failed: 0 });
+  });
+
+  it('should not sign when another run already claimed the payment', async () => {
+    mockPrisma.payments.updateMany
+      .mockResolvedValueOnce({ count: 0 }) // stale-claim release
+      .mockResolvedValueOnce({ count: 0 }); // claim
+
+    const summary = await executor.execute(adminId);
+
+    expect(mockBlockchain.signPayment).not.toHaveBeenCalled();
+    expect(summary.sent).toBe(0);
+    expect(summary.skipped).toEqual([
+      { paymentId: 'payment-1', reason: 'Payment is already being processed' },
+    ]);
+  });
+
+  it('should re-broadcast the stored transaction on retry instead of paying again', async () => {
+    mockPrisma.payments.findMany
+      .mockReset()
+      .mockResolvedValueOnce([pendingPayment({ blockchainTxHash: txHash, signedTx: '0xsigned' })])
+      .mockResolvedValueOnce([]);
+    mockBlockchain.getTransaction.mockResolvedValue(null);
+
+    const summary = await executor.execute(adminId);
+
+    expect(mockBlockchain.signPayment).not.toHaveBeenCalled();
+    expect(mockBlockchain.broadcastTransaction).toHaveBeenCalledWith('0xsigned');
+    expect(summary).toMatchObject({ sent: 0, awaitingConfirmation: 1 });
+  });
+
+  it('should mark the payment FAILED when the transaction reverted', async () => {
+    mockBlockchain.getTransaction.mockResolvedValue({ status: 0 });
+
+    const summary = await executor.execute(adminId);
+
+    expect(mockPrisma.payments.update).toHaveBeenCalledWith({
+      where: { id: 'payment-1' },
+      data: expect.objectContaining({
+        status: PaymentStatus.FAILED,
+        failureReason: 'Transaction reverted',
+      }),
+    });
+    expect(mockEventService.emit).toHaveBeenCalledWith(
+      expect.objectContaining({ action: 'PAYMENT_FAILED' })
+    );
+    expect(summary.failed).toBe(1);
+  });
+
+  it('should leave the payment PENDING when the receipt lookup fails', async () => {
+    mockPrisma.payments.findMany
+      .mockReset()
+      .mockResolvedValueOnce([pendingPayment({ blockchainTxHash: txHash, signedTx: '0xsigned' })])
+      .mockResolvedValueOnce([]);
+    mockBlockchain.getTransaction.mockRejectedValue(new Error('RPC timeout'));
+
+    const summary = await executor.execute(adminId);
+
+    expect(mockPrisma.payments.update).not.toHaveBeenCalledWith(
+      expect.objectContaining({ data: expect.objectContaining({ status: PaymentStatus.FAILED }) })
+    );
+    expect(summary).toMatchObject({ failed: 0, awaitingConfirmation: 1 });
+  });
+
+  describe('when the re-broadcast finds the nonce already used', () => {
+    beforeEach(() => {
+      mockPrisma.payments.findMany
+        .mockReset()
+        .mockResolvedValueOnce([pendingPayment({ blockchainTxHash: txHash, signedTx: '0xsigned' })])
+        .mockResolvedValueOnce([]);
+      mockBlockchain.broadcastTransaction.mockRejectedValue(
+        Object.assign(new Error('nonce has already been used'), { code: 'NONCE_EXPIRED' })
+      );
+    });
+
+    it('should complete the payment when our transaction was mined meanwhile', async () => {
+      mockBlockchain.getTransaction
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce({ status: 1 });
+
+      const summary = await executor.execute(adminId);
+
+      expect(mockPrisma.payments.update).toHaveBeenCalledWith({
+        where: { id: 'payment-1' },
+        data: expect.objectContaining({ status: PaymentStatus.COMPLETED }),
+      });
+      expect(summary).toMatchObject({ completed: 1, failed: 0 });
+    });
+
+    it('should mark the payment dropped when the receipt is still missing', async () => {
+      mockBlockchain.getTransaction.mockResolvedValue(null);
+
+      const summary = await executor.execute(adminId);
+
+      expect(mockPrisma.payments.update).toHaveBeenCalledWith({
+        where: { id: 'payment-1' },
+        data: expect.objectContaining({
+          status: PaymentStatus.FAILED,
+          failureReason: 'Transaction was dropped',
+        }),
+      });
+      expect(summary.failed).toBe(1);
+    });
+  });
+
+  it('should skip recipients without a wallet address', async () => {
+    mockPrisma.payments.findMany
+      .mockReset()
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([pendingPayment({ users: { walletAddress: null } })]);
+
+    const summary = await executor.execute(adminId);
+
+    expect(mockPrisma.payments.updateMany).toHaveBeenCalledTimes(1); // stale-claim release only
+    expect(mockBlockchain.signPayment).not.toHaveBeenCalled();
+    expect(summary.skipped[0].reason).toBe('Recipient has no wallet address');
+  });
+
+  it('should release the claim when signing fails', async () => {
+    mockBlockchain.signPayment.mockRejectedValue(new Error('Invalid recipient wallet address'));
+
+    const summary = await executor.execute(adminId);
+
+    expect(mockPrisma.payments.update).toHaveBeenCalledWith({
+      where: { id: 'payment-1' },
+      data: expect.objectContaining({ payoutClaimedAt: null }),
+    });
+    expect(mockBlockchain.broadcastTransaction).not.toHaveBeenCalled();
+    expect(summary.skipped[0].reason).toBe('Invalid recipient wallet address');
+  });
+});
@@ -0,0 +1,447 @@
+import { PayoutProposalService, getPayoutProposalStatus } from '../PayoutProposalService';
+import { EventService } from '../../events/EventService';
+import { AuditorService } from '../../auditor/AuditorService';
+import { ChallengeStatus, Prisma } from '@prisma/client';
+import { ValidationError, NotFoundError, AuthorizationError, ConflictError } from '../../../types';
+
+jest.mock('../../../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+  },
+}));
+
+describe('PayoutProposalService', () => {
+  let service: PayoutProposalService;
+  let mockPrisma: any;
+  let mockEventService: jest.Mocked<EventService>;
+  let mockAuditorService: jest.Mocked<AuditorService>;
+
+  const leaderId = 'leader-123';
+  const sponsorId = 'sponsor-123';
+  const adminId = 'admin-123';
+
+  const manifestEntries = [
+    { contributorId: 'user-1', role: 'Developer', weight: 0.5 },
+    { contributorId: 'user-1', role: 'Reviewer', weight: 0.1 },
+    { contributorId: 'user-2', role: 'Designer', weight: 0.4 },
+  ];
+
+  const mockChallenge = {
+    id: 'challenge-123',
+    title: 'Test Challenge',
+    status: ChallengeStatus.IN_PROGRESS,
+    bountyAmount: new Prisma.Decimal(1000),
+    sponsorId,
+    projectLeaderId: leaderId,
+    composition_manifests: {
+      id: 'manifest-123',
+      entries: manifestEntries,
+      signedByLeader: true,
+    },
+  };
+
+  const baseProposal = {
+    id: 'payout-123',
+    challengeId: mockChallenge.id,
+    leaderId,
+    distribution: [
+      { userId: 'user-1', amount: 600, reason: 'Developer, Reviewer' },
+      { userId: 'user-2', amount: 400, reason: 'Designer' },
+    ],
+    withinTolerance: true,
+    toleranceNote: null,
+    signedByLeader: false,
+    leaderSignedAt: null,
+    sponsorApproved: false,
+    sponsorApprovedAt: null,
+    sponsorRejectedAt: null,
+    sponsorNotes: null,
+    auditStatus: 'PENDING',
+    auditNotes: null,
+    auditedBy: null,
+    auditedAt: null,
+    releasedAt: null,
+    evidencePackUrl: null,
+    createdAt: new Date(),
+    challenges: {
+      id: mockChallenge.id,
+      title: mockChallenge.title,
+      status: mockChallenge.status,
+      bountyAmount: mockChallenge.bountyAmount,
+      sponsorId,
+      projectLeaderId: leaderId,
+    },
+    users: { id: leaderId, email: 'leader@example.com' },
+  };
+
+  beforeEach(() => {
+    mockPrisma = {
+      challenges: {
+        findUnique: jest.fn(),
+      },
+      users: {
+        findMany: jest.fn(),
+      },
+      composition_manifests: {
+        findUnique: jest.fn(),
+      },
+      payout_proposals: {
+        findUnique: jest.fn(),
+        findFirst: jest.fn(),
+        findMany: jest.fn(),
+        create: jest.fn(),
+        update: jest.fn(),
+        updateMany: jest.fn(),
+      },
+    };
+
+    mockEventService = {
+      emit: jest.fn(),
+      getTrail: jest.fn(),
+      getByActor: jest.fn(),
+      getRecent: jest.fn(),
+    } as any;
+
+    mockAuditorService = {
+      validatePayout: jest.fn(),
+    } as any;
+
+    service = new PayoutProposalService(mockPrisma as any, mockEventService, mockAuditorService);
+    jest.clearAllMocks();
+  });
+
+  describe('getPayoutProposalStatus()', () => {
+    it('should derive each lifecycle stage', () => {
+      const p = baseProposal as any;
+      expect(getPayoutProposalStatus(p)).toBe('DRAFT');
+      expect(getPayoutProposalStatus({ ...p, signedByLeader: true })).toBe('AWAITING_SPONSOR');
+      expect(
+        getPayoutProposalStatus({ ...p, signedByLeader: true, sponsorRejectedAt: new Date() })
+      ).toBe('SPONSOR_REJECTED');
+      expect(getPayoutProposalStatus({ ...p, signedByLeader: true, sponsorApproved: true })).toBe(
+        'AWAITING_AUDIT'
+      );
+      expect(
+        getPayoutProposalStatus({
+          ...p,
+          signedByLeader: true,
+          sponsorApproved: true,
+          auditStatus: 'PASSED',
+        })
+      ).toBe('APPROVED');
+      expect(
+        getPayoutProposalStatus({
+          ...p,
+          signedByLeader: true,
+          sponsorApproved: true,
+          auditStatus: 'FAILED',
+        })
+      ).toBe('AUDIT_FAILED');
+      expect(getPayoutProposalStatus({ ...p, releasedAt: new Date() })).toBe('RELEASED');
+    });
+  });
+
+  describe('createFromManifest()', () => {
+    beforeEach(() => {
+      mockPrisma.challenges.findUnique.mockResolvedValue(mockChallenge);
+      mockPrisma.payout_proposals.findFirst.mockResolvedValue(null);
+      mockPrisma.payout_proposals.create.mockResolvedValue({ id: baseProposal.id });
+      mockPrisma.payout_proposals.findUnique.mockResolvedValue(baseProposal);
+    });
+
+    it('should split the bounty by aggregated manifest weight', async () => {
+      await service.createFromManifest(leaderId, mockChallenge.id);
+
+      expect(mockPrisma.payout_proposals.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          challengeId: mockChallenge.id,
+          leaderId,
+          withinTolerance: true,
+          distribution: [
+            { userId: 'user-1', amount: 600, reason: 'Developer, Reviewer' },
+            { userId: 'user-2', amount: 400, reason: 'Designer' },
+          ],
+        }),
+      });
+      expect(mockEventService.emit).toHaveBeenCalledWith(
+        expect.objectContaining({
+          entityType: 'CHALLENGE',
+          entityId: mockChallenge.id,
+          action: 'PAYOUT_DRAFTED',
+        })
+      );
+    });
+
+    it('should flag custom distributions outside tolerance', async () => {
+      mockPrisma.users.findMany.mockResolvedValue([{ id: 'user-1' }, { id: 'user-2' }]);
+
+      await service.createFromManifest(leaderId, mockChallenge.id, [
+        { userId: 'user-1', amount: 800 },
+        { userId: 'user-2', amount: 200 },
+      ]);
+
+      expect(mockPrisma.payout_proposals.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ withinTolerance: false }),
+      });
+    });
+
+    it('should reject distributions that do not add up to the bounty', async () => {
+      mockPrisma.users.findMany.mockResolvedValue([{ id: 'user-1' }, { id: 'user-2' }]);
+
+      await expect(
+        service.createFromManifest(leaderId, mockChallenge.id, [
+          { userId: 'user-1', amount: 500 },
+          { userId: 'user-2', amount: 400 },
+        ])
+      ).rejects.toThrow(ValidationError);
+    });
+
+    it('should require a signed manifest', async () => {
+      mockPrisma.challenges.findUnique.mockResolvedValue({
+        ...mockChallenge,
+        composition_manifests: { ...mockChallenge.composition_manifests, signedByLeader: false },
+      });
+
+      await expect(service.createFromManifest(leaderId, mockChallenge.id)).rejects.toThrow(
+        ValidationError
+      );
+    });
+
+    it('should reject non-leaders', async () => {
+      await expect(service.createFromManifest(sponsorId, mockChallenge.id)).rejects.toThrow(
+        AuthorizationError
+      );
+    });
+
+    it('should reject a second open proposal', async () => {
+      mockPrisma.payout_proposals.findFirst.mockResolvedValue(baseProposal);
+
+      await expect(service.createFromManifest(leaderId, mockChallenge.id)).rejects.toThrow(
+        ConflictError
+      );
+    });
+
+    it('should throw when challenge is missing', async () => {
+      mockPrisma.challenges.findUnique.mockResolvedValue(null);
+
+      await expect(service.createFromManifest(leaderId, mockChallenge.id)).rejects.toThrow(
+        NotFoundError
+      );
+    });
+  });
+
+  describe('sign()', () => {
+    it('should sign a draft and emit PAYOUT_PROPOSED', async () => {
+      mockPrisma.payout_proposals.findUnique.mockResolvedValue(baseProposal);
+      mockPrisma.payout_proposals.update.mockResolvedValue({
+        ...baseProposal,
+        signedByLeader: true,
+      });
+
+      await service.sign(leaderId, baseProposal.id);
+
+      expect(mockPrisma.payout_proposals.update).toHaveBeenCalledWith({
+        where: { id: baseProposal.id },
+        data: expect.objectContaining({ signedByLeader: true, leaderSignedAt: expect.any(Date) }),
+      });
+      expect(mockEventService.emit).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'PAYOUT_PROPOSED' })
+      );
+    });
+
+    it('should require a note when out of tolerance', async () => {
+      mockPrisma.payout_proposals.findUnique.mockResolvedValue({
+        ...baseProposal,
+        withinTolerance: false,
+      });
+
+      await expect(service.sign(leaderId, baseProposal.id)).rejects.toThrow(ValidationError);
+    });
+  });
+
+  describe('approve() / reject()', () => {
+    const signed = { ...baseProposal, signedByLeader: true, leaderSignedAt: new Date() };
+
+    it('should let the sponsor approve a signed proposal', async () => {
+      mockPrisma.payout_proposals.findUnique.mockResolvedValue(signed);
+
+      await service.approve(sponsorId, signed.id);
+
+      expect(mockPrisma.payout_proposals.update).toHaveBeenCalledWith({
+        where: { id: signed.id },
+        data: expect.objectContaining({ sponsorApproved: true }),
+      });
+      expect(mockEventService.emit).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'PAYOUT_SPONSOR_APPROVED' })
+      );
+    });
+
+    it('should not let the leader approve', async () => {
+      mockPrisma.payout_proposals.findUnique.mockResolvedValue(signed);
+
+      await expect(service.approve(leaderId, signed.id)).rejects.toThrow(AuthorizationError);
+    });
+
+    it('should not approve unsigned drafts', async () => {
+      mockPrisma.payout_proposals.findUnique.mockResolvedValue(baseProposal);
+
+      await expect(service.approve(sponsorId, baseProposal.id)).rejects.toThrow(ValidationError);
+    });
+
+    it('should require notes to reject', async () => {
+      mockPrisma.payout_proposals.findUnique.mockResolvedValue(signed);
+
+      await expect(service.reject(sponsorId, signed.id, '  ')).rejects.toThrow(ValidationError);
+    });
+  });
+
+  describe('audit()', () => {
+    const approved = {
+      ...baseProposal,
+      signedByLeader: true,
+      sponsorApproved: true,
+      sponsorApprovedAt: new Date(),
+    };
+
+    it('should pass when payout validation is clean', async () => {
+      mockPrisma.payout_proposals.findUnique.mockResolvedValue(approved);
+      mockAuditorService.validatePayout.mockResolvedValue({
+        ok: true,
+        violations: [],
+        warnings: [],
+        evidencePackUrl: '/evidence/challenge-123.pdf',
+      });
+
+      await service.audit(adminId, approved.id, 'PASSED');
+
+      expect(mockPrisma.payout_proposals.update).toHaveBeenCalledWith({
+        where: { id: approved.id },
+        data: expect.objectContaining({
+          auditStatus: 'PASSED',
+          auditedBy: adminId,
+          evidencePackUrl: '/evidence/challenge-123.pdf',
+        }),
+      });
+      expect(mockEventService.emit).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'PAYOUT_AUDIT_PASSED' })
+      );
+    });
+
+    it('should refuse to pass when payout validation has violations', async () => {
+      mockPrisma.payout_proposals.findUnique.mockResolvedValue(approved);
+      mockAuditorService.validatePayout.mockResolvedValue({
+        ok: false,
+        violations: ['Recipient a@b.c KYC not verified'],
+        warnings: [],
+      });
+
+      await expect(service.audit(adminId, approved.id, 'PASSED')).rejects.toThrow(ValidationError);
+      expect(mockPrisma.payout_proposals.update).not.toHaveBeenCalled();
+    });
+
+    it('should require notes to fail', async () => {
+      mockPrisma.payout_proposals.findUnique.mockResolvedValue(approved);
+
+      await expect(service.audit(adminId, approved.id, 'FAILED')).rejects.toThrow(ValidationError);
+    });
+  });
+
+  describe('getReleasable()', () => {
+    it('should return an approved proposal', async () => {
+      const approved = {
+        ...baseProposal,
+        signedByLeader: true,
+        sponsorApproved: true,
+        auditStatus: 'PASSED',
+      };
+      mockPrisma.payout_proposals.findFirst.mockResolvedValue(approved);
+
+      await expect(service.getReleasable(mockChallenge.id)).resolves.toBe(approved);
+    });
+
+    it('should refuse proposals awaiting audit', async () => {
+      mockPrisma.payout_proposals.findFirst.mockResolvedValue({
+        ...baseProposal,
+        signedByLeader: true,
+        sponsorApproved: true,
+      });
+
+      await expect(service.getReleasable(mockChallenge.id)).rejects.toThrow(ValidationError);
+    });
+
+    it('should refuse to release twice', async () => {
+      mockPrisma.payout_proposals.findFirst.mockResolvedValue({
+        ...baseProposal,
+        releasedAt: new Date(),
+      });
+
+      await expect(service.getReleasable(mockChallenge.id)).rejects.toThrow(ConflictError);
+    });
+  });
+
+  describe('claimRelease() / recordRelease()', () => {
+    it('should only claim proposals that have not been released', async () => {
+      mockPrisma.payout_proposals.updateMany.mockResolvedValue({ count: 1 });
+
+      const releasedAt = await service.claimRelease(mockPrisma, baseProposal as any);
+
+      expect(mockPrisma.payout_proposals.updateMany).toHaveBeenCalledWith({
+        where: { id: baseProposal.id, releasedAt: null },
+        data: { releasedAt },
+      });
+    });
+
+    it('should refuse a release another request already claimed', async () => {
+      mockPrisma.payout_proposals.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(service.claimRelease(mockPrisma, baseProposal as any)).rejects.toThrow(
+        ConflictError
+      );
+    });
+
+    it('should log the release with the created payments', async () => {
+      const releasedAt = new Date();
+
+      await service.recordRelease('sponsor-1', baseProposal as any, ['pay-1'], releasedAt);
+
+      expect(mockEventService.emit).toHaveBeenCalledWith(
+        expect.objectContaining({
+          entityId: baseProposal.challengeId,
+          action: 'PAYOUT_RELEASED',
+          snapshot: expect.objectContaining({
+            paymentIds: ['pay-1'],
+            releasedAt: releasedAt.toISOString(),
+          }),
+        })
+      );
+    });
+  });
+
+  describe('toPaymentSplits()', () => {
+    it('should map distribution entries to payment splits', () => {
+      const splits = service.toPaymentSplits(baseProposal as any, 1000, [
+        { id: 'contrib-1', userId: 'user-1', tokenValue: new Prisma.Decimal(30) },
+        { id: 'contrib-2', userId: 'user-2', tokenValue: new Prisma.Decimal(25) },
+      ]);
+
+      expect(splits).toEqual([
+        {
+          userId: 'user-1',
+          contributionId: 'contrib-1',
+          percentage: 60,
+          amount: 600,
+          tokenValue: 30,
+        },
+        {
+          userId: 'user-2',
+          contributionId: 'contrib-2',
+          percentage: 40,
+          amount: 400,
+          tokenValue: 25,
+        },
+      ]);
+    });
+  });
+});
@@ -1,6 +1,7 @@
 import { PrismaClient, ProposalStatus, ChallengeStatus } from '@prisma/client';
 import { generateId } from '../../utils/idGenerator';
 import { EventService } from '../events/EventService';
+import { SafetyService } from '../ai/safety/SafetyService';
 import { CreateProposalDTO } from '../../types';
 import {
   ValidationError,
@@ -16,6 +17,8 @@ import {
  * - Contributors can propose to join OPEN challenges
  * - Contributors cannot propose if they are the sponsor
  * - Only one PENDING or ACCEPTED proposal per contributor per challenge
+ * - Proposal messages are moderated before they are stored; QUARANTINED proposals
+ *   are hidden from the challenge's list and cannot be accepted
  * - Project Leaders can accept/reject PENDING proposals
  * - Contributors can withdraw their own PENDING proposals
  * - All actions are logged via EventService for audit trail
@@ -23,7 +26,8 @@ import {
 export class ProposalService {
   constructor(
     private prisma: PrismaClient,
-    private eventService: EventService
+    private eventService: EventService,
+    private safetyService: SafetyService = new SafetyService(prisma)
   ) {}
 
   /**
@@ -73,14 +77,27 @@ export class ProposalService {
       throw new ConflictError('You already have a pending proposal for this challenge');
     }
 
+    // Moderate the message before it is visible to anyone
+    const proposalId = generateId();
+    const { moderationStatus, incidentId } = data.message?.trim()
+      ? await this.safetyService.moderateOnWrite({
+          content: data.message,
+          entityType: 'PROPOSAL',
+          entityId: proposalId,
+          authorId: contributorId,
+          challengeId: data.challengeId,
+        })
+      : { moderationStatus: 'CLEAR' as const, incidentId: undefined };
+
     // Create proposal
     const proposal = await this.prisma.proposals.create({
       data: {
-        id: generateId(),
+        id: proposalId,
         challengeId: data.challengeId,
         contributorId,
         message: data.message,
         status: ProposalStatus.PENDING,
+        moderationStatus,
       },
       include: {
         challenges: {
@@ -119,6 +136,8 @@ export class ProposalService {
       metadata: {
         challengeId: data.challengeId,
         status: proposal.status,
+        moderationStatus,
+        incidentId: incidentId || null,
       },
     });
 
@@ -164,7 +183,7 @@ export class ProposalService {
    * Optionally filter by status
    */
   async getByChallenge(challengeId: string, status?: ProposalStatus) {
-    const where: any = { challengeId };
+    const where: any = { challengeId, moderationStatus: { not: 'QUARANTINED' } };
     if (status) {
       where.status = status;
     }
@@ -248,6 +267,11 @@ export class ProposalService {
       throw new ValidationError('Only PENDING proposals can be accepted');
     }
 
+    // Quarantined proposals wait for a moderator
+    if (proposal.moderationStatus === 'QUARANTINED') {
+      throw new ValidationError('This proposal is held for moderation review');
+    }
+
     // Validate challenge is not COMPLETED
     if (proposal.challenges.status === ChallengeStatus.COMPLETED) {
       throw new ValidationError('Cannot accept proposals for completed challenges');
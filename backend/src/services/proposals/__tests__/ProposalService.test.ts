@@ -36,6 +36,7 @@ describe('ProposalService', () => {
   let proposalService: ProposalService;
   let mockPrisma: any;
   let mockEventService: jest.Mocked<EventService>;
+  let mockSafetyService: any;
 
   // Mock data
   const mockContributor = {
@@ -147,8 +148,17 @@ describe('ProposalService', () => {
       getRecent: jest.fn(),
     } as any;
 
-    proposalService = new ProposalService(mockPrisma as any, mockEventService);
+    mockSafetyService = {
+      moderateOnWrite: jest.fn(),
+    };
+
+    proposalService = new ProposalService(
+      mockPrisma as any,
+      mockEventService,
+      mockSafetyService
+    );
     jest.clearAllMocks();
+    mockSafetyService.moderateOnWrite.mockResolvedValue({ moderationStatus: 'CLEAR' });
   });
 
   describe('create()', () => {
@@ -220,6 +230,46 @@ describe('ProposalService', () => {
 
         // Assert
         expect(result.message).toBeNull();
+        expect(mockSafetyService.moderateOnWrite).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('Moderation', () => {
+      it('should moderate the message and store the proposal as quarantined', async () => {
+        // Arrange
+        mockPrisma.challenges.findUnique.mockResolvedValue(mockChallenge);
+        mockPrisma.proposals.findFirst.mockResolvedValue(null);
+        mockPrisma.proposals.create.mockResolvedValue(mockProposal);
+        mockSafetyService.moderateOnWrite.mockResolvedValue({
+          moderationStatus: 'QUARANTINED',
+          incidentId: 'incident-123',
+        });
+
+        // Act
+        await proposalService.create(mockContributor.id, createProposalDTO);
+
+        // Assert
+        const createdId = mockPrisma.proposals.create.mock.calls[0][0].data.id;
+        expect(mockSafetyService.moderateOnWrite).toHaveBeenCalledWith({
+          content: createProposalDTO.message,
+          entityType: 'PROPOSAL',
+          entityId: createdId,
+          authorId: mockContributor.id,
+          challengeId: mockChallenge.id,
+        });
+        expect(mockPrisma.proposals.create).toHaveBeenCalledWith(
+          expect.objectContaining({
+            data: expect.objectContaining({ moderationStatus: 'QUARANTINED' }),
+          })
+        );
+        expect(mockEventService.emit).toHaveBeenCalledWith(
+          expect.objectContaining({
+            metadata: expect.objectContaining({
+              moderationStatus: 'QUARANTINED',
+              incidentId: 'incident-123',
+            }),
+          })
+        );
       });
     });
 
@@ -335,7 +385,7 @@ describe('ProposalService', () => {
       // Assert
       expect(result).toEqual(proposals);
       expect(mockPrisma.proposals.findMany).toHaveBeenCalledWith({
-        where: { challengeId: mockChallenge.id },
+        where: { challengeId: mockChallenge.id, moderationStatus: { not: 'QUARANTINED' } },
         orderBy: { createdAt: 'desc' },
         include: expect.any(Object),
       });
@@ -355,7 +405,11 @@ describe('ProposalService', () => {
       // Assert
       expect(result).toEqual(pendingProposals);
       expect(mockPrisma.proposals.findMany).toHaveBeenCalledWith({
-        where: { challengeId: mockChallenge.id, status: ProposalStatus.PENDING },
+        where: {
+          challengeId: mockChallenge.id,
+          moderationStatus: { not: 'QUARANTINED' },
+          status: ProposalStatus.PENDING,
+        },
         orderBy: { createdAt: 'desc' },
         include: expect.any(Object),
       });
@@ -484,6 +538,18 @@ describe('ProposalService', () => {
         ).rejects.toThrow('Only PENDING proposals can be accepted');
       });
 
+      it('should fail if proposal is quarantined', async () => {
+        // Arrange
+        const quarantinedProposal = { ...mockProposal, moderationStatus: 'QUARANTINED' };
+        mockPrisma.proposals.findUnique.mockResolvedValue(quarantinedProposal);
+
+        // Act & Assert
+        await expect(
+          proposalService.accept(mockProposal.id, mockProjectLeader.id)
+        ).rejects.toThrow('This proposal is held for moderation review');
+        expect(mockPrisma.proposals.update).not.toHaveBeenCalled();
+      });
+
       it('should fail if challenge is COMPLETED', async () => {
         // Arrange
         const completedChallengeProposal = {
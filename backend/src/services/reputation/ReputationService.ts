@@ -0,0 +1,292 @@
+import { PrismaClient, ChallengeStatus, SubmissionStatus, Prisma } from '@prisma/client';
+import { generateId } from '../../utils/idGenerator';
+import { logger } from '../../utils/logger';
+import { EventService } from '../events/EventService';
+import { DISPUTE_CATEGORY } from '../disputes/DisputeService';
+import { BADGE_RULES, ReputationStats } from './badges';
+import { NotFoundError } from '../../types';
+import { SYSTEM_USER_ID } from '../../config/systemActor';
+
+/**
+ * Points awarded per qualifying record
+ */
+export const REPUTATION_POINTS = {
+  SUBMISSION_APPROVED: 10,
+  CONTRIBUTED_COMPLETED: 25,
+  LED_COMPLETED: 50,
+  PAYOUT_APPROVED_AS_LEADER: 15,
+  SPONSORED_COMPLETED: 40,
+  PAYOUT_APPROVED_AS_SPONSOR: 10,
+  DISPUTE_AGAINST_PENALTY: 25,
+};
+
+export type ReputationTrigger =
+  'SUBMISSION_APPROVED' | 'CHALLENGE_COMPLETED' | 'PAYOUT_APPROVED' | 'DISPUTE_RAISED' | 'BACKFILL';
+
+/**
+ * ReputationService - Derives contributor, leader and sponsor reputation
+ *
+ * Business Rules:
+ * - Reputation is recomputed from source records, never incremented, so
+ *   recomputing twice for the same lifecycle event is harmless
+ * - contributionPoints/leadershipPoints/stewardshipPoints hold points earned;
+ *   asContributor/asProjectLeader/asSponsor are the role scores after
+ *   dispute penalties (never below 0)
+ * - A dispute counts against the leader and sponsor of the disputed challenge,
+ *   unless they raised it themselves
+ * - Badges are re-evaluated on every recompute (see badges.ts)
+ * - Changes are logged via EventService against the user
+ * - Lifecycle refreshes never throw: a failed recompute is logged and caught
+ *   up on the next one
+ */
+export class ReputationService {
+  constructor(
+    private prisma: PrismaClient,
+    private eventService: EventService
+  ) {}
+
+  /**
+   * Get a user's reputation, computing it on first access
+   * The backfill is logged as a system action, not one taken by the user viewed
+   */
+  async getByUser(userId: string) {
+    const user = await this.prisma.users.findUnique({
+      where: { id: userId },
+      select: { id: true },
+    });
+
+    if (!user) {
+      throw new NotFoundError('User');
+    }
+
+    const reputation = await this.prisma.reputations.findUnique({
+      where: { userId },
+    });
+
+    return reputation ?? this.recompute(userId, SYSTEM_USER_ID, 'BACKFILL');
+  }
+
+  /**
+   * Recompute and store a user's reputation
+   */
+  async recompute(userId: string, actorId: string, trigger: ReputationTrigger) {
+    const stats = await this.collectStats(userId);
+    const { disputesAgainstAsLeader, disputesAgainstAsSponsor } = stats;
+
+    const contributionPoints =
+      stats.approvedSubmissions * REPUTATION_POINTS.SUBMISSION_APPROVED +
+      stats.contributedCompleted * REPUTATION_POINTS.CONTRIBUTED_COMPLETED;
+    const leadershipPoints =
+      stats.ledCompleted * REPUTATION_POINTS.LED_COMPLETED +
+      stats.payoutsApprovedAsLeader * REPUTATION_POINTS.PAYOUT_APPROVED_AS_LEADER;
+    const stewardshipPoints =
+      stats.sponsoredCompleted * REPUTATION_POINTS.SPONSORED_COMPLETED +
+      stats.payoutsApprovedAsSponsor * REPUTATION_POINTS.PAYOUT_APPROVED_AS_SPONSOR;
+
+    const penalty = REPUTATION_POINTS.DISPUTE_AGAINST_PENALTY;
+    const scores = {
+      asContributor: Math.round(contributionPoints),
+      asProjectLeader: Math.max(
+        0,
+        Math.round(leadershipPoints - disputesAgainstAsLeader * penalty)
+      ),
+      asSponsor: Math.max(0, Math.round(stewardshipPoints - disputesAgainstAsSponsor * penalty)),
+    };
+
+    const badges = BADGE_RULES.filter((rule) => rule.earned(stats)).map((rule) => rule.id);
+
+    const previous = await this.prisma.reputations.findUnique({
+      where: { userId },
+    });
+
+    const data = {
+      ...scores,
+      totalProjects: stats.totalProjects,
+      successfulProj: stats.successfulProjects,
+      disputesRaised: stats.disputesRaised,
+      disputesAgainst: stats.disputesAgainst,
+      contributionPoints: new Prisma.Decimal(contributionPoints),
+      leadershipPoints: new Prisma.Decimal(leadershipPoints),
+      stewardshipPoints: new Prisma.Decimal(stewardshipPoints),
+      badges,
+      lastUpdated: new Date(),
+    };
+
+    const reputation = await this.prisma.reputations.upsert({
+      where: { userId },
+      create: { id: generateId(), userId, ...data },
+      update: data,
+    });
+
+    const changed =
+      !previous ||
+      previous.asContributor !== scores.asContributor ||
+      previous.asProjectLeader !== scores.asProjectLeader ||
+      previous.asSponsor !== scores.asSponsor ||
+      previous.disputesRaised !== stats.disputesRaised ||
+      previous.disputesAgainst !== stats.disputesAgainst ||
+      previous.badges.join(',') !== badges.join(',');
+
+    if (changed) {
+      const awarded = badges.filter((b) => !previous?.badges.includes(b));
+      const revoked = (previous?.badges ?? []).filter((b) => !badges.includes(b));
+
+      await this.eventService.emit({
+        actorId,
+        entityType: 'USER',
+        entityId: userId,
+        action: 'REPUTATION_UPDATED',
+        snapshot: {
+          ...scores,
+          stats,
+          badges,
+        },
+        metadata: {
+          trigger,
+          ...scores,
+          badgesAwarded: awarded,
+          badgesRevoked: revoked,
+        },
+      });
+    }
+
+    return reputation;
+  }
+
+  /**
+   * Recompute reputation for several users after a lifecycle event
+   */
+  async refresh(
+    userIds: (string | null | undefined)[],
+    actorId: string,
+    trigger: ReputationTrigger
+  ) {
+    const unique = [...new Set(userIds.filter((id): id is string => !!id))];
+
+    for (const userId of unique) {
+      try {
+        await this.recompute(userId, actorId, trigger);
+      } catch (error) {
+        logger.warn(`Reputation recompute failed for user ${userId} (${trigger}):`, error);
+      }
+    }
+  }
+
+  /**
+   * Recompute reputation for everyone involved in a challenge
+   * (sponsor, project leader, contributors and submitters)
+   */
+  async refreshChallenge(challengeId: string, actorId: string, trigger: ReputationTrigger) {
+    try {
+      const challenge = await this.prisma.challenges.findUnique({
+        where: { id: challengeId },
+        select: {
+          sponsorId: true,
+          projectLeaderId: true,
+          contributions: { select: { userId: true } },
+          submissions: { select: { contributorId: true } },
+        },
+      });
+
+      if (!challenge) {
+        return;
+      }
+
+      await this.refresh(
+        [
+          challenge.sponsorId,
+          challenge.projectLeaderId,
+          ...challenge.contributions.map((c) => c.userId),
+          ...challenge.submissions.map((s) => s.contributorId),
+        ],
+        actorId,
+        trigger
+      );
+    } catch (error) {
+      logger.warn(`Reputation refresh failed for challenge ${challengeId} (${trigger}):`, error);
+    }
+  }
+
+  /**
+   * Gather the counts reputation is derived from
+   */
+  private async collectStats(
+    userId: string
+  ): Promise<
+    ReputationStats & { disputesAgainstAsLeader: number; disputesAgainstAsSponsor: number }
+  > {
+    const notRaisedByUser = { category: DISPUTE_CATEGORY, raisedById: { not: userId } };
+
+    const [
+      approvedSubmissions,
+      contributed,
+      led,
+      sponsored,
+      payoutsApprovedAsLeader,
+      payoutsApprovedAsSponsor,
+      disputesRaised,
+      disputesAgainstAsLeader,
+      disputesAgainstAsSponsor,
+    ] = await Promise.all([
+      this.prisma.submissions.count({
+        where: { contributorId: userId, status: SubmissionStatus.APPROVED },
+      }),
+      this.prisma.challenges.findMany({
+        where: {
+          OR: [
+            { contributions: { some: { userId } } },
+            { submissions: { some: { contributorId: userId, status: SubmissionStatus.APPROVED } } },
+          ],
+        },
+        select: { id: true, status: true },
+      }),
+      this.prisma.challenges.findMany({
+        where: { projectLeaderId: userId },
+        select: { id: true, status: true },
+      }),
+      this.prisma.challenges.findMany({
+        where: { sponsorId: userId },
+        select: { id: true, status: true },
+      }),
+      this.prisma.payout_proposals.count({
+        where: { leaderId: userId, sponsorApproved: true },
+      }),
+      this.prisma.payout_proposals.count({
+        where: { sponsorApproved: true, challenges: { sponsorId: userId } },
+      }),
+      this.prisma.safety_incidents.count({
+        where: { category: DISPUTE_CATEGORY, raisedById: userId },
+      }),
+      this.prisma.safety_incidents.count({
+        where: { ...notRaisedByUser, challenges: { projectLeaderId: userId } },
+      }),
+      this.prisma.safety_incidents.count({
+        where: { ...notRaisedByUser, challenges: { sponsorId: userId } },
+      }),
+    ]);
+
+    const completed = (list: { status: ChallengeStatus }[]) =>
+      list.filter((c) => c.status === ChallengeStatus.COMPLETED).length;
+
+    const projects = new Map<string, ChallengeStatus>();
+    for (const challenge of [...contributed, ...led, ...sponsored]) {
+      projects.set(challenge.id, challenge.status);
+    }
+
+    return {
+      approvedSubmissions,
+      contributedCompleted: completed(contributed),
+      ledCompleted: completed(led),
+      sponsoredCompleted: completed(sponsored),
+      payoutsApprovedAsLeader,
+      payoutsApprovedAsSponsor,
+      totalProjects: projects.size,
+      successfulProjects: [...projects.values()].filter((s) => s === ChallengeStatus.COMPLETED)
+        .length,
+      disputesRaised,
+      disputesAgainst: disputesAgainstAsLeader + disputesAgainstAsSponsor,
+      disputesAgainstAsLeader,
+      disputesAgainstAsSponsor,
+    };
+  }
+}
@@ -0,0 +1,240 @@
+import { ReputationService, REPUTATION_POINTS } from '../ReputationService';
+import { EventService } from '../../events/EventService';
+import { ChallengeStatus } from '@prisma/client';
+import { NotFoundError } from '../../../types';
+import { SYSTEM_USER_ID } from '../../../config/systemActor';
+
+jest.mock('../../../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+  },
+}));
+
+describe('ReputationService', () => {
+  let service: ReputationService;
+  let mockPrisma: any;
+  let mockEventService: jest.Mocked<EventService>;
+
+  const userId = 'user-123';
+  const adminId = 'admin-123';
+
+  const completed = (id: string) => ({ id, status: ChallengeStatus.COMPLETED });
+  const inProgress = (id: string) => ({ id, status: ChallengeStatus.IN_PROGRESS });
+
+  /**
+   * Queue the results collectStats reads, in query order
+   */
+  const givenStats = (stats: {
+    approvedSubmissions?: number;
+    contributed?: { id: string; status: ChallengeStatus }[];
+    led?: { id: string; status: ChallengeStatus }[];
+    sponsored?: { id: string; status: ChallengeStatus }[];
+    payoutsAsLeader?: number;
+    payoutsAsSponsor?: number;
+    disputesRaised?: number;
+    againstAsLeader?: number;
+    againstAsSponsor?: number;
+  }) => {
+    mockPrisma.submissions.count.mockResolvedValue(stats.approvedSubmissions ?? 0);
+    mockPrisma.challenges.findMany
+      .mockResolvedValueOnce(stats.contributed ?? [])
+      .mockResolvedValueOnce(stats.led ?? [])
+      .mockResolvedValueOnce(stats.sponsored ?? []);
+    mockPrisma.payout_proposals.count
+      .mockResolvedValueOnce(stats.payoutsAsLeader ?? 0)
+      .mockResolvedValueOnce(stats.payoutsAsSponsor ?? 0);
+    mockPrisma.safety_incidents.count
+      .mockResolvedValueOnce(stats.disputesRaised ?? 0)
+      .mockResolvedValueOnce(stats.againstAsLeader ?? 0)
+      .mockResolvedValueOnce(stats.againstAsSponsor ?? 0);
+  };
+
+  const upserted = () => mockPrisma.reputations.upsert.mock.calls[0][0].update;
+
+  beforeEach(() => {
+    mockPrisma = {
+      users: {
+        findUnique: jest.fn(),
+      },
+      challenges: {
+        findUnique: jest.fn(),
+        findMany: jest.fn(),
+      },
+      submissions: {
+        count: jest.fn(),
+      },
+      payout_proposals: {
+        count: jest.fn(),
+      },
+      safety_incidents: {
+        count: jest.fn(),
+      },
+      reputations: {
+        findUnique: jest.fn(),
+        upsert: jest.fn(),
+      },
+    };
+
+    mockEventService = {
+      emit: jest.fn(),
+      getTrail: jest.fn(),
+      getByActor: jest.fn(),
+      getRecent: jest.fn(),
+    } as any;
+
+    service = new ReputationService(mockPrisma as any, mockEventService);
+    jest.clearAllMocks();
+
+    mockPrisma.reputations.upsert.mockImplementation(({ create }: any) => Promise.resolve(create));
+  });
+
+  describe('recompute()', () => {
+    it('should derive contributor points and badges from approved work', async () => {
+      givenStats({
+        approvedSubmissions: 2,
+        contributed: [completed('c1'), inProgress('c2')],
+      });
+      mockPrisma.reputations.findUnique.mockResolvedValue(null);
+
+      await service.recompute(userId, adminId, 'SUBMISSION_APPROVED');
+
+      const data = upserted();
+      const expected =
+        2 * REPUTATION_POINTS.SUBMISSION_APPROVED + REPUTATION_POINTS.CONTRIBUTED_COMPLETED;
+      expect(data.asContributor).toBe(expected);
+      expect(data.contributionPoints.toNumber()).toBe(expected);
+      expect(data.totalProjects).toBe(2);
+      expect(data.successfulProj).toBe(1);
+      expect(data.badges).toEqual(['FIRST_SUBMISSION', 'FINISHER']);
+    });
+
+    it('should apply dispute penalties to role scores without going below zero', async () => {
+      givenStats({
+        led: [completed('c1')],
+        sponsored: [inProgress('c2')],
+        againstAsLeader: 1,
+        againstAsSponsor: 2,
+      });
+      mockPrisma.reputations.findUnique.mockResolvedValue(null);
+
+      await service.recompute(userId, adminId, 'DISPUTE_RAISED');
+
+      const data = upserted();
+      expect(data.leadershipPoints.toNumber()).toBe(REPUTATION_POINTS.LED_COMPLETED);
+      expect(data.asProjectLeader).toBe(
+        REPUTATION_POINTS.LED_COMPLETED - REPUTATION_POINTS.DISPUTE_AGAINST_PENALTY
+      );
+      expect(data.asSponsor).toBe(0);
+      expect(data.disputesAgainst).toBe(3);
+    });
+
+    it('should revoke TRUSTED_LEADER once a dispute is raised against the leader', async () => {
+      givenStats({
+        led: [completed('c1'), completed('c2'), completed('c3')],
+        againstAsLeader: 1,
+      });
+      mockPrisma.reputations.findUnique.mockResolvedValue({
+        asContributor: 0,
+        asProjectLeader: 3 * REPUTATION_POINTS.LED_COMPLETED,
+        asSponsor: 0,
+        disputesRaised: 0,
+        disputesAgainst: 0,
+        badges: ['TRUSTED_LEADER'],
+      });
+
+      await service.recompute(userId, adminId, 'DISPUTE_RAISED');
+
+      expect(upserted().badges).not.toContain('TRUSTED_LEADER');
+      expect(mockEventService.emit).toHaveBeenCalledWith(
+        expect.objectContaining({
+          entityType: 'USER',
+          entityId: userId,
+          action: 'REPUTATION_UPDATED',
+          metadata: expect.objectContaining({
+            trigger: 'DISPUTE_RAISED',
+            badgesRevoked: ['TRUSTED_LEADER'],
+          }),
+        })
+      );
+    });
+
+    it('should not emit an event when nothing changed', async () => {
+      givenStats({ approvedSubmissions: 1 });
+      mockPrisma.reputations.findUnique.mockResolvedValue({
+        asContributor: REPUTATION_POINTS.SUBMISSION_APPROVED,
+        asProjectLeader: 0,
+        asSponsor: 0,
+        disputesRaised: 0,
+        disputesAgainst: 0,
+        badges: ['FIRST_SUBMISSION'],
+      });
+
+      await service.recompute(userId, adminId, 'SUBMISSION_APPROVED');
+
+      expect(mockPrisma.reputations.upsert).toHaveBeenCalled();
+      expect(mockEventService.emit).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getByUser()', () => {
+    it('should throw NotFoundError for unknown users', async () => {
+      mockPrisma.users.findUnique.mockResolvedValue(null);
+
+      await expect(service.getByUser(userId)).rejects.toThrow(NotFoundError);
+    });
+
+    it('should return the stored reputation without recomputing', async () => {
+      const stored = { userId, badges: [] };
+      mockPrisma.users.findUnique.mockResolvedValue({ id: userId });
+      mockPrisma.reputations.findUnique.mockResolvedValue(stored);
+
+      await expect(service.getByUser(userId)).resolves.toBe(stored);
+      expect(mockPrisma.reputations.upsert).not.toHaveBeenCalled();
+    });
+
+    it('should backfill reputation on first access as the system', async () => {
+      mockPrisma.users.findUnique.mockResolvedValue({ id: userId });
+      mockPrisma.reputations.findUnique.mockResolvedValue(null);
+      givenStats({});
+
+      await service.getByUser(userId);
+
+      expect(mockPrisma.reputations.upsert).toHaveBeenCalled();
+      expect(mockEventService.emit).toHaveBeenCalledWith(
+        expect.objectContaining({
+          actorId: SYSTEM_USER_ID,
+          entityId: userId,
+          metadata: expect.objectContaining({ trigger: 'BACKFILL' }),
+        })
+      );
+    });
+  });
+
+  describe('refreshChallenge()', () => {
+    it('should recompute each participant once and swallow failures', async () => {
+      mockPrisma.challenges.findUnique.mockResolvedValue({
+        sponsorId: 'sponsor-1',
+        projectLeaderId: 'leader-1',
+        contributions: [{ userId: 'user-1' }, { userId: 'user-1' }],
+        submissions: [{ contributorId: 'user-2' }],
+      });
+      const recompute = jest
+        .spyOn(service, 'recompute')
+        .mockRejectedValueOnce(new Error('db down'))
+        .mockResolvedValue({} as any);
+
+      await expect(
+        service.refreshChallenge('challenge-1', adminId, 'CHALLENGE_COMPLETED')
+      ).resolves.toBeUndefined();
+
+      expect(recompute.mock.calls.map((c) => c[0])).toEqual([
+        'sponsor-1',
+        'leader-1',
+        'user-1',
+        'user-2',
+      ]);
+    });
+  });
+});
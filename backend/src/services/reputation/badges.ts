@@ -0,0 +1,77 @@
+/**
+ * Reputation badges
+ *
+ * Badges are derived from the same stats as points on every recompute, so a
+ * badge whose rule stops holding (e.g. a dispute against a trusted leader) is
+ * removed again.
+ */
+
+export interface ReputationStats {
+  approvedSubmissions: number;
+  contributedCompleted: number;
+  ledCompleted: number;
+  sponsoredCompleted: number;
+  payoutsApprovedAsLeader: number;
+  payoutsApprovedAsSponsor: number;
+  totalProjects: number;
+  successfulProjects: number;
+  disputesRaised: number;
+  disputesAgainst: number;
+}
+
+export interface BadgeRule {
+  id: string;
+  label: string;
+  description: string;
+  earned: (stats: ReputationStats) => boolean;
+}
+
+export const BADGE_RULES: BadgeRule[] = [
+  {
+    id: 'FIRST_SUBMISSION',
+    label: 'First Submission',
+    description: 'Had a submission approved',
+    earned: (s) => s.approvedSubmissions >= 1,
+  },
+  {
+    id: 'PROLIFIC_CONTRIBUTOR',
+    label: 'Prolific Contributor',
+    description: 'Had 10 or more submissions approved',
+    earned: (s) => s.approvedSubmissions >= 10,
+  },
+  {
+    id: 'FINISHER',
+    label: 'Finisher',
+    description: 'Contributed to a completed challenge',
+    earned: (s) => s.contributedCompleted >= 1,
+  },
+  {
+    id: 'VETERAN',
+    label: 'Veteran',
+    description: 'Took part in 5 or more completed challenges',
+    earned: (s) => s.successfulProjects >= 5,
+  },
+  {
+    id: 'TRUSTED_LEADER',
+    label: 'Trusted Leader',
+    description: 'Led 3 or more completed challenges with no disputes against them',
+    earned: (s) => s.ledCompleted >= 3 && s.disputesAgainst === 0,
+  },
+  {
+    id: 'FAIR_PAYER',
+    label: 'Fair Payer',
+    description: 'Approved 3 or more payouts as a sponsor with no disputes against them',
+    earned: (s) => s.payoutsApprovedAsSponsor >= 3 && s.disputesAgainst === 0,
+  },
+  {
+    id: 'PATRON',
+    label: 'Patron',
+    description: 'Sponsored 3 or more completed challenges',
+    earned: (s) => s.sponsoredCompleted >= 3,
+  },
+];
+
+/**
+ * Look up a badge definition by ID
+ */
+export const getBadge = (id: string): BadgeRule | undefined => BADGE_RULES.find((b) => b.id === id);
@@ -0,0 +1,226 @@
+import crypto from 'crypto';
+import { generateId } from '../utils/idGenerator';
+import { prisma } from '../config/database';
+import { env } from '../config/env';
+import { AuthenticationError } from '../types';
+import { logger } from '../utils/logger';
+
+/**
+ * Why a session was ended; stored on the session for support and audit
+ */
+export type SessionRevokeReason =
+  | 'LOGOUT'
+  | 'LOGOUT_ALL'
+  | 'REVOKED_BY_USER'
+  | 'ROLE_CHANGED'
+  | 'PASSWORD_RESET'
+  | 'REFRESH_TOKEN_REUSED';
+
+/**
+ * Device details recorded when a session starts or refreshes
+ */
+export interface SessionContext {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+export interface SessionSummary {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: Date;
+  lastUsedAt: Date;
+  expiresAt: Date;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Session Service - Server-side sessions backing rotating refresh tokens
+ *
+ * Business Rules:
+ * - Each login starts a session (one per device); access tokens carry its id and
+ *   stop working as soon as the session is revoked
+ * - Refresh tokens are random, stored only as SHA-256 hashes, and rotate on every
+ *   use; a session stays alive for REFRESH_TOKEN_TTL_DAYS after it was last used
+ * - Presenting a refresh token that was already rotated means it leaked, so the
+ *   whole session is revoked
+ * - Sessions of deleted users go with them (ON DELETE CASCADE)
+ */
+export class SessionService {
+  /**
+   * Start a session for a user who has just authenticated
+   * @param userId - User ID
+   * @param context - Device details
+   * @returns Session ID and the refresh token to hand to the client
+   */
+  async create(
+    userId: string,
+    context: SessionContext = {}
+  ): Promise<{ sessionId: string; refreshToken: string }> {
+    const now = new Date();
+    const refreshToken = this.generateRefreshToken();
+
+    // Clear out this user's sessions that can no longer be refreshed
+    await prisma.user_sessions.deleteMany({ where: { userId, expiresAt: { lt: now } } });
+
+    const session = await prisma.user_sessions.create({
+      data: {
+        id: generateId(),
+        userId,
+        refreshTokenHash: this.hashToken(refreshToken),
+        userAgent: context.userAgent ?? null,
+        ipAddress: context.ipAddress ?? null,
+        expiresAt: this.expiryFrom(now),
+      },
+    });
+
+    return { sessionId: session.id, refreshToken };
+  }
+
+  /**
+   * Exchange a refresh token for a new one
+   * @param refreshToken - Refresh token from the client
+   * @param context - Device details
+   * @returns The session's user and ID, and the replacement refresh token
+   */
+  async rotate(
+    refreshToken: string,
+    context: SessionContext = {}
+  ): Promise<{ sessionId: string; userId: string; refreshToken: string }> {
+    const hash = this.hashToken(refreshToken);
+    const now = new Date();
+
+    const session = await prisma.user_sessions.findFirst({
+      where: { OR: [{ refreshTokenHash: hash }, { previousTokenHash: hash }] },
+    });
+
+    if (!session) {
+      throw new AuthenticationError('Invalid refresh token');
+    }
+
+    if (session.refreshTokenHash !== hash) {
+      if (!session.revokedAt) {
+        await this.revokeSession(session.id, 'REFRESH_TOKEN_REUSED');
+        logger.warn(`Refresh token reused for session ${session.id}; session revoked`);
+      }
+      throw new AuthenticationError('Session revoked, please log in again');
+    }
+
+    if (session.revokedAt || session.expiresAt <= now) {
+      throw new AuthenticationError('Session expired, please log in again');
+    }
+
+    const next = this.generateRefreshToken();
+
+    // Only rotate from the token we read, so two concurrent refreshes cannot both succeed
+    const rotated = await prisma.user_sessions.updateMany({
+      where: { id: session.id, refreshTokenHash: hash, revokedAt: null },
+      data: {
+        refreshTokenHash: this.hashToken(next),
+        previousTokenHash: hash,
+        lastUsedAt: now,
+        expiresAt: this.expiryFrom(now),
+        ...(context.userAgent && { userAgent: context.userAgent }),
+        ...(context.ipAddress && { ipAddress: context.ipAddress }),
+      },
+    });
+
+    if (rotated.count === 0) {
+      throw new AuthenticationError('Refresh token already used');
+    }
+
+    return { sessionId: session.id, userId: session.userId, refreshToken: next };
+  }
+
+  /**
+   * Whether an access token's session is still live
+   * @param sessionId - Session ID from the access token
+   * @param userId - User ID from the access token
+   */
+  async isActive(sessionId: string, userId: string): Promise<boolean> {
+    const session = await prisma.user_sessions.findUnique({
+      where: { id: sessionId },
+      select: { userId: true, revokedAt: true, expiresAt: true },
+    });
+
+    return (
+      !!session && session.userId === userId && !session.revokedAt && session.expiresAt > new Date()
+    );
+  }
+
+  /**
+   * List a user's active sessions, most recently used first
+   * @param userId - User ID
+   */
+  async listActive(userId: string): Promise<SessionSummary[]> {
+    return prisma.user_sessions.findMany({
+      where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+      select: {
+        id: true,
+        userAgent: true,
+        ipAddress: true,
+        createdAt: true,
+        lastUsedAt: true,
+        expiresAt: true,
+      },
+      orderBy: { lastUsedAt: 'desc' },
+    });
+  }
+
+  /**
+   * Revoke one of a user's sessions
+   * @param sessionId - Session ID
+   * @param userId - Owner of the session
+   * @param reason - Why the session ended
+   * @returns Whether an active session was revoked
+   */
+  async revoke(sessionId: string, userId: string, reason: SessionRevokeReason): Promise<boolean> {
+    const { count } = await prisma.user_sessions.updateMany({
+      where: { id: sessionId, userId, revokedAt: null },
+      data: { revokedAt: new Date(), revokedReason: reason },
+    });
+
+    return count > 0;
+  }
+
+  /**
+   * Revoke every active session of a user
+   * @param userId - User ID
+   * @param reason - Why the sessions ended
+   * @returns Number of sessions revoked
+   */
+  async revokeAll(userId: string, reason: SessionRevokeReason): Promise<number> {
+    const { count } = await prisma.user_sessions.updateMany({
+      where: { userId, revokedAt: null },
+      data: { revokedAt: new Date(), revokedReason: reason },
+    });
+
+    if (count > 0) {
+      logger.info(`Revoked ${count} session(s) for user ${userId} (${reason})`);
+    }
+
+    return count;
+  }
+
+  private async revokeSession(sessionId: string, reason: SessionRevokeReason): Promise<void> {
+    await prisma.user_sessions.update({
+      where: { id: sessionId },
+      data: { revokedAt: new Date(), revokedReason: reason },
+    });
+  }
+
+  private generateRefreshToken(): string {
+    return crypto.randomBytes(32).toString('base64url');
+  }
+
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  private expiryFrom(date: Date): Date {
+    return new Date(date.getTime() + env.REFRESH_TOKEN_TTL_DAYS * DAY_MS);
+  }
+}
+
+export const sessionService = new SessionService();
@@ -0,0 +1,126 @@
+import crypto from 'crypto';
+
+/**
+ * Detached Ed25519 signatures for evidence PDFs
+ *
+ * The signature covers the raw PDF bytes and travels next to the file as a
+ * small JSON document, so anyone holding the PDF, the signature and the
+ * published public key can check it without asking our database.
+ *
+ * This module has no config or database imports on purpose: the offline
+ * verification script uses it directly.
+ */
+
+export const EVIDENCE_SIGNATURE_ALGORITHM = 'Ed25519';
+export const EVIDENCE_SIGNATURE_VERSION = 1;
+
+export interface EvidenceSignature {
+  version: number;
+  algorithm: string;
+  keyId: string;
+  sha256: string;
+  signature: string; // base64
+}
+
+export interface EvidencePublicKey {
+  algorithm: string;
+  keyId: string;
+  publicKey: string; // SPKI PEM
+  jwk: crypto.JsonWebKey;
+}
+
+export interface SignatureVerification {
+  valid: boolean;
+  keyId: string | null;
+  sha256: string;
+  reason?: string;
+}
+
+/**
+ * Short, stable identifier for a public key: first 16 hex chars of the SHA-256
+ * of its SPKI DER encoding
+ */
+export const computeKeyId = (publicKey: crypto.KeyObject): string =>
+  crypto
+    .createHash('sha256')
+    .update(publicKey.export({ type: 'spki', format: 'der' }))
+    .digest('hex')
+    .substring(0, 16);
+
+export class EvidenceSigner {
+  readonly keyId: string;
+  private publicKey: crypto.KeyObject;
+
+  constructor(private privateKey: crypto.KeyObject) {
+    if (privateKey.type !== 'private' || privateKey.asymmetricKeyType !== 'ed25519') {
+      throw new Error('Evidence signing key must be an Ed25519 private key');
+    }
+    this.publicKey = crypto.createPublicKey(privateKey);
+    this.keyId = computeKeyId(this.publicKey);
+  }
+
+  /**
+   * Load a PKCS#8 PEM private key. Escaped newlines (as found in .env files) are accepted.
+   */
+  static fromPem(pem: string): EvidenceSigner {
+    return new EvidenceSigner(crypto.createPrivateKey(pem.replace(/\\n/g, '\n')));
+  }
+
+  /**
+   * Public key document served at /.well-known/evidence-signing-key.json
+   */
+  getPublicKey(): EvidencePublicKey {
+    return {
+      algorithm: EVIDENCE_SIGNATURE_ALGORITHM,
+      keyId: this.keyId,
+      publicKey: this.publicKey.export({ type: 'spki', format: 'pem' }).toString(),
+      jwk: { ...this.publicKey.export({ format: 'jwk' }), kid: this.keyId },
+    };
+  }
+
+  sign(pdf: Buffer): EvidenceSignature {
+    return {
+      version: EVIDENCE_SIGNATURE_VERSION,
+      algorithm: EVIDENCE_SIGNATURE_ALGORITHM,
+      keyId: this.keyId,
+      sha256: crypto.createHash('sha256').update(pdf).digest('hex'),
+      signature: crypto.sign(null, pdf, this.privateKey).toString('base64'),
+    };
+  }
+}
+
+/**
+ * Check a detached signature against a PDF and a public key (PEM or KeyObject).
+ * Only the key and the two files are trusted; nothing is looked up.
+ */
+export const verifyEvidenceSignature = (
+  pdf: Buffer,
+  signature: EvidenceSignature,
+  publicKey: string | crypto.KeyObject
+): SignatureVerification => {
+  const sha256 = crypto.createHash('sha256').update(pdf).digest('hex');
+  const key = typeof publicKey === 'string' ? crypto.createPublicKey(publicKey) : publicKey;
+  const keyId = computeKeyId(key);
+  const result = (valid: boolean, reason?: string): SignatureVerification => ({
+    valid,
+    keyId,
+    sha256,
+    ...(reason && { reason }),
+  });
+
+  if (!signature || typeof signature.signature !== 'string') {
+    return result(false, 'Signature file is malformed');
+  }
+  if (signature.algorithm !== EVIDENCE_SIGNATURE_ALGORITHM) {
+    return result(false, `Unsupported signature algorithm: ${signature.algorithm}`);
+  }
+  if (signature.keyId !== keyId) {
+    return result(false, `Signed with key ${signature.keyId}, not ${keyId}`);
+  }
+  if (signature.sha256 !== sha256) {
+    return result(false, 'PDF does not match the signed SHA-256 hash');
+  }
+
+  const valid = crypto.verify(null, pdf, key, Buffer.from(signature.signature, 'base64'));
+  return valid ? result(true) : result(false, 'Signature does not match the PDF');
+};
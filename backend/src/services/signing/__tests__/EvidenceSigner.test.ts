@@ -0,0 +1,69 @@
+import crypto from 'crypto';
+import { EvidenceSigner, verifyEvidenceSignature } from '../EvidenceSigner';
+
+describe('EvidenceSigner', () => {
+  const { privateKey } = crypto.generateKeyPairSync('ed25519');
+  const signer = new EvidenceSigner(privateKey);
+  const pdf = Buffer.from('%PDF-1.4 evidence package');
+
+  it('should produce a signature that verifies with the published key only', () => {
+    const signature = signer.sign(pdf);
+    const { publicKey, keyId } = signer.getPublicKey();
+
+    expect(signature).toMatchObject({ version: 1, algorithm: 'Ed25519', keyId });
+    expect(signature.sha256).toBe(crypto.createHash('sha256').update(pdf).digest('hex'));
+    expect(verifyEvidenceSignature(pdf, signature, publicKey)).toEqual({
+      valid: true,
+      keyId,
+      sha256: signature.sha256,
+    });
+  });
+
+  it('should reject a modified PDF', () => {
+    const signature = signer.sign(pdf);
+    const tampered = Buffer.concat([pdf, Buffer.from(' ')]);
+
+    const result = verifyEvidenceSignature(tampered, signature, signer.getPublicKey().publicKey);
+
+    expect(result.valid).toBe(false);
+    expect(result.reason).toBe('PDF does not match the signed SHA-256 hash');
+  });
+
+  it('should reject a signature whose hash was rewritten to match another PDF', () => {
+    const other = Buffer.from('%PDF-1.4 forged package');
+    const forged = {
+      ...signer.sign(pdf),
+      sha256: crypto.createHash('sha256').update(other).digest('hex'),
+    };
+
+    const result = verifyEvidenceSignature(other, forged, signer.getPublicKey().publicKey);
+
+    expect(result.valid).toBe(false);
+    expect(result.reason).toBe('Signature does not match the PDF');
+  });
+
+  it('should reject signatures made with a different key', () => {
+    const otherSigner = new EvidenceSigner(crypto.generateKeyPairSync('ed25519').privateKey);
+
+    const result = verifyEvidenceSignature(
+      pdf,
+      otherSigner.sign(pdf),
+      signer.getPublicKey().publicKey
+    );
+
+    expect(result.valid).toBe(false);
+    expect(result.reason).toContain(`Signed with key ${otherSigner.keyId}`);
+  });
+
+  it('should load PEM keys with escaped newlines', () => {
+    const pem = privateKey.export({ type: 'pkcs8', format: 'pem' }).toString();
+
+    expect(EvidenceSigner.fromPem(pem.replace(/\n/g, '\\n')).keyId).toBe(signer.keyId);
+  });
+
+  it('should refuse keys that are not Ed25519', () => {
+    const { privateKey: ecKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+
+    expect(() => new EvidenceSigner(ecKey)).toThrow('Ed25519');
+  });
+});
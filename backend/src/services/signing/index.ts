@@ -0,0 +1,22 @@
+import { env, EnvConfig } from '../../config/env';
+import { EvidenceSigner } from './EvidenceSigner';
+
+export * from './EvidenceSigner';
+
+let sharedSigner: EvidenceSigner | null | undefined;
+
+/**
+ * Build the evidence signer from EVIDENCE_SIGNING_KEY; null when signing is not configured
+ */
+export const createEvidenceSigner = (config: EnvConfig = env): EvidenceSigner | null =>
+  config.EVIDENCE_SIGNING_KEY ? EvidenceSigner.fromPem(config.EVIDENCE_SIGNING_KEY) : null;
+
+/**
+ * Process-wide evidence signer, created on first use
+ */
+export const getEvidenceSigner = (): EvidenceSigner | null => {
+  if (sharedSigner === undefined) {
+    sharedSigner = createEvidenceSigner();
+  }
+  return sharedSigner;
+};
@@ -0,0 +1,138 @@
+import crypto from 'crypto';
+import { generateId } from '../utils/idGenerator';
+import { prisma } from '../config/database';
+import { env } from '../config/env';
+import { AuthenticationError, AuthorizationError, ValidationError } from '../types';
+import { walletService } from './wallet.service';
+import { logger } from '../utils/logger';
+
+/**
+ * LOGIN signs in to the account linked to the wallet;
+ * LINK proves ownership before linking the wallet to the signed-in account
+ */
+export type SiwePurpose = 'LOGIN' | 'LINK';
+
+const STATEMENTS: Record<SiwePurpose, string> = {
+  LOGIN: 'Sign in to Oddly Brilliant.',
+  LINK: 'Link this wallet to your Oddly Brilliant account.',
+};
+
+const DEFAULT_CHAIN_ID = 1;
+
+/**
+ * Sign-In with Ethereum Service - Issues and verifies EIP-4361 messages
+ *
+ * Business Rules:
+ * - The server writes the whole message and stores it with its nonce; only
+ *   that exact message is accepted back
+ * - Nonces expire after SIWE_NONCE_TTL_SECONDS and can be used once, whether
+ *   or not the signature turns out to be valid
+ * - LINK nonces are bound to the user who requested them
+ * - Failed LOGINs are authentication errors (401); failed LINKs are
+ *   authorization errors (403) so the signed-in session is kept
+ */
+export class SiweService {
+  /**
+   * Issue a nonce and the message the wallet should sign
+   * @param params - Wallet address, chain and purpose; userId is required to LINK
+   * @returns Nonce, message to sign and when it expires
+   */
+  async issueNonce(params: {
+    address: string;
+    chainId?: number;
+    purpose: SiwePurpose;
+    userId?: string;
+  }): Promise<{ nonce: string; message: string; expiresAt: Date }> {
+    if (params.purpose === 'LINK' && !params.userId) {
+      throw new AuthenticationError('Sign in before linking a wallet');
+    }
+
+    const address = walletService.checksumAddress(params.address);
+    const nonce = crypto.randomBytes(16).toString('hex');
+    const issuedAt = new Date();
+    const expiresAt = new Date(issuedAt.getTime() + env.SIWE_NONCE_TTL_SECONDS * 1000);
+    const uri = new URL(env.SIWE_URI);
+
+    const message = walletService.generateSiweMessage({
+      domain: uri.host,
+      address,
+      statement: STATEMENTS[params.purpose],
+      uri: uri.origin,
+      chainId: params.chainId ?? DEFAULT_CHAIN_ID,
+      nonce,
+      issuedAt,
+      expiresAt,
+    });
+
+    // Expired nonces are useless; clear them out as new ones are issued
+    await prisma.wallet_nonces.deleteMany({ where: { expiresAt: { lt: issuedAt } } });
+
+    await prisma.wallet_nonces.create({
+      data: {
+        id: generateId(),
+        nonce,
+        address,
+        purpose: params.purpose,
+        userId: params.userId ?? null,
+        message,
+        expiresAt,
+      },
+    });
+
+    return { nonce, message, expiresAt };
+  }
+
+  /**
+   * Verify a signed message and consume its nonce
+   * @param message - Message exactly as issued
+   * @param signature - Wallet signature over the message
+   * @param expected - Purpose the nonce was issued for, and the user for LINK
+   * @returns Checksummed address that signed the message
+   */
+  async verify(
+    message: string,
+    signature: string,
+    expected: { purpose: SiwePurpose; userId?: string }
+  ): Promise<string> {
+    const nonce = /^Nonce: ([a-zA-Z0-9]+)$/m.exec(message || '')?.[1];
+
+    if (!nonce) {
+      throw new ValidationError('Malformed sign-in message');
+    }
+
+    // Claim the nonce first so a replayed message fails even if verified concurrently
+    const now = new Date();
+    const claimed = await prisma.wallet_nonces.updateMany({
+      where: { nonce, usedAt: null, expiresAt: { gt: now } },
+      data: { usedAt: now },
+    });
+
+    if (claimed.count === 0) {
+      throw this.rejection(expected.purpose, 'Sign-in request expired or already used');
+    }
+
+    const record = await prisma.wallet_nonces.findUnique({ where: { nonce } });
+
+    if (!record || record.message !== message) {
+      throw this.rejection(expected.purpose, 'Sign-in message does not match the issued request');
+    }
+
+    if (record.purpose !== expected.purpose || record.userId !== (expected.userId ?? null)) {
+      throw this.rejection(expected.purpose, 'Sign-in request was issued for a different purpose');
+    }
+
+    if (!walletService.verifySignature(message, signature, record.address)) {
+      throw this.rejection(expected.purpose, 'Signature does not match the wallet address');
+    }
+
+    logger.info(`Wallet signature verified for ${record.address} (${record.purpose})`);
+
+    return record.address;
+  }
+
+  private rejection(purpose: SiwePurpose, message: string): Error {
+    return purpose === 'LINK' ? new AuthorizationError(message) : new AuthenticationError(message);
+  }
+}
+
+export const siweService = new SiweService();
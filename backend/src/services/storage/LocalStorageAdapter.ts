@@ -0,0 +1,56 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { StorageAdapter, StorageNotFoundError, assertValidKey } from './StorageAdapter';
+
+/**
+ * LocalStorageAdapter - Stores blobs as files under a root directory
+ */
+export class LocalStorageAdapter implements StorageAdapter {
+  readonly driver = 'local' as const;
+
+  constructor(private rootDir: string) {}
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const fullPath = this.resolve(key);
+    await fs.mkdir(path.dirname(fullPath), { recursive: true });
+    await fs.writeFile(fullPath, data);
+  }
+
+  async get(key: string): Promise<Buffer> {
+    try {
+      return await fs.readFile(this.resolve(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new StorageNotFoundError(key);
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await fs.unlink(this.resolve(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      await fs.access(this.resolve(key));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Map a key to a path inside the root directory
+   */
+  private resolve(key: string): string {
+    assertValidKey(key);
+    return path.join(this.rootDir, ...key.split('/'));
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * StorageAdapter - Blob storage backend used for uploaded files and evidence packs
+ *
+ * Keys are forward-slash separated relative paths (e.g. `evidence/pkg-123.pdf`).
+ * Implementations must treat them the same way so records stay portable between
+ * backends.
+ */
+export type StorageDriver = 'local' | 's3';
+
+export interface StorageAdapter {
+  readonly driver: StorageDriver;
+
+  /**
+   * Store a blob under the given key, replacing any existing blob
+   */
+  put(key: string, data: Buffer, contentType?: string): Promise<void>;
+
+  /**
+   * Read a blob. Throws StorageNotFoundError if the key does not exist
+   */
+  get(key: string): Promise<Buffer>;
+
+  /**
+   * Remove a blob. Missing keys are ignored
+   */
+  delete(key: string): Promise<void>;
+
+  /**
+   * Check whether a blob exists
+   */
+  exists(key: string): Promise<boolean>;
+}
+
+/**
+ * Raised when a key is not present in the backend
+ */
+export class StorageNotFoundError extends Error {
+  constructor(public key: string) {
+    super(`Storage object not found: ${key}`);
+    this.name = 'StorageNotFoundError';
+  }
+}
+
+/**
+ * Reject keys that are empty, absolute or try to escape the storage root
+ */
+export const assertValidKey = (key: string): void => {
+  if (
+    !key ||
+    key.startsWith('/') ||
+    key.includes('\\') ||
+    key.split('/').some((segment) => segment === '' || segment === '.' || segment === '..')
+  ) {
+    throw new Error(`Invalid storage key: ${key}`);
+  }
+};
@@ -0,0 +1,49 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { LocalStorageAdapter } from '../LocalStorageAdapter';
+import { StorageNotFoundError } from '../StorageAdapter';
+
+describe('LocalStorageAdapter', () => {
+  let rootDir: string;
+  let storage: LocalStorageAdapter;
+
+  beforeEach(async () => {
+    rootDir = await fs.mkdtemp(path.join(os.tmpdir(), 'storage-test-'));
+    storage = new LocalStorageAdapter(rootDir);
+  });
+
+  afterEach(async () => {
+    await fs.rm(rootDir, { recursive: true, force: true });
+  });
+
+  it('should write nested keys under the root directory and read them back', async () => {
+    await storage.put('evidence/pkg-1.pdf', Buffer.from('pdf bytes'));
+
+    const onDisk = await fs.readFile(path.join(rootDir, 'evidence', 'pkg-1.pdf'));
+    expect(onDisk.toString()).toBe('pdf bytes');
+    expect((await storage.get('evidence/pkg-1.pdf')).toString()).toBe('pdf bytes');
+    expect(await storage.exists('evidence/pkg-1.pdf')).toBe(true);
+  });
+
+  it('should throw StorageNotFoundError for missing keys', async () => {
+    await expect(storage.get('missing.txt')).rejects.toThrow(StorageNotFoundError);
+    expect(await storage.exists('missing.txt')).toBe(false);
+  });
+
+  it('should delete blobs and ignore keys that are already gone', async () => {
+    await storage.put('user-1/file.txt', Buffer.from('x'));
+
+    await storage.delete('user-1/file.txt');
+    await storage.delete('user-1/file.txt');
+
+    expect(await storage.exists('user-1/file.txt')).toBe(false);
+  });
+
+  it('should reject keys that escape the root directory', async () => {
+    await expect(storage.put('../outside.txt', Buffer.from('x'))).rejects.toThrow(
+      'Invalid storage key'
+    );
+    await expect(storage.get('/etc/passwd')).rejects.toThrow('Invalid storage key');
+  });
+});
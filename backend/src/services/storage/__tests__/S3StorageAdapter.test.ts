@@ -0,0 +1,143 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { S3StorageAdapter } from '../S3StorageAdapter';
+import { StorageNotFoundError } from '../StorageAdapter';
+
+/**
+ * Minimal MinIO-style stand-in: path-style PUT/GET/HEAD/DELETE on one bucket
+ */
+const startFakeS3 = async (bucket: string) => {
+  const objects = new Map<string, { body: Buffer; contentType?: string }>();
+  const requests: { method: string; url: string }[] = [];
+
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const [, requestBucket, ...keyParts] = url.pathname.split('/');
+    const key = decodeURIComponent(keyParts.join('/'));
+    requests.push({ method: req.method || '', url: url.pathname });
+
+    if (requestBucket !== bucket) {
+      res.writeHead(404, { 'Content-Type': 'application/xml' });
+      res.end('<Error><Code>NoSuchBucket</Code><Message>No such bucket</Message></Error>');
+      return;
+    }
+
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk) => chunks.push(chunk));
+    req.on('end', () => {
+      const object = objects.get(key);
+
+      switch (req.method) {
+        case 'PUT':
+          objects.set(key, {
+            body: Buffer.concat(chunks),
+            contentType: req.headers['content-type'],
+          });
+          res.writeHead(200, { ETag: '"etag"' });
+          res.end();
+          return;
+        case 'GET':
+        case 'HEAD':
+          if (!object) {
+            res.writeHead(404, { 'Content-Type': 'application/xml' });
+            res.end(
+              req.method === 'GET'
+                ? '<Error><Code>NoSuchKey</Code><Message>Not found</Message></Error>'
+                : undefined
+            );
+            return;
+          }
+          res.writeHead(200, {
+            'Content-Type': object.contentType || 'application/octet-stream',
+            'Content-Length': object.body.length,
+          });
+          res.end(req.method === 'GET' ? object.body : undefined);
+          return;
+        case 'DELETE':
+          objects.delete(key);
+          res.writeHead(204);
+          res.end();
+          return;
+        default:
+          res.writeHead(405);
+          res.end();
+      }
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    endpoint: `http://127.0.0.1:${port}`,
+    objects,
+    requests,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+};
+
+describe('S3StorageAdapter', () => {
+  const bucket = 'evidence-test';
+  let fakeS3: Awaited<ReturnType<typeof startFakeS3>>;
+  let storage: S3StorageAdapter;
+
+  beforeAll(async () => {
+    fakeS3 = await startFakeS3(bucket);
+  });
+
+  afterAll(async () => {
+    await fakeS3.close();
+  });
+
+  beforeEach(() => {
+    fakeS3.objects.clear();
+    fakeS3.requests.length = 0;
+    storage = new S3StorageAdapter({
+      bucket,
+      region: 'us-east-1',
+      endpoint: fakeS3.endpoint,
+      accessKeyId: 'minioadmin',
+      secretAccessKey: 'minioadmin',
+      forcePathStyle: true,
+    });
+  });
+
+  it('should upload with path-style addressing and read the object back', async () => {
+    await storage.put('evidence/pkg-1.pdf', Buffer.from('pdf bytes'), 'application/pdf');
+
+    expect(fakeS3.requests[0]).toEqual({ method: 'PUT', url: `/${bucket}/evidence/pkg-1.pdf` });
+    expect(fakeS3.objects.get('evidence/pkg-1.pdf')).toEqual({
+      body: Buffer.from('pdf bytes'),
+      contentType: 'application/pdf',
+    });
+
+    const buffer = await storage.get('evidence/pkg-1.pdf');
+    expect(buffer.toString()).toBe('pdf bytes');
+  });
+
+  it('should report existence via HEAD', async () => {
+    await storage.put('user-1/file.txt', Buffer.from('x'));
+
+    expect(await storage.exists('user-1/file.txt')).toBe(true);
+    expect(await storage.exists('user-1/other.txt')).toBe(false);
+  });
+
+  it('should map missing objects to StorageNotFoundError', async () => {
+    await expect(storage.get('missing.txt')).rejects.toThrow(StorageNotFoundError);
+  });
+
+  it('should delete objects', async () => {
+    await storage.put('user-1/file.txt', Buffer.from('x'));
+
+    await storage.delete('user-1/file.txt');
+
+    expect(fakeS3.objects.has('user-1/file.txt')).toBe(false);
+  });
+
+  it('should reject keys that escape the bucket prefix', async () => {
+    await expect(storage.put('../outside.txt', Buffer.from('x'))).rejects.toThrow(
+      'Invalid storage key'
+    );
+    expect(fakeS3.requests).toHaveLength(0);
+  });
+});
@@ -0,0 +1,39 @@
+import { env, EnvConfig } from '../../config/env';
+import { StorageAdapter } from './StorageAdapter';
+import { LocalStorageAdapter } from './LocalStorageAdapter';
+import { S3StorageAdapter } from './S3StorageAdapter';
+
+export * from './StorageAdapter';
+export { LocalStorageAdapter } from './LocalStorageAdapter';
+export { S3StorageAdapter } from './S3StorageAdapter';
+export type { S3StorageConfig } from './S3StorageAdapter';
+
+let sharedAdapter: StorageAdapter | null = null;
+
+/**
+ * Build a storage adapter from the STORAGE_* / S3_* environment settings
+ */
+export const createStorageAdapter = (config: EnvConfig = env): StorageAdapter => {
+  if (config.STORAGE_DRIVER === 's3') {
+    return new S3StorageAdapter({
+      bucket: config.S3_BUCKET,
+      region: config.S3_REGION,
+      endpoint: config.S3_ENDPOINT,
+      accessKeyId: config.S3_ACCESS_KEY_ID,
+      secretAccessKey: config.S3_SECRET_ACCESS_KEY,
+      forcePathStyle: config.S3_FORCE_PATH_STYLE,
+    });
+  }
+
+  return new LocalStorageAdapter(config.STORAGE_LOCAL_DIR);
+};
+
+/**
+ * Process-wide storage adapter, created on first use
+ */
+export const getStorageAdapter = (): StorageAdapter => {
+  if (!sharedAdapter) {
+    sharedAdapter = createStorageAdapter();
+  }
+  return sharedAdapter;
+};
@@ -1,6 +1,7 @@
 import { PrismaClient, SubmissionStatus, ProposalStatus } from '@prisma/client';
 import { generateId } from '../../utils/idGenerator';
 import { EventService } from '../events/EventService';
+import { SafetyService } from '../ai/safety/SafetyService';
 import { FileUploadService, FileMetadata } from '../uploads/FileUploadService';
 import { CreateSubmissionDTO } from '../../types';
 import {
@@ -17,6 +18,8 @@ import { logger } from '../../utils/logger';
  * Business Rules:
  * - Only accepted proposal contributors can create submissions for a challenge
  * - Submissions start in DRAFT status
+ * - Title and description are moderated before they are stored; QUARANTINED
+ *   submissions are hidden from the challenge's list and cannot be submitted
  * - Contributors can submit (DRAFT → SUBMITTED)
  * - Only Project Leaders can review submissions
  * - Review actions: APPROVE, REJECT, REQUEST_REVISION
@@ -28,7 +31,8 @@ export class SubmissionService {
 
   constructor(
     private prisma: PrismaClient,
-    private eventService: EventService
+    private eventService: EventService,
+    private safetyService: SafetyService = new SafetyService(prisma)
   ) {
     this.fileUploadService = new FileUploadService();
   }
@@ -84,16 +88,27 @@ export class SubmissionService {
       );
     }
 
+    // Moderate the text before it is visible to the Project Leader
+    const submissionId = generateId();
+    const { moderationStatus, incidentId } = await this.safetyService.moderateOnWrite({
+      content: `${data.title}\n\n${data.description}`,
+      entityType: 'SUBMISSION',
+      entityId: submissionId,
+      authorId: contributorId,
+      challengeId: data.challengeId,
+    });
+
     // Create submission
     const submission = await this.prisma.submissions.create({
       data: {
-        id: generateId(),
+        id: submissionId,
         challengeId: data.challengeId,
         contributorId,
         proposalId: data.proposalId || acceptedProposal.id,
         title: data.title,
         description: data.description,
         status: SubmissionStatus.DRAFT,
+        moderationStatus,
       },
       include: {
         challenges: {
@@ -129,6 +144,8 @@ export class SubmissionService {
         challengeId: data.challengeId,
         proposalId: submission.proposalId,
         status: submission.status,
+        moderationStatus,
+        incidentId: incidentId || null,
       },
     });
 
@@ -286,6 +303,11 @@ export class SubmissionService {
       throw new ValidationError('Can only submit DRAFT or REVISION_REQUESTED submissions');
     }
 
+    // Quarantined submissions wait for a moderator
+    if (submission.moderationStatus === 'QUARANTINED') {
+      throw new ValidationError('This submission is held for moderation review');
+    }
+
     // Update submission
     const updatedSubmission = await this.prisma.submissions.update({
       where: { id: submissionId },
@@ -726,7 +748,7 @@ export class SubmissionService {
    */
   async getByChallenge(challengeId: string) {
     const submissions = await this.prisma.submissions.findMany({
-      where: { challengeId },
+      where: { challengeId, moderationStatus: { not: 'QUARANTINED' } },
       orderBy: { createdAt: 'desc' },
       include: {
         challenges: {
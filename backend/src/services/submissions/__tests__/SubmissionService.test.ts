@@ -17,6 +17,7 @@ describe('SubmissionService', () => {
   let submissionService: SubmissionService;
   let mockPrisma: jest.Mocked<PrismaClient>;
   let mockEventService: jest.Mocked<EventService>;
+  let mockSafetyService: any;
 
   // Test data
   const mockUserId = 'user-123';
@@ -111,8 +112,13 @@ describe('SubmissionService', () => {
       emit: jest.fn().mockResolvedValue({}),
     } as any;
 
+    // Create mock safety service (content passes moderation unless a test says otherwise)
+    mockSafetyService = {
+      moderateOnWrite: jest.fn().mockResolvedValue({ moderationStatus: 'CLEAR' }),
+    };
+
     // Create service instance
-    submissionService = new SubmissionService(mockPrisma, mockEventService);
+    submissionService = new SubmissionService(mockPrisma, mockEventService, mockSafetyService);
 
     // Mock generateId
     (generateId as jest.Mock).mockReturnValue(mockSubmissionId);
@@ -147,6 +153,36 @@ describe('SubmissionService', () => {
       );
     });
 
+    it('should moderate title and description and quarantine auto-blocked content', async () => {
+      mockPrisma.challenges.findUnique.mockResolvedValue(mockChallenge as any);
+      mockPrisma.proposals.findFirst.mockResolvedValue(mockProposal as any);
+      mockPrisma.submissions.findFirst.mockResolvedValue(null);
+      mockPrisma.submissions.create.mockResolvedValue(mockSubmission as any);
+      mockSafetyService.moderateOnWrite.mockResolvedValue({
+        moderationStatus: 'QUARANTINED',
+        incidentId: 'incident-123',
+      });
+
+      await submissionService.create(mockUserId, {
+        challengeId: mockChallengeId,
+        title: 'Test Submission',
+        description: 'Test submission description',
+      });
+
+      expect(mockSafetyService.moderateOnWrite).toHaveBeenCalledWith({
+        content: 'Test Submission\n\nTest submission description',
+        entityType: 'SUBMISSION',
+        entityId: mockSubmissionId,
+        authorId: mockUserId,
+        challengeId: mockChallengeId,
+      });
+      expect(mockPrisma.submissions.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ id: mockSubmissionId, moderationStatus: 'QUARANTINED' }),
+        })
+      );
+    });
+
     it('should throw NotFoundError if challenge does not exist', async () => {
       mockPrisma.challenges.findUnique.mockResolvedValue(null);
 
@@ -280,6 +316,18 @@ describe('SubmissionService', () => {
       );
     });
 
+    it('should refuse to submit a quarantined submission', async () => {
+      mockPrisma.submissions.findUnique.mockResolvedValue({
+        ...mockSubmission,
+        moderationStatus: 'QUARANTINED',
+      } as any);
+
+      await expect(submissionService.submit(mockSubmissionId, mockUserId)).rejects.toThrow(
+        'This submission is held for moderation review'
+      );
+      expect(mockPrisma.submissions.update).not.toHaveBeenCalled();
+    });
+
     it('should throw AuthorizationError if user is not the contributor', async () => {
       mockPrisma.submissions.findUnique.mockResolvedValue({
         ...mockSubmission,
@@ -521,7 +569,7 @@ describe('SubmissionService', () => {
       expect(result).toEqual(mockSubmissions);
       expect(mockPrisma.submissions.findMany).toHaveBeenCalledWith(
         expect.objectContaining({
-          where: { challengeId: mockChallengeId },
+          where: { challengeId: mockChallengeId, moderationStatus: { not: 'QUARANTINED' } },
         })
       );
     });
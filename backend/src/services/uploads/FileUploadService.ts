@@ -0,0 +1,57 @@
+import crypto from 'crypto';
+import path from 'path';
+import { StorageAdapter, getStorageAdapter } from '../storage';
+
+/**
+ * Metadata for a stored submission file. `path` is the storage key.
+ */
+export interface FileMetadata {
+  filename: string;
+  originalName: string;
+  mimetype: string;
+  size: number;
+  path: string;
+}
+
+/**
+ * FileUploadService - Stores submission attachments in the configured storage backend
+ *
+ * Files arrive from multer's memory storage, so the buffer is written straight
+ * to the adapter under `submissions/` with a random filename.
+ */
+export class FileUploadService {
+  constructor(private storage: StorageAdapter = getStorageAdapter()) {}
+
+  /**
+   * Store an uploaded file and return its metadata
+   */
+  async storeFile(file: Express.Multer.File): Promise<FileMetadata> {
+    const extension = path.extname(file.originalname).replace(/[^A-Za-z0-9.]/g, '');
+    const filename = `${crypto.randomUUID()}${extension}`;
+    const key = `submissions/${filename}`;
+
+    await this.storage.put(key, file.buffer, file.mimetype);
+
+    return {
+      filename,
+      originalName: file.originalname,
+      mimetype: file.mimetype,
+      size: file.size,
+      path: key,
+    };
+  }
+
+  /**
+   * Read a stored file back
+   */
+  async getFile(filePath: string): Promise<Buffer> {
+    return this.storage.get(filePath);
+  }
+
+  /**
+   * Delete a stored file
+   */
+  async deleteFile(filePath: string): Promise<void> {
+    await this.storage.delete(filePath);
+  }
+}
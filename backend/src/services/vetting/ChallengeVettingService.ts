@@ -0,0 +1,123 @@
+import { PrismaClient } from '@prisma/client';
+import { EventService } from '../events/EventService';
+import { VetChallengeDTO } from '../../types';
+import { AuthorizationError, ConflictError, NotFoundError, ValidationError } from '../../types';
+
+export const VETTING_STATUSES = ['PENDING', 'APPROVED', 'REJECTED', 'CHANGES_REQUESTED'] as const;
+
+export type VettingStatus = (typeof VETTING_STATUSES)[number];
+
+export const VETTING_DECISIONS = ['APPROVE', 'REJECT', 'REQUEST_CHANGES'] as const;
+
+export type VettingDecision = (typeof VETTING_DECISIONS)[number];
+
+const DECISION_OUTCOMES: Record<VettingDecision, { status: VettingStatus; action: string }> = {
+  APPROVE: { status: 'APPROVED', action: 'CHALLENGE_APPROVED' },
+  REJECT: { status: 'REJECTED', action: 'CHALLENGE_REJECTED' },
+  REQUEST_CHANGES: { status: 'CHANGES_REQUESTED', action: 'CHALLENGE_CHANGES_REQUESTED' },
+};
+
+const MIN_NOTES_LENGTH = 10;
+
+/**
+ * ChallengeVettingService - Admin review of new challenges before they go public
+ *
+ * Business Rules:
+ * - New challenges start PENDING and only APPROVED challenges are listed publicly
+ * - Only PENDING challenges can be decided; every decision needs notes of at
+ *   least 10 characters, which are shown to the sponsor
+ * - Sponsors cannot vet their own challenges
+ * - REQUEST_CHANGES sends the challenge back to the sponsor; their next edit
+ *   puts it back in the queue as PENDING
+ * - APPROVED and REJECTED are final
+ * - Every decision and resubmission is logged via EventService against the challenge
+ */
+export class ChallengeVettingService {
+  constructor(
+    private prisma: PrismaClient,
+    private eventService: EventService
+  ) {}
+
+  /**
+   * Approve, reject or request changes to a pending challenge
+   */
+  async decide(challengeId: string, vetterId: string, data: VetChallengeDTO) {
+    const outcome = DECISION_OUTCOMES[data.decision];
+
+    if (!outcome) {
+      throw new ValidationError(`Decision must be one of ${VETTING_DECISIONS.join(', ')}`);
+    }
+
+    const notes = data.notes?.trim() || '';
+
+    if (notes.length < MIN_NOTES_LENGTH) {
+      throw new ValidationError(`Vetting notes must be at least ${MIN_NOTES_LENGTH} characters`);
+    }
+
+    const challenge = await this.prisma.challenges.findUnique({
+      where: { id: challengeId },
+      select: { id: true, sponsorId: true, vettingStatus: true },
+    });
+
+    if (!challenge) {
+      throw new NotFoundError('Challenge');
+    }
+
+    if (challenge.sponsorId === vetterId) {
+      throw new AuthorizationError('Sponsors cannot vet their own challenges');
+    }
+
+    if (challenge.vettingStatus !== 'PENDING') {
+      throw new ConflictError(`Challenge is ${challenge.vettingStatus}, not awaiting vetting`);
+    }
+
+    const vettedAt = new Date();
+    const updated = await this.prisma.challenges.update({
+      where: { id: challengeId },
+      data: {
+        vettingStatus: outcome.status,
+        vettingNotes: notes,
+        vettedBy: vetterId,
+        vettedAt,
+        updatedAt: vettedAt,
+      },
+    });
+
+    await this.eventService.emit({
+      actorId: vetterId,
+      entityType: 'CHALLENGE',
+      entityId: challengeId,
+      action: outcome.action,
+      snapshot: { vettingStatus: outcome.status, vettingNotes: notes },
+      metadata: {
+        decision: data.decision,
+        sponsorId: challenge.sponsorId,
+      },
+    });
+
+    return updated;
+  }
+
+  /**
+   * Put a challenge back in the vetting queue after the sponsor edited it.
+   * A no-op unless changes were requested.
+   */
+  async resubmitIfChangesRequested(challengeId: string, sponsorId: string): Promise<boolean> {
+    const { count } = await this.prisma.challenges.updateMany({
+      where: { id: challengeId, sponsorId, vettingStatus: 'CHANGES_REQUESTED' },
+      data: { vettingStatus: 'PENDING', updatedAt: new Date() },
+    });
+
+    if (count === 0) return false;
+
+    await this.eventService.emit({
+      actorId: sponsorId,
+      entityType: 'CHALLENGE',
+      entityId: challengeId,
+      action: 'CHALLENGE_RESUBMITTED',
+      metadata: { vettingStatus: 'PENDING' },
+    });
+
+    return true;
+  }
+}
@@ -0,0 +1,149 @@
+import { ChallengeVettingService } from '../ChallengeVettingService';
+import { EventService } from '../../events/EventService';
+import { AuthorizationError, ConflictError, NotFoundError, ValidationError } from '../../../types';
+
+jest.mock('../../../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+  },
+}));
+
+describe('ChallengeVettingService', () => {
+  let service: ChallengeVettingService;
+  let mockPrisma: any;
+  let mockEventService: jest.Mocked<EventService>;
+
+  const sponsorId = 'sponsor-123';
+  const adminId = 'admin-456';
+  const notes = 'Scope and bounty look reasonable';
+
+  const pendingChallenge = {
+    id: 'challenge-123',
+    sponsorId,
+    vettingStatus: 'PENDING',
+  };
+
+  beforeEach(() => {
+    mockPrisma = {
+      challenges: {
+        findUnique: jest.fn(),
+        update: jest.fn(),
+        updateMany: jest.fn(),
+      },
+    };
+
+    mockEventService = {
+      emit: jest.fn(),
+      getTrail: jest.fn(),
+      getByActor: jest.fn(),
+      getRecent: jest.fn(),
+    } as any;
+
+    service = new ChallengeVettingService(mockPrisma as any, mockEventService);
+    jest.clearAllMocks();
+
+    mockPrisma.challenges.update.mockImplementation(({ where, data }: any) =>
+      Promise.resolve({ ...pendingChallenge, id: where.id, ...data })
+    );
+  });
+
+  describe('decide', () => {
+    it.each([
+      ['APPROVE', 'APPROVED', 'CHALLENGE_APPROVED'],
+      ['REJECT', 'REJECTED', 'CHALLENGE_REJECTED'],
+      ['REQUEST_CHANGES', 'CHANGES_REQUESTED', 'CHALLENGE_CHANGES_REQUESTED'],
+    ] as const)('should record %s and emit %s', async (decision, status, action) => {
+      mockPrisma.challenges.findUnique.mockResolvedValue(pendingChallenge);
+
+      const challenge = await service.decide('challenge-123', adminId, { decision, notes });
+
+      expect(challenge.vettingStatus).toBe(status);
+      expect(mockPrisma.challenges.update).toHaveBeenCalledWith({
+        where: { id: 'challenge-123' },
+        data: expect.objectContaining({
+          vettingStatus: status,
+          vettingNotes: notes,
+          vettedBy: adminId,
+          vettedAt: expect.any(Date),
+        }),
+      });
+      expect(mockEventService.emit).toHaveBeenCalledWith(
+        expect.objectContaining({
+          actorId: adminId,
+          entityType: 'CHALLENGE',
+          entityId: 'challenge-123',
+          action,
+        })
+      );
+    });
+
+    it('should require notes', async () => {
+      await expect(
+        service.decide('challenge-123', adminId, { decision: 'APPROVE', notes: '  ok  ' })
+      ).rejects.toThrow(ValidationError);
+      expect(mockPrisma.challenges.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown decisions', async () => {
+      await expect(
+        service.decide('challenge-123', adminId, { decision: 'MAYBE' as any, notes })
+      ).rejects.toThrow(ValidationError);
+    });
+
+    it('should not let sponsors vet their own challenges', async () => {
+      mockPrisma.challenges.findUnique.mockResolvedValue(pendingChallenge);
+
+      await expect(
+        service.decide('challenge-123', sponsorId, { decision: 'APPROVE', notes })
+      ).rejects.toThrow(AuthorizationError);
+    });
+
+    it('should only decide challenges awaiting vetting', async () => {
+      mockPrisma.challenges.findUnique.mockResolvedValue({
+        ...pendingChallenge,
+        vettingStatus: 'CHANGES_REQUESTED',
+      });
+
+      await expect(
+        service.decide('challenge-123', adminId, { decision: 'APPROVE', notes })
+      ).rejects.toThrow(ConflictError);
+      expect(mockEventService.emit).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundError for unknown challenges', async () => {
+      mockPrisma.challenges.findUnique.mockResolvedValue(null);
+
+      await expect(
+        service.decide('missing', adminId, { decision: 'APPROVE', notes })
+      ).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('resubmitIfChangesRequested', () => {
+    it('should put the challenge back in the queue', async () => {
+      mockPrisma.challenges.updateMany.mockResolvedValue({ count: 1 });
+
+      const resubmitted = await service.resubmitIfChangesRequested('challenge-123', sponsorId);
+
+      expect(resubmitted).toBe(true);
+      expect(mockPrisma.challenges.updateMany).toHaveBeenCalledWith({
+        where: { id: 'challenge-123', sponsorId, vettingStatus: 'CHANGES_REQUESTED' },
+        data: expect.objectContaining({ vettingStatus: 'PENDING' }),
+      });
+      expect(mockEventService.emit).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'CHALLENGE_RESUBMITTED', actorId: sponsorId })
+      );
+    });
+
+    it('should do nothing when no changes were requested', async () => {
+      mockPrisma.challenges.updateMany.mockResolvedValue({ count: 0 });
+
+      const resubmitted = await service.resubmitIfChangesRequested('challenge-123', sponsorId);
+
+      expect(resubmitted).toBe(false);
+      expect(mockEventService.emit).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -49,6 +49,36 @@ export class WalletService {
     return `Sign this message to authenticate your wallet:\n\nAddress: ${address}\nNonce: ${nonce}\n\nThis request will not trigger a blockchain transaction or cost any gas fees.`;
   }
 
+  /**
+   * Generate an EIP-4361 (Sign-In with Ethereum) message
+   * @param fields - Message fields; address must already be checksummed
+   * @returns Message to be signed
+   */
+  generateSiweMessage(fields: {
+    domain: string;
+    address: string;
+    statement: string;
+    uri: string;
+    chainId: number;
+    nonce: string;
+    issuedAt: Date;
+    expiresAt: Date;
+  }): string {
+    return [
+      `${fields.domain} wants you to sign in with your Ethereum account:`,
+      fields.address,
+      '',
+      fields.statement,
+      '',
+      `URI: ${fields.uri}`,
+      'Version: 1',
+      `Chain ID: ${fields.chainId}`,
+      `Nonce: ${fields.nonce}`,
+      `Issued At: ${fields.issuedAt.toISOString()}`,
+      `Expiration Time: ${fields.expiresAt.toISOString()}`,
+    ].join('\n');
+  }
+
   /**
    * Validate and checksum Ethereum address
    * @param address - Ethereum address
@@ -9,6 +9,7 @@ export interface AuthRequest extends Request {
     id: string;
     email: string;
     walletAddress?: string;
+    sessionId?: string;
   };
 }
 
@@ -18,6 +19,7 @@ export interface AuthRequest extends Request {
 export interface JWTPayload {
   userId: string;
   email: string;
+  sessionId: string;
   iat?: number;
   exp?: number;
 }
@@ -28,7 +30,6 @@ export interface JWTPayload {
 export interface CreateUserDTO {
   email: string;
   password: string;
-  walletAddress?: string;
   profile?: Record<string, unknown>;
 }
 
@@ -42,9 +43,23 @@ export interface UserResponseDTO {
   email: string;
   walletAddress?: string;
   profile?: Record<string, unknown>;
+  emailVerifiedAt?: Date | null;
   createdAt: Date;
 }
 
+/**
+ * Tokens issued on login and refresh: a short-lived access token (JWT) and
+ * the refresh token that renews it
+ */
+export interface AuthTokensDTO {
+  token: string;
+  refreshToken: string;
+}
+
+export interface AuthResultDTO extends AuthTokensDTO {
+  user: UserResponseDTO;
+}
+
 /**
  * Challenge DTOs
  */
@@ -62,6 +77,16 @@ export interface UpdateChallengeDTO {
   status?: ChallengeStatus;
 }
 
+export interface VetChallengeDTO {
+  decision: 'APPROVE' | 'REJECT' | 'REQUEST_CHANGES';
+  notes: string;
+}
+
+export interface KycOverrideDTO {
+  status: 'VERIFIED' | 'REJECTED';
+  reason: string;
+}
+
 export interface ChallengeResponseDTO {
   id: string;
   title: string;
@@ -73,6 +98,9 @@ export interface ChallengeResponseDTO {
     id: string;
     email: string;
   };
+  projectLeaderId?: string | null;
+  vettingStatus?: string; // only shown to the sponsor
+  vettingNotes?: string | null; // only shown to the sponsor
   createdAt: Date;
   updatedAt: Date;
   contributionCount?: number;
@@ -98,6 +126,7 @@ export interface ContributionResponseDTO {
   type: ContributionType;
   tokenValue: number;
   blockchainTxHash?: string;
+  moderationStatus: string;
   createdAt: Date;
   updatedAt: Date;
   user?: {
@@ -256,6 +285,7 @@ export interface ProposalResponseDTO {
   };
   respondedAt?: string;
   responseMessage?: string;
+  moderationStatus: string;
   createdAt: string;
   updatedAt: string;
 }
@@ -316,6 +346,7 @@ export interface SubmissionResponseDTO {
   };
   reviewedAt?: string;
   reviewNotes?: string;
+  moderationStatus: string;
   files: SubmissionFileDTO[];
   createdAt: string;
   updatedAt: string;
@@ -323,3 +354,269 @@ export interface SubmissionResponseDTO {
 
 // Re-export SubmissionStatus enum from Prisma
 export { SubmissionStatus } from '@prisma/client';
+
+/**
+ * Composition Manifest DTOs
+ */
+export interface ManifestEntryDTO {
+  contributorId: string;
+  role: string;
+  weight: number;
+  ref?: string;
+}
+
+export interface SaveManifestDTO {
+  entries: ManifestEntryDTO[];
+}
+
+export interface ManifestResponseDTO {
+  id: string;
+  challengeId: string;
+  leader: {
+    id: string;
+    email: string;
+  };
+  entries: ManifestEntryDTO[];
+  totalDeclared: number;
+  signedByLeader: boolean;
+  signedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Payout Proposal DTOs
+ */
+export interface PayoutEntryDTO {
+  userId: string;
+  amount: number;
+  reason?: string;
+  contributionId?: string;
+}
+
+export interface CreatePayoutProposalDTO {
+  challengeId: string;
+  distribution?: PayoutEntryDTO[];
+}
+
+export interface SignPayoutProposalDTO {
+  toleranceNote?: string;
+}
+
+export interface SponsorDecisionDTO {
+  notes?: string;
+}
+
+export interface AuditPayoutProposalDTO {
+  result: 'PASSED' | 'FAILED';
+  notes?: string;
+}
+
+export interface PayoutProposalResponseDTO {
+  id: string;
+  challengeId: string;
+  challenge: {
+    id: string;
+    title: string;
+    status: string;
+    bountyAmount: number;
+  };
+  leader: {
+    id: string;
+    email: string;
+  };
+  status: string;
+  distribution: PayoutEntryDTO[];
+  withinTolerance: boolean;
+  toleranceNote?: string;
+  signedByLeader: boolean;
+  leaderSignedAt?: string;
+  sponsorApproved: boolean;
+  sponsorApprovedAt?: string;
+  sponsorRejectedAt?: string;
+  sponsorNotes?: string;
+  auditStatus: string;
+  auditNotes?: string;
+  auditedBy?: string;
+  auditedAt?: string;
+  releasedAt?: string;
+  evidencePackUrl?: string;
+  createdAt: string;
+}
+
+/**
+ * IR35 Assessment DTOs
+ */
+export interface CreateIR35AssessmentDTO {
+  userId: string;
+  challengeId?: string;
+  responses: Record<string, string>;
+}
+
+export interface IR35AssessmentResponseDTO {
+  id: string;
+  userId: string;
+  challengeId?: string;
+  responses: Record<string, string>;
+  score: number;
+  riskLevel: string;
+  recommendation: string;
+  requiresReview: boolean;
+  assessedBy?: string;
+  assessedAt: string;
+  validUntil?: string;
+  isValid: boolean;
+}
+
+/**
+ * Reputation DTOs
+ */
+export interface ReputationBadgeDTO {
+  id: string;
+  label: string;
+  description: string;
+}
+
+export interface ReputationResponseDTO {
+  userId: string;
+  asContributor: number;
+  asProjectLeader: number;
+  asSponsor: number;
+  totalProjects: number;
+  successfulProjects: number;
+  disputesRaised: number;
+  disputesAgainst: number;
+  contributionPoints: number;
+  leadershipPoints: number;
+  stewardshipPoints: number;
+  badges: ReputationBadgeDTO[];
+  lastUpdated: string;
+}
+
+/**
+ * Dispute DTOs
+ */
+export interface RaiseDisputeDTO {
+  description: string;
+  severity?: number;
+}
+
+/**
+ * Safety incident DTOs
+ */
+export interface IncidentFilters {
+  status?: string[];
+  severity?: number[];
+  assignedTo?: string | null;
+}
+
+export interface ResolveIncidentDTO {
+  outcome: 'RESOLVED' | 'DISMISSED';
+  reason: string;
+}
+
+export interface IncidentNoteResponseDTO {
+  id: string;
+  body: string;
+  author: { id: string; email: string };
+  createdAt: string;
+}
+
+export interface IncidentResponseDTO {
+  id: string;
+  status: string;
+  category: string;
+  severity: number;
+  description: string;
+  aiDetected: boolean;
+  entityType: string | null;
+  entityId: string | null;
+  challenge: { id: string; title: string } | null;
+  raisedBy: { id: string; email: string };
+  assignee: { id: string; email: string } | null;
+  evidenceEventIds: string[];
+  resolution: string | null;
+  createdAt: string;
+  assignedAt: string | null;
+  closedAt: string | null;
+  sla: {
+    respondBy: string;
+    resolveBy: string;
+    responseBreached: boolean;
+    resolutionBreached: boolean;
+  };
+  notes?: IncidentNoteResponseDTO[];
+}
+
+/**
+ * Moderation appeal DTOs
+ */
+export interface FileAppealDTO {
+  entityType: string;
+  entityId: string;
+  reason: string;
+}
+
+export interface DecideAppealDTO {
+  decision: 'UPHELD' | 'OVERTURNED';
+  notes: string;
+}
+
+export interface AppealResponseDTO {
+  id: string;
+  status: string;
+  reason: string;
+  appellant: { id: string; email: string };
+  decidedBy: { id: string; email: string } | null;
+  decisionNotes: string | null;
+  moderationResult: {
+    id: string;
+    entityType: string;
+    entityId: string;
+    overallScore: number;
+    autoBlocked: boolean;
+    detectionMethod: string;
+    analyzers: string[];
+    incidentId: string | null;
+  };
+  createdAt: string;
+  decidedAt: string | null;
+}
+
+export interface AnalyzerOverturnRate {
+  analyzer: string;
+  flagged: number;
+  appealsDecided: number;
+  overturned: number;
+  overturnRate: number;
+}
+
+/**
+ * IP Assignment DTOs
+ */
+export interface SignIPAssignmentDTO {
+  signedName: string;
+  contentHash: string;
+}
+
+export interface IPAssignmentResponseDTO {
+  id: string;
+  challengeId: string;
+  userId: string;
+  user?: {
+    id: string;
+    email: string;
+  };
+  agreementVersion: string;
+  contentHash: string;
+  signedName: string;
+  signedAt: string;
+  isCurrentVersion: boolean;
+}
+
+export interface IPAgreementResponseDTO {
+  version: string;
+  text: string;
+  contentHash: string;
+  assignment: IPAssignmentResponseDTO | null;
+}
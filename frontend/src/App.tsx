@@ -15,6 +15,10 @@ import { ProfilePage } from './pages/ProfilePage';
 import { ProposalsPage } from './pages/ProposalsPage';
 import { SubmissionsPage } from './pages/SubmissionsPage';
 import { PaymentsPage } from './pages/PaymentsPage';
+import { VerifyEvidencePage } from './pages/VerifyEvidencePage';
+import { VerifyEmailPage } from './pages/VerifyEmailPage';
+import { ForgotPasswordPage } from './pages/ForgotPasswordPage';
+import { ResetPasswordPage } from './pages/ResetPasswordPage';
 
 // Admin Pages
 import { AdminDashboard } from './pages/admin/AdminDashboard';
@@ -37,8 +41,12 @@ function App() {
           <Route path="/" element={<HomePage />} />
           <Route path="/signup" element={<SignupPage />} />
           <Route path="/login" element={<LoginPage />} />
+          <Route path="/verify-email" element={<VerifyEmailPage />} />
+          <Route path="/forgot-password" element={<ForgotPasswordPage />} />
+          <Route path="/reset-password" element={<ResetPasswordPage />} />
           <Route path="/challenges" element={<ChallengesPage />} />
           <Route path="/challenges/:id" element={<ChallengePage />} />
+          <Route path="/verify/:packageId" element={<VerifyEvidencePage />} />
 
           {/* Protected Routes */}
           <Route
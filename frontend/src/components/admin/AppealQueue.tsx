@@ -0,0 +1,201 @@
+import { useCallback, useState, useEffect } from 'react';
+import { appealService } from '../../services/ai.service';
+import type {
+  AnalyzerOverturnRate,
+  AppealStatus,
+  ModerationAppeal,
+} from '../../types/ai.types';
+import { Card } from '../common/Card';
+import { Button } from '../common/Button';
+import { Loading } from '../common/Loading';
+import { ErrorMessage } from '../common/ErrorMessage';
+
+const MIN_NOTES_LENGTH = 10;
+
+/**
+ * AppealQueue - Authors' appeals against moderation decisions
+ * A moderator who did not review the original decision upholds or overturns
+ * each appeal; per-analyzer overturn rates help tune the local rules
+ */
+export const AppealQueue = () => {
+  const [appeals, setAppeals] = useState<ModerationAppeal[]>([]);
+  const [rates, setRates] = useState<AnalyzerOverturnRate[]>([]);
+  const [status, setStatus] = useState<AppealStatus>('PENDING');
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [deciding, setDeciding] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchAppeals = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const [appealList, overturnRates] = await Promise.all([
+        appealService.listAppeals(status),
+        appealService.getOverturnRates(),
+      ]);
+      setAppeals(appealList);
+      setRates(overturnRates);
+    } catch (err) {
+      setError((err as Error).message || 'Failed to load appeals');
+    } finally {
+      setLoading(false);
+    }
+  }, [status]);
+
+  useEffect(() => {
+    fetchAppeals();
+  }, [fetchAppeals]);
+
+  const handleDecide = async (appealId: string, decision: 'UPHELD' | 'OVERTURNED') => {
+    try {
+      setDeciding(appealId);
+      setError(null);
+      await appealService.decideAppeal(appealId, decision, notes[appealId] || '');
+      await fetchAppeals();
+    } catch (err) {
+      setError((err as Error).message || 'Failed to decide appeal');
+    } finally {
+      setDeciding(null);
+    }
+  };
+
+  return (
+    <Card>
+      <div className="space-y-6">
+        <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+          <div>
+            <h2 className="text-2xl font-bold text-[var(--text-primary)] mb-2">Appeals</h2>
+            <p className="text-sm text-[var(--text-muted)]">
+              Decided by a moderator other than the one who reviewed the original incident
+            </p>
+          </div>
+          <select
+            value={status}
+            onChange={(e) => setStatus(e.target.value as AppealStatus)}
+            className="input min-h-[44px]"
+            aria-label="Filter appeals by status"
+          >
+            <option value="PENDING">Pending</option>
+            <option value="UPHELD">Upheld</option>
+            <option value="OVERTURNED">Overturned</option>
+          </select>
+        </div>
+
+        {error && <ErrorMessage message={error} onRetry={fetchAppeals} />}
+
+        {loading ? (
+          <Loading message="Loading appeals..." />
+        ) : appeals.length === 0 ? (
+          <p className="text-sm text-[var(--text-muted)]">No appeals here.</p>
+        ) : (
+          <ul className="space-y-4">
+            {appeals.map((appeal) => (
+              <li key={appeal.id} className="p-4 bg-[var(--bg-elevated)] rounded-lg space-y-3">
+                <div className="flex flex-wrap items-center gap-3 text-xs text-[var(--text-muted)]">
+                  <span className="font-semibold text-[var(--text-primary)]">
+                    {appeal.moderationResult.entityType} {appeal.moderationResult.entityId}
+                  </span>
+                  <span>Score {(appeal.moderationResult.overallScore * 100).toFixed(0)}%</span>
+                  <span>{appeal.moderationResult.autoBlocked ? 'Auto-blocked' : 'Flagged'}</span>
+                  <span>
+                    {appeal.moderationResult.detectionMethod} (
+                    {appeal.moderationResult.analyzers.join(', ') || 'none'})
+                  </span>
+                  <span>by {appeal.appellant.email}</span>
+                  <span>{new Date(appeal.createdAt).toLocaleString()}</span>
+                </div>
+                <p className="text-sm text-[var(--text-primary)] whitespace-pre-wrap">
+                  {appeal.reason}
+                </p>
+
+                {appeal.status === 'PENDING' ? (
+                  <div className="flex flex-col gap-3">
+                    <textarea
+                      value={notes[appeal.id] || ''}
+                      onChange={(e) => setNotes({ ...notes, [appeal.id]: e.target.value })}
+                      placeholder={`Decision notes (at least ${MIN_NOTES_LENGTH} characters)`}
+                      className="input min-h-[60px] resize-y"
+                      aria-label="Decision notes"
+                    />
+                    <div className="flex gap-3">
+                      <Button
+                        variant="success"
+                        onClick={() => handleDecide(appeal.id, 'OVERTURNED')}
+                        disabled={
+                          (notes[appeal.id] || '').trim().length < MIN_NOTES_LENGTH ||
+                          deciding === appeal.id
+                        }
+                      >
+                        Overturn &amp; restore
+                      </Button>
+                      <Button
+                        variant="outline"
+                        onClick={() => handleDecide(appeal.id, 'UPHELD')}
+                        disabled={
+                          (notes[appeal.id] || '').trim().length < MIN_NOTES_LENGTH ||
+                          deciding === appeal.id
+                        }
+                      >
+                        Uphold
+                      </Button>
+                    </div>
+                  </div>
+                ) : (
+                  <p className="text-xs text-[var(--text-secondary)]">
+                    {appeal.status} by {appeal.decidedBy?.email}: {appeal.decisionNotes}
+                  </p>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {/* Per-analyzer overturn rates */}
+        {rates.length > 0 && (
+          <div>
+            <h3 className="text-lg font-bold text-[var(--text-primary)] mb-3">
+              Overturn rates by analyzer
+            </h3>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-[var(--border)]">
+                  <th className="text-left py-2 px-4 font-semibold text-[var(--text-secondary)]">
+                    Analyzer
+                  </th>
+                  <th className="text-left py-2 px-4 font-semibold text-[var(--text-secondary)]">
+                    Flagged
+                  </th>
+                  <th className="text-left py-2 px-4 font-semibold text-[var(--text-secondary)]">
+                    Appeals decided
+                  </th>
+                  <th className="text-left py-2 px-4 font-semibold text-[var(--text-secondary)]">
+                    Overturned
+                  </th>
+                  <th className="text-left py-2 px-4 font-semibold text-[var(--text-secondary)]">
+                    Overturn rate
+                  </th>
+                </tr>
+              </thead>
+              <tbody>
+                {rates.map((rate) => (
+                  <tr key={rate.analyzer} className="border-b border-[var(--border)]">
+                    <td className="py-2 px-4 text-[var(--text-primary)]">{rate.analyzer}</td>
+                    <td className="py-2 px-4 text-[var(--text-secondary)]">{rate.flagged}</td>
+                    <td className="py-2 px-4 text-[var(--text-secondary)]">
+                      {rate.appealsDecided}
+                    </td>
+                    <td className="py-2 px-4 text-[var(--text-secondary)]">{rate.overturned}</td>
+                    <td className="py-2 px-4 font-bold text-[var(--text-primary)]">
+                      {(rate.overturnRate * 100).toFixed(1)}%
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+};
@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react';
 import { api } from '../../services/api';
 import type { Event } from '../../types/governance';
+import { formatActor } from '../../utils/format';
 import { Card } from '../common/Card';
 import { Loading } from '../common/Loading';
 import { ErrorMessage } from '../common/ErrorMessage';
@@ -142,7 +143,7 @@ export const EventTimeline = ({ entityType, entityId }: EventTimelineProps) => {
                       <p className="text-sm text-[var(--text-secondary)]">
                         by{' '}
                         <span className="text-[var(--primary)] font-mono">
-                          {event.actor.email}
+                          {formatActor(event.actor)}
                         </span>
                         {event.actor.role && (
                           <span className="ml-2 px-2 py-0.5 text-xs rounded bg-[var(--bg-surface)] border border-[var(--border)]">
@@ -0,0 +1,463 @@
+import { useCallback, useState, useEffect } from 'react';
+import { incidentService } from '../../services/ai.service';
+import type {
+  IncidentFilters,
+  IncidentStatus,
+  SafetyIncident,
+} from '../../types/ai.types';
+import { Card } from '../common/Card';
+import { Button } from '../common/Button';
+import { Loading } from '../common/Loading';
+import { ErrorMessage } from '../common/ErrorMessage';
+
+const ACTIVE_STATUSES: IncidentStatus[] = ['OPEN', 'INVESTIGATING', 'ESCALATED'];
+
+const STATUS_OPTIONS: { label: string; value: string }[] = [
+  { label: 'Active', value: 'ACTIVE' },
+  { label: 'Open', value: 'OPEN' },
+  { label: 'Investigating', value: 'INVESTIGATING' },
+  { label: 'Escalated', value: 'ESCALATED' },
+  { label: 'Resolved', value: 'RESOLVED' },
+  { label: 'Dismissed', value: 'DISMISSED' },
+  { label: 'All', value: 'ALL' },
+];
+
+const MIN_REASON_LENGTH = 10;
+
+/**
+ * Time left until (or past) an SLA deadline, e.g. "3h left" or "2d overdue"
+ */
+const formatDue = (iso: string): string => {
+  const diff = new Date(iso).getTime() - Date.now();
+  const abs = Math.abs(diff);
+  const hours = Math.floor(abs / 3_600_000);
+  const text =
+    hours >= 48
+      ? `${Math.floor(hours / 24)}d`
+      : hours >= 1
+      ? `${hours}h`
+      : `${Math.ceil(abs / 60_000)}m`;
+  return diff >= 0 ? `${text} left` : `${text} overdue`;
+};
+
+const severityClass = (severity: number): string => {
+  if (severity >= 4) return 'bg-[var(--error)] text-white';
+  if (severity === 3) return 'bg-[var(--warning)] text-black';
+  return 'bg-[var(--bg-elevated)] text-[var(--text-secondary)]';
+};
+
+/**
+ * IncidentQueue - Safety incident case management for moderators
+ * Filter the queue, pick up incidents, keep case notes, link evidence events,
+ * escalate and close them with a reason while watching the SLA timers
+ */
+export const IncidentQueue = () => {
+  const [incidents, setIncidents] = useState<SafetyIncident[]>([]);
+  const [statusFilter, setStatusFilter] = useState('ACTIVE');
+  const [severityFilter, setSeverityFilter] = useState('');
+  const [assigneeFilter, setAssigneeFilter] = useState<'' | 'me' | 'unassigned'>('');
+  const [selected, setSelected] = useState<SafetyIncident | null>(null);
+  const [note, setNote] = useState('');
+  const [eventIds, setEventIds] = useState('');
+  const [outcome, setOutcome] = useState<'RESOLVED' | 'DISMISSED'>('RESOLVED');
+  const [reason, setReason] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [acting, setActing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchIncidents = useCallback(async () => {
+    const filters: IncidentFilters = {};
+    if (statusFilter === 'ACTIVE') filters.status = ACTIVE_STATUSES;
+    else if (statusFilter !== 'ALL') filters.status = [statusFilter as IncidentStatus];
+    if (severityFilter) filters.severity = [Number(severityFilter)];
+    if (assigneeFilter) filters.assignee = assigneeFilter;
+
+    try {
+      setLoading(true);
+      setError(null);
+      setIncidents(await incidentService.listIncidents(filters));
+    } catch (err) {
+      setError((err as Error).message || 'Failed to load incidents');
+    } finally {
+      setLoading(false);
+    }
+  }, [statusFilter, severityFilter, assigneeFilter]);
+
+  useEffect(() => {
+    fetchIncidents();
+  }, [fetchIncidents]);
+
+  const openIncident = async (incidentId: string) => {
+    try {
+      setError(null);
+      setSelected(await incidentService.getIncident(incidentId));
+      setNote('');
+      setEventIds('');
+      setReason('');
+    } catch (err) {
+      setError((err as Error).message || 'Failed to load incident');
+    }
+  };
+
+  /**
+   * Run an action on the selected incident, then reload it and the queue
+   */
+  const act = async (action: (incidentId: string) => Promise<unknown>) => {
+    if (!selected) return;
+
+    try {
+      setActing(true);
+      setError(null);
+      await action(selected.id);
+      setSelected(await incidentService.getIncident(selected.id));
+      await fetchIncidents();
+    } catch (err) {
+      setError((err as Error).message || 'Action failed');
+    } finally {
+      setActing(false);
+    }
+  };
+
+  const handleEscalate = () => {
+    const escalationReason = window.prompt('Why does this incident need escalating?');
+    if (!escalationReason) return;
+    act((id) => incidentService.escalate(id, escalationReason));
+  };
+
+  const handleAddNote = () =>
+    act(async (id) => {
+      await incidentService.addNote(id, note);
+      setNote('');
+    });
+
+  const handleLinkEvidence = () =>
+    act(async (id) => {
+      const ids = eventIds
+        .split(/[\s,]+/)
+        .map((value) => value.trim())
+        .filter(Boolean);
+      await incidentService.linkEvidence(id, ids);
+      setEventIds('');
+    });
+
+  const handleResolve = () =>
+    act(async (id) => {
+      await incidentService.resolve(id, outcome, reason);
+      setReason('');
+    });
+
+  const isClosed = selected ? !ACTIVE_STATUSES.includes(selected.status) : false;
+  const notes = selected?.notes || [];
+
+  return (
+    <Card>
+      <div className="space-y-6">
+        <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+          <div>
+            <h2 className="text-2xl font-bold text-[var(--text-primary)] mb-2">
+              Incident Queue
+            </h2>
+            <p className="text-sm text-[var(--text-muted)]">
+              Most severe first, then oldest. SLA timers are set per severity.
+            </p>
+          </div>
+
+          <div className="flex flex-wrap gap-3">
+            <select
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value)}
+              className="input min-h-[44px]"
+              aria-label="Filter incidents by status"
+            >
+              {STATUS_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <select
+              value={severityFilter}
+              onChange={(e) => setSeverityFilter(e.target.value)}
+              className="input min-h-[44px]"
+              aria-label="Filter incidents by severity"
+            >
+              <option value="">Any severity</option>
+              {[5, 4, 3, 2, 1].map((severity) => (
+                <option key={severity} value={severity}>
+                  Severity {severity}
+                </option>
+              ))}
+            </select>
+            <select
+              value={assigneeFilter}
+              onChange={(e) => setAssigneeFilter(e.target.value as '' | 'me' | 'unassigned')}
+              className="input min-h-[44px]"
+              aria-label="Filter incidents by assignee"
+            >
+              <option value="">Anyone</option>
+              <option value="me">Assigned to me</option>
+              <option value="unassigned">Unassigned</option>
+            </select>
+          </div>
+        </div>
+
+        {error && <ErrorMessage message={error} onRetry={fetchIncidents} />}
+
+        {loading ? (
+          <Loading message="Loading incidents..." />
+        ) : incidents.length === 0 ? (
+          <p className="text-sm text-[var(--text-muted)]">No incidents match these filters.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-[var(--border)]">
+                  <th className="text-left py-3 px-4 font-semibold text-[var(--text-secondary)]">
+                    Severity
+                  </th>
+                  <th className="text-left py-3 px-4 font-semibold text-[var(--text-secondary)]">
+                    Category
+                  </th>
+                  <th className="text-left py-3 px-4 font-semibold text-[var(--text-secondary)]">
+                    Status
+                  </th>
+                  <th className="text-left py-3 px-4 font-semibold text-[var(--text-secondary)]">
+                    Assignee
+                  </th>
+                  <th className="text-left py-3 px-4 font-semibold text-[var(--text-secondary)]">
+                    SLA
+                  </th>
+                  <th className="text-left py-3 px-4 font-semibold text-[var(--text-secondary)]">
+                    Raised
+                  </th>
+                </tr>
+              </thead>
+              <tbody>
+                {incidents.map((incident) => (
+                  <tr
+                    key={incident.id}
+                    onClick={() => openIncident(incident.id)}
+                    className={`border-b border-[var(--border)] cursor-pointer hover:bg-[var(--bg-elevated)] transition-colors ${
+                      selected?.id === incident.id ? 'bg-[var(--bg-elevated)]' : ''
+                    }`}
+                  >
+                    <td className="py-3 px-4">
+                      <span
+                        className={`px-2 py-1 rounded text-xs font-bold ${severityClass(
+                          incident.severity
+                        )}`}
+                      >
+                        S{incident.severity}
+                      </span>
+                    </td>
+                    <td className="py-3 px-4 text-[var(--text-primary)]">
+                      {incident.category}
+                      {incident.aiDetected && (
+                        <span className="ml-2 text-xs text-[var(--text-muted)]">AI</span>
+                      )}
+                    </td>
+                    <td className="py-3 px-4 text-[var(--text-secondary)]">{incident.status}</td>
+                    <td className="py-3 px-4 text-[var(--text-secondary)]">
+                      {incident.assignee?.email || 'Unassigned'}
+                    </td>
+                    <td className="py-3 px-4">
+                      <SlaBadge incident={incident} />
+                    </td>
+                    <td className="py-3 px-4 text-[var(--text-secondary)]">
+                      {new Date(incident.createdAt).toLocaleString()}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {/* Case view */}
+        {selected && (
+          <div className="pt-6 border-t border-[var(--border)] space-y-6">
+            <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4">
+              <div>
+                <h3 className="text-lg font-bold text-[var(--text-primary)]">
+                  {selected.category} · S{selected.severity} · {selected.status}
+                </h3>
+                <p className="text-sm text-[var(--text-secondary)] mt-1">{selected.description}</p>
+                <p className="text-xs text-[var(--text-muted)] mt-2">
+                  {selected.challenge && <>Challenge: {selected.challenge.title} · </>}
+                  {selected.entityType && (
+                    <>
+                      {selected.entityType} {selected.entityId} ·{' '}
+                    </>
+                  )}
+                  Raised by {selected.raisedBy.email}
+                </p>
+              </div>
+
+              {!isClosed && (
+                <div className="flex gap-3">
+                  <Button
+                    variant="outline"
+                    onClick={() => act((id) => incidentService.assignToMe(id))}
+                    disabled={acting}
+                  >
+                    Assign to me
+                  </Button>
+                  <Button variant="secondary" onClick={handleEscalate} disabled={acting}>
+                    Escalate
+                  </Button>
+                </div>
+              )}
+            </div>
+
+            {selected.resolution && (
+              <div className="p-4 bg-[var(--bg-elevated)] rounded-lg text-sm">
+                <span className="font-semibold text-[var(--text-primary)]">Resolution: </span>
+                <span className="text-[var(--text-secondary)]">{selected.resolution}</span>
+              </div>
+            )}
+
+            {/* Evidence */}
+            <div>
+              <h4 className="text-md font-semibold text-[var(--text-primary)] mb-2">
+                Evidence events
+              </h4>
+              {selected.evidenceEventIds.length === 0 ? (
+                <p className="text-sm text-[var(--text-muted)]">No events linked yet.</p>
+              ) : (
+                <ul className="text-xs font-mono text-[var(--text-secondary)] space-y-1">
+                  {selected.evidenceEventIds.map((eventId) => (
+                    <li key={eventId}>{eventId}</li>
+                  ))}
+                </ul>
+              )}
+              {!isClosed && (
+                <div className="flex gap-3 mt-3">
+                  <input
+                    type="text"
+                    value={eventIds}
+                    onChange={(e) => setEventIds(e.target.value)}
+                    placeholder="Event IDs from the audit trail, comma separated"
+                    className="input min-h-[44px] flex-1"
+                    aria-label="Event IDs to link"
+                  />
+                  <Button
+                    variant="outline"
+                    onClick={handleLinkEvidence}
+                    disabled={!eventIds.trim() || acting}
+                  >
+                    Link
+                  </Button>
+                </div>
+              )}
+            </div>
+
+            {/* Notes */}
+            <div>
+              <h4 className="text-md font-semibold text-[var(--text-primary)] mb-2">Case notes</h4>
+              {notes.length === 0 ? (
+                <p className="text-sm text-[var(--text-muted)]">No notes yet.</p>
+              ) : (
+                <ul className="space-y-3">
+                  {notes.map((caseNote) => (
+                    <li key={caseNote.id} className="p-3 bg-[var(--bg-elevated)] rounded-lg">
+                      <p className="text-sm text-[var(--text-primary)] whitespace-pre-wrap">
+                        {caseNote.body}
+                      </p>
+                      <p className="text-xs text-[var(--text-muted)] mt-1">
+                        {caseNote.author.email} · {new Date(caseNote.createdAt).toLocaleString()}
+                      </p>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <div className="flex flex-col gap-3 mt-3">
+                <textarea
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  placeholder="Add a note for other moderators..."
+                  className="input min-h-[80px] resize-y"
+                  aria-label="Case note"
+                />
+                <Button
+                  variant="outline"
+                  onClick={handleAddNote}
+                  disabled={!note.trim() || acting}
+                  className="self-start"
+                >
+                  Add note
+                </Button>
+              </div>
+            </div>
+
+            {/* Close the case */}
+            {!isClosed && (
+              <div>
+                <h4 className="text-md font-semibold text-[var(--text-primary)] mb-2">
+                  Close incident
+                </h4>
+                <div className="flex flex-col gap-3">
+                  <select
+                    value={outcome}
+                    onChange={(e) => setOutcome(e.target.value as 'RESOLVED' | 'DISMISSED')}
+                    className="input min-h-[44px] self-start"
+                    aria-label="Outcome"
+                  >
+                    <option value="RESOLVED">Resolved</option>
+                    <option value="DISMISSED">Dismissed</option>
+                  </select>
+                  <textarea
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                    placeholder={`Reason (at least ${MIN_REASON_LENGTH} characters)`}
+                    className="input min-h-[80px] resize-y"
+                    aria-label="Resolution reason"
+                  />
+                  <Button
+                    variant={outcome === 'DISMISSED' ? 'outline' : 'success'}
+                    onClick={handleResolve}
+                    disabled={reason.trim().length < MIN_REASON_LENGTH || acting}
+                    loading={acting}
+                    className="self-start"
+                  >
+                    {outcome === 'DISMISSED' ? 'Dismiss' : 'Resolve'}
+                  </Button>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+};
+
+/**
+ * Response timer until someone picks the incident up, then the resolution timer
+ */
+const SlaBadge = ({ incident }: { incident: SafetyIncident }) => {
+  const { sla } = incident;
+  const closed = !ACTIVE_STATUSES.includes(incident.status);
+
+  if (closed) {
+    return sla.resolutionBreached ? (
+      <span className="text-xs font-semibold text-[var(--error)]">Closed late</span>
+    ) : (
+      <span className="text-xs font-semibold text-[var(--success)]">Closed in time</span>
+    );
+  }
+
+  const waiting = !incident.assignedAt;
+  const breached = waiting ? sla.responseBreached : sla.resolutionBreached;
+  const due = waiting ? sla.respondBy : sla.resolveBy;
+
+  return (
+    <span
+      className={`text-xs font-semibold ${
+        breached ? 'text-[var(--error)]' : 'text-[var(--text-secondary)]'
+      }`}
+      title={`${waiting ? 'Respond' : 'Resolve'} by ${new Date(due).toLocaleString()}`}
+    >
+      {waiting ? 'Response' : 'Resolution'}: {formatDue(due)}
+    </span>
+  );
+};
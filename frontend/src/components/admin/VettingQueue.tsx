@@ -1,30 +1,40 @@
 import { useState, useEffect } from 'react';
 import { api } from '../../services/api';
-import type { VettingChallenge } from '../../types/governance';
+import type { VettingChallenge, VettingDecision } from '../../types/governance';
 import { Card } from '../common/Card';
 import { Button } from '../common/Button';
 import { Loading } from '../common/Loading';
 import { ErrorMessage } from '../common/ErrorMessage';
 import { ConfirmDialog } from '../common/ConfirmDialog';
 
+const MIN_NOTES_LENGTH = 10;
+
+const DECISION_LABELS: Record<VettingDecision, { verb: string; title: string; label: string }> = {
+  APPROVE: { verb: 'approve', title: 'Approve', label: 'Approve' },
+  REJECT: { verb: 'reject', title: 'Reject', label: 'Reject' },
+  REQUEST_CHANGES: { verb: 'request changes to', title: 'Request Changes to', label: 'Request changes' },
+};
+
 /**
  * VettingQueue - Lists challenges awaiting approval
- * Provides Approve/Reject actions for admins
+ * Provides Approve/Reject/Request changes actions for admins; each needs notes
+ * for the sponsor. Only approved challenges appear in public listings.
  */
 export const VettingQueue = () => {
   const [challenges, setChallenges] = useState<VettingChallenge[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [actionLoading, setActionLoading] = useState<string | null>(null);
+  const [notes, setNotes] = useState<Record<string, string>>({});
   const [confirmDialog, setConfirmDialog] = useState<{
     isOpen: boolean;
     challengeId: string;
-    action: 'approve' | 'reject';
+    action: VettingDecision;
     title: string;
   }>({
     isOpen: false,
     challengeId: '',
-    action: 'approve',
+    action: 'APPROVE',
     title: '',
   });
 
@@ -49,32 +59,31 @@ export const VettingQueue = () => {
     fetchPendingChallenges();
   }, []);
 
-  const handleVettingAction = async (
-    challengeId: string,
-    approved: boolean
-  ) => {
+  const handleVettingAction = async (challengeId: string, decision: VettingDecision) => {
     try {
       setActionLoading(challengeId);
-      await api.post(`/admin/challenges/${challengeId}/vet`, { approved });
+      await api.post(`/admin/challenges/${challengeId}/vet`, {
+        decision,
+        notes: (notes[challengeId] || '').trim(),
+      });
 
       // Remove from list on success
       setChallenges((prev) => prev.filter((c) => c.id !== challengeId));
-
-      // Show success message
-      const action = approved ? 'approved' : 'rejected';
-      console.log(`Challenge ${action} successfully`);
     } catch (err: any) {
-      setError(err.message || `Failed to ${approved ? 'approve' : 'reject'} challenge`);
+      setError(err.message || `Failed to ${DECISION_LABELS[decision].verb} challenge`);
       console.error('Vetting action error:', err);
     } finally {
       setActionLoading(null);
-      setConfirmDialog({ isOpen: false, challengeId: '', action: 'approve', title: '' });
+      setConfirmDialog({ isOpen: false, challengeId: '', action: 'APPROVE', title: '' });
     }
   };
 
+  const hasNotes = (challengeId: string) =>
+    (notes[challengeId] || '').trim().length >= MIN_NOTES_LENGTH;
+
   const openConfirmDialog = (
     challengeId: string,
-    action: 'approve' | 'reject',
+    action: VettingDecision,
     title: string
   ) => {
     setConfirmDialog({ isOpen: true, challengeId, action, title });
@@ -250,26 +259,40 @@ export const VettingQueue = () => {
                     <Button
                       variant="primary"
                       onClick={() =>
-                        openConfirmDialog(challenge.id, 'approve', challenge.title)
+                        openConfirmDialog(challenge.id, 'APPROVE', challenge.title)
                       }
-                      disabled={actionLoading === challenge.id}
+                      disabled={actionLoading === challenge.id || !hasNotes(challenge.id)}
                       loading={
                         actionLoading === challenge.id &&
-                        confirmDialog.action === 'approve'
+                        confirmDialog.action === 'APPROVE'
                       }
                       aria-label={`Approve challenge: ${challenge.title}`}
                     >
                       Approve
                     </Button>
+                    <Button
+                      variant="outline"
+                      onClick={() =>
+                        openConfirmDialog(challenge.id, 'REQUEST_CHANGES', challenge.title)
+                      }
+                      disabled={actionLoading === challenge.id || !hasNotes(challenge.id)}
+                      loading={
+                        actionLoading === challenge.id &&
+                        confirmDialog.action === 'REQUEST_CHANGES'
+                      }
+                      aria-label={`Request changes to challenge: ${challenge.title}`}
+                    >
+                      Request changes
+                    </Button>
                     <Button
                       variant="secondary"
                       onClick={() =>
-                        openConfirmDialog(challenge.id, 'reject', challenge.title)
+                        openConfirmDialog(challenge.id, 'REJECT', challenge.title)
                       }
-                      disabled={actionLoading === challenge.id}
+                      disabled={actionLoading === challenge.id || !hasNotes(challenge.id)}
                       loading={
                         actionLoading === challenge.id &&
-                        confirmDialog.action === 'reject'
+                        confirmDialog.action === 'REJECT'
                       }
                       aria-label={`Reject challenge: ${challenge.title}`}
                     >
@@ -277,6 +300,13 @@ export const VettingQueue = () => {
                     </Button>
                   </div>
                 </div>
+                <textarea
+                  value={notes[challenge.id] || ''}
+                  onChange={(e) => setNotes({ ...notes, [challenge.id]: e.target.value })}
+                  placeholder={`Notes for the sponsor (at least ${MIN_NOTES_LENGTH} characters)`}
+                  className="input min-h-[60px] resize-y w-full mt-3"
+                  aria-label={`Vetting notes for ${challenge.title}`}
+                />
               </div>
             ))}
           </div>
@@ -288,18 +318,19 @@ export const VettingQueue = () => {
         <ConfirmDialog
           isOpen={confirmDialog.isOpen}
           onConfirm={() =>
-            handleVettingAction(
-              confirmDialog.challengeId,
-              confirmDialog.action === 'approve'
-            )
+            handleVettingAction(confirmDialog.challengeId, confirmDialog.action)
           }
           onCancel={() =>
-            setConfirmDialog({ isOpen: false, challengeId: '', action: 'approve', title: '' })
+            setConfirmDialog({ isOpen: false, challengeId: '', action: 'APPROVE', title: '' })
+          }
+          title={`${DECISION_LABELS[confirmDialog.action].title} Challenge`}
+          message={
+            confirmDialog.action === 'REQUEST_CHANGES'
+              ? `Send "${confirmDialog.title}" back to its sponsor? It returns to this queue once they edit it.`
+              : `Are you sure you want to ${DECISION_LABELS[confirmDialog.action].verb} "${confirmDialog.title}"? This action cannot be undone.`
           }
-          title={`${confirmDialog.action === 'approve' ? 'Approve' : 'Reject'} Challenge`}
-          message={`Are you sure you want to ${confirmDialog.action} "${confirmDialog.title}"? This action cannot be undone.`}
-          confirmLabel={confirmDialog.action === 'approve' ? 'Approve' : 'Reject'}
-          confirmVariant={confirmDialog.action === 'approve' ? 'primary' : 'danger'}
+          confirmLabel={DECISION_LABELS[confirmDialog.action].label}
+          confirmVariant={confirmDialog.action === 'REJECT' ? 'danger' : 'primary'}
         />
       )}
     </>
@@ -2,6 +2,8 @@
  * Admin components barrel export
  */
 
+export { AppealQueue } from './AppealQueue';
 export { ComplianceHeartbeat } from './ComplianceHeartbeat';
 export { EventTimeline } from './EventTimeline';
+export { IncidentQueue } from './IncidentQueue';
 export { VettingQueue } from './VettingQueue';
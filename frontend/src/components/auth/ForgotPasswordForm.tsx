@@ -0,0 +1,75 @@
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Input } from '../common/Input';
+import { Button } from '../common/Button';
+import { authService } from '../../services/auth.service';
+import type { ApiError } from '../../types';
+
+const forgotPasswordSchema = z.object({
+  email: z.string().email('Invalid email address'),
+});
+
+type ForgotPasswordFormData = z.infer<typeof forgotPasswordSchema>;
+
+/**
+ * Forgot password form: asks for the account email and sends a reset link
+ */
+export const ForgotPasswordForm = () => {
+  const [apiError, setApiError] = useState<string>('');
+  const [loading, setLoading] = useState(false);
+  const [sentTo, setSentTo] = useState<string | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<ForgotPasswordFormData>({
+    resolver: zodResolver(forgotPasswordSchema),
+  });
+
+  const onSubmit = async (data: ForgotPasswordFormData) => {
+    try {
+      setLoading(true);
+      setApiError('');
+      await authService.forgotPassword(data.email);
+      setSentTo(data.email);
+    } catch (error) {
+      const apiErr = error as ApiError;
+      setApiError(apiErr.message || 'Could not send the reset link. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (sentTo) {
+    return (
+      <div className="bg-green-500/10 border border-green-500 text-green-400 px-4 py-3 rounded" role="status">
+        If an account exists for {sentTo}, a password reset link is on its way.
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+      {apiError && (
+        <div className="bg-red-50 border border-red-400 text-red-700 px-4 py-3 rounded">
+          {apiError}
+        </div>
+      )}
+
+      <Input
+        label="Email"
+        type="email"
+        placeholder="your@email.com"
+        error={errors.email?.message}
+        {...register('email')}
+      />
+
+      <Button type="submit" loading={loading} className="w-full">
+        Send reset link
+      </Button>
+    </form>
+  );
+};
@@ -2,7 +2,7 @@ import { useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
-import { useNavigate } from 'react-router-dom';
+import { Link, useNavigate } from 'react-router-dom';
 import { Input } from '../common/Input';
 import { Button } from '../common/Button';
 import { authService } from '../../services/auth.service';
@@ -24,6 +24,7 @@ export const LoginForm = () => {
   const { setAuth } = useAuthStore();
   const [apiError, setApiError] = useState<string>('');
   const [loading, setLoading] = useState(false);
+  const [walletLoading, setWalletLoading] = useState(false);
 
   const {
     register,
@@ -38,7 +39,7 @@ export const LoginForm = () => {
       setLoading(true);
       setApiError('');
       const response = await authService.login(data);
-      setAuth(response.user, response.token);
+      setAuth(response.user, response.token, response.refreshToken);
       navigate('/dashboard');
     } catch (error) {
       const apiErr = error as ApiError;
@@ -48,6 +49,21 @@ export const LoginForm = () => {
     }
   };
 
+  const onConnectWallet = async () => {
+    try {
+      setWalletLoading(true);
+      setApiError('');
+      const response = await authService.loginWithWallet();
+      setAuth(response.user, response.token, response.refreshToken);
+      navigate('/dashboard');
+    } catch (error) {
+      const apiErr = error as ApiError;
+      setApiError(apiErr.message || 'Wallet sign-in failed. Please try again.');
+    } finally {
+      setWalletLoading(false);
+    }
+  };
+
   return (
     <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
       {apiError && (
@@ -72,9 +88,29 @@ export const LoginForm = () => {
         {...register('password')}
       />
 
+      <div className="-mt-4 text-right">
+        <Link
+          to="/forgot-password"
+          className="text-sm text-[var(--primary)] hover:text-[var(--secondary)] transition-all"
+        >
+          Forgot password?
+        </Link>
+      </div>
+
       <Button type="submit" loading={loading} className="w-full">
         Login
       </Button>
+
+      <Button
+        type="button"
+        variant="outline"
+        loading={walletLoading}
+        disabled={loading}
+        onClick={onConnectWallet}
+        className="w-full"
+      >
+        Connect wallet
+      </Button>
     </form>
   );
 };
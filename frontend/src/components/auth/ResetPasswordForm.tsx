@@ -0,0 +1,102 @@
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Link } from 'react-router-dom';
+import { Input } from '../common/Input';
+import { Button } from '../common/Button';
+import { authService } from '../../services/auth.service';
+import { useAuthStore } from '../../stores/authStore';
+import type { ApiError } from '../../types';
+
+const resetPasswordSchema = z
+  .object({
+    password: z.string().min(8, 'Password must be at least 8 characters'),
+    confirmPassword: z.string(),
+  })
+  .refine((data) => data.password === data.confirmPassword, {
+    message: "Passwords don't match",
+    path: ['confirmPassword'],
+  });
+
+type ResetPasswordFormData = z.infer<typeof resetPasswordSchema>;
+
+interface ResetPasswordFormProps {
+  token: string;
+}
+
+/**
+ * Reset password form: sets a new password with the token from a reset email
+ */
+export const ResetPasswordForm = ({ token }: ResetPasswordFormProps) => {
+  const { clearAuth } = useAuthStore();
+  const [apiError, setApiError] = useState<string>('');
+  const [loading, setLoading] = useState(false);
+  const [done, setDone] = useState(false);
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<ResetPasswordFormData>({
+    resolver: zodResolver(resetPasswordSchema),
+  });
+
+  const onSubmit = async (data: ResetPasswordFormData) => {
+    try {
+      setLoading(true);
+      setApiError('');
+      await authService.resetPassword(token, data.password);
+      // The reset ended every session, including any in this browser
+      clearAuth();
+      setDone(true);
+    } catch (error) {
+      const apiErr = error as ApiError;
+      setApiError(apiErr.message || 'Could not reset your password. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (done) {
+    return (
+      <div className="bg-green-500/10 border border-green-500 text-green-400 px-4 py-3 rounded" role="status">
+        Password updated. You've been signed out everywhere;{' '}
+        <Link to="/login" className="font-medium underline">
+          sign in
+        </Link>{' '}
+        with your new password.
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+      {apiError && (
+        <div className="bg-red-50 border border-red-400 text-red-700 px-4 py-3 rounded">
+          {apiError}
+        </div>
+      )}
+
+      <Input
+        label="New password"
+        type="password"
+        placeholder="••••••••"
+        error={errors.password?.message}
+        {...register('password')}
+      />
+
+      <Input
+        label="Confirm new password"
+        type="password"
+        placeholder="••••••••"
+        error={errors.confirmPassword?.message}
+        {...register('confirmPassword')}
+      />
+
+      <Button type="submit" loading={loading} className="w-full">
+        Set new password
+      </Button>
+    </form>
+  );
+};
@@ -42,7 +42,7 @@ export const SignupForm = () => {
       setLoading(true);
       setApiError('');
       const response = await authService.signup(data);
-      setAuth(response.user, response.token);
+      setAuth(response.user, response.token, response.refreshToken);
       navigate('/dashboard');
     } catch (error) {
       const apiErr = error as ApiError;
@@ -5,6 +5,8 @@ import { ErrorMessage } from '../common/ErrorMessage';
 import { PaymentBreakdown } from '../payments/PaymentBreakdown';
 import { contributionsService } from '../../services/contributions.service';
 import { paymentsService } from '../../services/payments.service';
+import { payoutsService } from '../../services/payouts.service';
+import { PayoutProposalStatus } from '../../types/payouts';
 import { formatCurrency } from '../../utils/format';
 import type { PaymentSummary } from '../../types';
 
@@ -21,6 +23,7 @@ interface CompleteChallengeModalProps {
  * CompleteChallengeModal Component
  *
  * Modal for previewing payment distribution before completing a challenge.
+ * Payments are released from the challenge's approved payout proposal.
  * Shows warning about irreversibility and requires explicit confirmation.
  */
 export const CompleteChallengeModal = ({
@@ -51,22 +54,39 @@ export const CompleteChallengeModal = ({
     setError('');
 
     try {
-      const data = await contributionsService.getContributionsByChallenge(challengeId);
+      const [data, payouts] = await Promise.all([
+        contributionsService.getContributionsByChallenge(challengeId),
+        payoutsService.getByChallengeId(challengeId),
+      ]);
 
-      // Calculate payment preview
+      // Payments are released from the latest payout proposal, once approved
+      const proposal = payouts[0];
+      if (!proposal || proposal.status !== PayoutProposalStatus.APPROVED) {
+        setPaymentPreview(null);
+        setError(
+          proposal
+            ? `The payout proposal must be approved by the sponsor and pass audit before completion (current status: ${proposal.status}).`
+            : 'No payout proposal yet. The Project Leader must propose a payout from the signed composition manifest.'
+        );
+        return;
+      }
+
+      // Token values are shown for context alongside the approved amounts
       const preview = paymentsService.calculatePaymentPreview(data, bountyAmount);
 
       // Create PaymentSummary structure
       const summary: PaymentSummary = {
         totalAmount: bountyAmount,
-        totalRecipients: preview.length,
-        splits: preview.map(p => ({
-          userId: p.userId,
-          contributionId: data.find(c => c.userId === p.userId)?.id || '',
-          percentage: p.percentage,
-          amount: p.amount,
-          tokenValue: p.tokenValue,
-        })),
+        totalRecipients: proposal.distribution.filter(e => e.amount > 0).length,
+        splits: proposal.distribution
+          .filter(e => e.amount > 0)
+          .map(e => ({
+            userId: e.userId,
+            contributionId: e.contributionId || data.find(c => c.userId === e.userId)?.id || '',
+            percentage: bountyAmount > 0 ? (e.amount / bountyAmount) * 100 : 0,
+            amount: e.amount,
+            tokenValue: preview.find(p => p.userId === e.userId)?.tokenValue || 0,
+          })),
       };
 
       setPaymentPreview(summary);
@@ -256,7 +276,7 @@ export const CompleteChallengeModal = ({
             </Button>
             <Button
               onClick={handleConfirm}
-              disabled={!confirmed || confirming || loading}
+              disabled={!confirmed || confirming || loading || !paymentPreview}
               className="min-h-[44px] bg-[var(--success)] text-[var(--bg-primary)] hover:shadow-[0_0_30px_var(--success-glow)] disabled:opacity-50 disabled:cursor-not-allowed"
             >
               {confirming ? (
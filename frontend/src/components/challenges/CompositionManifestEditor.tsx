@@ -0,0 +1,306 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Card } from '../common/Card';
+import { Button } from '../common/Button';
+import { manifestsService } from '../../services/manifests.service';
+import { proposalsService } from '../../services/proposals.service';
+import { ProposalStatus } from '../../types/proposals';
+import type { CompositionManifest, ManifestEntry } from '../../types/manifests';
+import type { ApiError } from '../../types';
+import { formatRelativeTime } from '../../utils/format';
+
+interface CompositionManifestEditorProps {
+  challengeId: string;
+  isProjectLeader: boolean;
+  isCompleted: boolean;
+}
+
+interface DraftRow {
+  contributorId: string;
+  role: string;
+  percentage: string;
+}
+
+// Matches the backend tolerance for totalDeclared
+const WEIGHT_TOLERANCE = 0.001;
+
+const toRows = (entries: ManifestEntry[]): DraftRow[] =>
+  entries.map((e) => ({
+    contributorId: e.contributorId,
+    role: e.role,
+    percentage: String(Math.round(e.weight * 1000) / 10),
+  }));
+
+const toEntries = (rows: DraftRow[]): ManifestEntry[] =>
+  rows.map((r) => ({
+    contributorId: r.contributorId,
+    role: r.role.trim(),
+    weight: Math.round((parseFloat(r.percentage) || 0) * 10) / 1000,
+  }));
+
+/**
+ * Section within ChallengePage for the composition manifest
+ * Project Leaders draft contributor/role/weight entries and sign once weights total 100%;
+ * everyone else sees the manifest read-only
+ */
+export const CompositionManifestEditor = ({
+  challengeId,
+  isProjectLeader,
+  isCompleted,
+}: CompositionManifestEditorProps) => {
+  const [manifest, setManifest] = useState<CompositionManifest | null>(null);
+  const [rows, setRows] = useState<DraftRow[]>([]);
+  const [contributors, setContributors] = useState<{ id: string; email: string }[]>([]);
+  const [dirty, setDirty] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const canEdit = isProjectLeader && !isCompleted;
+
+  const fetchManifest = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const [data, proposals] = await Promise.all([
+        manifestsService.getByChallengeId(challengeId),
+        proposalsService.getByChallengeId(challengeId),
+      ]);
+      setManifest(data);
+      setRows(data ? toRows(data.entries) : []);
+      setContributors(
+        proposals
+          .filter((p) => p.status === ProposalStatus.ACCEPTED)
+          .map((p) => p.contributor)
+      );
+      setDirty(false);
+    } catch (err) {
+      const apiError = err as ApiError;
+      setError(apiError.message || 'Failed to load composition manifest');
+    } finally {
+      setLoading(false);
+    }
+  }, [challengeId]);
+
+  useEffect(() => {
+    fetchManifest();
+  }, [fetchManifest]);
+
+  const updateRow = (index: number, field: keyof DraftRow, value: string) => {
+    setRows((prev) => prev.map((row, i) => (i === index ? { ...row, [field]: value } : row)));
+    setDirty(true);
+  };
+
+  const addRow = () => {
+    setRows((prev) => [...prev, { contributorId: contributors[0]?.id || '', role: '', percentage: '' }]);
+    setDirty(true);
+  };
+
+  const removeRow = (index: number) => {
+    setRows((prev) => prev.filter((_, i) => i !== index));
+    setDirty(true);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+
+    try {
+      const saved = await manifestsService.saveDraft(challengeId, toEntries(rows));
+      setManifest(saved);
+      setRows(toRows(saved.entries));
+      setDirty(false);
+    } catch (err) {
+      const apiError = err as ApiError;
+      setError(apiError.message || 'Failed to save composition manifest');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSign = async () => {
+    if (!window.confirm('Sign this manifest? Payout proposals will be checked against it.')) {
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+
+    try {
+      const signed = await manifestsService.sign(challengeId);
+      setManifest(signed);
+    } catch (err) {
+      const apiError = err as ApiError;
+      setError(apiError.message || 'Failed to sign composition manifest');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const contributorEmail = (id: string) =>
+    contributors.find((c) => c.id === id)?.email || id;
+
+  const total = toEntries(rows).reduce((sum, e) => sum + e.weight, 0);
+  const totalValid = Math.abs(total - 1) <= WEIGHT_TOLERANCE;
+  const rowsValid = rows.length > 0 && rows.every((r) => r.contributorId && r.role.trim() && parseFloat(r.percentage) > 0);
+  const canSign = canEdit && !!manifest && !manifest.signedByLeader && !dirty && totalValid;
+
+  // Nothing to show contributors until the leader has drafted something
+  if (!loading && !manifest && !canEdit) {
+    return null;
+  }
+
+  return (
+    <div className="mt-8 space-y-4">
+      {/* Section Header */}
+      <div className="flex items-center justify-between">
+        <h2
+          className="text-2xl font-bold text-[var(--text-primary)]"
+          style={{ fontFamily: 'var(--font-display)' }}
+        >
+          Composition Manifest
+        </h2>
+        {manifest && (
+          <span
+            className={`px-3 py-1 rounded-full text-xs font-semibold ${
+              manifest.signedByLeader
+                ? 'bg-green-900/40 text-green-400 border border-green-600'
+                : 'bg-yellow-900/40 text-yellow-400 border border-yellow-600'
+            }`}
+            style={{ fontFamily: 'var(--font-display)' }}
+          >
+            {manifest.signedByLeader ? 'SIGNED' : 'DRAFT'}
+          </span>
+        )}
+      </div>
+
+      {/* Error Message */}
+      {error && (
+        <div
+          className="p-4 bg-red-900/20 border border-red-500 rounded-lg text-red-400"
+          role="alert"
+          aria-live="polite"
+        >
+          {error}
+        </div>
+      )}
+
+      <Card>
+        {loading ? (
+          <p className="text-[var(--text-muted)]">Loading manifest...</p>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-sm text-[var(--text-muted)]">
+              Declares who contributed, in what role, and their share of the work. Weights must total
+              100% before the Project Leader can sign.
+              {manifest?.signedAt && ` Signed ${formatRelativeTime(manifest.signedAt)}.`}
+            </p>
+
+            {rows.length === 0 && (
+              <p className="text-[var(--text-secondary)]">No entries yet.</p>
+            )}
+
+            {rows.map((row, index) => (
+              <div key={index} className="flex flex-col md:flex-row gap-3 md:items-center">
+                {canEdit ? (
+                  <>
+                    <select
+                      value={row.contributorId}
+                      onChange={(e) => updateRow(index, 'contributorId', e.target.value)}
+                      className="input flex-1 min-h-[44px]"
+                      aria-label="Contributor"
+                    >
+                      <option value="">Select contributor</option>
+                      {contributors.map((c) => (
+                        <option key={c.id} value={c.id}>
+                          {c.email}
+                        </option>
+                      ))}
+                      {row.contributorId && !contributors.some((c) => c.id === row.contributorId) && (
+                        <option value={row.contributorId}>{row.contributorId}</option>
+                      )}
+                    </select>
+                    <input
+                      type="text"
+                      value={row.role}
+                      onChange={(e) => updateRow(index, 'role', e.target.value)}
+                      placeholder="Role (e.g. Lead developer)"
+                      maxLength={100}
+                      className="input flex-1 min-h-[44px]"
+                      aria-label="Role"
+                    />
+                    <div className="flex items-center gap-2">
+                      <input
+                        type="number"
+                        value={row.percentage}
+                        onChange={(e) => updateRow(index, 'percentage', e.target.value)}
+                        min={0.1}
+                        max={100}
+                        step={0.1}
+                        className="input w-24 min-h-[44px]"
+                        aria-label="Weight percentage"
+                      />
+                      <span className="text-[var(--text-muted)]">%</span>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => removeRow(index)}
+                        aria-label="Remove entry"
+                      >
+                        Remove
+                      </Button>
+                    </div>
+                  </>
+                ) : (
+                  <>
+                    <span className="flex-1 text-[var(--text-primary)]">
+                      {contributorEmail(row.contributorId)}
+                    </span>
+                    <span className="flex-1 text-[var(--text-secondary)]">{row.role}</span>
+                    <span className="w-24 text-right text-[var(--primary)] font-semibold">
+                      {row.percentage}%
+                    </span>
+                  </>
+                )}
+              </div>
+            ))}
+
+            {/* Total */}
+            <div className="flex items-center justify-between pt-3 border-t border-[var(--border)]">
+              <span className="text-[var(--text-secondary)]">Total declared</span>
+              <span
+                className={`font-bold ${totalValid ? 'text-green-400' : 'text-yellow-400'}`}
+                style={{ fontFamily: 'var(--font-display)' }}
+              >
+                {(Math.round(total * 1000) / 10).toFixed(1)}%
+              </span>
+            </div>
+
+            {/* Project Leader Actions */}
+            {canEdit && (
+              <div className="flex flex-wrap gap-3">
+                <Button variant="secondary" onClick={addRow} disabled={saving}>
+                  Add Entry
+                </Button>
+                <Button
+                  variant="primary"
+                  onClick={handleSave}
+                  loading={saving}
+                  disabled={!dirty || !rowsValid}
+                >
+                  {manifest?.signedByLeader ? 'Save (revokes signature)' : 'Save Draft'}
+                </Button>
+                <Button variant="success" onClick={handleSign} disabled={!canSign || saving}>
+                  Sign Manifest
+                </Button>
+              </div>
+            )}
+            {canEdit && dirty && (
+              <p className="text-xs text-[var(--text-muted)]">Save your changes before signing.</p>
+            )}
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,145 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Card } from '../common/Card';
+import { Button } from '../common/Button';
+import { ipAssignmentsService } from '../../services/ipAssignments.service';
+import type { IPAgreement } from '../../types/ipAssignments';
+import type { ApiError } from '../../types';
+import { formatRelativeTime } from '../../utils/format';
+
+interface IPAssignmentPanelProps {
+  challengeId: string;
+}
+
+/**
+ * Section within ChallengePage for contributors to read and sign the
+ * challenge's IP assignment agreement. Payouts are blocked until every
+ * contributor has signed.
+ */
+export const IPAssignmentPanel = ({ challengeId }: IPAssignmentPanelProps) => {
+  const [agreement, setAgreement] = useState<IPAgreement | null>(null);
+  const [signedName, setSignedName] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [signing, setSigning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchAgreement = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      setAgreement(await ipAssignmentsService.getAgreement(challengeId));
+    } catch (err) {
+      const apiError = err as ApiError;
+      setError(apiError.message || 'Failed to load IP assignment agreement');
+    } finally {
+      setLoading(false);
+    }
+  }, [challengeId]);
+
+  useEffect(() => {
+    fetchAgreement();
+  }, [fetchAgreement]);
+
+  const handleSign = async () => {
+    if (!agreement) return;
+
+    setSigning(true);
+    setError(null);
+
+    try {
+      const assignment = await ipAssignmentsService.sign(
+        challengeId,
+        signedName.trim(),
+        agreement.contentHash
+      );
+      setAgreement({ ...agreement, assignment });
+      setSignedName('');
+    } catch (err) {
+      const apiError = err as ApiError;
+      setError(apiError.message || 'Failed to sign IP assignment agreement');
+    } finally {
+      setSigning(false);
+    }
+  };
+
+  const assignment = agreement?.assignment;
+  const signedCurrent = !!assignment && assignment.contentHash === agreement?.contentHash;
+
+  return (
+    <div className="mt-8 space-y-4">
+      {/* Section Header */}
+      <div className="flex items-center justify-between">
+        <h2
+          className="text-2xl font-bold text-[var(--text-primary)]"
+          style={{ fontFamily: 'var(--font-display)' }}
+        >
+          IP Assignment
+        </h2>
+        {agreement && (
+          <span
+            className={`px-3 py-1 rounded-full text-xs font-semibold ${
+              signedCurrent
+                ? 'bg-green-900/40 text-green-400 border border-green-600'
+                : 'bg-yellow-900/40 text-yellow-400 border border-yellow-600'
+            }`}
+            style={{ fontFamily: 'var(--font-display)' }}
+          >
+            {signedCurrent ? 'SIGNED' : assignment ? 'RE-SIGN REQUIRED' : 'UNSIGNED'}
+          </span>
+        )}
+      </div>
+
+      {/* Error Message */}
+      {error && (
+        <div
+          className="p-4 bg-red-900/20 border border-red-500 rounded-lg text-red-400"
+          role="alert"
+          aria-live="polite"
+        >
+          {error}
+        </div>
+      )}
+
+      <Card>
+        {loading ? (
+          <p className="text-[var(--text-muted)]">Loading agreement...</p>
+        ) : agreement ? (
+          <div className="space-y-4">
+            <pre className="whitespace-pre-wrap text-sm text-[var(--text-secondary)] max-h-72 overflow-y-auto p-4 rounded-lg bg-[var(--bg-surface)] border border-[var(--border)]">
+              {agreement.text}
+            </pre>
+            <p className="text-xs font-mono text-[var(--text-muted)] break-all">
+              SHA-256: {agreement.contentHash}
+            </p>
+
+            {signedCurrent && assignment ? (
+              <p className="text-sm text-green-400">
+                Signed by {assignment.signedName} {formatRelativeTime(assignment.signedAt)}.
+              </p>
+            ) : (
+              <div className="flex flex-col md:flex-row gap-3 md:items-center">
+                <input
+                  type="text"
+                  value={signedName}
+                  onChange={(e) => setSignedName(e.target.value)}
+                  placeholder="Type your full name to sign"
+                  maxLength={200}
+                  className="input input-focus-glow flex-1 min-h-[44px]"
+                  aria-label="Full name"
+                />
+                <Button
+                  variant="success"
+                  onClick={handleSign}
+                  loading={signing}
+                  disabled={signedName.trim().length < 2}
+                >
+                  {assignment ? 'Sign Updated Agreement' : 'Sign Agreement'}
+                </Button>
+              </div>
+            )}
+          </div>
+        ) : null}
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,53 @@
+import { useState } from 'react';
+import { Button } from './Button';
+import { appealService } from '../../services/ai.service';
+import type { ApiError } from '../../types';
+
+const MIN_REASON_LENGTH = 20;
+
+interface AppealButtonProps {
+  entityType: 'CONTRIBUTION' | 'PROPOSAL' | 'SUBMISSION';
+  entityId: string;
+}
+
+/**
+ * Lets the author appeal a moderation hold on their content.
+ * The appeal is decided by a moderator who did not make the original decision.
+ */
+export const AppealButton = ({ entityType, entityId }: AppealButtonProps) => {
+  const [filed, setFiled] = useState(false);
+  const [loading, setLoading] = useState(false);
+
+  const handleAppeal = async () => {
+    const reason = window.prompt(
+      `Why should this decision be reviewed? (at least ${MIN_REASON_LENGTH} characters)`
+    );
+    if (reason === null) return;
+
+    if (reason.trim().length < MIN_REASON_LENGTH) {
+      alert(`Please give a reason of at least ${MIN_REASON_LENGTH} characters`);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      await appealService.fileAppeal(entityType, entityId, reason.trim());
+      setFiled(true);
+    } catch (err) {
+      const apiError = err as ApiError;
+      alert(apiError.message || 'Failed to file appeal');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (filed) {
+    return <p className="text-sm mt-2">Appeal filed. A different moderator will review it.</p>;
+  }
+
+  return (
+    <Button variant="outline" size="sm" onClick={handleAppeal} loading={loading} className="mt-2">
+      Appeal this decision
+    </Button>
+  );
+};
@@ -3,6 +3,8 @@
  * Centralized exports for all reusable components
  */
 
+export { AppealButton } from './AppealButton';
+
 export { Badge } from './Badge';
 export type { BadgeVariant, BadgeSize, BadgeStyle } from './Badge';
 
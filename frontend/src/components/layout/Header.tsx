@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react';
 import { Link, useNavigate, useLocation } from 'react-router-dom';
 import { useAuthStore } from '../../stores/authStore';
+import { authService } from '../../services/auth.service';
 
 /**
  * Header component with navigation and authentication controls
@@ -24,7 +25,12 @@ export const Header = () => {
     return () => document.removeEventListener('keydown', handleEscape);
   }, [mobileMenuOpen]);
 
-  const handleLogout = () => {
+  const handleLogout = async () => {
+    try {
+      await authService.logout();
+    } catch {
+      // The session may already be gone; sign out locally regardless
+    }
     clearAuth();
     navigate('/');
     setMobileMenuOpen(false);
@@ -0,0 +1,119 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Button } from '../common/Button';
+import { authService } from '../../services/auth.service';
+import { useAuthStore } from '../../stores/authStore';
+import type { ApiError, Session } from '../../types';
+import { formatRelativeTime } from '../../utils/format';
+
+/**
+ * Sessions section within ProfilePage
+ * Lists the devices the user is signed in on and lets them sign any of them out
+ */
+export const ActiveSessions = () => {
+  const navigate = useNavigate();
+  const { clearAuth } = useAuthStore();
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchSessions();
+  }, []);
+
+  const fetchSessions = async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      setSessions(await authService.getSessions());
+    } catch (err) {
+      const apiError = err as ApiError;
+      setError(apiError.message || 'Failed to load sessions');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRevoke = async (session: Session) => {
+    setBusy(true);
+    setError(null);
+
+    try {
+      await authService.revokeSession(session.id);
+      if (session.current) {
+        clearAuth();
+        navigate('/login');
+        return;
+      }
+      setSessions((current) => current.filter((s) => s.id !== session.id));
+    } catch (err) {
+      const apiError = err as ApiError;
+      setError(apiError.message || 'Failed to sign out device');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleLogoutEverywhere = async () => {
+    if (!window.confirm('Sign out on every device, including this one?')) return;
+
+    setBusy(true);
+    setError(null);
+
+    try {
+      await authService.logoutEverywhere();
+      clearAuth();
+      navigate('/login');
+    } catch (err) {
+      const apiError = err as ApiError;
+      setError(apiError.message || 'Failed to sign out everywhere');
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="bg-[--bg-surface] border border-[--border] rounded-lg p-6 shadow-[0_0_20px_rgba(0,217,255,0.1)] mb-6">
+      <div className="flex justify-between items-center mb-6">
+        <h2 style={{ fontFamily: 'var(--font-display)' }} className="text-xl font-bold text-[--primary]">
+          Active Sessions
+        </h2>
+        <Button variant="danger" size="sm" disabled={busy || loading} onClick={handleLogoutEverywhere}>
+          Log out everywhere
+        </Button>
+      </div>
+
+      {loading && <p className="text-[--text-muted]">Loading sessions...</p>}
+
+      {error && (
+        <div className="bg-red-500/10 border border-red-500 text-red-400 px-4 py-3 rounded-lg mb-4" role="alert">
+          {error}
+        </div>
+      )}
+
+      {!loading && (
+        <ul className="divide-y divide-[--border]">
+          {sessions.map((session) => (
+            <li key={session.id} className="flex justify-between items-center py-3 gap-4">
+              <div className="min-w-0">
+                <p className="text-sm text-[--text-primary] truncate">
+                  {session.userAgent || 'Unknown device'}
+                  {session.current && (
+                    <span className="ml-2 text-xs text-[--success]">(this device)</span>
+                  )}
+                </p>
+                <p className="text-xs text-[--text-muted]">
+                  {session.ipAddress || 'Unknown IP'} · Last active {formatRelativeTime(session.lastUsedAt)}
+                </p>
+              </div>
+              <Button variant="ghost" size="sm" disabled={busy} onClick={() => handleRevoke(session)}>
+                Sign out
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
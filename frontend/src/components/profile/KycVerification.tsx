@@ -0,0 +1,113 @@
+import { useEffect, useState } from 'react';
+import { Button } from '../common/Button';
+import { kycService } from '../../services/kyc.service';
+import type { ApiError, KycStatus, KycStatusSummary } from '../../types';
+import { formatDate } from '../../utils/format';
+
+const STATUS_LABELS: Record<KycStatus, { label: string; className: string }> = {
+  PENDING: { label: 'Not verified', className: 'text-[--warning]' },
+  VERIFIED: { label: 'Verified', className: 'text-[--success]' },
+  REJECTED: { label: 'Rejected', className: 'text-red-400' },
+  EXPIRED: { label: 'Expired', className: 'text-[--warning]' },
+};
+
+/**
+ * Identity verification section within ProfilePage
+ * Shows the user's KYC status and sends them to the provider to verify
+ */
+export const KycVerification = () => {
+  const [kyc, setKyc] = useState<KycStatusSummary | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [starting, setStarting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchStatus();
+  }, []);
+
+  const fetchStatus = async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      setKyc(await kycService.getStatus());
+    } catch (err) {
+      const apiError = err as ApiError;
+      setError(apiError.message || 'Failed to load verification status');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleStart = async () => {
+    setStarting(true);
+    setError(null);
+
+    try {
+      const session = await kycService.startVerification();
+      window.location.assign(session.redirectUrl);
+    } catch (err) {
+      const apiError = err as ApiError;
+      setError(apiError.message || 'Failed to start verification');
+      setStarting(false);
+    }
+  };
+
+  const inProgress = kyc?.latest?.status === 'PENDING';
+
+  return (
+    <div className="bg-[--bg-surface] border border-[--border] rounded-lg p-6 shadow-[0_0_20px_rgba(0,217,255,0.1)] mb-6">
+      <div className="flex justify-between items-center mb-6">
+        <h2 style={{ fontFamily: 'var(--font-display)' }} className="text-xl font-bold text-[--primary]">
+          Identity Verification
+        </h2>
+        {kyc && kyc.status !== 'VERIFIED' && (
+          <Button variant="outline" size="sm" loading={starting} onClick={handleStart}>
+            {inProgress
+              ? 'Continue verification'
+              : kyc.status === 'PENDING'
+                ? 'Verify identity'
+                : 'Verify again'}
+          </Button>
+        )}
+      </div>
+
+      {loading && <p className="text-[--text-muted]">Loading verification status...</p>}
+
+      {error && (
+        <div className="bg-red-500/10 border border-red-500 text-red-400 px-4 py-3 rounded-lg mb-4" role="alert">
+          {error}
+        </div>
+      )}
+
+      {kyc && (
+        <div className="space-y-2">
+          <p className={`text-lg font-semibold ${STATUS_LABELS[kyc.status].className}`}>
+            {STATUS_LABELS[kyc.status].label}
+            {inProgress && <span className="ml-2 text-sm text-[--text-muted]">(in progress)</span>}
+          </p>
+
+          {kyc.status === 'VERIFIED' && kyc.expiresAt && (
+            <p className="text-sm text-[--text-secondary]">Valid until {formatDate(kyc.expiresAt)}</p>
+          )}
+
+          {kyc.status === 'EXPIRED' && (
+            <p className="text-sm text-[--text-secondary]">
+              Your verification has lapsed. Verify again to keep receiving payouts.
+            </p>
+          )}
+
+          {kyc.status === 'REJECTED' && kyc.latest?.reason && (
+            <p className="text-sm text-[--text-secondary]">Reason: {kyc.latest.reason}</p>
+          )}
+
+          {kyc.status !== 'VERIFIED' && kyc.status !== 'EXPIRED' && (
+            <p className="text-sm text-[--text-muted]">
+              You need to verify your identity before you can receive payouts.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,109 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Badge } from '../common/Badge';
+import { reputationService } from '../../services/reputation.service';
+import type { Reputation } from '../../types/reputation';
+import type { ApiError } from '../../types';
+import { formatRelativeTime } from '../../utils/format';
+
+interface ReputationSummaryProps {
+  userId: string;
+}
+
+/**
+ * Reputation section within ProfilePage
+ * Shows role scores, project history, disputes and earned badges
+ */
+export const ReputationSummary = ({ userId }: ReputationSummaryProps) => {
+  const [reputation, setReputation] = useState<Reputation | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchReputation = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      setReputation(await reputationService.getByUserId(userId));
+    } catch (err) {
+      const apiError = err as ApiError;
+      setError(apiError.message || 'Failed to load reputation');
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    fetchReputation();
+  }, [fetchReputation]);
+
+  const scores = reputation
+    ? [
+        { label: 'As Contributor', value: reputation.asContributor },
+        { label: 'As Project Leader', value: reputation.asProjectLeader },
+        { label: 'As Sponsor', value: reputation.asSponsor },
+      ]
+    : [];
+
+  return (
+    <div className="bg-[--bg-surface] border border-[--border] rounded-lg p-6 shadow-[0_0_20px_rgba(0,217,255,0.1)] mb-6">
+      <div className="flex justify-between items-center mb-6">
+        <h2 style={{ fontFamily: 'var(--font-display)' }} className="text-xl font-bold text-[--primary]">
+          Reputation
+        </h2>
+        {reputation && (
+          <span className="text-xs text-[--text-muted]">
+            Updated {formatRelativeTime(reputation.lastUpdated)}
+          </span>
+        )}
+      </div>
+
+      {loading && <p className="text-[--text-muted]">Loading reputation...</p>}
+
+      {error && (
+        <div className="bg-red-500/10 border border-red-500 text-red-400 px-4 py-3 rounded-lg" role="alert">
+          {error}
+        </div>
+      )}
+
+      {reputation && (
+        <div className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {scores.map((score) => (
+              <div key={score.label} className="text-center">
+                <p className="text-sm text-[--text-muted] mb-1">{score.label}</p>
+                <p className="text-2xl font-bold text-[--text-primary]">{score.value}</p>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap gap-x-6 gap-y-2 text-sm text-[--text-secondary]">
+            <span>
+              {reputation.successfulProjects} of {reputation.totalProjects} projects completed
+            </span>
+            <span>{reputation.disputesRaised} disputes raised</span>
+            <span className={reputation.disputesAgainst > 0 ? 'text-[--warning]' : undefined}>
+              {reputation.disputesAgainst} disputes against
+            </span>
+          </div>
+
+          <div>
+            <p className="text-sm text-[--text-muted] mb-2">Badges</p>
+            {reputation.badges.length === 0 ? (
+              <p className="text-[--text-secondary]">No badges earned yet.</p>
+            ) : (
+              <div className="flex flex-wrap gap-2">
+                {reputation.badges.map((badge) => (
+                  <span key={badge.id} title={badge.description}>
+                    <Badge variant="success" size="sm">
+                      {badge.label}
+                    </Badge>
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
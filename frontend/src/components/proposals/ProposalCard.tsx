@@ -2,6 +2,7 @@ import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Card } from '../common/Card';
 import { Button } from '../common/Button';
+import { AppealButton } from '../common/AppealButton';
 import type { Proposal } from '../../types/proposals';
 import { ProposalStatus } from '../../types/proposals';
 
@@ -159,6 +160,16 @@ export const ProposalCard = ({
         </div>
       )}
 
+      {/* Moderation Hold */}
+      {proposal.moderationStatus === 'QUARANTINED' && (
+        <div className="mb-4 p-3 rounded-lg border bg-yellow-900/20 border-yellow-600 text-yellow-400" role="status">
+          <p className="text-sm">
+            Held for moderation review. Only you can see this proposal until a moderator has checked it.
+          </p>
+          <AppealButton entityType="PROPOSAL" entityId={proposal.id} />
+        </div>
+      )}
+
       {/* Response Info (for accepted/rejected proposals) */}
       {(proposal.status === ProposalStatus.ACCEPTED || proposal.status === ProposalStatus.REJECTED) &&
         proposal.respondedBy && (
@@ -1,5 +1,6 @@
 import { useState } from 'react';
 import { Button } from '../common/Button';
+import { AppealButton } from '../common/AppealButton';
 import { formatFileSize, formatDateTime } from '../../utils/format';
 import { SubmissionStatus } from '../../types/submissions';
 import type { Submission } from '../../types/submissions';
@@ -157,6 +158,16 @@ export const SubmissionCard = ({
           </div>
         )}
 
+        {/* Moderation Hold */}
+        {submission.moderationStatus === 'QUARANTINED' && (
+          <div className="mb-4 p-3 rounded-lg border bg-yellow-900/20 border-yellow-600 text-yellow-400" role="status">
+            <p className="text-sm">
+              Held for moderation review. It can't be submitted until a moderator has checked it.
+            </p>
+            {isOwner && <AppealButton entityType="SUBMISSION" entityId={submission.id} />}
+          </div>
+        )}
+
         {/* Review Notes */}
         {submission.reviewNotes && (
           <div className={`mb-4 p-3 rounded-lg border ${
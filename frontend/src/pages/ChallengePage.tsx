@@ -7,6 +7,8 @@ import { ChallengeProposalsSection } from '../components/challenges/ChallengePro
 import { ChallengeSubmissionsSection } from '../components/challenges/ChallengeSubmissionsSection';
 import { CompleteChallengeModal } from '../components/challenges/CompleteChallengeModal';
 import { ChallengePaymentsSection } from '../components/challenges/ChallengePaymentsSection';
+import { CompositionManifestEditor } from '../components/challenges/CompositionManifestEditor';
+import { IPAssignmentPanel } from '../components/challenges/IPAssignmentPanel';
 import { Loading } from '../components/common/Loading';
 import { ErrorMessage } from '../components/common/ErrorMessage';
 import { Button } from '../components/common/Button';
@@ -133,6 +135,9 @@ export const ChallengePage = () => {
       )
     : false;
 
+  const isContributor =
+    hasAcceptedProposal || (!!user && contributions.some((c) => c.userId === user.id));
+
   const statusColors = {
     OPEN: 'bg-[var(--success)]/20 text-[var(--success)] border border-[var(--success)]',
     IN_PROGRESS: 'bg-[var(--primary)]/20 text-[var(--primary)] border border-[var(--primary)]',
@@ -197,6 +202,21 @@ export const ChallengePage = () => {
             )}
           </Card>
 
+          {/* Vetting status (sponsor only) */}
+          {challenge.vettingStatus && challenge.vettingStatus !== 'APPROVED' && (
+            <div className="mb-4 p-4 bg-[var(--warning)]/10 border border-[var(--warning)] rounded-lg text-[var(--text-secondary)]">
+              <p className="font-semibold text-[var(--text-primary)]">
+                {challenge.vettingStatus === 'PENDING' && 'Awaiting vetting: this challenge is not listed publicly yet.'}
+                {challenge.vettingStatus === 'CHANGES_REQUESTED' &&
+                  'Changes requested: edit the challenge to send it back for vetting.'}
+                {challenge.vettingStatus === 'REJECTED' && 'This challenge was rejected in vetting.'}
+              </p>
+              {challenge.vettingNotes && (
+                <p className="text-sm mt-2 whitespace-pre-wrap">{challenge.vettingNotes}</p>
+              )}
+            </div>
+          )}
+
           {/* Completion Success Message */}
           {completionSuccess && (
             <div className="mb-4 p-4 bg-green-500/10 border border-green-500 rounded-lg text-green-400">
@@ -290,6 +310,18 @@ export const ChallengePage = () => {
             />
           )}
 
+          {/* Composition Manifest Section */}
+          {user && (
+            <CompositionManifestEditor
+              challengeId={challenge.id}
+              isProjectLeader={user.id === challenge.projectLeaderId}
+              isCompleted={challenge.status === 'COMPLETED'}
+            />
+          )}
+
+          {/* IP Assignment Section - Contributors only */}
+          {user && isContributor && <IPAssignmentPanel challengeId={challenge.id} />}
+
           {/* Payments Section - Only for completed challenges */}
           {user && challenge.status === 'COMPLETED' && (
             <ChallengePaymentsSection
@@ -1,10 +1,15 @@
 import { useState, useEffect } from 'react';
 import { useLocation } from 'react-router-dom';
 import { Input } from '../components/common/Input';
+import { Button } from '../components/common/Button';
 import { Loading } from '../components/common/Loading';
 import { ErrorMessage } from '../components/common/ErrorMessage';
+import { ReputationSummary } from '../components/profile/ReputationSummary';
+import { ActiveSessions } from '../components/profile/ActiveSessions';
+import { KycVerification } from '../components/profile/KycVerification';
 import { useAuthStore } from '../stores/authStore';
 import { usersService } from '../services/users.service';
+import { authService } from '../services/auth.service';
 import type { ApiError } from '../types';
 
 interface ProfileFormData {
@@ -24,6 +29,10 @@ export const ProfilePage = () => {
   const [initialLoading, setInitialLoading] = useState(true);
   const [error, setError] = useState<string>('');
   const [success, setSuccess] = useState<string>('');
+  const [walletLinking, setWalletLinking] = useState(false);
+  const [walletError, setWalletError] = useState<string>('');
+  const [resending, setResending] = useState(false);
+  const [verificationMessage, setVerificationMessage] = useState<string>('');
 
   const [formData, setFormData] = useState<ProfileFormData>({
     displayName: user?.profile?.displayName || '',
@@ -66,6 +75,34 @@ export const ProfilePage = () => {
     }
   };
 
+  const handleLinkWallet = async () => {
+    try {
+      setWalletLinking(true);
+      setWalletError('');
+      const updatedUser = await authService.linkWallet();
+      setAuth({ ...user, ...updatedUser }, useAuthStore.getState().token || '');
+    } catch (err) {
+      const apiErr = err as ApiError;
+      setWalletError(apiErr.message || 'Failed to link wallet');
+    } finally {
+      setWalletLinking(false);
+    }
+  };
+
+  const handleResendVerification = async () => {
+    try {
+      setResending(true);
+      setVerificationMessage('');
+      await authService.resendVerificationEmail();
+      setVerificationMessage(`Verification email sent to ${user?.email}`);
+    } catch (err) {
+      const apiErr = err as ApiError;
+      setVerificationMessage(apiErr.message || 'Failed to send verification email');
+    } finally {
+      setResending(false);
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -189,6 +226,9 @@ export const ProfilePage = () => {
           </div>
         </div>
 
+        {/* Reputation */}
+        {user && <ReputationSummary userId={user.id} />}
+
         {/* Account Information */}
         <div className="bg-[--bg-surface] border border-[--border] rounded-lg p-6 shadow-[0_0_20px_rgba(0,217,255,0.1)] mb-6">
           <h2 style={{ fontFamily: 'var(--font-display)' }} className="text-xl font-bold text-[--primary] mb-6">
@@ -198,16 +238,52 @@ export const ProfilePage = () => {
           <div className="space-y-4">
             <div>
               <p className="text-sm text-[--text-muted]">Email</p>
-              <p className="text-lg font-semibold text-[--text-primary]">{user?.email}</p>
+              <div className="flex items-center gap-4">
+                <p className="text-lg font-semibold text-[--text-primary]">{user?.email}</p>
+                {user?.emailVerifiedAt ? (
+                  <span className="text-xs text-[--success]">Verified</span>
+                ) : (
+                  <Button variant="outline" size="sm" loading={resending} onClick={handleResendVerification}>
+                    Resend verification email
+                  </Button>
+                )}
+              </div>
+              {!user?.emailVerifiedAt && (
+                <p className="mt-1 text-sm text-[--warning]">
+                  Verify your email to sponsor challenges and receive payouts.
+                </p>
+              )}
+              {verificationMessage && (
+                <p className="mt-1 text-sm text-[--text-secondary]">{verificationMessage}</p>
+              )}
             </div>
 
             <div>
               <p className="text-sm text-[--text-muted]">User ID</p>
               <p className="text-sm font-mono text-[--text-secondary]">{user?.id}</p>
             </div>
+
+            <div>
+              <p className="text-sm text-[--text-muted]">Wallet</p>
+              <div className="flex items-center gap-4">
+                <p className="text-sm font-mono text-[--text-secondary]">
+                  {user?.walletAddress || 'No wallet linked'}
+                </p>
+                <Button variant="outline" size="sm" loading={walletLinking} onClick={handleLinkWallet}>
+                  {user?.walletAddress ? 'Change wallet' : 'Link wallet'}
+                </Button>
+              </div>
+              {walletError && <p className="mt-1 text-sm text-red-400">{walletError}</p>}
+            </div>
           </div>
         </div>
 
+        {/* Identity Verification */}
+        <KycVerification />
+
+        {/* Sessions */}
+        <ActiveSessions />
+
         {/* Profile Settings */}
         <div className="bg-[--bg-surface] border border-[--border] rounded-lg p-6 shadow-[0_0_20px_rgba(0,217,255,0.1)]">
           <div className="flex justify-between items-center mb-6">
@@ -0,0 +1,39 @@
+import { Link, useSearchParams } from 'react-router-dom';
+import { ResetPasswordForm } from '../components/auth/ResetPasswordForm';
+
+/**
+ * Reset password page, opened from the link in a password reset email
+ */
+export const ResetPasswordPage = () => {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+
+  return (
+    <div className="min-h-[80vh] flex items-center justify-center bg-[var(--bg-primary)] py-12 px-4 sm:px-6 lg:px-8 page-fade-in">
+      <div className="max-w-md w-full">
+        <div className="bg-[var(--bg-surface)] border-2 border-[var(--border)] rounded-lg shadow-[0_0_30px_var(--primary-glow)] p-8">
+          <div className="text-center mb-8">
+            <h2
+              className="text-3xl font-bold text-gradient-cyber mb-2"
+              style={{ fontFamily: 'var(--font-display)' }}
+            >
+              Choose a New Password
+            </h2>
+          </div>
+
+          {token ? (
+            <ResetPasswordForm token={token} />
+          ) : (
+            <div className="bg-red-50 border border-red-400 text-red-700 px-4 py-3 rounded">
+              This reset link is incomplete. Open the link from your email again, or{' '}
+              <Link to="/forgot-password" className="font-medium underline">
+                request a new one
+              </Link>
+              .
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,92 @@
+import { useEffect, useRef, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { Loading } from '../components/common/Loading';
+import { authService } from '../services/auth.service';
+import { useAuthStore } from '../stores/authStore';
+import type { ApiError } from '../types';
+
+/**
+ * Verify email page, opened from the link in a verification email.
+ * Works whether or not the user is signed in on this device.
+ */
+export const VerifyEmailPage = () => {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+  const { user } = useAuthStore();
+  const [status, setStatus] = useState<'verifying' | 'verified' | 'failed'>('verifying');
+  const [error, setError] = useState<string>('');
+  // Tokens are single-use, so never send the same one twice (StrictMode runs effects twice)
+  const submittedToken = useRef<string | null | undefined>(undefined);
+
+  useEffect(() => {
+    if (submittedToken.current === token) return;
+    submittedToken.current = token;
+
+    const verify = async () => {
+      if (!token) {
+        setError('This verification link is incomplete. Open the link from your email again.');
+        setStatus('failed');
+        return;
+      }
+
+      try {
+        const verified = await authService.verifyEmail(token);
+        // Read the session now: the user may have signed in while the request was in flight
+        const { user: current, token: accessToken, setAuth } = useAuthStore.getState();
+        if (current && accessToken && current.id === verified.id) {
+          setAuth({ ...current, emailVerifiedAt: verified.emailVerifiedAt }, accessToken);
+        }
+        setStatus('verified');
+      } catch (err) {
+        const apiError = err as ApiError;
+        setError(apiError.message || 'Could not verify your email');
+        setStatus('failed');
+      }
+    };
+
+    verify();
+  }, [token]);
+
+  if (status === 'verifying') {
+    return <Loading message="Verifying your email..." />;
+  }
+
+  return (
+    <div className="min-h-[80vh] flex items-center justify-center bg-[var(--bg-primary)] py-12 px-4 sm:px-6 lg:px-8 page-fade-in">
+      <div className="max-w-md w-full">
+        <div className="bg-[var(--bg-surface)] border-2 border-[var(--border)] rounded-lg shadow-[0_0_30px_var(--primary-glow)] p-8 text-center">
+          <h2
+            className="text-3xl font-bold text-gradient-cyber mb-4"
+            style={{ fontFamily: 'var(--font-display)' }}
+          >
+            {status === 'verified' ? 'Email Verified' : 'Verification Failed'}
+          </h2>
+
+          {status === 'verified' ? (
+            <p className="text-[var(--text-secondary)]">
+              Thanks! You can now sponsor challenges and receive payouts.
+            </p>
+          ) : (
+            <div className="bg-red-50 border border-red-400 text-red-700 px-4 py-3 rounded" role="alert">
+              {error}
+            </div>
+          )}
+
+          <div className="mt-6">
+            <Link
+              to={user ? '/profile' : '/login'}
+              className="font-medium text-[var(--primary)] hover:text-[var(--secondary)] hover:shadow-[0_0_8px_var(--primary-glow)] transition-all"
+            >
+              {user ? 'Go to your profile' : 'Sign in'}
+            </Link>
+            {status === 'failed' && user && (
+              <p className="mt-2 text-sm text-[var(--text-muted)]">
+                You can send a new verification link from your profile.
+              </p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
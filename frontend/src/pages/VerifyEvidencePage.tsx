@@ -0,0 +1,211 @@
+import { useCallback, useState, useEffect } from 'react';
+import type { ChangeEvent } from 'react';
+import { useParams } from 'react-router-dom';
+import { Card } from '../components/common/Card';
+import { Loading } from '../components/common/Loading';
+import { ErrorMessage } from '../components/common/ErrorMessage';
+import { evidenceService } from '../services/ai.service';
+import { formatDateTime, formatFileSize } from '../utils/format';
+import type { PublicEvidenceRecord } from '../types/ai.types';
+import type { ApiError } from '../types';
+
+/**
+ * SHA-256 of a file, computed in the browser so the file never leaves the device
+ */
+const hashFile = async (file: File): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+/**
+ * VerifyEvidencePage Component
+ *
+ * Public page behind the QR code printed on evidence PDFs. Shows the recorded
+ * hash, challenge, generation date and revocation status, and lets anyone
+ * compare a copy of the PDF against the recorded hash without logging in.
+ */
+export const VerifyEvidencePage = () => {
+  const { packageId } = useParams<{ packageId: string }>();
+  const [record, setRecord] = useState<PublicEvidenceRecord | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [upload, setUpload] = useState<{ fileName: string; sha256: string } | null>(null);
+  const [hashing, setHashing] = useState(false);
+
+  const fetchRecord = useCallback(async () => {
+    if (!packageId) return;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      setRecord(await evidenceService.getPublicRecord(packageId));
+    } catch (err) {
+      const apiError = err as ApiError;
+      setError(
+        apiError.statusCode === 404
+          ? 'No evidence package exists with this ID'
+          : apiError.message || 'Failed to load evidence package'
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, [packageId]);
+
+  useEffect(() => {
+    fetchRecord();
+  }, [fetchRecord]);
+
+  const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setHashing(true);
+    try {
+      setUpload({ fileName: file.name, sha256: await hashFile(file) });
+    } finally {
+      setHashing(false);
+    }
+  };
+
+  if (loading) {
+    return <Loading message="Loading evidence package..." />;
+  }
+
+  if (error || !record) {
+    return <ErrorMessage message={error || 'Evidence package not found'} onRetry={fetchRecord} />;
+  }
+
+  const hashMatches = upload ? upload.sha256 === record.sha256 : null;
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-12 space-y-6 page-fade-in">
+      {/* Header */}
+      <div>
+        <h1
+          className="text-4xl font-bold text-[var(--text-primary)] mb-2"
+          style={{ fontFamily: 'var(--font-display)' }}
+        >
+          Verify Evidence Package
+        </h1>
+        <p className="text-[var(--text-muted)]">
+          Check that a copy of this evidence package is the one that was issued
+        </p>
+      </div>
+
+      {/* Revocation Status */}
+      {record.revoked ? (
+        <div
+          className="p-4 bg-red-900/20 border border-red-500 rounded-lg text-red-400"
+          role="alert"
+        >
+          <p className="font-semibold">This package has been revoked</p>
+          {record.revokedAt && <p className="text-sm">Revoked {formatDateTime(record.revokedAt)}</p>}
+          {record.revocationReason && <p className="text-sm mt-1">{record.revocationReason}</p>}
+        </div>
+      ) : (
+        <div
+          className="p-4 bg-green-900/20 border border-green-600 rounded-lg text-green-400"
+          role="status"
+        >
+          <p className="font-semibold">This package has not been revoked</p>
+        </div>
+      )}
+
+      {/* Package Details */}
+      <Card>
+        <dl className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="md:col-span-2">
+            <dt className="text-sm text-[var(--text-secondary)] mb-1">Challenge</dt>
+            <dd className="text-[var(--text-primary)] font-semibold">{record.challenge.title}</dd>
+          </div>
+          <div>
+            <dt className="text-sm text-[var(--text-secondary)] mb-1">Generated</dt>
+            <dd className="font-mono text-sm text-[var(--text-primary)]">
+              {formatDateTime(record.generatedAt)}
+            </dd>
+          </div>
+          <div>
+            <dt className="text-sm text-[var(--text-secondary)] mb-1">File</dt>
+            <dd className="font-mono text-sm text-[var(--text-primary)] break-all">
+              {record.fileName} ({formatFileSize(record.fileSize)})
+            </dd>
+          </div>
+          <div className="md:col-span-2">
+            <dt className="text-sm text-[var(--text-secondary)] mb-1">SHA-256 Hash</dt>
+            <dd className="font-mono text-xs text-[var(--text-primary)] break-all">{record.sha256}</dd>
+          </div>
+          {record.signatureKeyId && (
+            <div className="md:col-span-2">
+              <dt className="text-sm text-[var(--text-secondary)] mb-1">Signing Key</dt>
+              <dd className="font-mono text-xs text-[var(--text-primary)] break-all">
+                Ed25519 key {record.signatureKeyId}
+              </dd>
+            </div>
+          )}
+          {record.ipfsCid && (
+            <div className="md:col-span-2">
+              <dt className="text-sm text-[var(--text-secondary)] mb-1">IPFS CID</dt>
+              <dd className="font-mono text-xs break-all">
+                {record.ipfsUrl ? (
+                  <a
+                    href={record.ipfsUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-[var(--primary)] hover:underline"
+                  >
+                    {record.ipfsCid}
+                  </a>
+                ) : (
+                  <span className="text-[var(--text-primary)]">{record.ipfsCid}</span>
+                )}
+              </dd>
+            </div>
+          )}
+        </dl>
+      </Card>
+
+      {/* Compare Hashes */}
+      <Card>
+        <h2 className="text-xl font-bold text-[var(--text-primary)] mb-2">Compare your copy</h2>
+        <p className="text-sm text-[var(--text-muted)] mb-4">
+          Select the PDF you received. Its hash is calculated in your browser; the file is not
+          uploaded anywhere.
+        </p>
+        <input
+          type="file"
+          accept="application/pdf,.pdf"
+          onChange={handleFileChange}
+          disabled={hashing}
+          className="input min-h-[44px] w-full"
+          aria-label="Evidence PDF"
+        />
+
+        {hashing && <p className="mt-4 text-sm text-[var(--text-muted)]">Calculating hash...</p>}
+
+        {upload && !hashing && (
+          <div
+            className={`mt-4 p-4 rounded-lg border ${
+              hashMatches
+                ? 'bg-green-900/20 border-green-600 text-green-400'
+                : 'bg-red-900/20 border-red-500 text-red-400'
+            }`}
+            role="status"
+            aria-live="polite"
+          >
+            <p className="font-semibold">
+              {hashMatches
+                ? 'Hashes match: this is the issued file'
+                : 'Hashes do not match: this file differs from the issued package'}
+            </p>
+            <p className="font-mono text-xs break-all mt-2">
+              {upload.fileName}: {upload.sha256}
+            </p>
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+};
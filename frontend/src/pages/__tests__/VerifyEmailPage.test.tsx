@@ -0,0 +1,53 @@
+import { StrictMode } from 'react';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { MemoryRouter } from 'react-router-dom';
+import { VerifyEmailPage } from '../VerifyEmailPage';
+import { authService } from '../../services/auth.service';
+import { useAuthStore } from '../../stores/authStore';
+
+vi.mock('../../services/auth.service', () => ({
+  authService: {
+    verifyEmail: vi.fn(),
+  },
+}));
+
+describe('VerifyEmailPage', () => {
+  const renderPage = (url: string) =>
+    render(
+      <StrictMode>
+        <MemoryRouter initialEntries={[url]}>
+          <VerifyEmailPage />
+        </MemoryRouter>
+      </StrictMode>
+    );
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    useAuthStore.setState({
+      user: null,
+      token: null,
+      isAuthenticated: false,
+    });
+  });
+
+  it('should send a single-use token only once under StrictMode', async () => {
+    vi.mocked(authService.verifyEmail).mockResolvedValue({
+      id: 'user-123',
+      emailVerifiedAt: '2026-10-19T12:00:00.000Z',
+    } as Awaited<ReturnType<typeof authService.verifyEmail>>);
+
+    renderPage('/verify-email?token=abc');
+
+    expect(await screen.findByText('Email Verified')).toBeDefined();
+    expect(authService.verifyEmail).toHaveBeenCalledTimes(1);
+    expect(authService.verifyEmail).toHaveBeenCalledWith('abc');
+  });
+
+  it('should fail without calling the API when the link has no token', async () => {
+    renderPage('/verify-email');
+
+    expect(await screen.findByText('Verification Failed')).toBeDefined();
+    expect(authService.verifyEmail).not.toHaveBeenCalled();
+  });
+});
@@ -185,6 +185,7 @@ export const ChallengesAdmin = () => {
                 <option value="PENDING">Pending</option>
                 <option value="APPROVED">Approved</option>
                 <option value="REJECTED">Rejected</option>
+                <option value="CHANGES_REQUESTED">Changes requested</option>
               </select>
             </div>
           </div>
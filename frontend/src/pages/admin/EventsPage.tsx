@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react';
 import { api } from '../../services/api';
 import type { Event } from '../../types/governance';
+import { formatActor } from '../../utils/format';
 import { Card } from '../../components/common/Card';
 import { Button } from '../../components/common/Button';
 import { Loading } from '../../components/common/Loading';
@@ -248,7 +249,7 @@ export const EventsPage = () => {
                     <p className="text-sm text-[var(--text-secondary)] mb-2">
                       by{' '}
                       <span className="text-[var(--primary)] font-mono">
-                        {event.actor.email}
+                        {formatActor(event.actor)}
                       </span>
                     </p>
                     <p className="text-xs text-[var(--text-muted)] font-mono">
@@ -307,7 +308,7 @@ export const EventsPage = () => {
                           {event.entityId.substring(0, 12)}...
                         </td>
                         <td className="py-3 px-4 font-mono text-sm text-[var(--primary)]">
-                          {event.actor.email}
+                          {formatActor(event.actor)}
                         </td>
                         <td className="py-3 px-4 text-sm text-[var(--text-secondary)]">
                           {event.actor.role}
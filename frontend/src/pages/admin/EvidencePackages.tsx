@@ -4,6 +4,7 @@ import { evidenceService } from '../../services/ai.service';
 import type { Challenge } from '../../types';
 import type {
   EvidencePackage,
+  UnverifiedEvidenceSection,
   VerificationResult,
 } from '../../types/ai.types';
 import { Card } from '../../components/common/Card';
@@ -24,12 +25,14 @@ export const EvidencePackages = () => {
   const [generating, setGenerating] = useState(false);
   const [verifying, setVerifying] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [unverifiedSections, setUnverifiedSections] = useState<UnverifiedEvidenceSection[]>([]);
 
   // Generation options
   const [includeTimeline, setIncludeTimeline] = useState(true);
   const [includeFileHashes, setIncludeFileHashes] = useState(true);
   const [includeSignatures, setIncludeSignatures] = useState(true);
   const [includeAIAnalysis, setIncludeAIAnalysis] = useState(true);
+  const [includeBundle, setIncludeBundle] = useState(true);
   const [packageType, setPackageType] = useState('PAYOUT_AUDIT');
 
   // Fetch challenges on mount
@@ -78,14 +81,19 @@ export const EvidencePackages = () => {
     try {
       setGenerating(true);
       setError(null);
-      await evidenceService.generatePackage(selectedChallenge, {
+      setUnverifiedSections([]);
+      const generated = await evidenceService.generatePackage(selectedChallenge, {
         packageType,
         includeTimeline,
         includeFileHashes,
         includeSignatures,
         includeAIAnalysis,
+        includeBundle,
       });
 
+      // Sections the generator could not verify are flagged in the PDF too
+      setUnverifiedSections(generated.unverifiedSections || []);
+
       // Refresh package list
       await fetchPackages();
 
@@ -108,6 +116,15 @@ export const EvidencePackages = () => {
     }
   };
 
+  const handleDownloadSignature = (packageId: string) => {
+    try {
+      evidenceService.downloadSignature(packageId);
+    } catch (err) {
+      setError((err as Error).message || 'Failed to download signature');
+      console.error('Signature download error:', err);
+    }
+  };
+
   const handleVerify = async (packageId: string) => {
     try {
       setVerifying(packageId);
@@ -122,6 +139,20 @@ export const EvidencePackages = () => {
     }
   };
 
+  const handleRevoke = async (packageId: string) => {
+    const reason = window.prompt('Why is this package being revoked? The reason is shown publicly.');
+    if (reason === null) return;
+
+    try {
+      setError(null);
+      await evidenceService.revokePackage(packageId, reason.trim());
+      await fetchPackages();
+    } catch (err) {
+      setError((err as Error).message || 'Failed to revoke package');
+      console.error('Revocation error:', err);
+    }
+  };
+
   const formatFileSize = (bytes: number): string => {
     if (bytes < 1024) return `${bytes} B`;
     if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(2)} KB`;
@@ -297,6 +328,25 @@ export const EvidencePackages = () => {
                   </div>
                 </div>
               </label>
+
+              <label className="flex items-center gap-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={includeBundle}
+                  onChange={(e) => setIncludeBundle(e.target.checked)}
+                  disabled={generating}
+                  className="w-5 h-5 rounded border-[var(--border)] text-[var(--primary)] focus:ring-2 focus:ring-[var(--primary)] focus:ring-offset-2 focus:ring-offset-[var(--bg-surface)]"
+                  aria-label="Include data bundle"
+                />
+                <div>
+                  <div className="text-sm font-medium text-[var(--text-primary)]">
+                    Data Bundle (ZIP)
+                  </div>
+                  <div className="text-xs text-[var(--text-muted)]">
+                    Full event trail, file hashes and records as JSON with SHA-256 manifest
+                  </div>
+                </div>
+              </label>
             </div>
           </div>
 
@@ -321,6 +371,20 @@ export const EvidencePackages = () => {
               <ErrorMessage message={error} />
             </div>
           )}
+
+          {unverifiedSections.length > 0 && (
+            <div
+              className="mt-4 p-4 bg-yellow-900/20 border border-yellow-600 rounded-lg text-yellow-400 text-sm space-y-1"
+              role="status"
+            >
+              <p className="font-semibold">Generated with unverified sections:</p>
+              {unverifiedSections.map((item) => (
+                <p key={item.section}>
+                  <span className="capitalize">{item.section}</span>: {item.reason}
+                </p>
+              ))}
+            </div>
+          )}
         </div>
       </Card>
 
@@ -368,6 +432,39 @@ export const EvidencePackages = () => {
                   {verificationResult.sha256}
                 </div>
               </div>
+              {verificationResult.ipfsCid && (
+                <div className="md:col-span-2">
+                  <div className="text-sm text-[var(--text-secondary)] mb-1">
+                    IPFS CID
+                  </div>
+                  <div className="font-mono text-xs text-[var(--text-primary)] break-all">
+                    {verificationResult.ipfsUrl ? (
+                      <a
+                        href={verificationResult.ipfsUrl}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-[var(--primary)] hover:underline"
+                      >
+                        {verificationResult.ipfsCid}
+                      </a>
+                    ) : (
+                      verificationResult.ipfsCid
+                    )}
+                  </div>
+                </div>
+              )}
+              <div className="md:col-span-2">
+                <div className="text-sm text-[var(--text-secondary)] mb-1">
+                  Signature
+                </div>
+                <div className="font-mono text-xs text-[var(--text-primary)] break-all">
+                  {!verificationResult.signatureKeyId
+                    ? 'Unsigned'
+                    : verificationResult.signatureValid === null
+                      ? `Signed with key ${verificationResult.signatureKeyId} (not the current key)`
+                      : `${verificationResult.signatureValid ? 'Valid' : 'Invalid'} Ed25519 signature (key ${verificationResult.signatureKeyId})`}
+                </div>
+              </div>
             </div>
 
             <div className="space-y-2">
@@ -470,6 +567,11 @@ export const EvidencePackages = () => {
                         <span className="px-2 py-1 bg-[var(--primary)] bg-opacity-20 text-[var(--primary)] text-xs rounded font-semibold">
                           {formatFileSize(pkg.fileSize)}
                         </span>
+                        {pkg.revokedAt && (
+                          <span className="px-2 py-1 bg-red-900/40 text-red-400 border border-red-600 text-xs rounded font-semibold">
+                            REVOKED
+                          </span>
+                        )}
                       </div>
                       <div className="text-sm text-[var(--text-secondary)]">
                         {pkg.fileName}
@@ -502,11 +604,27 @@ export const EvidencePackages = () => {
                       <div className="font-mono text-xs text-[var(--text-muted)] break-all">
                         SHA-256: {pkg.sha256}
                       </div>
+                      {pkg.ipfsCid && (
+                        <div className="font-mono text-xs text-[var(--text-muted)] break-all">
+                          IPFS: {pkg.ipfsCid}
+                        </div>
+                      )}
+                      <div className="font-mono text-xs text-[var(--text-muted)]">
+                        {pkg.signatureKeyId
+                          ? `Ed25519 signature (key ${pkg.signatureKeyId})`
+                          : 'Unsigned'}
+                      </div>
+                      {pkg.revokedAt && (
+                        <div className="text-xs text-red-400">
+                          Revoked {new Date(pkg.revokedAt).toLocaleString()}
+                          {pkg.revocationReason && `: ${pkg.revocationReason}`}
+                        </div>
+                      )}
                     </div>
 
                     <div className="flex flex-col sm:flex-row gap-2">
                       <Button
-                        onClick={() => handleDownload(pkg.sha256)}
+                        onClick={() => handleDownload(pkg.id)}
                         variant="outline"
                         className="min-w-[100px]"
                       >
@@ -526,10 +644,19 @@ export const EvidencePackages = () => {
                         </svg>
                         Download
                       </Button>
+                      {pkg.signatureKeyId && (
+                        <Button
+                          onClick={() => handleDownloadSignature(pkg.id)}
+                          variant="outline"
+                          className="min-w-[100px]"
+                        >
+                          Signature
+                        </Button>
+                      )}
                       <Button
-                        onClick={() => handleVerify(pkg.sha256)}
-                        disabled={verifying === pkg.sha256}
-                        loading={verifying === pkg.sha256}
+                        onClick={() => handleVerify(pkg.id)}
+                        disabled={verifying === pkg.id}
+                        loading={verifying === pkg.id}
                         variant="secondary"
                         className="min-w-[100px]"
                       >
@@ -549,6 +676,15 @@ export const EvidencePackages = () => {
                         </svg>
                         Verify
                       </Button>
+                      {!pkg.revokedAt && (
+                        <Button
+                          onClick={() => handleRevoke(pkg.id)}
+                          variant="danger"
+                          className="min-w-[100px]"
+                        >
+                          Revoke
+                        </Button>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -7,6 +7,8 @@ import type {
 import { Card } from '../../components/common/Card';
 import { Button } from '../../components/common/Button';
 import { ErrorMessage } from '../../components/common/ErrorMessage';
+import { IncidentQueue } from '../../components/admin/IncidentQueue';
+import { AppealQueue } from '../../components/admin/AppealQueue';
 
 /**
  * SafetyMonitoring - Content moderation and safety analysis interface
@@ -115,10 +117,16 @@ export const SafetyMonitoring = () => {
           Safety Monitoring
         </h1>
         <p className="text-[var(--text-secondary)]">
-          Analyze and moderate content for safety violations
+          Work the incident queue, then analyze and moderate content for safety violations
         </p>
       </div>
 
+      {/* Incident Case Management */}
+      <IncidentQueue />
+
+      {/* Appeals against moderation decisions */}
+      <AppealQueue />
+
       {/* Content Analysis Form */}
       <Card>
         <div className="space-y-6">
@@ -280,6 +288,9 @@ export const SafetyMonitoring = () => {
                 </div>
                 <div className="mt-2 text-xs text-[var(--text-muted)] flex items-center justify-between">
                   <span>Detection: {analysis.detectionMethod}</span>
+                  {analysis.language && (
+                    <span>Language: {analysis.language.code.toUpperCase()}</span>
+                  )}
                   <span>Confidence: {(analysis.confidence * 100).toFixed(0)}%</span>
                 </div>
               </div>
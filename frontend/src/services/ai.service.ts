@@ -9,12 +9,19 @@ import type {
   SafetyModerationResult,
   AnalyzeContentRequest,
   ModerateContentRequest,
+  SafetyIncident,
+  SafetyIncidentNote,
+  IncidentFilters,
+  ModerationAppeal,
+  AppealStatus,
+  AnalyzerOverturnRate,
   EthicsAuditResult,
   EthicsReportSummary,
   EvidencePackage,
   GenerateEvidenceRequest,
   GenerateEvidenceResponse,
   VerificationResult,
+  PublicEvidenceRecord,
   ApiResponse,
 } from '../types/ai.types';
 
@@ -79,6 +86,201 @@ export const safetyService = {
   },
 };
 
+/**
+ * Safety incident case management (moderators and admins)
+ */
+export const incidentService = {
+  /**
+   * Incident queue, most severe and oldest first
+   */
+  async listIncidents(filters: IncidentFilters = {}): Promise<SafetyIncident[]> {
+    const params: Record<string, string> = { limit: '100' };
+    if (filters.status?.length) params.status = filters.status.join(',');
+    if (filters.severity?.length) params.severity = filters.severity.join(',');
+    if (filters.assignee) params.assignee = filters.assignee;
+
+    const response = await api.get<ApiResponse<SafetyIncident[]>>('/incidents', { params });
+
+    if (!response.data.success) {
+      throw new Error(response.data.error);
+    }
+
+    return response.data.data;
+  },
+
+  /**
+   * Incident with its case notes
+   */
+  async getIncident(incidentId: string): Promise<SafetyIncident> {
+    const response = await api.get<ApiResponse<SafetyIncident>>(`/incidents/${incidentId}`);
+
+    if (!response.data.success) {
+      throw new Error(response.data.error);
+    }
+
+    return response.data.data;
+  },
+
+  /**
+   * Assign the incident to the current moderator
+   */
+  async assignToMe(incidentId: string): Promise<SafetyIncident> {
+    const response = await api.post<ApiResponse<SafetyIncident>>(
+      `/incidents/${incidentId}/assign`
+    );
+
+    if (!response.data.success) {
+      throw new Error(response.data.error);
+    }
+
+    return response.data.data;
+  },
+
+  /**
+   * Add a case note
+   */
+  async addNote(incidentId: string, body: string): Promise<SafetyIncidentNote> {
+    const response = await api.post<ApiResponse<SafetyIncidentNote>>(
+      `/incidents/${incidentId}/notes`,
+      { body }
+    );
+
+    if (!response.data.success) {
+      throw new Error(response.data.error);
+    }
+
+    return response.data.data;
+  },
+
+  /**
+   * Escalate the incident (raises severity by one)
+   */
+  async escalate(incidentId: string, reason: string): Promise<SafetyIncident> {
+    const response = await api.post<ApiResponse<SafetyIncident>>(
+      `/incidents/${incidentId}/escalate`,
+      { reason }
+    );
+
+    if (!response.data.success) {
+      throw new Error(response.data.error);
+    }
+
+    return response.data.data;
+  },
+
+  /**
+   * Resolve or dismiss the incident; a reason of at least 10 characters is required
+   */
+  async resolve(
+    incidentId: string,
+    outcome: 'RESOLVED' | 'DISMISSED',
+    reason: string
+  ): Promise<SafetyIncident> {
+    const response = await api.post<ApiResponse<SafetyIncident>>(
+      `/incidents/${incidentId}/resolve`,
+      { outcome, reason }
+    );
+
+    if (!response.data.success) {
+      throw new Error(response.data.error);
+    }
+
+    return response.data.data;
+  },
+
+  /**
+   * Link audit trail events to the incident as evidence
+   */
+  async linkEvidence(incidentId: string, eventIds: string[]): Promise<SafetyIncident> {
+    const response = await api.post<ApiResponse<SafetyIncident>>(
+      `/incidents/${incidentId}/evidence`,
+      { eventIds }
+    );
+
+    if (!response.data.success) {
+      throw new Error(response.data.error);
+    }
+
+    return response.data.data;
+  },
+};
+
+/**
+ * Appeals against moderation decisions
+ */
+export const appealService = {
+  /**
+   * Appeal the moderation decision on your own content
+   */
+  async fileAppeal(
+    entityType: string,
+    entityId: string,
+    reason: string
+  ): Promise<ModerationAppeal> {
+    const response = await api.post<ApiResponse<ModerationAppeal>>('/appeals', {
+      entityType,
+      entityId,
+      reason,
+    });
+
+    if (!response.data.success) {
+      throw new Error(response.data.error);
+    }
+
+    return response.data.data;
+  },
+
+  /**
+   * Appeal queue for moderators
+   */
+  async listAppeals(status?: AppealStatus): Promise<ModerationAppeal[]> {
+    const response = await api.get<ApiResponse<ModerationAppeal[]>>('/appeals', {
+      params: status ? { status } : undefined,
+    });
+
+    if (!response.data.success) {
+      throw new Error(response.data.error);
+    }
+
+    return response.data.data;
+  },
+
+  /**
+   * Uphold or overturn an appeal; overturning restores the content
+   */
+  async decideAppeal(
+    appealId: string,
+    decision: 'UPHELD' | 'OVERTURNED',
+    notes: string
+  ): Promise<ModerationAppeal> {
+    const response = await api.post<ApiResponse<ModerationAppeal>>(
+      `/appeals/${appealId}/decide`,
+      { decision, notes }
+    );
+
+    if (!response.data.success) {
+      throw new Error(response.data.error);
+    }
+
+    return response.data.data;
+  },
+
+  /**
+   * Share of each analyzer's flags overturned on appeal
+   */
+  async getOverturnRates(): Promise<AnalyzerOverturnRate[]> {
+    const response = await api.get<ApiResponse<AnalyzerOverturnRate[]>>(
+      '/appeals/overturn-rates'
+    );
+
+    if (!response.data.success) {
+      throw new Error(response.data.error);
+    }
+
+    return response.data.data;
+  },
+};
+
 /**
  * Ethics Service API methods
  */
@@ -162,6 +364,15 @@ export const evidenceService = {
     window.open(url, '_blank');
   },
 
+  /**
+   * Download the detached signature for an evidence package PDF
+   */
+  async downloadSignature(packageId: string): Promise<void> {
+    const baseURL = api.defaults.baseURL || '';
+    const url = `${baseURL}/admin/evidence/download/${packageId}/signature`;
+    window.open(url, '_blank');
+  },
+
   /**
    * Verify evidence package integrity
    */
@@ -177,6 +388,33 @@ export const evidenceService = {
     return response.data.data;
   },
 
+  /**
+   * Revoke an evidence package; the public verify page then shows it as revoked
+   */
+  async revokePackage(packageId: string, reason: string): Promise<void> {
+    const response = await api.post<ApiResponse<unknown>>(
+      `/admin/evidence/${packageId}/revoke`,
+      { reason }
+    );
+
+    if (!response.data.success) {
+      throw new Error(response.data.error);
+    }
+  },
+
+  /**
+   * Public record for the verify page reached from the QR code (no login needed)
+   */
+  async getPublicRecord(packageId: string): Promise<PublicEvidenceRecord> {
+    const response = await api.get<ApiResponse<PublicEvidenceRecord>>(`/evidence/${packageId}`);
+
+    if (!response.data.success) {
+      throw new Error(response.data.error);
+    }
+
+    return response.data.data;
+  },
+
   /**
    * List all evidence packages for a challenge
    */
@@ -196,6 +434,8 @@ export const evidenceService = {
 // Export unified AI service
 export const aiService = {
   safety: safetyService,
+  incidents: incidentService,
+  appeals: appealService,
   ethics: ethicsService,
   evidence: evidenceService,
 };
@@ -36,7 +36,20 @@ api.interceptors.request.use(
  */
 api.interceptors.response.use(
   (response) => response,
-  (error: AxiosError<ApiError>) => {
+  async (error: AxiosError<ApiError>) => {
+    const request = error.config as (InternalAxiosRequestConfig & { _retried?: boolean }) | undefined;
+
+    // Access tokens are short-lived: refresh silently and retry once
+    if (error.response?.status === 401 && request && !request._retried && useAuthStore.getState().refreshToken) {
+      request._retried = true;
+      const token = await useAuthStore.getState().refreshSession();
+
+      if (token) {
+        request.headers.Authorization = `Bearer ${token}`;
+        return api(request);
+      }
+    }
+
     // Handle 401 Unauthorized - clear auth and redirect to login
     if (error.response?.status === 401) {
       useAuthStore.getState().clearAuth();
@@ -1,5 +1,12 @@
 import api from './api';
-import type { LoginCredentials, SignupCredentials, AuthResponse } from '../types';
+import { connectWallet } from '../utils/wallet';
+import type { LoginCredentials, SignupCredentials, AuthResponse, Session, User } from '../types';
+
+interface SiweNonceResponse {
+  nonce: string;
+  message: string;
+  expiresAt: string;
+}
 
 /**
  * Authentication service for login, signup, and logout operations
@@ -32,11 +39,117 @@ export const authService = {
   },
 
   /**
-   * Logout (client-side token removal)
+   * Sign in with Ethereum (EIP-4361): the wallet signs a server-issued message
+   */
+  async loginWithWallet(): Promise<AuthResponse> {
+    const wallet = await connectWallet();
+    const nonce = await api.post<{ success: boolean; data: SiweNonceResponse }>('/auth/siwe/nonce', {
+      address: wallet.address,
+      chainId: wallet.chainId,
+      purpose: 'LOGIN',
+    });
+    const message = nonce.data.data.message;
+    const signature = await wallet.signMessage(message);
+
+    const response = await api.post<{ success: boolean; data: AuthResponse }>('/auth/siwe/verify', {
+      message,
+      signature,
+    });
+
+    if (!response.data.data) {
+      throw new Error('Wallet sign-in failed - invalid response from server');
+    }
+
+    return response.data.data;
+  },
+
+  /**
+   * Link the connected wallet to the signed-in account, proving ownership with a signature
+   */
+  async linkWallet(): Promise<User> {
+    const wallet = await connectWallet();
+    const nonce = await api.post<{ success: boolean; data: SiweNonceResponse }>('/auth/siwe/nonce', {
+      address: wallet.address,
+      chainId: wallet.chainId,
+      purpose: 'LINK',
+    });
+    const message = nonce.data.data.message;
+    const signature = await wallet.signMessage(message);
+
+    const response = await api.put<{ success: boolean; data: User }>('/auth/wallet', {
+      message,
+      signature,
+    });
+
+    if (!response.data.data) {
+      throw new Error('Failed to link wallet');
+    }
+
+    return response.data.data;
+  },
+
+  /**
+   * Verify an email address with the token from the verification email
+   */
+  async verifyEmail(token: string): Promise<User> {
+    const response = await api.post<{ success: boolean; data: User }>('/auth/verify-email', { token });
+
+    if (!response.data.data) {
+      throw new Error('Email verification failed - invalid response from server');
+    }
+
+    return response.data.data;
+  },
+
+  /**
+   * Send the current user a new verification email
+   */
+  async resendVerificationEmail(): Promise<void> {
+    await api.post('/auth/verify-email/resend');
+  },
+
+  /**
+   * Ask for a password reset link; succeeds whether or not the account exists
+   */
+  async forgotPassword(email: string): Promise<void> {
+    await api.post('/auth/forgot-password', { email });
+  },
+
+  /**
+   * Set a new password with the token from a password reset email.
+   * Signs the account out on every device.
+   */
+  async resetPassword(token: string, password: string): Promise<void> {
+    await api.post('/auth/reset-password', { token, password });
+  },
+
+  /**
+   * Logout, ending this device's session on the server
    */
   async logout(): Promise<void> {
-    // If backend has a logout endpoint, call it here
-    // await api.post('/auth/logout');
+    await api.post('/auth/logout');
+  },
+
+  /**
+   * Logout on every device, including this one
+   */
+  async logoutEverywhere(): Promise<void> {
+    await api.post('/auth/logout-all');
+  },
+
+  /**
+   * List the devices the current user is signed in on
+   */
+  async getSessions(): Promise<Session[]> {
+    const response = await api.get<{ success: boolean; data: Session[] }>('/auth/sessions');
+    return response.data.data;
+  },
+
+  /**
+   * Sign out one device
+   */
+  async revokeSession(sessionId: string): Promise<void> {
+    await api.delete(`/auth/sessions/${sessionId}`);
   },
 
   /**
@@ -0,0 +1,38 @@
+import { api } from './api';
+import type { IPAgreement, IPAssignment } from '../types/ipAssignments';
+
+/**
+ * API service for IP assignment agreements
+ */
+export const ipAssignmentsService = {
+  /**
+   * Get the agreement the current contributor is asked to sign
+   */
+  async getAgreement(challengeId: string): Promise<IPAgreement> {
+    const response = await api.get<{ success: boolean; data: IPAgreement }>(
+      `/challenges/${challengeId}/ip-assignment`
+    );
+    return response.data.data;
+  },
+
+  /**
+   * Sign the agreement - contentHash must be the hash of the text that was shown
+   */
+  async sign(challengeId: string, signedName: string, contentHash: string): Promise<IPAssignment> {
+    const response = await api.post<{ success: boolean; data: IPAssignment }>(
+      `/challenges/${challengeId}/ip-assignment/sign`,
+      { signedName, contentHash }
+    );
+    return response.data.data;
+  },
+
+  /**
+   * Get all signed agreements for a challenge
+   */
+  async getByChallengeId(challengeId: string): Promise<IPAssignment[]> {
+    const response = await api.get<{ success: boolean; data: IPAssignment[] }>(
+      `/challenges/${challengeId}/ip-assignments`
+    );
+    return response.data.data;
+  },
+};
@@ -0,0 +1,25 @@
+import { api } from './api';
+import type { KycStatusSummary } from '../types';
+
+/**
+ * API service for identity verification (KYC)
+ */
+export const kycService = {
+  /**
+   * Get the current user's KYC status and most recent verification
+   */
+  async getStatus(): Promise<KycStatusSummary> {
+    const response = await api.get<{ success: boolean; data: KycStatusSummary }>('/kyc/status');
+    return response.data.data;
+  },
+
+  /**
+   * Start verification; returns the provider page to send the user to
+   */
+  async startVerification(): Promise<{ id: string; redirectUrl: string }> {
+    const response = await api.post<{ success: boolean; data: { id: string; redirectUrl: string } }>(
+      '/kyc/sessions'
+    );
+    return response.data.data;
+  },
+};
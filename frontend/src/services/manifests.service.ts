@@ -0,0 +1,49 @@
+import { api } from './api';
+import type { CompositionManifest, ManifestEntry, ManifestValidation } from '../types/manifests';
+
+/**
+ * API service for composition manifest operations
+ * Drafting and signing are Project Leader only
+ */
+export const manifestsService = {
+  /**
+   * Get the manifest for a challenge (null if none drafted yet)
+   */
+  async getByChallengeId(challengeId: string): Promise<CompositionManifest | null> {
+    const response = await api.get<{ success: boolean; data: CompositionManifest | null }>(
+      `/challenges/${challengeId}/manifest`
+    );
+    return response.data.data;
+  },
+
+  /**
+   * Save draft entries - Project Leader only
+   */
+  async saveDraft(challengeId: string, entries: ManifestEntry[]): Promise<CompositionManifest> {
+    const response = await api.put<{ success: boolean; data: CompositionManifest }>(
+      `/challenges/${challengeId}/manifest`,
+      { entries }
+    );
+    return response.data.data;
+  },
+
+  /**
+   * Check whether the saved manifest can be signed
+   */
+  async validate(challengeId: string): Promise<ManifestValidation> {
+    const response = await api.get<{ success: boolean; data: ManifestValidation }>(
+      `/challenges/${challengeId}/manifest/validate`
+    );
+    return response.data.data;
+  },
+
+  /**
+   * Sign the manifest - Project Leader only
+   */
+  async sign(challengeId: string): Promise<CompositionManifest> {
+    const response = await api.post<{ success: boolean; data: CompositionManifest }>(
+      `/challenges/${challengeId}/manifest/sign`
+    );
+    return response.data.data;
+  },
+};
@@ -0,0 +1,61 @@
+import { api } from './api';
+import type { PayoutEntry, PayoutProposal } from '../types/payouts';
+
+/**
+ * API service for payout proposal operations
+ */
+export const payoutsService = {
+  /**
+   * Draft a payout proposal from the signed manifest - Project Leader only
+   */
+  async create(challengeId: string, distribution?: PayoutEntry[]): Promise<PayoutProposal> {
+    const response = await api.post<{ success: boolean; data: PayoutProposal }>('/payouts', {
+      challengeId,
+      distribution,
+    });
+    return response.data.data;
+  },
+
+  /**
+   * Get all payout proposals for a challenge (newest first)
+   */
+  async getByChallengeId(challengeId: string): Promise<PayoutProposal[]> {
+    const response = await api.get<{ success: boolean; data: PayoutProposal[] }>(
+      `/challenges/${challengeId}/payouts`
+    );
+    return response.data.data;
+  },
+
+  /**
+   * Sign a draft payout proposal - Project Leader only
+   */
+  async sign(id: string, toleranceNote?: string): Promise<PayoutProposal> {
+    const response = await api.post<{ success: boolean; data: PayoutProposal }>(
+      `/payouts/${id}/sign`,
+      { toleranceNote }
+    );
+    return response.data.data;
+  },
+
+  /**
+   * Approve a signed payout proposal - Sponsor only
+   */
+  async approve(id: string, notes?: string): Promise<PayoutProposal> {
+    const response = await api.post<{ success: boolean; data: PayoutProposal }>(
+      `/payouts/${id}/approve`,
+      { notes }
+    );
+    return response.data.data;
+  },
+
+  /**
+   * Reject a signed payout proposal - Sponsor only
+   */
+  async reject(id: string, notes: string): Promise<PayoutProposal> {
+    const response = await api.post<{ success: boolean; data: PayoutProposal }>(
+      `/payouts/${id}/reject`,
+      { notes }
+    );
+    return response.data.data;
+  },
+};
@@ -0,0 +1,17 @@
+import { api } from './api';
+import type { Reputation } from '../types/reputation';
+
+/**
+ * API service for user reputation
+ */
+export const reputationService = {
+  /**
+   * Get a user's reputation scores and badges
+   */
+  async getByUserId(userId: string): Promise<Reputation> {
+    const response = await api.get<{ success: boolean; data: Reputation }>(
+      `/users/${userId}/reputation`
+    );
+    return response.data.data;
+  },
+};
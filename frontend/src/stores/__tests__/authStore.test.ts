@@ -1,7 +1,10 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
+import axios from 'axios';
 import { useAuthStore } from '../authStore';
 import type { User } from '../../types';
 
+vi.mock('axios');
+
 describe('authStore', () => {
   const mockUser: User = {
     id: 'user-123',
@@ -21,6 +24,7 @@ describe('authStore', () => {
     useAuthStore.setState({
       user: null,
       token: null,
+      refreshToken: null,
       isAuthenticated: false,
     });
 
@@ -150,6 +154,102 @@ describe('authStore', () => {
     });
   });
 
+  describe('Refresh tokens', () => {
+    const mockRefreshToken = 'refresh-token';
+
+    it('should store the refresh token from login', () => {
+      // Act
+      useAuthStore.getState().setAuth(mockUser, mockToken, mockRefreshToken);
+
+      // Assert
+      expect(useAuthStore.getState().refreshToken).toBe(mockRefreshToken);
+    });
+
+    it('should keep the refresh token when only the user is updated', () => {
+      // Arrange
+      useAuthStore.getState().setAuth(mockUser, mockToken, mockRefreshToken);
+
+      // Act
+      useAuthStore.getState().setAuth({ ...mockUser, email: 'new@example.com' }, mockToken);
+
+      // Assert
+      expect(useAuthStore.getState().refreshToken).toBe(mockRefreshToken);
+    });
+
+    it('should clear the refresh token on logout', () => {
+      // Arrange
+      useAuthStore.getState().setAuth(mockUser, mockToken, mockRefreshToken);
+
+      // Act
+      useAuthStore.getState().clearAuth();
+
+      // Assert
+      expect(useAuthStore.getState().refreshToken).toBeNull();
+    });
+
+    it('should swap the refresh token for new tokens silently', async () => {
+      // Arrange
+      useAuthStore.getState().setAuth(mockUser, mockToken, mockRefreshToken);
+      vi.mocked(axios.post).mockResolvedValue({
+        data: { success: true, data: { token: 'fresh-token', refreshToken: 'next-refresh-token' } },
+      });
+
+      // Act
+      const token = await useAuthStore.getState().refreshSession();
+
+      // Assert
+      expect(token).toBe('fresh-token');
+      expect(axios.post).toHaveBeenCalledWith(expect.stringMatching(/\/auth\/refresh$/), {
+        refreshToken: mockRefreshToken,
+      });
+      expect(useAuthStore.getState()).toMatchObject({
+        token: 'fresh-token',
+        refreshToken: 'next-refresh-token',
+        isAuthenticated: true,
+      });
+    });
+
+    it('should refresh once for concurrent callers', async () => {
+      // Arrange
+      useAuthStore.getState().setAuth(mockUser, mockToken, mockRefreshToken);
+      vi.mocked(axios.post).mockResolvedValue({
+        data: { success: true, data: { token: 'fresh-token', refreshToken: 'next-refresh-token' } },
+      });
+
+      // Act
+      const tokens = await Promise.all([
+        useAuthStore.getState().refreshSession(),
+        useAuthStore.getState().refreshSession(),
+      ]);
+
+      // Assert
+      expect(tokens).toEqual(['fresh-token', 'fresh-token']);
+      expect(axios.post).toHaveBeenCalledTimes(1);
+    });
+
+    it('should return null when the refresh is rejected', async () => {
+      // Arrange
+      useAuthStore.getState().setAuth(mockUser, mockToken, mockRefreshToken);
+      vi.mocked(axios.post).mockRejectedValue(new Error('Request failed with status code 401'));
+
+      // Act
+      const token = await useAuthStore.getState().refreshSession();
+
+      // Assert
+      expect(token).toBeNull();
+      expect(useAuthStore.getState().token).toBe(mockToken);
+    });
+
+    it('should not call the server without a refresh token', async () => {
+      // Act
+      const token = await useAuthStore.getState().refreshSession();
+
+      // Assert
+      expect(token).toBeNull();
+      expect(axios.post).not.toHaveBeenCalled();
+    });
+  });
+
   describe('clearAuth()', () => {
     beforeEach(() => {
       // Set up authenticated state before testing clearAuth
@@ -1,38 +1,85 @@
+import axios from 'axios';
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import type { User } from '../types';
+import type { User, AuthTokens } from '../types';
+
+const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
 
 interface AuthState {
   user: User | null;
   token: string | null;
+  refreshToken: string | null;
   isAuthenticated: boolean;
-  setAuth: (user: User, token: string) => void;
+  setAuth: (user: User, token: string, refreshToken?: string) => void;
+  setTokens: (tokens: AuthTokens) => void;
+  refreshSession: () => Promise<string | null>;
   clearAuth: () => void;
 }
 
+// The refresh in flight, shared so concurrent 401s rotate the refresh token only once
+let pendingRefresh: Promise<string | null> | null = null;
+
 /**
  * Authentication store using Zustand
- * Persists token to localStorage for session management
+ * Persists tokens to localStorage for session management. Access tokens are
+ * short-lived; refreshSession() silently swaps the refresh token for new ones.
  */
 export const useAuthStore = create<AuthState>()(
   persist(
-    (set) => ({
+    (set, get) => ({
       user: null,
       token: null,
+      refreshToken: null,
       isAuthenticated: false,
 
-      setAuth: (user: User, token: string) => {
+      setAuth: (user: User, token: string, refreshToken?: string) => {
         set({
           user,
           token,
+          refreshToken: refreshToken ?? get().refreshToken,
           isAuthenticated: true,
         });
       },
 
+      setTokens: ({ token, refreshToken }: AuthTokens) => {
+        set({ token, refreshToken });
+      },
+
+      refreshSession: () => {
+        if (!pendingRefresh) {
+          pendingRefresh = (async () => {
+            // Another tab may have rotated the refresh token since this one loaded
+            await useAuthStore.persist?.rehydrate();
+
+            const { refreshToken } = get();
+            if (!refreshToken) {
+              return null;
+            }
+
+            try {
+              // Plain axios: the api instance's interceptors would recurse on a failed refresh
+              const response = await axios.post<{ success: boolean; data: AuthTokens }>(
+                `${API_URL}/auth/refresh`,
+                { refreshToken }
+              );
+              get().setTokens(response.data.data);
+              return response.data.data.token;
+            } catch {
+              return null;
+            }
+          })().finally(() => {
+            pendingRefresh = null;
+          });
+        }
+
+        return pendingRefresh;
+      },
+
       clearAuth: () => {
         set({
           user: null,
           token: null,
+          refreshToken: null,
           isAuthenticated: false,
         });
       },
@@ -41,6 +88,7 @@ export const useAuthStore = create<AuthState>()(
       name: 'auth-storage',
       partialize: (state) => ({
         token: state.token,
+        refreshToken: state.refreshToken,
         user: state.user,
         isAuthenticated: state.isAuthenticated,
       }),
@@ -26,6 +26,10 @@ export interface SafetyAnalysisResult {
   flagged: boolean;
   confidence: number;
   detectionMethod: 'LOCAL' | 'API' | 'MANUAL';
+  language?: {
+    code: string; // ISO 639-1, as detected by the local analyzer
+    thresholds: Record<string, number>;
+  };
 }
 
 export interface SafetyModerationResult {
@@ -52,6 +56,92 @@ export interface ModerateContentRequest {
   content: string;
 }
 
+// Safety Incident Types
+
+export const IncidentStatus = {
+  OPEN: 'OPEN',
+  INVESTIGATING: 'INVESTIGATING',
+  ESCALATED: 'ESCALATED',
+  RESOLVED: 'RESOLVED',
+  DISMISSED: 'DISMISSED',
+} as const;
+
+export type IncidentStatus = typeof IncidentStatus[keyof typeof IncidentStatus];
+
+export interface IncidentSla {
+  respondBy: string;
+  resolveBy: string;
+  responseBreached: boolean;
+  resolutionBreached: boolean;
+}
+
+export interface SafetyIncidentNote {
+  id: string;
+  body: string;
+  author: { id: string; email: string };
+  createdAt: string;
+}
+
+export interface SafetyIncident {
+  id: string;
+  status: IncidentStatus;
+  category: string;
+  severity: number; // 1 (minimal) to 5 (critical)
+  description: string;
+  aiDetected: boolean;
+  entityType: string | null;
+  entityId: string | null;
+  challenge: { id: string; title: string } | null;
+  raisedBy: { id: string; email: string };
+  assignee: { id: string; email: string } | null;
+  evidenceEventIds: string[];
+  resolution: string | null;
+  createdAt: string;
+  assignedAt: string | null;
+  closedAt: string | null;
+  sla: IncidentSla;
+  notes?: SafetyIncidentNote[];
+}
+
+export interface IncidentFilters {
+  status?: IncidentStatus[];
+  severity?: number[];
+  assignee?: 'me' | 'unassigned';
+}
+
+// Moderation Appeal Types
+
+export type AppealStatus = 'PENDING' | 'UPHELD' | 'OVERTURNED';
+
+export interface ModerationAppeal {
+  id: string;
+  status: AppealStatus;
+  reason: string;
+  appellant: { id: string; email: string };
+  decidedBy: { id: string; email: string } | null;
+  decisionNotes: string | null;
+  moderationResult: {
+    id: string;
+    entityType: string;
+    entityId: string;
+    overallScore: number;
+    autoBlocked: boolean;
+    detectionMethod: string;
+    analyzers: string[];
+    incidentId: string | null;
+  };
+  createdAt: string;
+  decidedAt: string | null;
+}
+
+export interface AnalyzerOverturnRate {
+  analyzer: string;
+  flagged: number;
+  appealsDecided: number;
+  overturned: number;
+  overturnRate: number; // overturned / flagged
+}
+
 // Ethics Service Types
 
 export const EthicsRedFlag = {
@@ -126,15 +216,42 @@ export interface EvidencePackage {
   includesSignatures: boolean;
   includesAIAnalysis: boolean;
   verificationUrl?: string;
+  ipfsCid?: string | null;
+  signatureKeyId?: string | null;
+  revokedAt?: string | null;
+  revocationReason?: string | null;
   createdAt: string;
 }
 
+/**
+ * Public record behind the QR code on an evidence PDF
+ */
+export interface PublicEvidenceRecord {
+  id: string;
+  packageType: string;
+  fileName: string;
+  fileSize: number;
+  sha256: string;
+  generatedAt: string;
+  challenge: {
+    id: string;
+    title: string;
+  };
+  ipfsCid: string | null;
+  ipfsUrl: string | null;
+  signatureKeyId: string | null;
+  revoked: boolean;
+  revokedAt: string | null;
+  revocationReason: string | null;
+}
+
 export interface GenerateEvidenceRequest {
   packageType?: string;
   includeTimeline?: boolean;
   includeFileHashes?: boolean;
   includeSignatures?: boolean;
   includeAIAnalysis?: boolean;
+  includeBundle?: boolean;
 }
 
 export interface GenerateEvidenceResponse {
@@ -144,6 +261,22 @@ export interface GenerateEvidenceResponse {
   generatedAt: string;
   verificationUrl?: string;
   sha256: string;
+  ipfsCid?: string | null;
+  signatureKeyId?: string | null;
+  unverifiedSections: UnverifiedEvidenceSection[];
+  bundle: {
+    packageId: string;
+    fileName: string;
+    fileSize: number;
+    sha256: string;
+    files: number;
+    missing: string[];
+  } | null;
+}
+
+export interface UnverifiedEvidenceSection {
+  section: 'compliance' | 'contributions' | 'ethics';
+  reason: string;
 }
 
 export interface VerificationResult {
@@ -154,6 +287,10 @@ export interface VerificationResult {
   generatedAt: string;
   fileExists: boolean;
   hashMatches: boolean;
+  ipfsCid?: string | null;
+  ipfsUrl?: string | null;
+  signatureKeyId?: string | null;
+  signatureValid?: boolean | null;
   message?: string;
 }
 
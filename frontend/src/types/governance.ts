@@ -51,7 +51,7 @@ export interface VettingChallenge {
   title: string;
   description: string;
   bountyAmount: number;
-  vettingStatus: 'PENDING' | 'APPROVED' | 'REJECTED';
+  vettingStatus: VettingStatus;
   createdAt: string;
   sponsor: {
     id: string;
@@ -59,7 +59,11 @@ export interface VettingChallenge {
   };
 }
 
+export type VettingStatus = 'PENDING' | 'APPROVED' | 'REJECTED' | 'CHANGES_REQUESTED';
+
+export type VettingDecision = 'APPROVE' | 'REJECT' | 'REQUEST_CHANGES';
+
 export interface VettingResponse {
-  approved: boolean;
-  reason?: string;
+  decision: VettingDecision;
+  notes: string;
 }
@@ -20,6 +20,12 @@ export const ContributionType = {
 
 export type ContributionType = typeof ContributionType[keyof typeof ContributionType];
 
+/**
+ * Result of moderating user-generated text on write.
+ * QUARANTINED content is only visible to its author until a moderator reviews it.
+ */
+export type ModerationStatus = 'CLEAR' | 'FLAGGED' | 'QUARANTINED';
+
 export interface User {
   id: string;
   email: string;
@@ -32,6 +38,7 @@ export interface User {
     interests?: string;
     displayName?: string;
   };
+  emailVerifiedAt?: string | null;
   createdAt: string;
   stats?: {
     totalContributions?: number;
@@ -51,6 +58,9 @@ export interface Challenge {
     id: string;
     email: string;
   };
+  projectLeaderId?: string | null;
+  vettingStatus?: 'PENDING' | 'APPROVED' | 'REJECTED' | 'CHANGES_REQUESTED'; // sponsor only
+  vettingNotes?: string | null; // sponsor only
   createdAt: string;
   updatedAt?: string;
   tags?: string[];
@@ -64,6 +74,7 @@ export interface Contribution {
   content: string;
   type: ContributionType;
   tokenValue: number;
+  moderationStatus?: ModerationStatus;
   createdAt: string;
   updatedAt?: string;
   user?: User;
@@ -86,11 +97,47 @@ export interface SignupCredentials {
   confirmPassword?: string;
 }
 
-export interface AuthResponse {
+/**
+ * Short-lived access token and the single-use refresh token that renews it
+ */
+export interface AuthTokens {
   token: string;
+  refreshToken: string;
+}
+
+export interface AuthResponse extends AuthTokens {
   user: User;
 }
 
+/**
+ * A signed-in device, as listed on the profile page
+ */
+export interface Session {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+  current: boolean;
+}
+
+export type KycStatus = 'PENDING' | 'VERIFIED' | 'REJECTED' | 'EXPIRED';
+
+export interface KycStatusSummary {
+  status: KycStatus;
+  verifiedAt: string | null;
+  expiresAt: string | null;
+  latest: {
+    id: string;
+    provider: string;
+    status: string;
+    reason: string | null;
+    createdAt: string;
+    completedAt: string | null;
+  } | null;
+}
+
 export interface Payment {
   id: string;
   challengeId: string;
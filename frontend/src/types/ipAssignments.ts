@@ -0,0 +1,25 @@
+/**
+ * Type definitions for IP assignment agreements
+ */
+
+export interface IPAssignment {
+  id: string;
+  challengeId: string;
+  userId: string;
+  user?: {
+    id: string;
+    email: string;
+  };
+  agreementVersion: string;
+  contentHash: string;
+  signedName: string;
+  signedAt: string;
+  isCurrentVersion: boolean;
+}
+
+export interface IPAgreement {
+  version: string;
+  text: string;
+  contentHash: string;
+  assignment: IPAssignment | null;
+}
@@ -0,0 +1,31 @@
+/**
+ * Type definitions for composition manifests
+ */
+
+export interface ManifestEntry {
+  contributorId: string;
+  role: string;
+  weight: number;
+  ref?: string;
+}
+
+export interface CompositionManifest {
+  id: string;
+  challengeId: string;
+  leader: {
+    id: string;
+    email: string;
+  };
+  entries: ManifestEntry[];
+  totalDeclared: number;
+  signedByLeader: boolean;
+  signedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ManifestValidation {
+  valid: boolean;
+  totalDeclared: number;
+  errors: string[];
+}
@@ -0,0 +1,54 @@
+/**
+ * Type definitions for payout proposals
+ */
+
+export const PayoutProposalStatus = {
+  DRAFT: 'DRAFT',
+  AWAITING_SPONSOR: 'AWAITING_SPONSOR',
+  SPONSOR_REJECTED: 'SPONSOR_REJECTED',
+  AWAITING_AUDIT: 'AWAITING_AUDIT',
+  AUDIT_FAILED: 'AUDIT_FAILED',
+  APPROVED: 'APPROVED',
+  RELEASED: 'RELEASED'
+} as const;
+
+export type PayoutProposalStatus = typeof PayoutProposalStatus[keyof typeof PayoutProposalStatus];
+
+export interface PayoutEntry {
+  userId: string;
+  amount: number;
+  reason?: string;
+  contributionId?: string;
+}
+
+export interface PayoutProposal {
+  id: string;
+  challengeId: string;
+  challenge: {
+    id: string;
+    title: string;
+    status: string;
+    bountyAmount: number;
+  };
+  leader: {
+    id: string;
+    email: string;
+  };
+  status: PayoutProposalStatus;
+  distribution: PayoutEntry[];
+  withinTolerance: boolean;
+  toleranceNote?: string;
+  signedByLeader: boolean;
+  leaderSignedAt?: string;
+  sponsorApproved: boolean;
+  sponsorApprovedAt?: string;
+  sponsorRejectedAt?: string;
+  sponsorNotes?: string;
+  auditStatus: string;
+  auditNotes?: string;
+  auditedBy?: string;
+  auditedAt?: string;
+  releasedAt?: string;
+  evidencePackUrl?: string;
+  createdAt: string;
+}
@@ -2,6 +2,8 @@
  * Type definitions for the Proposal system
  */
 
+import type { ModerationStatus } from './index';
+
 export const ProposalStatus = {
   PENDING: 'PENDING',
   ACCEPTED: 'ACCEPTED',
@@ -32,6 +34,7 @@ export interface Proposal {
   };
   respondedAt?: string;
   responseMessage?: string;
+  moderationStatus?: ModerationStatus;
   createdAt: string;
   updatedAt: string;
 }
@@ -0,0 +1,25 @@
+/**
+ * Type definitions for user reputation
+ */
+
+export interface ReputationBadge {
+  id: string;
+  label: string;
+  description: string;
+}
+
+export interface Reputation {
+  userId: string;
+  asContributor: number;
+  asProjectLeader: number;
+  asSponsor: number;
+  totalProjects: number;
+  successfulProjects: number;
+  disputesRaised: number;
+  disputesAgainst: number;
+  contributionPoints: number;
+  leadershipPoints: number;
+  stewardshipPoints: number;
+  badges: ReputationBadge[];
+  lastUpdated: string;
+}
@@ -2,6 +2,8 @@
  * Type definitions for the Submission system
  */
 
+import type { ModerationStatus } from './index';
+
 export const SubmissionStatus = {
   DRAFT: 'DRAFT',
   SUBMITTED: 'SUBMITTED',
@@ -47,6 +49,7 @@ export interface Submission {
   };
   reviewedAt?: string;
   reviewNotes?: string;
+  moderationStatus?: ModerationStatus;
   files: SubmissionFile[];
   createdAt: string;
   updatedAt: string;
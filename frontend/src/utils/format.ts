@@ -170,3 +170,12 @@ export function formatCurrencySpoken(amount: number): string {
 
   return `${dollars} ${dollars === 1 ? 'dollar' : 'dollars'} and ${cents} ${cents === 1 ? 'cent' : 'cents'}`;
 }
+
+/**
+ * Display name for an event actor; the platform's system account shows as automated
+ * @param actor - Event actor with email and role
+ * @returns Actor label
+ */
+export function formatActor(actor: { email: string; role?: string }): string {
+  return actor.role === 'SYSTEM' ? 'Automated (system)' : actor.email;
+}
@@ -0,0 +1,48 @@
+/**
+ * Helpers for talking to the browser wallet (EIP-1193 provider)
+ */
+
+interface EthereumProvider {
+  request(args: { method: string; params?: unknown[] }): Promise<unknown>;
+}
+
+declare global {
+  interface Window {
+    ethereum?: EthereumProvider;
+  }
+}
+
+export interface ConnectedWallet {
+  address: string;
+  chainId: number;
+  /** Ask the wallet to sign a plain-text message (personal_sign) */
+  signMessage(message: string): Promise<string>;
+}
+
+/**
+ * Connect to the injected wallet and return the selected account
+ * @throws Error if no wallet is installed or the user declines
+ */
+export async function connectWallet(): Promise<ConnectedWallet> {
+  const provider = window.ethereum;
+
+  if (!provider) {
+    throw new Error('No Ethereum wallet found. Install MetaMask or a similar wallet to continue.');
+  }
+
+  const accounts = (await provider.request({ method: 'eth_requestAccounts' })) as string[];
+
+  if (!accounts?.length) {
+    throw new Error('No wallet account selected');
+  }
+
+  const address = accounts[0];
+  const chainId = parseInt((await provider.request({ method: 'eth_chainId' })) as string, 16);
+
+  return {
+    address,
+    chainId,
+    signMessage: async (message: string) =>
+      (await provider.request({ method: 'personal_sign', params: [message, address] })) as string,
+  };
+}